@@ -2,21 +2,223 @@
 // AI Answer API Route Handler
 // ============================================
 //
-// Generates structured AI answers with citations using AI SDK's generateObject.
-// Returns type-safe JSON with guaranteed schema compliance.
+// Generates structured AI answers with citations using AI SDK's streamObject.
+// The answer streams as newline-delimited JSON events (partial answers while
+// the model writes, then the finished answer), so previews render content,
+// citations and confidence as they arrive. Citations are
+// resolved to real course materials (hallucinated sources are repaired or
+// dropped), and generated answers are verified claim by claim against
+// their cited materials, so the confidence score reflects how much of the
+// answer they support. Questions about a guarded assignment follow its
+// academic-integrity mode. Answers to repeated questions are served from a
+// semantic cache while their materials are unchanged.
 
-import { generateObject } from 'ai';
+import { streamObject, type DeepPartial } from 'ai';
 import { getAISDKModel, getAISDKConfig } from '@/lib/llm/ai-sdk-providers';
-import { AIAnswerSchema } from '@/lib/llm/schemas/citation';
+import { ModelRouterError } from '@/lib/llm/model-router';
+import { isCourseBudgetExhausted, recordLLMUsage } from '@/lib/llm/usage';
+import { AIAnswerSchema, type AIAnswerStructured } from '@/lib/llm/schemas/citation';
 import { buildSystemPrompt } from '@/lib/llm/utils';
+import { loadCoursePromptSettings } from '@/lib/llm/prompts/course';
+import { appendPrompt } from '@/lib/llm/prompts/registry';
+import {
+  applyIntegrityPolicy,
+  buildIntegrityPrompt,
+  enforceIntegrityMode,
+  previewIntegrityMode,
+} from '@/lib/llm/integrity';
+import {
+  getMaterialUrl,
+  removeCitationMarkers,
+  resolveSource,
+  type CitationMaterial,
+} from '@/lib/llm/utils/citations';
 import { api } from '@/lib/api/client';
-import { createHybridRetriever } from '@/lib/retrieval';
-import { commonErrors } from '@/lib/api/errors';
-import type { AIAnswer, CourseMaterial } from '@/lib/models/types';
+import {
+  AnswerVerifier,
+  QueryRouter,
+  createPassageRetriever,
+  formatHeadingPath,
+  getAnswerCache,
+  loadEndorsedAnswers,
+  toAnswerRouting,
+  type HybridRetrievalConfig,
+  type RetrievalResult,
+  type VerificationSource,
+} from '@/lib/retrieval';
+import { ERROR_CODES, commonErrors } from '@/lib/api/errors';
+import type {
+  AIAnswer,
+  AIAnswerDraft,
+  AIAnswerResponseMetadata,
+  AIAnswerRouting,
+  AIAnswerStreamEvent,
+  AssignmentIntegrityMode,
+  Citation,
+  CourseMaterial,
+} from '@/lib/models/types';
 
 // Allow up to 30 seconds for answer generation
 export const maxDuration = 30;
 
+/**
+ * Length of passage excerpts in template answers
+ */
+const TEMPLATE_EXCERPT_LENGTH = 240;
+
+/**
+ * Shortest interval between partial answer events
+ */
+const PARTIAL_INTERVAL_MS = 100;
+
+/**
+ * Stream answer events as newline-delimited JSON
+ *
+ * run gets a send function and a signal that aborts when the client
+ * disconnects or cancels the response. Errors thrown by run are sent as
+ * an error event (nothing is sent once the client is gone).
+ */
+function streamAnswerEvents(
+  req: Request,
+  run: (send: (event: AIAnswerStreamEvent) => void, signal: AbortSignal) => Promise<void>
+): Response {
+  const encoder = new TextEncoder();
+  const abort = new AbortController();
+  req.signal.addEventListener('abort', () => abort.abort(), { once: true });
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: AIAnswerStreamEvent) => {
+        if (!abort.signal.aborted) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+        }
+      };
+
+      try {
+        await run(send, abort.signal);
+      } catch (error) {
+        if (abort.signal.aborted) {
+          console.log('[AI Answer] Generation cancelled by the client');
+        } else {
+          console.error('[AI Answer] Error:', error);
+          send({
+            type: 'error',
+            error:
+              // Every provider failed: the AI service is down, not this request
+              error instanceof ModelRouterError
+                ? {
+                    code: ERROR_CODES.LLM_UNAVAILABLE,
+                    message: 'The AI service is temporarily unavailable. Please try again in a minute.',
+                  }
+                : { code: ERROR_CODES.GENERATION_FAILED, message: 'Failed to generate an answer.' },
+          });
+        }
+      }
+
+      if (!abort.signal.aborted) {
+        controller.close();
+      }
+    },
+    cancel() {
+      abort.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'application/x-ndjson; charset=utf-8',
+      'Cache-Control': 'no-cache',
+    },
+  });
+}
+
+/**
+ * Response with a finished answer only (cached and template answers)
+ */
+function finalAnswerResponse(req: Request, answer: AIAnswer, metadata: AIAnswerResponseMetadata): Response {
+  return streamAnswerEvents(req, async (send) => send({ type: 'final', answer, metadata }));
+}
+
+/**
+ * Partial structured output as a draft answer
+ *
+ * Citations are included once their source is known; under a guarded
+ * integrity mode, code blocks are held back until they can be checked.
+ */
+function toAnswerDraft(
+  partial: DeepPartial<AIAnswerStructured>,
+  mode: AssignmentIntegrityMode
+): AIAnswerDraft {
+  return {
+    content: previewIntegrityMode(partial.content ?? '', mode),
+    citations: (partial.citations ?? []).flatMap((citation, index): Citation[] =>
+      citation?.source
+        ? [{
+            id: `draft-cite-${index + 1}`,
+            source: citation.source,
+            sourceType: citation.sourceType ?? 'lecture',
+            excerpt: citation.excerpt ?? '',
+            relevance: citation.relevance ?? 0,
+          }]
+        : []
+    ),
+    ...(partial.confidence?.level && { confidenceLevel: partial.confidence.level }),
+    ...(partial.confidence?.score !== undefined && { confidenceScore: partial.confidence.score }),
+  };
+}
+
+/**
+ * Template answer listing the retrieved passages (no LLM call)
+ *
+ * Used once the course has used up its monthly LLM budget.
+ */
+function buildTemplateAnswer(results: RetrievalResult[]): Pick<AIAnswer, 'content' | 'citations'> {
+  if (results.length === 0) {
+    return {
+      content:
+        "This course has used its AI budget for the month, so this question hasn't been answered automatically. " +
+        "An instructor or TA will follow up in the thread.",
+      citations: [],
+    };
+  }
+
+  let content =
+    'This course has used its AI budget for the month, so instead of a generated answer, ' +
+    'here are the course materials that best match your question:\n\n';
+
+  const citations = results.map((result, index): Citation => {
+    const { material, chunk } = result;
+    const section = chunk ? formatHeadingPath(chunk.headingPath) : '';
+    const text = chunk?.text ?? material.content;
+    const excerpt =
+      text.substring(0, TEMPLATE_EXCERPT_LENGTH) + (text.length > TEMPLATE_EXCERPT_LENGTH ? '...' : '');
+
+    content += `${index + 1}. **${material.title}**${section ? ` > ${section}` : ''} [${index + 1}]\n`;
+    content += `   > ${excerpt.replace(/\s+/g, ' ')}\n\n`;
+
+    return {
+      id: `cite-${Math.random().toString(36).substring(7)}`,
+      source: material.title,
+      sourceType: material.type === 'slide' ? 'slides' : material.type,
+      excerpt,
+      relevance: Math.round(result.score * 100),
+      materialId: material.id,
+      verified: true,
+      link: getMaterialUrl(material.id),
+      ...(chunk && {
+        passageId: chunk.id,
+        section: section || undefined,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+      }),
+    };
+  });
+
+  content += 'An instructor or TA can follow up in the thread.';
+
+  return { content, citations };
+}
+
 /**
  * POST /api/answer
  *
@@ -26,14 +228,50 @@ export const maxDuration = 30;
  * - question: The question text
  * - courseId: ID of the course
  * - userId: ID of the user asking
+ * - tags: Thread tags (optional; "assignment-{id}" ties the question to an assignment)
+ *
+ * Each citation is resolved to a course material: a wrong passage number or
+ * title is repaired by title or excerpt, and citations that match no
+ * material are dropped along with their inline markers. Only citations
+ * whose quoted excerpt appears in the material are marked verified (and
+ * get a link).
+ *
+ * Generated answers are verified: each claim is checked against the
+ * materials it cites, confidenceScore/confidenceLevel are recomputed from
+ * the share of grounded claims, and the verdicts are returned in
+ * answer.verification (so unsupported sentences can be marked).
+ *
+ * The system prompt includes the course's persona and policy overrides;
+ * answer.promptVersion records which prompt version produced the answer.
+ *
+ * Questions about an assignment in hint-only or conceptual-only mode skip
+ * cached answers, get that mode's instructions, and have long code blocks
+ * removed from the answer; requests for full solutions are logged for
+ * instructor review. metadata.integrity reports the mode applied.
+ *
+ * Answers are cached by question embedding and the versions of the
+ * materials retrieved for them. A question similar enough to a cached one
+ * gets the cached answer (no retrieval or LLM call) as long as those
+ * materials haven't been updated since; routing.fromCache and
+ * routing.cacheHit mark the hit. Guarded questions and low-confidence
+ * answers are never cached.
  *
- * Returns: Structured AI answer with citations (JSON)
+ * Returns: newline-delimited JSON events (AIAnswerStreamEvent):
+ * - partial: the answer so far, at most every PARTIAL_INTERVAL_MS (content,
+ *   then confidence, then citations as the model wrote them; code blocks of
+ *   guarded questions are held back until checked)
+ * - final: the finished answer with citations and metadata (cached and
+ *   template answers send only this)
+ * - error: generation failed after the stream started
+ * Invalid requests and an unconfigured LLM fail before streaming, with a
+ * JSON error and status code. Cancelling the request (e.g. the student
+ * edits the question) stops retrieval, generation and verification.
  */
 export async function POST(req: Request) {
   try {
     // Parse request body
     const body = await req.json();
-    const { question, courseId, userId } = body;
+    const { question, courseId, userId, tags } = body;
 
     // Validation
     if (!question || typeof question !== 'string') {
@@ -48,12 +286,8 @@ export async function POST(req: Request) {
       return commonErrors.validationError('User ID');
     }
 
-    // Get AI SDK model
-    const model = getAISDKModel();
-
-    // If model is not available, return error (frontend will fall back to template)
-    if (!model) {
-      return commonErrors.llmUnavailable();
+    if (tags !== undefined && !Array.isArray(tags)) {
+      return commonErrors.validationError('Tags');
     }
 
     // Load course and materials
@@ -70,111 +304,407 @@ export async function POST(req: Request) {
 
     console.log(`[AI Answer] Generating answer for course ${course.code}, ${materials.length} materials available`);
 
-    // Use hybrid retrieval system (same as kb_search tool)
-    const { retriever } = await createHybridRetriever(materials as CourseMaterial[], {
-      useRRF: true,
-      rrfK: 60,
-      useMMR: true,
-      mmrLambda: 0.7,
-    });
+    // Questions about a guarded assignment get its integrity mode (and requests
+    // for full solutions are logged)
+    const integrity = await applyIntegrityPolicy({ question, courseId, userId, feature: 'answer', tags });
+    const integrityMetadata: AIAnswerResponseMetadata['integrity'] = {
+      mode: integrity.mode,
+      assignmentId: integrity.assignment?.id ?? null,
+    };
 
-    // Retrieve top 5 relevant materials
-    const results = await retriever.retrieve(question, 5);
-
-    console.log(`[AI Answer] Found ${results.length} relevant materials`);
-
-    // Format materials for LLM context
-    let contextText = '';
-    if (results.length > 0) {
-      contextText = '**Relevant Course Materials:**\n\n';
-      results.forEach((result, index) => {
-        const material = result.material;
-        contextText += `${index + 1}. **${material.title}** (${material.type})\n`;
-        // Include excerpt or full content if short
-        const excerpt = material.content.length > 300
-          ? material.content.substring(0, 300) + '...'
-          : material.content;
-        contextText += `   ${excerpt}\n`;
-        contextText += `   *Relevance: ${Math.round(result.score * 100)}%*\n\n`;
-      });
-      contextText += '---\n\n';
-    }
+    // Once the course's monthly budget is used up, answer from the passages
+    // alone (checked before retrieval, which may call the LLM reranker)
+    const budgetExhausted = await isCourseBudgetExhausted(courseId);
 
-    // Build system prompt
-    const systemPrompt = buildSystemPrompt();
+    // Route the question: reuse an endorsed answer, or size retrieval to query confidence.
+    // Endorsed answers weren't written under an assignment's mode, so guarded
+    // questions are always retrieved for.
+    const endorsedAnswers = integrity.mode === 'unrestricted' ? await loadEndorsedAnswers(courseId) : [];
+    const router = new QueryRouter(materials as CourseMaterial[], endorsedAnswers);
+    const decision = await router.route(question);
+    const routing = toAnswerRouting(decision);
 
-    // Build detailed prompt for answer generation
-    const answerPrompt = `
-[Course Context: ${course.code} - ${course.name}]
+    console.log(`[AI Answer] Routing: ${decision.action} (query confidence ${decision.queryConfidence})`);
 
-${contextText}
+    if (decision.cachedAnswer) {
+      const now = new Date().toISOString();
+      const aiAnswer: AIAnswer = {
+        id: `ai-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Temporary ID
+        threadId: '', // Will be set when thread is created
+        courseId: courseId,
+        content: decision.cachedAnswer.content,
+        confidenceLevel: decision.cachedAnswer.confidenceLevel,
+        confidenceScore: decision.cachedAnswer.confidenceScore,
+        citations: decision.cachedAnswer.citations,
+        promptVersion: decision.cachedAnswer.promptVersion,
+        studentEndorsements: 0,
+        instructorEndorsements: 0,
+        totalEndorsements: 0,
+        endorsedBy: [],
+        instructorEndorsed: false,
+        generatedAt: now,
+        updatedAt: now,
+        routing,
+      };
 
-**Student Question:**
-${question}
+      return finalAnswerResponse(req, aiAnswer, {
+        materialsUsed: 0,
+        courseId: course.id,
+        courseCode: course.code,
+        routing,
+        integrity: integrityMetadata,
+      });
+    }
 
-**Instructions:**
-- Provide a clear, comprehensive answer to the student's question
-- Use the provided course materials to support your answer
-- Include citations to specific course materials you reference (use [1], [2], etc.)
-- Assess your confidence in the answer accuracy
-- Format your answer in markdown for readability
-- Suggest 2-3 follow-up questions the student might find helpful
-- Keep the answer between 200-500 words unless the question requires more depth
-`.trim();
+    // Build system prompt (with the course's persona/policy and the assignment's integrity mode)
+    const basePrompt = buildSystemPrompt(await loadCoursePromptSettings(courseId));
+    const integrityPrompt = buildIntegrityPrompt(integrity);
+    const systemPrompt = integrityPrompt ? appendPrompt(basePrompt, integrityPrompt) : basePrompt;
 
-    // Get AI SDK configuration
-    const config = getAISDKConfig();
+    // Reuse the answer to an earlier, similar question if its materials are unchanged
+    const answerCache = getAnswerCache();
+    const cacheable = integrity.mode === 'unrestricted';
+    const cached = cacheable
+      ? await answerCache
+          .lookup({
+            courseId,
+            question,
+            materials: materials as CourseMaterial[],
+            promptVersion: systemPrompt.promptVersion,
+          })
+          .catch((error) => {
+            console.error('[AI Answer] Answer cache lookup failed:', error);
+            return null;
+          })
+      : null;
 
-    console.log('[AI Answer] Generating structured answer with AI SDK...');
+    if (cached) {
+      console.log(`[AI Answer] Answer cache hit (similarity ${cached.similarity}, cached ${cached.cachedAt})`);
 
-    // Generate structured answer using generateObject
-    const result = await generateObject({
-      model,
-      schema: AIAnswerSchema,
-      system: systemPrompt,
-      prompt: answerPrompt,
-      temperature: config.temperature,
-    });
+      const cacheRouting: AIAnswerRouting = {
+        ...routing,
+        action: 'use-cache',
+        fromCache: true,
+        strategy: 'Reuse cached answer',
+        reasoning:
+          `Question is ${Math.round(cached.similarity * 100)}% similar to one answered at ${cached.cachedAt}, ` +
+          `and the ${cached.materialIds.length} materials its answer drew on are unchanged; reusing that answer.`,
+        cacheHit: {
+          aiAnswerId: cached.answer.id,
+          threadId: '',
+          similarity: cached.similarity,
+          source: 'answer-cache',
+        },
+      };
 
-    console.log(`[AI Answer] Generated answer with ${result.object.citations.length} citations`);
-
-    // Transform AI SDK output to our AIAnswer format
-    const aiAnswer: AIAnswer = {
-      id: `ai-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Temporary ID
-      threadId: '', // Will be set when thread is created
-      courseId: courseId,
-      content: result.object.content,
-      confidenceLevel: result.object.confidence.level,
-      confidenceScore: result.object.confidence.score,
-      citations: result.object.citations.map(citation => ({
-        id: `cite-${Math.random().toString(36).substring(7)}`,
-        source: citation.source,
-        sourceType: citation.sourceType,
-        excerpt: citation.excerpt,
-        relevance: citation.relevance,
-      })),
-      studentEndorsements: 0,
-      instructorEndorsements: 0,
-      totalEndorsements: 0,
-      endorsedBy: [],
-      instructorEndorsed: false,
-      generatedAt: new Date().toISOString(),
-      updatedAt: new Date().toISOString(),
-    };
+      const aiAnswer: AIAnswer = {
+        ...cached.answer,
+        id: `ai-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Temporary ID
+        routing: cacheRouting,
+      };
 
-    // Return structured answer
-    return Response.json({
-      success: true,
-      answer: aiAnswer,
-      metadata: {
-        materialsUsed: results.length,
+      return finalAnswerResponse(req, aiAnswer, {
+        materialsUsed: cached.materialIds.length,
         courseId: course.id,
         courseCode: course.code,
-      },
+        routing: cacheRouting,
+        integrity: integrityMetadata,
+      });
+    }
+
+    // Get AI SDK model
+    const model = getAISDKModel();
+
+    // If model is not available, return error (frontend will fall back to template)
+    if (!model) {
+      return commonErrors.llmUnavailable();
+    }
+
+    // Use passage-level hybrid retrieval (same as kb_search tool), sized by the router;
+    // over budget, passages are reranked lexically instead of by the LLM
+    const { limit, config, maxPassagesPerMaterial } = decision.retrieval;
+    const retrievalConfig: HybridRetrievalConfig = budgetExhausted ? { ...config, rerankerType: 'lexical' } : config;
+
+    // Retrieval and generation run inside the stream, so a cancelled request stops them
+    return streamAnswerEvents(req, async (send, signal) => {
+      const { retriever } = await createPassageRetriever(materials as CourseMaterial[], retrievalConfig, {
+        maxPassagesPerMaterial,
+      });
+
+      const results = await retriever.retrieve(question, limit);
+
+      console.log(`[AI Answer] Found ${results.length} relevant passages`);
+
+      if (budgetExhausted) {
+        console.log(`[AI Answer] LLM budget exhausted for course ${course.code}, using template answer`);
+
+        const now = new Date().toISOString();
+        const aiAnswer: AIAnswer = {
+          id: `ai-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Temporary ID
+          threadId: '', // Will be set when thread is created
+          courseId: courseId,
+          ...buildTemplateAnswer(results),
+          confidenceLevel: 'low',
+          confidenceScore: 0,
+          studentEndorsements: 0,
+          instructorEndorsements: 0,
+          totalEndorsements: 0,
+          endorsedBy: [],
+          instructorEndorsed: false,
+          generatedAt: now,
+          updatedAt: now,
+          routing,
+        };
+
+        send({
+          type: 'final',
+          answer: aiAnswer,
+          metadata: {
+            materialsUsed: results.length,
+            courseId: course.id,
+            courseCode: course.code,
+            routing,
+            integrity: integrityMetadata,
+            budgetExhausted: true,
+          },
+        });
+        return;
+      }
+
+      // Format passages for LLM context
+      let contextText = '';
+      if (results.length > 0) {
+        contextText = '**Relevant Course Materials:**\n\n';
+        results.forEach((result, index) => {
+          const { material, chunk } = result;
+          const section = chunk ? formatHeadingPath(chunk.headingPath) : '';
+          contextText += `${index + 1}. **${material.title}**${section ? ` > ${section}` : ''} (${material.type})\n`;
+          contextText += `   ${chunk?.text ?? material.content}\n`;
+          contextText += `   *Relevance: ${Math.round(result.score * 100)}%*\n\n`;
+        });
+        contextText += '---\n\n';
+      }
+
+      // Build detailed prompt for answer generation
+      const answerPrompt = `
+  [Course Context: ${course.code} - ${course.name}]
+
+  ${contextText}
+
+  **Student Question:**
+  ${question}
+
+  **Instructions:**
+  - Provide a clear, comprehensive answer to the student's question
+  - Use the provided course materials to support your answer
+  - Include citations to specific course materials you reference (use [1], [2], etc.), and set each citation's sourceNumber to the number of the passage it cites
+  - Quote each citation's excerpt verbatim from the passage it cites
+  - Assess your confidence in the answer accuracy
+  - Format your answer in markdown for readability
+  - Suggest 2-3 follow-up questions the student might find helpful
+  - Keep the answer between 200-500 words unless the question requires more depth
+  `.trim();
+
+      // Get AI SDK configuration
+      const config = getAISDKConfig();
+
+      console.log('[AI Answer] Streaming structured answer with AI SDK...');
+
+      // Stream the structured answer, sending drafts as it grows
+      let streamError: unknown;
+      const stream = streamObject({
+        model,
+        schema: AIAnswerSchema,
+        system: systemPrompt.text,
+        prompt: answerPrompt,
+        temperature: config.temperature,
+        abortSignal: signal,
+        onError: ({ error }) => {
+          streamError = error;
+        },
+      });
+
+      let lastPartialAt = 0;
+      for await (const partial of stream.partialObjectStream) {
+        const now = Date.now();
+        if (now - lastPartialAt < PARTIAL_INTERVAL_MS) continue;
+        lastPartialAt = now;
+        send({ type: 'partial', answer: toAnswerDraft(partial, integrity.mode) });
+      }
+
+      if (streamError) throw streamError;
+      const result = {
+        object: await stream.object,
+        usage: await stream.usage,
+        providerMetadata: await stream.providerMetadata,
+      };
+
+      console.log(
+        `[AI Answer] Generated answer with ${result.object.citations.length} citations (prompt ${systemPrompt.promptVersion})`
+      );
+
+      await recordLLMUsage({
+        feature: 'answer',
+        model,
+        usage: result.usage,
+        providerMetadata: result.providerMetadata,
+        userId,
+        courseId,
+      });
+
+      // Resolve each citation to a real course material and check its quoted excerpt
+      const citationMaterials: CitationMaterial[] = (materials as CourseMaterial[]).map((material) => ({
+        id: material.id,
+        title: material.title,
+        text: material.content,
+      }));
+      const sources: VerificationSource[] = [];
+      const keptNumbers = new Set<number>();
+      const rejectedNumbers: number[] = [];
+      const resolutions = { resolved: 0, repaired: 0, rejected: 0, verified: 0 };
+
+      const citations = result.object.citations.flatMap((citation, index): Citation[] => {
+        const number = citation.sourceNumber ?? index + 1;
+        const cited = citation.sourceNumber ? results[citation.sourceNumber - 1] : undefined;
+        const resolved = resolveSource(
+          { title: citation.source, materialId: cited?.material.id, excerpt: citation.excerpt },
+          citationMaterials
+        );
+
+        resolutions[resolved.resolution]++;
+        if (!resolved.material) {
+          rejectedNumbers.push(number);
+          return [];
+        }
+        keptNumbers.add(number);
+        if (resolved.verified) resolutions.verified++;
+
+        // A repaired citation no longer points at the retrieved passage
+        const material = resolved.material;
+        const chunk = cited?.material.id === material.id ? cited.chunk : undefined;
+        const match = resolved.excerptMatch;
+        const id = `cite-${Math.random().toString(36).substring(7)}`;
+
+        // Check claims against the cited passage (or the whole material)
+        sources.push({
+          citationId: id,
+          number,
+          title: material.title,
+          text: chunk?.text ?? material.text,
+        });
+
+        return [{
+          id,
+          source: resolved.resolution === 'repaired' ? material.title : citation.source,
+          sourceType: citation.sourceType,
+          excerpt: citation.excerpt,
+          relevance: citation.relevance,
+          materialId: material.id,
+          verified: resolved.verified,
+          ...(resolved.verified && { link: getMaterialUrl(material.id) }),
+          ...(chunk
+            ? {
+                passageId: chunk.id,
+                section: formatHeadingPath(chunk.headingPath) || undefined,
+                startOffset: chunk.startOffset,
+                endOffset: chunk.endOffset,
+              }
+            : match && { startOffset: match.startOffset, endOffset: match.endOffset }),
+        }];
+      });
+
+      console.log(
+        `[AI Answer] Citations: ${resolutions.resolved} resolved, ${resolutions.repaired} repaired, ` +
+          `${resolutions.rejected} rejected, ${resolutions.verified} verified`
+      );
+
+      // Drop the markers of rejected citations (unless another citation uses the same number),
+      // and code blocks too long for the assignment's integrity mode
+      const { content, redactedBlocks } = enforceIntegrityMode(
+        removeCitationMarkers(
+          result.object.content,
+          rejectedNumbers.filter((number) => !keptNumbers.has(number))
+        ),
+        integrity.mode
+      );
+
+      if (redactedBlocks > 0) {
+        console.log(`[AI Answer] Removed ${redactedBlocks} code block(s) (${integrity.mode})`);
+      }
+
+      // The user edited the question or left: don't spend a verification call
+      if (signal.aborted) return;
+
+      // Verify claims against the cited materials; confidence comes from real support
+      const verified = await new AnswerVerifier({ model }).verify({
+        content,
+        sources,
+        reportedConfidenceScore: result.object.confidence.score,
+      });
+
+      console.log(
+        `[AI Answer] Verified ${verified.verification.claims.length} claims (${verified.verification.method}): ` +
+          `${verified.verification.groundedCount} grounded, confidence ${result.object.confidence.score} -> ${verified.confidenceScore}`
+      );
+
+      await recordLLMUsage({
+        feature: 'answer',
+        model,
+        usage: verified.usage,
+        providerMetadata: verified.providerMetadata,
+        userId,
+        courseId,
+      });
+
+      // Transform AI SDK output to our AIAnswer format
+      const aiAnswer: AIAnswer = {
+        id: `ai-${Date.now()}-${Math.random().toString(36).substring(7)}`, // Temporary ID
+        threadId: '', // Will be set when thread is created
+        courseId: courseId,
+        content,
+        confidenceLevel: verified.confidenceLevel,
+        confidenceScore: verified.confidenceScore,
+        citations,
+        promptVersion: systemPrompt.promptVersion,
+        studentEndorsements: 0,
+        instructorEndorsements: 0,
+        totalEndorsements: 0,
+        endorsedBy: [],
+        instructorEndorsed: false,
+        generatedAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString(),
+        routing,
+        verification: verified.verification,
+      };
+
+      // Cache the answer for repeated questions (keyed by the materials it was retrieved from)
+      if (cacheable && aiAnswer.confidenceLevel !== 'low') {
+        await answerCache
+          .store({ courseId, question, materials: results.map((r) => r.material), answer: aiAnswer })
+          .catch((error) => console.error('[AI Answer] Answer cache store failed:', error));
+      }
+
+      // Send the finished answer
+      send({
+        type: 'final',
+        answer: aiAnswer,
+        metadata: {
+          materialsUsed: results.length,
+          courseId: course.id,
+          courseCode: course.code,
+          routing,
+          integrity: integrityMetadata,
+        },
+      });
     });
   } catch (error) {
     console.error('[AI Answer] Error:', error);
 
+    // Every provider failed: the AI service is down, not this request
+    if (error instanceof ModelRouterError) {
+      return commonErrors.llmProvidersFailed();
+    }
+
     // Return structured error
     return commonErrors.internalError(error);
   }
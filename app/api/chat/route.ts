@@ -3,13 +3,31 @@
 // ============================================
 //
 // Handles streaming AI conversations using Vercel AI SDK with tool calling.
-// Supports dynamic course material retrieval via kb.search and kb.fetch tools.
+// Runs a multi-step tool loop (course materials, existing threads, endorsed
+// answers, assignment due dates) bounded by a per-request step budget.
+// Finished turns are persisted server-side (text, tool calls, token usage,
+// material references), and each call is recorded in the LLM usage ledger.
 
-import { streamText, convertToCoreMessages } from 'ai';
+import {
+  streamText,
+  stepCountIs,
+  convertToCoreMessages,
+  createIdGenerator,
+  createUIMessageStream,
+  createUIMessageStreamResponse,
+  type LanguageModelUsage,
+  type UIMessage,
+} from 'ai';
 import { getAISDKModel, getAISDKConfig } from '@/lib/llm/ai-sdk-providers';
+import { ModelRouterError } from '@/lib/llm/model-router';
+import { isCourseBudgetExhausted, recordLLMUsage } from '@/lib/llm/usage';
 import { buildSystemPrompt } from '@/lib/llm/utils';
+import { loadCoursePromptSettings } from '@/lib/llm/prompts/course';
+import { appendPrompt } from '@/lib/llm/prompts/registry';
+import { applyIntegrityPolicy, buildIntegrityPrompt, createIntegrityTransform } from '@/lib/llm/integrity';
+import { getMessageText, toMessageUsage, uiMessageToAIMessage } from '@/lib/llm/utils/messages';
 import { api } from '@/lib/api/client';
-import { ragTools } from '@/lib/llm/tools';
+import { createRagTools, ToolUsageTracker, TOOL_LIMITS } from '@/lib/llm/tools';
 import { rateLimit } from '@/lib/utils/rate-limit';
 import { commonErrors } from '@/lib/api/errors';
 
@@ -19,21 +37,103 @@ export const maxDuration = 30;
 // Rate limiter: 10 requests per minute per user
 const limiter = rateLimit({ requests: 10, window: '1m' });
 
+// Assistant message IDs (sent to the client, so both sides store the same ID)
+const generateMessageId = createIdGenerator({ prefix: 'msg', size: 16 });
+
+/**
+ * Reply streamed instead of calling the LLM once the course's monthly budget is used up
+ */
+const BUDGET_EXHAUSTED_REPLY =
+  "This course has used its AI assistant budget for the month, so I can't answer right now. " +
+  'You can search the course materials directly, or post your question as a thread so an instructor, TA or classmate can help.';
+
+/**
+ * Persist a finished turn: the last user message and the assistant reply
+ *
+ * Failures are logged, not thrown; the response has already been streamed.
+ */
+async function persistChatTurn(params: {
+  conversationId: string;
+  userId: string;
+  messages: UIMessage[];
+  responseMessage: UIMessage;
+  usage: LanguageModelUsage | null;
+  promptVersion?: string;
+}): Promise<void> {
+  const { conversationId, userId, messages, responseMessage, usage, promptVersion } = params;
+
+  const lastUserMessage = [...messages].reverse().find((m) => m.role === 'user');
+  if (!lastUserMessage) return;
+
+  const userMessage = uiMessageToAIMessage(lastUserMessage, conversationId);
+  const assistantMessage = uiMessageToAIMessage(
+    responseMessage,
+    conversationId,
+    usage ? toMessageUsage(usage) : undefined
+  );
+  if (promptVersion) {
+    assistantMessage.promptVersion = promptVersion;
+  }
+
+  try {
+    await api.saveChatTurn({
+      conversationId,
+      userId,
+      userMessage,
+      // Skip replies without text (validation requirement: min 1 character)
+      assistantMessage: assistantMessage.content.trim().length > 0 ? assistantMessage : undefined,
+    });
+  } catch (error) {
+    console.error('[AI Chat] Failed to persist turn:', error);
+  }
+}
+
 /**
  * POST /api/chat (Phase 2: RAG Tools Enabled)
  *
  * Handles streaming AI chat responses with dynamic course material retrieval.
- * Uses kb.search and kb.fetch tools for on-demand material access.
+ * The model calls tools over several steps (e.g. search, then fetch) before
+ * answering.
  *
  * Request body:
  * - messages: Array of chat messages (UI format)
- * - conversationId: ID of the conversation
+ * - conversationId: ID of the conversation (finished turns are saved to it)
  * - userId: ID of the current user
  * - courseId: Optional course ID for course-specific searches
  *
- * Tool Calling:
- * - kb.search: Search course materials by query (max 1 per turn)
- * - kb.fetch: Fetch specific material by ID (max 1 per turn)
+ * Tool Calling (limits per request, see TOOL_LIMITS):
+ * - kb.search: Search course materials by query
+ * - kb.fetch: Fetch specific material by ID
+ * - threads.search: Find existing threads asking the same question
+ * - thread.answer: Fetch the endorsed AI answer of a thread
+ * - assignments.lookup: Look up assignment due dates
+ * - At most TOOL_LIMITS.maxSteps steps; the last step must answer in text
+ *
+ * Budget:
+ * - Once the course's monthly LLM budget is used up, a template reply is
+ *   streamed instead (no LLM call)
+ *
+ * Prompt:
+ * - The "tutor.system" prompt from the prompt registry, with the course's
+ *   persona and policy overrides; its version is saved on the reply
+ *
+ * Academic integrity:
+ * - Questions about an assignment in hint-only or conceptual-only mode get
+ *   that mode's instructions, and long code blocks are removed from the
+ *   reply as it streams
+ * - Requests for full solutions of those assignments are logged for
+ *   instructor review
+ *
+ * Providers:
+ * - Calls go through the model router (retries, circuit breaker, failover
+ *   to the secondary provider); if every provider fails, the stream ends
+ *   with a "temporarily unavailable" error
+ *
+ * Persistence:
+ * - Token usage is recorded in the LLM usage ledger
+ * - When the stream finishes, the user message and the assistant reply
+ *   (text, tool inputs/outputs, token usage, material references derived
+ *   from kb_search/kb_fetch) are saved via api.saveChatTurn
  *
  * Returns: Streaming text response with tool execution results
  */
@@ -43,6 +143,7 @@ export async function POST(req: Request) {
     const body = await req.json();
     const {
       messages,
+      conversationId,
       userId,
       courseId,
     } = body;
@@ -77,8 +178,43 @@ export async function POST(req: Request) {
       return commonErrors.llmUnavailable();
     }
 
-    // Build system prompt with tool instructions
-    const systemPrompt = buildSystemPrompt();
+    // Once the course's monthly budget is used up, stream a template reply instead
+    if (await isCourseBudgetExhausted(courseId)) {
+      console.log(`[AI Chat] LLM budget exhausted for course ${courseId}, streaming template reply`);
+
+      const stream = createUIMessageStream({
+        originalMessages: messages,
+        generateId: generateMessageId,
+        execute: ({ writer }) => {
+          writer.write({ type: 'start' });
+          writer.write({ type: 'text-start', id: 'budget' });
+          writer.write({ type: 'text-delta', id: 'budget', delta: BUDGET_EXHAUSTED_REPLY });
+          writer.write({ type: 'text-end', id: 'budget' });
+          writer.write({ type: 'finish' });
+        },
+        onFinish: async ({ responseMessage }) => {
+          if (!conversationId) return;
+          await persistChatTurn({ conversationId, userId, messages, responseMessage, usage: null });
+        },
+      });
+
+      return createUIMessageStreamResponse({ stream });
+    }
+
+    // Questions about a guarded assignment get its integrity mode (and requests
+    // for full solutions are logged)
+    const lastUserMessage = [...messages].reverse().find((m: UIMessage) => m.role === 'user');
+    const integrity = await applyIntegrityPolicy({
+      question: lastUserMessage ? getMessageText(lastUserMessage) : '',
+      courseId,
+      userId,
+      feature: 'chat',
+    });
+
+    // Build system prompt with tool instructions (and the course's persona/policy)
+    const basePrompt = buildSystemPrompt(await loadCoursePromptSettings(courseId));
+    const integrityPrompt = buildIntegrityPrompt(integrity);
+    const systemPrompt = integrityPrompt ? appendPrompt(basePrompt, integrityPrompt) : basePrompt;
 
     // Add course context info (basic info, not full materials - tools will retrieve those)
     let courseContextInfo = '';
@@ -99,20 +235,65 @@ export async function POST(req: Request) {
     // Get AI SDK configuration
     const config = getAISDKConfig();
 
-    // Stream response with RAG tools enabled
+    // Tools share this request's tool budget
+    const tracker = new ToolUsageTracker();
+
+    // Stream response with RAG tools enabled, looping over tool calls until
+    // the model answers or the step budget runs out
     const result = streamText({
       model,
-      system: systemPrompt + courseContextInfo,
+      system: systemPrompt.text + courseContextInfo,
       messages: coreMessages,
-      tools: ragTools,
+      tools: createRagTools(tracker),
+      stopWhen: stepCountIs(TOOL_LIMITS.maxSteps),
+      // Force a text answer on the last step
+      prepareStep: ({ stepNumber }) =>
+        stepNumber === TOOL_LIMITS.maxSteps - 1 ? { toolChoice: 'none' } : undefined,
+      // Remove long code blocks from replies about guarded assignments
+      experimental_transform: createIntegrityTransform(integrity.mode),
       temperature: config.temperature,
       topP: config.topP,
+      // Each step is its own model call (possibly served by another provider)
+      onStepFinish: (step) =>
+        recordLLMUsage({
+          feature: 'chat',
+          model,
+          usage: step.usage,
+          providerMetadata: step.providerMetadata,
+          userId,
+          courseId,
+        }),
     });
 
     console.log('[AI Chat] Streaming response started');
 
-    // Return streaming response (UI Message Stream for tool calls + useChat compatibility)
-    return result.toUIMessageStreamResponse();
+    // Return streaming response (UI Message Stream for tool calls + useChat compatibility),
+    // persisting the turn once it finishes
+    return result.toUIMessageStreamResponse({
+      originalMessages: messages,
+      generateMessageId,
+      // Stream errors reach the client as an error part (after the response has started)
+      onError: (error) => {
+        console.error('[AI Chat] Stream error:', error);
+        return error instanceof ModelRouterError
+          ? 'The AI service is temporarily unavailable. Please try again in a minute.'
+          : 'An error occurred.';
+      },
+      onFinish: async ({ responseMessage }) => {
+        const usage = await Promise.resolve(result.totalUsage).catch(() => null);
+        console.log(`[AI Chat] Response finished (${tracker.getTotal()} tool calls, prompt ${systemPrompt.promptVersion})`);
+
+        if (!conversationId) return;
+        await persistChatTurn({
+          conversationId,
+          userId,
+          messages,
+          responseMessage,
+          usage,
+          promptVersion: systemPrompt.promptVersion,
+        });
+      },
+    });
   } catch (error) {
     console.error('[AI Chat] Error:', error);
 
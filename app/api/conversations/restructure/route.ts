@@ -8,6 +8,9 @@
 import { generateObject } from 'ai';
 import { z } from 'zod';
 import { getAISDKModel, getAISDKConfig } from '@/lib/llm/ai-sdk-providers';
+import { ModelRouterError } from '@/lib/llm/model-router';
+import { isCourseBudgetExhausted, recordLLMUsage } from '@/lib/llm/usage';
+import { renderPrompt } from '@/lib/llm/prompts/registry';
 import { rateLimit } from '@/lib/utils/rate-limit';
 import { commonErrors } from '@/lib/api/errors';
 import type { RestructureConversationInput, RestructureConversationResult, AIMessage } from '@/lib/models/types';
@@ -41,34 +44,6 @@ const RestructureSchema = z.object({
   tags: z.array(z.string()).describe('Auto-generated relevant tags (3-5 tags)'),
 });
 
-/**
- * System prompt for conversation restructuring
- *
- * Instructs the LLM to intelligently restructure conversation into thread format.
- */
-const RESTRUCTURE_SYSTEM_PROMPT = `You are a teaching assistant helping students convert private AI conversations into public Q&A threads.
-
-Your task is to restructure the conversation into a clear, well-formatted thread that others can learn from.
-
-Guidelines:
-1. **Title**: Extract the main question as a clear, searchable title (max 100 characters)
-2. **Main Question**: Reformulate the student's question with full context and clarity
-3. **Best Answer**: Combine insights from the conversation into a comprehensive answer
-4. **Supporting Context**: Include prerequisites, background, or additional helpful info
-5. **Citations**: Extract any references to course materials mentioned in AI responses
-   - Look for mentions like "as discussed in Lecture 5" or "see Chapter 3"
-   - Only include citations that are explicitly mentioned, don't invent sources
-6. **Tags**: Generate 3-5 relevant tags for categorization (e.g., algorithms, binary-search, recursion)
-
-Quality Requirements:
-- Use academic tone throughout
-- Improve clarity and structure compared to original conversation
-- Fix any typos or grammatical errors
-- Ensure answer is self-contained (stands alone without conversation context)
-- Citations must be real references from the conversation, not hallucinated
-
-Return a structured object with all fields filled.`;
-
 /**
  * Build user prompt from conversation messages
  */
@@ -140,8 +115,13 @@ export async function POST(req: Request) {
       return commonErrors.llmUnavailable();
     }
 
+    // Once the course's monthly budget is used up, the client formats the thread itself
+    if (await isCourseBudgetExhausted(courseId)) {
+      return commonErrors.llmBudgetExhausted();
+    }
+
     // Build prompts
-    const systemPrompt = RESTRUCTURE_SYSTEM_PROMPT;
+    const systemPrompt = renderPrompt('conversation.restructure', {});
     const userPrompt = buildUserPrompt(messages, courseCode);
 
     // Get AI SDK configuration
@@ -152,14 +132,23 @@ export async function POST(req: Request) {
     const result = await generateObject({
       model,
       schema: RestructureSchema,
-      system: systemPrompt,
+      system: systemPrompt.text,
       prompt: userPrompt,
       temperature: 0.5, // Moderate temperature for balance between creativity and consistency
       topP: config.topP,
     });
 
     const generationTime = Date.now() - startTime;
-    console.log(`[Restructure] Completed in ${generationTime}ms for user ${userId}`);
+    console.log(`[Restructure] Completed in ${generationTime}ms for user ${userId} (prompt ${systemPrompt.promptVersion})`);
+
+    await recordLLMUsage({
+      feature: 'restructure',
+      model,
+      usage: result.usage,
+      providerMetadata: result.providerMetadata,
+      userId,
+      courseId,
+    });
 
     // Extract and validate result
     const restructured = result.object;
@@ -187,6 +176,11 @@ export async function POST(req: Request) {
   } catch (error) {
     console.error('[Restructure] Error:', error);
 
+    // Every provider failed: the AI service is down, not this request
+    if (error instanceof ModelRouterError) {
+      return commonErrors.llmProvidersFailed();
+    }
+
     // Return structured error
     return commonErrors.internalError(error);
   }
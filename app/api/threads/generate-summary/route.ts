@@ -7,6 +7,9 @@
 
 import { generateText } from 'ai';
 import { getAISDKModel, getAISDKConfig } from '@/lib/llm/ai-sdk-providers';
+import { ModelRouterError } from '@/lib/llm/model-router';
+import { isCourseBudgetExhausted, recordLLMUsage } from '@/lib/llm/usage';
+import { renderPrompt } from '@/lib/llm/prompts/registry';
 import { getEnvConfig } from '@/lib/utils/env';
 import { rateLimit } from '@/lib/utils/rate-limit';
 import { commonErrors } from '@/lib/api/errors';
@@ -18,31 +21,6 @@ export const maxDuration = 10;
 // Rate limiter: 5 summary requests per minute per thread
 const limiter = rateLimit({ requests: 5, window: '1m' });
 
-/**
- * System prompt for summary generation
- *
- * Instructs the LLM to extract key takeaways as bullet points.
- * Emphasizes actionable insights over question recap.
- */
-const SUMMARY_SYSTEM_PROMPT = `You are a teaching assistant analyzing academic Q&A threads.
-Extract the KEY TAKEAWAYS from this thread - the actionable insights
-or learning outcomes a student should remember.
-
-Requirements:
-- 2-4 bullet points maximum
-- Each point should be a complete, actionable insight
-- Focus on "what did we learn" not "what was asked"
-- Academic tone, clear and concise
-- 150-200 words total
-- Use markdown bullet points (•)
-
-Example Output:
-• Binary search achieves O(log n) time complexity by halving the search space with each iteration, making it ideal for sorted datasets
-• The algorithm requires a sorted array as input - sorting overhead must be considered when choosing this approach
-• Common pitfall: Off-by-one errors in boundary conditions can be avoided by using the formula mid = low + (high - low) / 2
-
-IMPORTANT: Return ONLY the bullet points. No introduction, no conclusion, no commentary.`;
-
 /**
  * Build user prompt from thread content
  *
@@ -81,6 +59,8 @@ function buildUserPrompt(input: GenerateSummaryInput): string {
  * - threadContent: string
  * - aiAnswerContent?: string (optional)
  * - conversationMessages?: AIMessage[] (optional)
+ * - courseId?: string (optional, usage is billed to the course)
+ * - userId?: string (optional, for usage accounting)
  *
  * Returns: GenerateSummaryResult
  * - summary: string (2-4 bullet points)
@@ -91,7 +71,7 @@ export async function POST(req: Request) {
   try {
     // Parse request body
     const body = await req.json() as GenerateSummaryInput;
-    const { threadId, threadTitle, threadContent, aiAnswerContent, conversationMessages } = body;
+    const { threadId, threadTitle, threadContent, aiAnswerContent, conversationMessages, courseId, userId } = body;
 
     // Validation
     if (!threadId || !threadTitle || !threadContent) {
@@ -118,8 +98,13 @@ export async function POST(req: Request) {
       return commonErrors.llmUnavailable();
     }
 
+    // Threads stay summary-less once the course's monthly budget is used up
+    if (await isCourseBudgetExhausted(courseId)) {
+      return commonErrors.llmBudgetExhausted();
+    }
+
     // Build prompts
-    const systemPrompt = SUMMARY_SYSTEM_PROMPT;
+    const systemPrompt = renderPrompt('thread.summary', {});
     const userPrompt = buildUserPrompt({ threadId, threadTitle, threadContent, aiAnswerContent, conversationMessages });
 
     // Get AI SDK configuration
@@ -129,14 +114,23 @@ export async function POST(req: Request) {
     const startTime = Date.now();
     const result = await generateText({
       model,
-      system: systemPrompt,
+      system: systemPrompt.text,
       prompt: userPrompt,
       temperature: 0.3, // Lower temperature for more consistent summaries
       topP: config.topP,
     });
 
     const generationTime = Date.now() - startTime;
-    console.log(`[Summary] Generated for thread ${threadId} in ${generationTime}ms`);
+    console.log(`[Summary] Generated for thread ${threadId} in ${generationTime}ms (prompt ${systemPrompt.promptVersion})`);
+
+    await recordLLMUsage({
+      feature: 'summary',
+      model,
+      usage: result.usage,
+      providerMetadata: result.providerMetadata,
+      userId,
+      courseId,
+    });
 
     // Calculate confidence score based on generation quality
     // Higher score if:
@@ -176,6 +170,11 @@ export async function POST(req: Request) {
   } catch (error) {
     console.error('[Summary] Error:', error);
 
+    // Every provider failed: the AI service is down, not this request
+    if (error instanceof ModelRouterError) {
+      return commonErrors.llmProvidersFailed();
+    }
+
     // Return structured error
     return commonErrors.internalError(error);
   }
@@ -17,6 +17,10 @@ import { BulkActionsToolbar } from "@/components/instructor/bulk-actions-toolbar
 import { InstructorEmptyState } from "@/components/instructor/instructor-empty-state";
 import { CourseSelector } from "@/components/instructor/course-selector";
 import { MetricsDashboard } from "@/components/instructor/metrics-dashboard";
+import { LLMUsagePanel } from "@/components/instructor/llm-usage-panel";
+import { PromptSettingsPanel } from "@/components/instructor/prompt-settings-panel";
+import { IntegrityPanel } from "@/components/instructor/integrity-panel";
+import { ModerationQueuePanel } from "@/components/instructor/moderation-queue-panel";
 
 /**
  * Instructor Dashboard Page
@@ -27,6 +31,10 @@ import { MetricsDashboard } from "@/components/instructor/metrics-dashboard";
  * - Priority queue of unanswered threads
  * - FAQ clusters
  * - Trending topics
+ * - AI usage, spend and monthly budgets
+ * - AI assistant persona and policy
+ * - Assignment integrity modes and logged solution requests
+ * - Moderation queue of student-reported content
  * - Bulk moderation tools
  */
 export default function InstructorPage() {
@@ -265,6 +273,43 @@ function InstructorDashboard({ data, user }: { data: InstructorDashboardData; us
           />
         </section>
 
+        {/* AI Usage & Budget */}
+        <section aria-labelledby="ai-usage-heading" className="space-y-6">
+          <h2 id="ai-usage-heading" className="text-xl sm:text-2xl md:text-3xl font-bold glass-text">
+            AI Usage & Budget
+          </h2>
+          <LLMUsagePanel
+            courseId={selectedCourseId}
+            courses={data.managedCourses}
+          />
+          <PromptSettingsPanel
+            courseId={selectedCourseId}
+            courses={data.managedCourses}
+          />
+        </section>
+
+        {/* Academic Integrity */}
+        <section aria-labelledby="integrity-heading" className="space-y-6">
+          <h2 id="integrity-heading" className="text-xl sm:text-2xl md:text-3xl font-bold glass-text">
+            Academic Integrity
+          </h2>
+          <IntegrityPanel
+            courseId={selectedCourseId}
+            courses={data.managedCourses}
+          />
+        </section>
+
+        {/* Moderation */}
+        <section aria-labelledby="moderation-heading" className="space-y-6">
+          <h2 id="moderation-heading" className="text-xl sm:text-2xl md:text-3xl font-bold glass-text">
+            Moderation
+          </h2>
+          <ModerationQueuePanel
+            courseId={courseId}
+            userId={userId}
+          />
+        </section>
+
         {/* Stats Overview */}
         <section aria-labelledby="instructor-stats-heading" className="space-y-6">
           <h2 id="instructor-stats-heading" className="text-xl sm:text-2xl md:text-3xl font-bold glass-text">Your Statistics</h2>
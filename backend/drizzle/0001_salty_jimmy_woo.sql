@@ -0,0 +1,16 @@
+CREATE TABLE IF NOT EXISTS "thread_merges" (
+	"id" text PRIMARY KEY NOT NULL,
+	"source_thread_id" text NOT NULL,
+	"target_thread_id" text NOT NULL,
+	"merged_by" text NOT NULL,
+	"moved_post_ids" text NOT NULL,
+	"moved_upvote_ids" text NOT NULL,
+	"undo_expires_at" timestamp NOT NULL,
+	"undone_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "merged_from" text;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_thread_merges_source" ON "thread_merges" USING btree ("source_thread_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_thread_merges_target" ON "thread_merges" USING btree ("target_thread_id");
\ No newline at end of file
@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "thread_term_vectors" (
+	"id" text PRIMARY KEY NOT NULL,
+	"thread_id" text NOT NULL,
+	"course_id" text NOT NULL,
+	"term_counts" text NOT NULL,
+	"token_count" integer DEFAULT 0 NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_thread_term_vectors_thread" ON "thread_term_vectors" USING btree ("thread_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_thread_term_vectors_course" ON "thread_term_vectors" USING btree ("course_id");
\ No newline at end of file
@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "material_embeddings" (
+	"id" text PRIMARY KEY NOT NULL,
+	"material_id" text NOT NULL,
+	"course_id" text NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"dimensions" integer NOT NULL,
+	"vector" text NOT NULL,
+	"content_hash" varchar(64) NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_material_embeddings_material_model" ON "material_embeddings" USING btree ("material_id","model");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_material_embeddings_course_model" ON "material_embeddings" USING btree ("course_id","model");
\ No newline at end of file
@@ -0,0 +1,6 @@
+DROP INDEX IF EXISTS "idx_material_embeddings_material_model";--> statement-breakpoint
+ALTER TABLE "material_embeddings" ADD COLUMN "vector_id" text;--> statement-breakpoint
+UPDATE "material_embeddings" SET "vector_id" = "material_id";--> statement-breakpoint
+ALTER TABLE "material_embeddings" ALTER COLUMN "vector_id" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_material_embeddings_vector_model" ON "material_embeddings" USING btree ("vector_id","model");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_material_embeddings_material_model" ON "material_embeddings" USING btree ("material_id","model");
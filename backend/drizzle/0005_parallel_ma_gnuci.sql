@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "course_search_aliases" (
+	"id" text PRIMARY KEY NOT NULL,
+	"course_id" text NOT NULL,
+	"term" varchar(255) NOT NULL,
+	"aliases" text NOT NULL,
+	"updated_by" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_course_search_aliases_course_term" ON "course_search_aliases" USING btree ("course_id","term");
\ No newline at end of file
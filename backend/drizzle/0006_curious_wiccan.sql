@@ -0,0 +1,4 @@
+ALTER TABLE "ai_messages" ADD COLUMN "tool_calls" text;--> statement-breakpoint
+ALTER TABLE "ai_messages" ADD COLUMN "input_tokens" integer;--> statement-breakpoint
+ALTER TABLE "ai_messages" ADD COLUMN "output_tokens" integer;--> statement-breakpoint
+ALTER TABLE "ai_messages" ADD COLUMN "total_tokens" integer;
\ No newline at end of file
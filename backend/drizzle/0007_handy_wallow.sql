@@ -0,0 +1,26 @@
+CREATE TABLE IF NOT EXISTS "course_llm_budgets" (
+	"course_id" text PRIMARY KEY NOT NULL,
+	"monthly_budget" double precision NOT NULL,
+	"updated_by" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE IF NOT EXISTS "llm_usage" (
+	"id" text PRIMARY KEY NOT NULL,
+	"user_id" text,
+	"course_id" text,
+	"feature" varchar(50) NOT NULL,
+	"provider" varchar(50) NOT NULL,
+	"model" varchar(255) NOT NULL,
+	"input_tokens" integer NOT NULL,
+	"output_tokens" integer NOT NULL,
+	"total_tokens" integer NOT NULL,
+	"estimated_cost" double precision NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_course_created_at" ON "llm_usage" USING btree ("course_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_user" ON "llm_usage" USING btree ("user_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_llm_usage_tenant_created_at" ON "llm_usage" USING btree ("tenant_id","created_at");
\ No newline at end of file
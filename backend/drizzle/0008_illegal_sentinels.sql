@@ -0,0 +1 @@
+ALTER TABLE "ai_answer_citations" ADD COLUMN "verified" boolean DEFAULT false NOT NULL;
\ No newline at end of file
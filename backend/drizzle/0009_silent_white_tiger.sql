@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "course_prompt_settings" (
+	"course_id" text PRIMARY KEY NOT NULL,
+	"persona" text,
+	"policy" text,
+	"version" integer DEFAULT 0 NOT NULL,
+	"updated_by" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "ai_answers" ADD COLUMN "prompt_version" varchar(100);--> statement-breakpoint
+ALTER TABLE "ai_messages" ADD COLUMN "prompt_version" varchar(100);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "integrity_events" (
+	"id" text PRIMARY KEY NOT NULL,
+	"course_id" text NOT NULL,
+	"assignment_id" text NOT NULL,
+	"user_id" text,
+	"feature" varchar(50) NOT NULL,
+	"mode" varchar(50) NOT NULL,
+	"question" text NOT NULL,
+	"signals" text NOT NULL,
+	"reviewed_by" text,
+	"reviewed_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "assignments" ADD COLUMN "integrity_mode" varchar(50) DEFAULT 'unrestricted' NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_integrity_events_course_created_at" ON "integrity_events" USING btree ("course_id","created_at");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_integrity_events_assignment" ON "integrity_events" USING btree ("assignment_id");
\ No newline at end of file
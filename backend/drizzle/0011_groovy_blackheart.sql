@@ -0,0 +1,19 @@
+CREATE TABLE IF NOT EXISTS "content_revisions" (
+	"id" text PRIMARY KEY NOT NULL,
+	"target_type" varchar(20) NOT NULL,
+	"target_id" text NOT NULL,
+	"version" integer NOT NULL,
+	"title" varchar(500),
+	"content" text NOT NULL,
+	"edited_by" text,
+	"edited_at" timestamp NOT NULL,
+	"replaced_by" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "edited_by" text;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "edited_at" timestamp;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "edited_by" text;--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_content_revisions_target_version" ON "content_revisions" USING btree ("target_type","target_id","version");
\ No newline at end of file
@@ -0,0 +1,6 @@
+ALTER TABLE "posts" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "deleted_by" text;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "deletion_reason" varchar(50);--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "deleted_at" timestamp;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "deleted_by" text;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "deletion_reason" varchar(50);
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE IF NOT EXISTS "content_flags" (
+	"id" text PRIMARY KEY NOT NULL,
+	"course_id" text NOT NULL,
+	"thread_id" text NOT NULL,
+	"target_type" varchar(20) NOT NULL,
+	"target_id" text NOT NULL,
+	"reporter_id" text NOT NULL,
+	"reason" varchar(50) NOT NULL,
+	"details" text,
+	"status" varchar(20) DEFAULT 'open' NOT NULL,
+	"resolved_by" text,
+	"resolved_at" timestamp,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"tenant_id" text NOT NULL
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX IF NOT EXISTS "idx_content_flags_target_reporter" ON "content_flags" USING btree ("target_type","target_id","reporter_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_content_flags_course_status" ON "content_flags" USING btree ("course_id","status");
\ No newline at end of file
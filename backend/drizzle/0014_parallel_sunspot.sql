@@ -0,0 +1,5 @@
+ALTER TABLE "posts" ADD COLUMN "parent_post_id" text;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "ai_answer_id" text;--> statement-breakpoint
+ALTER TABLE "posts" ADD COLUMN "depth" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_posts_parent" ON "posts" USING btree ("parent_post_id");--> statement-breakpoint
+CREATE INDEX IF NOT EXISTS "idx_posts_ai_answer" ON "posts" USING btree ("ai_answer_id");
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "threads" ADD COLUMN "accepted_answer_type" varchar(20);--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "accepted_answer_id" text;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "accepted_by" text;--> statement-breakpoint
+ALTER TABLE "threads" ADD COLUMN "accepted_at" timestamp;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "material_embeddings" ALTER COLUMN "vector" SET DATA TYPE double precision[] USING translate("vector", '[]', '{}')::double precision[];
\ No newline at end of file
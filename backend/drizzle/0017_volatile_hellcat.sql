@@ -0,0 +1 @@
+ALTER TABLE "threads" ADD COLUMN "accepted_endorsement_id" text;
\ No newline at end of file
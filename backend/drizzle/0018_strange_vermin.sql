@@ -0,0 +1,2 @@
+ALTER TABLE "ai_answers" ADD COLUMN "confidence_score" integer;--> statement-breakpoint
+ALTER TABLE "ai_answers" ADD COLUMN "verification" text;
\ No newline at end of file
@@ -0,0 +1,33 @@
+/**
+ * Service Key
+ *
+ * Authenticates server-to-server calls from the frontend's API routes
+ * (LLM usage, provider health, integrity events, material embeddings), which
+ * run on the server without the user's session cookie
+ */
+
+import { timingSafeEqual } from "node:crypto";
+import type { FastifyRequest } from "fastify";
+
+/**
+ * Header carrying the shared key (SERVICE_API_KEY on both sides)
+ */
+export const SERVICE_KEY_HEADER = "x-service-key";
+
+/**
+ * Whether a request carries the service key
+ *
+ * Always false when SERVICE_API_KEY is not set, so service-only routes are
+ * closed rather than open by default.
+ */
+export function isServiceRequest(request: FastifyRequest): boolean {
+  const expected = process.env.SERVICE_API_KEY;
+  const provided = request.headers[SERVICE_KEY_HEADER];
+  if (!expected || typeof provided !== "string") {
+    return false;
+  }
+
+  const expectedBytes = Buffer.from(expected);
+  const providedBytes = Buffer.from(provided);
+  return expectedBytes.length === providedBytes.length && timingSafeEqual(expectedBytes, providedBytes);
+}
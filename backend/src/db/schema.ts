@@ -1,13 +1,13 @@
 /**
  * Drizzle ORM Schema Definition
  *
- * 18 tables mirroring lib/models/types.ts
+ * 21 tables mirroring lib/models/types.ts
  * Postgres-compatible with UUID and timestamp types
  * Foreign keys with CASCADE/SET NULL rules
  * Performance indexes on common query patterns
  */
 
-import { pgTable, uuid, timestamp, varchar, text, integer, boolean, index, uniqueIndex } from "drizzle-orm/pg-core";
+import { pgTable, uuid, timestamp, varchar, text, integer, boolean, doublePrecision, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 
 // UUID Helpers (Text-based for demo compatibility)
@@ -92,9 +92,11 @@ export const coursesRelations = relations(courses, ({ many }) => ({
   enrollments: many(enrollments),
   threads: many(threads),
   courseMaterials: many(courseMaterials),
+  searchAliases: many(courseSearchAliases),
   assignments: many(assignments),
   aiAnswers: many(aiAnswers),
   aiConversations: many(aiConversations),
+  llmUsage: many(llmUsage),
 }));
 
 // ============================================================================
@@ -192,6 +194,69 @@ export const courseMaterialsRelations = relations(courseMaterials, ({ one, many
     references: [courses.id],
   }),
   citations: many(aiAnswerCitations),
+  embeddings: many(materialEmbeddings),
+}));
+
+/**
+ * Material Embeddings Table
+ * Persisted dense vectors for course materials and their passages (per model)
+ * content_hash is the material's hash when embedded; rows are dropped when
+ * the material changes
+ */
+export const materialEmbeddings = pgTable(
+  "material_embeddings",
+  {
+    id: uuidColumn("id"),
+    vectorId: text("vector_id").notNull(), // Material ID, or "<materialId>#<chunkIndex>" for a passage
+    materialId: uuidRefNotNull("material_id"),
+    courseId: uuidRefNotNull("course_id"),
+    model: varchar("model", { length: 255 }).notNull(), // Embedding provider ID, e.g. "local:Xenova/all-MiniLM-L6-v2"
+    dimensions: integer("dimensions").notNull(),
+    vector: doublePrecision("vector").array().notNull(),
+    contentHash: varchar("content_hash", { length: 64 }).notNull(), // SHA-256 of embedded text
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    vectorModelIdx: uniqueIndex("idx_material_embeddings_vector_model").on(table.vectorId, table.model),
+    materialModelIdx: index("idx_material_embeddings_material_model").on(table.materialId, table.model),
+    courseModelIdx: index("idx_material_embeddings_course_model").on(table.courseId, table.model),
+  })
+);
+
+export const materialEmbeddingsRelations = relations(materialEmbeddings, ({ one }) => ({
+  material: one(courseMaterials, {
+    fields: [materialEmbeddings.materialId],
+    references: [courseMaterials.id],
+  }),
+}));
+
+/**
+ * Course Search Aliases Table
+ * Instructor-editable alias table for material search query rewriting
+ * (one row per canonical term)
+ */
+export const courseSearchAliases = pgTable(
+  "course_search_aliases",
+  {
+    id: uuidColumn("id"),
+    courseId: uuidRefNotNull("course_id"),
+    term: varchar("term", { length: 255 }).notNull(), // Canonical term, as used in material keywords
+    aliases: text("aliases").notNull(), // JSON array: string[]
+    updatedBy: uuidRef("updated_by"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    courseTermIdx: uniqueIndex("idx_course_search_aliases_course_term").on(table.courseId, table.term),
+  })
+);
+
+export const courseSearchAliasesRelations = relations(courseSearchAliases, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseSearchAliases.courseId],
+    references: [courses.id],
+  }),
 }));
 
 /**
@@ -207,6 +272,7 @@ export const assignments = pgTable(
     description: text("description").notNull(),
     dueDate: timestamp("due_date").notNull(),
     status: varchar("status", { length: 50 }).notNull(), // 'upcoming' | 'active' | 'past'
+    integrityMode: varchar("integrity_mode", { length: 50 }).notNull().default("unrestricted"), // 'hint-only' | 'conceptual-only' | 'unrestricted'
     questionCount: integer("question_count").notNull().default(0),
     tenantId: uuidRefNotNull("tenant_id"),
     createdAt: timestamp("created_at").notNull().defaultNow(),
@@ -243,6 +309,11 @@ export const threads = pgTable(
     content: text("content").notNull(),
     tags: text("tags"), // JSON array: string[]
     status: varchar("status", { length: 50 }).notNull(), // 'open' | 'answered' | 'resolved'
+    acceptedAnswerType: varchar("accepted_answer_type", { length: 20 }), // 'post' | 'ai_answer' (null = none accepted)
+    acceptedAnswerId: uuidRef("accepted_answer_id"),
+    acceptedBy: uuidRef("accepted_by"), // Question author or course staff
+    acceptedAt: timestamp("accepted_at"),
+    acceptedEndorsementId: uuidRef("accepted_endorsement_id"), // Endorsement the acceptance added (removed if another answer is accepted)
     hasAIAnswer: boolean("has_ai_answer").notNull().default(false),
     aiAnswerId: uuidRef("ai_answer_id"),
     replyCount: integer("reply_count").notNull().default(0),
@@ -251,6 +322,12 @@ export const threads = pgTable(
     upvoteCount: integer("upvote_count").notNull().default(0),
     duplicatesOf: uuidRef("duplicates_of"), // Self-reference for merged threads
     mergedInto: uuidRef("merged_into"),
+    mergedFrom: text("merged_from"), // JSON array: string[] (threads merged into this one)
+    editedAt: timestamp("edited_at"), // Last edit of title/content (null = never edited)
+    editedBy: uuidRef("edited_by"),
+    deletedAt: timestamp("deleted_at"), // Soft delete (tombstone; restorable for a while)
+    deletedBy: uuidRef("deleted_by"),
+    deletionReason: varchar("deletion_reason", { length: 50 }), // 'retracted' (by author) | moderator reason
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     tenantId: uuidRefNotNull("tenant_id"),
@@ -283,6 +360,73 @@ export const threadsRelations = relations(threads, ({ one, many }) => ({
   upvotes: many(threadUpvotes),
 }));
 
+/**
+ * Thread Merges Table
+ * Audit log of duplicate merges (supports undo within a short window)
+ */
+export const threadMerges = pgTable(
+  "thread_merges",
+  {
+    id: uuidColumn("id"),
+    sourceThreadId: uuidRefNotNull("source_thread_id"),
+    targetThreadId: uuidRefNotNull("target_thread_id"),
+    mergedBy: uuidRefNotNull("merged_by"),
+    movedPostIds: text("moved_post_ids").notNull(), // JSON array: string[]
+    movedUpvoteIds: text("moved_upvote_ids").notNull(), // JSON array: string[]
+    undoExpiresAt: timestamp("undo_expires_at").notNull(),
+    undoneAt: timestamp("undone_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    sourceIdx: index("idx_thread_merges_source").on(table.sourceThreadId),
+    targetIdx: index("idx_thread_merges_target").on(table.targetThreadId),
+  })
+);
+
+export const threadMergesRelations = relations(threadMerges, ({ one }) => ({
+  source: one(threads, {
+    fields: [threadMerges.sourceThreadId],
+    references: [threads.id],
+  }),
+  target: one(threads, {
+    fields: [threadMerges.targetThreadId],
+    references: [threads.id],
+  }),
+  mergedByUser: one(users, {
+    fields: [threadMerges.mergedBy],
+    references: [users.id],
+  }),
+}));
+
+/**
+ * Thread Term Vectors Table
+ * Persisted term counts for the per-course duplicate detection (TF-IDF) index
+ */
+export const threadTermVectors = pgTable(
+  "thread_term_vectors",
+  {
+    id: uuidColumn("id"),
+    threadId: uuidRefNotNull("thread_id"),
+    courseId: uuidRefNotNull("course_id"),
+    termCounts: text("term_counts").notNull(), // JSON: Record<string, number>
+    tokenCount: integer("token_count").notNull().default(0),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    threadIdx: uniqueIndex("idx_thread_term_vectors_thread").on(table.threadId),
+    courseIdx: index("idx_thread_term_vectors_course").on(table.courseId),
+  })
+);
+
+export const threadTermVectorsRelations = relations(threadTermVectors, ({ one }) => ({
+  thread: one(threads, {
+    fields: [threadTermVectors.threadId],
+    references: [threads.id],
+  }),
+}));
+
 /**
  * Posts Table
  * Replies to discussion threads
@@ -292,16 +436,26 @@ export const posts = pgTable(
   {
     id: uuidColumn("id"),
     threadId: uuidRefNotNull("thread_id"),
+    parentPostId: uuidRef("parent_post_id"), // Post this replies to (null = top level)
+    aiAnswerId: uuidRef("ai_answer_id"), // Set on comments on the AI answer and replies to them
+    depth: integer("depth").notNull().default(0), // Nesting level (0 = top level, max MAX_REPLY_DEPTH)
     authorId: uuidRef("author_id"), // SET NULL if user deleted
     content: text("content").notNull(),
     isInstructorAnswer: boolean("is_instructor_answer").notNull().default(false),
     endorsementCount: integer("endorsement_count").notNull().default(0),
+    editedAt: timestamp("edited_at"), // Last edit of content (null = never edited)
+    editedBy: uuidRef("edited_by"),
+    deletedAt: timestamp("deleted_at"), // Soft delete (tombstone; restorable for a while)
+    deletedBy: uuidRef("deleted_by"),
+    deletionReason: varchar("deletion_reason", { length: 50 }), // 'retracted' (by author) | moderator reason
     createdAt: timestamp("created_at").notNull().defaultNow(),
     updatedAt: timestamp("updated_at").notNull().defaultNow(),
     tenantId: uuidRefNotNull("tenant_id"),
   },
   (table) => ({
     threadIdx: index("idx_posts_thread").on(table.threadId),
+    parentIdx: index("idx_posts_parent").on(table.parentPostId),
+    aiAnswerIdx: index("idx_posts_ai_answer").on(table.aiAnswerId),
     authorIdx: index("idx_posts_author").on(table.authorId),
     instructorIdx: index("idx_posts_instructor").on(table.isInstructorAnswer),
     createdAtIdx: index("idx_posts_created_at").on(table.createdAt),
@@ -317,9 +471,48 @@ export const postsRelations = relations(posts, ({ one, many }) => ({
     fields: [posts.authorId],
     references: [users.id],
   }),
+  aiAnswer: one(aiAnswers, {
+    fields: [posts.aiAnswerId],
+    references: [aiAnswers.id],
+  }),
   endorsements: many(postEndorsements),
 }));
 
+/**
+ * Content Revisions Table
+ * Prior versions of edited threads and posts (one row per replaced version)
+ */
+export const contentRevisions = pgTable(
+  "content_revisions",
+  {
+    id: uuidColumn("id"),
+    targetType: varchar("target_type", { length: 20 }).notNull(), // 'thread' | 'post'
+    targetId: uuidRefNotNull("target_id"),
+    version: integer("version").notNull(), // 1 = original
+    title: varchar("title", { length: 500 }), // Threads only
+    content: text("content").notNull(),
+    editedBy: uuidRef("edited_by"), // Who wrote this version (the author for version 1)
+    editedAt: timestamp("edited_at").notNull(), // When this version was written
+    replacedBy: uuidRefNotNull("replaced_by"), // Whose edit replaced it
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    targetVersionIdx: uniqueIndex("idx_content_revisions_target_version").on(
+      table.targetType,
+      table.targetId,
+      table.version
+    ),
+  })
+);
+
+export const contentRevisionsRelations = relations(contentRevisions, ({ one }) => ({
+  editor: one(users, {
+    fields: [contentRevisions.editedBy],
+    references: [users.id],
+  }),
+}));
+
 // ============================================================================
 // AI ANSWER TABLES
 // ============================================================================
@@ -336,7 +529,10 @@ export const aiAnswers = pgTable(
     courseId: uuidRefNotNull("course_id"),
     content: text("content").notNull(),
     confidenceLevel: varchar("confidence_level", { length: 50 }).notNull(), // 'high' | 'medium' | 'low'
+    confidenceScore: integer("confidence_score"), // 0-100 after verification (null for older answers)
     routing: text("routing"), // JSON: Self-RAG routing metadata
+    verification: text("verification"), // JSON: claim-by-claim check against the cited materials
+    promptVersion: varchar("prompt_version", { length: 100 }), // e.g. 'tutor.system@1+course@2'
     endorsementCount: integer("endorsement_count").notNull().default(0),
     generatedAt: timestamp("generated_at").notNull().defaultNow(),
     tenantId: uuidRefNotNull("tenant_id"),
@@ -363,7 +559,8 @@ export const aiAnswersRelations = relations(aiAnswers, ({ one, many }) => ({
 
 /**
  * AI Answer Citations Table
- * Links AI answers to course materials
+ * Links AI answers to course materials (material_id is the resolved material,
+ * verified when the quoted excerpt was found in it)
  */
 export const aiAnswerCitations = pgTable(
   "ai_answer_citations",
@@ -374,6 +571,7 @@ export const aiAnswerCitations = pgTable(
     excerpt: text("excerpt").notNull(),
     relevanceScore: integer("relevance_score").notNull(), // 0-100
     citationNumber: integer("citation_number").notNull(),
+    verified: boolean("verified").notNull().default(false),
     tenantId: uuidRefNotNull("tenant_id"),
   },
   (table) => ({
@@ -566,6 +764,11 @@ export const aiMessages = pgTable(
     content: text("content").notNull(),
     materialReferences: text("material_references"), // JSON: MaterialReference[]
     confidenceScore: integer("confidence_score"), // 0-100 (for assistant messages)
+    toolCalls: text("tool_calls"), // JSON: AIToolCall[] (assistant messages)
+    inputTokens: integer("input_tokens"), // Token usage of the turn (assistant messages)
+    outputTokens: integer("output_tokens"),
+    totalTokens: integer("total_tokens"),
+    promptVersion: varchar("prompt_version", { length: 100 }), // Prompt that produced the reply (assistant messages)
     createdAt: timestamp("created_at").notNull().defaultNow(),
     tenantId: uuidRefNotNull("tenant_id"),
   },
@@ -583,6 +786,190 @@ export const aiMessagesRelations = relations(aiMessages, ({ one }) => ({
   }),
 }));
 
+// ============================================================================
+// LLM USAGE TABLES
+// ============================================================================
+
+/**
+ * LLM Usage Table
+ * Ledger of LLM calls (one row per call) for cost accounting
+ */
+export const llmUsage = pgTable(
+  "llm_usage",
+  {
+    id: uuidColumn("id"),
+    userId: uuidRef("user_id"), // NULL for calls not made on behalf of a user
+    courseId: uuidRef("course_id"), // NULL for calls outside a course
+    feature: varchar("feature", { length: 50 }).notNull(), // 'chat' | 'answer' | 'summary' | 'restructure' | 'rerank'
+    provider: varchar("provider", { length: 50 }).notNull(), // 'openai' | 'anthropic'
+    model: varchar("model", { length: 255 }).notNull(),
+    inputTokens: integer("input_tokens").notNull(),
+    outputTokens: integer("output_tokens").notNull(),
+    totalTokens: integer("total_tokens").notNull(),
+    estimatedCost: doublePrecision("estimated_cost").notNull(), // USD
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    courseCreatedAtIdx: index("idx_llm_usage_course_created_at").on(table.courseId, table.createdAt),
+    userIdx: index("idx_llm_usage_user").on(table.userId),
+    tenantCreatedAtIdx: index("idx_llm_usage_tenant_created_at").on(table.tenantId, table.createdAt),
+  })
+);
+
+export const llmUsageRelations = relations(llmUsage, ({ one }) => ({
+  user: one(users, {
+    fields: [llmUsage.userId],
+    references: [users.id],
+  }),
+  course: one(courses, {
+    fields: [llmUsage.courseId],
+    references: [courses.id],
+  }),
+}));
+
+/**
+ * Course LLM Budgets Table
+ * Monthly LLM spending limit per course (one row per course)
+ */
+export const courseLlmBudgets = pgTable(
+  "course_llm_budgets",
+  {
+    courseId: uuidColumn("course_id"),
+    monthlyBudget: doublePrecision("monthly_budget").notNull(), // USD per calendar month (UTC)
+    updatedBy: uuidRef("updated_by"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  }
+);
+
+export const courseLlmBudgetsRelations = relations(courseLlmBudgets, ({ one }) => ({
+  course: one(courses, {
+    fields: [courseLlmBudgets.courseId],
+    references: [courses.id],
+  }),
+}));
+
+/**
+ * Course Prompt Settings Table
+ * Instructor overrides of the assistant's system prompt (one row per course)
+ */
+export const coursePromptSettings = pgTable(
+  "course_prompt_settings",
+  {
+    courseId: uuidColumn("course_id"),
+    persona: text("persona"), // NULL keeps the default persona
+    policy: text("policy"), // NULL adds no course policy
+    version: integer("version").notNull().default(0), // Incremented on every change
+    updatedBy: uuidRef("updated_by"),
+    updatedAt: timestamp("updated_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  }
+);
+
+export const coursePromptSettingsRelations = relations(coursePromptSettings, ({ one }) => ({
+  course: one(courses, {
+    fields: [coursePromptSettings.courseId],
+    references: [courses.id],
+  }),
+}));
+
+// ============================================================================
+// ACADEMIC INTEGRITY TABLES
+// ============================================================================
+
+/**
+ * Integrity Events Table
+ * Attempts to get full solutions to a guarded assignment, for instructor review
+ */
+export const integrityEvents = pgTable(
+  "integrity_events",
+  {
+    id: uuidColumn("id"),
+    courseId: uuidRefNotNull("course_id"),
+    assignmentId: uuidRefNotNull("assignment_id"),
+    userId: uuidRef("user_id"), // NULL when the asker is unknown
+    feature: varchar("feature", { length: 50 }).notNull(), // 'chat' | 'answer'
+    mode: varchar("mode", { length: 50 }).notNull(), // Assignment mode when asked
+    question: text("question").notNull(),
+    signals: text("signals").notNull(), // JSON: string[] (phrases that asked for a solution)
+    reviewedBy: uuidRef("reviewed_by"),
+    reviewedAt: timestamp("reviewed_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    courseCreatedAtIdx: index("idx_integrity_events_course_created_at").on(table.courseId, table.createdAt),
+    assignmentIdx: index("idx_integrity_events_assignment").on(table.assignmentId),
+  })
+);
+
+export const integrityEventsRelations = relations(integrityEvents, ({ one }) => ({
+  course: one(courses, {
+    fields: [integrityEvents.courseId],
+    references: [courses.id],
+  }),
+  assignment: one(assignments, {
+    fields: [integrityEvents.assignmentId],
+    references: [assignments.id],
+  }),
+  user: one(users, {
+    fields: [integrityEvents.userId],
+    references: [users.id],
+  }),
+}));
+
+// ============================================================================
+// MODERATION TABLES
+// ============================================================================
+
+/**
+ * Content Flags Table
+ * Student reports of threads and posts, feeding the moderation queue
+ * (one row per reporter per item; re-reporting a closed item reopens it)
+ */
+export const contentFlags = pgTable(
+  "content_flags",
+  {
+    id: uuidColumn("id"),
+    courseId: uuidRefNotNull("course_id"),
+    threadId: uuidRefNotNull("thread_id"), // Reported thread, or the thread of a reported post
+    targetType: varchar("target_type", { length: 20 }).notNull(), // 'thread' | 'post'
+    targetId: uuidRefNotNull("target_id"),
+    reporterId: uuidRefNotNull("reporter_id"),
+    reason: varchar("reason", { length: 50 }).notNull(), // See FLAG_REASONS
+    details: text("details"),
+    status: varchar("status", { length: 20 }).notNull().default("open"), // 'open' | 'resolved' | 'dismissed'
+    resolvedBy: uuidRef("resolved_by"),
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").notNull().defaultNow(),
+    tenantId: uuidRefNotNull("tenant_id"),
+  },
+  (table) => ({
+    targetReporterIdx: uniqueIndex("idx_content_flags_target_reporter").on(
+      table.targetType,
+      table.targetId,
+      table.reporterId
+    ),
+    courseStatusIdx: index("idx_content_flags_course_status").on(table.courseId, table.status),
+  })
+);
+
+export const contentFlagsRelations = relations(contentFlags, ({ one }) => ({
+  course: one(courses, {
+    fields: [contentFlags.courseId],
+    references: [courses.id],
+  }),
+  thread: one(threads, {
+    fields: [contentFlags.threadId],
+    references: [threads.id],
+  }),
+  reporter: one(users, {
+    fields: [contentFlags.reporterId],
+    references: [users.id],
+  }),
+}));
+
 // ============================================================================
 // INSTRUCTOR TOOLS TABLES
 // ============================================================================
@@ -636,7 +1023,7 @@ export const notifications = pgTable(
   {
     id: uuidColumn("id"),
     userId: uuidRefNotNull("user_id"),
-    type: varchar("type", { length: 50 }).notNull(), // 'thread_reply' | 'ai_answer' | 'endorsement' | 'mention'
+    type: varchar("type", { length: 50 }).notNull(), // 'thread_reply' | 'ai_answer' | 'endorsement' | 'mention' | 'resolved' | 'report_resolved' | 'report_dismissed'
     title: varchar("title", { length: 500 }).notNull(),
     message: text("message").notNull(),
     threadId: uuidRef("thread_id"),
@@ -678,15 +1065,30 @@ export type NewEnrollment = typeof enrollments.$inferInsert;
 export type CourseMaterial = typeof courseMaterials.$inferSelect;
 export type NewCourseMaterial = typeof courseMaterials.$inferInsert;
 
+export type MaterialEmbedding = typeof materialEmbeddings.$inferSelect;
+export type NewMaterialEmbedding = typeof materialEmbeddings.$inferInsert;
+
+export type CourseSearchAlias = typeof courseSearchAliases.$inferSelect;
+export type NewCourseSearchAlias = typeof courseSearchAliases.$inferInsert;
+
 export type Assignment = typeof assignments.$inferSelect;
 export type NewAssignment = typeof assignments.$inferInsert;
 
 export type Thread = typeof threads.$inferSelect;
 export type NewThread = typeof threads.$inferInsert;
 
+export type ThreadMerge = typeof threadMerges.$inferSelect;
+export type NewThreadMerge = typeof threadMerges.$inferInsert;
+
+export type ThreadTermVector = typeof threadTermVectors.$inferSelect;
+export type NewThreadTermVector = typeof threadTermVectors.$inferInsert;
+
 export type Post = typeof posts.$inferSelect;
 export type NewPost = typeof posts.$inferInsert;
 
+export type ContentRevision = typeof contentRevisions.$inferSelect;
+export type NewContentRevision = typeof contentRevisions.$inferInsert;
+
 export type AIAnswer = typeof aiAnswers.$inferSelect;
 export type NewAIAnswer = typeof aiAnswers.$inferInsert;
 
@@ -711,6 +1113,21 @@ export type NewAIConversation = typeof aiConversations.$inferInsert;
 export type AIMessage = typeof aiMessages.$inferSelect;
 export type NewAIMessage = typeof aiMessages.$inferInsert;
 
+export type LlmUsage = typeof llmUsage.$inferSelect;
+export type NewLlmUsage = typeof llmUsage.$inferInsert;
+
+export type CourseLlmBudget = typeof courseLlmBudgets.$inferSelect;
+export type NewCourseLlmBudget = typeof courseLlmBudgets.$inferInsert;
+
+export type CoursePromptSetting = typeof coursePromptSettings.$inferSelect;
+export type NewCoursePromptSetting = typeof coursePromptSettings.$inferInsert;
+
+export type IntegrityEvent = typeof integrityEvents.$inferSelect;
+export type NewIntegrityEvent = typeof integrityEvents.$inferInsert;
+
+export type ContentFlag = typeof contentFlags.$inferSelect;
+export type NewContentFlag = typeof contentFlags.$inferInsert;
+
 export type ResponseTemplate = typeof responseTemplates.$inferSelect;
 export type NewResponseTemplate = typeof responseTemplates.$inferInsert;
 
@@ -58,7 +58,10 @@ async function seed() {
     await db.delete(schema.aiAnswers);
     await db.delete(schema.posts);
     await db.delete(schema.threads);
+    await db.delete(schema.integrityEvents);
     await db.delete(schema.assignments);
+    await db.delete(schema.courseSearchAliases);
+    await db.delete(schema.materialEmbeddings);
     await db.delete(schema.courseMaterials);
     await db.delete(schema.enrollments);
     await db.delete(schema.authSessions);
@@ -133,6 +136,19 @@ async function seed() {
     }
     console.log(`✅ Seeded ${materialsData.length} course materials\n`);
 
+    // Search aliases (query rewriting for material search)
+    const searchAliasesData = loadMockFile<any>("search-aliases.json");
+    for (const entry of searchAliasesData) {
+      await db.insert(schema.courseSearchAliases).values({
+        id: crypto.randomUUID(),
+        courseId: entry.courseId,
+        term: entry.term,
+        aliases: JSON.stringify(entry.aliases),
+        tenantId: DEMO_TENANT_ID,
+      });
+    }
+    console.log(`✅ Seeded ${searchAliasesData.length} search aliases\n`);
+
     // 5. Seed Assignments
     console.log("✍️  Seeding assignments...");
     const assignmentsFile = loadMockFile<any>("assignments.json");
@@ -145,6 +161,7 @@ async function seed() {
         description: assignment.description || "",
         dueDate: toDate(assignment.dueDate) || new Date(),
         status: assignment.status || "active",
+        integrityMode: assignment.integrityMode || "unrestricted",
         questionCount: assignment.questionCount || 0,
         tenantId: DEMO_TENANT_ID,
         createdAt: toDate(assignment.createdAt) || new Date(),
@@ -360,6 +377,7 @@ async function seed() {
     console.log(`   - Courses: ${coursesData.length}`);
     console.log(`   - Enrollments: ${enrollmentsData.length}`);
     console.log(`   - Course Materials: ${materialsData.length}`);
+    console.log(`   - Search Aliases: ${searchAliasesData.length}`);
     console.log(`   - Assignments: ${assignmentsData.length}`);
     console.log(`   - Threads: ${threadsData.length}`);
     console.log(`   - Posts: ${postsData.length}`);
@@ -4,17 +4,20 @@
  * Data access layer for ai_answers, ai_answer_citations, and ai_answer_endorsements tables
  */
 
-import { eq, and, type SQL } from "drizzle-orm";
+import { eq, and, inArray, isNull, type SQL } from "drizzle-orm";
 import { BaseRepository } from "./base.repository.js";
 import {
   aiAnswers,
   aiAnswerCitations,
   aiAnswerEndorsements,
+  threads,
   users,
   type AIAnswer,
   type NewAIAnswer,
   type AIAnswerCitation,
+  type NewAIAnswerCitation,
   type AIAnswerEndorsement,
+  type Thread,
 } from "../db/schema.js";
 import { db } from "../db/client.js";
 
@@ -30,6 +33,14 @@ export interface AIAnswerWithDetails extends AIAnswer {
   instructorEndorsed: boolean;
 }
 
+/**
+ * Endorsed AI answer with the question it answers
+ */
+export interface EndorsedAIAnswer {
+  thread: Pick<Thread, "id" | "title" | "content">;
+  aiAnswer: AIAnswerWithDetails;
+}
+
 export class AIAnswersRepository extends BaseRepository<
   typeof aiAnswers,
   AIAnswer,
@@ -95,6 +106,72 @@ export class AIAnswersRepository extends BaseRepository<
     return this.enrichAIAnswer(aiAnswer);
   }
 
+  /**
+   * Find a course's endorsed AI answers (instructor-endorsed, or with at
+   * least minEndorsements endorsements) on threads that are neither deleted,
+   * merged nor marked as duplicates
+   */
+  async findEndorsedByCourse(courseId: string, minEndorsements: number): Promise<EndorsedAIAnswer[]> {
+    const rows = await db
+      .select({
+        aiAnswer: aiAnswers,
+        thread: { id: threads.id, title: threads.title, content: threads.content },
+      })
+      .from(aiAnswers)
+      .innerJoin(threads, eq(threads.id, aiAnswers.threadId))
+      .where(
+        and(
+          eq(aiAnswers.courseId, courseId),
+          isNull(threads.deletedAt),
+          isNull(threads.mergedInto),
+          isNull(threads.duplicatesOf)
+        )!
+      );
+
+    const enriched = await this.enrichAIAnswers(rows.map((row) => row.aiAnswer));
+
+    return rows.flatMap(({ thread }, index) => {
+      const aiAnswer = enriched[index];
+      return aiAnswer.instructorEndorsed || aiAnswer.totalEndorsements >= minEndorsements
+        ? [{ thread, aiAnswer }]
+        : [];
+    });
+  }
+
+  /**
+   * Create an AI answer with its citations and link it from its thread
+   */
+  async createWithCitations(
+    aiAnswer: NewAIAnswer,
+    citations: Omit<NewAIAnswerCitation, "id" | "aiAnswerId" | "tenantId">[]
+  ): Promise<AIAnswerWithDetails> {
+    await db.transaction(async (tx) => {
+      await tx.insert(aiAnswers).values(aiAnswer);
+
+      if (citations.length > 0) {
+        await tx.insert(aiAnswerCitations).values(
+          citations.map((citation) => ({
+            ...citation,
+            id: `ai-cite-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            aiAnswerId: aiAnswer.id,
+            tenantId: aiAnswer.tenantId,
+          }))
+        );
+      }
+
+      await tx
+        .update(threads)
+        .set({ hasAIAnswer: true, aiAnswerId: aiAnswer.id, updatedAt: new Date() })
+        .where(eq(threads.id, aiAnswer.threadId));
+    });
+
+    const created = await this.findByIdWithDetails(aiAnswer.id);
+    if (!created) {
+      throw new Error(`AI answer ${aiAnswer.id} was not saved`);
+    }
+    return created;
+  }
+
   /**
    * Create endorsement for AI answer
    */
@@ -173,42 +250,61 @@ export class AIAnswersRepository extends BaseRepository<
    * Private: Enrich AI answer with citations and endorsements
    */
   private async enrichAIAnswer(aiAnswer: AIAnswer): Promise<AIAnswerWithDetails> {
+    const [enriched] = await this.enrichAIAnswers([aiAnswer]);
+    return enriched;
+  }
+
+  /**
+   * Private: Enrich AI answers with citations and endorsements (one query
+   * each, however many answers)
+   */
+  private async enrichAIAnswers(answers: AIAnswer[]): Promise<AIAnswerWithDetails[]> {
+    if (answers.length === 0) {
+      return [];
+    }
+    const ids = answers.map((answer) => answer.id);
+
     // Get citations
     const citations = await db
       .select()
       .from(aiAnswerCitations)
-      .where(eq(aiAnswerCitations.aiAnswerId, aiAnswer.id));
+      .where(inArray(aiAnswerCitations.aiAnswerId, ids));
 
     // Get endorsements with user details
     const endorsements = await db
       .select({
         id: aiAnswerEndorsements.id,
+        aiAnswerId: aiAnswerEndorsements.aiAnswerId,
         userId: aiAnswerEndorsements.userId,
         createdAt: aiAnswerEndorsements.createdAt,
         role: users.role,
       })
       .from(aiAnswerEndorsements)
       .innerJoin(users, eq(aiAnswerEndorsements.userId, users.id))
-      .where(eq(aiAnswerEndorsements.aiAnswerId, aiAnswer.id));
-
-    // Compute endorsement metrics
-    const endorsedBy = endorsements.map((e) => e.userId);
-    const instructorEndorsements = endorsements.filter(
-      (e) => e.role === "instructor"
-    ).length;
-    const studentEndorsements = endorsements.filter(
-      (e) => e.role === "student"
-    ).length;
-
-    return {
-      ...aiAnswer,
-      citations,
-      endorsedBy,
-      totalEndorsements: endorsements.length,
-      instructorEndorsements,
-      studentEndorsements,
-      instructorEndorsed: instructorEndorsements > 0,
-    };
+      .where(inArray(aiAnswerEndorsements.aiAnswerId, ids));
+
+    return answers.map((aiAnswer) => {
+      const answerEndorsements = endorsements.filter((e) => e.aiAnswerId === aiAnswer.id);
+
+      // Compute endorsement metrics
+      const endorsedBy = answerEndorsements.map((e) => e.userId);
+      const instructorEndorsements = answerEndorsements.filter(
+        (e) => e.role === "instructor"
+      ).length;
+      const studentEndorsements = answerEndorsements.filter(
+        (e) => e.role === "student"
+      ).length;
+
+      return {
+        ...aiAnswer,
+        citations: citations.filter((c) => c.aiAnswerId === aiAnswer.id),
+        endorsedBy,
+        totalEndorsements: answerEndorsements.length,
+        instructorEndorsements,
+        studentEndorsements,
+        instructorEndorsed: instructorEndorsements > 0,
+      };
+    });
   }
 
   /**
@@ -0,0 +1,69 @@
+/**
+ * Assignments Repository
+ *
+ * Data access layer for assignments table
+ */
+
+import { asc, eq, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import { assignments, type Assignment, type NewAssignment } from "../db/schema.js";
+import { db } from "../db/client.js";
+
+export class AssignmentsRepository extends BaseRepository<
+  typeof assignments,
+  Assignment,
+  NewAssignment
+> {
+  constructor() {
+    super(assignments);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Find a course's assignments (nearest due date first)
+   */
+  async findByCourse(courseId: string): Promise<Assignment[]> {
+    return await db
+      .select()
+      .from(assignments)
+      .where(eq(assignments.courseId, courseId))
+      .orderBy(asc(assignments.dueDate));
+  }
+
+  /**
+   * Set how much help the AI assistant gives on an assignment
+   */
+  async setIntegrityMode(id: string, integrityMode: string): Promise<Assignment | null> {
+    const [assignment] = await db
+      .update(assignments)
+      .set({ integrityMode })
+      .where(eq(assignments.id, id))
+      .returning();
+
+    return assignment ?? null;
+  }
+}
+
+// Export singleton instance
+export const assignmentsRepository = new AssignmentsRepository();
@@ -0,0 +1,320 @@
+/**
+ * Content Flags Repository
+ *
+ * Data access layer for content_flags table
+ * Student reports of threads and posts, grouped into the moderation queue
+ */
+
+import { eq, and, desc, count, inArray, max, min, sql, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  contentFlags,
+  threads,
+  posts,
+  notifications,
+  type ContentFlag,
+  type NewContentFlag,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import { FLAG_REASON_SEVERITY } from "../utils/content-flags.js";
+
+export type FlagTargetType = "thread" | "post";
+
+export type FlagStatus = "open" | "resolved" | "dismissed";
+
+/**
+ * Most items in a course's moderation queue
+ */
+const MAX_QUEUE_ITEMS = 1000;
+
+/**
+ * Severity of a report's reason (unknown reasons rank lowest)
+ */
+const reasonSeverity = sql.join(
+  [
+    sql`case ${contentFlags.reason}`,
+    ...Object.entries(FLAG_REASON_SEVERITY).map(
+      ([reason, severity]) => sql`when ${reason} then ${sql.raw(String(severity))}`
+    ),
+    sql`else 0 end`,
+  ],
+  sql` `
+);
+
+/**
+ * Reported thread or post with its open reports aggregated
+ */
+export interface ModerationQueueItem {
+  targetType: FlagTargetType;
+  targetId: string;
+  courseId: string;
+  threadId: string;
+  threadTitle: string;
+  content: string; // Blank when the content has been deleted
+  authorId: string | null;
+  deletedAt: Date | null;
+  reportCount: number;
+  severity: number; // Highest severity among the open reports' reasons
+  reasons: Record<string, number>; // Open reports per reason
+  firstReportedAt: Date;
+  lastReportedAt: Date;
+}
+
+export class ContentFlagsRepository extends BaseRepository<
+  typeof contentFlags,
+  ContentFlag,
+  NewContentFlag
+> {
+  constructor() {
+    super(contentFlags);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Report a thread or post
+   *
+   * Each student has one report per item: reporting an item they already
+   * have an open report on returns that report (duplicate), and reporting
+   * it again after review reopens their report with the new reason.
+   */
+  async report(
+    input: Pick<
+      NewContentFlag,
+      "courseId" | "threadId" | "targetType" | "targetId" | "reporterId" | "reason" | "details" | "tenantId"
+    >
+  ): Promise<{ flag: ContentFlag; duplicate: boolean }> {
+    return await db.transaction(async (tx) => {
+      const [existing] = await tx
+        .select()
+        .from(contentFlags)
+        .where(
+          and(
+            eq(contentFlags.targetType, input.targetType),
+            eq(contentFlags.targetId, input.targetId),
+            eq(contentFlags.reporterId, input.reporterId)
+          )!
+        )
+        .limit(1);
+
+      if (existing?.status === "open") {
+        return { flag: existing, duplicate: true };
+      }
+
+      const now = new Date();
+      if (existing) {
+        const [reopened] = await tx
+          .update(contentFlags)
+          .set({
+            reason: input.reason,
+            details: input.details ?? null,
+            status: "open",
+            resolvedBy: null,
+            resolvedAt: null,
+            createdAt: now,
+          })
+          .where(eq(contentFlags.id, existing.id))
+          .returning();
+
+        return { flag: reopened, duplicate: false };
+      }
+
+      const [flag] = await tx
+        .insert(contentFlags)
+        .values({ id: crypto.randomUUID(), ...input, status: "open", createdAt: now })
+        .returning();
+
+      return { flag, duplicate: false };
+    });
+  }
+
+  /**
+   * Count open reports on a thread or post
+   */
+  async countOpen(targetType: FlagTargetType, targetId: string): Promise<number> {
+    const [result] = await db
+      .select({ value: count() })
+      .from(contentFlags)
+      .where(
+        and(
+          eq(contentFlags.targetType, targetType),
+          eq(contentFlags.targetId, targetId),
+          eq(contentFlags.status, "open")
+        )!
+      );
+
+    return result?.value ?? 0;
+  }
+
+  /**
+   * Moderation queue for a course
+   *
+   * One item per reported thread or post with open reports, most severe
+   * first (then most reported, then most recently reported). Items are
+   * grouped and ordered in SQL, so the limit keeps the most urgent items
+   * however many reports are open.
+   */
+  async findModerationQueue(courseId: string): Promise<ModerationQueueItem[]> {
+    const open = and(eq(contentFlags.courseId, courseId), eq(contentFlags.status, "open"))!;
+    const severity = sql<number>`max(${reasonSeverity})`.mapWith(Number);
+    const reportCount = count();
+    const lastReportedAt = max(contentFlags.createdAt);
+
+    const groups = await db
+      .select({
+        targetType: contentFlags.targetType,
+        targetId: contentFlags.targetId,
+        threadId: contentFlags.threadId,
+        severity,
+        reportCount,
+        firstReportedAt: min(contentFlags.createdAt),
+        lastReportedAt,
+      })
+      .from(contentFlags)
+      .where(open)
+      .groupBy(contentFlags.targetType, contentFlags.targetId, contentFlags.threadId)
+      .orderBy(desc(severity), desc(reportCount), desc(lastReportedAt))
+      .limit(MAX_QUEUE_ITEMS);
+
+    if (groups.length === 0) return [];
+
+    const targetIds = [...new Set(groups.map((g) => g.targetId))];
+    const threadIds = [...new Set(groups.map((g) => g.threadId))];
+    const postIds = [...new Set(groups.filter((g) => g.targetType === "post").map((g) => g.targetId))];
+
+    const [reasonRows, threadRows, postRows] = await Promise.all([
+      db
+        .select({
+          targetType: contentFlags.targetType,
+          targetId: contentFlags.targetId,
+          reason: contentFlags.reason,
+          reports: count(),
+        })
+        .from(contentFlags)
+        .where(and(open, inArray(contentFlags.targetId, targetIds))!)
+        .groupBy(contentFlags.targetType, contentFlags.targetId, contentFlags.reason),
+      db
+        .select({
+          id: threads.id,
+          title: threads.title,
+          content: threads.content,
+          authorId: threads.authorId,
+          deletedAt: threads.deletedAt,
+        })
+        .from(threads)
+        .where(inArray(threads.id, threadIds)),
+      postIds.length > 0
+        ? db
+            .select({ id: posts.id, content: posts.content, authorId: posts.authorId, deletedAt: posts.deletedAt })
+            .from(posts)
+            .where(inArray(posts.id, postIds))
+        : Promise.resolve([]),
+    ]);
+    const threadsById = new Map(threadRows.map((t) => [t.id, t]));
+    const postsById = new Map(postRows.map((p) => [p.id, p]));
+
+    // Open reports per reason of each item
+    const reasonsByTarget = new Map<string, Record<string, number>>();
+    for (const row of reasonRows) {
+      const key = `${row.targetType}:${row.targetId}`;
+      const reasons = reasonsByTarget.get(key) ?? {};
+      reasons[row.reason] = row.reports;
+      reasonsByTarget.set(key, reasons);
+    }
+
+    const items: ModerationQueueItem[] = [];
+    for (const group of groups) {
+      const thread = threadsById.get(group.threadId);
+      const target = group.targetType === "post" ? postsById.get(group.targetId) : thread;
+      if (!thread || !target || !group.firstReportedAt || !group.lastReportedAt) continue;
+
+      items.push({
+        targetType: group.targetType as FlagTargetType,
+        targetId: group.targetId,
+        courseId,
+        threadId: group.threadId,
+        threadTitle: thread.deletedAt ? "" : thread.title,
+        content: target.deletedAt ? "" : target.content,
+        authorId: target.authorId,
+        deletedAt: target.deletedAt,
+        reportCount: group.reportCount,
+        severity: group.severity,
+        reasons: reasonsByTarget.get(`${group.targetType}:${group.targetId}`) ?? {},
+        firstReportedAt: group.firstReportedAt,
+        lastReportedAt: group.lastReportedAt,
+      });
+    }
+
+    return items;
+  }
+
+  /**
+   * Close every open report on a thread or post and notify the reporters
+   *
+   * @returns The closed reports (empty if there were none open)
+   */
+  async closeByTarget(
+    targetType: FlagTargetType,
+    targetId: string,
+    status: Exclude<FlagStatus, "open">,
+    resolvedBy: string,
+    notification: { title: string; message: string }
+  ): Promise<ContentFlag[]> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const closed = await tx
+        .update(contentFlags)
+        .set({ status, resolvedBy, resolvedAt: now })
+        .where(
+          and(
+            eq(contentFlags.targetType, targetType),
+            eq(contentFlags.targetId, targetId),
+            eq(contentFlags.status, "open")
+          )!
+        )
+        .returning();
+
+      if (closed.length > 0) {
+        await tx.insert(notifications).values(
+          closed.map((flag) => ({
+            id: crypto.randomUUID(),
+            userId: flag.reporterId,
+            type: `report_${status}`,
+            title: notification.title,
+            message: notification.message,
+            threadId: flag.threadId,
+            postId: flag.targetType === "post" ? flag.targetId : null,
+            read: false,
+            createdAt: now,
+            tenantId: flag.tenantId,
+          }))
+        );
+      }
+
+      return closed;
+    });
+  }
+}
+
+// Export singleton instance
+export const contentFlagsRepository = new ContentFlagsRepository();
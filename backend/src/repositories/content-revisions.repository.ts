@@ -0,0 +1,216 @@
+/**
+ * Content Revisions Repository
+ *
+ * Data access layer for content_revisions table
+ * Edits threads and posts, keeping every replaced version
+ */
+
+import { eq, and, asc, inArray, sql, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  contentRevisions,
+  threads,
+  posts,
+  users,
+  type Thread,
+  type Post,
+  type ContentRevision,
+  type NewContentRevision,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import { NotFoundError, ConflictError } from "../utils/errors.js";
+
+export type RevisionTargetType = "thread" | "post";
+
+/**
+ * Revision with the name of the user who wrote it
+ */
+export interface ContentRevisionWithEditor extends ContentRevision {
+  editor: {
+    id: string;
+    name: string;
+    role: string;
+  } | null;
+}
+
+export class ContentRevisionsRepository extends BaseRepository<
+  typeof contentRevisions,
+  ContentRevision,
+  NewContentRevision
+> {
+  constructor() {
+    super(contentRevisions);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Find the prior versions of a thread or post (oldest first)
+   */
+  async findByTarget(
+    targetType: RevisionTargetType,
+    targetId: string
+  ): Promise<ContentRevisionWithEditor[]> {
+    const revisions = await db
+      .select()
+      .from(contentRevisions)
+      .where(and(eq(contentRevisions.targetType, targetType), eq(contentRevisions.targetId, targetId))!)
+      .orderBy(asc(contentRevisions.version));
+
+    const editorIds = [
+      ...new Set(revisions.map((r) => r.editedBy).filter((id): id is string => !!id)),
+    ];
+    const editors =
+      editorIds.length > 0
+        ? await db
+            .select({ id: users.id, name: users.name, role: users.role })
+            .from(users)
+            .where(inArray(users.id, editorIds))
+        : [];
+    const editorsById = new Map(editors.map((editor) => [editor.id, editor]));
+
+    return revisions.map((revision) => ({
+      ...revision,
+      editor: revision.editedBy ? editorsById.get(revision.editedBy) ?? null : null,
+    }));
+  }
+
+  /**
+   * Edit a thread's title and/or content
+   *
+   * Snapshots the current version before updating. Unchanged edits return
+   * the thread as-is without recording a revision.
+   */
+  async editThread(
+    threadId: string,
+    changes: { title?: string; content?: string },
+    editedBy: string,
+    tenantId: string
+  ): Promise<Thread> {
+    return await db.transaction(async (tx) => {
+      const [thread] = await tx.select().from(threads).where(eq(threads.id, threadId)).limit(1);
+
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (thread.mergedInto) {
+        throw new ConflictError("Thread has been merged and can no longer be edited");
+      }
+      if (thread.deletedAt) {
+        throw new ConflictError("Deleted threads can't be edited");
+      }
+
+      const title = changes.title ?? thread.title;
+      const content = changes.content ?? thread.content;
+      if (title === thread.title && content === thread.content) {
+        return thread;
+      }
+
+      const [latest] = await tx
+        .select({ version: sql<number>`COALESCE(MAX(${contentRevisions.version}), 0)`.mapWith(Number) })
+        .from(contentRevisions)
+        .where(and(eq(contentRevisions.targetType, "thread"), eq(contentRevisions.targetId, threadId))!);
+
+      const now = new Date();
+      await tx.insert(contentRevisions).values({
+        id: crypto.randomUUID(),
+        targetType: "thread",
+        targetId: threadId,
+        version: (latest?.version ?? 0) + 1,
+        title: thread.title,
+        content: thread.content,
+        editedBy: thread.editedBy ?? thread.authorId,
+        editedAt: thread.editedAt ?? thread.createdAt,
+        replacedBy: editedBy,
+        createdAt: now,
+        tenantId,
+      });
+
+      const [updated] = await tx
+        .update(threads)
+        .set({ title, content, editedAt: now, editedBy, updatedAt: now })
+        .where(eq(threads.id, threadId))
+        .returning();
+
+      return updated;
+    });
+  }
+
+  /**
+   * Edit a post's content
+   *
+   * Snapshots the current version before updating. Unchanged edits return
+   * the post as-is without recording a revision.
+   */
+  async editPost(
+    postId: string,
+    content: string,
+    editedBy: string,
+    tenantId: string
+  ): Promise<Post> {
+    return await db.transaction(async (tx) => {
+      const [post] = await tx.select().from(posts).where(eq(posts.id, postId)).limit(1);
+
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+      if (post.deletedAt) {
+        throw new ConflictError("Deleted posts can't be edited");
+      }
+      if (content === post.content) {
+        return post;
+      }
+
+      const [latest] = await tx
+        .select({ version: sql<number>`COALESCE(MAX(${contentRevisions.version}), 0)`.mapWith(Number) })
+        .from(contentRevisions)
+        .where(and(eq(contentRevisions.targetType, "post"), eq(contentRevisions.targetId, postId))!);
+
+      const now = new Date();
+      await tx.insert(contentRevisions).values({
+        id: crypto.randomUUID(),
+        targetType: "post",
+        targetId: postId,
+        version: (latest?.version ?? 0) + 1,
+        title: null,
+        content: post.content,
+        editedBy: post.editedBy ?? post.authorId,
+        editedAt: post.editedAt ?? post.createdAt,
+        replacedBy: editedBy,
+        createdAt: now,
+        tenantId,
+      });
+
+      const [updated] = await tx
+        .update(posts)
+        .set({ content, editedAt: now, editedBy, updatedAt: now })
+        .where(eq(posts.id, postId))
+        .returning();
+
+      return updated;
+    });
+  }
+}
+
+// Export singleton instance
+export const contentRevisionsRepository = new ContentRevisionsRepository();
@@ -4,7 +4,7 @@
  * Data access layer for ai_conversations and ai_messages tables
  */
 
-import { eq, desc, type SQL } from "drizzle-orm";
+import { and, count, eq, desc, gt, type SQL } from "drizzle-orm";
 import { BaseRepository } from "./base.repository.js";
 import {
   aiConversations,
@@ -90,6 +90,57 @@ export class ConversationsRepository extends BaseRepository<
     return created;
   }
 
+  /**
+   * Save a chat turn (user message and the assistant's reply)
+   *
+   * Messages are keyed by their client-generated IDs: a user message that
+   * already exists is kept as is (retries, regenerate). Messages after the
+   * user message belong to a reply being regenerated and are replaced.
+   */
+  async saveTurn(
+    conversationId: string,
+    userMessage: NewAIMessage,
+    assistantMessage: NewAIMessage | null
+  ): Promise<AIMessage[]> {
+    return db.transaction(async (tx) => {
+      await tx.insert(aiMessages).values(userMessage).onConflictDoNothing({ target: aiMessages.id });
+
+      const [storedUser] = await tx
+        .select()
+        .from(aiMessages)
+        .where(and(eq(aiMessages.id, userMessage.id), eq(aiMessages.conversationId, conversationId)));
+      if (!storedUser) {
+        throw new Error(`Message ${userMessage.id} belongs to another conversation`);
+      }
+
+      // Drop the reply being regenerated
+      await tx
+        .delete(aiMessages)
+        .where(and(eq(aiMessages.conversationId, conversationId), gt(aiMessages.createdAt, storedUser.createdAt)));
+
+      const turn = [storedUser];
+      if (assistantMessage) {
+        const [storedAssistant] = await tx.insert(aiMessages).values(assistantMessage).returning();
+        turn.push(storedAssistant);
+      }
+
+      const [{ messageCount }] = await tx
+        .select({ messageCount: count() })
+        .from(aiMessages)
+        .where(eq(aiMessages.conversationId, conversationId));
+
+      await tx
+        .update(aiConversations)
+        .set({
+          lastMessageAt: turn[turn.length - 1].createdAt,
+          messageCount,
+        })
+        .where(eq(aiConversations.id, conversationId));
+
+      return turn;
+    });
+  }
+
   /**
    * Delete conversation and all its messages
    */
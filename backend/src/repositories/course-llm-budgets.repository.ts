@@ -0,0 +1,133 @@
+/**
+ * Course LLM Budgets Repository
+ *
+ * Data access layer for course_llm_budgets table
+ * Monthly LLM spending limits, checked against the llm_usage ledger
+ */
+
+import { eq, inArray, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  courseLlmBudgets,
+  type CourseLlmBudget,
+  type NewCourseLlmBudget,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import { llmUsageRepository } from "./llm-usage.repository.js";
+
+/**
+ * A course's budget for the current month
+ */
+export interface CourseLLMBudgetStatus {
+  courseId: string;
+  monthlyBudget: number | null; // USD, null when the course has no budget
+  spent: number; // Estimated cost since periodStart
+  remaining: number | null;
+  exhausted: boolean;
+  periodStart: string; // Start of the current calendar month (UTC)
+  updatedAt: string | null;
+}
+
+export class CourseLLMBudgetsRepository extends BaseRepository<
+  typeof courseLlmBudgets,
+  CourseLlmBudget,
+  NewCourseLlmBudget
+> {
+  constructor() {
+    super(courseLlmBudgets);
+  }
+
+  /**
+   * Implement abstract method: ID equality check (budgets are keyed by course)
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.courseId, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Budget status of a course for the current month
+   */
+  async getStatus(courseId: string, now = new Date()): Promise<CourseLLMBudgetStatus> {
+    const budget = await this.findById(courseId);
+    return await this.toStatus(courseId, budget, now);
+  }
+
+  /**
+   * Budget status of every listed course that has a budget
+   */
+  async getStatuses(courseIds: string[], now = new Date()): Promise<CourseLLMBudgetStatus[]> {
+    if (courseIds.length === 0) return [];
+
+    const budgets = await db
+      .select()
+      .from(courseLlmBudgets)
+      .where(inArray(courseLlmBudgets.courseId, courseIds));
+
+    return await Promise.all(budgets.map((budget) => this.toStatus(budget.courseId, budget, now)));
+  }
+
+  /**
+   * Set (or remove, with null) a course's monthly budget
+   */
+  async setBudget(
+    courseId: string,
+    monthlyBudget: number | null,
+    updatedBy: string,
+    tenantId: string
+  ): Promise<CourseLLMBudgetStatus> {
+    if (monthlyBudget === null) {
+      await db.delete(courseLlmBudgets).where(eq(courseLlmBudgets.courseId, courseId));
+      return await this.getStatus(courseId);
+    }
+
+    const now = new Date();
+    const [budget] = await db
+      .insert(courseLlmBudgets)
+      .values({ courseId, monthlyBudget, updatedBy, updatedAt: now, tenantId })
+      .onConflictDoUpdate({
+        target: courseLlmBudgets.courseId,
+        set: { monthlyBudget, updatedBy, updatedAt: now },
+      })
+      .returning();
+
+    return await this.toStatus(courseId, budget, now);
+  }
+
+  private async toStatus(
+    courseId: string,
+    budget: CourseLlmBudget | null,
+    now: Date
+  ): Promise<CourseLLMBudgetStatus> {
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const spent = await llmUsageRepository.spentSince(courseId, periodStart);
+    const monthlyBudget = budget?.monthlyBudget ?? null;
+
+    return {
+      courseId,
+      monthlyBudget,
+      spent,
+      remaining: monthlyBudget === null ? null : Math.max(0, monthlyBudget - spent),
+      exhausted: monthlyBudget !== null && spent >= monthlyBudget,
+      periodStart: periodStart.toISOString(),
+      updatedAt: budget?.updatedAt.toISOString() ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const courseLLMBudgetsRepository = new CourseLLMBudgetsRepository();
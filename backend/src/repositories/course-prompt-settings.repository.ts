@@ -0,0 +1,114 @@
+/**
+ * Course Prompt Settings Repository
+ *
+ * Data access layer for course_prompt_settings table
+ * Instructor overrides (persona, policy) of the assistant's system prompt
+ */
+
+import { eq, sql, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  coursePromptSettings,
+  type CoursePromptSetting,
+  type NewCoursePromptSetting,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+
+/**
+ * A course's prompt overrides (defaults with version 0 when never set)
+ */
+export interface CoursePromptSettingsStatus {
+  courseId: string;
+  persona: string | null;
+  policy: string | null;
+  version: number;
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+export class CoursePromptSettingsRepository extends BaseRepository<
+  typeof coursePromptSettings,
+  CoursePromptSetting,
+  NewCoursePromptSetting
+> {
+  constructor() {
+    super(coursePromptSettings);
+  }
+
+  /**
+   * Implement abstract method: ID equality check (settings are keyed by course)
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.courseId, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Prompt settings of a course
+   */
+  async getSettings(courseId: string): Promise<CoursePromptSettingsStatus> {
+    const settings = await this.findById(courseId);
+    return this.toStatus(courseId, settings);
+  }
+
+  /**
+   * Set a course's persona and policy (null restores the default),
+   * incrementing the settings version
+   */
+  async setSettings(
+    courseId: string,
+    persona: string | null,
+    policy: string | null,
+    updatedBy: string,
+    tenantId: string
+  ): Promise<CoursePromptSettingsStatus> {
+    const now = new Date();
+    const [settings] = await db
+      .insert(coursePromptSettings)
+      .values({ courseId, persona, policy, version: 1, updatedBy, updatedAt: now, tenantId })
+      .onConflictDoUpdate({
+        target: coursePromptSettings.courseId,
+        set: {
+          persona,
+          policy,
+          version: sql`${coursePromptSettings.version} + 1`,
+          updatedBy,
+          updatedAt: now,
+        },
+      })
+      .returning();
+
+    return this.toStatus(courseId, settings);
+  }
+
+  private toStatus(
+    courseId: string,
+    settings: CoursePromptSetting | null
+  ): CoursePromptSettingsStatus {
+    return {
+      courseId,
+      persona: settings?.persona ?? null,
+      policy: settings?.policy ?? null,
+      version: settings?.version ?? 0,
+      updatedBy: settings?.updatedBy ?? null,
+      updatedAt: settings?.updatedAt.toISOString() ?? null,
+    };
+  }
+}
+
+// Export singleton instance
+export const coursePromptSettingsRepository = new CoursePromptSettingsRepository();
@@ -99,6 +99,14 @@ export class EnrollmentsRepository extends BaseRepository<
     const enrollment = await this.findByUserAndCourse(userId, courseId);
     return !!enrollment;
   }
+
+  /**
+   * Check if user is an instructor or TA of course
+   */
+  async isCourseStaff(userId: string, courseId: string): Promise<boolean> {
+    const enrollment = await this.findByUserAndCourse(userId, courseId);
+    return enrollment?.role === "instructor" || enrollment?.role === "ta";
+  }
 }
 
 // Export singleton instance
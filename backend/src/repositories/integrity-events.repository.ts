@@ -0,0 +1,90 @@
+/**
+ * Integrity Events Repository
+ *
+ * Data access layer for integrity_events table
+ * Attempts to get full solutions to guarded assignments, for instructor review
+ */
+
+import { and, desc, eq, inArray, isNull, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  integrityEvents,
+  type IntegrityEvent,
+  type NewIntegrityEvent,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+
+/**
+ * Most events returned per list request
+ */
+const MAX_EVENTS = 200;
+
+export class IntegrityEventsRepository extends BaseRepository<
+  typeof integrityEvents,
+  IntegrityEvent,
+  NewIntegrityEvent
+> {
+  constructor() {
+    super(integrityEvents);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Events of the listed courses (newest first)
+   */
+  async findByCourses(
+    courseIds: string[],
+    options: { unreviewedOnly?: boolean } = {}
+  ): Promise<IntegrityEvent[]> {
+    if (courseIds.length === 0) return [];
+
+    const conditions = [inArray(integrityEvents.courseId, courseIds)];
+    if (options.unreviewedOnly) {
+      conditions.push(isNull(integrityEvents.reviewedAt));
+    }
+
+    return await db
+      .select()
+      .from(integrityEvents)
+      .where(and(...conditions))
+      .orderBy(desc(integrityEvents.createdAt))
+      .limit(MAX_EVENTS);
+  }
+
+  /**
+   * Mark an event as reviewed
+   */
+  async markReviewed(id: string, reviewedBy: string): Promise<IntegrityEvent | null> {
+    const [event] = await db
+      .update(integrityEvents)
+      .set({ reviewedBy, reviewedAt: new Date() })
+      .where(eq(integrityEvents.id, id))
+      .returning();
+
+    return event ?? null;
+  }
+}
+
+// Export singleton instance
+export const integrityEventsRepository = new IntegrityEventsRepository();
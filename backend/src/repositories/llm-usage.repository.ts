@@ -0,0 +1,165 @@
+/**
+ * LLM Usage Repository
+ *
+ * Data access layer for llm_usage table
+ * Ledger of LLM calls (one row per call) aggregated for cost accounting
+ */
+
+import { and, asc, count, eq, gte, inArray, lt, sql, sum, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import { llmUsage, type LlmUsage, type NewLlmUsage } from "../db/schema.js";
+import { db } from "../db/client.js";
+import type { LLMFeature } from "../schemas/llm-usage.schema.js";
+
+/**
+ * Aggregated usage of a group of LLM calls
+ */
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+  estimatedCost: number;
+}
+
+/**
+ * Usage of a tenant (optionally limited to some courses) over a time range
+ */
+export interface LLMUsageAggregates {
+  totals: LLMUsageTotals;
+  byDay: Array<LLMUsageTotals & { date: string }>;
+  byCourse: Array<LLMUsageTotals & { courseId: string | null }>;
+  byFeature: Array<LLMUsageTotals & { feature: LLMFeature }>;
+}
+
+export interface LLMUsageFilter {
+  tenantId: string;
+  courseIds?: string[]; // Omit for every course (and calls outside a course)
+  from: Date; // Inclusive
+  to: Date; // Exclusive
+}
+
+/**
+ * Aggregate columns shared by every grouping
+ */
+const totalsColumns = {
+  calls: count(),
+  inputTokens: sum(llmUsage.inputTokens),
+  outputTokens: sum(llmUsage.outputTokens),
+  totalTokens: sum(llmUsage.totalTokens),
+  estimatedCost: sum(llmUsage.estimatedCost),
+};
+
+export class LLMUsageRepository extends BaseRepository<
+  typeof llmUsage,
+  LlmUsage,
+  NewLlmUsage
+> {
+  constructor() {
+    super(llmUsage);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Estimated cost of a course's LLM calls since a point in time
+   */
+  async spentSince(courseId: string, since: Date): Promise<number> {
+    const [row] = await db
+      .select({ estimatedCost: sum(llmUsage.estimatedCost) })
+      .from(llmUsage)
+      .where(and(eq(llmUsage.courseId, courseId), gte(llmUsage.createdAt, since)));
+
+    return Number(row?.estimatedCost ?? 0);
+  }
+
+  /**
+   * Usage totals by day (UTC), course and feature
+   */
+  async aggregate(filter: LLMUsageFilter): Promise<LLMUsageAggregates> {
+    if (filter.courseIds && filter.courseIds.length === 0) {
+      return { totals: toTotals({ calls: 0 }), byDay: [], byCourse: [], byFeature: [] };
+    }
+
+    const where = and(
+      eq(llmUsage.tenantId, filter.tenantId),
+      gte(llmUsage.createdAt, filter.from),
+      lt(llmUsage.createdAt, filter.to),
+      filter.courseIds ? inArray(llmUsage.courseId, filter.courseIds) : undefined
+    );
+    const day = sql<string>`to_char(${llmUsage.createdAt}, 'YYYY-MM-DD')`;
+
+    const [[totals], byDay, byCourse, byFeature] = await Promise.all([
+      db.select(totalsColumns).from(llmUsage).where(where),
+      db
+        .select({ date: day, ...totalsColumns })
+        .from(llmUsage)
+        .where(where)
+        .groupBy(day)
+        .orderBy(asc(day)),
+      db
+        .select({ courseId: llmUsage.courseId, ...totalsColumns })
+        .from(llmUsage)
+        .where(where)
+        .groupBy(llmUsage.courseId),
+      db
+        .select({ feature: llmUsage.feature, ...totalsColumns })
+        .from(llmUsage)
+        .where(where)
+        .groupBy(llmUsage.feature),
+    ]);
+
+    const byCost = (a: LLMUsageTotals, b: LLMUsageTotals) => b.estimatedCost - a.estimatedCost;
+
+    return {
+      totals: toTotals(totals ?? { calls: 0 }),
+      byDay: byDay.map((row) => ({ date: row.date, ...toTotals(row) })),
+      byCourse: byCourse.map((row) => ({ courseId: row.courseId, ...toTotals(row) })).sort(byCost),
+      byFeature: byFeature
+        .map((row) => ({ feature: row.feature as LLMFeature, ...toTotals(row) }))
+        .sort(byCost),
+    };
+  }
+}
+
+/**
+ * Convert aggregate columns (Postgres returns SUM as a numeric string) to numbers
+ */
+function toTotals(row: {
+  calls: number;
+  inputTokens?: string | null;
+  outputTokens?: string | null;
+  totalTokens?: string | null;
+  estimatedCost?: string | null;
+}): LLMUsageTotals {
+  return {
+    calls: Number(row.calls),
+    inputTokens: Number(row.inputTokens ?? 0),
+    outputTokens: Number(row.outputTokens ?? 0),
+    totalTokens: Number(row.totalTokens ?? 0),
+    estimatedCost: Number(row.estimatedCost ?? 0),
+  };
+}
+
+// Export singleton instance
+export const llmUsageRepository = new LLMUsageRepository();
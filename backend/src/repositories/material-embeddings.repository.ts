@@ -0,0 +1,311 @@
+/**
+ * Material Embeddings Repository
+ *
+ * Data access layer for material_embeddings table
+ * Persistent vector store for course material retrieval (kb_search)
+ */
+
+import { createHash } from "node:crypto";
+import { eq, and, ne, notExists, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import { courseMaterialsRepository } from "./materials.repository.js";
+import {
+  courseMaterials,
+  materialEmbeddings,
+  type CourseMaterial,
+  type MaterialEmbedding,
+  type NewMaterialEmbedding,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import { BadRequestError } from "../utils/errors.js";
+
+/**
+ * Ranked vector search hit
+ */
+export interface MaterialEmbeddingMatch {
+  id: string;                // Vector ID (material ID or "<materialId>#<chunkIndex>")
+  materialId: string;
+  chunkIndex: number | null; // Passage index, null for whole-material vectors
+  score: number;             // Cosine similarity (-1 to 1)
+}
+
+/**
+ * Vector to store: a whole material, or one of its passages
+ */
+export interface MaterialEmbeddingInput {
+  materialId: string;
+  chunkIndex?: number;
+  vector: number[];
+}
+
+/**
+ * Vector ID of a material or passage
+ */
+export function toVectorId(materialId: string, chunkIndex?: number | null): string {
+  return chunkIndex === undefined || chunkIndex === null ? materialId : `${materialId}#${chunkIndex}`;
+}
+
+/**
+ * Passage index of a vector ID (null for whole-material vectors)
+ */
+export function parseChunkIndex(vectorId: string, materialId: string): number | null {
+  return vectorId === materialId ? null : Number(vectorId.slice(materialId.length + 1));
+}
+
+/**
+ * Hash of the text a material is embedded from
+ *
+ * Mirrors getMaterialEmbeddingText in lib/retrieval/EmbeddingRetriever.ts,
+ * so a hash mismatch means the material changed since it was embedded.
+ */
+export function hashMaterialContent(
+  material: Pick<CourseMaterial, "title" | "content"> & { keywords: string[] }
+): string {
+  const text = `${material.title}\n${material.content}\nKeywords: ${material.keywords.join(", ")}`;
+  return createHash("sha256").update(text).digest("hex");
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  const denominator = Math.sqrt(normA) * Math.sqrt(normB);
+  return denominator === 0 ? 0 : dot / denominator;
+}
+
+export class MaterialEmbeddingsRepository extends BaseRepository<
+  typeof materialEmbeddings,
+  MaterialEmbedding,
+  NewMaterialEmbedding
+> {
+  constructor() {
+    super(materialEmbeddings);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Find the embedding for a material or passage under a model
+   */
+  async findByVectorId(vectorId: string, model: string): Promise<MaterialEmbedding | null> {
+    const [embedding] = await db
+      .select()
+      .from(materialEmbeddings)
+      .where(and(eq(materialEmbeddings.vectorId, vectorId), eq(materialEmbeddings.model, model)))
+      .limit(1);
+
+    return embedding || null;
+  }
+
+  /**
+   * Get a course's embedding status for a model
+   *
+   * Stored embeddings are up to date: they're written with the material's
+   * content hash and dropped when the material changes (see
+   * CourseMaterialsRepository.update). Returns the stored vector IDs and
+   * the IDs of materials with no vector yet.
+   */
+  async findStatusByCourse(
+    courseId: string,
+    model: string
+  ): Promise<{ embedded: string[]; missing: string[] }> {
+    const [embedded, missing] = await Promise.all([
+      db
+        .select({ vectorId: materialEmbeddings.vectorId })
+        .from(materialEmbeddings)
+        .where(and(eq(materialEmbeddings.courseId, courseId), eq(materialEmbeddings.model, model))),
+      db
+        .select({ id: courseMaterials.id })
+        .from(courseMaterials)
+        .where(
+          and(
+            eq(courseMaterials.courseId, courseId),
+            notExists(
+              db
+                .select({ id: materialEmbeddings.id })
+                .from(materialEmbeddings)
+                .where(
+                  and(
+                    eq(materialEmbeddings.materialId, courseMaterials.id),
+                    eq(materialEmbeddings.model, model)
+                  )
+                )
+            )
+          )
+        ),
+    ]);
+
+    return {
+      embedded: embedded.map((e) => e.vectorId),
+      missing: missing.map((m) => m.id),
+    };
+  }
+
+  /**
+   * Insert or replace embeddings for course materials or their passages
+   *
+   * The content hash is taken from the current material row, so the
+   * stored vector is considered fresh until the material changes. Stale
+   * vectors of the written materials are dropped, since a changed material
+   * may have a different set of passages.
+   */
+  async upsertMany(
+    courseId: string,
+    model: string,
+    items: MaterialEmbeddingInput[]
+  ): Promise<number> {
+    if (items.length === 0) return 0;
+
+    const dimensions = items[0].vector.length;
+    if (items.some((item) => item.vector.length !== dimensions)) {
+      throw new BadRequestError("All vectors must have the same dimensions");
+    }
+
+    // Vectors must match dimensions already stored for this model
+    const [existing] = await db
+      .select({ dimensions: materialEmbeddings.dimensions })
+      .from(materialEmbeddings)
+      .where(eq(materialEmbeddings.model, model))
+      .limit(1);
+    if (existing && existing.dimensions !== dimensions) {
+      throw new BadRequestError(
+        `Model ${model} stores ${existing.dimensions}-dimensional vectors, got ${dimensions}`
+      );
+    }
+
+    const materials = await courseMaterialsRepository.findByCourse(courseId);
+    const materialsById = new Map(materials.map((m) => [m.id, m]));
+
+    const unknown = items.filter((item) => !materialsById.has(item.materialId));
+    if (unknown.length > 0) {
+      throw new BadRequestError(
+        `Materials not found in course: ${unknown.map((item) => item.materialId).join(", ")}`
+      );
+    }
+
+    const now = new Date();
+    await db.transaction(async (tx) => {
+      for (const item of items) {
+        const material = materialsById.get(item.materialId)!;
+        const vector = item.vector;
+        const contentHash = hashMaterialContent(material);
+
+        await tx
+          .insert(materialEmbeddings)
+          .values({
+            id: crypto.randomUUID(),
+            vectorId: toVectorId(item.materialId, item.chunkIndex),
+            materialId: item.materialId,
+            courseId,
+            model,
+            dimensions,
+            vector,
+            contentHash,
+            updatedAt: now,
+            tenantId: material.tenantId,
+          })
+          .onConflictDoUpdate({
+            target: [materialEmbeddings.vectorId, materialEmbeddings.model],
+            set: { dimensions, vector, contentHash, updatedAt: now },
+          });
+      }
+
+      for (const materialId of new Set(items.map((item) => item.materialId))) {
+        await tx
+          .delete(materialEmbeddings)
+          .where(
+            and(
+              eq(materialEmbeddings.materialId, materialId),
+              eq(materialEmbeddings.model, model),
+              ne(materialEmbeddings.contentHash, hashMaterialContent(materialsById.get(materialId)!))
+            )
+          );
+      }
+    });
+
+    return items.length;
+  }
+
+  /**
+   * Rank a course's embeddings by cosine similarity to a query vector
+   */
+  async search(
+    courseId: string,
+    model: string,
+    vector: number[],
+    limit: number
+  ): Promise<MaterialEmbeddingMatch[]> {
+    const embeddings = await db
+      .select({
+        vectorId: materialEmbeddings.vectorId,
+        materialId: materialEmbeddings.materialId,
+        dimensions: materialEmbeddings.dimensions,
+        vector: materialEmbeddings.vector,
+      })
+      .from(materialEmbeddings)
+      .where(and(eq(materialEmbeddings.courseId, courseId), eq(materialEmbeddings.model, model)));
+
+    const matches: MaterialEmbeddingMatch[] = [];
+    for (const embedding of embeddings) {
+      if (embedding.dimensions !== vector.length) {
+        throw new BadRequestError(
+          `Query vector has ${vector.length} dimensions, model ${model} uses ${embedding.dimensions}`
+        );
+      }
+      matches.push({
+        id: embedding.vectorId,
+        materialId: embedding.materialId,
+        chunkIndex: parseChunkIndex(embedding.vectorId, embedding.materialId),
+        score: cosineSimilarity(vector, embedding.vector),
+      });
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, limit);
+  }
+
+  /**
+   * Delete a course's embeddings (optionally only for one model)
+   * Returns number of deleted rows
+   */
+  async deleteByCourse(courseId: string, model?: string): Promise<number> {
+    const result = await db
+      .delete(materialEmbeddings)
+      .where(
+        and(
+          eq(materialEmbeddings.courseId, courseId),
+          model ? eq(materialEmbeddings.model, model) : undefined
+        )
+      )
+      .returning({ id: materialEmbeddings.id });
+
+    return result.length;
+  }
+}
+
+// Export singleton instance
+export const materialEmbeddingsRepository = new MaterialEmbeddingsRepository();
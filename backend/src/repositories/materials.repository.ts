@@ -6,19 +6,20 @@
 
 import { eq, and, type SQL, inArray } from "drizzle-orm";
 import { BaseRepository } from "./base.repository.js";
-import { courseMaterials, type CourseMaterial, type NewCourseMaterial } from "../db/schema.js";
+import {
+  courseMaterials,
+  materialEmbeddings,
+  type CourseMaterial,
+  type NewCourseMaterial,
+} from "../db/schema.js";
 import { db } from "../db/client.js";
 import type { MaterialMetadata } from "../schemas/materials.schema.js";
+import { rankMaterials, type RankedMaterial } from "../search/index.js";
 
 /**
  * Search result type
  */
-export interface MaterialSearchResult {
-  material: CourseMaterial & { keywords: string[] };
-  relevanceScore: number;
-  matchedKeywords: string[];
-  snippet: string;
-}
+export type MaterialSearchResult = RankedMaterial<CourseMaterial & { keywords: string[] }>;
 
 export class CourseMaterialsRepository extends BaseRepository<
   typeof courseMaterials,
@@ -51,6 +52,43 @@ export class CourseMaterialsRepository extends BaseRepository<
     return eq(column as any, value);
   }
 
+  /**
+   * Update a material
+   *
+   * Its embeddings are dropped when the embedded text (title, content,
+   * keywords) changes, so it is re-embedded on next search.
+   */
+  async update(id: string, data: Partial<NewCourseMaterial>): Promise<CourseMaterial | null> {
+    return await db.transaction(async (tx) => {
+      const [updated] = await tx
+        .update(courseMaterials)
+        .set(data)
+        .where(eq(courseMaterials.id, id))
+        .returning();
+
+      if (updated && (data.title !== undefined || data.content !== undefined || data.metadata !== undefined)) {
+        await tx.delete(materialEmbeddings).where(eq(materialEmbeddings.materialId, id));
+      }
+
+      return updated || null;
+    });
+  }
+
+  /**
+   * Delete a material and its embeddings
+   */
+  async delete(id: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(materialEmbeddings).where(eq(materialEmbeddings.materialId, id));
+      const deleted = await tx
+        .delete(courseMaterials)
+        .where(eq(courseMaterials.id, id))
+        .returning({ id: courseMaterials.id });
+
+      return deleted.length > 0;
+    });
+  }
+
   /**
    * Find all materials for a course
    */
@@ -122,7 +160,10 @@ export class CourseMaterialsRepository extends BaseRepository<
   }
 
   /**
-   * Search materials by keywords (simple keyword matching)
+   * Search materials with BM25F (title, keywords and content weighted)
+   *
+   * Relevance is the BM25F score as a share of the highest score the query
+   * can reach; results carry highlighted fragments for every matched term.
    */
   async searchMaterials(
     courseId: string,
@@ -137,121 +178,7 @@ export class CourseMaterialsRepository extends BaseRepository<
         ? await this.findByType(courseId, types)
         : await this.findByCourse(courseId);
 
-    // Extract keywords from query
-    const queryKeywords = this.extractKeywords(query);
-
-    // Score each material
-    const results: MaterialSearchResult[] = materials.map((material) => {
-      // Combine title and content for matching
-      const materialText = `${material.title} ${material.content}`.toLowerCase();
-      const materialKeywords = material.keywords;
-
-      // Count matches
-      const matchedKeywords = queryKeywords.filter(
-        (k) => materialKeywords.includes(k) || materialText.includes(k)
-      );
-
-      // Calculate relevance score
-      const relevanceScore =
-        queryKeywords.length > 0
-          ? Math.round((matchedKeywords.length / queryKeywords.length) * 100)
-          : 0;
-
-      // Generate snippet (first 150 chars with matched keywords)
-      const snippet = this.generateSnippet(material.content, matchedKeywords, 150);
-
-      return {
-        material,
-        relevanceScore,
-        matchedKeywords,
-        snippet,
-      };
-    });
-
-    // Filter by minimum relevance and sort
-    return results
-      .filter((r) => r.relevanceScore >= minRelevance)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, limit);
-  }
-
-  /**
-   * Extract keywords from text (simple tokenization)
-   */
-  private extractKeywords(text: string): string[] {
-    return text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, " ") // Remove punctuation
-      .split(/\s+/)
-      .filter((word) => word.length > 2) // Min 3 chars
-      .filter((word) => !this.isStopWord(word)); // Remove stop words
-  }
-
-  /**
-   * Check if word is a stop word
-   */
-  private isStopWord(word: string): boolean {
-    const stopWords = new Set([
-      "the",
-      "and",
-      "for",
-      "are",
-      "but",
-      "not",
-      "you",
-      "all",
-      "can",
-      "her",
-      "was",
-      "one",
-      "our",
-      "out",
-      "this",
-      "that",
-      "with",
-      "from",
-      "have",
-      "has",
-    ]);
-    return stopWords.has(word);
-  }
-
-  /**
-   * Generate snippet with matched keywords highlighted
-   */
-  private generateSnippet(
-    content: string,
-    matchedKeywords: string[],
-    maxLength: number
-  ): string {
-    if (matchedKeywords.length === 0) {
-      return content.substring(0, maxLength) + (content.length > maxLength ? "..." : "");
-    }
-
-    // Find first occurrence of any matched keyword
-    const contentLower = content.toLowerCase();
-    let firstMatchIndex = -1;
-
-    for (const keyword of matchedKeywords) {
-      const index = contentLower.indexOf(keyword.toLowerCase());
-      if (index !== -1 && (firstMatchIndex === -1 || index < firstMatchIndex)) {
-        firstMatchIndex = index;
-      }
-    }
-
-    if (firstMatchIndex === -1) {
-      return content.substring(0, maxLength) + (content.length > maxLength ? "..." : "");
-    }
-
-    // Extract snippet around first match
-    const start = Math.max(0, firstMatchIndex - 50);
-    const end = Math.min(content.length, firstMatchIndex + maxLength);
-    let snippet = content.substring(start, end);
-
-    if (start > 0) snippet = "..." + snippet;
-    if (end < content.length) snippet = snippet + "...";
-
-    return snippet;
+    return rankMaterials(materials, query, { limit, minRelevance });
   }
 }
 
@@ -5,12 +5,17 @@
  * Handles post CRUD and endorsements
  */
 
-import { eq, and, desc, sql, type SQL } from "drizzle-orm";
+import { eq, and, desc, sql, count, inArray, isNull, type SQL } from "drizzle-orm";
 import { BaseRepository, type PaginationOptions, type PaginatedResult } from "./base.repository.js";
 import { posts, users, postEndorsements, type Post, type NewPost } from "../db/schema.js";
 import { db } from "../db/client.js";
 import { NotFoundError } from "../utils/errors.js";
 
+/**
+ * Deepest nesting level a reply can have (0 = top level)
+ */
+export const MAX_REPLY_DEPTH = 3;
+
 /**
  * Post with author details
  */
@@ -24,6 +29,22 @@ export interface PostWithAuthor extends Post {
   };
 }
 
+/**
+ * Post with author details and its direct reply count
+ */
+export interface PostWithReplies extends PostWithAuthor {
+  replyCount: number;
+}
+
+/**
+ * Reply branch to list (none set = every post in the thread)
+ */
+export interface PostBranchFilter {
+  parentPostId?: string; // Direct replies to this post
+  aiAnswerId?: string; // Top-level comments on this AI answer
+  topLevel?: boolean; // Top-level replies to the thread itself
+}
+
 export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost> {
   constructor() {
     super(posts);
@@ -53,12 +74,14 @@ export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost>
 
   /**
    * Find posts by thread ID with pagination
-   * Returns posts with author details
+   * Returns posts with author details and direct reply counts; a branch
+   * filter narrows the list to one level of the reply tree
    */
   async findByThread(
     threadId: string,
-    options: PaginationOptions = {}
-  ): Promise<PaginatedResult<PostWithAuthor>> {
+    options: PaginationOptions = {},
+    branch: PostBranchFilter = {}
+  ): Promise<PaginatedResult<PostWithReplies>> {
     const limit = options.limit || 20;
     const cursor = options.cursor;
 
@@ -74,15 +97,18 @@ export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost>
     }
 
     // Build where condition
-    let whereCondition: SQL;
+    const conditions: SQL[] = [eq(posts.threadId, threadId)];
+    if (branch.parentPostId) {
+      conditions.push(eq(posts.parentPostId, branch.parentPostId));
+    } else if (branch.aiAnswerId) {
+      conditions.push(eq(posts.aiAnswerId, branch.aiAnswerId), isNull(posts.parentPostId));
+    } else if (branch.topLevel) {
+      conditions.push(isNull(posts.aiAnswerId), isNull(posts.parentPostId));
+    }
     if (cursorData) {
-      whereCondition = and(
-        eq(posts.threadId, threadId),
-        sql`(${posts.createdAt}, ${posts.id}) > (${cursorData.createdAt}, ${cursorData.id})`
-      )!;
-    } else {
-      whereCondition = eq(posts.threadId, threadId);
+      conditions.push(sql`(${posts.createdAt}, ${posts.id}) > (${cursorData.createdAt}, ${cursorData.id})`);
     }
+    const whereCondition = and(...conditions)!;
 
     // Fetch posts first (ordered by createdAt ASC for chronological display)
     const postResults = await db
@@ -125,10 +151,24 @@ export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost>
       nextCursor = Buffer.from(JSON.stringify(cursorObj)).toString("base64");
     }
 
+    // Count direct replies (tombstones included, since their replies stay visible)
+    const replyCounts = new Map<string, number>();
+    if (postItems.length > 0) {
+      const countResults = await db
+        .select({ parentPostId: posts.parentPostId, value: count() })
+        .from(posts)
+        .where(inArray(posts.parentPostId, postItems.map((p) => p.id)))
+        .groupBy(posts.parentPostId);
+      for (const row of countResults) {
+        if (row.parentPostId) replyCounts.set(row.parentPostId, row.value);
+      }
+    }
+
     // Transform results
-    const postsWithAuthor: PostWithAuthor[] = results.map((row) => ({
+    const postsWithAuthor: PostWithReplies[] = results.map((row) => ({
       ...row.post,
       author: row.author,
+      replyCount: replyCounts.get(row.post.id) ?? 0,
     }));
 
     return {
@@ -140,6 +180,26 @@ export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost>
     };
   }
 
+  /**
+   * Find post by ID with author details
+   */
+  async findByIdWithAuthor(id: string): Promise<PostWithAuthor | null> {
+    const postResults = await db.select().from(posts).where(eq(posts.id, id)).limit(1);
+    const post = postResults[0];
+    if (!post) {
+      return null;
+    }
+
+    const authorResults = post.authorId
+      ? await db.select().from(users).where(eq(users.id, post.authorId)).limit(1)
+      : [];
+
+    return {
+      ...post,
+      author: authorResults[0],
+    };
+  }
+
   /**
    * Create new post
    */
@@ -148,6 +208,32 @@ export class PostsRepository extends BaseRepository<typeof posts, Post, NewPost>
     return result[0];
   }
 
+  /**
+   * Soft-delete post (tombstone)
+   */
+  async softDelete(id: string, deletedBy: string, deletionReason: string): Promise<Post | null> {
+    const result = await db
+      .update(posts)
+      .set({ deletedAt: new Date(), deletedBy, deletionReason })
+      .where(eq(posts.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Restore soft-deleted post
+   */
+  async restore(id: string): Promise<Post | null> {
+    const result = await db
+      .update(posts)
+      .set({ deletedAt: null, deletedBy: null, deletionReason: null, updatedAt: new Date() })
+      .where(eq(posts.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
   /**
    * Add endorsement to post
    * Returns true if endorsement was added, false if already existed
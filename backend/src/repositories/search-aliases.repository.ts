@@ -0,0 +1,126 @@
+/**
+ * Search Aliases Repository
+ *
+ * Data access layer for course_search_aliases table
+ * Per-course alias tables used to rewrite material search queries
+ */
+
+import { asc, eq, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  courseSearchAliases,
+  type CourseSearchAlias,
+  type NewCourseSearchAlias,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import type { SearchAlias } from "../search/index.js";
+
+/**
+ * A course's alias table
+ */
+export interface CourseSearchAliasTable {
+  courseId: string;
+  aliases: SearchAlias[];
+  updatedAt: string | null; // Most recent edit, null if the course has no aliases
+}
+
+export class SearchAliasesRepository extends BaseRepository<
+  typeof courseSearchAliases,
+  CourseSearchAlias,
+  NewCourseSearchAlias
+> {
+  constructor() {
+    super(courseSearchAliases);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Get the alias table of a course
+   */
+  async findByCourse(courseId: string): Promise<CourseSearchAliasTable> {
+    const rows = await db
+      .select()
+      .from(courseSearchAliases)
+      .where(eq(courseSearchAliases.courseId, courseId))
+      .orderBy(asc(courseSearchAliases.term));
+
+    return toTable(courseId, rows);
+  }
+
+  /**
+   * Replace the alias table of a course
+   */
+  async replaceForCourse(
+    courseId: string,
+    aliases: SearchAlias[],
+    updatedBy: string,
+    tenantId: string
+  ): Promise<CourseSearchAliasTable> {
+    const now = new Date();
+
+    const rows = await db.transaction(async (tx) => {
+      await tx.delete(courseSearchAliases).where(eq(courseSearchAliases.courseId, courseId));
+      if (aliases.length === 0) return [];
+
+      return await tx
+        .insert(courseSearchAliases)
+        .values(
+          aliases.map((entry) => ({
+            id: crypto.randomUUID(),
+            courseId,
+            term: entry.term,
+            aliases: JSON.stringify(entry.aliases),
+            updatedBy,
+            updatedAt: now,
+            tenantId,
+          }))
+        )
+        .returning();
+    });
+
+    return toTable(
+      courseId,
+      rows.sort((a, b) => a.term.localeCompare(b.term))
+    );
+  }
+}
+
+function toTable(courseId: string, rows: CourseSearchAlias[]): CourseSearchAliasTable {
+  const updatedAt = rows.reduce<Date | null>(
+    (latest, row) => (!latest || row.updatedAt > latest ? row.updatedAt : latest),
+    null
+  );
+
+  return {
+    courseId,
+    aliases: rows.map((row) => ({
+      term: row.term,
+      aliases: JSON.parse(row.aliases) as string[],
+    })),
+    updatedAt: updatedAt?.toISOString() ?? null,
+  };
+}
+
+// Export singleton instance
+export const searchAliasesRepository = new SearchAliasesRepository();
@@ -0,0 +1,284 @@
+/**
+ * Thread Merges Repository
+ *
+ * Data access layer for thread_merges table
+ * Merges duplicate threads (moves posts + upvotes) and undoes recent merges
+ */
+
+import { eq, and, inArray, notInArray, sql, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  threadMerges,
+  threads,
+  posts,
+  threadUpvotes,
+  type Thread,
+  type ThreadMerge,
+  type NewThreadMerge,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+import { NotFoundError, BadRequestError, ConflictError } from "../utils/errors.js";
+
+/**
+ * How long a merge can be undone (TAs misclick)
+ */
+export const MERGE_UNDO_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+
+/**
+ * Parse the JSON-encoded mergedFrom column
+ */
+export function parseMergedFrom(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+export class ThreadMergesRepository extends BaseRepository<
+  typeof threadMerges,
+  ThreadMerge,
+  NewThreadMerge
+> {
+  constructor() {
+    super(threadMerges);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Merge source thread into target thread
+   *
+   * - Moves all posts from source to target
+   * - Moves upvotes (skips users who already upvoted the target)
+   * - Marks source as duplicate (duplicatesOf + mergedInto = target)
+   * - Appends source to target.mergedFrom
+   * - Records the merge so it can be undone within MERGE_UNDO_WINDOW_MS
+   */
+  async mergeThreads(
+    sourceId: string,
+    targetId: string,
+    mergedBy: string,
+    tenantId: string
+  ): Promise<{ merge: ThreadMerge; target: Thread }> {
+    if (sourceId === targetId) {
+      throw new BadRequestError("Cannot merge a thread with itself");
+    }
+
+    return await db.transaction(async (tx) => {
+      const [source] = await tx.select().from(threads).where(eq(threads.id, sourceId)).limit(1);
+      const [target] = await tx.select().from(threads).where(eq(threads.id, targetId)).limit(1);
+
+      if (!source) {
+        throw new NotFoundError("Source thread");
+      }
+      if (!target) {
+        throw new NotFoundError("Target thread");
+      }
+      if (source.courseId !== target.courseId) {
+        throw new BadRequestError("Threads must belong to the same course");
+      }
+      // Deleted threads are tombstones: nothing to move out, and nowhere to redirect to
+      if (source.deletedAt) {
+        throw new ConflictError("Source thread has been deleted");
+      }
+      if (target.deletedAt) {
+        throw new ConflictError("Cannot merge into a deleted thread");
+      }
+      if (source.mergedInto) {
+        throw new ConflictError("Source thread has already been merged");
+      }
+      if (target.mergedInto) {
+        throw new ConflictError("Cannot merge into a thread that has itself been merged");
+      }
+
+      // Move posts
+      const movedPosts = await tx
+        .update(posts)
+        .set({ threadId: targetId })
+        .where(eq(posts.threadId, sourceId))
+        .returning({ id: posts.id });
+
+      // Move upvotes, skipping users who already upvoted the target
+      // (unique index on thread_id + user_id)
+      const targetUpvoters = await tx
+        .select({ userId: threadUpvotes.userId })
+        .from(threadUpvotes)
+        .where(eq(threadUpvotes.threadId, targetId));
+      const targetUpvoterIds = targetUpvoters.map((u) => u.userId);
+
+      const movedUpvotes = await tx
+        .update(threadUpvotes)
+        .set({ threadId: targetId })
+        .where(
+          targetUpvoterIds.length > 0
+            ? and(
+                eq(threadUpvotes.threadId, sourceId),
+                notInArray(threadUpvotes.userId, targetUpvoterIds)
+              )!
+            : eq(threadUpvotes.threadId, sourceId)
+        )
+        .returning({ id: threadUpvotes.id });
+
+      const now = new Date();
+
+      // Mark source as merged
+      await tx
+        .update(threads)
+        .set({
+          duplicatesOf: targetId,
+          mergedInto: targetId,
+          replyCount: sql`GREATEST(${threads.replyCount} - ${movedPosts.length}, 0)`,
+          upvoteCount: sql`GREATEST(${threads.upvoteCount} - ${movedUpvotes.length}, 0)`,
+          updatedAt: now,
+        })
+        .where(eq(threads.id, sourceId));
+
+      // Consolidate into target
+      const mergedFrom = [...parseMergedFrom(target.mergedFrom), sourceId];
+      const [updatedTarget] = await tx
+        .update(threads)
+        .set({
+          mergedFrom: JSON.stringify(mergedFrom),
+          replyCount: sql`${threads.replyCount} + ${movedPosts.length}`,
+          upvoteCount: sql`${threads.upvoteCount} + ${movedUpvotes.length}`,
+          updatedAt: now,
+        })
+        .where(eq(threads.id, targetId))
+        .returning();
+
+      const [merge] = await tx
+        .insert(threadMerges)
+        .values({
+          id: crypto.randomUUID(),
+          sourceThreadId: sourceId,
+          targetThreadId: targetId,
+          mergedBy,
+          movedPostIds: JSON.stringify(movedPosts.map((p) => p.id)),
+          movedUpvoteIds: JSON.stringify(movedUpvotes.map((u) => u.id)),
+          undoExpiresAt: new Date(now.getTime() + MERGE_UNDO_WINDOW_MS),
+          undoneAt: null,
+          createdAt: now,
+          tenantId,
+        })
+        .returning();
+
+      return { merge, target: updatedTarget };
+    });
+  }
+
+  /**
+   * Undo a merge of threads in a course, within the undo window
+   *
+   * Moves the originally moved posts/upvotes back to the source thread
+   * (posts created on the target after the merge stay where they are)
+   */
+  async undoMerge(mergeId: string, courseId: string): Promise<ThreadMerge> {
+    return await db.transaction(async (tx) => {
+      const [found] = await tx
+        .select({ merge: threadMerges })
+        .from(threadMerges)
+        .innerJoin(threads, eq(threads.id, threadMerges.sourceThreadId))
+        .where(and(eq(threadMerges.id, mergeId), eq(threads.courseId, courseId)))
+        .limit(1);
+      const merge = found?.merge;
+
+      if (!merge) {
+        throw new NotFoundError("Thread merge");
+      }
+      if (merge.undoneAt) {
+        throw new ConflictError("Merge has already been undone");
+      }
+      if (merge.undoExpiresAt.getTime() < Date.now()) {
+        throw new BadRequestError("Undo window has expired for this merge");
+      }
+
+      const { sourceThreadId, targetThreadId } = merge;
+      const postIds: string[] = JSON.parse(merge.movedPostIds);
+      const upvoteIds: string[] = JSON.parse(merge.movedUpvoteIds);
+
+      const restoredPosts =
+        postIds.length > 0
+          ? await tx
+              .update(posts)
+              .set({ threadId: sourceThreadId })
+              .where(and(inArray(posts.id, postIds), eq(posts.threadId, targetThreadId))!)
+              .returning({ id: posts.id })
+          : [];
+
+      const restoredUpvotes =
+        upvoteIds.length > 0
+          ? await tx
+              .update(threadUpvotes)
+              .set({ threadId: sourceThreadId })
+              .where(
+                and(inArray(threadUpvotes.id, upvoteIds), eq(threadUpvotes.threadId, targetThreadId))!
+              )
+              .returning({ id: threadUpvotes.id })
+          : [];
+
+      const now = new Date();
+
+      await tx
+        .update(threads)
+        .set({
+          duplicatesOf: null,
+          mergedInto: null,
+          replyCount: sql`${threads.replyCount} + ${restoredPosts.length}`,
+          upvoteCount: sql`${threads.upvoteCount} + ${restoredUpvotes.length}`,
+          updatedAt: now,
+        })
+        .where(eq(threads.id, sourceThreadId));
+
+      const [target] = await tx
+        .select({ mergedFrom: threads.mergedFrom })
+        .from(threads)
+        .where(eq(threads.id, targetThreadId))
+        .limit(1);
+      const mergedFrom = parseMergedFrom(target?.mergedFrom).filter((id) => id !== sourceThreadId);
+
+      await tx
+        .update(threads)
+        .set({
+          mergedFrom: mergedFrom.length > 0 ? JSON.stringify(mergedFrom) : null,
+          replyCount: sql`GREATEST(${threads.replyCount} - ${restoredPosts.length}, 0)`,
+          upvoteCount: sql`GREATEST(${threads.upvoteCount} - ${restoredUpvotes.length}, 0)`,
+          updatedAt: now,
+        })
+        .where(eq(threads.id, targetThreadId));
+
+      const [undone] = await tx
+        .update(threadMerges)
+        .set({ undoneAt: now })
+        .where(eq(threadMerges.id, mergeId))
+        .returning();
+
+      return undone;
+    });
+  }
+}
+
+// Export singleton instance
+export const threadMergesRepository = new ThreadMergesRepository();
@@ -0,0 +1,108 @@
+/**
+ * Thread Term Vectors Repository
+ *
+ * Data access layer for thread_term_vectors table
+ * Persists per-thread term counts backing the duplicate detection index
+ */
+
+import { eq, type SQL } from "drizzle-orm";
+import { BaseRepository } from "./base.repository.js";
+import {
+  threadTermVectors,
+  type ThreadTermVector,
+  type NewThreadTermVector,
+} from "../db/schema.js";
+import { db } from "../db/client.js";
+
+export class ThreadTermVectorsRepository extends BaseRepository<
+  typeof threadTermVectors,
+  ThreadTermVector,
+  NewThreadTermVector
+> {
+  constructor() {
+    super(threadTermVectors);
+  }
+
+  /**
+   * Implement abstract method: ID equality check
+   */
+  protected idEquals(id: string): SQL {
+    return eq(this.table.id, id);
+  }
+
+  /**
+   * Implement abstract method: Field equality check
+   */
+  protected fieldEquals<K extends keyof typeof this.table>(
+    field: K,
+    value: any
+  ): SQL {
+    const column = this.table[field];
+    // Type guard: ensure we have a column, not a method or undefined
+    if (!column || typeof column === 'function') {
+      throw new Error(`Invalid field: ${String(field)}`);
+    }
+    return eq(column as any, value);
+  }
+
+  /**
+   * Find all term vectors for a course
+   */
+  async findByCourse(courseId: string): Promise<ThreadTermVector[]> {
+    return await db
+      .select()
+      .from(threadTermVectors)
+      .where(eq(threadTermVectors.courseId, courseId));
+  }
+
+  /**
+   * Insert or replace the term vector for a thread
+   */
+  async upsert(data: {
+    threadId: string;
+    courseId: string;
+    termCounts: Record<string, number>;
+    tokenCount: number;
+    tenantId: string;
+  }): Promise<void> {
+    const now = new Date();
+    const termCounts = JSON.stringify(data.termCounts);
+
+    await db
+      .insert(threadTermVectors)
+      .values({
+        id: crypto.randomUUID(),
+        threadId: data.threadId,
+        courseId: data.courseId,
+        termCounts,
+        tokenCount: data.tokenCount,
+        updatedAt: now,
+        tenantId: data.tenantId,
+      })
+      .onConflictDoUpdate({
+        target: threadTermVectors.threadId,
+        set: {
+          courseId: data.courseId,
+          termCounts,
+          tokenCount: data.tokenCount,
+          updatedAt: now,
+        },
+      });
+  }
+
+  /**
+   * Remove the term vector for a thread
+   * Returns true if a vector was removed
+   */
+  async deleteByThread(threadId: string): Promise<boolean> {
+    const result = await db
+      .delete(threadTermVectors)
+      .where(eq(threadTermVectors.threadId, threadId))
+      .returning({ id: threadTermVectors.id });
+
+    return result.length > 0;
+  }
+}
+
+// Export singleton instance
+export const threadTermVectorsRepository = new ThreadTermVectorsRepository();
@@ -2,10 +2,10 @@
  * Threads Repository
  *
  * Data access layer for threads table
- * Handles thread CRUD, upvotes, and rich queries with joins
+ * Handles thread CRUD, upvotes, accepted answers, and rich queries with joins
  */
 
-import { eq, and, desc, sql, type SQL } from "drizzle-orm";
+import { eq, and, desc, isNull, sql, type SQL } from "drizzle-orm";
 import { BaseRepository, type PaginationOptions, type PaginatedResult } from "./base.repository.js";
 import {
   threads,
@@ -13,18 +13,33 @@ import {
   threadUpvotes,
   posts,
   aiAnswers,
+  postEndorsements,
+  notifications,
   type Thread,
   type NewThread,
 } from "../db/schema.js";
 import { db } from "../db/client.js";
 import { NotFoundError } from "../utils/errors.js";
+import { parseMergedFrom } from "./thread-merges.repository.js";
+
+export type AcceptedAnswerType = "post" | "ai_answer";
+
+/**
+ * Answer being accepted (authorId is null for the AI answer)
+ */
+export interface AcceptedAnswer {
+  type: AcceptedAnswerType;
+  id: string;
+  authorId: string | null;
+}
 
 /**
  * Thread with author details (API response format)
  * Note: Uses 'views' instead of 'viewCount' to match API schema
  */
-export interface ThreadWithAuthor extends Omit<Thread, 'viewCount' | 'replyCount' | 'hasAIAnswer'> {
+export interface ThreadWithAuthor extends Omit<Thread, 'viewCount' | 'replyCount' | 'hasAIAnswer' | 'mergedFrom'> {
   views: number; // Transformed from viewCount
+  mergedFrom: string[]; // Parsed from JSON column
   author: {
     id: string;
     name: string;
@@ -87,14 +102,16 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
     }
 
     // Build where condition
+    // (deleted threads are left out of listings)
     let whereCondition: SQL;
     if (cursorData) {
       whereCondition = and(
         eq(threads.courseId, courseId),
+        isNull(threads.deletedAt),
         sql`(${threads.createdAt}, ${threads.id}) < (${cursorData.createdAt}, ${cursorData.id})`
       )!;
     } else {
-      whereCondition = eq(threads.courseId, courseId);
+      whereCondition = and(eq(threads.courseId, courseId), isNull(threads.deletedAt))!;
     }
 
     // Fetch threads first
@@ -127,11 +144,11 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
           .where(eq(threadUpvotes.threadId, thread.id));
         const upvoteCount = upvoteResults[0]?.count || 0;
 
-        // Count posts
+        // Count posts (excluding deleted)
         const postResults = await db
           .select({ count: sql<number>`COUNT(*)`.mapWith(Number) })
           .from(posts)
-          .where(eq(posts.threadId, thread.id));
+          .where(and(eq(posts.threadId, thread.id), isNull(posts.deletedAt))!);
         const postCount = postResults[0]?.count || 0;
 
         // Check for AI answer
@@ -172,6 +189,7 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
       return {
         ...threadFields,
         views, // Transform viewCount/view_count -> views (default to 0 if undefined)
+        mergedFrom: parseMergedFrom(threadAny.mergedFrom),
         author: row.author,
         upvoteCount: row.upvoteCount,
         postCount: row.postCount, // Use computed postCount
@@ -188,6 +206,16 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
     };
   }
 
+  /**
+   * Find all threads in a course that have not been merged away or deleted (no pagination)
+   */
+  async findActiveByCourse(courseId: string): Promise<Thread[]> {
+    return await db
+      .select()
+      .from(threads)
+      .where(and(eq(threads.courseId, courseId), isNull(threads.mergedInto), isNull(threads.deletedAt))!);
+  }
+
   /**
    * Find thread by ID with full details
    * Includes author, upvote count, post count, AI answer status
@@ -217,11 +245,11 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
       .where(eq(threadUpvotes.threadId, thread.id));
     const upvoteCount = upvoteResults[0]?.count || 0;
 
-    // Count posts
+    // Count posts (excluding deleted)
     const postResults = await db
       .select({ count: sql<number>`COUNT(*)`.mapWith(Number) })
       .from(posts)
-      .where(eq(posts.threadId, thread.id));
+      .where(and(eq(posts.threadId, thread.id), isNull(posts.deletedAt))!);
     const postCount = postResults[0]?.count || 0;
 
     // Check for AI answer
@@ -240,6 +268,7 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
     return {
       ...threadFields,
       views, // Transform viewCount/view_count -> views (default to 0 if undefined)
+      mergedFrom: parseMergedFrom(threadAny.mergedFrom),
       author,
       upvoteCount,
       postCount,
@@ -331,6 +360,164 @@ export class ThreadsRepository extends BaseRepository<typeof threads, Thread, Ne
     return result[0] || null;
   }
 
+  /**
+   * Mark a post or the AI answer as the thread's accepted answer
+   *
+   * Resolves the thread and pins the answer. An accepted post counts as an
+   * endorsement from whoever accepted it (unless they wrote it); accepting
+   * another answer takes back the endorsement the previous acceptance added.
+   * The answer's author is notified, as is the question author when staff
+   * accepted it.
+   */
+  async acceptAnswer(thread: Thread, answer: AcceptedAnswer, acceptedBy: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      const now = new Date();
+
+      // Lock the thread so concurrent acceptances take back the right endorsement
+      const [current] = await tx
+        .select({ acceptedEndorsementId: threads.acceptedEndorsementId })
+        .from(threads)
+        .where(eq(threads.id, thread.id))
+        .for("update");
+
+      if (current?.acceptedEndorsementId) {
+        const removed = await tx
+          .delete(postEndorsements)
+          .where(eq(postEndorsements.id, current.acceptedEndorsementId))
+          .returning({ postId: postEndorsements.postId });
+
+        // Already gone if the accepter took the endorsement back themselves
+        if (removed.length > 0) {
+          await tx
+            .update(posts)
+            .set({ endorsementCount: sql`${posts.endorsementCount} - 1` })
+            .where(eq(posts.id, removed[0].postId));
+        }
+      }
+
+      let acceptedEndorsementId: string | null = null;
+      if (answer.type === "post" && answer.authorId !== acceptedBy) {
+        const endorsed = await tx
+          .insert(postEndorsements)
+          .values({
+            id: crypto.randomUUID(),
+            postId: answer.id,
+            userId: acceptedBy,
+            createdAt: now,
+            tenantId: thread.tenantId,
+          })
+          .onConflictDoNothing()
+          .returning({ id: postEndorsements.id });
+
+        // An endorsement the accepter already gave stays theirs
+        if (endorsed.length > 0) {
+          acceptedEndorsementId = endorsed[0].id;
+          await tx
+            .update(posts)
+            .set({ endorsementCount: sql`${posts.endorsementCount} + 1` })
+            .where(eq(posts.id, answer.id));
+        }
+      }
+
+      await tx
+        .update(threads)
+        .set({
+          status: "resolved",
+          acceptedAnswerType: answer.type,
+          acceptedAnswerId: answer.id,
+          acceptedBy,
+          acceptedAt: now,
+          acceptedEndorsementId,
+          updatedAt: now,
+        })
+        .where(eq(threads.id, thread.id));
+
+      const recipients = new Map<string, { title: string; message: string }>();
+      if (thread.authorId && thread.authorId !== acceptedBy) {
+        recipients.set(thread.authorId, {
+          title: "Your question was resolved",
+          message: `Course staff marked an accepted answer on "${thread.title}".`,
+        });
+      }
+      if (answer.type === "post" && answer.authorId && answer.authorId !== acceptedBy) {
+        recipients.set(answer.authorId, {
+          title: "Your answer was accepted",
+          message: `Your reply to "${thread.title}" was marked as the accepted answer.`,
+        });
+      }
+
+      if (recipients.size > 0) {
+        await tx.insert(notifications).values(
+          [...recipients].map(([userId, { title, message }]) => ({
+            id: crypto.randomUUID(),
+            userId,
+            type: "resolved",
+            title,
+            message,
+            threadId: thread.id,
+            postId: answer.type === "post" ? answer.id : null,
+            read: false,
+            createdAt: now,
+            tenantId: thread.tenantId,
+          }))
+        );
+      }
+    });
+  }
+
+  /**
+   * Soft-delete thread (tombstone)
+   */
+  async softDelete(id: string, deletedBy: string, deletionReason: string): Promise<Thread | null> {
+    const result = await db
+      .update(threads)
+      .set({ deletedAt: new Date(), deletedBy, deletionReason })
+      .where(eq(threads.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Restore soft-deleted thread
+   */
+  async restore(id: string): Promise<Thread | null> {
+    const result = await db
+      .update(threads)
+      .set({ deletedAt: null, deletedBy: null, deletionReason: null, updatedAt: new Date() })
+      .where(eq(threads.id, id))
+      .returning();
+
+    return result[0] || null;
+  }
+
+  /**
+   * Resolve the thread a merged thread redirects to
+   * Follows mergedInto chains (A -> B -> C) and returns the final thread ID,
+   * or null if the thread was never merged
+   */
+  async resolveMergeTarget(id: string): Promise<string | null> {
+    const visited = new Set<string>([id]);
+    let currentId = id;
+
+    while (true) {
+      const results = await db
+        .select({ mergedInto: threads.mergedInto })
+        .from(threads)
+        .where(eq(threads.id, currentId))
+        .limit(1);
+      const next = results[0]?.mergedInto;
+
+      // Stop at the end of the chain (or on a cycle)
+      if (!next || visited.has(next)) {
+        return currentId === id ? null : currentId;
+      }
+
+      visited.add(next);
+      currentId = next;
+    }
+  }
+
   /**
    * Increment view count
    */
@@ -1,7 +1,7 @@
 /**
  * AI Answers Routes
  *
- * AI answer endpoints (get, endorse, bulk endorse)
+ * AI answer endpoints (get, list endorsed, save, endorse, bulk endorse)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -10,16 +10,30 @@ import { z } from "zod";
 import {
   getThreadIdParamsSchema,
   getAIAnswerIdParamsSchema,
+  getCourseIdParamsSchema,
+  endorsedAIAnswersQuerySchema,
+  createAIAnswerBodySchema,
   endorseAIAnswerBodySchema,
   bulkEndorseAIAnswersBodySchema,
   getAIAnswerResponseSchema,
+  createAIAnswerResponseSchema,
+  endorsedAIAnswersResponseSchema,
   endorseAIAnswerResponseSchema,
   bulkEndorseResponseSchema,
   type BulkActionResult,
 } from "../../schemas/ai-answers.schema.js";
 import { aiAnswersRepository } from "../../repositories/ai-answers.repository.js";
 import { usersRepository } from "../../repositories/users.repository.js";
-import { NotFoundError, ConflictError } from "../../utils/errors.js";
+import { threadsRepository } from "../../repositories/threads.repository.js";
+import { courseMaterialsRepository } from "../../repositories/materials.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import {
+  NotFoundError,
+  ConflictError,
+  ForbiddenError,
+  UnauthorizedError,
+  serializeDates,
+} from "../../utils/errors.js";
 
 export async function aiAnswersRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -69,7 +83,10 @@ export async function aiAnswersRoutes(fastify: FastifyInstance) {
             courseId: z.string(),
             content: z.string(),
             confidenceLevel: z.string(),
+            confidenceScore: z.number().nullable(),
             routing: z.any().nullable(),
+            verification: z.any().nullable(),
+            promptVersion: z.string().nullable(),
             endorsementCount: z.number(),
             generatedAt: z.string(),
             tenantId: z.string(),
@@ -157,6 +174,131 @@ export async function aiAnswersRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/v1/courses/:courseId/ai-answers/endorsed?minEndorsements=<n>
+   * Endorsed AI answers of a course with their questions, for answer reuse
+   * (one call instead of one per thread)
+   */
+  server.get(
+    "/courses/:courseId/ai-answers/endorsed",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        querystring: endorsedAIAnswersQuerySchema,
+        response: {
+          200: endorsedAIAnswersResponseSchema,
+        },
+        tags: ["ai-answers"],
+        description: "List a course's endorsed AI answers",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+      const { minEndorsements } = request.query;
+
+      const endorsed = await aiAnswersRepository.findEndorsedByCourse(courseId, minEndorsements);
+
+      return {
+        answers: endorsed.map(({ thread, aiAnswer }) => ({ thread, aiAnswer: serializeDates(aiAnswer) })),
+      };
+    }
+  );
+
+  /**
+   * POST /api/v1/threads/:threadId/ai-answer
+   * Save a generated AI answer for a thread
+   *
+   * Each citation must resolve to one of the course's materials: by material
+   * ID, or else by its cited title. Citations matching neither are not saved
+   * (counted in rejectedCitations); a citation repaired by title loses its
+   * verified flag, since its excerpt was checked against another material.
+   * Only the thread's author and course staff can save its answer.
+   */
+  server.post(
+    "/threads/:threadId/ai-answer",
+    {
+      schema: {
+        params: getThreadIdParamsSchema,
+        body: createAIAnswerBodySchema,
+        response: {
+          201: createAIAnswerResponseSchema,
+        },
+        tags: ["ai-answers"],
+        description: "Save a generated AI answer for a thread",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { threadId } = request.params;
+      const { content, confidenceLevel, confidenceScore, routing, verification, promptVersion, citations } =
+        request.body;
+
+      const thread = await threadsRepository.findById(threadId);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (thread.authorId !== userId && !(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only the thread author and course staff can save its AI answer");
+      }
+
+      const existing = await aiAnswersRepository.findByThreadId(threadId);
+      if (existing) {
+        throw new ConflictError("Thread already has an AI answer");
+      }
+
+      // Resolve citations against the course's materials
+      const materials = await courseMaterialsRepository.findByCourse(thread.courseId);
+      const byId = new Map(materials.map((material) => [material.id, material]));
+      const byTitle = new Map(materials.map((material) => [material.title.trim().toLowerCase(), material]));
+
+      const resolved = citations.flatMap((citation) => {
+        const material =
+          byId.get(citation.materialId) ??
+          (citation.source ? byTitle.get(citation.source.trim().toLowerCase()) : undefined);
+        if (!material) {
+          return [];
+        }
+
+        return [{
+          materialId: material.id,
+          excerpt: citation.excerpt,
+          relevanceScore: Math.round(citation.relevanceScore),
+          citationNumber: citation.citationNumber,
+          verified: citation.verified && material.id === citation.materialId,
+        }];
+      });
+
+      const aiAnswer = await aiAnswersRepository.createWithCitations(
+        {
+          id: `ai-answer-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+          threadId,
+          courseId: thread.courseId,
+          content,
+          confidenceLevel,
+          confidenceScore: confidenceScore != null ? Math.round(confidenceScore) : null,
+          routing: routing ? JSON.stringify(routing) : null,
+          verification: verification ? JSON.stringify(verification) : null,
+          promptVersion: promptVersion ?? null,
+          endorsementCount: 0,
+          generatedAt: new Date(),
+          tenantId: thread.tenantId,
+        },
+        resolved
+      );
+
+      reply.code(201);
+      return {
+        aiAnswer: aiAnswer as any,
+        rejectedCitations: citations.length - resolved.length,
+      };
+    }
+  );
+
   /**
    * POST /api/v1/ai-answers/:id/endorse
    * Endorse an AI answer
@@ -1,7 +1,7 @@
 /**
  * Conversations Routes
  *
- * AI conversation endpoints (create, list, messages, delete, convert)
+ * AI conversation endpoints (create, list, messages, turns, delete, convert)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -17,15 +17,38 @@ import {
   createConversationResponseSchema,
   listMessagesResponseSchema,
   sendMessageResponseSchema,
+  saveChatTurnBodySchema,
+  saveChatTurnResponseSchema,
   convertToThreadResponseSchema,
+  type AIToolCall,
+  type MaterialReference,
 } from "../../schemas/conversations.schema.js";
 import { conversationsRepository } from "../../repositories/conversations.repository.js";
 import { threadsRepository } from "../../repositories/threads.repository.js";
 import { aiAnswersRepository } from "../../repositories/ai-answers.repository.js";
 import { usersRepository } from "../../repositories/users.repository.js";
-import { NotFoundError, serializeDates } from "../../utils/errors.js";
+import { ForbiddenError, NotFoundError, serializeDates } from "../../utils/errors.js";
 import { db } from "../../db/client.js";
-import { aiAnswers } from "../../db/schema.js";
+import { aiAnswers, type AIMessage } from "../../db/schema.js";
+
+/**
+ * Transform message record for API responses (parsed JSON, usage grouped)
+ */
+function serializeMessage(message: AIMessage) {
+  const { materialReferences, toolCalls, inputTokens, outputTokens, totalTokens, tenantId, ...fields } =
+    message;
+  return serializeDates({
+    ...fields,
+    materialReferences: materialReferences
+      ? (JSON.parse(materialReferences) as MaterialReference[])
+      : null,
+    toolCalls: toolCalls ? (JSON.parse(toolCalls) as AIToolCall[]) : null,
+    usage:
+      totalTokens !== null
+        ? { inputTokens: inputTokens ?? 0, outputTokens: outputTokens ?? 0, totalTokens }
+        : null,
+  });
+}
 
 export async function conversationsRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -197,7 +220,7 @@ export async function conversationsRoutes(fastify: FastifyInstance) {
       const messages = await conversationsRepository.findMessages(conversationId);
 
       return {
-        messages: messages.map(m => serializeDates(m)) as any,
+        messages: messages.map(serializeMessage),
       };
     }
   );
@@ -251,12 +274,83 @@ export async function conversationsRoutes(fastify: FastifyInstance) {
 
       reply.code(201);
       return {
-        userMessage: serializeDates(userMessage) as any,
+        userMessage: serializeMessage(userMessage),
         aiMessage: null, // AI response handled by /api/chat on frontend
       };
     }
   );
 
+  /**
+   * POST /api/v1/conversations/:conversationId/turns
+   * Save a finished chat turn (called by /api/chat once streaming ends)
+   * Stores the user message and the assistant reply with its tool calls,
+   * token usage and material references; saving a turn again (retry,
+   * regenerate) replaces the earlier reply
+   */
+  server.post(
+    "/conversations/:conversationId/turns",
+    {
+      schema: {
+        params: getConversationIdParamsSchema,
+        body: saveChatTurnBodySchema,
+        response: {
+          201: saveChatTurnResponseSchema,
+        },
+        tags: ["conversations"],
+        description: "Save a chat turn",
+      },
+    },
+    async (request, reply) => {
+      const { conversationId } = request.params;
+      const { userId, userMessage, assistantMessage } = request.body;
+
+      // Verify conversation exists and belongs to the user
+      const conversation = await conversationsRepository.findById(conversationId);
+      if (!conversation) {
+        throw new NotFoundError("Conversation");
+      }
+      if (conversation.userId !== userId) {
+        throw new ForbiddenError("Conversation belongs to another user");
+      }
+
+      const userCreatedAt = new Date();
+      const messages = await conversationsRepository.saveTurn(
+        conversationId,
+        {
+          id: userMessage.id,
+          conversationId,
+          role: "user",
+          content: userMessage.content,
+          createdAt: userCreatedAt,
+          tenantId: conversation.tenantId,
+        },
+        assistantMessage
+          ? {
+              id: assistantMessage.id,
+              conversationId,
+              role: "assistant",
+              content: assistantMessage.content,
+              materialReferences: assistantMessage.materialReferences
+                ? JSON.stringify(assistantMessage.materialReferences)
+                : null,
+              toolCalls: assistantMessage.toolCalls ? JSON.stringify(assistantMessage.toolCalls) : null,
+              inputTokens: assistantMessage.usage?.inputTokens ?? null,
+              outputTokens: assistantMessage.usage?.outputTokens ?? null,
+              totalTokens: assistantMessage.usage?.totalTokens ?? null,
+              promptVersion: assistantMessage.promptVersion ?? null,
+              createdAt: new Date(userCreatedAt.getTime() + 1), // Always after the user message
+              tenantId: conversation.tenantId,
+            }
+          : null
+      );
+
+      reply.code(201);
+      return {
+        messages: messages.map(serializeMessage),
+      };
+    }
+  );
+
   /**
    * DELETE /api/v1/conversations/:conversationId
    * Delete a conversation and all its messages
@@ -1,7 +1,7 @@
 /**
  * Courses Routes
  *
- * Course endpoints (list, get)
+ * Course endpoints (list, get, assignments, AI prompt settings)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -10,15 +10,26 @@ import {
   courseSchema,
   listCoursesResponseSchema,
   getCourseParamsSchema,
+  listAssignmentsResponseSchema,
+  coursePromptSettingsSchema,
+  updateCoursePromptSettingsBodySchema,
 } from "../../schemas/courses.schema.js";
+import { getCourseIdParamsSchema } from "../../schemas/materials.schema.js";
 import {
   getEnrollmentsQuerySchema,
   listEnrollmentsResponseSchema,
 } from "../../schemas/enrollments.schema.js";
 import { coursesRepository } from "../../repositories/courses.repository.js";
+import { assignmentsRepository } from "../../repositories/assignments.repository.js";
 import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
 import { usersRepository } from "../../repositories/users.repository.js";
-import { NotFoundError, serializeDates } from "../../utils/errors.js";
+import { coursePromptSettingsRepository } from "../../repositories/course-prompt-settings.repository.js";
+import {
+  NotFoundError,
+  UnauthorizedError,
+  ForbiddenError,
+  serializeDates,
+} from "../../utils/errors.js";
 
 export async function coursesRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -76,6 +87,116 @@ export async function coursesRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/v1/courses/:courseId/assignments
+   * List a course's assignments (nearest due date first)
+   */
+  server.get(
+    "/courses/:courseId/assignments",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        response: {
+          200: listAssignmentsResponseSchema,
+        },
+        tags: ["courses"],
+        description: "List course assignments",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      const assignments = await assignmentsRepository.findByCourse(courseId);
+
+      return {
+        items: assignments.map(a => serializeDates(a)),
+      };
+    }
+  );
+
+  /**
+   * GET /api/v1/courses/:courseId/prompt-settings
+   * The course's overrides of the AI assistant's persona and policy
+   */
+  server.get(
+    "/courses/:courseId/prompt-settings",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        response: {
+          200: coursePromptSettingsSchema,
+        },
+        tags: ["courses"],
+        description: "Get course AI prompt settings",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      return await coursePromptSettingsRepository.getSettings(courseId);
+    }
+  );
+
+  /**
+   * PUT /api/v1/courses/:courseId/prompt-settings
+   * Set the AI assistant's persona and policy for the course (course instructor/TA only)
+   */
+  server.put(
+    "/courses/:courseId/prompt-settings",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        body: updateCoursePromptSettingsBodySchema,
+        response: {
+          200: coursePromptSettingsSchema,
+        },
+        tags: ["courses"],
+        description: "Update course AI prompt settings",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { courseId } = request.params;
+      const { persona, policy } = request.body;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+        throw new ForbiddenError("Only course staff can edit the course's AI prompt settings");
+      }
+
+      // Empty text restores the default
+      return await coursePromptSettingsRepository.setSettings(
+        courseId,
+        persona || null,
+        policy || null,
+        userId,
+        tenantId
+      );
+    }
+  );
+
   /**
    * GET /api/v1/courses/enrollments
    * Get enrollments for a user (with course details)
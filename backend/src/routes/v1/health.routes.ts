@@ -1,11 +1,12 @@
 import type { FastifyInstance } from 'fastify';
+import { getLLMHealth } from '../../utils/llm-health.js';
 
 /**
  * Health check routes for monitoring and deployment
  *
  * Endpoints:
  * - GET /health - Basic health check (always returns 200 OK if server is running)
- * - GET /ready - Readiness check (includes database connectivity test)
+ * - GET /ready - Readiness check (includes the LLM providers' last reported health)
  * - GET /ping - Simple ping endpoint
  */
 export default async function healthRoutes(fastify: FastifyInstance) {
@@ -19,11 +20,13 @@ export default async function healthRoutes(fastify: FastifyInstance) {
   });
 
   // Readiness check - simplified for production
+  // LLM outages don't make the API unready (AI features fall back to templates)
   fastify.get('/ready', async () => {
     return {
       status: 'ready',
       timestamp: new Date().toISOString(),
-      uptime: process.uptime()
+      uptime: process.uptime(),
+      llm: getLLMHealth()
     };
   });
 
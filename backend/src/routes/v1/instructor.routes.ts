@@ -22,7 +22,7 @@ import { postsRepository } from "../../repositories/posts.repository.js";
 import { NotFoundError, serializeDates } from "../../utils/errors.js";
 import { db } from "../../db/client.js";
 import { threads, posts, aiAnswers } from "../../db/schema.js";
-import { eq, and, count, sql } from "drizzle-orm";
+import { eq, and, count, isNull, sql } from "drizzle-orm";
 
 export async function instructorRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -163,13 +163,13 @@ export async function instructorRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const { courseId } = request.query;
 
-      // Get total threads for the course
+      // Get total threads for the course (deleted threads don't count)
       const [totalResult] = await db
         .select({
           count: sql<number>`COUNT(DISTINCT ${threads.id})`.as('count')
         })
         .from(threads)
-        .where(eq(threads.courseId, courseId));
+        .where(and(eq(threads.courseId, courseId), isNull(threads.deletedAt)));
 
       const totalThreads = totalResult?.count || 0;
 
@@ -182,6 +182,7 @@ export async function instructorRoutes(fastify: FastifyInstance) {
         .leftJoin(aiAnswers, eq(threads.id, aiAnswers.threadId))
         .where(and(
           eq(threads.courseId, courseId),
+          isNull(threads.deletedAt),
           sql`${aiAnswers.id} IS NOT NULL`
         ));
 
@@ -193,9 +194,10 @@ export async function instructorRoutes(fastify: FastifyInstance) {
           count: sql<number>`COUNT(DISTINCT ${threads.id})`.as('count')
         })
         .from(threads)
-        .leftJoin(posts, eq(threads.id, posts.threadId))
+        .leftJoin(posts, and(eq(threads.id, posts.threadId), isNull(posts.deletedAt)))
         .where(and(
           eq(threads.courseId, courseId),
+          isNull(threads.deletedAt),
           sql`${posts.id} IS NOT NULL`
         ));
 
@@ -245,9 +247,10 @@ export async function instructorRoutes(fastify: FastifyInstance) {
           createdAt: threads.createdAt,
         })
         .from(threads)
-        .leftJoin(posts, eq(threads.id, posts.threadId))
+        .leftJoin(posts, and(eq(threads.id, posts.threadId), isNull(posts.deletedAt)))
         .where(and(
           eq(threads.courseId, courseId),
+          isNull(threads.deletedAt),
           sql`${posts.id} IS NULL`
         ))
         .orderBy(sql`${threads.createdAt} DESC`)
@@ -257,45 +260,6 @@ export async function instructorRoutes(fastify: FastifyInstance) {
     }
   );
 
-  /**
-   * GET /api/v1/instructor/moderation-queue?courseId=<id>
-   * Get moderation queue (placeholder - needs full implementation)
-   */
-  server.get(
-    "/instructor/moderation-queue",
-    {
-      schema: {
-        querystring: z.object({
-          courseId: z.string(),
-        }),
-        response: {
-          200: z.array(z.any()),
-        },
-        tags: ["instructor"],
-        description: "Get moderation queue for a course",
-      },
-    },
-    async (request, reply) => {
-      const { courseId } = request.query;
-
-      // Get recent threads needing attention (last 7 days, open status)
-      const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-
-      const needsAttention = await db
-        .select()
-        .from(threads)
-        .where(and(
-          eq(threads.courseId, courseId),
-          eq(threads.status, 'open'),
-          sql`${threads.createdAt} >= ${sevenDaysAgo}`
-        ))
-        .orderBy(sql`${threads.createdAt} DESC`)
-        .limit(20);
-
-      return needsAttention.map(t => serializeDates(t));
-    }
-  );
-
   /**
    * GET /api/v1/users/:userId/response-templates
    * List all response templates for a user (legacy path param version)
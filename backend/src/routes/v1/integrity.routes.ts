@@ -0,0 +1,232 @@
+/**
+ * Academic Integrity Routes
+ *
+ * Assignment integrity modes and the log of attempts to get full solutions
+ */
+
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "../../plugins/validation.plugin.js";
+import { assignmentSchema, type IntegrityMode } from "../../schemas/courses.schema.js";
+import {
+  assignmentIdParamsSchema,
+  updateIntegrityModeBodySchema,
+  recordIntegrityEventBodySchema,
+  integrityEventSchema,
+  integrityEventIdParamsSchema,
+  listIntegrityEventsQuerySchema,
+  listIntegrityEventsResponseSchema,
+} from "../../schemas/integrity.schema.js";
+import { assignmentsRepository } from "../../repositories/assignments.repository.js";
+import { integrityEventsRepository } from "../../repositories/integrity-events.repository.js";
+import { coursesRepository } from "../../repositories/courses.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import { ForbiddenError, NotFoundError, UnauthorizedError, serializeDates } from "../../utils/errors.js";
+import { isServiceRequest } from "../../auth/service-key.js";
+import type { IntegrityEvent } from "../../db/schema.js";
+
+/**
+ * Transform event record for API responses (parsed signals)
+ */
+function serializeEvent(event: IntegrityEvent) {
+  const { signals, tenantId, ...fields } = event;
+  return serializeDates({
+    ...fields,
+    feature: fields.feature as "chat" | "answer",
+    mode: fields.mode as IntegrityMode,
+    signals: JSON.parse(signals) as string[],
+  });
+}
+
+export async function integrityRoutes(fastify: FastifyInstance) {
+  const server = fastify.withTypeProvider<ZodTypeProvider>();
+
+  /**
+   * PUT /api/v1/assignments/:assignmentId/integrity-mode
+   * Set how much help the AI assistant gives on an assignment (course instructor/TA only)
+   */
+  server.put(
+    "/assignments/:assignmentId/integrity-mode",
+    {
+      schema: {
+        params: assignmentIdParamsSchema,
+        body: updateIntegrityModeBodySchema,
+        response: {
+          200: assignmentSchema,
+        },
+        tags: ["integrity"],
+        description: "Update assignment integrity mode",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { assignmentId } = request.params;
+      const { integrityMode } = request.body;
+
+      const existing = await assignmentsRepository.findById(assignmentId);
+      if (!existing) {
+        throw new NotFoundError("Assignment");
+      }
+      if (!(await enrollmentsRepository.isCourseStaff(userId, existing.courseId))) {
+        throw new ForbiddenError("Only course staff can change the assignment's integrity mode");
+      }
+
+      const assignment = await assignmentsRepository.setIntegrityMode(assignmentId, integrityMode);
+      if (!assignment) {
+        throw new NotFoundError("Assignment");
+      }
+
+      return serializeDates({ ...assignment, integrityMode: assignment.integrityMode as IntegrityMode });
+    }
+  );
+
+  /**
+   * POST /api/v1/integrity-events
+   * Record an attempt to get a full solution to a guarded assignment
+   * (frontend API routes only, by service key)
+   */
+  server.post(
+    "/integrity-events",
+    {
+      schema: {
+        body: recordIntegrityEventBodySchema,
+        response: {
+          201: integrityEventSchema,
+        },
+        tags: ["integrity"],
+        description: "Record an integrity event",
+      },
+    },
+    async (request, reply) => {
+      if (!isServiceRequest(request)) {
+        throw new UnauthorizedError("Service key required");
+      }
+
+      const { courseId, assignmentId, signals, ...fields } = request.body;
+
+      // Verify the assignment exists in the course
+      const assignment = await assignmentsRepository.findById(assignmentId);
+      if (!assignment || assignment.courseId !== courseId) {
+        throw new NotFoundError("Assignment");
+      }
+
+      const event = await integrityEventsRepository.create({
+        id: crypto.randomUUID(),
+        courseId,
+        assignmentId,
+        ...fields,
+        signals: JSON.stringify(signals),
+        createdAt: new Date(),
+        tenantId: assignment.tenantId,
+      });
+
+      reply.code(201);
+      return serializeEvent(event);
+    }
+  );
+
+  /**
+   * GET /api/v1/instructor/integrity-events?courseId=<id>&status=<unreviewed|all>
+   * Logged attempts to get full solutions (instructor/TA only)
+   *
+   * Without courseId, covers every course the user teaches.
+   */
+  server.get(
+    "/instructor/integrity-events",
+    {
+      schema: {
+        querystring: listIntegrityEventsQuerySchema,
+        response: {
+          200: listIntegrityEventsResponseSchema,
+        },
+        tags: ["integrity"],
+        description: "List integrity events",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { role, userId, tenantId } = request.session;
+      if (role !== "instructor" && role !== "ta") {
+        throw new ForbiddenError("Only instructors and TAs can view integrity events");
+      }
+
+      const { courseId, status } = request.query;
+
+      let courseIds: string[];
+      if (courseId) {
+        // Verify course exists
+        const course = await coursesRepository.findById(courseId);
+        if (!course || course.tenantId !== tenantId) {
+          throw new NotFoundError("Course");
+        }
+        if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+          throw new ForbiddenError("Only course staff can view the course's integrity events");
+        }
+        courseIds = [courseId];
+      } else {
+        const enrollments = await enrollmentsRepository.findByUserId(userId);
+        courseIds = enrollments
+          .filter((enrollment) => enrollment.role === "instructor" || enrollment.role === "ta")
+          .map((enrollment) => enrollment.courseId);
+      }
+
+      const events = await integrityEventsRepository.findByCourses(courseIds, {
+        unreviewedOnly: status === "unreviewed",
+      });
+
+      return {
+        items: events.map(serializeEvent),
+      };
+    }
+  );
+
+  /**
+   * POST /api/v1/integrity-events/:eventId/review
+   * Mark an integrity event as reviewed (course instructor/TA only)
+   */
+  server.post(
+    "/integrity-events/:eventId/review",
+    {
+      schema: {
+        params: integrityEventIdParamsSchema,
+        response: {
+          200: integrityEventSchema,
+        },
+        tags: ["integrity"],
+        description: "Mark an integrity event as reviewed",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { eventId } = request.params;
+
+      const existing = await integrityEventsRepository.findById(eventId);
+      if (!existing) {
+        throw new NotFoundError("Integrity event");
+      }
+      if (!(await enrollmentsRepository.isCourseStaff(userId, existing.courseId))) {
+        throw new ForbiddenError("Only course staff can review the course's integrity events");
+      }
+
+      const event = await integrityEventsRepository.markReviewed(eventId, userId);
+      if (!event) {
+        throw new NotFoundError("Integrity event");
+      }
+
+      return serializeEvent(event);
+    }
+  );
+}
@@ -0,0 +1,252 @@
+/**
+ * LLM Usage Routes
+ *
+ * LLM usage ledger (record, summarize), course monthly budgets and
+ * provider health reports
+ */
+
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "../../plugins/validation.plugin.js";
+import {
+  recordLLMUsageBodySchema,
+  llmUsageRecordSchema,
+  llmUsageSummaryQuerySchema,
+  llmUsageSummaryResponseSchema,
+  courseLLMBudgetSchema,
+  updateCourseLLMBudgetBodySchema,
+  reportLLMHealthBodySchema,
+  llmHealthSchema,
+} from "../../schemas/llm-usage.schema.js";
+import { getCourseIdParamsSchema } from "../../schemas/materials.schema.js";
+import { llmUsageRepository } from "../../repositories/llm-usage.repository.js";
+import { courseLLMBudgetsRepository } from "../../repositories/course-llm-budgets.repository.js";
+import { coursesRepository } from "../../repositories/courses.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import { usersRepository } from "../../repositories/users.repository.js";
+import { ForbiddenError, NotFoundError, UnauthorizedError, serializeDates } from "../../utils/errors.js";
+import { getLLMHealth, reportLLMHealth } from "../../utils/llm-health.js";
+import { isServiceRequest } from "../../auth/service-key.js";
+
+/**
+ * Default summary range: the last 30 days
+ */
+const DEFAULT_SUMMARY_DAYS = 30;
+
+// Demo tenant ID (hardcoded for now, multi-tenant support in future)
+const DEMO_TENANT_ID = "tenant-demo-001";
+
+export async function llmUsageRoutes(fastify: FastifyInstance) {
+  const server = fastify.withTypeProvider<ZodTypeProvider>();
+
+  /**
+   * POST /api/v1/llm-usage
+   * Record one LLM call in the usage ledger (frontend API routes only, by service key)
+   */
+  server.post(
+    "/llm-usage",
+    {
+      schema: {
+        body: recordLLMUsageBodySchema,
+        response: {
+          201: llmUsageRecordSchema,
+        },
+        tags: ["llm-usage"],
+        description: "Record an LLM call",
+      },
+    },
+    async (request, reply) => {
+      if (!isServiceRequest(request)) {
+        throw new UnauthorizedError("Service key required");
+      }
+
+      const { userId, courseId } = request.body;
+
+      // Calls are billed to the course's tenant, or the user's outside a
+      // course; calls made for neither go to the demo tenant
+      let tenantId = DEMO_TENANT_ID;
+      if (courseId || userId) {
+        const owner = courseId
+          ? await coursesRepository.findById(courseId)
+          : await usersRepository.findById(userId!);
+        if (!owner) {
+          throw new NotFoundError(courseId ? "Course" : "User");
+        }
+        tenantId = owner.tenantId;
+      }
+
+      const record = await llmUsageRepository.create({
+        id: crypto.randomUUID(),
+        ...request.body,
+        createdAt: new Date(),
+        tenantId,
+      });
+
+      reply.code(201);
+      return serializeDates(record);
+    }
+  );
+
+  /**
+   * GET /api/v1/instructor/llm-usage?courseId=<id>&from=<iso>&to=<iso>
+   * LLM spend by day, course and feature (instructor/TA only)
+   *
+   * Without courseId, covers every course the user teaches.
+   */
+  server.get(
+    "/instructor/llm-usage",
+    {
+      schema: {
+        querystring: llmUsageSummaryQuerySchema,
+        response: {
+          200: llmUsageSummaryResponseSchema,
+        },
+        tags: ["llm-usage"],
+        description: "Get LLM usage summary",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { role, userId, tenantId } = request.session;
+      if (role !== "instructor" && role !== "ta") {
+        throw new ForbiddenError("Only instructors and TAs can view LLM usage");
+      }
+
+      const { courseId } = request.query;
+      const to = request.query.to ? new Date(request.query.to) : new Date();
+      const from = request.query.from
+        ? new Date(request.query.from)
+        : new Date(to.getTime() - DEFAULT_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+
+      let courseIds: string[];
+      if (courseId) {
+        // Verify course exists
+        const course = await coursesRepository.findById(courseId);
+        if (!course || course.tenantId !== tenantId) {
+          throw new NotFoundError("Course");
+        }
+        if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+          throw new ForbiddenError("Only course staff can view the course's LLM usage");
+        }
+        courseIds = [courseId];
+      } else {
+        const enrollments = await enrollmentsRepository.findByUserId(userId);
+        courseIds = enrollments
+          .filter((enrollment) => enrollment.role === "instructor" || enrollment.role === "ta")
+          .map((enrollment) => enrollment.courseId);
+      }
+
+      const [usage, budgets] = await Promise.all([
+        llmUsageRepository.aggregate({ tenantId, courseIds, from, to }),
+        courseLLMBudgetsRepository.getStatuses(courseIds),
+      ]);
+
+      return {
+        from: from.toISOString(),
+        to: to.toISOString(),
+        ...usage,
+        budgets,
+      };
+    }
+  );
+
+  /**
+   * GET /api/v1/courses/:courseId/llm-budget
+   * Course monthly budget and this month's spend
+   */
+  server.get(
+    "/courses/:courseId/llm-budget",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        response: {
+          200: courseLLMBudgetSchema,
+        },
+        tags: ["llm-usage"],
+        description: "Get course LLM budget",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      return await courseLLMBudgetsRepository.getStatus(courseId);
+    }
+  );
+
+  /**
+   * PUT /api/v1/courses/:courseId/llm-budget
+   * Set or remove the course's monthly budget (course instructor/TA only)
+   */
+  server.put(
+    "/courses/:courseId/llm-budget",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        body: updateCourseLLMBudgetBodySchema,
+        response: {
+          200: courseLLMBudgetSchema,
+        },
+        tags: ["llm-usage"],
+        description: "Update course LLM budget",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { courseId } = request.params;
+      const { monthlyBudget } = request.body;
+
+      if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+        throw new ForbiddenError("Only course staff can edit the course's LLM budget");
+      }
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      return await courseLLMBudgetsRepository.setBudget(courseId, monthlyBudget, userId, tenantId);
+    }
+  );
+
+  /**
+   * PUT /api/v1/llm-health
+   * Report the health of the frontend's LLM providers (shown by /api/v1/ready;
+   * frontend API routes only, by service key)
+   */
+  server.put(
+    "/llm-health",
+    {
+      schema: {
+        body: reportLLMHealthBodySchema,
+        response: {
+          200: llmHealthSchema,
+        },
+        tags: ["llm-usage"],
+        description: "Report LLM provider health",
+      },
+    },
+    async (request, reply) => {
+      if (!isServiceRequest(request)) {
+        throw new UnauthorizedError("Service key required");
+      }
+
+      reportLLMHealth(request.body.providers);
+      return getLLMHealth();
+    }
+  );
+}
@@ -1,7 +1,7 @@
 /**
  * Course Materials Routes
  *
- * Material endpoints (list, search)
+ * Material endpoints (list, search, search aliases, embeddings)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -15,10 +15,28 @@ import {
   listMaterialsResponseSchema,
   searchMaterialsResponseSchema,
   getCourseIdParamsSchema,
+  materialEmbeddingsQuerySchema,
+  materialEmbeddingParamsSchema,
+  materialEmbeddingsStatusResponseSchema,
+  materialEmbeddingSchema,
+  upsertMaterialEmbeddingsBodySchema,
+  upsertMaterialEmbeddingsResponseSchema,
+  searchMaterialEmbeddingsBodySchema,
+  searchMaterialEmbeddingsResponseSchema,
+  updateSearchAliasesBodySchema,
+  searchAliasesResponseSchema,
 } from "../../schemas/materials.schema.js";
 import { courseMaterialsRepository } from "../../repositories/materials.repository.js";
+import {
+  materialEmbeddingsRepository,
+  parseChunkIndex,
+} from "../../repositories/material-embeddings.repository.js";
 import { coursesRepository } from "../../repositories/courses.repository.js";
-import { NotFoundError } from "../../utils/errors.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import { isServiceRequest } from "../../auth/service-key.js";
+import { searchAliasesRepository } from "../../repositories/search-aliases.repository.js";
+import { QueryRewriter } from "../../search/index.js";
+import { ForbiddenError, NotFoundError, UnauthorizedError } from "../../utils/errors.js";
 
 export async function materialsRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -150,6 +168,8 @@ export async function materialsRoutes(fastify: FastifyInstance) {
   /**
    * POST /api/v1/courses/:courseId/materials/search
    * Search course materials by keywords
+   * The query is rewritten first (spelling, course aliases, feedback terms);
+   * searchParams reports what was actually searched
    */
   server.post(
     "/courses/:courseId/materials/search",
@@ -174,10 +194,17 @@ export async function materialsRoutes(fastify: FastifyInstance) {
         throw new NotFoundError("Course");
       }
 
+      // Rewrite the query against the course vocabulary and alias table
+      const [materials, aliasTable] = await Promise.all([
+        courseMaterialsRepository.findByCourse(courseId),
+        searchAliasesRepository.findByCourse(courseId),
+      ]);
+      const rewrite = new QueryRewriter(materials, aliasTable.aliases).rewrite(query);
+
       // Search materials
       const results = await courseMaterialsRepository.searchMaterials(
         courseId,
-        query,
+        rewrite.rewritten,
         types,
         limit,
         minRelevance
@@ -185,6 +212,275 @@ export async function materialsRoutes(fastify: FastifyInstance) {
 
       return {
         results: results as any,
+        searchParams: {
+          query,
+          rewrittenQuery: rewrite.rewritten,
+          rewrites: {
+            corrections: rewrite.corrections,
+            aliasExpansions: rewrite.aliasExpansions,
+            feedbackTerms: rewrite.feedbackTerms,
+          },
+        },
+      };
+    }
+  );
+
+  /**
+   * GET /api/v1/courses/:courseId/search-aliases
+   * Get the course's search alias table
+   */
+  server.get(
+    "/courses/:courseId/search-aliases",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        response: {
+          200: searchAliasesResponseSchema,
+        },
+        tags: ["materials"],
+        description: "Get course search aliases",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      return await searchAliasesRepository.findByCourse(courseId);
+    }
+  );
+
+  /**
+   * PUT /api/v1/courses/:courseId/search-aliases
+   * Replace the course's search alias table (course instructor/TA only)
+   */
+  server.put(
+    "/courses/:courseId/search-aliases",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        body: updateSearchAliasesBodySchema,
+        response: {
+          200: searchAliasesResponseSchema,
+        },
+        tags: ["materials"],
+        description: "Replace course search aliases",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { courseId } = request.params;
+      const { aliases } = request.body;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+        throw new ForbiddenError("Only course staff can edit the course's search aliases");
+      }
+
+      return await searchAliasesRepository.replaceForCourse(courseId, aliases, userId, tenantId);
+    }
+  );
+
+  /**
+   * GET /api/v1/courses/:courseId/materials/embeddings?model=<id>
+   * Which materials and passages have an up-to-date embedding for a model
+   */
+  server.get(
+    "/courses/:courseId/materials/embeddings",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        querystring: materialEmbeddingsQuerySchema,
+        response: {
+          200: materialEmbeddingsStatusResponseSchema,
+        },
+        tags: ["materials"],
+        description: "Get material embedding status for a model",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+      const { model } = request.query;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      const { embedded, missing } = await materialEmbeddingsRepository.findStatusByCourse(courseId, model);
+
+      return { model, embedded, missing };
+    }
+  );
+
+  /**
+   * PUT /api/v1/courses/:courseId/materials/embeddings
+   * Store embeddings for course materials or passages (course instructor/TA or service key)
+   */
+  server.put(
+    "/courses/:courseId/materials/embeddings",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        body: upsertMaterialEmbeddingsBodySchema,
+        response: {
+          200: upsertMaterialEmbeddingsResponseSchema,
+        },
+        tags: ["materials"],
+        description: "Store material embeddings",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // The frontend's vector store writes embeddings server-side with the service key
+      if (!isServiceRequest(request)) {
+        // Check if user is authenticated
+        if (!request.session) {
+          throw new UnauthorizedError("Not authenticated");
+        }
+
+        if (!(await enrollmentsRepository.isCourseStaff(request.session.userId, courseId))) {
+          throw new ForbiddenError("Only course staff can store the course's material embeddings");
+        }
+      }
+
+      const { model, items } = request.body;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      const updated = await materialEmbeddingsRepository.upsertMany(courseId, model, items);
+
+      return { updated };
+    }
+  );
+
+  /**
+   * DELETE /api/v1/courses/:courseId/materials/embeddings?model=<id>
+   * Drop a course's embeddings for a model, forcing re-embedding (course instructor/TA or service key)
+   */
+  server.delete(
+    "/courses/:courseId/materials/embeddings",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        querystring: materialEmbeddingsQuerySchema,
+        response: {
+          204: z.void(),
+        },
+        tags: ["materials"],
+        description: "Delete material embeddings for a model",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+
+      // The frontend's vector store clears embeddings server-side with the service key
+      if (!isServiceRequest(request)) {
+        // Check if user is authenticated
+        if (!request.session) {
+          throw new UnauthorizedError("Not authenticated");
+        }
+
+        if (!(await enrollmentsRepository.isCourseStaff(request.session.userId, courseId))) {
+          throw new ForbiddenError("Only course staff can delete the course's material embeddings");
+        }
+      }
+
+      const { model } = request.query;
+
+      // Verify course exists
+      const course = await coursesRepository.findById(courseId);
+      if (!course) {
+        throw new NotFoundError("Course");
+      }
+
+      await materialEmbeddingsRepository.deleteByCourse(courseId, model);
+
+      reply.code(204);
+    }
+  );
+
+  /**
+   * POST /api/v1/courses/:courseId/materials/embeddings/search
+   * Rank course materials (or passages) by cosine similarity to a query vector
+   */
+  server.post(
+    "/courses/:courseId/materials/embeddings/search",
+    {
+      schema: {
+        params: getCourseIdParamsSchema,
+        body: searchMaterialEmbeddingsBodySchema,
+        response: {
+          200: searchMaterialEmbeddingsResponseSchema,
+        },
+        tags: ["materials"],
+        description: "Vector search over course material embeddings",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+      const { model, vector, limit } = request.body;
+
+      const results = await materialEmbeddingsRepository.search(courseId, model, vector, limit);
+
+      return { results };
+    }
+  );
+
+  /**
+   * GET /api/v1/courses/:courseId/materials/embeddings/:vectorId?model=<id>
+   * Get a single material or passage embedding
+   */
+  server.get(
+    "/courses/:courseId/materials/embeddings/:vectorId",
+    {
+      schema: {
+        params: materialEmbeddingParamsSchema,
+        querystring: materialEmbeddingsQuerySchema,
+        response: {
+          200: materialEmbeddingSchema,
+        },
+        tags: ["materials"],
+        description: "Get a material embedding",
+      },
+    },
+    async (request, reply) => {
+      const { courseId, vectorId } = request.params;
+      const { model } = request.query;
+
+      const embedding = await materialEmbeddingsRepository.findByVectorId(vectorId, model);
+      if (!embedding || embedding.courseId !== courseId) {
+        throw new NotFoundError("Material embedding");
+      }
+
+      return {
+        id: embedding.vectorId,
+        materialId: embedding.materialId,
+        chunkIndex: parseChunkIndex(embedding.vectorId, embedding.materialId),
+        model: embedding.model,
+        dimensions: embedding.dimensions,
+        vector: embedding.vector,
+        updatedAt: embedding.updatedAt.toISOString(),
       };
     }
   );
@@ -0,0 +1,304 @@
+/**
+ * Moderation Routes
+ *
+ * Student reports (flags) on threads and posts, and the instructor
+ * moderation queue with resolve/dismiss actions
+ */
+
+import type { FastifyInstance } from "fastify";
+import type { ZodTypeProvider } from "../../plugins/validation.plugin.js";
+import { getThreadParamsSchema } from "../../schemas/threads.schema.js";
+import { postIdParamsSchema } from "../../schemas/posts.schema.js";
+import {
+  flagContentBodySchema,
+  flagContentResponseSchema,
+  moderationQueueQuerySchema,
+  moderationQueueResponseSchema,
+  moderationItemParamsSchema,
+  closeReportsResponseSchema,
+} from "../../schemas/moderation.schema.js";
+import {
+  contentFlagsRepository,
+  type FlagTargetType,
+  type FlagStatus,
+} from "../../repositories/content-flags.repository.js";
+import { threadsRepository } from "../../repositories/threads.repository.js";
+import { postsRepository } from "../../repositories/posts.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  UnauthorizedError,
+  serializeDates,
+} from "../../utils/errors.js";
+import type { ContentFlag } from "../../db/schema.js";
+
+/**
+ * Transform report record for API responses
+ */
+function serializeFlag(flag: ContentFlag) {
+  const { tenantId, ...fields } = flag;
+  return serializeDates({
+    ...fields,
+    targetType: fields.targetType as FlagTargetType,
+    status: fields.status as FlagStatus,
+  });
+}
+
+/**
+ * Find the thread a reported item belongs to (the item itself for threads)
+ */
+async function findReportedThread(targetType: FlagTargetType, targetId: string) {
+  if (targetType === "thread") {
+    return await threadsRepository.findById(targetId);
+  }
+
+  const post = await postsRepository.findById(targetId);
+  return post ? await threadsRepository.findById(post.threadId) : null;
+}
+
+/**
+ * Close the open reports on an item and notify each reporter
+ */
+async function closeReports(
+  userId: string,
+  targetType: FlagTargetType,
+  targetId: string,
+  status: Exclude<FlagStatus, "open">
+) {
+  const thread = await findReportedThread(targetType, targetId);
+  if (!thread) {
+    throw new NotFoundError(targetType === "thread" ? "Thread" : "Post");
+  }
+  if (!(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+    throw new ForbiddenError("Only course staff can review reports");
+  }
+
+  const noun = targetType === "thread" ? "question" : "reply";
+  const closed = await contentFlagsRepository.closeByTarget(targetType, targetId, status, userId, {
+    title: "Your report was reviewed",
+    message:
+      status === "resolved"
+        ? `Course staff reviewed the ${noun} you reported in "${thread.title}" and took action. Thanks for letting us know.`
+        : `Course staff reviewed the ${noun} you reported in "${thread.title}" and decided it can stay up.`,
+  });
+
+  if (closed.length === 0) {
+    throw new ConflictError(`No open reports on this ${targetType}`);
+  }
+
+  return { targetType, targetId, status, closedCount: closed.length };
+}
+
+export async function moderationRoutes(fastify: FastifyInstance) {
+  const server = fastify.withTypeProvider<ZodTypeProvider>();
+
+  /**
+   * POST /api/v1/threads/:id/flag
+   * Report a thread to course staff
+   */
+  server.post(
+    "/threads/:id/flag",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        body: flagContentBodySchema,
+        response: {
+          200: flagContentResponseSchema,
+          201: flagContentResponseSchema,
+        },
+        tags: ["moderation"],
+        description: "Report a thread",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+      const { reason, details } = request.body;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (thread.deletedAt) {
+        throw new ConflictError("Deleted threads can't be reported");
+      }
+      if (thread.authorId === userId) {
+        throw new ForbiddenError("You can't report your own thread");
+      }
+
+      const { flag, duplicate } = await contentFlagsRepository.report({
+        courseId: thread.courseId,
+        threadId: thread.id,
+        targetType: "thread",
+        targetId: thread.id,
+        reporterId: userId,
+        reason,
+        details: details ?? null,
+        tenantId: thread.tenantId,
+      });
+      const reportCount = await contentFlagsRepository.countOpen("thread", thread.id);
+
+      reply.code(duplicate ? 200 : 201);
+      return { flag: serializeFlag(flag), reportCount, duplicate };
+    }
+  );
+
+  /**
+   * POST /api/v1/posts/:id/flag
+   * Report a post to course staff
+   */
+  server.post(
+    "/posts/:id/flag",
+    {
+      schema: {
+        params: postIdParamsSchema,
+        body: flagContentBodySchema,
+        response: {
+          200: flagContentResponseSchema,
+          201: flagContentResponseSchema,
+        },
+        tags: ["moderation"],
+        description: "Report a post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+      const { reason, details } = request.body;
+
+      const post = await postsRepository.findById(id);
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+      if (post.deletedAt) {
+        throw new ConflictError("Deleted posts can't be reported");
+      }
+      if (post.authorId === userId) {
+        throw new ForbiddenError("You can't report your own post");
+      }
+
+      const thread = await threadsRepository.findById(post.threadId);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+
+      const { flag, duplicate } = await contentFlagsRepository.report({
+        courseId: thread.courseId,
+        threadId: thread.id,
+        targetType: "post",
+        targetId: post.id,
+        reporterId: userId,
+        reason,
+        details: details ?? null,
+        tenantId: post.tenantId,
+      });
+      const reportCount = await contentFlagsRepository.countOpen("post", post.id);
+
+      reply.code(duplicate ? 200 : 201);
+      return { flag: serializeFlag(flag), reportCount, duplicate };
+    }
+  );
+
+  /**
+   * GET /api/v1/instructor/moderation-queue?courseId=<id>
+   * Reported threads and posts with open reports, most severe first (course instructor/TA only)
+   */
+  server.get(
+    "/instructor/moderation-queue",
+    {
+      schema: {
+        querystring: moderationQueueQuerySchema,
+        response: {
+          200: moderationQueueResponseSchema,
+        },
+        tags: ["moderation"],
+        description: "Get moderation queue for a course",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { courseId } = request.query;
+
+      if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+        throw new ForbiddenError("Only course staff can view the moderation queue");
+      }
+
+      const items = await contentFlagsRepository.findModerationQueue(courseId);
+
+      return {
+        items: items.map((item) => serializeDates(item)),
+      };
+    }
+  );
+
+  /**
+   * POST /api/v1/instructor/moderation-queue/:targetType/:targetId/resolve
+   * Close the reports on an item as acted upon and notify the reporters (course instructor/TA only)
+   */
+  server.post(
+    "/instructor/moderation-queue/:targetType/:targetId/resolve",
+    {
+      schema: {
+        params: moderationItemParamsSchema,
+        response: {
+          200: closeReportsResponseSchema,
+        },
+        tags: ["moderation"],
+        description: "Resolve reports on a thread or post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { targetType, targetId } = request.params;
+      return await closeReports(request.session.userId, targetType, targetId, "resolved");
+    }
+  );
+
+  /**
+   * POST /api/v1/instructor/moderation-queue/:targetType/:targetId/dismiss
+   * Close the reports on an item without action and notify the reporters (course instructor/TA only)
+   */
+  server.post(
+    "/instructor/moderation-queue/:targetType/:targetId/dismiss",
+    {
+      schema: {
+        params: moderationItemParamsSchema,
+        response: {
+          200: closeReportsResponseSchema,
+        },
+        tags: ["moderation"],
+        description: "Dismiss reports on a thread or post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { targetType, targetId } = request.params;
+      return await closeReports(request.session.userId, targetType, targetId, "dismissed");
+    }
+  );
+}
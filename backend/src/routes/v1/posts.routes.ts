@@ -1,7 +1,9 @@
 /**
  * Posts Routes
  *
- * Post endpoints (list, create)
+ * Post endpoints (list, create, edit, delete/restore)
+ * Posts form reply trees: replies to the thread, comments on its AI
+ * answer, and nested replies up to MAX_REPLY_DEPTH levels deep
  */
 
 import type { FastifyInstance } from "fastify";
@@ -10,21 +12,43 @@ import { z } from "zod";
 import {
   postSchema,
   createPostSchema,
+  updatePostSchema,
   listPostsQuerySchema,
   listPostsResponseSchema,
   threadIdParamsSchema,
+  postIdParamsSchema,
 } from "../../schemas/posts.schema.js";
-import { postsRepository } from "../../repositories/posts.repository.js";
+import { deleteContentQuerySchema } from "../../schemas/threads.schema.js";
+import { listRevisionsResponseSchema } from "../../schemas/revisions.schema.js";
+import { postsRepository, MAX_REPLY_DEPTH } from "../../repositories/posts.repository.js";
+import { aiAnswersRepository } from "../../repositories/ai-answers.repository.js";
 import { threadsRepository } from "../../repositories/threads.repository.js";
-import { UnauthorizedError, NotFoundError, serializeDates } from "../../utils/errors.js";
+import { contentRevisionsRepository } from "../../repositories/content-revisions.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  serializeDates,
+} from "../../utils/errors.js";
+import {
+  resolveDeletionReason,
+  isRestorable,
+  withTombstone,
+  withRevisionTombstone,
+} from "../../utils/tombstones.js";
 import type { SessionData } from "../../plugins/session.plugin.js";
 
 export async function postsRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
 
   /**
-   * GET /api/v1/posts?threadId=<id>
+   * GET /api/v1/posts?threadId=<id>[&parentPostId=<id>|&aiAnswerId=<id>|&topLevel=true]
    * List posts for a thread with pagination (query param version)
+   * Optional branch filters page through one level of the reply tree
+   * Deleted posts are returned as tombstones
    */
   server.get(
     "/posts",
@@ -41,7 +65,7 @@ export async function postsRoutes(fastify: FastifyInstance) {
       },
     },
     async (request, reply) => {
-      const { threadId, cursor, limit } = request.query;
+      const { threadId, cursor, limit, parentPostId, aiAnswerId, topLevel } = request.query;
 
       // Verify thread exists
       const thread = await threadsRepository.findById(threadId);
@@ -49,13 +73,14 @@ export async function postsRoutes(fastify: FastifyInstance) {
         throw new NotFoundError("Thread");
       }
 
-      const result = await postsRepository.findByThread(threadId, {
-        cursor,
-        limit,
-      });
+      const result = await postsRepository.findByThread(
+        threadId,
+        { cursor, limit },
+        { parentPostId, aiAnswerId, topLevel }
+      );
 
       return {
-        items: result.data.map(p => serializeDates(p)),
+        items: result.data.map(p => serializeDates(withTombstone(p))),
         nextCursor: result.pagination.nextCursor || null,
         hasNextPage: result.pagination.hasMore,
       } as any;
@@ -65,6 +90,8 @@ export async function postsRoutes(fastify: FastifyInstance) {
   /**
    * GET /api/v1/threads/:threadId/posts
    * List posts for a thread with pagination (legacy path param version)
+   * Accepts the same branch filters as GET /api/v1/posts
+   * Deleted posts are returned as tombstones
    */
   server.get(
     "/threads/:threadId/posts",
@@ -81,7 +108,7 @@ export async function postsRoutes(fastify: FastifyInstance) {
     },
     async (request, reply) => {
       const { threadId } = request.params;
-      const { cursor, limit } = request.query;
+      const { cursor, limit, parentPostId, aiAnswerId, topLevel } = request.query;
 
       // Verify thread exists
       const thread = await threadsRepository.findById(threadId);
@@ -89,13 +116,14 @@ export async function postsRoutes(fastify: FastifyInstance) {
         throw new NotFoundError("Thread");
       }
 
-      const result = await postsRepository.findByThread(threadId, {
-        cursor,
-        limit,
-      });
+      const result = await postsRepository.findByThread(
+        threadId,
+        { cursor, limit },
+        { parentPostId, aiAnswerId, topLevel }
+      );
 
       return {
-        items: result.data.map(p => serializeDates(p)),
+        items: result.data.map(p => serializeDates(withTombstone(p))),
         nextCursor: result.pagination.nextCursor || null,
         hasNextPage: result.pagination.hasMore,
       } as any;
@@ -104,7 +132,7 @@ export async function postsRoutes(fastify: FastifyInstance) {
 
   /**
    * POST /api/v1/posts
-   * Create new post (reply to thread)
+   * Create new post (reply to thread, comment on its AI answer, or nested reply)
    * Requires authentication
    */
   server.post(
@@ -125,15 +153,45 @@ export async function postsRoutes(fastify: FastifyInstance) {
         throw new UnauthorizedError("Not authenticated");
       }
 
-      const { threadId, content } = request.body;
+      const { threadId, content, parentPostId } = request.body;
       const userId = request.session.userId;
       const userRole = request.session.role;
 
-      // Verify thread exists
+      // Verify thread exists and is still open for replies
       const thread = await threadsRepository.findById(threadId);
       if (!thread) {
         throw new NotFoundError("Thread");
       }
+      if (thread.deletedAt) {
+        throw new ConflictError("Deleted threads can't be replied to");
+      }
+
+      // Place the post in the reply tree
+      let aiAnswerId = request.body.aiAnswerId ?? null;
+      let depth = 0;
+      if (parentPostId) {
+        const parent = await postsRepository.findById(parentPostId);
+        if (!parent || parent.threadId !== threadId) {
+          throw new NotFoundError("Parent post");
+        }
+        if (parent.deletedAt) {
+          throw new ConflictError("Can't reply to a deleted post");
+        }
+        if (parent.depth >= MAX_REPLY_DEPTH) {
+          throw new BadRequestError(`Replies can't be nested more than ${MAX_REPLY_DEPTH} levels deep`);
+        }
+        if (aiAnswerId && aiAnswerId !== parent.aiAnswerId) {
+          throw new BadRequestError("Parent post is not a comment on this AI answer");
+        }
+
+        aiAnswerId = parent.aiAnswerId;
+        depth = parent.depth + 1;
+      } else if (aiAnswerId) {
+        const aiAnswer = await aiAnswersRepository.findById(aiAnswerId);
+        if (!aiAnswer || aiAnswer.threadId !== threadId) {
+          throw new NotFoundError("AI answer");
+        }
+      }
 
       // Determine if this is an instructor answer
       const isInstructorAnswer = userRole === "instructor" || userRole === "ta";
@@ -142,6 +200,9 @@ export async function postsRoutes(fastify: FastifyInstance) {
       const newPost = await postsRepository.createPost({
         id: crypto.randomUUID(),
         threadId,
+        parentPostId: parentPostId ?? null,
+        aiAnswerId,
+        depth,
         authorId: userId,
         content,
         isInstructorAnswer,
@@ -152,15 +213,223 @@ export async function postsRoutes(fastify: FastifyInstance) {
       });
 
       // Fetch author details
-      const postResults = await postsRepository.findByThread(threadId);
-      const postWithAuthor = postResults.data.find((p) => p.id === newPost.id);
+      const postWithAuthor = await postsRepository.findByIdWithAuthor(newPost.id);
 
       if (!postWithAuthor) {
         throw new Error("Failed to fetch created post");
       }
 
       reply.code(201);
-      return serializeDates(postWithAuthor) as any;
+      return serializeDates({ ...postWithAuthor, replyCount: 0 }) as any;
+    }
+  );
+
+  /**
+   * PATCH /api/v1/posts/:id
+   * Edit post content (author or course instructor/TA)
+   * The previous version is kept as a revision
+   */
+  server.patch(
+    "/posts/:id",
+    {
+      schema: {
+        params: postIdParamsSchema,
+        body: updatePostSchema,
+        response: {
+          200: postSchema,
+        },
+        tags: ["posts"],
+        description: "Edit post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { id } = request.params;
+
+      const post = await postsRepository.findById(id);
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+
+      const thread = await threadsRepository.findById(post.threadId);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+
+      if (post.authorId !== userId && !(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only the author and course staff can edit this post");
+      }
+
+      await contentRevisionsRepository.editPost(id, request.body.content, userId, tenantId);
+
+      // Fetch author details
+      const postWithAuthor = await postsRepository.findByIdWithAuthor(id);
+      if (!postWithAuthor) {
+        throw new NotFoundError("Post");
+      }
+
+      return serializeDates(postWithAuthor);
+    }
+  );
+
+  /**
+   * DELETE /api/v1/posts/:id?reason=<reason>
+   * Soft-delete a post: authors retract their own; course instructors/TAs
+   * remove with a reason. Staff can restore it within the retention window
+   */
+  server.delete(
+    "/posts/:id",
+    {
+      schema: {
+        params: postIdParamsSchema,
+        querystring: deleteContentQuerySchema,
+        response: {
+          200: postSchema,
+        },
+        tags: ["posts"],
+        description: "Delete post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+
+      const post = await postsRepository.findById(id);
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+      if (post.deletedAt) {
+        throw new ConflictError("Post has already been deleted");
+      }
+
+      const thread = await threadsRepository.findById(post.threadId);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+
+      const deletionReason = resolveDeletionReason({
+        isAuthor: post.authorId === userId,
+        isStaff: await enrollmentsRepository.isCourseStaff(userId, thread.courseId),
+        reason: request.query.reason,
+      });
+
+      await postsRepository.softDelete(id, userId, deletionReason);
+
+      const tombstone = await postsRepository.findByIdWithAuthor(id);
+      if (!tombstone) {
+        throw new NotFoundError("Post");
+      }
+
+      return serializeDates(withTombstone(tombstone));
+    }
+  );
+
+  /**
+   * POST /api/v1/posts/:id/restore
+   * Restore a deleted post (course instructor/TA, within the retention window)
+   */
+  server.post(
+    "/posts/:id/restore",
+    {
+      schema: {
+        params: postIdParamsSchema,
+        response: {
+          200: postSchema,
+        },
+        tags: ["posts"],
+        description: "Restore deleted post",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+
+      const post = await postsRepository.findById(id);
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+
+      const thread = await threadsRepository.findById(post.threadId);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (!(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only course staff can restore posts");
+      }
+      if (!post.deletedAt) {
+        throw new ConflictError("Post is not deleted");
+      }
+      if (!isRestorable(post.deletedAt)) {
+        throw new BadRequestError("Retention window has expired for this post");
+      }
+
+      await postsRepository.restore(id);
+
+      const restored = await postsRepository.findByIdWithAuthor(id);
+      if (!restored) {
+        throw new NotFoundError("Post");
+      }
+
+      return serializeDates(withTombstone(restored));
+    }
+  );
+
+  /**
+   * GET /api/v1/posts/:id/revisions
+   * Prior versions of an edited post (oldest first)
+   * Deleted posts' revisions are course staff only, with their content blanked
+   */
+  server.get(
+    "/posts/:id/revisions",
+    {
+      schema: {
+        params: postIdParamsSchema,
+        response: {
+          200: listRevisionsResponseSchema,
+        },
+        tags: ["posts"],
+        description: "List post revisions",
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const post = await postsRepository.findById(id);
+      if (!post) {
+        throw new NotFoundError("Post");
+      }
+      if (post.deletedAt) {
+        const thread = await threadsRepository.findById(post.threadId);
+        if (
+          !thread ||
+          !(request.session && (await enrollmentsRepository.isCourseStaff(request.session.userId, thread.courseId)))
+        ) {
+          throw new NotFoundError("Post");
+        }
+      }
+
+      const revisions = await contentRevisionsRepository.findByTarget("post", id);
+
+      return {
+        items: revisions.map((revision) =>
+          serializeDates(post.deletedAt ? withRevisionTombstone(revision) : revision)
+        ),
+      };
     }
   );
 }
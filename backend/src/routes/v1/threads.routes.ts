@@ -1,7 +1,7 @@
 /**
  * Threads Routes
  *
- * Thread endpoints (list, get, create, upvote)
+ * Thread endpoints (list, get, create, edit, delete/restore, accepted answer, upvote, merge, duplicate detection)
  */
 
 import type { FastifyInstance } from "fastify";
@@ -10,18 +10,71 @@ import { z } from "zod";
 import {
   threadSchema,
   createThreadSchema,
+  updateThreadSchema,
+  deleteContentQuerySchema,
+  acceptAnswerSchema,
   listThreadsQuerySchema,
   listThreadsResponseSchema,
   courseIdParamsSchema,
   getThreadParamsSchema,
   upvoteThreadParamsSchema,
   upvoteResponseSchema,
+  getThreadResponseSchema,
+  mergeThreadsSchema,
+  mergeThreadsResponseSchema,
+  undoMergeParamsSchema,
+  undoMergeResponseSchema,
+  checkDuplicatesSchema,
+  checkDuplicatesResponseSchema,
 } from "../../schemas/threads.schema.js";
-import { threadsRepository } from "../../repositories/threads.repository.js";
+import { listRevisionsResponseSchema } from "../../schemas/revisions.schema.js";
+import { threadsRepository, type AcceptedAnswer } from "../../repositories/threads.repository.js";
+import { postsRepository } from "../../repositories/posts.repository.js";
 import { usersRepository } from "../../repositories/users.repository.js";
 import { aiAnswersRepository } from "../../repositories/ai-answers.repository.js";
-import { UnauthorizedError, NotFoundError, serializeDates } from "../../utils/errors.js";
+import { threadMergesRepository } from "../../repositories/thread-merges.repository.js";
+import { contentRevisionsRepository } from "../../repositories/content-revisions.repository.js";
+import { enrollmentsRepository } from "../../repositories/enrollments.repository.js";
+import { threadSimilarityIndex } from "../../similarity/index.js";
+import {
+  UnauthorizedError,
+  ForbiddenError,
+  NotFoundError,
+  BadRequestError,
+  ConflictError,
+  serializeDates,
+} from "../../utils/errors.js";
+import {
+  resolveDeletionReason,
+  isRestorable,
+  withTombstone,
+  withRevisionTombstone,
+} from "../../utils/tombstones.js";
 import type { SessionData } from "../../plugins/session.plugin.js";
+import type { ThreadMerge } from "../../db/schema.js";
+
+/**
+ * Transform merge record for API responses (counts instead of raw JSON ID lists)
+ */
+function serializeMerge(merge: ThreadMerge) {
+  const { movedPostIds, movedUpvoteIds, tenantId, ...fields } = merge;
+  return serializeDates({
+    ...fields,
+    movedPostCount: (JSON.parse(movedPostIds) as string[]).length,
+    movedUpvoteCount: (JSON.parse(movedUpvoteIds) as string[]).length,
+  });
+}
+
+/**
+ * Require course staff membership in every given course
+ */
+async function assertStaffOfCourses(userId: string, courseIds: string[], action: string): Promise<void> {
+  for (const courseId of new Set(courseIds)) {
+    if (!(await enrollmentsRepository.isCourseStaff(userId, courseId))) {
+      throw new ForbiddenError(`Only course staff can ${action}`);
+    }
+  }
+}
 
 export async function threadsRoutes(fastify: FastifyInstance) {
   const server = fastify.withTypeProvider<ZodTypeProvider>();
@@ -114,6 +167,8 @@ export async function threadsRoutes(fastify: FastifyInstance) {
    * GET /api/v1/threads/:id
    * Get single thread with full details
    * Auto-increments view count
+   * Merged threads return a redirect payload pointing at the surviving thread
+   * Deleted threads are returned as tombstones
    */
   server.get(
     "/threads/:id",
@@ -121,7 +176,7 @@ export async function threadsRoutes(fastify: FastifyInstance) {
       schema: {
         params: getThreadParamsSchema,
         response: {
-          200: threadSchema,
+          200: getThreadResponseSchema,
         },
         tags: ["threads"],
         description: "Get thread by ID",
@@ -130,6 +185,17 @@ export async function threadsRoutes(fastify: FastifyInstance) {
     async (request, reply) => {
       const { id } = request.params;
 
+      // Merged threads redirect to the thread they were merged into
+      const redirectTo = await threadsRepository.resolveMergeTarget(id);
+      if (redirectTo) {
+        return {
+          redirect: true as const,
+          id,
+          redirectTo,
+          reason: "merged" as const,
+        };
+      }
+
       // Increment view count (fire and forget)
       threadsRepository.incrementViews(id).catch(() => {
         // Ignore errors for view tracking
@@ -141,7 +207,7 @@ export async function threadsRoutes(fastify: FastifyInstance) {
         throw new NotFoundError("Thread");
       }
 
-      return serializeDates(thread) as any;
+      return serializeDates(withTombstone(thread));
     }
   );
 
@@ -188,11 +254,17 @@ export async function threadsRoutes(fastify: FastifyInstance) {
         upvoteCount: 0,
         duplicatesOf: null,
         mergedInto: null,
+        mergedFrom: null,
         createdAt: new Date(),
         updatedAt: new Date(),
         tenantId: "tenant-demo-001",
       });
 
+      // Add to duplicate detection index (fire and forget)
+      threadSimilarityIndex.indexThread(newThread).catch((error) => {
+        request.log.warn({ err: error, threadId: newThread.id }, "Failed to index thread for duplicate detection");
+      });
+
       // Fetch full thread details to return
       const threadWithDetails = await threadsRepository.findByIdWithDetails(newThread.id);
 
@@ -205,6 +277,450 @@ export async function threadsRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * PATCH /api/v1/threads/:id
+   * Edit thread title and/or content (author or course instructor/TA)
+   * The previous version is kept as a revision
+   */
+  server.patch(
+    "/threads/:id",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        body: updateThreadSchema,
+        response: {
+          200: threadSchema,
+        },
+        tags: ["threads"],
+        description: "Edit thread",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { id } = request.params;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+
+      if (thread.authorId !== userId && !(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only the author and course staff can edit this thread");
+      }
+
+      const updated = await contentRevisionsRepository.editThread(id, request.body, userId, tenantId);
+
+      // Keep duplicate detection in sync with the new wording (fire and forget)
+      threadSimilarityIndex.indexThread(updated).catch((error) => {
+        request.log.warn({ err: error, threadId: id }, "Failed to re-index edited thread");
+      });
+
+      const threadWithDetails = await threadsRepository.findByIdWithDetails(id);
+      if (!threadWithDetails) {
+        throw new NotFoundError("Thread");
+      }
+
+      return serializeDates(threadWithDetails);
+    }
+  );
+
+  /**
+   * GET /api/v1/threads/:id/revisions
+   * Prior versions of an edited thread (oldest first)
+   * Deleted threads' revisions are course staff only, with their title/content blanked
+   */
+  server.get(
+    "/threads/:id/revisions",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        response: {
+          200: listRevisionsResponseSchema,
+        },
+        tags: ["threads"],
+        description: "List thread revisions",
+      },
+    },
+    async (request, reply) => {
+      const { id } = request.params;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (
+        thread.deletedAt &&
+        !(request.session && (await enrollmentsRepository.isCourseStaff(request.session.userId, thread.courseId)))
+      ) {
+        throw new NotFoundError("Thread");
+      }
+
+      const revisions = await contentRevisionsRepository.findByTarget("thread", id);
+
+      return {
+        items: revisions.map((revision) =>
+          serializeDates(thread.deletedAt ? withRevisionTombstone(revision) : revision)
+        ),
+      };
+    }
+  );
+
+  /**
+   * DELETE /api/v1/threads/:id?reason=<reason>
+   * Soft-delete a thread: authors retract their own; course instructors/TAs
+   * remove with a reason. Staff can restore it within the retention window
+   */
+  server.delete(
+    "/threads/:id",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        querystring: deleteContentQuerySchema,
+        response: {
+          200: threadSchema,
+        },
+        tags: ["threads"],
+        description: "Delete thread",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (thread.deletedAt) {
+        throw new ConflictError("Thread has already been deleted");
+      }
+
+      const deletionReason = resolveDeletionReason({
+        isAuthor: thread.authorId === userId,
+        isStaff: await enrollmentsRepository.isCourseStaff(userId, thread.courseId),
+        reason: request.query.reason,
+      });
+
+      await threadsRepository.softDelete(id, userId, deletionReason);
+
+      // Deleted threads no longer count as duplicate candidates
+      threadSimilarityIndex.removeThread(id, thread.courseId).catch((error) => {
+        request.log.warn({ err: error, threadId: id }, "Failed to remove deleted thread from duplicate index");
+      });
+
+      const tombstone = await threadsRepository.findByIdWithDetails(id);
+      if (!tombstone) {
+        throw new NotFoundError("Thread");
+      }
+
+      return serializeDates(withTombstone(tombstone));
+    }
+  );
+
+  /**
+   * POST /api/v1/threads/:id/restore
+   * Restore a deleted thread (course instructor/TA, within the retention window)
+   */
+  server.post(
+    "/threads/:id/restore",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        response: {
+          200: threadSchema,
+        },
+        tags: ["threads"],
+        description: "Restore deleted thread",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (!(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only course staff can restore threads");
+      }
+      if (!thread.deletedAt) {
+        throw new ConflictError("Thread is not deleted");
+      }
+      if (!isRestorable(thread.deletedAt)) {
+        throw new BadRequestError("Retention window has expired for this thread");
+      }
+
+      const restored = await threadsRepository.restore(id);
+
+      // Restored thread becomes a duplicate candidate again
+      if (restored) {
+        threadSimilarityIndex.indexThread(restored).catch((error) => {
+          request.log.warn({ err: error, threadId: id }, "Failed to re-index restored thread");
+        });
+      }
+
+      const threadWithDetails = await threadsRepository.findByIdWithDetails(id);
+      if (!threadWithDetails) {
+        throw new NotFoundError("Thread");
+      }
+
+      return serializeDates(withTombstone(threadWithDetails));
+    }
+  );
+
+  /**
+   * POST /api/v1/threads/:id/accepted-answer
+   * Mark a post or the AI answer as the accepted answer (question author or
+   * course instructor/TA). Resolves the thread, pins the answer, endorses an
+   * accepted post on the accepter's behalf and notifies the people involved
+   */
+  server.post(
+    "/threads/:id/accepted-answer",
+    {
+      schema: {
+        params: getThreadParamsSchema,
+        body: acceptAnswerSchema,
+        response: {
+          200: threadSchema,
+        },
+        tags: ["threads"],
+        description: "Accept an answer",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { id } = request.params;
+      const { targetType, targetId } = request.body;
+
+      const thread = await threadsRepository.findById(id);
+      if (!thread) {
+        throw new NotFoundError("Thread");
+      }
+      if (thread.deletedAt) {
+        throw new ConflictError("Deleted threads can't be resolved");
+      }
+      if (thread.authorId !== userId && !(await enrollmentsRepository.isCourseStaff(userId, thread.courseId))) {
+        throw new ForbiddenError("Only the question author and course staff can accept an answer");
+      }
+
+      let answer: AcceptedAnswer;
+      if (targetType === "post") {
+        const post = await postsRepository.findById(targetId);
+        if (!post || post.threadId !== thread.id) {
+          throw new NotFoundError("Post");
+        }
+        if (post.deletedAt) {
+          throw new ConflictError("Deleted posts can't be accepted");
+        }
+        answer = { type: "post", id: post.id, authorId: post.authorId };
+      } else {
+        const aiAnswer = await aiAnswersRepository.findById(targetId);
+        if (!aiAnswer || aiAnswer.threadId !== thread.id) {
+          throw new NotFoundError("AI answer");
+        }
+        answer = { type: "ai_answer", id: aiAnswer.id, authorId: null };
+      }
+
+      // Accepting the current answer again changes nothing
+      if (thread.acceptedAnswerType !== answer.type || thread.acceptedAnswerId !== answer.id) {
+        await threadsRepository.acceptAnswer(thread, answer, userId);
+      }
+
+      const threadWithDetails = await threadsRepository.findByIdWithDetails(id);
+      if (!threadWithDetails) {
+        throw new NotFoundError("Thread");
+      }
+
+      return serializeDates(withTombstone(threadWithDetails));
+    }
+  );
+
+  /**
+   * POST /api/v1/threads/merge
+   * Merge a duplicate thread into another thread (course staff only)
+   * Moves posts and upvotes to the target; source redirects to target
+   */
+  server.post(
+    "/threads/merge",
+    {
+      schema: {
+        body: mergeThreadsSchema,
+        response: {
+          200: mergeThreadsResponseSchema,
+        },
+        tags: ["threads"],
+        description: "Merge duplicate threads",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId, tenantId } = request.session;
+      const { sourceId, targetId } = request.body;
+
+      const [source, target] = await Promise.all([
+        threadsRepository.findById(sourceId),
+        threadsRepository.findById(targetId),
+      ]);
+      if (!source) {
+        throw new NotFoundError("Source thread");
+      }
+      if (!target) {
+        throw new NotFoundError("Target thread");
+      }
+      await assertStaffOfCourses(userId, [source.courseId, target.courseId], "merge threads");
+
+      const { merge, target: mergedTarget } = await threadMergesRepository.mergeThreads(
+        sourceId,
+        targetId,
+        userId,
+        tenantId
+      );
+
+      // Merged-away threads no longer count as duplicate candidates
+      threadSimilarityIndex.removeThread(sourceId, mergedTarget.courseId).catch((error) => {
+        request.log.warn({ err: error, threadId: sourceId }, "Failed to remove merged thread from duplicate index");
+      });
+
+      const details = await threadsRepository.findByIdWithDetails(targetId);
+      if (!details) {
+        throw new NotFoundError("Target thread");
+      }
+
+      return {
+        ...serializeDates(details),
+        merge: serializeMerge(merge),
+      };
+    }
+  );
+
+  /**
+   * POST /api/v1/threads/merge/:mergeId/undo
+   * Undo a recent merge (course staff only, within the undo window)
+   */
+  server.post(
+    "/threads/merge/:mergeId/undo",
+    {
+      schema: {
+        params: undoMergeParamsSchema,
+        response: {
+          200: undoMergeResponseSchema,
+        },
+        tags: ["threads"],
+        description: "Undo a thread merge",
+      },
+    },
+    async (request, reply) => {
+      // Check if user is authenticated
+      if (!request.session) {
+        throw new UnauthorizedError("Not authenticated");
+      }
+
+      const { userId } = request.session;
+      const { mergeId } = request.params;
+
+      const found = await threadMergesRepository.findById(mergeId);
+      const [mergedSource, mergedTarget] = found
+        ? await Promise.all([
+            threadsRepository.findById(found.sourceThreadId),
+            threadsRepository.findById(found.targetThreadId),
+          ])
+        : [null, null];
+      if (!mergedSource || !mergedTarget) {
+        throw new NotFoundError("Thread merge");
+      }
+      await assertStaffOfCourses(userId, [mergedSource.courseId, mergedTarget.courseId], "undo merges");
+
+      const merge = await threadMergesRepository.undoMerge(mergeId, mergedSource.courseId);
+
+      // Restored source thread becomes a duplicate candidate again
+      const source = await threadsRepository.findById(merge.sourceThreadId);
+      if (source) {
+        threadSimilarityIndex.indexThread(source).catch((error) => {
+          request.log.warn({ err: error, threadId: source.id }, "Failed to re-index restored thread");
+        });
+      }
+
+      return {
+        success: true,
+        merge: serializeMerge(merge),
+        message: "Merge undone",
+      };
+    }
+  );
+
+  /**
+   * POST /api/v1/courses/:courseId/threads/duplicates
+   * Find existing threads similar to a proposed question
+   * Uses the per-course TF-IDF index (no need to ship all threads to the client)
+   */
+  server.post(
+    "/courses/:courseId/threads/duplicates",
+    {
+      schema: {
+        params: courseIdParamsSchema,
+        body: checkDuplicatesSchema,
+        response: {
+          200: checkDuplicatesResponseSchema,
+        },
+        tags: ["threads"],
+        description: "Find duplicate threads in a course",
+      },
+    },
+    async (request, reply) => {
+      const { courseId } = request.params;
+      const { title, content, threshold, limit, excludeThreadId } = request.body;
+
+      const matches = await threadSimilarityIndex.findSimilar(courseId, `${title} ${content}`, {
+        threshold,
+        limit,
+        excludeThreadIds: excludeThreadId ? [excludeThreadId] : [],
+      });
+
+      const items = await Promise.all(
+        matches.map(async (match) => {
+          const thread = await threadsRepository.findByIdWithDetails(match.threadId);
+          if (!thread) return null;
+
+          return {
+            thread: serializeDates(thread),
+            similarity: match.similarity,
+            similarityPercent: Math.round(match.similarity * 100),
+            matchedTerms: match.matchedTerms,
+          };
+        })
+      );
+
+      return {
+        items: items.filter((item): item is NonNullable<typeof item> => item !== null),
+      };
+    }
+  );
+
   /**
    * POST /api/v1/threads/:id/upvote
    * Toggle upvote on thread
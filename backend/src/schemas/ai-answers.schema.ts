@@ -11,6 +11,54 @@ import { z } from "zod";
  */
 export const confidenceLevelSchema = z.enum(["high", "medium", "low"]);
 
+/**
+ * Self-RAG routing decision an answer was built with (mirrors AIAnswerRouting
+ * in lib/models/types.ts)
+ */
+export const aiAnswerRoutingSchema = z.object({
+  action: z.enum(["use-cache", "retrieve-standard", "retrieve-expanded", "retrieve-aggressive"]),
+  queryConfidence: z.number().min(0).max(100),
+  confidenceLevel: confidenceLevelSchema,
+  fromCache: z.boolean(),
+  strategy: z.string().max(500),
+  reasoning: z.string().max(2000).optional(),
+  cacheHit: z
+    .object({
+      aiAnswerId: z.string(),
+      threadId: z.string(), // Empty for answer-cache hits
+      similarity: z.number().min(0).max(1),
+      source: z.enum(["endorsed", "answer-cache"]).optional(),
+    })
+    .optional(),
+});
+
+export type AIAnswerRouting = z.infer<typeof aiAnswerRoutingSchema>;
+
+/**
+ * Claim-by-claim check of an answer against its cited materials (mirrors
+ * AIAnswerVerification in lib/models/types.ts)
+ */
+export const aiAnswerVerificationSchema = z.object({
+  method: z.enum(["llm", "lexical"]),
+  claims: z
+    .array(
+      z.object({
+        text: z.string(),
+        start: z.number().int().min(0),
+        end: z.number().int().min(0),
+        citationIds: z.array(z.string()),
+        verdict: z.enum(["grounded", "ungrounded"]),
+        evidence: z.string().max(2000).optional(),
+      })
+    )
+    .max(200),
+  groundedCount: z.number().int().min(0),
+  reportedConfidenceScore: z.number().min(0).max(100),
+  verifiedAt: z.string(),
+});
+
+export type AIAnswerVerification = z.infer<typeof aiAnswerVerificationSchema>;
+
 /**
  * AI answer citation
  */
@@ -21,6 +69,7 @@ export const aiAnswerCitationSchema = z.object({
   excerpt: z.string(),
   relevanceScore: z.number().min(0).max(100),
   citationNumber: z.number().min(1),
+  verified: z.boolean().default(false), // Quoted excerpt found in the material
 });
 
 export type AIAnswerCitation = z.infer<typeof aiAnswerCitationSchema>;
@@ -46,7 +95,10 @@ export const aiAnswerSchema = z.object({
   courseId: z.string(),
   content: z.string(),
   confidenceLevel: confidenceLevelSchema,
+  confidenceScore: z.number().nullable().optional(), // 0-100 (null for answers saved before scores were)
   routing: z.string().nullable().optional(), // JSON string
+  verification: z.string().nullable().optional(), // JSON string
+  promptVersion: z.string().nullable().optional(), // Prompt that produced the answer
   endorsementCount: z.number().default(0),
   generatedAt: z.string(),
   // Computed fields
@@ -60,6 +112,35 @@ export const aiAnswerSchema = z.object({
 
 export type AIAnswer = z.infer<typeof aiAnswerSchema>;
 
+/**
+ * Save AI answer request body
+ *
+ * Citations carry the material IDs /api/answer resolved them to; they are
+ * checked against the course's materials again before saving.
+ */
+export const createAIAnswerBodySchema = z.object({
+  content: z.string().min(1, "Content is required"),
+  confidenceLevel: confidenceLevelSchema,
+  confidenceScore: z.number().min(0).max(100).nullable().optional(), // After verification
+  routing: aiAnswerRoutingSchema.nullable().optional(),
+  verification: aiAnswerVerificationSchema.nullable().optional(),
+  promptVersion: z.string().max(100).nullable().optional(), // e.g. "tutor.system@1+course@2"
+  citations: z
+    .array(
+      z.object({
+        materialId: z.string().min(1, "Material ID is required"),
+        source: z.string().optional(), // Cited title (repairs an unknown material ID)
+        excerpt: z.string(),
+        relevanceScore: z.number().min(0).max(100),
+        citationNumber: z.number().int().min(1),
+        verified: z.boolean().default(false),
+      })
+    )
+    .default([]),
+});
+
+export type CreateAIAnswerBody = z.infer<typeof createAIAnswerBodySchema>;
+
 /**
  * Endorse AI answer request body
  */
@@ -106,6 +187,18 @@ export const getAIAnswerIdParamsSchema = z.object({
   id: z.string().min(1, "AI answer ID is required"),
 });
 
+export const getCourseIdParamsSchema = z.object({
+  courseId: z.string().min(1, "Course ID is required"),
+});
+
+/**
+ * Endorsed AI answers query (answers with fewer endorsements are left out,
+ * unless an instructor endorsed them)
+ */
+export const endorsedAIAnswersQuerySchema = z.object({
+  minEndorsements: z.coerce.number().int().min(1).default(2),
+});
+
 /**
  * Response schemas
  */
@@ -113,6 +206,24 @@ export const getAIAnswerResponseSchema = z.object({
   aiAnswer: aiAnswerSchema.nullable(),
 });
 
+export const createAIAnswerResponseSchema = z.object({
+  aiAnswer: aiAnswerSchema,
+  rejectedCitations: z.number(), // Citations that matched no course material (not saved)
+});
+
+export const endorsedAIAnswersResponseSchema = z.object({
+  answers: z.array(
+    z.object({
+      thread: z.object({
+        id: z.string(),
+        title: z.string(),
+        content: z.string(),
+      }),
+      aiAnswer: aiAnswerSchema,
+    })
+  ),
+});
+
 export const endorseAIAnswerResponseSchema = aiAnswerSchema;
 
 export const bulkEndorseResponseSchema = bulkActionResultSchema;
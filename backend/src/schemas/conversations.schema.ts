@@ -11,6 +11,42 @@ import { z } from "zod";
  */
 export const messageRoleSchema = z.enum(["user", "assistant", "system"]);
 
+/**
+ * Course material referenced by an assistant message
+ */
+export const materialReferenceSchema = z.object({
+  materialId: z.string(),
+  type: z.string(),
+  title: z.string(),
+  excerpt: z.string(),
+  relevanceScore: z.number().min(0).max(100),
+  link: z.string().optional(),
+});
+
+export type MaterialReference = z.infer<typeof materialReferenceSchema>;
+
+/**
+ * Tool call made while generating an assistant message
+ */
+export const aiToolCallSchema = z.object({
+  toolCallId: z.string(),
+  toolName: z.string(),
+  input: z.unknown(),
+  output: z.unknown().optional(), // Absent if the tool failed
+  errorText: z.string().optional(),
+});
+
+export type AIToolCall = z.infer<typeof aiToolCallSchema>;
+
+/**
+ * Token usage of an assistant message (all steps of the turn)
+ */
+export const messageUsageSchema = z.object({
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  totalTokens: z.number().int().min(0),
+});
+
 /**
  * AI message object
  */
@@ -19,8 +55,11 @@ export const aiMessageSchema = z.object({
   conversationId: z.string(),
   role: messageRoleSchema,
   content: z.string(),
-  materialReferences: z.string().nullable().optional(), // JSON string
+  materialReferences: z.array(materialReferenceSchema).nullable().optional(),
   confidenceScore: z.number().nullable().optional(),
+  toolCalls: z.array(aiToolCallSchema).nullable().optional(),
+  usage: messageUsageSchema.nullable().optional(),
+  promptVersion: z.string().nullable().optional(), // Prompt that produced the reply (assistant messages)
   createdAt: z.string(),
 });
 
@@ -60,6 +99,29 @@ export const sendMessageBodySchema = z.object({
   content: z.string().min(1, "Content is required"),
 });
 
+/**
+ * Message of a chat turn (client-generated ID, so retries don't duplicate it)
+ */
+export const turnMessageSchema = z.object({
+  id: z.string().min(1, "Message ID is required"),
+  content: z.string(),
+  materialReferences: z.array(materialReferenceSchema).optional(),
+  toolCalls: z.array(aiToolCallSchema).optional(),
+  usage: messageUsageSchema.optional(),
+  promptVersion: z.string().max(100).optional(),
+});
+
+/**
+ * Save chat turn request body
+ */
+export const saveChatTurnBodySchema = z.object({
+  userId: z.string().min(1, "User ID is required"),
+  userMessage: turnMessageSchema.extend({
+    content: z.string().min(1, "Content is required"),
+  }),
+  assistantMessage: turnMessageSchema.optional(), // Absent if the model produced no text
+});
+
 /**
  * Convert to thread request body
  */
@@ -97,6 +159,10 @@ export const sendMessageResponseSchema = z.object({
   aiMessage: aiMessageSchema.nullable(),
 });
 
+export const saveChatTurnResponseSchema = z.object({
+  messages: z.array(aiMessageSchema), // The turn as stored (user message, assistant message)
+});
+
 export const convertToThreadResponseSchema = z.object({
   threadId: z.string(),
   aiAnswerId: z.string().nullable(),
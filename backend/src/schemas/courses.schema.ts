@@ -40,3 +40,68 @@ export const getCourseParamsSchema = z.object({
 });
 
 export type GetCourseParams = z.infer<typeof getCourseParamsSchema>;
+
+/**
+ * How much help the AI assistant gives on an assignment
+ * - hint-only: hints and guiding questions, no solutions
+ * - conceptual-only: explains the underlying concepts, nothing about the assignment's problems
+ * - unrestricted: answers normally
+ */
+export const integrityModeSchema = z.enum(["hint-only", "conceptual-only", "unrestricted"]);
+
+export type IntegrityMode = z.infer<typeof integrityModeSchema>;
+
+/**
+ * Assignment response schema
+ */
+export const assignmentSchema = z.object({
+  id: z.string(),
+  courseId: z.string(),
+  title: z.string(),
+  description: z.string(),
+  dueDate: z.string(),
+  status: z.string(), // 'upcoming' | 'active' | 'past'
+  integrityMode: integrityModeSchema,
+  questionCount: z.number(),
+  tenantId: z.string(),
+  createdAt: z.string(),
+});
+
+export type AssignmentResponse = z.infer<typeof assignmentSchema>;
+
+/**
+ * List course assignments response
+ */
+export const listAssignmentsResponseSchema = z.object({
+  items: z.array(assignmentSchema),
+});
+
+export type ListAssignmentsResponse = z.infer<typeof listAssignmentsResponseSchema>;
+
+/**
+ * Course prompt settings response schema
+ *
+ * - persona: replaces the assistant's default persona (null for the default)
+ * - policy: course policy added to the system prompt (null for none)
+ * - version: incremented on every change (0 when never set)
+ */
+export const coursePromptSettingsSchema = z.object({
+  courseId: z.string(),
+  persona: z.string().nullable(),
+  policy: z.string().nullable(),
+  version: z.number(),
+  updatedBy: z.string().nullable(),
+  updatedAt: z.string().nullable(),
+});
+
+export type CoursePromptSettingsResponse = z.infer<typeof coursePromptSettingsSchema>;
+
+/**
+ * Update course prompt settings request body (null restores the default)
+ */
+export const updateCoursePromptSettingsBodySchema = z.object({
+  persona: z.string().trim().max(2000).nullable(),
+  policy: z.string().trim().max(4000).nullable(),
+});
+
+export type UpdateCoursePromptSettingsBody = z.infer<typeof updateCoursePromptSettingsBodySchema>;
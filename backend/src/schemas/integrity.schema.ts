@@ -0,0 +1,77 @@
+/**
+ * Academic Integrity Schemas
+ *
+ * Zod validation schemas for assignment integrity modes and the log of
+ * attempts to get full solutions
+ */
+
+import { z } from "zod";
+import { integrityModeSchema } from "./courses.schema.js";
+
+/**
+ * Assignment ID params
+ */
+export const assignmentIdParamsSchema = z.object({
+  assignmentId: z.string().min(1, "Assignment ID is required"),
+});
+
+/**
+ * Update assignment integrity mode request body
+ */
+export const updateIntegrityModeBodySchema = z.object({
+  integrityMode: integrityModeSchema,
+});
+
+/**
+ * Record integrity event request body (one request for a full solution)
+ */
+export const recordIntegrityEventBodySchema = z.object({
+  courseId: z.string().min(1, "Course ID is required"),
+  assignmentId: z.string().min(1, "Assignment ID is required"),
+  userId: z.string().min(1).nullable(),
+  feature: z.enum(["chat", "answer"]),
+  mode: integrityModeSchema,
+  question: z.string().min(1).max(4000),
+  signals: z.array(z.string().max(200)).max(20), // Phrases that asked for a solution
+});
+
+/**
+ * Recorded integrity event
+ */
+export const integrityEventSchema = z.object({
+  id: z.string(),
+  courseId: z.string(),
+  assignmentId: z.string(),
+  userId: z.string().nullable(),
+  feature: z.enum(["chat", "answer"]),
+  mode: integrityModeSchema,
+  question: z.string(),
+  signals: z.array(z.string()),
+  reviewedBy: z.string().nullable(),
+  reviewedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type IntegrityEventResponse = z.infer<typeof integrityEventSchema>;
+
+/**
+ * Integrity event ID params
+ */
+export const integrityEventIdParamsSchema = z.object({
+  eventId: z.string().min(1, "Event ID is required"),
+});
+
+/**
+ * List integrity events query params (defaults: all managed courses, unreviewed only)
+ */
+export const listIntegrityEventsQuerySchema = z.object({
+  courseId: z.string().min(1).optional(),
+  status: z.enum(["unreviewed", "all"]).default("unreviewed"),
+});
+
+/**
+ * List integrity events response (newest first)
+ */
+export const listIntegrityEventsResponseSchema = z.object({
+  items: z.array(integrityEventSchema),
+});
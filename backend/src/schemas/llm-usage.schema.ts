@@ -0,0 +1,146 @@
+/**
+ * LLM Usage Schemas
+ *
+ * Zod validation schemas for the LLM usage ledger and course budgets
+ */
+
+import { z } from "zod";
+
+/**
+ * Feature an LLM call was made for
+ */
+export const llmFeatureSchema = z.enum(["chat", "answer", "summary", "restructure", "rerank"]);
+
+export type LLMFeature = z.infer<typeof llmFeatureSchema>;
+
+/**
+ * Record LLM usage request body (one LLM call)
+ */
+export const recordLLMUsageBodySchema = z.object({
+  userId: z.string().min(1).nullable(),
+  courseId: z.string().min(1).nullable(),
+  feature: llmFeatureSchema,
+  provider: z.string().min(1).max(50),
+  model: z.string().min(1).max(255),
+  inputTokens: z.number().int().min(0),
+  outputTokens: z.number().int().min(0),
+  totalTokens: z.number().int().min(0),
+  estimatedCost: z.number().min(0), // USD
+});
+
+/**
+ * Recorded LLM call
+ */
+export const llmUsageRecordSchema = z.object({
+  id: z.string(),
+  userId: z.string().nullable(),
+  courseId: z.string().nullable(),
+  feature: llmFeatureSchema,
+  provider: z.string(),
+  model: z.string(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  estimatedCost: z.number(),
+  createdAt: z.string(),
+});
+
+/**
+ * Course monthly budget status
+ * - monthlyBudget: USD per calendar month (UTC), null when the course has no budget
+ * - spent: estimated cost of the course's LLM calls since periodStart
+ * - exhausted: spent has reached the budget (LLM features fall back to templates)
+ */
+export const courseLLMBudgetSchema = z.object({
+  courseId: z.string(),
+  monthlyBudget: z.number().nullable(),
+  spent: z.number(),
+  remaining: z.number().nullable(),
+  exhausted: z.boolean(),
+  periodStart: z.string(),
+  updatedAt: z.string().nullable(),
+});
+
+/**
+ * Update course budget request body (null removes the budget)
+ */
+export const updateCourseLLMBudgetBodySchema = z.object({
+  monthlyBudget: z.number().min(0).max(1_000_000).nullable(),
+});
+
+/**
+ * Usage summary query params (defaults: all managed courses, last 30 days)
+ */
+export const llmUsageSummaryQuerySchema = z.object({
+  courseId: z.string().min(1).optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+/**
+ * Aggregated usage of a group of LLM calls
+ */
+const llmUsageTotalsSchema = z.object({
+  calls: z.number().int(),
+  inputTokens: z.number().int(),
+  outputTokens: z.number().int(),
+  totalTokens: z.number().int(),
+  estimatedCost: z.number(),
+});
+
+/**
+ * Usage summary response
+ */
+export const llmUsageSummaryResponseSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  totals: llmUsageTotalsSchema,
+  byDay: z.array(llmUsageTotalsSchema.extend({ date: z.string() })), // date: YYYY-MM-DD (UTC)
+  byCourse: z.array(llmUsageTotalsSchema.extend({ courseId: z.string().nullable() })),
+  byFeature: z.array(llmUsageTotalsSchema.extend({ feature: llmFeatureSchema })),
+  budgets: z.array(courseLLMBudgetSchema),
+});
+
+/**
+ * Circuit breaker state of an LLM provider
+ */
+export const llmCircuitStateSchema = z.enum(["closed", "open", "half-open"]);
+
+/**
+ * Health of one LLM provider in the frontend's model router
+ */
+export const llmProviderHealthSchema = z.object({
+  provider: z.string().min(1).max(50),
+  model: z.string().min(1).max(255),
+  priority: z.number().int().min(0), // Order in the failover chain (0 = primary)
+  state: llmCircuitStateSchema,
+  consecutiveFailures: z.number().int().min(0),
+  lastError: z.string().max(2000).nullable(),
+  lastFailureAt: z.string().datetime().nullable(),
+  lastSuccessAt: z.string().datetime().nullable(),
+  openUntil: z.string().datetime().nullable(),
+});
+
+export type LLMProviderHealth = z.infer<typeof llmProviderHealthSchema>;
+
+/**
+ * Report LLM provider health request body
+ */
+export const reportLLMHealthBodySchema = z.object({
+  providers: z.array(llmProviderHealthSchema).max(10),
+});
+
+/**
+ * LLM health as shown by /api/v1/ready
+ * - healthy: every circuit closed (or half-open)
+ * - degraded: some providers skipped, calls fail over
+ * - down: every circuit open
+ * - unknown: nothing reported since the server started
+ */
+export const llmHealthSchema = z.object({
+  status: z.enum(["healthy", "degraded", "down", "unknown"]),
+  providers: z.array(llmProviderHealthSchema),
+  reportedAt: z.string().nullable(),
+});
+
+export type LLMHealth = z.infer<typeof llmHealthSchema>;
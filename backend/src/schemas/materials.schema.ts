@@ -66,6 +66,15 @@ export const searchMaterialsBodySchema = z.object({
   minRelevance: z.number().min(0).max(100).default(20),
 });
 
+/**
+ * Highlighted fragment of a search result (ranges are [start, end) offsets in text)
+ */
+export const searchHighlightSchema = z.object({
+  field: z.enum(["title", "content"]),
+  text: z.string(),
+  ranges: z.array(z.tuple([z.number().int(), z.number().int()])),
+});
+
 /**
  * Course material search result
  */
@@ -74,6 +83,7 @@ export const courseMaterialSearchResultSchema = z.object({
   relevanceScore: z.number().min(0).max(100),
   matchedKeywords: z.array(z.string()),
   snippet: z.string(),
+  highlights: z.array(searchHighlightSchema),
 });
 
 /**
@@ -83,11 +93,25 @@ export const listMaterialsResponseSchema = z.object({
   items: z.array(courseMaterialSchema),
 });
 
+/**
+ * How the search query was rewritten before searching
+ */
+export const queryRewriteSchema = z.object({
+  corrections: z.array(z.object({ from: z.string(), to: z.string() })),
+  aliasExpansions: z.array(z.object({ alias: z.string(), term: z.string() })),
+  feedbackTerms: z.array(z.string()),
+});
+
 /**
  * Search materials response
  */
 export const searchMaterialsResponseSchema = z.object({
   results: z.array(courseMaterialSearchResultSchema),
+  searchParams: z.object({
+    query: z.string(),
+    rewrittenQuery: z.string(), // Query actually searched
+    rewrites: queryRewriteSchema,
+  }),
 });
 
 /**
@@ -96,3 +120,139 @@ export const searchMaterialsResponseSchema = z.object({
 export const getCourseIdParamsSchema = z.object({
   courseId: z.string().min(1, "Course ID is required"),
 });
+
+// ============================================================================
+// MATERIAL EMBEDDINGS (persistent vector store)
+// ============================================================================
+
+/**
+ * Embedding model identifier (embedding provider ID, e.g. "local:Xenova/all-MiniLM-L6-v2")
+ */
+const embeddingModelSchema = z.string().min(1).max(255);
+
+/**
+ * Embedding vector
+ */
+const embeddingVectorSchema = z.array(z.number().finite()).min(1).max(4096);
+
+/**
+ * Material embeddings query params
+ */
+export const materialEmbeddingsQuerySchema = z.object({
+  model: embeddingModelSchema,
+});
+
+/**
+ * Material embedding params
+ * vectorId is a material ID, or "<materialId>#<chunkIndex>" for a passage
+ */
+export const materialEmbeddingParamsSchema = z.object({
+  courseId: z.string().min(1, "Course ID is required"),
+  vectorId: z.string().min(1, "Vector ID is required"),
+});
+
+/**
+ * Material embeddings status response
+ * - embedded: stored vector IDs (materials and passages)
+ * - missing: materials with no vector (never embedded, or changed since
+ *   they were embedded)
+ */
+export const materialEmbeddingsStatusResponseSchema = z.object({
+  model: z.string(),
+  embedded: z.array(z.string()),
+  missing: z.array(z.string()),
+});
+
+/**
+ * Single material embedding
+ */
+export const materialEmbeddingSchema = z.object({
+  id: z.string(),
+  materialId: z.string(),
+  chunkIndex: z.number().int().nullable(),
+  model: z.string(),
+  dimensions: z.number().int(),
+  vector: z.array(z.number()),
+  updatedAt: z.string(),
+});
+
+/**
+ * Upsert material embeddings request body
+ */
+export const upsertMaterialEmbeddingsBodySchema = z.object({
+  model: embeddingModelSchema,
+  items: z
+    .array(
+      z.object({
+        materialId: z.string().min(1),
+        chunkIndex: z.number().int().min(0).optional(), // Omit for a whole-material vector
+        vector: embeddingVectorSchema,
+      })
+    )
+    .min(1)
+    .max(200),
+});
+
+/**
+ * Upsert material embeddings response
+ */
+export const upsertMaterialEmbeddingsResponseSchema = z.object({
+  updated: z.number().int(),
+});
+
+/**
+ * Vector search request body
+ */
+export const searchMaterialEmbeddingsBodySchema = z.object({
+  model: embeddingModelSchema,
+  vector: embeddingVectorSchema,
+  limit: z.number().int().min(1).max(100).default(10),
+});
+
+/**
+ * Vector search response
+ */
+export const searchMaterialEmbeddingsResponseSchema = z.object({
+  results: z.array(
+    z.object({
+      id: z.string(),
+      materialId: z.string(),
+      chunkIndex: z.number().int().nullable(),
+      score: z.number(),
+    })
+  ),
+});
+
+// ============================================================================
+// SEARCH ALIASES (query rewriting)
+// ============================================================================
+
+/**
+ * Search alias: alternative forms of a canonical course term
+ */
+export const searchAliasSchema = z.object({
+  term: z.string().trim().min(1).max(255),
+  aliases: z.array(z.string().trim().min(1).max(255)).min(1).max(50),
+});
+
+/**
+ * Replace search aliases request body (the complete alias table)
+ */
+export const updateSearchAliasesBodySchema = z.object({
+  aliases: z
+    .array(searchAliasSchema)
+    .max(500)
+    .refine(
+      (aliases) => new Set(aliases.map((a) => a.term.toLowerCase())).size === aliases.length,
+      "Each term may only appear once"
+    ),
+});
+
+/**
+ * Course search alias table response
+ */
+export const searchAliasesResponseSchema = z.object({
+  courseId: z.string(),
+  aliases: z.array(searchAliasSchema),
+  updatedAt: z.string().nullable(),
+});
@@ -0,0 +1,101 @@
+/**
+ * Moderation Schemas
+ *
+ * Zod validation schemas for student content reports and the moderation queue
+ */
+
+import { z } from "zod";
+import { FLAG_REASONS } from "../utils/content-flags.js";
+
+/**
+ * Reported content kind
+ */
+export const flagTargetTypeSchema = z.enum(["thread", "post"]);
+
+/**
+ * Report (flag) request body
+ */
+export const flagContentBodySchema = z.object({
+  reason: z.enum(FLAG_REASONS),
+  details: z.string().max(1000).optional(),
+});
+
+/**
+ * Stored report
+ */
+export const contentFlagSchema = z.object({
+  id: z.string(),
+  courseId: z.string(),
+  threadId: z.string(),
+  targetType: flagTargetTypeSchema,
+  targetId: z.string(),
+  reporterId: z.string(),
+  reason: z.string(),
+  details: z.string().nullable(),
+  status: z.enum(["open", "resolved", "dismissed"]),
+  resolvedBy: z.string().nullable(),
+  resolvedAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type ContentFlagResponse = z.infer<typeof contentFlagSchema>;
+
+/**
+ * Report response (duplicate = the reporter already had an open report on this item)
+ */
+export const flagContentResponseSchema = z.object({
+  flag: contentFlagSchema,
+  reportCount: z.number(),
+  duplicate: z.boolean(),
+});
+
+/**
+ * Moderation queue query params
+ */
+export const moderationQueueQuerySchema = z.object({
+  courseId: z.string().min(1, "Course ID is required"),
+});
+
+/**
+ * Reported item with its open reports aggregated
+ */
+export const moderationQueueItemSchema = z.object({
+  targetType: flagTargetTypeSchema,
+  targetId: z.string(),
+  courseId: z.string(),
+  threadId: z.string(),
+  threadTitle: z.string(),
+  content: z.string(),
+  authorId: z.string().nullable(),
+  deletedAt: z.string().nullable(),
+  reportCount: z.number(),
+  severity: z.number(),
+  reasons: z.record(z.string(), z.number()),
+  firstReportedAt: z.string(),
+  lastReportedAt: z.string(),
+});
+
+/**
+ * Moderation queue response (most severe first)
+ */
+export const moderationQueueResponseSchema = z.object({
+  items: z.array(moderationQueueItemSchema),
+});
+
+/**
+ * Moderation queue item params
+ */
+export const moderationItemParamsSchema = z.object({
+  targetType: flagTargetTypeSchema,
+  targetId: z.string().min(1, "Target ID is required"),
+});
+
+/**
+ * Resolve/dismiss response
+ */
+export const closeReportsResponseSchema = z.object({
+  targetType: flagTargetTypeSchema,
+  targetId: z.string(),
+  status: z.enum(["resolved", "dismissed"]),
+  closedCount: z.number(),
+});
@@ -14,6 +14,10 @@ import { authorSchema } from "./threads.schema.js";
 export const postSchema = z.object({
   id: z.string(),
   threadId: z.string(),
+  parentPostId: z.string().nullable().optional(),
+  aiAnswerId: z.string().nullable().optional(),
+  depth: z.number().optional(),
+  replyCount: z.number().optional(),
   authorId: z.string(),
   content: z.string(),
   isInstructorAnswer: z.boolean(),
@@ -21,6 +25,12 @@ export const postSchema = z.object({
   createdAt: z.string(),
   updatedAt: z.string(),
   tenantId: z.string(),
+  editedAt: z.string().nullable().optional(),
+  editedBy: z.string().nullable().optional(),
+  deletedAt: z.string().nullable().optional(),
+  deletedBy: z.string().nullable().optional(),
+  deletionReason: z.string().nullable().optional(),
+  restoreExpiresAt: z.string().nullable().optional(),
   author: authorSchema,
 });
 
@@ -28,20 +38,52 @@ export type PostResponse = z.infer<typeof postSchema>;
 
 /**
  * Create post request
+ * parentPostId nests the post under another reply; aiAnswerId attaches it
+ * to the thread's AI answer as a comment (replies inherit it from their parent)
  */
 export const createPostSchema = z.object({
   threadId: z.string().min(1, "Thread ID is required"),
   content: z.string().min(1, "Content is required").max(10000, "Content too long"),
+  parentPostId: z.string().min(1).optional(),
+  aiAnswerId: z.string().min(1).optional(),
 });
 
 export type CreatePostInput = z.infer<typeof createPostSchema>;
 
+/**
+ * Update post request (author or course staff)
+ * Each change keeps the previous version as a revision
+ */
+export const updatePostSchema = z.object({
+  content: z.string().min(1, "Content is required").max(10000, "Content too long"),
+});
+
+export type UpdatePostInput = z.infer<typeof updatePostSchema>;
+
+/**
+ * Post ID params
+ */
+export const postIdParamsSchema = z.object({
+  id: z.string().min(1, "Post ID is required"),
+});
+
+export type PostIdParams = z.infer<typeof postIdParamsSchema>;
+
 /**
  * List posts query params
+ * Without a branch filter every post in the thread is listed; parentPostId
+ * lists a post's direct replies, aiAnswerId the top-level comments on the
+ * AI answer, and topLevel=true the top-level replies to the thread
  */
 export const listPostsQuerySchema = z.object({
   cursor: z.string().optional(),
   limit: z.coerce.number().min(1).max(100).default(20),
+  parentPostId: z.string().min(1).optional(),
+  aiAnswerId: z.string().min(1).optional(),
+  topLevel: z
+    .string()
+    .optional()
+    .transform((val) => val === "true"),
 });
 
 export type ListPostsQuery = z.infer<typeof listPostsQuerySchema>;
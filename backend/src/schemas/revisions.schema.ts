@@ -0,0 +1,42 @@
+/**
+ * Revisions Schemas (Zod)
+ *
+ * Validation schemas for thread and post revision history
+ */
+
+import { z } from "zod";
+
+/**
+ * Content revision response schema
+ * A prior version of an edited thread or post
+ */
+export const contentRevisionSchema = z.object({
+  id: z.string(),
+  targetType: z.enum(["thread", "post"]),
+  targetId: z.string(),
+  version: z.number(),
+  title: z.string().nullable(),
+  content: z.string(),
+  editedBy: z.string().nullable(),
+  editedAt: z.string(),
+  replacedBy: z.string(),
+  createdAt: z.string(),
+  editor: z
+    .object({
+      id: z.string(),
+      name: z.string(),
+      role: z.string(),
+    })
+    .nullable(),
+});
+
+export type ContentRevisionResponse = z.infer<typeof contentRevisionSchema>;
+
+/**
+ * List revisions response (oldest first; the current version is the thread/post itself)
+ */
+export const listRevisionsResponseSchema = z.object({
+  items: z.array(contentRevisionSchema),
+});
+
+export type ListRevisionsResponse = z.infer<typeof listRevisionsResponseSchema>;
@@ -5,6 +5,7 @@
  */
 
 import { z } from "zod";
+import { CONTENT_REMOVAL_REASONS } from "../utils/tombstones.js";
 
 /**
  * Author schema (embedded in thread responses)
@@ -28,6 +29,10 @@ export const threadSchema = z.object({
   title: z.string(),
   content: z.string(),
   status: z.string(),
+  acceptedAnswerType: z.enum(["post", "ai_answer"]).nullable().optional(),
+  acceptedAnswerId: z.string().nullable().optional(),
+  acceptedBy: z.string().nullable().optional(),
+  acceptedAt: z.string().nullable().optional(),
   views: z.number(),
   createdAt: z.string(),
   updatedAt: z.string(),
@@ -35,10 +40,38 @@ export const threadSchema = z.object({
   upvoteCount: z.number(),
   postCount: z.number(),
   hasAiAnswer: z.boolean(),
+  duplicatesOf: z.string().nullable().optional(),
+  mergedInto: z.string().nullable().optional(),
+  mergedFrom: z.array(z.string()).optional(),
+  editedAt: z.string().nullable().optional(),
+  editedBy: z.string().nullable().optional(),
+  deletedAt: z.string().nullable().optional(),
+  deletedBy: z.string().nullable().optional(),
+  deletionReason: z.string().nullable().optional(),
+  restoreExpiresAt: z.string().nullable().optional(),
 });
 
 export type ThreadResponse = z.infer<typeof threadSchema>;
 
+/**
+ * Redirect payload returned for threads that were merged into another thread
+ */
+export const threadRedirectSchema = z.object({
+  redirect: z.literal(true),
+  id: z.string(),
+  redirectTo: z.string(),
+  reason: z.literal("merged"),
+});
+
+export type ThreadRedirectResponse = z.infer<typeof threadRedirectSchema>;
+
+/**
+ * Get thread response (full thread, or redirect if merged)
+ */
+export const getThreadResponseSchema = z.union([threadSchema, threadRedirectSchema]);
+
+export type GetThreadResponse = z.infer<typeof getThreadResponseSchema>;
+
 /**
  * Create thread request
  */
@@ -50,6 +83,41 @@ export const createThreadSchema = z.object({
 
 export type CreateThreadInput = z.infer<typeof createThreadSchema>;
 
+/**
+ * Update thread request (author or course staff)
+ * Each change keeps the previous version as a revision
+ */
+export const updateThreadSchema = z
+  .object({
+    title: z.string().min(5, "Title must be at least 5 characters").max(200, "Title too long").optional(),
+    content: z.string().min(10, "Content must be at least 10 characters").optional(),
+  })
+  .refine((data) => data.title !== undefined || data.content !== undefined, {
+    message: "Title or content is required",
+  });
+
+export type UpdateThreadInput = z.infer<typeof updateThreadSchema>;
+
+/**
+ * Delete thread/post query params
+ * Staff give a removal reason; authors retracting their own content don't
+ */
+export const deleteContentQuerySchema = z.object({
+  reason: z.enum(CONTENT_REMOVAL_REASONS).optional(),
+});
+
+export type DeleteContentQuery = z.infer<typeof deleteContentQuerySchema>;
+
+/**
+ * Accept answer request (a post in the thread or its AI answer)
+ */
+export const acceptAnswerSchema = z.object({
+  targetType: z.enum(["post", "ai_answer"]),
+  targetId: z.string().min(1, "Target ID is required"),
+});
+
+export type AcceptAnswerInput = z.infer<typeof acceptAnswerSchema>;
+
 /**
  * List threads query params
  */
@@ -108,3 +176,94 @@ export const courseIdParamsSchema = z.object({
 });
 
 export type CourseIdParams = z.infer<typeof courseIdParamsSchema>;
+
+/**
+ * Merge threads request (instructor/TA only)
+ */
+export const mergeThreadsSchema = z.object({
+  sourceId: z.string().min(1, "Source thread ID is required"),
+  targetId: z.string().min(1, "Target thread ID is required"),
+});
+
+export type MergeThreadsInput = z.infer<typeof mergeThreadsSchema>;
+
+/**
+ * Thread merge record
+ */
+export const threadMergeSchema = z.object({
+  id: z.string(),
+  sourceThreadId: z.string(),
+  targetThreadId: z.string(),
+  mergedBy: z.string(),
+  movedPostCount: z.number(),
+  movedUpvoteCount: z.number(),
+  undoExpiresAt: z.string(),
+  undoneAt: z.string().nullable(),
+  createdAt: z.string(),
+});
+
+export type ThreadMergeResponse = z.infer<typeof threadMergeSchema>;
+
+/**
+ * Merge threads response
+ * Updated target thread plus the merge record (for undo)
+ */
+export const mergeThreadsResponseSchema = threadSchema.extend({
+  merge: threadMergeSchema,
+});
+
+export type MergeThreadsResponse = z.infer<typeof mergeThreadsResponseSchema>;
+
+/**
+ * Undo merge params
+ */
+export const undoMergeParamsSchema = z.object({
+  mergeId: z.string().min(1, "Merge ID is required"),
+});
+
+export type UndoMergeParams = z.infer<typeof undoMergeParamsSchema>;
+
+/**
+ * Undo merge response
+ */
+export const undoMergeResponseSchema = z.object({
+  success: z.boolean(),
+  merge: threadMergeSchema,
+  message: z.string(),
+});
+
+export type UndoMergeResponse = z.infer<typeof undoMergeResponseSchema>;
+
+/**
+ * Check duplicates request
+ */
+export const checkDuplicatesSchema = z.object({
+  title: z.string().min(1, "Title is required"),
+  content: z.string().default(""),
+  threshold: z.number().min(0).max(1).optional(),
+  limit: z.number().min(1).max(20).default(5),
+  excludeThreadId: z.string().optional(),
+});
+
+export type CheckDuplicatesInput = z.infer<typeof checkDuplicatesSchema>;
+
+/**
+ * Similar thread (duplicate candidate)
+ */
+export const similarThreadSchema = z.object({
+  thread: threadSchema,
+  similarity: z.number(),
+  similarityPercent: z.number(),
+  matchedTerms: z.array(z.string()),
+});
+
+export type SimilarThreadResponse = z.infer<typeof similarThreadSchema>;
+
+/**
+ * Check duplicates response (ranked by similarity)
+ */
+export const checkDuplicatesResponseSchema = z.object({
+  items: z.array(similarThreadSchema),
+});
+
+export type CheckDuplicatesResponse = z.infer<typeof checkDuplicatesResponseSchema>;
@@ -0,0 +1,220 @@
+/**
+ * BM25F Ranking
+ *
+ * Field-weighted BM25 over material title, keywords and content
+ * Used by the materials search endpoint and, through the @quokka/search
+ * alias, by the frontend retrievers (lib/retrieval/BM25Retriever.ts), so
+ * both rank materials the same way
+ */
+
+import { tokenize } from "./tokenize.ts";
+
+/**
+ * Material fields scored separately
+ */
+export type BM25Field = "title" | "keywords" | "content";
+
+/**
+ * Material fields the ranker reads
+ */
+export interface RankableMaterial {
+  id: string;
+  title: string;
+  content: string;
+  keywords: string[];
+}
+
+export interface BM25Options {
+  k1?: number; // Term frequency saturation (default: 1.5)
+  b?: number; // Length normalization (default: 0.75)
+  fieldWeights?: Record<BM25Field, number>; // Default: title 3, keywords 2, content 1
+}
+
+/**
+ * Ranked material with the query terms it contains
+ */
+export interface BM25Result<T extends RankableMaterial> {
+  material: T;
+  score: number;
+  matchedTerms: string[];
+}
+
+/**
+ * Per-field statistics of a material
+ */
+export interface FieldStats {
+  length: number;
+  termFrequencies: Map<string, number>;
+}
+
+/**
+ * Statistics of an indexed material
+ */
+export interface DocumentStats {
+  docId: string;
+  docLength: number; // All fields
+  termFrequencies: Map<string, number>; // All fields, unweighted
+  fields: Record<BM25Field, FieldStats>;
+}
+
+/**
+ * Statistics of the indexed materials
+ */
+export interface CorpusStats {
+  numDocuments: number;
+  avgDocLength: number;
+  avgFieldLengths: Record<BM25Field, number>;
+  documentFrequencies: Map<string, number>; // How many materials contain each term
+}
+
+/**
+ * Default BM25F field weights: a term in the title counts as much as three
+ * in the body, so a focused material beats a long one that mentions it
+ */
+export const DEFAULT_FIELD_WEIGHTS: Record<BM25Field, number> = {
+  title: 3,
+  keywords: 2,
+  content: 1,
+};
+
+const FIELDS: BM25Field[] = ["title", "keywords", "content"];
+
+/**
+ * BM25F index over a set of materials
+ *
+ * tf(t,D) = Σ_f w_f * f(t,D_f) / (1 - b + b * |D_f| / avgdl_f)
+ * score(D,Q) = Σ IDF(t) * tf(t,D) * (k1 + 1) / (tf(t,D) + k1)
+ * IDF(t) = log(1 + (N - df(t) + 0.5) / (df(t) + 0.5))
+ *
+ * The +1 in IDF keeps it positive for terms in most materials, so small
+ * courses (a handful of materials) still rank.
+ */
+export class BM25Index<T extends RankableMaterial> {
+  private indexed: Array<{ material: T; stats: DocumentStats }>;
+  private corpusStats: CorpusStats;
+  private k1: number;
+  private b: number;
+  private fieldWeights: Record<BM25Field, number>;
+
+  constructor(materials: T[], options: BM25Options = {}) {
+    this.k1 = options.k1 ?? 1.5;
+    this.b = options.b ?? 0.75;
+    this.fieldWeights = options.fieldWeights ?? DEFAULT_FIELD_WEIGHTS;
+
+    this.indexed = materials.map((material) => ({ material, stats: documentStats(material) }));
+
+    const numDocuments = materials.length;
+    const average = (length: (stats: DocumentStats) => number) =>
+      numDocuments > 0 ? this.indexed.reduce((sum, { stats }) => sum + length(stats), 0) / numDocuments : 0;
+
+    const documentFrequencies = new Map<string, number>();
+    for (const { stats } of this.indexed) {
+      for (const term of stats.termFrequencies.keys()) {
+        documentFrequencies.set(term, (documentFrequencies.get(term) ?? 0) + 1);
+      }
+    }
+
+    this.corpusStats = {
+      numDocuments,
+      avgDocLength: average((stats) => stats.docLength),
+      avgFieldLengths: {
+        title: average((stats) => stats.fields.title.length),
+        keywords: average((stats) => stats.fields.keywords.length),
+        content: average((stats) => stats.fields.content.length),
+      },
+      documentFrequencies,
+    };
+  }
+
+  /**
+   * Materials containing any query term, best first
+   */
+  search(query: string): BM25Result<T>[] {
+    const queryTerms = tokenize(query);
+
+    return this.indexed
+      .map(({ material, stats }) => {
+        let score = 0;
+        const matchedTerms: string[] = [];
+
+        for (const term of queryTerms) {
+          let termFreq = 0;
+          for (const field of FIELDS) {
+            const { length, termFrequencies } = stats.fields[field];
+            const fieldFreq = termFrequencies.get(term) ?? 0;
+            if (fieldFreq === 0) continue;
+
+            const avgLength = this.corpusStats.avgFieldLengths[field] || 1;
+            termFreq += (this.fieldWeights[field] * fieldFreq) / (1 - this.b + this.b * (length / avgLength));
+          }
+          if (termFreq === 0) continue;
+
+          matchedTerms.push(term);
+          score += this.idf(term) * ((termFreq * (this.k1 + 1)) / (termFreq + this.k1));
+        }
+
+        return { material, score, matchedTerms };
+      })
+      .filter((result) => result.score > 0)
+      .sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Upper bound of the score of a query (every term's frequency saturated)
+   */
+  maxScore(query: string): number {
+    return Array.from(new Set(tokenize(query))).reduce(
+      (sum, term) => sum + this.idf(term) * (this.k1 + 1),
+      0
+    );
+  }
+
+  /**
+   * Corpus statistics (for debugging/monitoring)
+   */
+  getCorpusStats(): CorpusStats {
+    return this.corpusStats;
+  }
+
+  /**
+   * Statistics of one material (for debugging/monitoring)
+   */
+  getDocumentStats(materialId: string): DocumentStats | undefined {
+    return this.indexed.find(({ material }) => material.id === materialId)?.stats;
+  }
+
+  private idf(term: string): number {
+    const n = this.corpusStats.numDocuments;
+    const df = this.corpusStats.documentFrequencies.get(term) ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  }
+}
+
+function documentStats(material: RankableMaterial): DocumentStats {
+  const fields: Record<BM25Field, FieldStats> = {
+    title: fieldStats(material.title),
+    keywords: fieldStats(material.keywords.join(" ")),
+    content: fieldStats(material.content),
+  };
+
+  // Combined term frequencies (for matching and debugging)
+  const termFrequencies = new Map<string, number>();
+  let docLength = 0;
+  for (const field of FIELDS) {
+    docLength += fields[field].length;
+    for (const [term, count] of fields[field].termFrequencies) {
+      termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + count);
+    }
+  }
+
+  return { docId: material.id, docLength, termFrequencies, fields };
+}
+
+function fieldStats(text: string): FieldStats {
+  const tokens = tokenize(text);
+  const termFrequencies = new Map<string, number>();
+  for (const token of tokens) {
+    termFrequencies.set(token, (termFrequencies.get(token) ?? 0) + 1);
+  }
+  return { length: tokens.length, termFrequencies };
+}
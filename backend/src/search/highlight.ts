@@ -0,0 +1,155 @@
+/**
+ * Search Highlighting
+ *
+ * Highlighted fragments covering every matched term of a search result
+ * Shared with the frontend's material search (lib/retrieval/MaterialSearch.ts)
+ */
+
+/**
+ * Fragment of a material field with the query matches marked
+ */
+export interface SearchHighlight {
+  field: "title" | "content";
+  text: string; // Fragment text ("..." where the field was cut)
+  ranges: Array<[number, number]>; // Matched term offsets within text, [start, end)
+}
+
+export interface HighlightOptions {
+  fragmentLength?: number; // Target fragment length in characters (default: 150)
+  maxFragments?: number; // Maximum content fragments (default: 5)
+}
+
+/**
+ * Characters of context kept before the first match of a fragment
+ */
+const FRAGMENT_CONTEXT = 50;
+
+/**
+ * Content fragment with the most distinct matched terms (earliest on ties)
+ */
+export function bestFragment(highlights: SearchHighlight[]): SearchHighlight | undefined {
+  const distinctTerms = (h: SearchHighlight) =>
+    new Set(h.ranges.map(([start, end]) => h.text.slice(start, end).toLowerCase())).size;
+
+  return highlights
+    .filter((h) => h.field === "content")
+    .reduce<SearchHighlight | undefined>(
+      (best, h) => (!best || distinctTerms(h) > distinctTerms(best) ? h : best),
+      undefined
+    );
+}
+
+/**
+ * Highlight matched terms in a material's title and content
+ */
+export function highlightMaterial(
+  material: { title: string; content: string },
+  terms: string[],
+  options?: HighlightOptions
+): SearchHighlight[] {
+  const titleRanges = findTermRanges(material.title, new Set(terms)).map(({ range }) => range);
+
+  return [
+    ...(titleRanges.length > 0
+      ? [{ field: "title" as const, text: material.title, ranges: titleRanges }]
+      : []),
+    ...highlightText(material.content, terms, options).map((fragment) => ({
+      field: "content" as const,
+      ...fragment,
+    })),
+  ];
+}
+
+/**
+ * Cut text into fragments that together cover every matched term
+ *
+ * Fragments start a little before the first occurrence of a term not yet
+ * covered; overlapping fragments are merged. Every occurrence inside a
+ * fragment is marked, not just the one that opened it.
+ */
+export function highlightText(
+  text: string,
+  terms: string[],
+  options: HighlightOptions = {}
+): Array<Omit<SearchHighlight, "field">> {
+  const { fragmentLength = 150, maxFragments = 5 } = options;
+  const matches = findTermRanges(text, new Set(terms));
+  if (matches.length === 0) return [];
+
+  // Pick fragment windows
+  const windows: Array<{ start: number; end: number }> = [];
+  const covered = new Set<string>();
+
+  for (const match of matches) {
+    if (covered.has(match.term)) continue;
+    if (windows.length >= maxFragments) break;
+
+    const start = wordStart(text, Math.max(0, match.range[0] - FRAGMENT_CONTEXT), match.range[0]);
+    const end = wordEnd(text, Math.min(text.length, start + fragmentLength), match.range[1]);
+
+    const previous = windows[windows.length - 1];
+    if (previous && start <= previous.end) {
+      previous.end = Math.max(previous.end, end);
+    } else {
+      windows.push({ start, end });
+    }
+
+    const window = windows[windows.length - 1];
+    for (const other of matches) {
+      if (other.range[0] >= window.start && other.range[1] <= window.end) {
+        covered.add(other.term);
+      }
+    }
+  }
+
+  // Build fragments with ranges relative to the fragment text
+  return windows.map(({ start, end }) => {
+    const prefix = start > 0 ? "..." : "";
+    const suffix = end < text.length ? "..." : "";
+    const offset = prefix.length - start;
+
+    return {
+      text: prefix + text.slice(start, end) + suffix,
+      ranges: matches
+        .filter(({ range }) => range[0] >= start && range[1] <= end)
+        .map(({ range }) => [range[0] + offset, range[1] + offset] as [number, number]),
+    };
+  });
+}
+
+/**
+ * Occurrences of the terms as whole words (case-insensitive), in text order
+ */
+function findTermRanges(
+  text: string,
+  terms: Set<string>
+): Array<{ term: string; range: [number, number] }> {
+  const matches: Array<{ term: string; range: [number, number] }> = [];
+
+  for (const word of text.matchAll(/\w+/g)) {
+    const term = word[0].toLowerCase();
+    if (terms.has(term)) {
+      matches.push({ term, range: [word.index!, word.index! + word[0].length] });
+    }
+  }
+
+  return matches;
+}
+
+/**
+ * Move a fragment start forward to the beginning of a word, at most to limit
+ */
+function wordStart(text: string, index: number, limit: number): number {
+  if (index === 0) return 0;
+  const space = text.slice(index, limit).search(/\s/);
+  return space === -1 ? limit : index + space + 1;
+}
+
+/**
+ * Move a fragment end back to the end of a word, at least to floor
+ */
+function wordEnd(text: string, index: number, floor: number): number {
+  if (index >= text.length) return text.length;
+  const space = text.lastIndexOf(" ", index);
+  return Math.max(space, floor);
+}
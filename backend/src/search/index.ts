@@ -0,0 +1,15 @@
+/**
+ * Search Module
+ *
+ * Exports query rewriting, BM25F ranking and highlighting for material search
+ *
+ * Shared with the frontend through the @quokka/search path alias (see the
+ * root tsconfig.json), so imports inside this directory use .ts extensions:
+ * the Next.js bundler resolves them as written, and the backend build
+ * rewrites them to .js (rewriteRelativeImportExtensions).
+ */
+
+export * from "./query-rewriter.ts";
+export * from "./bm25.ts";
+export * from "./highlight.ts";
+export * from "./material-search.ts";
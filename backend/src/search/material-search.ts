@@ -0,0 +1,71 @@
+/**
+ * Material Search
+ *
+ * BM25F ranking with highlighted matches, as returned by the materials
+ * search endpoint and by the frontend's searchMaterials
+ */
+
+import { BM25Index, type BM25Field, type RankableMaterial } from "./bm25.ts";
+import { bestFragment, highlightMaterial, type SearchHighlight } from "./highlight.ts";
+
+export interface RankMaterialsOptions {
+  limit?: number; // Maximum results (default: 20)
+  minRelevance?: number; // Minimum relevance 0-100 (default: 20)
+  fieldWeights?: Record<BM25Field, number>; // Default: title 3, keywords 2, content 1
+}
+
+/**
+ * Search result with its highlighted matches
+ */
+export interface RankedMaterial<T extends RankableMaterial> {
+  material: T;
+  relevanceScore: number; // 0-100
+  matchedKeywords: string[];
+  snippet: string; // Content fragment with the most matched terms
+  highlights: SearchHighlight[];
+}
+
+/**
+ * Length of the snippet of a material whose content has no match
+ */
+const SNIPPET_LENGTH = 150;
+
+/**
+ * Rank materials for a query, best first
+ *
+ * Relevance is the BM25F score as a share of the highest score the query
+ * can reach (every term's frequency saturated); results carry highlighted
+ * fragments for every matched term.
+ */
+export function rankMaterials<T extends RankableMaterial>(
+  materials: T[],
+  query: string,
+  options: RankMaterialsOptions = {}
+): RankedMaterial<T>[] {
+  const { limit = 20, minRelevance = 20, fieldWeights } = options;
+  if (materials.length === 0) return [];
+
+  const index = new BM25Index(materials, { fieldWeights });
+  const maxScore = index.maxScore(query);
+  if (maxScore <= 0) return [];
+
+  return index
+    .search(query)
+    .map(({ material, score, matchedTerms }) => ({
+      material,
+      relevanceScore: Math.round((score / maxScore) * 100),
+      matchedKeywords: matchedTerms,
+    }))
+    .filter((result) => result.relevanceScore >= minRelevance)
+    .slice(0, limit)
+    .map((result) => {
+      const highlights = highlightMaterial(result.material, result.matchedKeywords);
+      const snippet = bestFragment(highlights)?.text ?? truncate(result.material.content, SNIPPET_LENGTH);
+
+      return { ...result, snippet, highlights };
+    });
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.slice(0, maxLength).trim() + (text.length > maxLength ? "..." : "");
+}
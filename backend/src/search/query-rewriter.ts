@@ -0,0 +1,319 @@
+/**
+ * Query Rewriter
+ *
+ * Spelling correction, course aliases and pseudo-relevance feedback for
+ * material search queries
+ * Used by the materials search endpoint and, through the @quokka/search
+ * alias, by kb_search and the frontend fallback (lib/retrieval/QueryRewriter.ts),
+ * so both rewrite a query the same way
+ */
+
+import { isStopWord, normalize, tokenize } from "./tokenize.ts";
+
+/**
+ * Search alias: alternative forms of a canonical course term
+ */
+export interface SearchAlias {
+  term: string; // Canonical term, as used in material keywords
+  aliases: string[];
+}
+
+/**
+ * How a query was rewritten
+ */
+export interface QueryRewrite {
+  original: string;
+  rewritten: string; // Query actually searched
+  corrections: Array<{ from: string; to: string }>;
+  aliasExpansions: Array<{ alias: string; term: string }>;
+  feedbackTerms: string[];
+}
+
+/**
+ * Material fields the rewriter reads
+ */
+export interface RewritableMaterial {
+  title: string;
+  content: string;
+  keywords: string[];
+}
+
+export interface QueryRewriterOptions {
+  spellCorrection?: boolean; // Correct unknown terms against the course vocabulary (default: true)
+  feedbackDocs?: number; // Top materials used for pseudo-relevance feedback (default: 3, 0 disables)
+  feedbackTerms?: number; // Keywords added by feedback (default: 3)
+}
+
+/**
+ * Feedback keywords must appear in at least this many of the top materials,
+ * so one off-topic hit can't steer the query
+ */
+const MIN_FEEDBACK_SUPPORT = 2;
+
+/**
+ * Feedback is skipped when the best material already contains this share
+ * of the query terms
+ */
+const FEEDBACK_MAX_COVERAGE = 0.5;
+
+interface IndexedMaterial {
+  terms: Map<string, number>; // term -> count (title + content + keywords)
+  keywords: string[];
+}
+
+/**
+ * Query Rewriter
+ *
+ * Rewrites a student query before it is searched, in three steps:
+ *
+ * 1. Spelling correction: terms that don't occur in the course are replaced
+ *    by the closest course term (edit distance 1, or 2 for longer words),
+ *    preferring terms that follow the previous query word somewhere in the
+ *    materials ("base cse" -> "base case")
+ * 2. Aliases: the course's alias table adds the canonical term for any
+ *    alias in the query ("lhopital" -> "L'Hôpital's rule")
+ * 3. Pseudo-relevance feedback: keywords shared by the top-matching
+ *    materials are appended, so materials indexed under the canonical term
+ *    are found even when the student used different words
+ *
+ * Rewriting is deterministic and cheap (no model calls). The result records
+ * every change so callers can show the student what was actually searched.
+ */
+export class QueryRewriter {
+  private materials: IndexedMaterial[];
+  private docFreq = new Map<string, number>();
+  private bigrams = new Set<string>();
+  private aliases: SearchAlias[];
+  private options: Required<QueryRewriterOptions>;
+
+  /**
+   * @param materials - Materials whose vocabulary the query is corrected against
+   * @param aliases - Course alias table
+   */
+  constructor(materials: RewritableMaterial[], aliases: SearchAlias[] = [], options: QueryRewriterOptions = {}) {
+    this.aliases = aliases;
+    this.options = {
+      spellCorrection: options.spellCorrection ?? true,
+      feedbackDocs: options.feedbackDocs ?? 3,
+      feedbackTerms: options.feedbackTerms ?? 3,
+    };
+
+    this.materials = materials.map((material) => {
+      const tokens = tokenize(`${material.title} ${material.content}`);
+      const terms = new Map<string, number>();
+      for (const token of [...tokens, ...tokenize(material.keywords.join(" "))]) {
+        terms.set(token, (terms.get(token) ?? 0) + 1);
+      }
+      for (let i = 1; i < tokens.length; i++) {
+        this.bigrams.add(`${tokens[i - 1]} ${tokens[i]}`);
+      }
+      for (const term of terms.keys()) {
+        this.docFreq.set(term, (this.docFreq.get(term) ?? 0) + 1);
+      }
+      return { terms, keywords: material.keywords };
+    });
+  }
+
+  /**
+   * Rewrite a query
+   */
+  rewrite(query: string): QueryRewrite {
+    // Alias matches on the raw query protect their words from "correction"
+    const protectedTerms = new Set(
+      this.findAliases(normalize(query)).flatMap(({ alias }) => tokenize(alias))
+    );
+
+    // 1. Spelling correction
+    const corrections: QueryRewrite["corrections"] = [];
+    let corrected = query;
+    if (this.options.spellCorrection) {
+      const words = normalize(query).split(" ").filter(Boolean);
+      words.forEach((word, i) => {
+        if (protectedTerms.has(word) || !this.isCorrectable(word)) return;
+
+        const replacement = this.correct(word, words[i - 1], words[i + 1]);
+        if (replacement && !corrections.some((c) => c.from === word)) {
+          corrections.push({ from: word, to: replacement });
+          corrected = corrected.replace(new RegExp(`\\b${escapeRegExp(word)}\\b`, "gi"), replacement);
+        }
+      });
+    }
+
+    // 2. Aliases
+    const queryTerms = new Set(tokenize(corrected));
+    const aliasExpansions = this.findAliases(normalize(corrected)).filter(
+      ({ term }) => !tokenize(term).every((t) => queryTerms.has(t))
+    );
+    const expanded = [corrected, ...uniqueTerms(aliasExpansions.map((e) => e.term))].join(" ");
+
+    // 3. Pseudo-relevance feedback
+    const feedbackTerms = this.feedback(expanded);
+
+    return {
+      original: query,
+      rewritten: [expanded, ...feedbackTerms].join(" ").trim(),
+      corrections,
+      aliasExpansions,
+      feedbackTerms,
+    };
+  }
+
+  /**
+   * Alias table entries whose alias occurs in the (normalized) query
+   */
+  private findAliases(normalizedQuery: string): QueryRewrite["aliasExpansions"] {
+    const padded = ` ${normalizedQuery} `;
+    const matches: QueryRewrite["aliasExpansions"] = [];
+
+    for (const entry of this.aliases) {
+      const alias = entry.aliases.find((a) => {
+        const normalized = normalize(a);
+        return normalized.length > 0 && padded.includes(` ${normalized} `);
+      });
+      if (alias) {
+        matches.push({ alias, term: entry.term });
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Unknown content words (numbers and very short words are left alone)
+   */
+  private isCorrectable(word: string): boolean {
+    return (
+      word.length >= 3 &&
+      /^[a-z]+$/.test(word) &&
+      !isStopWord(word) &&
+      !this.docFreq.has(word)
+    );
+  }
+
+  /**
+   * Closest course term, or null if nothing is close enough
+   *
+   * Ties on edit distance go to the term that forms a bigram with a
+   * neighbouring query word in the materials, then to the most common term.
+   * Words of up to 4 letters are only corrected to such a bigram.
+   */
+  private correct(word: string, previous?: string, next?: string): string | null {
+    const maxDistance = word.length <= 5 ? 1 : 2;
+    let best: { term: string; distance: number; context: number; df: number } | null = null;
+
+    for (const [term, df] of this.docFreq) {
+      if (Math.abs(term.length - word.length) > maxDistance) continue;
+
+      const distance = editDistance(word, term, maxDistance);
+      if (distance > maxDistance) continue;
+
+      const context =
+        (previous && this.bigrams.has(`${previous} ${term}`) ? 1 : 0) +
+        (next && this.bigrams.has(`${term} ${next}`) ? 1 : 0);
+
+      if (
+        !best ||
+        distance < best.distance ||
+        (distance === best.distance && context > best.context) ||
+        (distance === best.distance && context === best.context && df > best.df)
+      ) {
+        best = { term, distance, context, df };
+      }
+    }
+
+    // Short words have many neighbours; only correct them in context
+    if (best && word.length <= 4 && best.context === 0) return null;
+
+    return best?.term ?? null;
+  }
+
+  /**
+   * Keywords shared by the materials that best match the query
+   */
+  private feedback(query: string): string[] {
+    if (this.options.feedbackDocs <= 0 || this.options.feedbackTerms <= 0) return [];
+
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    const n = this.materials.length;
+    const idf = (term: string) => Math.log(1 + n / (this.docFreq.get(term) ?? n));
+
+    // Rank materials by a plain TF-IDF match
+    const top = this.materials
+      .map((material) => ({
+        material,
+        score: queryTerms.reduce((sum, term) => {
+          const count = material.terms.get(term) ?? 0;
+          return count > 0 ? sum + (1 + Math.log(count)) * idf(term) : sum;
+        }, 0),
+      }))
+      .filter((doc) => doc.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.options.feedbackDocs);
+    if (top.length < MIN_FEEDBACK_SUPPORT) return [];
+
+    // Expansion only pays off on a vocabulary mismatch; when the best match
+    // already covers most of the query, extra terms just add noise
+    const coverage =
+      queryTerms.filter((term) => top[0].material.terms.has(term)).length / queryTerms.length;
+    if (coverage >= FEEDBACK_MAX_COVERAGE) return [];
+
+    // Weight keywords by the score of the materials listing them and by specificity
+    const candidates = new Map<string, { weight: number; support: number }>();
+    for (const { material, score } of top) {
+      for (const keyword of new Set(material.keywords.map((k) => k.toLowerCase()))) {
+        const keywordTerms = tokenize(keyword);
+        if (keywordTerms.length === 0 || keywordTerms.every((t) => queryTerms.includes(t))) continue;
+
+        const specificity = keywordTerms.reduce((sum, t) => sum + idf(t), 0) / keywordTerms.length;
+        const candidate = candidates.get(keyword) ?? { weight: 0, support: 0 };
+        candidate.weight += (score / top[0].score) * specificity;
+        candidate.support += 1;
+        candidates.set(keyword, candidate);
+      }
+    }
+
+    return Array.from(candidates.entries())
+      .filter(([, c]) => c.support >= MIN_FEEDBACK_SUPPORT)
+      .sort((a, b) => b[1].weight - a[1].weight)
+      .slice(0, this.options.feedbackTerms)
+      .map(([keyword]) => keyword);
+  }
+}
+
+function uniqueTerms(terms: string[]): string[] {
+  return Array.from(new Set(terms));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * giving up once every alignment exceeds maxDistance
+ */
+function editDistance(a: string, b: string, maxDistance: number): number {
+  let previousRow: number[] = [];
+  let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const beforePrevious = previousRow;
+    previousRow = row;
+    row = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previousRow[j] + 1, row[j - 1] + 1, previousRow[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      row[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) return maxDistance + 1;
+  }
+
+  return row[b.length];
+}
@@ -0,0 +1,41 @@
+/**
+ * Search Tokenizer
+ *
+ * Turns material text and queries into search terms, so ranking and query
+ * rewriting agree on what a term is
+ */
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
+  "been", "being", "have", "has", "had", "do", "does", "did", "will",
+  "would", "should", "could", "may", "might", "can", "this", "that",
+  "these", "those", "what", "which", "who", "when", "where", "why", "how",
+]);
+
+/**
+ * Whether a (normalized) word is too common to search for
+ */
+export function isStopWord(word: string): boolean {
+  return STOP_WORDS.has(word);
+}
+
+/**
+ * Lowercase, punctuation to spaces, single-spaced
+ */
+export function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Search terms of a text: normalized words of 2+ characters, stop words removed
+ */
+export function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(" ")
+    .filter((token) => token.length > 1 && !isStopWord(token));
+}
@@ -27,6 +27,9 @@ import { aiAnswersRoutes } from "./routes/v1/ai-answers.routes.js";
 import { conversationsRoutes } from "./routes/v1/conversations.routes.js";
 import { instructorRoutes } from "./routes/v1/instructor.routes.js";
 import { notificationsRoutes } from "./routes/v1/notifications.routes.js";
+import { llmUsageRoutes } from "./routes/v1/llm-usage.routes.js";
+import { integrityRoutes } from "./routes/v1/integrity.routes.js";
+import { moderationRoutes } from "./routes/v1/moderation.routes.js";
 
 // Server configuration
 const PORT = Number(process.env.PORT) || 3001;
@@ -163,6 +166,15 @@ await fastify.register(instructorRoutes, { prefix: "/api/v1" });
 // Notifications routes
 await fastify.register(notificationsRoutes, { prefix: "/api/v1" });
 
+// LLM usage routes
+await fastify.register(llmUsageRoutes, { prefix: "/api/v1" });
+
+// Academic integrity routes
+await fastify.register(integrityRoutes, { prefix: "/api/v1" });
+
+// Moderation routes (reports and moderation queue)
+await fastify.register(moderationRoutes, { prefix: "/api/v1" });
+
 // ============================================================================
 // GRACEFUL SHUTDOWN
 // ============================================================================
@@ -0,0 +1,8 @@
+/**
+ * Similarity Module
+ *
+ * Exports TF-IDF utilities and the duplicate detection index
+ */
+
+export * from "./tfidf.js";
+export * from "./similarity.index.js";
@@ -0,0 +1,295 @@
+/**
+ * Thread Similarity Index
+ *
+ * Per-course TF-IDF index for duplicate thread detection
+ * - Term counts are persisted in thread_term_vectors (one row per thread)
+ * - Each course is loaded into memory on first query (missing/stale vectors are backfilled)
+ * - Kept up to date on thread create/update/merge via indexThread/removeThread
+ * - Queries only score threads sharing at least one term (inverted index)
+ */
+
+import { threadTermVectorsRepository } from "../repositories/thread-term-vectors.repository.js";
+import { threadsRepository } from "../repositories/threads.repository.js";
+import type { Thread } from "../db/schema.js";
+import { tokenize, countTerms, tfidfVector, magnitude, type TermCounts } from "./tfidf.js";
+
+/**
+ * Default similarity threshold (matches frontend duplicate detection)
+ */
+export const DEFAULT_DUPLICATE_THRESHOLD = 0.8;
+
+/**
+ * Thread fields needed to index a thread
+ */
+export type IndexableThread = Pick<Thread, "id" | "courseId" | "title" | "content" | "tenantId">;
+
+/**
+ * Ranked duplicate candidate
+ */
+export interface DuplicateMatch {
+  threadId: string;
+  similarity: number; // 0-1 cosine similarity
+  matchedTerms: string[]; // Shared terms, highest contribution first
+}
+
+export interface FindSimilarOptions {
+  threshold?: number;
+  limit?: number;
+  excludeThreadIds?: string[];
+}
+
+interface IndexedDocument {
+  counts: TermCounts;
+  tokenCount: number;
+}
+
+interface CourseIndex {
+  docs: Map<string, IndexedDocument>;
+  docFreq: Map<string, number>; // term -> number of threads containing it
+  postings: Map<string, Set<string>>; // term -> thread IDs
+}
+
+const MAX_MATCHED_TERMS = 10;
+
+function threadText(thread: Pick<Thread, "title" | "content">): string {
+  return `${thread.title} ${thread.content}`;
+}
+
+export class ThreadSimilarityIndex {
+  private courses = new Map<string, CourseIndex>();
+  private loading = new Map<string, Promise<CourseIndex>>();
+
+  /**
+   * Find threads in a course similar to the given text
+   * Results are sorted by similarity (descending)
+   */
+  async findSimilar(
+    courseId: string,
+    text: string,
+    options: FindSimilarOptions = {}
+  ): Promise<DuplicateMatch[]> {
+    const {
+      threshold = DEFAULT_DUPLICATE_THRESHOLD,
+      limit = 5,
+      excludeThreadIds = [],
+    } = options;
+
+    const queryTokens = tokenize(text);
+    if (queryTokens.length === 0) {
+      return [];
+    }
+
+    const index = await this.getCourseIndex(courseId);
+    const queryCounts = countTerms(queryTokens);
+
+    // IDF over the course corpus plus the query itself
+    const totalDocs = index.docs.size + 1;
+    const idf = (term: string) => {
+      const df = (index.docFreq.get(term) || 0) + (queryCounts.has(term) ? 1 : 0);
+      return df > 0 ? Math.log(totalDocs / df) : 0;
+    };
+
+    const queryVector = tfidfVector(queryCounts, queryTokens.length, idf);
+    const queryMagnitude = magnitude(queryVector);
+    if (queryMagnitude === 0) {
+      return [];
+    }
+
+    // Candidate threads share at least one query term
+    const excluded = new Set(excludeThreadIds);
+    const candidates = new Set<string>();
+    queryCounts.forEach((_count, term) => {
+      index.postings.get(term)?.forEach((threadId) => {
+        if (!excluded.has(threadId)) candidates.add(threadId);
+      });
+    });
+
+    const matches: DuplicateMatch[] = [];
+    candidates.forEach((threadId) => {
+      const doc = index.docs.get(threadId);
+      if (!doc) return;
+
+      const docVector = tfidfVector(doc.counts, doc.tokenCount, idf);
+      const docMagnitude = magnitude(docVector);
+      if (docMagnitude === 0) return;
+
+      const contributions: Array<[string, number]> = [];
+      let dot = 0;
+      queryVector.forEach((queryWeight, term) => {
+        const product = queryWeight * (docVector.get(term) || 0);
+        if (product > 0) {
+          dot += product;
+          contributions.push([term, product]);
+        }
+      });
+
+      const similarity = dot / (queryMagnitude * docMagnitude);
+      if (similarity >= threshold) {
+        matches.push({
+          threadId,
+          similarity,
+          matchedTerms: contributions
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, MAX_MATCHED_TERMS)
+            .map(([term]) => term),
+        });
+      }
+    });
+
+    return matches.sort((a, b) => b.similarity - a.similarity).slice(0, limit);
+  }
+
+  /**
+   * Add or re-index a thread (on create/update, or when a merge is undone)
+   */
+  async indexThread(thread: IndexableThread): Promise<void> {
+    const doc = this.buildDocument(thread);
+
+    await threadTermVectorsRepository.upsert({
+      threadId: thread.id,
+      courseId: thread.courseId,
+      termCounts: Object.fromEntries(doc.counts),
+      tokenCount: doc.tokenCount,
+      tenantId: thread.tenantId,
+    });
+
+    // Only update in-memory state for courses that are already loaded;
+    // other courses pick the vector up on first load
+    const index = this.courses.get(thread.courseId);
+    if (index) {
+      this.removeDocument(index, thread.id);
+      this.addDocument(index, thread.id, doc);
+    }
+  }
+
+  /**
+   * Remove a thread from the index (merged away or deleted)
+   */
+  async removeThread(threadId: string, courseId: string): Promise<void> {
+    await threadTermVectorsRepository.deleteByThread(threadId);
+
+    const index = this.courses.get(courseId);
+    if (index) {
+      this.removeDocument(index, threadId);
+    }
+  }
+
+  /**
+   * Drop in-memory state (next query reloads from the database)
+   */
+  invalidate(courseId?: string): void {
+    if (courseId) {
+      this.courses.delete(courseId);
+    } else {
+      this.courses.clear();
+    }
+  }
+
+  /**
+   * Get the in-memory index for a course, loading it on first use
+   */
+  private async getCourseIndex(courseId: string): Promise<CourseIndex> {
+    const cached = this.courses.get(courseId);
+    if (cached) return cached;
+
+    // Share a single load between concurrent requests
+    let pending = this.loading.get(courseId);
+    if (!pending) {
+      pending = this.loadCourse(courseId).finally(() => {
+        this.loading.delete(courseId);
+      });
+      this.loading.set(courseId, pending);
+    }
+
+    return pending;
+  }
+
+  /**
+   * Load persisted vectors for a course, backfilling missing or stale ones
+   */
+  private async loadCourse(courseId: string): Promise<CourseIndex> {
+    const [vectors, activeThreads] = await Promise.all([
+      threadTermVectorsRepository.findByCourse(courseId),
+      threadsRepository.findActiveByCourse(courseId),
+    ]);
+
+    const vectorsByThread = new Map(vectors.map((v) => [v.threadId, v]));
+    const index: CourseIndex = {
+      docs: new Map(),
+      docFreq: new Map(),
+      postings: new Map(),
+    };
+
+    for (const thread of activeThreads) {
+      const vector = vectorsByThread.get(thread.id);
+      vectorsByThread.delete(thread.id);
+
+      if (vector && vector.updatedAt >= thread.updatedAt) {
+        const counts: TermCounts = new Map(Object.entries(JSON.parse(vector.termCounts)));
+        this.addDocument(index, thread.id, { counts, tokenCount: vector.tokenCount });
+        continue;
+      }
+
+      // Missing or stale vector: recompute and persist
+      const doc = this.buildDocument(thread);
+      this.addDocument(index, thread.id, doc);
+      await threadTermVectorsRepository.upsert({
+        threadId: thread.id,
+        courseId,
+        termCounts: Object.fromEntries(doc.counts),
+        tokenCount: doc.tokenCount,
+        tenantId: thread.tenantId,
+      });
+    }
+
+    // Vectors left over belong to threads that were merged away or removed
+    for (const orphan of vectorsByThread.values()) {
+      await threadTermVectorsRepository.deleteByThread(orphan.threadId);
+    }
+
+    this.courses.set(courseId, index);
+    return index;
+  }
+
+  private buildDocument(thread: Pick<Thread, "title" | "content">): IndexedDocument {
+    const tokens = tokenize(threadText(thread));
+    return { counts: countTerms(tokens), tokenCount: tokens.length };
+  }
+
+  private addDocument(index: CourseIndex, threadId: string, doc: IndexedDocument): void {
+    index.docs.set(threadId, doc);
+    doc.counts.forEach((_count, term) => {
+      index.docFreq.set(term, (index.docFreq.get(term) || 0) + 1);
+      let posting = index.postings.get(term);
+      if (!posting) {
+        posting = new Set();
+        index.postings.set(term, posting);
+      }
+      posting.add(threadId);
+    });
+  }
+
+  private removeDocument(index: CourseIndex, threadId: string): void {
+    const doc = index.docs.get(threadId);
+    if (!doc) return;
+
+    index.docs.delete(threadId);
+    doc.counts.forEach((_count, term) => {
+      const df = (index.docFreq.get(term) || 1) - 1;
+      if (df > 0) {
+        index.docFreq.set(term, df);
+      } else {
+        index.docFreq.delete(term);
+      }
+
+      const posting = index.postings.get(term);
+      posting?.delete(threadId);
+      if (posting && posting.size === 0) {
+        index.postings.delete(term);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const threadSimilarityIndex = new ThreadSimilarityIndex();
@@ -0,0 +1,76 @@
+/**
+ * TF-IDF Utilities
+ *
+ * Tokenization and vector math shared by the duplicate detection index
+ * Mirrors lib/utils/similarity.ts on the frontend so scores (and the 0.8
+ * threshold) mean the same thing on both sides
+ */
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
+  "been", "being", "have", "has", "had", "do", "does", "did", "will",
+  "would", "should", "could", "may", "might", "can", "this", "that",
+  "these", "those", "what", "which", "who", "when", "where", "why", "how",
+]);
+
+/**
+ * Term counts for a single document
+ */
+export type TermCounts = Map<string, number>;
+
+/**
+ * Tokenize text into normalized words
+ * - Lowercase
+ * - Remove punctuation
+ * - Filter out common stop words
+ * - Keep words with 3+ characters
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length >= 3 && !STOP_WORDS.has(word));
+}
+
+/**
+ * Count occurrences of each token
+ */
+export function countTerms(tokens: string[]): TermCounts {
+  const counts: TermCounts = new Map();
+  for (const token of tokens) {
+    counts.set(token, (counts.get(token) || 0) + 1);
+  }
+  return counts;
+}
+
+/**
+ * Build a TF-IDF vector from term counts
+ * TF(term) = count / total tokens, IDF supplied by caller
+ */
+export function tfidfVector(
+  counts: TermCounts,
+  tokenCount: number,
+  idf: (term: string) => number
+): Map<string, number> {
+  const vector = new Map<string, number>();
+  if (tokenCount === 0) return vector;
+
+  counts.forEach((count, term) => {
+    vector.set(term, (count / tokenCount) * idf(term));
+  });
+
+  return vector;
+}
+
+/**
+ * Euclidean norm of a sparse vector
+ */
+export function magnitude(vector: Map<string, number>): number {
+  let sum = 0;
+  vector.forEach((value) => {
+    sum += value * value;
+  });
+  return Math.sqrt(sum);
+}
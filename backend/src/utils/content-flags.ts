@@ -0,0 +1,34 @@
+/**
+ * Content Flags
+ *
+ * Reason categories students can report threads and posts for, and how
+ * severe each one is when ordering the moderation queue.
+ */
+
+/**
+ * Reasons a student can report content for
+ */
+export const FLAG_REASONS = [
+  "harassment",
+  "inappropriate",
+  "academic-integrity",
+  "incorrect",
+  "spam",
+  "off-topic",
+  "other",
+] as const;
+
+export type FlagReason = (typeof FLAG_REASONS)[number];
+
+/**
+ * Severity of each reason (higher = reviewed first)
+ */
+export const FLAG_REASON_SEVERITY: Record<FlagReason, number> = {
+  harassment: 4,
+  inappropriate: 3,
+  "academic-integrity": 3,
+  incorrect: 2,
+  spam: 2,
+  "off-topic": 1,
+  other: 1,
+};
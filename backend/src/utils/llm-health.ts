@@ -0,0 +1,39 @@
+/**
+ * LLM Provider Health
+ *
+ * Last health report of the frontend's model router, kept in memory (it
+ * describes the running frontend, so it isn't persisted). Shown by
+ * GET /api/v1/ready.
+ */
+
+import type { LLMHealth, LLMProviderHealth } from "../schemas/llm-usage.schema.js";
+
+let lastReport: { providers: LLMProviderHealth[]; reportedAt: Date } | null = null;
+
+/**
+ * Replace the reported provider health
+ */
+export function reportLLMHealth(providers: LLMProviderHealth[]): void {
+  lastReport = {
+    providers: [...providers].sort((a, b) => a.priority - b.priority),
+    reportedAt: new Date(),
+  };
+}
+
+/**
+ * Overall LLM health from the last report
+ */
+export function getLLMHealth(): LLMHealth {
+  if (!lastReport || lastReport.providers.length === 0) {
+    return { status: "unknown", providers: [], reportedAt: null };
+  }
+
+  const { providers, reportedAt } = lastReport;
+  const openCount = providers.filter((provider) => provider.state === "open").length;
+
+  return {
+    status: openCount === 0 ? "healthy" : openCount < providers.length ? "degraded" : "down",
+    providers,
+    reportedAt: reportedAt.toISOString(),
+  };
+}
@@ -0,0 +1,97 @@
+/**
+ * Tombstones
+ *
+ * Soft deletion of threads and posts. Deleted content stays in the
+ * database (so staff can restore it for a while) but is served as a
+ * tombstone: title/content blanked, with who removed it and why.
+ */
+
+import { BadRequestError, ForbiddenError } from "./errors.js";
+
+/**
+ * How long deleted content can be restored by course staff
+ */
+export const CONTENT_RESTORE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Reasons a moderator can give for removing content
+ */
+export const CONTENT_REMOVAL_REASONS = [
+  "off-topic",
+  "duplicate",
+  "spam",
+  "inappropriate",
+  "academic-integrity",
+  "other",
+] as const;
+
+export type ContentRemovalReason = (typeof CONTENT_REMOVAL_REASONS)[number];
+
+/**
+ * Deletion reason recorded when authors retract their own content
+ */
+export const RETRACTED_BY_AUTHOR = "retracted";
+
+/**
+ * Decide the recorded deletion reason, or reject the deletion
+ *
+ * - Course staff remove content with a moderator reason
+ * - Authors retract their own content (no reason)
+ */
+export function resolveDeletionReason(options: {
+  isAuthor: boolean;
+  isStaff: boolean;
+  reason?: ContentRemovalReason;
+}): string {
+  const { isAuthor, isStaff, reason } = options;
+
+  if (reason) {
+    if (!isStaff) {
+      throw new ForbiddenError("Only course staff can remove content with a moderator reason");
+    }
+    return reason;
+  }
+  if (isAuthor) {
+    return RETRACTED_BY_AUTHOR;
+  }
+  if (isStaff) {
+    throw new BadRequestError("A removal reason is required");
+  }
+  throw new ForbiddenError("Only the author and course staff can delete this content");
+}
+
+/**
+ * Whether deleted content can still be restored
+ */
+export function isRestorable(deletedAt: Date, now: Date = new Date()): boolean {
+  return now.getTime() - deletedAt.getTime() <= CONTENT_RESTORE_WINDOW_MS;
+}
+
+/**
+ * Serve deleted content as a tombstone (blank title/content plus restore deadline)
+ */
+export function withTombstone<T extends { deletedAt: Date | null; content: string; title?: string }>(
+  item: T
+): T & { restoreExpiresAt: Date | null } {
+  if (!item.deletedAt) {
+    return { ...item, restoreExpiresAt: null };
+  }
+
+  return {
+    ...item,
+    ...(item.title !== undefined ? { title: "" } : {}),
+    content: "",
+    restoreExpiresAt: new Date(item.deletedAt.getTime() + CONTENT_RESTORE_WINDOW_MS),
+  };
+}
+
+/**
+ * Serve a revision of deleted content with its title/content blanked
+ */
+export function withRevisionTombstone<T extends { title: string | null; content: string }>(revision: T): T {
+  return {
+    ...revision,
+    title: revision.title === null ? null : "",
+    content: "",
+  };
+}
@@ -12,7 +12,8 @@ import { User, Sparkles } from "lucide-react";
 import { QDSResponse } from "./qds-response";
 import { QDSActions } from "./qds-actions";
 import { SourcesPanel } from "@/components/ai/sources-panel";
-import { parseCitations } from "@/lib/llm/utils/citations";
+import { parseCitations, resolveCitations } from "@/lib/llm/utils/citations";
+import { deriveMaterialReferences, extractToolCalls } from "@/lib/llm/utils/messages";
 import type { QDSMessageProps } from "./types";
 
 /**
@@ -44,6 +45,25 @@ function getMessageText(message: QDSMessageProps["message"]): string {
   return "";
 }
 
+/**
+ * Parse an assistant message's citations and resolve them against the
+ * materials its kb_search / kb_fetch calls returned
+ *
+ * Sources that match none of those materials are dropped. Messages
+ * without tool results (e.g., older stored messages) keep their citations,
+ * unverified and unlinked.
+ */
+function parseMessageCitations(message: QDSMessageProps["message"], text: string) {
+  const parsed = parseCitations(text);
+  const materials = deriveMaterialReferences(extractToolCalls(message)).map((reference) => ({
+    id: reference.materialId,
+    title: reference.title,
+    text: reference.excerpt,
+  }));
+
+  return materials.length > 0 ? resolveCitations(parsed, materials) : parsed;
+}
+
 export function QDSMessage({
   message,
   onCopy,
@@ -55,7 +75,7 @@ export function QDSMessage({
   // Parse citations for assistant messages
   const messageText = getMessageText(message);
   const parsed =
-    message.role === "assistant" ? parseCitations(messageText) : null;
+    message.role === "assistant" ? parseMessageCitations(message, messageText) : null;
 
   // Determine text to display (strip Sources section for assistant messages)
   const displayText =
@@ -118,6 +118,7 @@ export function SourcesPanel({
                     </p>
                     <p className="text-xs text-gray-600 dark:text-gray-400 mt-1">
                       {formatCitationType(citation.type)}
+                      {citation.section && <> &middot; {citation.section}</>}
                     </p>
                   </div>
 
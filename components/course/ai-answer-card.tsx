@@ -1,6 +1,8 @@
 "use client";
 
-import type { AIAnswer, Citation } from "@/lib/models/types";
+import type { ReactNode } from "react";
+import type { AIAnswer, AIAnswerVerification, Citation } from "@/lib/models/types";
+import { AlertTriangle } from "lucide-react";
 import { Card, CardHeader, CardContent, CardFooter } from "@/components/ui/card";
 import { AIBadge } from "@/components/ui/ai-badge";
 import { ConfidenceMeter } from "./confidence-meter";
@@ -22,6 +24,7 @@ export interface AIAnswerCardProps {
 export function AIAnswerCard({
   answer,
   currentUserEndorsed,
+  currentUserRole,
   onEndorse,
   onCitationClick,
   variant = "hero",
@@ -56,10 +59,37 @@ export function AIAnswerCard({
         {/* AI Answer Content */}
         <div className="prose prose-sm max-w-none dark:prose-invert">
           <div className="whitespace-pre-wrap text-base leading-relaxed">
-            {answer.content}
+            <AnswerContent content={answer.content} verification={answer.verification} />
           </div>
         </div>
 
+        {/* Verification (claims the cited materials don't support) */}
+        {answer.verification && answer.verification.groundedCount < answer.verification.claims.length && (
+          <p className="flex items-start gap-2 text-sm text-muted-foreground">
+            <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-warning" aria-hidden="true" />
+            <span>
+              {answer.verification.claims.length - answer.verification.groundedCount} of{" "}
+              {answer.verification.claims.length} statements are not supported by the cited course
+              materials (highlighted). Double-check them before relying on them.
+            </span>
+          </p>
+        )}
+
+        {/* Routing decision (instructors/TAs audit how the answer was built) */}
+        {answer.routing && currentUserRole && currentUserRole !== "student" && (
+          <details className="rounded-md border px-3 py-2 text-sm text-muted-foreground">
+            <summary className="cursor-pointer">
+              {answer.routing.fromCache
+                ? answer.routing.cacheHit?.source === "answer-cache"
+                  ? "Reused cached answer"
+                  : "Reused endorsed answer"
+                : answer.routing.strategy}
+              {" · "}query confidence {answer.routing.queryConfidence}/100
+            </summary>
+            {answer.routing.reasoning && <p className="mt-2">{answer.routing.reasoning}</p>}
+          </details>
+        )}
+
         {/* Citations */}
         {answer.citations.length > 0 && (
           <CitationList
@@ -90,3 +120,42 @@ export function AIAnswerCard({
     </Card>
   );
 }
+
+/**
+ * Answer text with unsupported claims highlighted
+ */
+function AnswerContent({
+  content,
+  verification,
+}: {
+  content: string;
+  verification?: AIAnswerVerification;
+}) {
+  const ungrounded = (verification?.claims ?? [])
+    .filter((claim) => claim.verdict === "ungrounded")
+    .sort((a, b) => a.start - b.start);
+
+  if (ungrounded.length === 0) {
+    return <>{content}</>;
+  }
+
+  const segments: ReactNode[] = [];
+  let cursor = 0;
+  for (const claim of ungrounded) {
+    if (claim.start < cursor) continue; // Overlapping claim (shouldn't happen)
+    segments.push(content.substring(cursor, claim.start));
+    segments.push(
+      <mark
+        key={claim.start}
+        className="bg-warning/10 text-inherit underline decoration-warning decoration-dotted underline-offset-4 rounded-sm"
+        title="Not supported by the cited course materials"
+      >
+        {content.substring(claim.start, claim.end)}
+      </mark>
+    );
+    cursor = claim.end;
+  }
+  segments.push(content.substring(cursor));
+
+  return <>{segments}</>;
+}
@@ -0,0 +1,94 @@
+"use client";
+
+import type { AIAnswerDraft } from "@/lib/models/types";
+import { Card, CardHeader, CardContent } from "@/components/ui/card";
+import { AIBadge } from "@/components/ui/ai-badge";
+import { ConfidenceMeter } from "./confidence-meter";
+import { CitationList } from "./citation-list";
+import { cn } from "@/lib/utils";
+
+export interface AIAnswerDraftCardProps {
+  /** Answer so far (from a streaming /api/answer response) */
+  draft: AIAnswerDraft | null;
+
+  /** Progress note (e.g. "Writing answer...") */
+  status?: string;
+
+  variant?: "hero" | "compact";
+  className?: string;
+}
+
+/**
+ * AIAnswerDraftCard - Quokka's answer while it is being generated
+ *
+ * Renders content, confidence and citations as they arrive. Citations are
+ * shown as the model wrote them; they are resolved and verified (and the
+ * confidence rechecked) once the answer is finished and AIAnswerCard takes
+ * over.
+ *
+ * @example
+ * ```tsx
+ * <AIAnswerDraftCard draft={previewMutation.draft} variant="compact" />
+ * ```
+ */
+export function AIAnswerDraftCard({
+  draft,
+  status = "Writing answer...",
+  variant = "hero",
+  className,
+}: AIAnswerDraftCardProps) {
+  const cardVariant = variant === "hero" ? "ai-hero" : "ai";
+  const level = draft?.confidenceLevel;
+  const score = draft?.confidenceScore;
+
+  return (
+    <Card
+      variant={cardVariant}
+      className={cn("ai-card", className)}
+      role="article"
+      aria-label="Quokka's answer (generating)"
+      aria-busy="true"
+    >
+      <CardHeader>
+        <div className="flex items-center gap-4 flex-wrap">
+          <AIBadge variant={variant === "hero" ? "large" : "default"} />
+          {level !== undefined && score !== undefined ? (
+            <ConfidenceMeter
+              level={level}
+              score={score}
+              size={variant === "hero" ? "lg" : "md"}
+              className="flex-1"
+            />
+          ) : (
+            <div className="flex-1 h-2 rounded-full bg-muted animate-pulse" aria-hidden="true" />
+          )}
+        </div>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {/* Answer so far */}
+        {draft?.content ? (
+          <div className="prose prose-sm max-w-none dark:prose-invert">
+            <div className="whitespace-pre-wrap text-base leading-relaxed">{draft.content}</div>
+          </div>
+        ) : (
+          <div className="space-y-2" aria-hidden="true">
+            <div className="h-4 bg-muted rounded animate-pulse"></div>
+            <div className="h-4 bg-muted rounded animate-pulse w-5/6"></div>
+            <div className="h-4 bg-muted rounded animate-pulse w-2/3"></div>
+          </div>
+        )}
+
+        <p className="flex items-center gap-2 text-sm text-muted-foreground" role="status" aria-live="polite">
+          <span className="animate-spin h-3 w-3 border-2 border-primary border-t-transparent rounded-full" aria-hidden="true"></span>
+          {status}
+        </p>
+
+        {/* Citations (not yet verified) */}
+        {draft && draft.citations.length > 0 && (
+          <CitationList citations={draft.citations} maxVisible={3} />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -9,8 +9,9 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { AIAnswerCard } from "./ai-answer-card";
+import { AIAnswerDraftCard } from "./ai-answer-draft-card";
 import { DuplicateWarning } from "./duplicate-warning";
-import type { SimilarThread } from "@/lib/models/types";
+import type { AIAnswerDraft, SimilarThread } from "@/lib/models/types";
 
 export interface AskQuestionModalProps {
   /** Course ID for the question */
@@ -46,6 +47,7 @@ export function AskQuestionModal({
   const [content, setContent] = useState("");
   const [tags, setTags] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [answerDraft, setAnswerDraft] = useState<AIAnswerDraft | null>(null);
   const preview = useDisclosure();
   const [similarThreads, setSimilarThreads] = useState<SimilarThread[]>([]);
   const duplicateWarning = useDisclosure();
@@ -75,9 +77,10 @@ export function AskQuestionModal({
     }
   }, [isOpen, preview.isOpen, duplicateWarning.isOpen]);
 
-  // Reset form when modal closes
+  // Reset form when modal closes (cancelling a preview being generated)
   const handleClose = () => {
-    if (!isSubmitting && !previewMutation.isPending && !checkDuplicates.isPending) {
+    if (!isSubmitting && !checkDuplicates.isPending) {
+      previewMutation.cancel();
       setTitle("");
       setContent("");
       setTags("");
@@ -88,34 +91,51 @@ export function AskQuestionModal({
     }
   };
 
+  // Editing the question makes the preview stale: stop generating it
+  const handleQuestionEdit = (setValue: (value: string) => void) => (value: string) => {
+    if (previewMutation.isPending || previewMutation.data) {
+      previewMutation.cancel();
+    }
+    setValue(value);
+  };
+
+  // The preview streams in, so open it right away
   const handlePreview = () => {
     if (!title.trim() || !content.trim()) return;
 
-    previewMutation.mutate(
-      {
-        threadId: "preview-temp",
-        courseId,
-        userId: user!.id,
-        title: title.trim(),
-        content: content.trim(),
-        tags: tags
-          .split(",")
-          .map((t) => t.trim())
-          .filter((t) => t.length > 0),
-      },
-      {
-        onSuccess: () => {
-          preview.onOpen();
-        },
-      }
-    );
+    preview.onOpen();
+    previewMutation.mutate({
+      threadId: "preview-temp",
+      courseId,
+      userId: user!.id,
+      title: title.trim(),
+      content: content.trim(),
+      tags: tags
+        .split(",")
+        .map((t) => t.trim())
+        .filter((t) => t.length > 0),
+    });
+  };
+
+  // Closing the preview mid-generation (to edit the question) cancels it
+  const handlePreviewOpenChange = (open: boolean) => {
+    if (!open && previewMutation.isPending) {
+      previewMutation.cancel();
+    }
+    preview.setIsOpen(open);
   };
 
   // Phase 3.2: Actually post the thread (after duplicate check or user proceeds anyway)
   const postThread = async () => {
     if (!title.trim() || !content.trim() || !user) return;
 
+    // The thread gets its own answer; don't keep generating the preview
+    if (previewMutation.isPending) {
+      previewMutation.cancel();
+    }
+
     setIsSubmitting(true);
+    setAnswerDraft(null);
     try {
       const newThread = await createThreadMutation.mutateAsync({
         input: {
@@ -128,9 +148,12 @@ export function AskQuestionModal({
             .filter((t) => t.length > 0),
         },
         authorId: user.id,
+        aiAnswerOptions: { onPartial: setAnswerDraft },
       });
 
       // Reset form and close modal
+      setIsSubmitting(false);
+      setAnswerDraft(null);
       setTitle("");
       setContent("");
       setTags("");
@@ -149,6 +172,7 @@ export function AskQuestionModal({
     } catch (error) {
       console.error("Failed to create thread:", error);
       setIsSubmitting(false);
+      setAnswerDraft(null);
     }
   };
 
@@ -211,7 +235,7 @@ export function AskQuestionModal({
               <Input
                 id="modal-title"
                 value={title}
-                onChange={(e) => setTitle(e.target.value)}
+                onChange={(e) => handleQuestionEdit(setTitle)(e.target.value)}
                 placeholder="e.g., How does binary search work?"
                 className="h-12 text-base"
                 required
@@ -232,7 +256,7 @@ export function AskQuestionModal({
               <Textarea
                 id="modal-content"
                 value={content}
-                onChange={(e) => setContent(e.target.value)}
+                onChange={(e) => handleQuestionEdit(setContent)(e.target.value)}
                 placeholder="Provide a detailed description of your question. Include any relevant code, error messages, or context that will help others understand and answer your question."
                 rows={10}
                 className="min-h-[240px] text-base"
@@ -249,7 +273,7 @@ export function AskQuestionModal({
               <Input
                 id="modal-tags"
                 value={tags}
-                onChange={(e) => setTags(e.target.value)}
+                onChange={(e) => handleQuestionEdit(setTags)(e.target.value)}
                 placeholder="e.g., algorithms, binary-search, recursion"
                 className="h-12 text-base"
               />
@@ -258,6 +282,15 @@ export function AskQuestionModal({
               </p>
             </div>
 
+            {/* Answer being generated for the posted question */}
+            {isSubmitting && answerDraft && (
+              <AIAnswerDraftCard
+                draft={answerDraft}
+                variant="compact"
+                status="Posting your question while Quokka writes its answer..."
+              />
+            )}
+
             {/* Preview Helper Text */}
             <div className="text-sm text-muted-foreground glass-text">
               💡 Preview Quokka&apos;s answer before posting your question
@@ -270,7 +303,7 @@ export function AskQuestionModal({
                 variant="outline"
                 size="lg"
                 onClick={handleClose}
-                disabled={isSubmitting || previewMutation.isPending}
+                disabled={isSubmitting}
               >
                 Cancel
               </Button>
@@ -301,7 +334,7 @@ export function AskQuestionModal({
       </Dialog>
 
       {/* AI Preview Dialog */}
-      <Dialog open={preview.isOpen} onOpenChange={preview.setIsOpen}>
+      <Dialog open={preview.isOpen} onOpenChange={handlePreviewOpenChange}>
         <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto glass-panel-strong">
           <DialogHeader>
             <DialogTitle className="heading-3 glass-text">Quokka&apos;s Answer</DialogTitle>
@@ -323,15 +356,18 @@ export function AskQuestionModal({
             </div>
           )}
 
-          {/* Loading State */}
+          {/* Streaming State (content, citations and confidence as they arrive) */}
           {previewMutation.isPending && (
-            <div className="flex items-center justify-center py-12">
-              <div className="glass-panel px-8 py-6 inline-flex items-center gap-4 rounded-2xl">
-                <div className="animate-spin h-6 w-6 border-3 border-primary border-t-transparent rounded-full"></div>
-                <p className="text-base text-foreground glass-text font-medium">
-                  Generating AI answer...
-                </p>
-              </div>
+            <div className="mt-6">
+              <AIAnswerDraftCard
+                draft={previewMutation.draft}
+                variant="compact"
+                status={
+                  previewMutation.draft?.content
+                    ? "Writing answer..."
+                    : "Searching course materials..."
+                }
+              />
             </div>
           )}
 
@@ -350,7 +386,7 @@ export function AskQuestionModal({
               type="button"
               variant="outline"
               size="lg"
-              onClick={() => preview.onClose()}
+              onClick={() => handlePreviewOpenChange(false)}
             >
               Edit Question
             </Button>
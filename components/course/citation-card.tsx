@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import type { Citation } from "@/lib/models/types";
 import { Card, CardContent } from "@/components/ui/card";
 import { ExternalLink } from "lucide-react";
@@ -14,6 +15,9 @@ export interface CitationCardProps {
 export function CitationCard({ citation, onClick, className }: CitationCardProps) {
   const isClickable = !!onClick;
 
+  // Only deep-link to sources resolved to a material that contains the excerpt
+  const deepLink = citation.verified ? citation.link : undefined;
+
   return (
     <Card
       className={cn(
@@ -33,14 +37,38 @@ export function CitationCard({ citation, onClick, className }: CitationCardProps
     >
       <CardContent className="p-4 space-y-2">
         <div className="flex items-start justify-between gap-2">
-          <p className="text-sm font-semibold text-foreground">
-            {citation.source}
-          </p>
-          {citation.link && (
+          <div className="min-w-0">
+            <p className="text-sm font-semibold text-foreground">
+              {deepLink ? (
+                <Link
+                  href={deepLink}
+                  className="hover:underline focus-visible:underline"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  {citation.source}
+                </Link>
+              ) : (
+                citation.source
+              )}
+            </p>
+            {citation.section && (
+              <p className="text-xs text-muted-foreground">{citation.section}</p>
+            )}
+          </div>
+          {deepLink ? (
             <ExternalLink
               className="size-3 text-muted-foreground"
               aria-hidden="true"
             />
+          ) : (
+            citation.verified === false && (
+              <span
+                className="shrink-0 text-xs text-muted-foreground"
+                title="The quoted excerpt wasn't found in this course material"
+              >
+                Unverified
+              </span>
+            )
           )}
         </div>
         <p className="text-xs text-muted-foreground line-clamp-2">
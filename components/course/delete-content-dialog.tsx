@@ -0,0 +1,133 @@
+"use client";
+
+/**
+ * DeleteContentDialog - Confirm deleting a thread or post
+ *
+ * Authors retract their own content; course staff remove other people's
+ * content and must pick a moderator reason, which is shown on the tombstone.
+ */
+
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ContentDeletionReason, ContentRemovalReason, RevisionTargetType } from "@/lib/models/types";
+
+export const REMOVAL_REASON_LABELS: Record<ContentRemovalReason, string> = {
+  "off-topic": "Off-topic",
+  duplicate: "Duplicate",
+  spam: "Spam",
+  inappropriate: "Inappropriate",
+  "academic-integrity": "Academic integrity",
+  other: "Other",
+};
+
+/**
+ * Tombstone text for deleted content
+ *
+ * @example
+ * ```ts
+ * describeDeletion("off-topic"); // "Removed by moderator: off-topic"
+ * ```
+ */
+export function describeDeletion(reason?: ContentDeletionReason | null): string {
+  if (reason === "retracted") return "Retracted by author";
+  if (!reason) return "Removed";
+  return `Removed by moderator: ${REMOVAL_REASON_LABELS[reason].toLowerCase()}`;
+}
+
+export interface DeleteContentDialogProps {
+  /** Whether dialog is open */
+  isOpen: boolean;
+
+  /** Close handler */
+  onClose: () => void;
+
+  /** Kind of content being deleted */
+  targetType: RevisionTargetType;
+
+  /**
+   * "retract": author deletes their own content
+   * "remove": course staff remove content with a reason
+   */
+  mode: "retract" | "remove";
+
+  /** Called with the chosen reason ("remove" mode only) */
+  onConfirm: (reason?: ContentRemovalReason) => void;
+
+  /** Whether the deletion is in flight */
+  isPending?: boolean;
+
+  /** Error from the last attempt */
+  error?: string | null;
+}
+
+export function DeleteContentDialog({
+  isOpen,
+  onClose,
+  targetType,
+  mode,
+  onConfirm,
+  isPending = false,
+  error,
+}: DeleteContentDialogProps) {
+  const [reason, setReason] = useState<ContentRemovalReason | "">("");
+  const noun = targetType === "thread" ? "question" : "reply";
+
+  return (
+    <AlertDialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <AlertDialogContent className="glass-panel-strong">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="glass-text">
+            {mode === "retract" ? `Delete your ${noun}?` : `Remove this ${noun}?`}
+          </AlertDialogTitle>
+          <AlertDialogDescription className="glass-text">
+            {mode === "retract"
+              ? `Your ${noun} will be replaced with "Retracted by author". Course staff can restore it for 30 days.`
+              : `The ${noun} will be replaced with the removal reason. You can restore it for 30 days.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {mode === "remove" && (
+          <Select value={reason} onValueChange={(value) => setReason(value as ContentRemovalReason)}>
+            <SelectTrigger className="w-full" aria-label="Removal reason">
+              <SelectValue placeholder="Select a reason" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(REMOVAL_REASON_LABELS) as ContentRemovalReason[]).map((value) => (
+                <SelectItem key={value} value={value}>
+                  {REMOVAL_REASON_LABELS[value]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        {error && (
+          <p className="text-sm text-danger" role="alert">
+            {error}
+          </p>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel disabled={isPending}>Cancel</AlertDialogCancel>
+          <Button
+            onClick={() => onConfirm(mode === "remove" && reason ? reason : undefined)}
+            disabled={isPending || (mode === "remove" && !reason)}
+            className="bg-danger hover:bg-danger/90"
+          >
+            {isPending ? "Deleting..." : mode === "retract" ? "Delete" : "Remove"}
+          </Button>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
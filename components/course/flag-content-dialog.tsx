@@ -0,0 +1,144 @@
+"use client";
+
+/**
+ * FlagContentDialog - Report a thread or post to course staff
+ *
+ * The report goes to the course moderation queue; the reporter is
+ * notified once staff resolve or dismiss it.
+ */
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useFlagThread, useFlagPost } from "@/lib/api/hooks";
+import type { FlagReason, FlagTargetType } from "@/lib/models/types";
+
+export const FLAG_REASON_LABELS: Record<FlagReason, string> = {
+  harassment: "Harassment or bullying",
+  inappropriate: "Inappropriate content",
+  "academic-integrity": "Shares assignment solutions",
+  incorrect: "Incorrect or misleading",
+  spam: "Spam",
+  "off-topic": "Off-topic",
+  other: "Something else",
+};
+
+export interface FlagContentDialogProps {
+  /** Whether dialog is open */
+  isOpen: boolean;
+
+  /** Close handler */
+  onClose: () => void;
+
+  /** Kind of content being reported */
+  targetType: FlagTargetType;
+
+  /** Thread or post ID */
+  targetId: string;
+
+  /** User reporting */
+  userId: string;
+}
+
+export function FlagContentDialog({ isOpen, onClose, targetType, targetId, userId }: FlagContentDialogProps) {
+  const flagThreadMutation = useFlagThread();
+  const flagPostMutation = useFlagPost();
+
+  const [reason, setReason] = useState<FlagReason | "">("");
+  const [details, setDetails] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const [submitted, setSubmitted] = useState<{ duplicate: boolean } | null>(null);
+
+  const noun = targetType === "thread" ? "question" : "reply";
+  const isPending = flagThreadMutation.isPending || flagPostMutation.isPending;
+
+  const handleSubmit = async () => {
+    if (!reason) return;
+
+    setError(null);
+    const input = { reason, details: details.trim() || undefined };
+    try {
+      const result =
+        targetType === "thread"
+          ? await flagThreadMutation.mutateAsync({ threadId: targetId, input, userId })
+          : await flagPostMutation.mutateAsync({ postId: targetId, input, userId });
+      setSubmitted({ duplicate: result.duplicate });
+    } catch (error) {
+      console.error(`Failed to report ${targetType}:`, error);
+      setError("Failed to send your report. Please try again.");
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="glass-panel-strong max-w-md">
+        <DialogHeader>
+          <DialogTitle className="glass-text">Report this {noun}</DialogTitle>
+          <DialogDescription className="glass-text">
+            {submitted
+              ? submitted.duplicate
+                ? `You've already reported this ${noun}. Course staff will review it.`
+                : "Thanks for letting us know. You'll get a notification once course staff review it."
+              : "Course staff will review your report. The author won't see who reported it."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!submitted && (
+          <div className="space-y-3">
+            <Select value={reason} onValueChange={(value) => setReason(value as FlagReason)}>
+              <SelectTrigger className="w-full" aria-label="Report reason">
+                <SelectValue placeholder="What's wrong?" />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(FLAG_REASON_LABELS) as FlagReason[]).map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {FLAG_REASON_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Textarea
+              value={details}
+              onChange={(e) => setDetails(e.target.value)}
+              placeholder="Add details (optional)"
+              aria-label="Report details"
+              maxLength={1000}
+              rows={3}
+            />
+            {error && (
+              <p className="text-sm text-danger" role="alert">
+                {error}
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {submitted ? (
+            <Button variant="glass-primary" onClick={onClose}>
+              Done
+            </Button>
+          ) : (
+            <>
+              <Button variant="ghost" onClick={onClose} disabled={isPending}>
+                Cancel
+              </Button>
+              <Button variant="glass-primary" onClick={handleSubmit} disabled={isPending || !reason}>
+                {isPending ? "Reporting..." : "Report"}
+              </Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+"use client";
+
+/**
+ * RevisionHistoryDialog - Edit history of a thread or post
+ *
+ * Lists every edit, newest first, with a word-level diff against the
+ * version it replaced (title and content for threads).
+ */
+
+import { useMemo } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useThreadRevisions, usePostRevisions } from "@/lib/api/hooks";
+import type { RevisionTargetType } from "@/lib/models/types";
+import { diffWords } from "@/lib/utils/text-diff";
+import { cn } from "@/lib/utils";
+
+export interface RevisionHistoryDialogProps {
+  /** Whether dialog is open */
+  isOpen: boolean;
+
+  /** Close handler */
+  onClose: () => void;
+
+  /** Kind of content whose history is shown */
+  targetType: RevisionTargetType;
+
+  /** Thread or post ID */
+  targetId: string;
+
+  /** Current version (the thread or post itself) */
+  current: {
+    title?: string | null;
+    content: string;
+    editedAt?: string | null;
+  };
+}
+
+interface Version {
+  version: number;
+  title: string | null;
+  content: string;
+  editedAt: string | null;
+  editorName: string | null;
+}
+
+/**
+ * Inline word diff between two versions
+ */
+function TextDiff({ before, after, className }: { before: string; after: string; className?: string }) {
+  const segments = useMemo(() => diffWords(before, after), [before, after]);
+
+  return (
+    <p className={cn("whitespace-pre-wrap break-words leading-relaxed", className)}>
+      {segments.map((segment, index) =>
+        segment.type === "added" ? (
+          <ins key={index} className="bg-success/15 text-success no-underline rounded-sm">
+            {segment.text}
+          </ins>
+        ) : segment.type === "removed" ? (
+          <del key={index} className="bg-danger/10 text-danger rounded-sm">
+            {segment.text}
+          </del>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+export function RevisionHistoryDialog({
+  isOpen,
+  onClose,
+  targetType,
+  targetId,
+  current,
+}: RevisionHistoryDialogProps) {
+  const threadRevisions = useThreadRevisions(targetType === "thread" ? targetId : undefined, isOpen);
+  const postRevisions = usePostRevisions(targetType === "post" ? targetId : undefined, isOpen);
+  const { data: revisions, isLoading } = targetType === "thread" ? threadRevisions : postRevisions;
+
+  // Prior versions followed by the current one
+  const versions: Version[] = useMemo(() => {
+    const prior = (revisions ?? []).map((revision) => ({
+      version: revision.version,
+      title: revision.title,
+      content: revision.content,
+      editedAt: revision.editedAt,
+      editorName: revision.editor?.name ?? null,
+    }));
+    return [
+      ...prior,
+      {
+        version: prior.length + 1,
+        title: current.title ?? null,
+        content: current.content,
+        editedAt: current.editedAt ?? null,
+        editorName: null,
+      },
+    ];
+  }, [revisions, current.title, current.content, current.editedAt]);
+
+  // Each edit compared with the version it replaced, newest first
+  const edits = versions.slice(1).map((version, index) => ({ before: versions[index], after: version })).reverse();
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[80vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Edit History</DialogTitle>
+          <DialogDescription>
+            {isLoading
+              ? "Loading earlier versions..."
+              : edits.length === 0
+                ? `This ${targetType} hasn't been edited.`
+                : `Edited ${edits.length} time${edits.length === 1 ? "" : "s"}. Additions are highlighted, removals struck through.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-6 py-4">
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-6 w-1/3 bg-glass-medium rounded-lg" />
+              <Skeleton className="h-24 w-full bg-glass-medium rounded-xl" />
+            </div>
+          ) : (
+            edits.map(({ before, after }) => {
+              const isCurrent = after.version === versions.length;
+
+              return (
+                <section key={after.version} className="space-y-3 border-b border-glass pb-6 last:border-b-0">
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="font-semibold">Version {after.version}</span>
+                    {isCurrent && (
+                      <Badge variant="outline" className="text-xs">
+                        Current
+                      </Badge>
+                    )}
+                    {after.editedAt && (
+                      <time dateTime={after.editedAt} className="text-xs text-subtle glass-text">
+                        {new Date(after.editedAt).toLocaleString()}
+                      </time>
+                    )}
+                    {after.editorName && (
+                      <span className="text-xs text-subtle glass-text">by {after.editorName}</span>
+                    )}
+                  </div>
+
+                  {targetType === "thread" && before.title !== after.title && (
+                    <TextDiff
+                      before={before.title ?? ""}
+                      after={after.title ?? ""}
+                      className="text-base font-semibold"
+                    />
+                  )}
+                  {before.content !== after.content && (
+                    <TextDiff before={before.content} after={after.content} className="text-sm" />
+                  )}
+                </section>
+              );
+            })
+          )}
+
+          {!isLoading && edits.length > 0 && (
+            <p className="text-xs text-subtle glass-text">
+              Version 1 (original)
+              {versions[0].editorName ? ` by ${versions[0].editorName}` : ""}
+              {versions[0].editedAt ? `, ${new Date(versions[0].editedAt).toLocaleString()}` : ""}
+            </p>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,16 +1,50 @@
 "use client";
 
 import { useState, type FormEvent } from "react";
-import { useThread, useCurrentUser, useCreatePost, useEndorseAIAnswer } from "@/lib/api/hooks";
+import {
+  useThread,
+  useCurrentUser,
+  useCreatePost,
+  useEndorseAIAnswer,
+  useUpdateThread,
+  useUpdatePost,
+  useDeleteThread,
+  useRestoreThread,
+  useDeletePost,
+  useRestorePost,
+  useAcceptAnswer,
+} from "@/lib/api/hooks";
+import type {
+  AcceptedAnswerType,
+  ContentDeletionReason,
+  ContentRemovalReason,
+  FlagTargetType,
+  RevisionTargetType,
+} from "@/lib/models/types";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Avatar } from "@/components/ui/avatar";
 import { AIAnswerCard } from "@/components/course/ai-answer-card";
 import { StatusBadge } from "@/components/course/status-badge";
-import { ArrowLeft } from "lucide-react";
+import { RevisionHistoryDialog } from "@/components/course/revision-history-dialog";
+import { DeleteContentDialog, describeDeletion } from "@/components/course/delete-content-dialog";
+import { FlagContentDialog } from "@/components/course/flag-content-dialog";
+import {
+  ArrowLeft,
+  Pencil,
+  Trash2,
+  RotateCcw,
+  Flag,
+  Reply,
+  ChevronDown,
+  ChevronRight,
+  CheckCircle2,
+} from "lucide-react";
+import { buildReplyTree, canReplyTo, countDescendants, type ReplyNode } from "@/lib/utils/reply-tree";
 import { cn } from "@/lib/utils";
 
 export interface ThreadDetailPanelProps {
@@ -38,13 +72,27 @@ export interface ThreadDetailPanelProps {
   className?: string;
 }
 
+/**
+ * Replies shown per branch before "Show more replies"
+ * (top-level replies to the thread, nested replies and AI answer comments)
+ */
+const TOP_LEVEL_PAGE_SIZE = 10;
+const BRANCH_PAGE_SIZE = 3;
+
 /**
  * ThreadDetailPanel - Inline thread detail view (repurposed from thread detail page)
  *
  * Features:
  * - Displays thread question, AI answer, and replies inline
  * - Reply form with optimistic updates
+ * - Nested replies and comments on the AI answer as collapsible reply trees,
+ *   paginated per branch
  * - Endorsement functionality
+ * - Editing by authors and course staff, with "edited" markers and edit history (diff view)
+ * - Deletion (authors retract, staff remove with a reason) shown as tombstones, with staff restore
+ * - Reporting threads and replies to course staff (moderation queue)
+ * - Accepting a reply or the AI answer (question author or staff), which
+ *   resolves the thread and pins the accepted answer
  * - Sticky header with thread title
  * - Close button (mobile only)
  * - Loading and error states
@@ -74,12 +122,50 @@ export function ThreadDetailPanel({
   const { data: threadData, isLoading: threadLoading } = useThread(threadId || "");
   const createPostMutation = useCreatePost();
   const endorseAIAnswerMutation = useEndorseAIAnswer();
+  const updateThreadMutation = useUpdateThread();
+  const updatePostMutation = useUpdatePost();
+  const deleteThreadMutation = useDeleteThread();
+  const restoreThreadMutation = useRestoreThread();
+  const deletePostMutation = useDeletePost();
+  const restorePostMutation = useRestorePost();
+  const acceptAnswerMutation = useAcceptAnswer();
 
   const [replyContent, setReplyContent] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string | null>(null);
   const [isEndorsingLocally, setIsEndorsingLocally] = useState(false);
 
+  // Editing (one thread or post at a time)
+  const [editing, setEditing] = useState<{ type: RevisionTargetType; id: string } | null>(null);
+  const [editTitle, setEditTitle] = useState("");
+  const [editContent, setEditContent] = useState("");
+  const [editError, setEditError] = useState<string | null>(null);
+  const [historyTarget, setHistoryTarget] = useState<{ type: RevisionTargetType; id: string } | null>(null);
+
+  // Deletion (author retracts, staff remove with a reason) and restore
+  const [deleteTarget, setDeleteTarget] = useState<{
+    type: RevisionTargetType;
+    id: string;
+    mode: "retract" | "remove";
+  } | null>(null);
+  const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [restoreError, setRestoreError] = useState<string | null>(null);
+
+  // Accepting an answer
+  const [acceptError, setAcceptError] = useState<string | null>(null);
+
+  // Reporting to course staff
+  const [flagTarget, setFlagTarget] = useState<{ type: FlagTargetType; id: string } | null>(null);
+
+  // Nested replies and AI answer comments (one inline form at a time)
+  const [replyingTo, setReplyingTo] = useState<{ parentPostId?: string; aiAnswerId?: string } | null>(null);
+  const [nestedReplyContent, setNestedReplyContent] = useState("");
+  const [nestedReplyError, setNestedReplyError] = useState<string | null>(null);
+
+  // Reply tree branches: collapsed branches and replies shown per branch
+  const [collapsedBranches, setCollapsedBranches] = useState<Record<string, boolean>>({});
+  const [visibleReplies, setVisibleReplies] = useState<Record<string, number>>({});
+
   // Empty state (no thread selected) - handled by parent now
   if (!threadId) {
     return null;
@@ -125,6 +211,248 @@ export function ThreadDetailPanel({
   }
 
   const { thread, posts, aiAnswer } = threadData;
+  const replyTree = buildReplyTree(
+    posts,
+    aiAnswer?.id,
+    thread.acceptedAnswerType === "post" ? thread.acceptedAnswerId : null
+  );
+  // The pinned accepted post still counts toward the branch it came from
+  const acceptedTotal = replyTree.accepted ? 1 + countDescendants(replyTree.accepted) : 0;
+  const acceptedIsComment = !!aiAnswer && replyTree.accepted?.post.aiAnswerId === aiAnswer.id;
+  const replyTotal =
+    replyTree.replies.reduce((total, node) => total + 1 + countDescendants(node), 0) +
+    (acceptedIsComment ? 0 : acceptedTotal);
+  const commentTotal =
+    replyTree.aiAnswerComments.reduce((total, node) => total + 1 + countDescendants(node), 0) +
+    (acceptedIsComment ? acceptedTotal : 0);
+
+  // Authors and course staff may edit (the backend checks course enrollment)
+  const canEdit = (authorId: string) =>
+    !!user && (user.id === authorId || user.role === "instructor" || user.role === "ta");
+
+  // Everyone else can report it to course staff
+  const canReport = (authorId: string) => !!user && !canEdit(authorId);
+
+  // The question author and course staff can accept an answer
+  const canAccept =
+    !!user && !thread.deletedAt && (user.id === thread.authorId || user.role === "instructor" || user.role === "ta");
+
+  const isAccepted = (type: AcceptedAnswerType, id: string) =>
+    thread.acceptedAnswerType === type && thread.acceptedAnswerId === id;
+
+  const handleAcceptAnswer = async (targetType: AcceptedAnswerType, targetId: string) => {
+    if (!user) return;
+
+    setAcceptError(null);
+    try {
+      await acceptAnswerMutation.mutateAsync({
+        threadId: thread.id,
+        input: { targetType, targetId },
+        userId: user.id,
+      });
+    } catch (error) {
+      console.error("Failed to accept answer:", error);
+      setAcceptError("Failed to accept this answer. Please try again.");
+    }
+  };
+
+  // "Accepted answer" badge, or the button to accept it
+  const renderAcceptControl = (type: AcceptedAnswerType, id: string) =>
+    isAccepted(type, id) ? (
+      <Badge variant="outline" className="gap-1 bg-success/10 text-success border-success/30">
+        <CheckCircle2 className="h-3 w-3" />
+        Accepted answer
+      </Badge>
+    ) : canAccept ? (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => handleAcceptAnswer(type, id)}
+        disabled={acceptAnswerMutation.isPending}
+        className="gap-1"
+        aria-label={type === "post" ? "Accept this reply as the answer" : "Accept Quokka's answer"}
+      >
+        <CheckCircle2 className="h-4 w-4" />
+        Accept answer
+      </Button>
+    ) : null;
+
+  const startEditing = (type: RevisionTargetType, id: string, content: string, title = "") => {
+    setEditing({ type, id });
+    setEditTitle(title);
+    setEditContent(content);
+    setEditError(null);
+  };
+
+  const cancelEditing = () => {
+    setEditing(null);
+    setEditError(null);
+  };
+
+  // Handle thread/post edit submission
+  const handleSubmitEdit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!editing || !user || !editContent.trim()) return;
+
+    setEditError(null);
+    try {
+      if (editing.type === "thread") {
+        await updateThreadMutation.mutateAsync({
+          threadId: editing.id,
+          input: { title: editTitle.trim(), content: editContent },
+          userId: user.id,
+        });
+      } else {
+        await updatePostMutation.mutateAsync({
+          postId: editing.id,
+          input: { content: editContent },
+          userId: user.id,
+        });
+      }
+      setEditing(null);
+    } catch (error) {
+      console.error(`Failed to edit ${editing.type}:`, error);
+      setEditError("Failed to save your changes. Please try again.");
+    }
+  };
+
+  const isSavingEdit = updateThreadMutation.isPending || updatePostMutation.isPending;
+
+  // Authors retract their own content; staff remove anyone else's with a reason
+  const startDeleting = (type: RevisionTargetType, id: string, authorId: string) => {
+    setDeleteTarget({ type, id, mode: user?.id === authorId ? "retract" : "remove" });
+    setDeleteError(null);
+  };
+
+  const handleConfirmDelete = async (reason?: ContentRemovalReason) => {
+    if (!deleteTarget || !user) return;
+
+    setDeleteError(null);
+    try {
+      if (deleteTarget.type === "thread") {
+        await deleteThreadMutation.mutateAsync({ threadId: deleteTarget.id, userId: user.id, reason });
+      } else {
+        await deletePostMutation.mutateAsync({ postId: deleteTarget.id, userId: user.id, reason });
+      }
+      setDeleteTarget(null);
+    } catch (error) {
+      console.error(`Failed to delete ${deleteTarget.type}:`, error);
+      setDeleteError("Failed to delete. Please try again.");
+    }
+  };
+
+  const handleRestore = async (type: RevisionTargetType, id: string) => {
+    if (!user) return;
+
+    setRestoreError(null);
+    try {
+      if (type === "thread") {
+        await restoreThreadMutation.mutateAsync({ threadId: id, userId: user.id });
+      } else {
+        await restorePostMutation.mutateAsync({ postId: id, userId: user.id });
+      }
+    } catch (error) {
+      console.error(`Failed to restore ${type}:`, error);
+      setRestoreError("Failed to restore. Please try again.");
+    }
+  };
+
+  const isRestoring = restoreThreadMutation.isPending || restorePostMutation.isPending;
+
+  // Staff can restore until the retention window closes
+  const canRestore = (restoreExpiresAt?: string | null) =>
+    !!user &&
+    (user.role === "instructor" || user.role === "ta") &&
+    !!restoreExpiresAt &&
+    new Date(restoreExpiresAt).getTime() > Date.now();
+
+  // Tombstone in place of deleted content
+  const renderTombstone = (
+    type: RevisionTargetType,
+    id: string,
+    deletionReason?: ContentDeletionReason | null,
+    restoreExpiresAt?: string | null
+  ) => (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg border border-dashed border-glass p-4">
+      <p className="text-sm italic text-muted-foreground glass-text">{describeDeletion(deletionReason)}</p>
+      {canRestore(restoreExpiresAt) && (
+        <div className="flex items-center gap-3">
+          {restoreError && (
+            <span className="text-sm text-danger" role="alert">
+              {restoreError}
+            </span>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => handleRestore(type, id)}
+            disabled={isRestoring}
+            className="gap-2"
+            title={`Can be restored until ${new Date(restoreExpiresAt!).toLocaleString()}`}
+          >
+            <RotateCcw className="h-4 w-4" />
+            Restore
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+  const historyPost = historyTarget?.type === "post" ? posts.find((p) => p.id === historyTarget.id) : undefined;
+
+  // "Edited" marker (opens the edit history)
+  const renderEditedMarker = (type: RevisionTargetType, id: string, editedAt?: string | null) =>
+    editedAt ? (
+      <button
+        type="button"
+        onClick={() => setHistoryTarget({ type, id })}
+        className="underline decoration-dotted underline-offset-2 hover:text-foreground"
+        title={`Edited ${new Date(editedAt).toLocaleString()}`}
+      >
+        (edited)
+      </button>
+    ) : null;
+
+  // Inline edit form (title only for threads)
+  const renderEditForm = (type: RevisionTargetType) => (
+    <form onSubmit={handleSubmitEdit} className="space-y-3">
+      {type === "thread" && (
+        <Input
+          value={editTitle}
+          onChange={(e) => setEditTitle(e.target.value)}
+          aria-label="Thread title"
+          maxLength={200}
+          required
+        />
+      )}
+      <Textarea
+        value={editContent}
+        onChange={(e) => setEditContent(e.target.value)}
+        aria-label={type === "thread" ? "Thread content" : "Reply content"}
+        rows={6}
+        className="min-h-[120px] text-base"
+        required
+        aria-invalid={!!editError}
+      />
+      {editError && (
+        <p className="text-sm text-danger" role="alert">
+          {editError}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="ghost" size="sm" onClick={cancelEditing} disabled={isSavingEdit}>
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="glass-primary"
+          size="sm"
+          disabled={isSavingEdit || !editContent.trim() || (type === "thread" && editTitle.trim().length < 5)}
+        >
+          {isSavingEdit ? "Saving..." : "Save Changes"}
+        </Button>
+      </div>
+    </form>
+  );
 
   // Handle reply submission
   const handleSubmitReply = async (e: FormEvent) => {
@@ -152,6 +480,38 @@ export function ThreadDetailPanel({
     }
   };
 
+  const startReplying = (target: { parentPostId?: string; aiAnswerId?: string }) => {
+    setReplyingTo(target);
+    setNestedReplyContent("");
+    setNestedReplyError(null);
+  };
+
+  // Handle nested reply / AI answer comment submission
+  const handleSubmitNestedReply = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!replyingTo || !nestedReplyContent.trim() || !user) return;
+
+    setNestedReplyError(null);
+    try {
+      await createPostMutation.mutateAsync({
+        input: {
+          threadId: thread.id,
+          content: nestedReplyContent,
+          ...replyingTo,
+        },
+        authorId: user.id,
+      });
+      if (replyingTo.parentPostId) {
+        setCollapsedBranches((prev) => ({ ...prev, [replyingTo.parentPostId!]: false }));
+      }
+      setReplyingTo(null);
+      setNestedReplyContent("");
+    } catch (error) {
+      console.error("Failed to create post:", error);
+      setNestedReplyError("Failed to post reply. Please try again.");
+    }
+  };
+
   // Handle AI answer endorsement
   const handleEndorseAIAnswer = async () => {
     if (!user || !aiAnswer || isEndorsingLocally) return;
@@ -170,6 +530,190 @@ export function ThreadDetailPanel({
     }
   };
 
+  // Inline form for a nested reply or AI answer comment
+  const renderNestedReplyForm = (label: string) => (
+    <form onSubmit={handleSubmitNestedReply} className="space-y-3">
+      <Textarea
+        value={nestedReplyContent}
+        onChange={(e) => setNestedReplyContent(e.target.value)}
+        placeholder={`${label}...`}
+        aria-label={label}
+        rows={3}
+        className="min-h-[80px] text-base"
+        required
+        aria-invalid={!!nestedReplyError}
+      />
+      {nestedReplyError && (
+        <p className="text-sm text-danger" role="alert">
+          {nestedReplyError}
+        </p>
+      )}
+      <div className="flex justify-end gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => setReplyingTo(null)}
+          disabled={createPostMutation.isPending}
+        >
+          Cancel
+        </Button>
+        <Button
+          type="submit"
+          variant="glass-primary"
+          size="sm"
+          disabled={createPostMutation.isPending || !nestedReplyContent.trim()}
+        >
+          {createPostMutation.isPending ? "Posting..." : "Reply"}
+        </Button>
+      </div>
+    </form>
+  );
+
+  // One level of a reply tree, paginated per branch
+  const renderReplyBranch = (branchKey: string, nodes: ReplyNode[], pageSize: number) => {
+    const visible = visibleReplies[branchKey] ?? pageSize;
+    const hidden = nodes.length - visible;
+
+    return (
+      <>
+        {nodes.slice(0, visible).map((node) => renderPost(node))}
+        {hidden > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setVisibleReplies((prev) => ({ ...prev, [branchKey]: visible + pageSize }))}
+            className="gap-1"
+          >
+            <ChevronDown className="h-4 w-4" />
+            Show more replies ({hidden})
+          </Button>
+        )}
+      </>
+    );
+  };
+
+  // A post followed by its replies (collapsible)
+  const renderPost = (node: ReplyNode) => {
+    const { post } = node;
+    const isNested = (post.depth ?? 0) > 0;
+    const isCollapsed = collapsedBranches[post.id] ?? false;
+    const descendantCount = countDescendants(node);
+    const canReply = !!user && !thread.deletedAt && canReplyTo(post) && replyingTo?.parentPostId !== post.id;
+    const canAcceptPost = canAccept && !post.deletedAt && !isAccepted("post", post.id);
+
+    return (
+      <div key={post.id} className="space-y-3">
+        <Card variant={post.endorsed ? "glass-liquid" : "glass-hover"}>
+          <CardHeader className={isNested ? "p-4" : "p-6"}>
+            <div className="flex items-start gap-4">
+              <Avatar className="h-10 w-10 avatar-placeholder">
+                <span className="text-sm font-semibold">
+                  {post.authorId.slice(-2).toUpperCase()}
+                </span>
+              </Avatar>
+              <div className="flex-1 space-y-1">
+                <div className="flex flex-wrap items-center gap-2">
+                  <span className="font-semibold text-base">
+                    User {post.authorId.slice(-4)}
+                  </span>
+                  {post.endorsed && (
+                    <Badge variant="outline" className="bg-success/10 text-success border-success/30">
+                      ✓ Endorsed
+                    </Badge>
+                  )}
+                  {!post.deletedAt && isAccepted("post", post.id) && renderAcceptControl("post", post.id)}
+                </div>
+                <p className="flex items-center gap-2 text-xs text-subtle glass-text">
+                  <span>{new Date(post.createdAt).toLocaleString()}</span>
+                  {renderEditedMarker("post", post.id, post.editedAt)}
+                </p>
+              </div>
+              {canEdit(post.authorId) && !post.deletedAt && editing?.id !== post.id && (
+                <div className="flex items-center gap-1">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing("post", post.id, post.content)}
+                    aria-label="Edit reply"
+                  >
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startDeleting("post", post.id, post.authorId)}
+                    aria-label={user?.id === post.authorId ? "Delete reply" : "Remove reply"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+              {canReport(post.authorId) && !post.deletedAt && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFlagTarget({ type: "post", id: post.id })}
+                  aria-label="Report reply"
+                >
+                  <Flag className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent className={cn(isNested ? "p-4" : "p-6", "pt-0 space-y-3")}>
+            {post.deletedAt ? (
+              renderTombstone("post", post.id, post.deletionReason, post.restoreExpiresAt)
+            ) : editing?.type === "post" && editing.id === post.id ? (
+              renderEditForm("post")
+            ) : (
+              <p className="text-base leading-relaxed whitespace-pre-wrap break-words">
+                {post.content}
+              </p>
+            )}
+            {(node.replies.length > 0 || canReply || canAcceptPost) && (
+              <div className="flex flex-wrap items-center gap-2">
+                {node.replies.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCollapsedBranches((prev) => ({ ...prev, [post.id]: !isCollapsed }))}
+                    className="gap-1"
+                    aria-expanded={!isCollapsed}
+                  >
+                    {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                    {isCollapsed
+                      ? `Show ${descendantCount} ${descendantCount === 1 ? "reply" : "replies"}`
+                      : "Hide replies"}
+                  </Button>
+                )}
+                {canReply && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startReplying({ parentPostId: post.id })}
+                    className="gap-1"
+                    aria-label="Reply to this reply"
+                  >
+                    <Reply className="h-4 w-4" />
+                    Reply
+                  </Button>
+                )}
+                {canAcceptPost && renderAcceptControl("post", post.id)}
+              </div>
+            )}
+            {replyingTo?.parentPostId === post.id && renderNestedReplyForm("Your reply")}
+          </CardContent>
+        </Card>
+        {node.replies.length > 0 && !isCollapsed && (
+          <div className="ml-4 md:ml-6 space-y-3 border-l-2 border-glass pl-4">
+            {renderReplyBranch(post.id, node.replies, BRANCH_PAGE_SIZE)}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <div
       className={cn("space-y-8 p-4 md:p-6 lg:p-8 max-w-full", className)}
@@ -198,7 +742,7 @@ export function ThreadDetailPanel({
           <div className="flex flex-col sm:flex-row sm:items-start justify-between gap-4">
             <div className="flex-1 space-y-3">
               <h1 className="text-xl md:text-2xl font-bold leading-snug glass-text">
-                {thread.title}
+                {thread.deletedAt ? "Deleted question" : thread.title}
               </h1>
               <div className="flex flex-wrap items-center gap-3 text-sm text-subtle glass-text">
                 <span>{thread.views} views</span>
@@ -206,15 +750,62 @@ export function ThreadDetailPanel({
                 <time dateTime={thread.createdAt}>
                   {new Date(thread.createdAt).toLocaleDateString()}
                 </time>
+                {renderEditedMarker("thread", thread.id, thread.editedAt)}
               </div>
             </div>
-            <StatusBadge status={thread.status} />
+            <div className="flex items-center gap-2">
+              {canEdit(thread.authorId) && !thread.deletedAt && editing?.id !== thread.id && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startEditing("thread", thread.id, thread.content, thread.title)}
+                    className="gap-2"
+                    aria-label="Edit question"
+                  >
+                    <Pencil className="h-4 w-4" />
+                    <span className="hidden sm:inline">Edit</span>
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => startDeleting("thread", thread.id, thread.authorId)}
+                    className="gap-2"
+                    aria-label={user?.id === thread.authorId ? "Delete question" : "Remove question"}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="hidden sm:inline">{user?.id === thread.authorId ? "Delete" : "Remove"}</span>
+                  </Button>
+                </>
+              )}
+              {canReport(thread.authorId) && !thread.deletedAt && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setFlagTarget({ type: "thread", id: thread.id })}
+                  className="gap-2"
+                  aria-label="Report question"
+                >
+                  <Flag className="h-4 w-4" />
+                  <span className="hidden sm:inline">Report</span>
+                </Button>
+              )}
+              <StatusBadge status={thread.status} />
+            </div>
           </div>
         </CardHeader>
         <CardContent className="p-6 md:p-8 pt-0">
-          <p className="text-base leading-relaxed whitespace-pre-wrap break-words mb-6">
-            {thread.content}
-          </p>
+          {thread.deletedAt ? (
+            <div className="mb-6">
+              {renderTombstone("thread", thread.id, thread.deletionReason, thread.restoreExpiresAt)}
+            </div>
+          ) : editing?.type === "thread" ? (
+            <div className="mb-6">{renderEditForm("thread")}</div>
+          ) : (
+            <p className="text-base leading-relaxed whitespace-pre-wrap break-words mb-6">
+              {thread.content}
+            </p>
+          )}
           {thread.tags && thread.tags.length > 0 && (
             <div className="flex gap-2 flex-wrap">
               {thread.tags.map((tag) => (
@@ -227,10 +818,27 @@ export function ThreadDetailPanel({
         </CardContent>
       </Card>
 
+      {acceptError && (
+        <p className="text-sm text-danger" role="alert">
+          {acceptError}
+        </p>
+      )}
+
+      {/* Accepted Answer (pinned) */}
+      {replyTree.accepted && (
+        <section className="space-y-4">
+          <h2 className="heading-4 glass-text">Accepted Answer</h2>
+          {renderPost(replyTree.accepted)}
+        </section>
+      )}
+
       {/* AI Answer Section */}
-      {aiAnswer && (
+      {aiAnswer && !thread.deletedAt && (
         <section className="space-y-4">
-          <h2 className="heading-4 glass-text">Quokka&apos;s Answer</h2>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <h2 className="heading-4 glass-text">Quokka&apos;s Answer</h2>
+            {renderAcceptControl("ai_answer", aiAnswer.id)}
+          </div>
           <AIAnswerCard
             answer={aiAnswer}
             currentUserEndorsed={aiAnswer.endorsedBy.includes(user?.id || "")}
@@ -239,51 +847,48 @@ export function ThreadDetailPanel({
             isEndorsing={endorseAIAnswerMutation.isPending || isEndorsingLocally}
             variant="hero"
           />
+
+          {/* Comments on the AI answer */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <h3 className="text-sm font-semibold glass-text">
+                {commentTotal} {commentTotal === 1 ? "Comment" : "Comments"}
+              </h3>
+              {user && !(replyingTo?.aiAnswerId === aiAnswer.id && !replyingTo.parentPostId) && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => startReplying({ aiAnswerId: aiAnswer.id })}
+                  className="gap-1"
+                  aria-label="Comment on Quokka's answer"
+                >
+                  <Reply className="h-4 w-4" />
+                  Comment
+                </Button>
+              )}
+            </div>
+            {replyingTo?.aiAnswerId === aiAnswer.id &&
+              !replyingTo.parentPostId &&
+              renderNestedReplyForm("Your comment")}
+            {replyTree.aiAnswerComments.length > 0 && (
+              <div className="space-y-3">
+                {renderReplyBranch(`ai-answer:${aiAnswer.id}`, replyTree.aiAnswerComments, BRANCH_PAGE_SIZE)}
+              </div>
+            )}
+          </div>
         </section>
       )}
 
       {/* Replies Section */}
       <section className="space-y-6">
         <h2 className="heading-4 glass-text">
-          {posts.length} {posts.length === 1 ? "Reply" : "Replies"}
+          {replyTotal} {replyTotal === 1 ? "Reply" : "Replies"}
         </h2>
-        {posts.length > 0 ? (
+        {replyTree.replies.length > 0 ? (
           <div className="space-y-4">
-            {posts.map((post) => (
-              <Card key={post.id} variant={post.endorsed ? "glass-liquid" : "glass-hover"}>
-                <CardHeader className="p-6">
-                  <div className="flex items-start gap-4">
-                    <Avatar className="h-10 w-10 avatar-placeholder">
-                      <span className="text-sm font-semibold">
-                        {post.authorId.slice(-2).toUpperCase()}
-                      </span>
-                    </Avatar>
-                    <div className="flex-1 space-y-1">
-                      <div className="flex flex-wrap items-center gap-2">
-                        <span className="font-semibold text-base">
-                          User {post.authorId.slice(-4)}
-                        </span>
-                        {post.endorsed && (
-                          <Badge variant="outline" className="bg-success/10 text-success border-success/30">
-                            ✓ Endorsed
-                          </Badge>
-                        )}
-                      </div>
-                      <p className="text-xs text-subtle glass-text">
-                        {new Date(post.createdAt).toLocaleString()}
-                      </p>
-                    </div>
-                  </div>
-                </CardHeader>
-                <CardContent className="p-6 pt-0">
-                  <p className="text-base leading-relaxed whitespace-pre-wrap break-words">
-                    {post.content}
-                  </p>
-                </CardContent>
-              </Card>
-            ))}
+            {renderReplyBranch("thread", replyTree.replies, TOP_LEVEL_PAGE_SIZE)}
           </div>
-        ) : (
+        ) : replyTotal === 0 ? (
           <Card variant="glass" className="p-12 text-center">
             <div className="max-w-md mx-auto space-y-4">
               <div className="text-5xl opacity-50" aria-hidden="true">💬</div>
@@ -295,55 +900,96 @@ export function ThreadDetailPanel({
               </div>
             </div>
           </Card>
-        )}
+        ) : null}
       </section>
 
-      {/* Reply Form */}
-      <Card variant="glass-strong">
-        <CardHeader className="p-6">
-          <CardTitle className="heading-5 glass-text">Post a Reply</CardTitle>
-          <CardDescription className="text-base glass-text">
-            Share your thoughts or answer this question
-          </CardDescription>
-        </CardHeader>
-        <CardContent className="p-6 pt-0">
-          <form onSubmit={handleSubmitReply} className="space-y-4">
-            <div className="space-y-2">
-              <label htmlFor="reply-content" className="text-sm font-medium">
-                Your reply
-                <span className="text-danger ml-1">*</span>
-              </label>
-              <Textarea
-                id="reply-content"
-                value={replyContent}
-                onChange={(e) => setReplyContent(e.target.value)}
-                placeholder="Write your reply..."
-                rows={6}
-                className="min-h-[150px] text-base"
-                required
-                aria-required="true"
-                aria-invalid={!!formError}
-              />
-              {formError && (
-                <p className="text-sm text-danger" role="alert">
-                  {formError}
-                </p>
-              )}
-            </div>
+      {/* Reply Form (closed on deleted threads) */}
+      {!thread.deletedAt && (
+        <Card variant="glass-strong">
+          <CardHeader className="p-6">
+            <CardTitle className="heading-5 glass-text">Post a Reply</CardTitle>
+            <CardDescription className="text-base glass-text">
+              Share your thoughts or answer this question
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="p-6 pt-0">
+            <form onSubmit={handleSubmitReply} className="space-y-4">
+              <div className="space-y-2">
+                <label htmlFor="reply-content" className="text-sm font-medium">
+                  Your reply
+                  <span className="text-danger ml-1">*</span>
+                </label>
+                <Textarea
+                  id="reply-content"
+                  value={replyContent}
+                  onChange={(e) => setReplyContent(e.target.value)}
+                  placeholder="Write your reply..."
+                  rows={6}
+                  className="min-h-[150px] text-base"
+                  required
+                  aria-required="true"
+                  aria-invalid={!!formError}
+                />
+                {formError && (
+                  <p className="text-sm text-danger" role="alert">
+                    {formError}
+                  </p>
+                )}
+              </div>
 
-            <div className="flex justify-end pt-4 border-t border-glass">
-              <Button
-                type="submit"
-                variant="glass-primary"
-                size="lg"
-                disabled={isSubmitting || !replyContent.trim()}
-              >
-                {isSubmitting ? "Posting..." : "Post Reply"}
-              </Button>
-            </div>
-          </form>
-        </CardContent>
-      </Card>
+              <div className="flex justify-end pt-4 border-t border-glass">
+                <Button
+                  type="submit"
+                  variant="glass-primary"
+                  size="lg"
+                  disabled={isSubmitting || !replyContent.trim()}
+                >
+                  {isSubmitting ? "Posting..." : "Post Reply"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Edit History */}
+      {historyTarget && (
+        <RevisionHistoryDialog
+          isOpen
+          onClose={() => setHistoryTarget(null)}
+          targetType={historyTarget.type}
+          targetId={historyTarget.id}
+          current={
+            historyTarget.type === "thread"
+              ? { title: thread.title, content: thread.content, editedAt: thread.editedAt }
+              : { content: historyPost?.content ?? "", editedAt: historyPost?.editedAt }
+          }
+        />
+      )}
+
+      {/* Delete / Remove Confirmation */}
+      {deleteTarget && (
+        <DeleteContentDialog
+          isOpen
+          onClose={() => setDeleteTarget(null)}
+          targetType={deleteTarget.type}
+          mode={deleteTarget.mode}
+          onConfirm={handleConfirmDelete}
+          isPending={deleteThreadMutation.isPending || deletePostMutation.isPending}
+          error={deleteError}
+        />
+      )}
+
+      {/* Report to Course Staff */}
+      {flagTarget && user && (
+        <FlagContentDialog
+          isOpen
+          onClose={() => setFlagTarget(null)}
+          targetType={flagTarget.type}
+          targetId={flagTarget.id}
+          userId={user.id}
+        />
+      )}
     </div>
   );
 }
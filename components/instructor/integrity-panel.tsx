@@ -0,0 +1,184 @@
+"use client";
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ShieldAlert } from "lucide-react";
+import {
+  useCourseAssignments,
+  useIntegrityEvents,
+  useReviewIntegrityEvent,
+  useUpdateAssignmentIntegrityMode,
+} from "@/lib/api/hooks";
+import type { AssignmentIntegrityMode, Course } from "@/lib/models/types";
+import { cn } from "@/lib/utils";
+
+export interface IntegrityPanelProps {
+  /**
+   * Course to show (undefined for every managed course)
+   */
+  courseId?: string;
+
+  /**
+   * Managed courses (for course names, and the assignments when there is only one)
+   */
+  courses: Course[];
+
+  /**
+   * Optional className for composition
+   */
+  className?: string;
+}
+
+const MODE_LABELS: Record<AssignmentIntegrityMode, string> = {
+  "hint-only": "Hints only",
+  "conceptual-only": "Concepts only",
+  unrestricted: "Unrestricted",
+};
+
+const MODE_DESCRIPTIONS: Record<AssignmentIntegrityMode, string> = {
+  "hint-only": "Hints, guiding questions and feedback; no solutions or full code",
+  "conceptual-only": "General explanations only; no help with the assignment's problems",
+  unrestricted: "The assistant's usual help",
+};
+
+/**
+ * IntegrityPanel - Academic-integrity modes of assignments and the solution-request log
+ *
+ * Displays:
+ * - The course's assignments with a mode selector; questions about a
+ *   hint-only or conceptual-only assignment get that mode's guardrails
+ *   (and long code blocks are removed from AI replies)
+ * - Unreviewed attempts to get full solutions for those assignments, with
+ *   a button to mark each reviewed
+ *
+ * @example
+ * ```tsx
+ * <IntegrityPanel courseId="course-cs101" courses={data.managedCourses} />
+ * ```
+ */
+export function IntegrityPanel({ courseId, courses, className }: IntegrityPanelProps) {
+  // Modes are edited per course
+  const modeCourseId = courseId ?? (courses.length === 1 ? courses[0].id : undefined);
+  const { data: assignments, isLoading: assignmentsLoading } = useCourseAssignments(modeCourseId);
+  const { data: events, isLoading: eventsLoading } = useIntegrityEvents({ courseId });
+  const { mutate: updateMode, isPending: isUpdating } = useUpdateAssignmentIntegrityMode();
+  const { mutate: reviewEvent, isPending: isReviewing } = useReviewIntegrityEvent();
+
+  const courseName = (id: string) => courses.find((c) => c.id === id)?.code ?? id;
+
+  return (
+    <div className={cn("grid grid-cols-1 lg:grid-cols-2 gap-4 items-start", className)}>
+      {/* Assignment Modes */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Assignment Modes</CardTitle>
+          <CardDescription>
+            {modeCourseId
+              ? `How much the AI assistant helps with ${courseName(modeCourseId)} assignments`
+              : "Select a course to set its assignment modes"}
+          </CardDescription>
+        </CardHeader>
+        {modeCourseId && (
+          <CardContent className="space-y-4">
+            {assignmentsLoading ? (
+              <div className="h-20 bg-muted rounded animate-pulse"></div>
+            ) : !assignments || assignments.length === 0 ? (
+              <p className="text-sm text-muted-foreground">This course has no assignments.</p>
+            ) : (
+              assignments.map((assignment) => {
+                const mode = assignment.integrityMode ?? "unrestricted";
+                return (
+                  <div key={assignment.id} className="flex items-center justify-between gap-4">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{assignment.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        Due {new Date(assignment.dueDate).toLocaleDateString()} · {MODE_DESCRIPTIONS[mode]}
+                      </p>
+                    </div>
+                    <Select
+                      value={mode}
+                      disabled={isUpdating}
+                      onValueChange={(value) =>
+                        updateMode({
+                          assignmentId: assignment.id,
+                          courseId: assignment.courseId,
+                          integrityMode: value as AssignmentIntegrityMode,
+                        })
+                      }
+                    >
+                      <SelectTrigger
+                        size="sm"
+                        className="w-[160px] shrink-0"
+                        aria-label={`Integrity mode for ${assignment.title}`}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(MODE_LABELS) as AssignmentIntegrityMode[]).map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {MODE_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                );
+              })
+            )}
+          </CardContent>
+        )}
+      </Card>
+
+      {/* Solution Requests */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-2">
+            <CardTitle>Solution Requests</CardTitle>
+            <ShieldAlert className="h-4 w-4 text-muted-foreground" />
+          </div>
+          <CardDescription>
+            Questions asking the AI assistant for full solutions of guarded assignments
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {eventsLoading ? (
+            <div className="h-20 bg-muted rounded animate-pulse"></div>
+          ) : !events || events.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing to review.</p>
+          ) : (
+            events.map((event) => (
+              <div key={event.id} className="space-y-2 border-b pb-3 last:border-b-0 last:pb-0">
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span>
+                    {courseName(event.courseId)} · {event.assignmentId} ·{" "}
+                    {event.feature === "chat" ? "Chat assistant" : "Thread answer"} ·{" "}
+                    {new Date(event.createdAt).toLocaleString()}
+                  </span>
+                  <Badge variant="outline">{MODE_LABELS[event.mode]}</Badge>
+                </div>
+                <p className="text-sm line-clamp-3">{event.question}</p>
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex flex-wrap gap-1">
+                    {event.signals.map((signal) => (
+                      <Badge key={signal} variant="secondary">&ldquo;{signal}&rdquo;</Badge>
+                    ))}
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    disabled={isReviewing}
+                    onClick={() => reviewEvent(event.id)}
+                  >
+                    Mark reviewed
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,327 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Coins, Cpu, MessageSquare } from "lucide-react";
+import { useLLMUsageSummary, useUpdateCourseLLMBudget } from "@/lib/api/hooks";
+import { formatCost, formatTokens } from "@/lib/llm/utils";
+import type { Course, CourseLLMBudget, LLMFeature } from "@/lib/models/types";
+import { cn } from "@/lib/utils";
+
+export interface LLMUsagePanelProps {
+  /**
+   * Course to show usage for (undefined for every managed course)
+   */
+  courseId?: string;
+
+  /**
+   * Managed courses (for course names, and the budget when there is only one)
+   */
+  courses: Course[];
+
+  /**
+   * Optional className for composition
+   */
+  className?: string;
+}
+
+const FEATURE_LABELS: Record<LLMFeature, string> = {
+  chat: "Chat assistant",
+  answer: "Thread answers",
+  summary: "Thread summaries",
+  restructure: "Conversation to thread",
+  rerank: "Search reranking",
+};
+
+/**
+ * LLMUsagePanel - Shows LLM spend and the course's monthly budget
+ *
+ * Displays (last 30 days):
+ * - Spend, tokens and calls
+ * - Spend by day, feature and course
+ * - Monthly budget with an editor; once it is used up, AI features
+ *   answer from templates until next month
+ *
+ * @example
+ * ```tsx
+ * <LLMUsagePanel courseId="course-cs101" courses={data.managedCourses} />
+ * ```
+ */
+export function LLMUsagePanel({ courseId, courses, className }: LLMUsagePanelProps) {
+  const { data: usage, isLoading } = useLLMUsageSummary({ courseId });
+
+  // Budgets are edited per course
+  const budgetCourseId = courseId ?? (courses.length === 1 ? courses[0].id : undefined);
+  const courseName = (id: string | null) =>
+    (id && courses.find((c) => c.id === id)?.code) || id || "No course";
+
+  if (isLoading) {
+    return (
+      <div className={cn("grid grid-cols-1 md:grid-cols-3 gap-4", className)}>
+        {[1, 2, 3].map((i) => (
+          <Card key={i} className="animate-pulse">
+            <CardHeader>
+              <div className="h-4 bg-muted rounded w-1/2"></div>
+            </CardHeader>
+            <CardContent>
+              <div className="h-8 bg-muted rounded w-1/3"></div>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    );
+  }
+
+  if (!usage) {
+    return (
+      <Card className={className}>
+        <CardContent className="py-8 text-center text-muted-foreground">
+          No AI usage data available.
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const maxDailyCost = Math.max(...usage.byDay.map((d) => d.estimatedCost), 0);
+  const budget = budgetCourseId
+    ? usage.budgets.find((b) => b.courseId === budgetCourseId)
+    : undefined;
+
+  return (
+    <div className={cn("space-y-4", className)}>
+      {/* Totals */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">AI Spend</CardTitle>
+            <Coins className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatCost(usage.totals.estimatedCost)}</div>
+            <p className="text-xs text-muted-foreground">Estimated, last 30 days</p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">Tokens</CardTitle>
+            <Cpu className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{formatTokens(usage.totals.totalTokens)}</div>
+            <p className="text-xs text-muted-foreground">
+              {formatTokens(usage.totals.inputTokens)} in, {formatTokens(usage.totals.outputTokens)} out
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium">AI Requests</CardTitle>
+            <MessageSquare className="h-4 w-4 text-muted-foreground" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">{usage.totals.calls}</div>
+            <p className="text-xs text-muted-foreground">LLM calls, last 30 days</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-4 items-start">
+        {/* Monthly Budget */}
+        {budgetCourseId ? (
+          <BudgetCard
+            key={budgetCourseId}
+            courseId={budgetCourseId}
+            courseName={courseName(budgetCourseId)}
+            budget={budget}
+          />
+        ) : (
+          <Card>
+            <CardHeader>
+              <CardTitle>Monthly Budgets</CardTitle>
+              <CardDescription>Select a course to set its budget</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {usage.budgets.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No course has a budget.</p>
+              ) : (
+                usage.budgets.map((b) => (
+                  <div key={b.courseId} className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{courseName(b.courseId)}</span>
+                    <span className={cn(b.exhausted && "text-danger")}>
+                      {formatCost(b.spent)} / {formatCost(b.monthlyBudget ?? 0)}
+                    </span>
+                  </div>
+                ))
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Spend by Feature */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Spend by Feature</CardTitle>
+            <CardDescription>Estimated cost, last 30 days</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {usage.byFeature.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No AI usage yet.</p>
+            ) : (
+              usage.byFeature.map((f) => (
+                <div key={f.feature} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium">{FEATURE_LABELS[f.feature]}</span>
+                    <span className="text-muted-foreground">
+                      {formatCost(f.estimatedCost)} · {f.calls} {f.calls === 1 ? "call" : "calls"}
+                    </span>
+                  </div>
+                  <Progress
+                    value={usage.totals.estimatedCost > 0 ? (f.estimatedCost / usage.totals.estimatedCost) * 100 : 0}
+                    aria-label={`${FEATURE_LABELS[f.feature]} share of spend`}
+                  />
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Spend by Day */}
+      {usage.byDay.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spend by Day</CardTitle>
+            <CardDescription>Estimated cost per day (UTC)</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex h-32 items-end gap-1" role="list" aria-label="Spend by day">
+              {usage.byDay.map((d) => (
+                <div
+                  key={d.date}
+                  role="listitem"
+                  title={`${d.date}: ${formatCost(d.estimatedCost)} (${d.calls} calls)`}
+                  aria-label={`${d.date}: ${formatCost(d.estimatedCost)}`}
+                  className="flex-1 rounded-t bg-primary/70"
+                  style={{ height: `${maxDailyCost > 0 ? Math.max(4, (d.estimatedCost / maxDailyCost) * 100) : 4}%` }}
+                />
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Spend by Course */}
+      {!courseId && usage.byCourse.length > 1 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Spend by Course</CardTitle>
+            <CardDescription>Estimated cost, last 30 days</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {usage.byCourse.map((c) => (
+              <div key={c.courseId ?? "none"} className="flex items-center justify-between text-sm">
+                <span className="font-medium">{courseName(c.courseId)}</span>
+                <span className="text-muted-foreground">
+                  {formatCost(c.estimatedCost)} · {formatTokens(c.totalTokens)}
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
+
+// ============================================
+// Budget Card
+// ============================================
+
+function BudgetCard({
+  courseId,
+  courseName,
+  budget,
+}: {
+  courseId: string;
+  courseName: string;
+  budget?: CourseLLMBudget;
+}) {
+  const [value, setValue] = useState(budget?.monthlyBudget?.toString() ?? "");
+  const { mutate: updateBudget, isPending } = useUpdateCourseLLMBudget();
+
+  const parsed = Number(value);
+  const isValid = value.trim() !== "" && Number.isFinite(parsed) && parsed >= 0;
+  const usedPercent =
+    budget?.monthlyBudget ? Math.min(100, (budget.spent / budget.monthlyBudget) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Monthly Budget</CardTitle>
+          {budget?.exhausted && <Badge variant="destructive">Template answers only</Badge>}
+        </div>
+        <CardDescription>
+          AI spending limit for {courseName}. Once it is used up, AI features answer from
+          templates until next month.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {budget?.monthlyBudget != null && (
+          <div className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span>{formatCost(budget.spent)} spent this month</span>
+              <span className="text-muted-foreground">of {formatCost(budget.monthlyBudget)}</span>
+            </div>
+            <Progress value={usedPercent} aria-label="Budget used" />
+          </div>
+        )}
+
+        <form
+          className="flex items-end gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (isValid) updateBudget({ courseId, monthlyBudget: parsed });
+          }}
+        >
+          <div className="flex-1 space-y-1">
+            <Label htmlFor={`llm-budget-${courseId}`}>Budget (USD per month)</Label>
+            <Input
+              id={`llm-budget-${courseId}`}
+              type="number"
+              min={0}
+              step={0.5}
+              inputMode="decimal"
+              placeholder="No limit"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+            />
+          </div>
+          <Button type="submit" disabled={!isValid || isPending}>
+            Save
+          </Button>
+          {budget?.monthlyBudget != null && (
+            <Button
+              type="button"
+              variant="outline"
+              disabled={isPending}
+              onClick={() => {
+                setValue("");
+                updateBudget({ courseId, monthlyBudget: null });
+              }}
+            >
+              Remove
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
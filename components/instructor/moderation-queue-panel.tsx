@@ -0,0 +1,139 @@
+"use client";
+
+import Link from "next/link";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Flag, ExternalLink } from "lucide-react";
+import { useModerationQueue, useReviewModerationItem } from "@/lib/api/hooks";
+import type { FlagReason, ModerationAction, ModerationQueueItem } from "@/lib/models/types";
+import { FLAG_REASON_LABELS } from "@/components/course/flag-content-dialog";
+import { cn } from "@/lib/utils";
+
+export interface ModerationQueuePanelProps {
+  /**
+   * Course whose reports are shown
+   */
+  courseId: string;
+
+  /**
+   * Staff member reviewing
+   */
+  userId: string;
+
+  /**
+   * Optional className for composition
+   */
+  className?: string;
+}
+
+const SEVERITY_LABELS: Record<number, string> = {
+  4: "Critical",
+  3: "High",
+  2: "Medium",
+  1: "Low",
+};
+
+const SEVERITY_STYLES: Record<number, string> = {
+  4: "bg-danger/10 text-danger border-danger/30",
+  3: "bg-warning/10 text-warning border-warning/30",
+};
+
+/**
+ * ModerationQueuePanel - Threads and replies reported by students
+ *
+ * Displays:
+ * - One row per reported item, most severe first, with its open report
+ *   count and the reasons given
+ * - Resolve (acted upon) and dismiss (content stays up) actions; either
+ *   closes the item's reports and notifies the reporters
+ *
+ * @example
+ * ```tsx
+ * <ModerationQueuePanel courseId="course-cs101" userId={user.id} />
+ * ```
+ */
+export function ModerationQueuePanel({ courseId, userId, className }: ModerationQueuePanelProps) {
+  const { data: items, isLoading } = useModerationQueue(courseId, userId);
+  const { mutate: reviewItem, isPending: isReviewing } = useReviewModerationItem();
+
+  const review = (item: ModerationQueueItem, action: ModerationAction) =>
+    reviewItem({
+      courseId: item.courseId,
+      threadId: item.threadId,
+      targetType: item.targetType,
+      targetId: item.targetId,
+      action,
+      userId,
+    });
+
+  return (
+    <Card className={cn(className)}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Reported Content</CardTitle>
+          <Flag className="h-4 w-4 text-muted-foreground" />
+        </div>
+        <CardDescription>
+          Questions and replies students reported, most severe first. Reporters are notified when you resolve or
+          dismiss a report.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="h-20 bg-muted rounded animate-pulse"></div>
+        ) : !items || items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No open reports.</p>
+        ) : (
+          items.map((item) => (
+            <div
+              key={`${item.targetType}-${item.targetId}`}
+              className="space-y-2 border-b pb-3 last:border-b-0 last:pb-0"
+            >
+              <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                <Badge variant="outline" className={SEVERITY_STYLES[item.severity]}>
+                  {SEVERITY_LABELS[item.severity] ?? "Low"}
+                </Badge>
+                <span>
+                  {item.reportCount} {item.reportCount === 1 ? "report" : "reports"} ·{" "}
+                  {item.targetType === "thread" ? "Question" : "Reply"} · last reported{" "}
+                  {new Date(item.lastReportedAt).toLocaleString()}
+                </span>
+              </div>
+              <Link
+                href={`/threads/${item.threadId}`}
+                className="flex items-center gap-1 text-sm font-medium hover:underline"
+              >
+                {item.threadTitle || "Deleted question"}
+                <ExternalLink className="h-3 w-3" />
+              </Link>
+              {item.deletedAt ? (
+                <p className="text-sm italic text-muted-foreground">Already deleted</p>
+              ) : (
+                <p className="text-sm line-clamp-3">{item.content}</p>
+              )}
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-1">
+                  {(Object.entries(item.reasons) as [FlagReason, number][]).map(([reason, count]) => (
+                    <Badge key={reason} variant="secondary">
+                      {FLAG_REASON_LABELS[reason] ?? reason}
+                      {count > 1 ? ` ×${count}` : ""}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex shrink-0 gap-2">
+                  <Button size="sm" variant="outline" disabled={isReviewing} onClick={() => review(item, "dismiss")}>
+                    Dismiss
+                  </Button>
+                  <Button size="sm" disabled={isReviewing} onClick={() => review(item, "resolve")}>
+                    Resolve
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,174 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useCoursePromptSettings, useUpdateCoursePromptSettings } from "@/lib/api/hooks";
+import { DEFAULT_PERSONA } from "@/lib/llm/prompts/templates";
+import type { Course, CoursePromptSettings } from "@/lib/models/types";
+import { cn } from "@/lib/utils";
+
+export interface PromptSettingsPanelProps {
+  /**
+   * Course to edit (undefined when no course is selected)
+   */
+  courseId?: string;
+
+  /**
+   * Managed courses (for the course name, and the course when there is only one)
+   */
+  courses: Course[];
+
+  /**
+   * Optional className for composition
+   */
+  className?: string;
+}
+
+/**
+ * PromptSettingsPanel - Edits the AI assistant's persona and policy for a course
+ *
+ * The persona replaces the assistant's default introduction; the policy is
+ * added to its system prompt as a rule it must follow (e.g. no full
+ * solutions for assignments). Every save bumps the settings version, which
+ * is recorded on the answers and chat replies it produced.
+ *
+ * @example
+ * ```tsx
+ * <PromptSettingsPanel courseId="course-cs101" courses={data.managedCourses} />
+ * ```
+ */
+export function PromptSettingsPanel({ courseId, courses, className }: PromptSettingsPanelProps) {
+  // Prompt settings are edited per course
+  const settingsCourseId = courseId ?? (courses.length === 1 ? courses[0].id : undefined);
+  const { data: settings, isLoading } = useCoursePromptSettings(settingsCourseId);
+
+  if (!settingsCourseId) {
+    return (
+      <Card className={className}>
+        <CardHeader>
+          <CardTitle>Assistant Persona & Policy</CardTitle>
+          <CardDescription>Select a course to customize its AI assistant</CardDescription>
+        </CardHeader>
+      </Card>
+    );
+  }
+
+  if (isLoading || !settings) {
+    return (
+      <Card className={cn("animate-pulse", className)}>
+        <CardHeader>
+          <div className="h-4 bg-muted rounded w-1/3"></div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="h-20 bg-muted rounded"></div>
+          <div className="h-20 bg-muted rounded"></div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const courseName = courses.find((c) => c.id === settingsCourseId)?.code ?? settingsCourseId;
+
+  return (
+    <PromptSettingsForm
+      key={`${settings.courseId}-${settings.version}`}
+      settings={settings}
+      courseName={courseName}
+      className={className}
+    />
+  );
+}
+
+// ============================================
+// Prompt Settings Form
+// ============================================
+
+function PromptSettingsForm({
+  settings,
+  courseName,
+  className,
+}: {
+  settings: CoursePromptSettings;
+  courseName: string;
+  className?: string;
+}) {
+  const [persona, setPersona] = useState(settings.persona ?? "");
+  const [policy, setPolicy] = useState(settings.policy ?? "");
+  const { mutate: updateSettings, isPending } = useUpdateCoursePromptSettings();
+
+  const isCustomized = settings.persona !== null || settings.policy !== null;
+  const isDirty = persona.trim() !== (settings.persona ?? "") || policy.trim() !== (settings.policy ?? "");
+
+  return (
+    <Card className={className}>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-2">
+          <CardTitle>Assistant Persona & Policy</CardTitle>
+          {settings.version > 0 && <Badge variant="outline">Version {settings.version}</Badge>}
+        </div>
+        <CardDescription>
+          How the AI assistant presents itself in {courseName}, and rules it must follow when
+          answering students.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            updateSettings({
+              courseId: settings.courseId,
+              persona: persona.trim() || null,
+              policy: policy.trim() || null,
+            });
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor={`prompt-persona-${settings.courseId}`}>Persona</Label>
+            <Textarea
+              id={`prompt-persona-${settings.courseId}`}
+              rows={3}
+              maxLength={2000}
+              placeholder={DEFAULT_PERSONA}
+              value={persona}
+              onChange={(e) => setPersona(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Leave empty to use the default persona.</p>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor={`prompt-policy-${settings.courseId}`}>Course policy</Label>
+            <Textarea
+              id={`prompt-policy-${settings.courseId}`}
+              rows={4}
+              maxLength={4000}
+              placeholder="e.g. Don't give full solutions to assignment questions; give hints instead."
+              value={policy}
+              onChange={(e) => setPolicy(e.target.value)}
+            />
+          </div>
+
+          <div className="flex items-center gap-2">
+            <Button type="submit" disabled={!isDirty || isPending}>
+              Save
+            </Button>
+            {isCustomized && (
+              <Button
+                type="button"
+                variant="outline"
+                disabled={isPending}
+                onClick={() => updateSettings({ courseId: settings.courseId, persona: null, policy: null })}
+              >
+                Reset to default
+              </Button>
+            )}
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
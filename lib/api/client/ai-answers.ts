@@ -7,7 +7,10 @@
 
 import type {
   AIAnswer,
+  AIAnswerStreamEvent,
+  EndorsedAIAnswer,
   GenerateAIAnswerInput,
+  GenerateAIAnswerOptions,
   EndorseAIAnswerInput,
   BulkEndorseInput,
   BulkActionResult,
@@ -16,6 +19,7 @@ import type {
 import {
   seedData,
   getThreadById,
+  getThreadsByCourse,
   getCourseById,
   addAIAnswer,
   updateThread,
@@ -30,6 +34,109 @@ import { delay, generateId } from "./utils";
 import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
 import { httpGet, httpPost } from "./http.client";
 
+/**
+ * AI answer as returned by the backend (routing and verification are
+ * stored as JSON strings)
+ */
+interface BackendAIAnswer extends Omit<AIAnswer, "confidenceScore" | "routing" | "verification" | "updatedAt"> {
+  confidenceScore?: number | null;
+  routing?: string | null;
+  verification?: string | null;
+}
+
+/**
+ * Score for answers saved before confidence scores were stored (the middle
+ * of each level's range)
+ */
+const LEGACY_CONFIDENCE_SCORES: Record<AIAnswer["confidenceLevel"], number> = {
+  high: 85,
+  medium: 55,
+  low: 20,
+};
+
+/**
+ * Convert a backend AI answer to the frontend AIAnswer shape
+ */
+function fromBackendAIAnswer(answer: BackendAIAnswer): AIAnswer {
+  const { confidenceScore, routing, verification, ...fields } = answer;
+  return {
+    ...fields,
+    confidenceScore: confidenceScore ?? LEGACY_CONFIDENCE_SCORES[answer.confidenceLevel],
+    updatedAt: answer.generatedAt,
+    ...(routing && { routing: JSON.parse(routing) }),
+    ...(verification && { verification: JSON.parse(verification) }),
+  };
+}
+
+/**
+ * Generate an answer with the `/api/answer` endpoint (not saved)
+ *
+ * Reads the streamed response: partial answers go to options.onPartial,
+ * and the finished answer is returned. Aborting options.signal cancels
+ * generation (the promise rejects with an AbortError).
+ */
+async function requestGeneratedAnswer(
+  input: GenerateAIAnswerInput,
+  options: GenerateAIAnswerOptions = {}
+): Promise<AIAnswer> {
+  const response = await fetch("/api/answer", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({
+      question: `${input.title}\n\n${input.content}`,
+      courseId: input.courseId,
+      userId: input.userId,
+      tags: input.tags,
+    }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`AI answer generation failed: ${response.statusText}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = "";
+
+  const handle = (line: string): AIAnswer | null => {
+    if (!line.trim()) return null;
+    const event = JSON.parse(line) as AIAnswerStreamEvent;
+
+    switch (event.type) {
+      case "partial":
+        options.onPartial?.(event.answer);
+        return null;
+      case "final":
+        return event.answer;
+      case "error":
+        throw new Error(`AI answer generation failed: ${event.error.message}`);
+    }
+  };
+
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+
+      for (const line of lines) {
+        const answer = handle(line);
+        if (answer) return answer;
+      }
+    }
+
+    const answer = handle(buffer);
+    if (answer) return answer;
+  } finally {
+    reader.releaseLock();
+  }
+
+  throw new Error("AI answer generation failed: stream ended without an answer");
+}
+
 /**
  * AI Answers API methods
  */
@@ -38,9 +145,12 @@ export const aiAnswersAPI = {
    * Generate AI answer for a thread
    *
    * Generates an AI answer using the `/api/answer` endpoint and saves it to the database.
-   * Updates the thread to mark it as having an AI answer.
+   * Updates the thread to mark it as having an AI answer. Citations are saved
+   * with the material IDs they resolved to (citations without one are not
+   * saved).
    *
    * @param input - AI answer generation parameters
+   * @param options - Partial answer callback and cancellation signal (backend mode)
    * @returns Generated AI answer object
    *
    * @throws Error if thread or course not found, or API fails
@@ -57,7 +167,46 @@ export const aiAnswersAPI = {
    * // Returns: { id: "ai-...", content: "Binary search is...", citations: [...], ... }
    * ```
    */
-  async generateAIAnswer(input: GenerateAIAnswerInput): Promise<AIAnswer> {
+  async generateAIAnswer(input: GenerateAIAnswerInput, options?: GenerateAIAnswerOptions): Promise<AIAnswer> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.aiAnswers) {
+      try {
+        const generated = await requestGeneratedAnswer(input, options);
+
+        const { aiAnswer } = await httpPost<{ aiAnswer: { id: string } }>(
+          `/api/v1/threads/${input.threadId}/ai-answer`,
+          {
+            content: generated.content,
+            confidenceLevel: generated.confidenceLevel,
+            confidenceScore: generated.confidenceScore,
+            routing: generated.routing ?? null,
+            verification: generated.verification ?? null,
+            promptVersion: generated.promptVersion ?? null,
+            citations: generated.citations.flatMap((citation, index) =>
+              citation.materialId
+                ? [{
+                    materialId: citation.materialId,
+                    source: citation.source,
+                    excerpt: citation.excerpt,
+                    relevanceScore: citation.relevance,
+                    citationNumber: index + 1,
+                    verified: citation.verified ?? false,
+                  }]
+                : []
+            ),
+          }
+        );
+
+        return { ...generated, id: aiAnswer.id, threadId: input.threadId };
+      } catch (error) {
+        // Cancelled by the caller: don't fall back to a simulated answer
+        if (options?.signal?.aborted) throw error;
+        console.error('[AI Answers] Backend generation failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
     await delay(800 + Math.random() * 400); // 800-1200ms
     seedData();
 
@@ -71,8 +220,7 @@ export const aiAnswersAPI = {
       throw new Error(`Course not found: ${input.courseId}`);
     }
 
-    // Generate mock AI answer (backend AI generation not yet implemented)
-    // TODO: Add backend endpoint when AI answer generation is implemented
+    // Generate mock AI answer (frontend-only mode)
     const now = new Date().toISOString();
     const aiAnswer: AIAnswer = {
       id: generateId("ai"),
@@ -109,8 +257,11 @@ export const aiAnswersAPI = {
    *
    * Generates an AI answer preview without saving to the database.
    * Used on the ask page to show users what the AI answer would look like.
+   * The answer streams: options.onPartial receives drafts while it is
+   * written, and aborting options.signal cancels generation.
    *
    * @param input - AI answer generation parameters
+   * @param options - Partial answer callback and cancellation signal
    * @returns Preview AI answer object (not saved)
    *
    * @throws Error if course not found or API fails
@@ -127,8 +278,7 @@ export const aiAnswersAPI = {
    * // Returns preview (NOT saved to database)
    * ```
    */
-  async generateAIPreview(input: GenerateAIAnswerInput): Promise<AIAnswer> {
-    await delay(800 + Math.random() * 400); // 800-1200ms (AI simulation)
+  async generateAIPreview(input: GenerateAIAnswerInput, options?: GenerateAIAnswerOptions): Promise<AIAnswer> {
     seedData();
 
     const course = getCourseById(input.courseId);
@@ -137,23 +287,9 @@ export const aiAnswersAPI = {
     }
 
     // Generate AI response using /api/answer endpoint
-    const response = await fetch("/api/answer", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        question: `${input.title}\n\n${input.content}`,
-        courseId: input.courseId,
-        userId: input.userId,
-      }),
-    });
-
-    if (!response.ok) {
-      throw new Error(`AI answer generation failed: ${response.statusText}`);
-    }
-
-    const data = await response.json();
+    const answer = await requestGeneratedAnswer(input, options);
     const preview: AIAnswer = {
-      ...data.answer,
+      ...answer,
       id: `preview-${Date.now()}`, // Override with preview ID
       threadId: input.threadId,
       generatedAt: new Date().toISOString(),
@@ -185,10 +321,10 @@ export const aiAnswersAPI = {
     if (BACKEND_FEATURE_FLAGS.aiAnswers) {
       try {
         // Call backend endpoint
-        const aiAnswer = await httpGet<AIAnswer>(
+        const { aiAnswer } = await httpGet<{ aiAnswer: BackendAIAnswer | null }>(
           `/api/v1/threads/${threadId}/ai-answer`
         );
-        return aiAnswer;
+        return aiAnswer ? fromBackendAIAnswer(aiAnswer) : null;
       } catch (error) {
         // If 404, return null (no AI answer exists)
         if (error instanceof Error && error.message.includes('404')) {
@@ -211,6 +347,46 @@ export const aiAnswersAPI = {
     return getAIAnswerByThread(threadId);
   },
 
+  /**
+   * Get a course's endorsed AI answers
+   *
+   * Answers an instructor endorsed, or with at least minEndorsements
+   * endorsements, on threads that are neither deleted, merged nor marked as
+   * duplicates. One backend call for the whole course.
+   *
+   * @param courseId - ID of the course
+   * @param minEndorsements - Endorsements an answer needs without an instructor's (default: 2)
+   * @returns Endorsed answers with the threads they answer
+   */
+  async getEndorsedAIAnswers(courseId: string, minEndorsements: number = 2): Promise<EndorsedAIAnswer[]> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.aiAnswers) {
+      try {
+        const { answers } = await httpGet<{
+          answers: Array<{ thread: EndorsedAIAnswer["thread"]; aiAnswer: BackendAIAnswer }>;
+        }>(`/api/v1/courses/${courseId}/ai-answers/endorsed?minEndorsements=${minEndorsements}`);
+        return answers.map(({ thread, aiAnswer }) => ({ thread, aiAnswer: fromBackendAIAnswer(aiAnswer) }));
+      } catch (error) {
+        console.error('[AI Answers] Backend getEndorsedAIAnswers failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    return getThreadsByCourse(courseId).flatMap((thread) => {
+      if (thread.deletedAt || thread.mergedInto || thread.duplicatesOf || !thread.hasAIAnswer) {
+        return [];
+      }
+      const aiAnswer = getAIAnswerByThread(thread.id);
+      return aiAnswer && (aiAnswer.instructorEndorsed || aiAnswer.totalEndorsements >= minEndorsements)
+        ? [{ thread: { id: thread.id, title: thread.title, content: thread.content }, aiAnswer }]
+        : [];
+    });
+  },
+
   /**
    * Endorse an AI answer
    *
@@ -10,6 +10,7 @@ import type {
   CreateConversationInput,
   AIMessage,
   SendMessageInput,
+  SaveChatTurnInput,
   Thread,
   AIAnswer,
 } from "@/lib/models/types";
@@ -44,6 +45,34 @@ function generateSimpleFallbackMessage(): { content: string } {
   };
 }
 
+/**
+ * AI message as returned by the backend
+ */
+interface BackendAIMessage extends Omit<AIMessage, "timestamp" | "materialReferences" | "confidenceScore" | "toolCalls" | "usage" | "promptVersion"> {
+  createdAt: string;
+  materialReferences?: AIMessage["materialReferences"] | null;
+  confidenceScore?: number | null;
+  toolCalls?: AIMessage["toolCalls"] | null;
+  usage?: AIMessage["usage"] | null;
+  promptVersion?: string | null;
+}
+
+/**
+ * Convert a backend message to the frontend AIMessage shape
+ */
+function fromBackendMessage(message: BackendAIMessage): AIMessage {
+  const { createdAt, materialReferences, confidenceScore, toolCalls, usage, promptVersion, ...fields } = message;
+  return {
+    ...fields,
+    timestamp: createdAt,
+    ...(materialReferences && { materialReferences }),
+    ...(confidenceScore != null && { confidenceScore }),
+    ...(toolCalls && { toolCalls }),
+    ...(usage && { usage }),
+    ...(promptVersion && { promptVersion }),
+  };
+}
+
 /**
  * Conversations API methods
  */
@@ -182,10 +211,10 @@ export const conversationsAPI = {
     if (BACKEND_FEATURE_FLAGS.conversations) {
       try {
         // Call backend endpoint
-        const response = await httpGet<{ messages: AIMessage[] }>(
+        const response = await httpGet<{ messages: BackendAIMessage[] }>(
           `/api/v1/conversations/${conversationId}/messages`
         );
-        return response.messages;
+        return response.messages.map(fromBackendMessage);
       } catch (error) {
         console.error('[Conversations] Backend get messages failed:', error);
         // Fall through to localStorage fallback
@@ -225,7 +254,7 @@ export const conversationsAPI = {
     if (BACKEND_FEATURE_FLAGS.conversations) {
       try {
         // Call backend endpoint
-        const response = await httpPost<{ userMessage: AIMessage }>(
+        const response = await httpPost<{ userMessage: BackendAIMessage }>(
           `/api/v1/conversations/${message.conversationId}/messages`,
           {
             userId,
@@ -233,7 +262,7 @@ export const conversationsAPI = {
             content: message.content,
           }
         );
-        return response.userMessage;
+        return fromBackendMessage(response.userMessage);
       } catch (error) {
         console.error('[Conversations] Backend createMessage failed:', error);
         // Fall through to localStorage
@@ -245,6 +274,68 @@ export const conversationsAPI = {
     return message;
   },
 
+  /**
+   * Save a finished chat turn
+   *
+   * Persists the user message and the assistant reply, with the reply's tool
+   * calls, token usage and material references. Called by /api/chat when
+   * streaming ends, so the conversation survives a cleared browser. Saving
+   * a turn again (retry, regenerate) replaces the earlier reply.
+   *
+   * Without the backend (or on the server, where there is no localStorage)
+   * the browser's own copy kept by usePersistedChat is the only one.
+   *
+   * @param input - Conversation, user, and the turn's messages
+   * @returns The turn's messages as stored
+   *
+   * @example
+   * ```ts
+   * await conversationsAPI.saveChatTurn({
+   *   conversationId: "conv-456",
+   *   userId: "user-123",
+   *   userMessage: { id: "msg-1", role: "user", content: "What is binary search?", ... },
+   *   assistantMessage: { id: "msg-2", role: "assistant", content: "Binary search... [1]", toolCalls: [...], ... },
+   * });
+   * ```
+   */
+  async saveChatTurn(input: SaveChatTurnInput): Promise<AIMessage[]> {
+    const { conversationId, userId, userMessage, assistantMessage } = input;
+
+    if (BACKEND_FEATURE_FLAGS.conversations) {
+      try {
+        const toTurnMessage = (message: AIMessage) => ({
+          id: message.id,
+          content: message.content,
+          materialReferences: message.materialReferences,
+          toolCalls: message.toolCalls,
+          usage: message.usage,
+          promptVersion: message.promptVersion,
+        });
+
+        const response = await httpPost<{ messages: BackendAIMessage[] }>(
+          `/api/v1/conversations/${conversationId}/turns`,
+          {
+            userId,
+            userMessage: toTurnMessage(userMessage),
+            assistantMessage: assistantMessage && toTurnMessage(assistantMessage),
+          }
+        );
+        return response.messages.map(fromBackendMessage);
+      } catch (error) {
+        console.error('[Conversations] Backend saveChatTurn failed:', error);
+        // Fall through to localStorage
+      }
+    }
+
+    // Fallback: localStorage (no-op on the server)
+    const turn = assistantMessage ? [userMessage, assistantMessage] : [userMessage];
+    const existingIds = new Set(getMessagesFromStore(conversationId).map((m) => m.id));
+    for (const message of turn) {
+      if (!existingIds.has(message.id)) addMessage(message);
+    }
+    return turn;
+  },
+
   /**
    * Send message in conversation (with AI SDK streaming)
    *
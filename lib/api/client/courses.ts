@@ -2,15 +2,16 @@
 // Courses API Module
 // ============================================
 //
-// Handles course retrieval, metrics, and insights
+// Handles course retrieval, assignments, metrics, and insights
 // Supports both backend (HTTP) and fallback (localStorage) modes via feature flags.
 
-import type { Course, CourseMetrics, CourseInsight } from "@/lib/models/types";
+import type { Assignment, Course, CourseMetrics, CourseInsight } from "@/lib/models/types";
 
 import {
   seedData,
   getCourses as getCoursesFromStore,
   getCourseById,
+  getAssignmentsByCourse,
   getEnrollments,
   getThreadsByCourse,
   getUsers,
@@ -120,6 +121,42 @@ export const coursesAPI = {
     return getCourseById(courseId);
   },
 
+  /**
+   * Get a course's assignments
+   *
+   * @param courseId - ID of the course
+   * @returns Assignments sorted by due date (nearest first)
+   *
+   * @example
+   * ```ts
+   * const assignments = await coursesAPI.getCourseAssignments("course-cs101");
+   * // Returns: [{ id: "assignment-1", title: "Assignment 3: ...", dueDate: "...", ... }, ...]
+   * ```
+   */
+  async getCourseAssignments(courseId: string): Promise<Assignment[]> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.courses) {
+      try {
+        // Call backend endpoint
+        const response = await httpGet<{ items: Assignment[] }>(
+          `/api/v1/courses/${courseId}/assignments`
+        );
+        return response.items;
+      } catch (error) {
+        console.error('[Courses] Backend getCourseAssignments failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage (existing implementation)
+    await delay();
+    seedData();
+
+    return getAssignmentsByCourse(courseId).sort(
+      (a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime()
+    );
+  },
+
   /**
    * Get course metrics
    *
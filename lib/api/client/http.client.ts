@@ -42,6 +42,19 @@ export class HttpError extends Error {
   }
 }
 
+/**
+ * Service key header for server-side requests
+ *
+ * API routes report LLM usage, provider health and integrity events, and
+ * write material embeddings, without a session cookie; the backend accepts
+ * those requests with SERVICE_API_KEY instead. The key has no NEXT_PUBLIC_ prefix, so it never reaches the
+ * browser.
+ */
+function serviceKeyHeaders(): Record<string, string> {
+  const key = typeof window === 'undefined' ? process.env.SERVICE_API_KEY : undefined;
+  return key ? { 'X-Service-Key': key } : {};
+}
+
 /**
  * Make HTTP request with retry logic
  */
@@ -68,6 +81,7 @@ export async function httpRequest<T>(
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
+          ...serviceKeyHeaders(),
           ...options.headers,
         },
       });
@@ -142,6 +156,24 @@ export async function httpPost<T>(
   );
 }
 
+/**
+ * HTTP PUT request
+ */
+export async function httpPut<T>(
+  path: string,
+  body: unknown,
+  config?: Partial<HttpClientConfig>
+): Promise<T> {
+  return httpRequest<T>(
+    path,
+    {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    },
+    config
+  );
+}
+
 /**
  * HTTP PATCH request
  */
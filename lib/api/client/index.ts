@@ -29,13 +29,13 @@ import { instructorAPI } from "./instructor";
  * **Migration Status:**
  * - ✅ auth (5 methods)
  * - ✅ notifications (3 methods)
- * - ✅ courses (5 methods)
- * - ✅ materials (2 methods)
- * - ✅ posts (1 method)
- * - ✅ conversations (6 methods)
+ * - ✅ courses (6 methods)
+ * - ✅ materials (4 methods)
+ * - ✅ posts (6 methods)
+ * - ✅ conversations (7 methods)
  * - ✅ ai-answers (5 methods)
- * - ✅ threads (8 methods)
- * - ✅ instructor (9 methods)
+ * - ✅ threads (15 methods)
+ * - ✅ instructor (23 methods)
  *
  * @example
  * ```ts
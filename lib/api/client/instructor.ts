@@ -3,7 +3,8 @@
 // ============================================
 //
 // Handles instructor dashboard data, analytics, FAQ clustering, trending topics,
-// insights, search, and response templates
+// insights, search, response templates, the LLM usage ledger and budgets,
+// and LLM provider health
 
 import type {
   StudentDashboardData,
@@ -25,6 +26,25 @@ import type {
   TrendDirection,
   UrgencyLevel,
   Thread,
+  LLMUsageRecord,
+  LLMProviderHealth,
+  LLMUsageSummary,
+  LLMUsageSummaryInput,
+  LLMUsageTotals,
+  CourseLLMBudget,
+  RecordLLMUsageInput,
+  UpdateCourseLLMBudgetInput,
+  CoursePromptSettings,
+  UpdateCoursePromptSettingsInput,
+  Assignment,
+  UpdateAssignmentIntegrityModeInput,
+  IntegrityEvent,
+  IntegrityEventsQuery,
+  RecordIntegrityEventInput,
+  FlagTargetType,
+  ModerationQueueItem,
+  ModerationAction,
+  ModerationActionResult,
 } from "@/lib/models/types";
 
 import {
@@ -42,6 +62,22 @@ import {
   addResponseTemplate,
   deleteResponseTemplate as deleteResponseTemplateFromStore,
   getAssignments,
+  getLLMUsageRecords,
+  addLLMUsageRecord,
+  getCourseLLMBudget as getCourseLLMBudgetFromStore,
+  setCourseLLMBudget as setCourseLLMBudgetInStore,
+  getCoursePromptSettings as getCoursePromptSettingsFromStore,
+  setCoursePromptSettings as setCoursePromptSettingsInStore,
+  setAssignmentIntegrityMode as setAssignmentIntegrityModeInStore,
+  getIntegrityEvents as getIntegrityEventsFromStore,
+  addIntegrityEvent,
+  markIntegrityEventReviewed,
+  getContentFlags,
+  updateContentFlag,
+  getThreadById,
+  updatePost,
+  addNotification,
+  getAuthSession,
 } from "@/lib/store/localStore";
 
 import {
@@ -57,10 +93,75 @@ import {
 import { calculateQuokkaPoints } from "@/lib/utils/quokka-points";
 import { calculateAllAssignmentQA } from "@/lib/utils/assignment-qa";
 
-import { delay, generateId, extractKeywords, calculateMatchRatio } from "./utils";
-import { httpGet, httpPost, httpDelete } from "./http.client";
+import {
+  delay,
+  generateId,
+  extractKeywords,
+  calculateMatchRatio,
+  isCourseStaff,
+  FLAG_REASON_SEVERITY,
+} from "./utils";
+import { httpGet, httpPost, httpPut, httpDelete } from "./http.client";
 import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
 
+/**
+ * Default LLM usage summary range: the last 30 days
+ */
+const DEFAULT_USAGE_SUMMARY_DAYS = 30;
+
+/**
+ * Sum the usage of a group of LLM calls
+ */
+function sumLLMUsage(records: LLMUsageRecord[]): LLMUsageTotals {
+  return records.reduce<LLMUsageTotals>(
+    (totals, record) => ({
+      calls: totals.calls + 1,
+      inputTokens: totals.inputTokens + record.inputTokens,
+      outputTokens: totals.outputTokens + record.outputTokens,
+      totalTokens: totals.totalTokens + record.totalTokens,
+      estimatedCost: totals.estimatedCost + record.estimatedCost,
+    }),
+    { calls: 0, inputTokens: 0, outputTokens: 0, totalTokens: 0, estimatedCost: 0 }
+  );
+}
+
+/**
+ * Group LLM calls by a key
+ */
+function groupLLMUsage<K>(records: LLMUsageRecord[], key: (record: LLMUsageRecord) => K): Map<K, LLMUsageRecord[]> {
+  const groups = new Map<K, LLMUsageRecord[]>();
+  for (const record of records) {
+    const group = groups.get(key(record)) ?? [];
+    group.push(record);
+    groups.set(key(record), group);
+  }
+  return groups;
+}
+
+/**
+ * Budget status of a course from the localStorage ledger
+ */
+function getLocalBudgetStatus(courseId: string, now = new Date()): CourseLLMBudget {
+  const budget = getCourseLLMBudgetFromStore(courseId);
+  const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  const spent = sumLLMUsage(
+    getLLMUsageRecords().filter(
+      (r) => r.courseId === courseId && new Date(r.createdAt) >= periodStart
+    )
+  ).estimatedCost;
+  const monthlyBudget = budget?.monthlyBudget ?? null;
+
+  return {
+    courseId,
+    monthlyBudget,
+    spent,
+    remaining: monthlyBudget === null ? null : Math.max(0, monthlyBudget - spent),
+    exhausted: monthlyBudget !== null && spent >= monthlyBudget,
+    periodStart: periodStart.toISOString(),
+    updatedAt: budget?.updatedAt ?? null,
+  };
+}
+
 /**
  * Instructor API methods
  */
@@ -117,8 +218,8 @@ export const instructorAPI = {
 
         // Fetch other data from localStorage (for now - will be migrated later)
         seedData();
-        const allThreads = getThreads();
-        const allPosts = getPosts();
+        const allThreads = getThreads().filter((t) => !t.deletedAt);
+        const allPosts = getPosts().filter((p) => !p.deletedAt);
         const notifications = getNotifications(userId);
         const users = getUsers();
 
@@ -333,8 +434,8 @@ export const instructorAPI = {
 
     const enrollments = getEnrollments(userId);
     const allCourses = getCourses();
-    const allThreads = getThreads();
-    const allPosts = getPosts();
+    const allThreads = getThreads().filter((t) => !t.deletedAt);
+    const allPosts = getPosts().filter((p) => !p.deletedAt);
     const notifications = getNotifications(userId);
     const users = getUsers();
 
@@ -552,7 +653,7 @@ export const instructorAPI = {
     seedData();
 
     const allCourses = getCourses();
-    const allThreads = getThreads();
+    const allThreads = getThreads().filter((t) => !t.deletedAt);
     const users = getUsers();
 
     // Get courses where user is instructor
@@ -974,8 +1075,8 @@ export const instructorAPI = {
     seedData();
 
     const allCourses = getCourses();
-    const allThreads = getThreads();
-    const allPosts = getPosts();
+    const allThreads = getThreads().filter((t) => !t.deletedAt);
+    const allPosts = getPosts().filter((p) => !p.deletedAt);
     const aiAnswers = getAIAnswers();
 
     // Get courses managed by this instructor
@@ -1324,4 +1425,589 @@ export const instructorAPI = {
 
     return metrics;
   },
+
+  /**
+   * Record an LLM call in the usage ledger
+   *
+   * Called by the LLM API routes after every call.
+   *
+   * @param input - Call details (feature, model, tokens, estimated cost)
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.recordLLMUsage({
+   *   userId: "user-123",
+   *   courseId: "course-cs101",
+   *   feature: "chat",
+   *   provider: "openai",
+   *   model: "gpt-4o-mini",
+   *   inputTokens: 1840,
+   *   outputTokens: 312,
+   *   totalTokens: 2152,
+   *   estimatedCost: 0.000463,
+   * });
+   * ```
+   */
+  async recordLLMUsage(input: RecordLLMUsageInput): Promise<void> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        await httpPost<LLMUsageRecord>(`/api/v1/llm-usage`, input);
+        return;
+      } catch (error) {
+        console.error('[Instructor] Backend recordLLMUsage failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: localStorage (no-op on the server)
+    addLLMUsageRecord({
+      ...input,
+      id: generateId('usage'),
+      createdAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * Report the health of the LLM providers (shown by /api/v1/ready)
+   *
+   * Called by the model router when a provider's circuit breaker changes
+   * state. Without the backend there is nowhere to report to.
+   *
+   * @param providers - Health of each provider, in failover order
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.reportLLMHealth([
+   *   { provider: "openai", model: "gpt-4o-mini", priority: 0, state: "open", ... },
+   *   { provider: "anthropic", model: "claude-3-haiku-20240307", priority: 1, state: "closed", ... },
+   * ]);
+   * ```
+   */
+  async reportLLMHealth(providers: LLMProviderHealth[]): Promise<void> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        await httpPut(`/api/v1/llm-health`, { providers });
+      } catch (error) {
+        console.error('[Instructor] Backend reportLLMHealth failed:', error);
+      }
+    }
+  },
+
+  /**
+   * Get LLM spend by day, course and feature
+   *
+   * @param input - Course and time range (default: every taught course, last 30 days)
+   * @returns Usage totals and breakdowns, plus budget status of the courses covered
+   *
+   * @example
+   * ```ts
+   * const summary = await instructorAPI.getLLMUsageSummary({ courseId: "course-cs101" });
+   * // summary.byFeature: [{ feature: "chat", calls: 350, estimatedCost: 0.165, ... }, ...]
+   * ```
+   */
+  async getLLMUsageSummary(input: LLMUsageSummaryInput = {}): Promise<LLMUsageSummary> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        const params = new URLSearchParams(
+          Object.entries(input).filter((entry): entry is [string, string] => !!entry[1])
+        );
+        return await httpGet<LLMUsageSummary>(`/api/v1/instructor/llm-usage?${params}`);
+      } catch (error) {
+        console.error('[Instructor] Backend getLLMUsageSummary failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Aggregate the localStorage ledger
+    await delay(100);
+
+    const to = input.to ? new Date(input.to) : new Date();
+    const from = input.from
+      ? new Date(input.from)
+      : new Date(to.getTime() - DEFAULT_USAGE_SUMMARY_DAYS * 24 * 60 * 60 * 1000);
+
+    const records = getLLMUsageRecords().filter((r) => {
+      const createdAt = new Date(r.createdAt);
+      return (
+        createdAt >= from &&
+        createdAt < to &&
+        (!input.courseId || r.courseId === input.courseId)
+      );
+    });
+
+    const byCost = (a: LLMUsageTotals, b: LLMUsageTotals) => b.estimatedCost - a.estimatedCost;
+    const courseIds = input.courseId
+      ? [input.courseId]
+      : Array.from(new Set(records.flatMap((r) => (r.courseId ? [r.courseId] : []))));
+
+    return {
+      from: from.toISOString(),
+      to: to.toISOString(),
+      totals: sumLLMUsage(records),
+      byDay: Array.from(groupLLMUsage(records, (r) => r.createdAt.slice(0, 10)))
+        .map(([date, group]) => ({ date, ...sumLLMUsage(group) }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      byCourse: Array.from(groupLLMUsage(records, (r) => r.courseId))
+        .map(([courseId, group]) => ({ courseId, ...sumLLMUsage(group) }))
+        .sort(byCost),
+      byFeature: Array.from(groupLLMUsage(records, (r) => r.feature))
+        .map(([feature, group]) => ({ feature, ...sumLLMUsage(group) }))
+        .sort(byCost),
+      budgets: courseIds
+        .map((courseId) => getLocalBudgetStatus(courseId))
+        .filter((budget) => budget.monthlyBudget !== null),
+    };
+  },
+
+  /**
+   * Get a course's monthly LLM budget and this month's spend
+   *
+   * @param courseId - ID of the course
+   * @returns Budget status (monthlyBudget is null when the course has no budget)
+   *
+   * @example
+   * ```ts
+   * const budget = await instructorAPI.getCourseLLMBudget("course-cs101");
+   * if (budget.exhausted) {
+   *   // Answer from templates until next month
+   * }
+   * ```
+   */
+  async getCourseLLMBudget(courseId: string): Promise<CourseLLMBudget> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpGet<CourseLLMBudget>(`/api/v1/courses/${courseId}/llm-budget`);
+      } catch (error) {
+        console.error('[Instructor] Backend getCourseLLMBudget failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    return getLocalBudgetStatus(courseId);
+  },
+
+  /**
+   * Set (or remove, with null) a course's monthly LLM budget
+   *
+   * @param input - Course ID and monthly budget in USD
+   * @returns Updated budget status
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.updateCourseLLMBudget({ courseId: "course-cs101", monthlyBudget: 5 });
+   * ```
+   */
+  async updateCourseLLMBudget(input: UpdateCourseLLMBudgetInput): Promise<CourseLLMBudget> {
+    const { courseId, monthlyBudget } = input;
+
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpPut<CourseLLMBudget>(`/api/v1/courses/${courseId}/llm-budget`, {
+          monthlyBudget,
+        });
+      } catch (error) {
+        console.error('[Instructor] Backend updateCourseLLMBudget failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(50);
+    setCourseLLMBudgetInStore(courseId, monthlyBudget);
+    return getLocalBudgetStatus(courseId);
+  },
+
+  /**
+   * Get a course's AI assistant prompt overrides (persona and policy)
+   *
+   * @param courseId - ID of the course
+   * @returns Prompt settings (persona/policy are null when using the defaults)
+   *
+   * @example
+   * ```ts
+   * const settings = await instructorAPI.getCoursePromptSettings("course-cs101");
+   * console.log(settings.policy); // "Don't give full solutions for assignment questions."
+   * ```
+   */
+  async getCoursePromptSettings(courseId: string): Promise<CoursePromptSettings> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpGet<CoursePromptSettings>(`/api/v1/courses/${courseId}/prompt-settings`);
+      } catch (error) {
+        console.error('[Instructor] Backend getCoursePromptSettings failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    return getCoursePromptSettingsFromStore(courseId);
+  },
+
+  /**
+   * Update a course's AI assistant prompt overrides (null restores a default)
+   *
+   * @param input - Course ID, persona and policy
+   * @returns Updated prompt settings (with a new version)
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.updateCoursePromptSettings({
+   *   courseId: "course-cs101",
+   *   persona: null,
+   *   policy: "Don't give full solutions for assignment questions.",
+   * });
+   * ```
+   */
+  async updateCoursePromptSettings(input: UpdateCoursePromptSettingsInput): Promise<CoursePromptSettings> {
+    const { courseId, persona, policy } = input;
+
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpPut<CoursePromptSettings>(`/api/v1/courses/${courseId}/prompt-settings`, {
+          persona,
+          policy,
+        });
+      } catch (error) {
+        console.error('[Instructor] Backend updateCoursePromptSettings failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(50);
+    return setCoursePromptSettingsInStore(courseId, persona, policy, getAuthSession()?.user.id ?? null);
+  },
+
+  /**
+   * Set how much help the AI assistant gives on an assignment
+   *
+   * @param input - Assignment, its course, and the new integrity mode
+   * @returns Updated assignment
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.updateAssignmentIntegrityMode({
+   *   assignmentId: "assignment-1",
+   *   courseId: "course-cs101",
+   *   integrityMode: "hint-only",
+   * });
+   * ```
+   */
+  async updateAssignmentIntegrityMode(input: UpdateAssignmentIntegrityModeInput): Promise<Assignment> {
+    const { assignmentId, integrityMode } = input;
+
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpPut<Assignment>(`/api/v1/assignments/${assignmentId}/integrity-mode`, {
+          integrityMode,
+        });
+      } catch (error) {
+        console.error('[Instructor] Backend updateAssignmentIntegrityMode failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(50);
+    const assignment = setAssignmentIntegrityModeInStore(assignmentId, integrityMode);
+    if (!assignment) {
+      throw new Error(`Assignment not found: ${assignmentId}`);
+    }
+    return assignment;
+  },
+
+  /**
+   * Log an attempt to get a full solution to a guarded assignment
+   *
+   * @param input - Course, assignment, asker, and the question with its solution signals
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.recordIntegrityEvent({
+   *   courseId: "course-cs101",
+   *   assignmentId: "assignment-1",
+   *   userId: "user-123",
+   *   feature: "chat",
+   *   mode: "hint-only",
+   *   question: "Write the full BST delete function for assignment 3",
+   *   signals: ["write the full ... function"],
+   * });
+   * ```
+   */
+  async recordIntegrityEvent(input: RecordIntegrityEventInput): Promise<void> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        await httpPost<IntegrityEvent>(`/api/v1/integrity-events`, input);
+        return;
+      } catch (error) {
+        console.error('[Instructor] Backend recordIntegrityEvent failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: localStorage (no-op on the server)
+    addIntegrityEvent({
+      ...input,
+      id: generateId('integrity'),
+      reviewedBy: null,
+      reviewedAt: null,
+      createdAt: new Date().toISOString(),
+    });
+  },
+
+  /**
+   * Get logged attempts to get full solutions (newest first)
+   *
+   * @param query - Course (default: every taught course) and review status (default: unreviewed)
+   * @returns Integrity events
+   *
+   * @example
+   * ```ts
+   * const events = await instructorAPI.getIntegrityEvents({ courseId: "course-cs101" });
+   * // [{ assignmentId: "assignment-1", question: "...", signals: ["give me the full solution"], ... }]
+   * ```
+   */
+  async getIntegrityEvents(query: IntegrityEventsQuery = {}): Promise<IntegrityEvent[]> {
+    const { courseId, status = "unreviewed" } = query;
+
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        const params = new URLSearchParams({ status, ...(courseId && { courseId }) });
+        const response = await httpGet<{ items: IntegrityEvent[] }>(
+          `/api/v1/instructor/integrity-events?${params}`
+        );
+        return response.items;
+      } catch (error) {
+        console.error('[Instructor] Backend getIntegrityEvents failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(100);
+    return getIntegrityEventsFromStore()
+      .filter((e) => !courseId || e.courseId === courseId)
+      .filter((e) => status === "all" || !e.reviewedAt)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  },
+
+  /**
+   * Mark an integrity event as reviewed
+   *
+   * @param eventId - ID of the event
+   * @returns The reviewed event
+   *
+   * @example
+   * ```ts
+   * await instructorAPI.reviewIntegrityEvent("integrity-123");
+   * ```
+   */
+  async reviewIntegrityEvent(eventId: string): Promise<IntegrityEvent> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpPost<IntegrityEvent>(`/api/v1/integrity-events/${eventId}/review`, {});
+      } catch (error) {
+        console.error('[Instructor] Backend reviewIntegrityEvent failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(50);
+    const event = markIntegrityEventReviewed(eventId, getAuthSession()?.user.id ?? null);
+    if (!event) {
+      throw new Error(`Integrity event not found: ${eventId}`);
+    }
+    return event;
+  },
+
+  /**
+   * Get a course's moderation queue (course instructor/TA only)
+   *
+   * One item per reported thread or post with open reports, most severe
+   * first, then most reported, then most recently reported.
+   *
+   * @param courseId - ID of the course
+   * @param userId - ID of the staff member viewing the queue
+   * @returns Reported items with their open reports aggregated
+   *
+   * @example
+   * ```ts
+   * const queue = await instructorAPI.getModerationQueue("course-cs101", "instructor-1");
+   * // queue[0].reasons → { harassment: 1, "off-topic": 2 }
+   * ```
+   */
+  async getModerationQueue(courseId: string, userId: string): Promise<ModerationQueueItem[]> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        const response = await httpGet<{ items: ModerationQueueItem[] }>(
+          `/api/v1/instructor/moderation-queue?courseId=${encodeURIComponent(courseId)}`
+        );
+        return response.items;
+      } catch (error) {
+        console.error('[Instructor] Backend getModerationQueue failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(200 + Math.random() * 100); // 200-300ms
+    seedData();
+
+    if (!isCourseStaff(userId, courseId)) {
+      throw new Error("Only course staff can view the moderation queue");
+    }
+
+    const flags = getContentFlags()
+      .filter((f) => f.courseId === courseId && f.status === "open")
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const allPosts = getPosts();
+
+    // Group open reports by reported item
+    const items = new Map<string, ModerationQueueItem>();
+    for (const flag of flags) {
+      const thread = getThreadById(flag.threadId);
+      const target = flag.targetType === "post" ? allPosts.find((p) => p.id === flag.targetId) : thread;
+      if (!thread || !target) continue;
+
+      const key = `${flag.targetType}:${flag.targetId}`;
+      let item = items.get(key);
+      if (!item) {
+        item = {
+          targetType: flag.targetType,
+          targetId: flag.targetId,
+          courseId: flag.courseId,
+          threadId: flag.threadId,
+          threadTitle: thread.deletedAt ? "" : thread.title,
+          content: target.deletedAt ? "" : target.content,
+          authorId: target.authorId,
+          deletedAt: target.deletedAt ?? null,
+          reportCount: 0,
+          severity: 0,
+          reasons: {},
+          firstReportedAt: flag.createdAt,
+          lastReportedAt: flag.createdAt,
+        };
+        items.set(key, item);
+      }
+
+      item.reportCount++;
+      item.severity = Math.max(item.severity, FLAG_REASON_SEVERITY[flag.reason] ?? 0);
+      item.reasons[flag.reason] = (item.reasons[flag.reason] ?? 0) + 1;
+      item.lastReportedAt = flag.createdAt;
+    }
+
+    return [...items.values()].sort(
+      (a, b) =>
+        b.severity - a.severity ||
+        b.reportCount - a.reportCount ||
+        b.lastReportedAt.localeCompare(a.lastReportedAt)
+    );
+  },
+
+  /**
+   * Resolve or dismiss the reports on a thread or post (course instructor/TA only)
+   *
+   * Closes every open report on the item and notifies each reporter.
+   *
+   * @param targetType - Kind of reported content
+   * @param targetId - ID of the reported thread or post
+   * @param action - "resolve" (acted upon) or "dismiss" (content stays up)
+   * @param userId - ID of the staff member reviewing
+   * @returns How many reports were closed
+   *
+   * @throws Error if the content isn't found, has no open reports or user lacks permission
+   */
+  async reviewModerationItem(
+    targetType: FlagTargetType,
+    targetId: string,
+    action: ModerationAction,
+    userId: string
+  ): Promise<ModerationActionResult> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.instructor) {
+      try {
+        // Call backend endpoint
+        return await httpPost<ModerationActionResult>(
+          `/api/v1/instructor/moderation-queue/${targetType}/${targetId}/${action}`,
+          {}
+        );
+      } catch (error) {
+        console.error('[Instructor] Backend reviewModerationItem failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(200 + Math.random() * 100); // 200-300ms
+    seedData();
+
+    const threadId =
+      targetType === "thread" ? targetId : getPosts().find((p) => p.id === targetId)?.threadId;
+    const thread = threadId ? getThreadById(threadId) : null;
+    if (!thread) {
+      throw new Error(`${targetType === "thread" ? "Thread" : "Post"} not found: ${targetId}`);
+    }
+    if (!isCourseStaff(userId, thread.courseId)) {
+      throw new Error("Only course staff can review reports");
+    }
+
+    const open = getContentFlags().filter(
+      (f) => f.targetType === targetType && f.targetId === targetId && f.status === "open"
+    );
+    if (open.length === 0) {
+      throw new Error(`No open reports on this ${targetType}`);
+    }
+
+    const status = action === "resolve" ? "resolved" : "dismissed";
+    const noun = targetType === "thread" ? "question" : "reply";
+    const now = new Date().toISOString();
+
+    for (const flag of open) {
+      updateContentFlag(flag.id, { status, resolvedBy: userId, resolvedAt: now });
+      addNotification({
+        id: generateId("notification"),
+        userId: flag.reporterId,
+        courseId: thread.courseId,
+        threadId: thread.id,
+        type: action === "resolve" ? "report_resolved" : "report_dismissed",
+        content:
+          action === "resolve"
+            ? `Course staff reviewed the ${noun} you reported in "${thread.title}" and took action. Thanks for letting us know.`
+            : `Course staff reviewed the ${noun} you reported in "${thread.title}" and decided it can stay up.`,
+        read: false,
+        createdAt: now,
+      });
+    }
+    if (targetType === "post") {
+      updatePost(targetId, { flagged: false });
+    }
+
+    return { targetType, targetId, status, closedCount: open.length };
+  },
 };
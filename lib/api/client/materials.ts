@@ -9,16 +9,23 @@ import type {
   CourseMaterial,
   SearchCourseMaterialsInput,
   CourseMaterialSearchResult,
+  CourseSearchAliases,
+  UpdateSearchAliasesInput,
 } from "@/lib/models/types";
 
 import {
   seedData,
   getCourseMaterialsByCourse,
+  getSearchAliases,
+  setSearchAliases,
 } from "@/lib/store/localStore";
 
-import { delay, extractKeywords, generateSnippet } from "./utils";
+import { QueryRewriter } from "@/lib/retrieval/QueryRewriter";
+import { searchMaterials } from "@/lib/retrieval/MaterialSearch";
+
+import { delay } from "./utils";
 import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
-import { httpGet, httpPost } from "./http.client";
+import { httpGet, httpPost, httpPut } from "./http.client";
 
 /**
  * Materials API methods
@@ -87,8 +94,11 @@ export const materialsAPI = {
   /**
    * Search course materials by keywords
    *
-   * Performs keyword-based search across material titles and content.
-   * Returns results scored by relevance with matched keywords highlighted.
+   * Ranks materials with BM25F, weighting title, keywords and content
+   * separately. Each result carries highlighted fragments covering every
+   * matched term.
+   * The query is rewritten first (spelling correction against the course
+   * vocabulary, course search aliases, pseudo-relevance feedback).
    *
    * @param input - Search parameters including query, course ID, type filters, and limits
    * @returns Array of search results with relevance scores and snippets
@@ -109,7 +119,8 @@ export const materialsAPI = {
    * //     material: { ... },
    * //     relevanceScore: 85,
    * //     matchedKeywords: ["binary", "search", "algorithm"],
-   * //     snippet: "...explanation of binary search algorithm which..."
+   * //     snippet: "...explanation of binary search algorithm which...",
+   * //     highlights: [{ field: "content", text: "...", ranges: [[17, 23], ...] }, ...]
    * //   },
    * //   ...
    * // ]
@@ -150,53 +161,78 @@ export const materialsAPI = {
     await delay(200 + Math.random() * 100); // 200-300ms
     seedData();
 
-    // Extract keywords from query
-    const queryKeywords = extractKeywords(query);
-
     // Get all materials for course
     const allMaterials = await materialsAPI.getCourseMaterials(courseId);
 
-    // Filter by type if specified
-    const materialsToSearch =
-      types && types.length > 0
-        ? allMaterials.filter((m) => types.includes(m.type))
-        : allMaterials;
-
-    // Score each material
-    const results: CourseMaterialSearchResult[] = materialsToSearch.map(
-      (material) => {
-        // Combine title and content for matching
-        const materialText =
-          `${material.title} ${material.content}`.toLowerCase();
-        const materialKeywords = material.keywords; // Pre-computed keywords
-
-        // Count matches
-        const matchedKeywords = queryKeywords.filter(
-          (k) => materialKeywords.includes(k) || materialText.includes(k)
-        );
+    // Rewrite the query, then rank with BM25F (same ranking as the backend)
+    const rewrite = new QueryRewriter(allMaterials, getSearchAliases(courseId).aliases).rewrite(query);
+
+    return searchMaterials(allMaterials, rewrite.rewritten, { types, limit, minRelevance });
+  },
+
+  /**
+   * Get a course's search alias table
+   *
+   * Aliases map the words students use to the canonical terms in course
+   * materials; searches containing an alias also search its term.
+   *
+   * @param courseId - ID of the course
+   * @returns The course's alias table (empty if none)
+   */
+  async getSearchAliases(courseId: string): Promise<CourseSearchAliases> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.materials) {
+      try {
+        return await httpGet<CourseSearchAliases>(`/api/v1/courses/${courseId}/search-aliases`);
+      } catch (error) {
+        console.error('[Materials] Backend alias fetch failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback: Use localStorage
+    await delay(100);
+    seedData();
+
+    return getSearchAliases(courseId);
+  },
+
+  /**
+   * Replace a course's search alias table (instructors and TAs)
+   *
+   * @param input - Course ID and the complete alias table
+   * @returns The saved alias table
+   *
+   * @throws Error if a term or alias is empty
+   */
+  async updateSearchAliases(input: UpdateSearchAliasesInput): Promise<CourseSearchAliases> {
+    const { courseId } = input;
+
+    // Drop blank aliases, reject blank terms
+    const aliases = input.aliases.map((entry) => ({
+      term: entry.term.trim(),
+      aliases: entry.aliases.map((alias) => alias.trim()).filter(Boolean),
+    }));
+    if (aliases.some((entry) => !entry.term || entry.aliases.length === 0)) {
+      throw new Error("Each search alias needs a term and at least one alias");
+    }
 
-        // Calculate relevance score
-        const relevanceScore =
-          queryKeywords.length > 0
-            ? Math.round((matchedKeywords.length / queryKeywords.length) * 100)
-            : 0;
-
-        // Generate snippet (first 150 chars with matched keywords)
-        const snippet = generateSnippet(material.content, matchedKeywords, 150);
-
-        return {
-          material,
-          relevanceScore,
-          matchedKeywords,
-          snippet,
-        };
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.materials) {
+      try {
+        return await httpPut<CourseSearchAliases>(`/api/v1/courses/${courseId}/search-aliases`, {
+          aliases,
+        });
+      } catch (error) {
+        console.error('[Materials] Backend alias update failed:', error);
+        // Fall through to localStorage fallback
       }
-    );
+    }
+
+    // Fallback: Use localStorage
+    await delay(200);
+    seedData();
 
-    // Filter by minimum relevance and sort
-    return results
-      .filter((r) => r.relevanceScore >= minRelevance)
-      .sort((a, b) => b.relevanceScore - a.relevanceScore)
-      .slice(0, limit);
+    return setSearchAliases(courseId, aliases);
   },
 };
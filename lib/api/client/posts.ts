@@ -2,16 +2,43 @@
 // Posts API Module
 // ============================================
 //
-// Handles post creation and management
+// Handles post creation, editing, revision history, deletion and reporting
 // Supports both backend (HTTP) and fallback (localStorage) modes via feature flags.
 
-import type { Post, CreatePostInput } from "@/lib/models/types";
+import type {
+  Post,
+  CreatePostInput,
+  UpdatePostInput,
+  ContentRevision,
+  ContentRemovalReason,
+  FlagContentInput,
+  FlagContentResult,
+} from "@/lib/models/types";
 
-import { seedData, addPost, updateThread } from "@/lib/store/localStore";
+import {
+  seedData,
+  addPost,
+  updatePost,
+  getPosts,
+  getThreadById,
+  updateThread,
+  getContentRevisions,
+  addContentRevision,
+} from "@/lib/store/localStore";
 
-import { delay, generateId } from "./utils";
+import {
+  delay,
+  generateId,
+  isCourseStaff,
+  toRevisionEditor,
+  resolveDeletionReason,
+  toTombstone,
+  recordContentFlag,
+  CONTENT_RESTORE_WINDOW_MS,
+} from "./utils";
+import { MAX_REPLY_DEPTH } from "@/lib/utils/reply-tree";
 import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
-import { httpPost } from "./http.client";
+import { httpGet, httpPost, httpPatch, httpDelete } from "./http.client";
 
 /**
  * Posts API methods
@@ -21,12 +48,19 @@ export const postsAPI = {
    * Create a new post (reply) in a thread
    *
    * Creates a reply post in a discussion thread and updates the thread's
-   * timestamp to reflect the new activity.
+   * timestamp to reflect the new activity. With parentPostId the post
+   * replies to another post (one level deeper, at most MAX_REPLY_DEPTH);
+   * with aiAnswerId it comments on the thread's AI answer. Replies inherit
+   * their parent's aiAnswerId.
    *
-   * @param input - Post creation parameters (threadId, content)
+   * @param input - Post creation parameters (threadId, content, optional parentPostId/aiAnswerId)
    * @param authorId - ID of the user creating the post
    * @returns Created post object
    *
+   * @throws Error if the thread is deleted, the parent post or AI answer
+   *   isn't in the thread, the parent is deleted, or it is already at the
+   *   maximum depth
+   *
    * @example
    * ```ts
    * const newPost = await postsAPI.createPost(
@@ -47,6 +81,8 @@ export const postsAPI = {
         const post = await httpPost<Post>('/api/v1/posts', {
           threadId: input.threadId,
           content: input.content,
+          parentPostId: input.parentPostId,
+          aiAnswerId: input.aiAnswerId,
         });
         return post;
       } catch (error) {
@@ -59,9 +95,40 @@ export const postsAPI = {
     await delay(300 + Math.random() * 200); // 300-500ms
     seedData();
 
+    if (getThreadById(input.threadId)?.deletedAt) {
+      throw new Error("Deleted threads can't be replied to");
+    }
+
+    // Place the post in the reply tree
+    let aiAnswerId = input.aiAnswerId ?? null;
+    let depth = 0;
+    if (input.parentPostId) {
+      const parent = getPosts().find((p) => p.id === input.parentPostId);
+      if (!parent || parent.threadId !== input.threadId) {
+        throw new Error("Parent post not found");
+      }
+      if (parent.deletedAt) {
+        throw new Error("Can't reply to a deleted post");
+      }
+      if ((parent.depth ?? 0) >= MAX_REPLY_DEPTH) {
+        throw new Error(`Replies can't be nested more than ${MAX_REPLY_DEPTH} levels deep`);
+      }
+      if (aiAnswerId && aiAnswerId !== parent.aiAnswerId) {
+        throw new Error("Parent post is not a comment on this AI answer");
+      }
+
+      aiAnswerId = parent.aiAnswerId ?? null;
+      depth = (parent.depth ?? 0) + 1;
+    } else if (aiAnswerId && getThreadById(input.threadId)?.aiAnswerId !== aiAnswerId) {
+      throw new Error("AI answer not found");
+    }
+
     const newPost: Post = {
       id: generateId("post"),
       threadId: input.threadId,
+      parentPostId: input.parentPostId ?? null,
+      aiAnswerId,
+      depth,
       authorId,
       content: input.content,
       endorsed: false,
@@ -77,4 +144,277 @@ export const postsAPI = {
 
     return newPost;
   },
+
+  /**
+   * Edit a post's content (author or course staff)
+   *
+   * Keeps the previous version as a revision (see getPostRevisions) and
+   * marks the post as edited. Edits that change nothing are ignored.
+   *
+   * @param postId - ID of the post to edit
+   * @param input - New content
+   * @param userId - ID of the user editing (must be the author or an instructor/TA of the course)
+   * @returns Updated post
+   *
+   * @throws Error if post not found or user lacks permission
+   *
+   * @example
+   * ```ts
+   * const post = await postsAPI.updatePost(
+   *   "post-123",
+   *   { content: "Corrected: the loop ends when low > high." },
+   *   "user-456"
+   * );
+   * ```
+   */
+  async updatePost(postId: string, input: UpdatePostInput, userId: string): Promise<Post> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.posts) {
+      try {
+        // Call backend endpoint
+        const post = await httpPatch<Post>(`/api/v1/posts/${postId}`, input);
+        return post;
+      } catch (error) {
+        console.error('[Posts] Backend updatePost failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const post = getPosts().find((p) => p.id === postId);
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`);
+    }
+    if (post.deletedAt) {
+      throw new Error("Deleted posts can't be edited");
+    }
+
+    const thread = getThreadById(post.threadId);
+    if (post.authorId !== userId && !(thread && isCourseStaff(userId, thread.courseId))) {
+      throw new Error("Only the author and course staff can edit this post");
+    }
+
+    if (input.content === post.content) {
+      return post;
+    }
+
+    const now = new Date().toISOString();
+    const revisions = getContentRevisions("post", postId);
+    addContentRevision({
+      id: generateId("revision"),
+      targetType: "post",
+      targetId: postId,
+      version: revisions.length + 1,
+      title: null,
+      content: post.content,
+      editedBy: post.editedBy ?? post.authorId,
+      editedAt: post.editedAt ?? post.createdAt,
+      replacedBy: userId,
+      createdAt: now,
+    });
+
+    const updates: Partial<Post> = { content: input.content, editedAt: now, editedBy: userId, updatedAt: now };
+    updatePost(postId, updates);
+
+    return { ...post, ...updates };
+  },
+
+  /**
+   * Get prior versions of a post (oldest first)
+   *
+   * The current version is the post itself.
+   *
+   * @param postId - ID of the post
+   * @returns Revisions, version 1 being the original
+   */
+  async getPostRevisions(postId: string): Promise<ContentRevision[]> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.posts) {
+      try {
+        const response = await httpGet<{ items: ContentRevision[] }>(`/api/v1/posts/${postId}/revisions`);
+        return response.items;
+      } catch (error) {
+        console.error('[Posts] Backend getPostRevisions failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(100 + Math.random() * 100); // 100-200ms
+    seedData();
+
+    // Deleted posts keep their history hidden, like the post itself
+    const deleted = !!getPosts().find((p) => p.id === postId)?.deletedAt;
+
+    return getContentRevisions("post", postId).map((revision) => ({
+      ...revision,
+      ...(deleted ? { content: "" } : {}),
+      editor: toRevisionEditor(revision.editedBy),
+    }));
+  },
+
+  /**
+   * Delete a post (soft delete)
+   *
+   * Authors retract their own replies; course staff remove replies with a
+   * moderator reason. The post is then served as a tombstone.
+   *
+   * @param postId - ID of the post to delete
+   * @param userId - ID of the user deleting
+   * @param reason - Moderator removal reason (course staff only, required for them)
+   * @returns Post tombstone
+   *
+   * @throws Error if post not found, already deleted or user lacks permission
+   */
+  async deletePost(postId: string, userId: string, reason?: ContentRemovalReason): Promise<Post> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.posts) {
+      try {
+        // Call backend endpoint
+        const query = reason ? `?reason=${encodeURIComponent(reason)}` : '';
+        const post = await httpDelete<Post>(`/api/v1/posts/${postId}${query}`);
+        return post;
+      } catch (error) {
+        console.error('[Posts] Backend deletePost failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const post = getPosts().find((p) => p.id === postId);
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`);
+    }
+    if (post.deletedAt) {
+      throw new Error("Post has already been deleted");
+    }
+
+    const thread = getThreadById(post.threadId);
+    const deletionReason = resolveDeletionReason({
+      isAuthor: post.authorId === userId,
+      isStaff: !!thread && isCourseStaff(userId, thread.courseId),
+      reason,
+    });
+
+    const now = new Date().toISOString();
+    const updates: Partial<Post> = { deletedAt: now, deletedBy: userId, deletionReason, updatedAt: now };
+    updatePost(postId, updates);
+
+    return toTombstone({ ...post, ...updates });
+  },
+
+  /**
+   * Restore a deleted post (course staff, within the restore window)
+   *
+   * @param postId - ID of the deleted post
+   * @param userId - ID of the user restoring (must be an instructor/TA of the course)
+   * @returns Restored post
+   *
+   * @throws Error if post not found, not deleted, past the restore window or user lacks permission
+   */
+  async restorePost(postId: string, userId: string): Promise<Post> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.posts) {
+      try {
+        // Call backend endpoint
+        const post = await httpPost<Post>(`/api/v1/posts/${postId}/restore`, {});
+        return post;
+      } catch (error) {
+        console.error('[Posts] Backend restorePost failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const post = getPosts().find((p) => p.id === postId);
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`);
+    }
+
+    const thread = getThreadById(post.threadId);
+    if (!thread || !isCourseStaff(userId, thread.courseId)) {
+      throw new Error("Only course staff can restore posts");
+    }
+    if (!post.deletedAt) {
+      throw new Error("Post is not deleted");
+    }
+    if (Date.now() - new Date(post.deletedAt).getTime() > CONTENT_RESTORE_WINDOW_MS) {
+      throw new Error("Restore window has expired");
+    }
+
+    const updates: Partial<Post> = {
+      deletedAt: null,
+      deletedBy: null,
+      deletionReason: null,
+      updatedAt: new Date().toISOString(),
+    };
+    updatePost(postId, updates);
+
+    return { ...post, ...updates, restoreExpiresAt: null };
+  },
+
+  /**
+   * Report a post to course staff
+   *
+   * Adds the post to the course moderation queue. Reporting a post the user
+   * already has an open report on returns that report (duplicate).
+   *
+   * @param postId - ID of the post to report
+   * @param input - Reason and optional details
+   * @param userId - ID of the user reporting (can't be the author)
+   * @returns The report and the post's open report count
+   *
+   * @throws Error if post not found, deleted, or authored by the user
+   */
+  async flagPost(postId: string, input: FlagContentInput, userId: string): Promise<FlagContentResult> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.posts) {
+      try {
+        // Call backend endpoint
+        const result = await httpPost<FlagContentResult>(`/api/v1/posts/${postId}/flag`, input);
+        return result;
+      } catch (error) {
+        console.error('[Posts] Backend flagPost failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const post = getPosts().find((p) => p.id === postId);
+    if (!post) {
+      throw new Error(`Post not found: ${postId}`);
+    }
+    if (post.deletedAt) {
+      throw new Error("Deleted posts can't be reported");
+    }
+    if (post.authorId === userId) {
+      throw new Error("You can't report your own post");
+    }
+
+    const thread = getThreadById(post.threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${post.threadId}`);
+    }
+
+    const result = recordContentFlag(
+      { courseId: thread.courseId, threadId: thread.id, targetType: "post", targetId: postId },
+      input,
+      userId
+    );
+    updatePost(postId, { flagged: true });
+
+    return result;
+  },
 };
@@ -9,11 +9,22 @@ import type {
   Thread,
   ThreadWithAIAnswer,
   CreateThreadInput,
+  UpdateThreadInput,
+  AcceptAnswerInput,
+  AcceptedEndorsement,
+  ContentRevision,
+  ContentRemovalReason,
+  FlagContentInput,
+  FlagContentResult,
   Post,
   AIAnswer,
+  GenerateAIAnswerOptions,
   Endorsement,
   Upvote,
   SimilarThread,
+  ThreadMerge,
+  MergedThread,
+  ThreadRedirect,
 } from "@/lib/models/types";
 
 import {
@@ -23,18 +34,36 @@ import {
   getAIAnswerById,
   getPostsByThread,
   updateThread,
+  updatePost,
+  addNotification,
   addThread,
   getUserById,
+  getContentRevisions,
+  addContentRevision,
 } from "@/lib/store/localStore";
 
 import { trackThreadCreated } from "@/lib/store/metrics";
 
 import { findSimilarDocuments } from "@/lib/utils/similarity";
 
-import { delay, generateId } from "./utils";
+import {
+  delay,
+  generateId,
+  isCourseStaff,
+  toRevisionEditor,
+  resolveDeletionReason,
+  toTombstone,
+  recordContentFlag,
+  CONTENT_RESTORE_WINDOW_MS,
+} from "./utils";
 import { aiAnswersAPI } from "./ai-answers";
 import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
-import { httpGet, httpPost } from "./http.client";
+import { httpGet, httpPost, httpPatch, httpDelete } from "./http.client";
+
+/**
+ * How long a merge can be undone (matches backend MERGE_UNDO_WINDOW_MS)
+ */
+const MERGE_UNDO_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
 
 /**
  * Threads API methods
@@ -117,7 +146,8 @@ export const threadsAPI = {
    * Get single thread with posts and AI answer
    *
    * Retrieves complete thread details including all replies and the AI answer.
-   * Increments the view count automatically.
+   * Increments the view count automatically. Threads that were merged into
+   * another thread resolve to the surviving thread.
    *
    * @param threadId - ID of the thread
    * @returns Thread details object or null if not found
@@ -142,7 +172,7 @@ export const threadsAPI = {
       try {
         // Fetch thread and posts in parallel
         const [thread, postsResponse] = await Promise.all([
-          httpGet<Thread>(`/api/v1/threads/${threadId}`),
+          httpGet<Thread | ThreadRedirect>(`/api/v1/threads/${threadId}`),
           httpGet<{
             items: Post[];
             nextCursor: string | null;
@@ -150,6 +180,11 @@ export const threadsAPI = {
           }>(`/api/v1/threads/${threadId}/posts?limit=100`),
         ]);
 
+        // Merged threads redirect to the thread they were merged into
+        if ("redirect" in thread) {
+          return threadsAPI.getThread(thread.redirectTo);
+        }
+
         // Backend increments view count automatically
         // AI answer not fetched yet (no backend endpoint)
         return {
@@ -170,6 +205,11 @@ export const threadsAPI = {
     const thread = getThreadById(threadId);
     if (!thread) return null;
 
+    // Merged threads redirect to the thread they were merged into
+    if (thread.duplicatesOf && thread.duplicatesOf !== threadId) {
+      return threadsAPI.getThread(thread.duplicatesOf);
+    }
+
     const posts = getPostsByThread(threadId);
     const aiAnswer = thread.aiAnswerId
       ? getAIAnswerById(thread.aiAnswerId)
@@ -179,11 +219,10 @@ export const threadsAPI = {
     updateThread(threadId, { views: thread.views + 1 });
 
     return {
-      thread: { ...thread, views: thread.views + 1 },
-      posts: posts.sort(
-        (a, b) =>
-          new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
-      ),
+      thread: toTombstone({ ...thread, views: thread.views + 1 }),
+      posts: posts
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime())
+        .map(toTombstone),
       aiAnswer,
     };
   },
@@ -196,6 +235,7 @@ export const threadsAPI = {
    *
    * @param input - Thread creation parameters
    * @param authorId - ID of the user creating the thread
+   * @param aiAnswerOptions - Streams the AI answer while it is generated (see generateAIAnswer)
    * @returns Object containing created thread and AI answer (or null if generation fails)
    *
    * @example
@@ -215,7 +255,8 @@ export const threadsAPI = {
    */
   async createThread(
     input: CreateThreadInput,
-    authorId: string
+    authorId: string,
+    aiAnswerOptions?: GenerateAIAnswerOptions
   ): Promise<{ thread: Thread; aiAnswer: AIAnswer | null }> {
     // Check feature flag for backend
     if (BACKEND_FEATURE_FLAGS.threads) {
@@ -241,7 +282,7 @@ export const threadsAPI = {
             title: input.title,
             content: input.content,
             tags: input.tags,
-          });
+          }, aiAnswerOptions);
         } catch (error) {
           console.error('[Threads] AI answer generation failed:', error);
         }
@@ -285,7 +326,7 @@ export const threadsAPI = {
         title: input.title,
         content: input.content,
         tags: input.tags,
-      });
+      }, aiAnswerOptions);
 
       // Auto-generate AI summary for the new thread (fire-and-forget)
       // Don't block thread creation waiting for summary
@@ -301,6 +342,8 @@ export const threadsAPI = {
               threadTitle: input.title,
               threadContent: input.content,
               aiAnswerContent: aiAnswer?.content,
+              courseId: input.courseId,
+              userId: authorId,
             }),
           });
 
@@ -335,6 +378,416 @@ export const threadsAPI = {
     }
   },
 
+  /**
+   * Edit a thread's title and/or content (author or course staff)
+   *
+   * Keeps the previous version as a revision (see getThreadRevisions) and
+   * marks the thread as edited. Edits that change nothing are ignored.
+   *
+   * @param threadId - ID of the thread to edit
+   * @param input - New title and/or content
+   * @param userId - ID of the user editing (must be the author or an instructor/TA of the course)
+   * @returns Updated thread
+   *
+   * @throws Error if thread not found or user lacks permission
+   *
+   * @example
+   * ```ts
+   * const thread = await threadsAPI.updateThread(
+   *   "thread-123",
+   *   { content: "Clarified: I mean the midpoint calculation." },
+   *   "user-456"
+   * );
+   * // thread.editedAt is set; the old content is revision 1
+   * ```
+   */
+  async updateThread(threadId: string, input: UpdateThreadInput, userId: string): Promise<Thread> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const thread = await httpPatch<Thread>(`/api/v1/threads/${threadId}`, input);
+        return thread;
+      } catch (error) {
+        console.error('[Threads] Backend updateThread failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const thread = getThreadById(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (thread.duplicatesOf) {
+      throw new Error("Thread has been merged and can no longer be edited");
+    }
+    if (thread.deletedAt) {
+      throw new Error("Deleted threads can't be edited");
+    }
+    if (thread.authorId !== userId && !isCourseStaff(userId, thread.courseId)) {
+      throw new Error("Only the author and course staff can edit this thread");
+    }
+
+    const title = input.title ?? thread.title;
+    const content = input.content ?? thread.content;
+    if (title === thread.title && content === thread.content) {
+      return thread;
+    }
+
+    const now = new Date().toISOString();
+    const revisions = getContentRevisions("thread", threadId);
+    addContentRevision({
+      id: generateId("revision"),
+      targetType: "thread",
+      targetId: threadId,
+      version: revisions.length + 1,
+      title: thread.title,
+      content: thread.content,
+      editedBy: thread.editedBy ?? thread.authorId,
+      editedAt: thread.editedAt ?? thread.createdAt,
+      replacedBy: userId,
+      createdAt: now,
+    });
+
+    const updates: Partial<Thread> = { title, content, editedAt: now, editedBy: userId, updatedAt: now };
+    updateThread(threadId, updates);
+
+    return { ...thread, ...updates };
+  },
+
+  /**
+   * Get prior versions of a thread (oldest first)
+   *
+   * The current version is the thread itself.
+   *
+   * @param threadId - ID of the thread
+   * @returns Revisions, version 1 being the original
+   */
+  async getThreadRevisions(threadId: string): Promise<ContentRevision[]> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        const response = await httpGet<{ items: ContentRevision[] }>(`/api/v1/threads/${threadId}/revisions`);
+        return response.items;
+      } catch (error) {
+        console.error('[Threads] Backend getThreadRevisions failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(100 + Math.random() * 100); // 100-200ms
+    seedData();
+
+    // Deleted threads keep their history hidden, like the thread itself
+    const deleted = !!getThreadById(threadId)?.deletedAt;
+
+    return getContentRevisions("thread", threadId).map((revision) => ({
+      ...revision,
+      ...(deleted ? { title: revision.title === null ? null : "", content: "" } : {}),
+      editor: toRevisionEditor(revision.editedBy),
+    }));
+  },
+
+  /**
+   * Delete a thread (soft delete)
+   *
+   * Authors retract their own threads; course staff remove threads with a
+   * moderator reason. The thread is then served as a tombstone and drops out
+   * of course listings, duplicate detection, search and Quokka Points.
+   *
+   * @param threadId - ID of the thread to delete
+   * @param userId - ID of the user deleting
+   * @param reason - Moderator removal reason (course staff only, required for them)
+   * @returns Thread tombstone
+   *
+   * @throws Error if thread not found, already deleted or user lacks permission
+   *
+   * @example
+   * ```ts
+   * const tombstone = await threadsAPI.deleteThread("thread-123", "instructor-456", "off-topic");
+   * // tombstone.deletionReason === "off-topic"
+   * ```
+   */
+  async deleteThread(threadId: string, userId: string, reason?: ContentRemovalReason): Promise<Thread> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const query = reason ? `?reason=${encodeURIComponent(reason)}` : '';
+        const thread = await httpDelete<Thread>(`/api/v1/threads/${threadId}${query}`);
+        return thread;
+      } catch (error) {
+        console.error('[Threads] Backend deleteThread failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const thread = getThreadById(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (thread.deletedAt) {
+      throw new Error("Thread has already been deleted");
+    }
+
+    const deletionReason = resolveDeletionReason({
+      isAuthor: thread.authorId === userId,
+      isStaff: isCourseStaff(userId, thread.courseId),
+      reason,
+    });
+
+    const now = new Date().toISOString();
+    const updates: Partial<Thread> = { deletedAt: now, deletedBy: userId, deletionReason, updatedAt: now };
+    updateThread(threadId, updates);
+
+    return toTombstone({ ...thread, ...updates });
+  },
+
+  /**
+   * Restore a deleted thread (course staff, within the restore window)
+   *
+   * @param threadId - ID of the deleted thread
+   * @param userId - ID of the user restoring (must be an instructor/TA of the course)
+   * @returns Restored thread
+   *
+   * @throws Error if thread not found, not deleted, past the restore window or user lacks permission
+   */
+  async restoreThread(threadId: string, userId: string): Promise<Thread> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const thread = await httpPost<Thread>(`/api/v1/threads/${threadId}/restore`, {});
+        return thread;
+      } catch (error) {
+        console.error('[Threads] Backend restoreThread failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const thread = getThreadById(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (!isCourseStaff(userId, thread.courseId)) {
+      throw new Error("Only course staff can restore threads");
+    }
+    if (!thread.deletedAt) {
+      throw new Error("Thread is not deleted");
+    }
+    if (Date.now() - new Date(thread.deletedAt).getTime() > CONTENT_RESTORE_WINDOW_MS) {
+      throw new Error("Restore window has expired");
+    }
+
+    const updates: Partial<Thread> = {
+      deletedAt: null,
+      deletedBy: null,
+      deletionReason: null,
+      updatedAt: new Date().toISOString(),
+    };
+    updateThread(threadId, updates);
+
+    return { ...thread, ...updates, restoreExpiresAt: null };
+  },
+
+  /**
+   * Mark a post or the AI answer as the thread's accepted answer
+   *
+   * Resolves the thread and pins the answer; accepting another answer
+   * replaces it. An accepted post counts as an endorsement from whoever
+   * accepted it (unless they wrote it), which is what Quokka Points are
+   * awarded for; accepting another answer takes it back. The post's author and, when staff accepted it, the
+   * question author get a "resolved" notification.
+   *
+   * @param threadId - ID of the thread
+   * @param input - Post or AI answer to accept
+   * @param userId - ID of the user accepting (the question author or an instructor/TA of the course)
+   * @returns Resolved thread
+   *
+   * @throws Error if thread or answer not found, either is deleted, or user lacks permission
+   *
+   * @example
+   * ```ts
+   * const thread = await threadsAPI.acceptAnswer(
+   *   "thread-123",
+   *   { targetType: "post", targetId: "post-456" },
+   *   "user-789"
+   * );
+   * // thread.status === "resolved", thread.acceptedAnswerId === "post-456"
+   * ```
+   */
+  async acceptAnswer(threadId: string, input: AcceptAnswerInput, userId: string): Promise<Thread> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const thread = await httpPost<Thread>(`/api/v1/threads/${threadId}/accepted-answer`, input);
+        return thread;
+      } catch (error) {
+        console.error('[Threads] Backend acceptAnswer failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const thread = getThreadById(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (thread.deletedAt) {
+      throw new Error("Deleted threads can't be resolved");
+    }
+
+    const isStaff = isCourseStaff(userId, thread.courseId);
+    if (thread.authorId !== userId && !isStaff) {
+      throw new Error("Only the question author and course staff can accept an answer");
+    }
+
+    const post =
+      input.targetType === "post" ? getPostsByThread(threadId).find((p) => p.id === input.targetId) : undefined;
+    if (input.targetType === "post") {
+      if (!post) {
+        throw new Error(`Post not found: ${input.targetId}`);
+      }
+      if (post.deletedAt) {
+        throw new Error("Deleted posts can't be accepted");
+      }
+    } else if (thread.aiAnswerId !== input.targetId) {
+      throw new Error(`AI answer not found: ${input.targetId}`);
+    }
+
+    // Accepting the current answer again changes nothing
+    if (thread.acceptedAnswerType === input.targetType && thread.acceptedAnswerId === input.targetId) {
+      return thread;
+    }
+
+    // Take back the endorsement the previous acceptance added
+    if (thread.acceptedEndorsement && thread.acceptedAnswerType === "post") {
+      const previous = getPostsByThread(threadId).find((p) => p.id === thread.acceptedAnswerId);
+      if (previous) {
+        const endorsedBy = (previous.endorsedBy ?? []).filter((id) => id !== thread.acceptedBy);
+        updatePost(previous.id, {
+          endorsed: endorsedBy.length > 0,
+          endorsedBy,
+          instructorEndorsed: previous.instructorEndorsed && thread.acceptedEndorsement !== "instructor",
+        });
+      }
+    }
+
+    let acceptedEndorsement: AcceptedEndorsement | null = null;
+    if (post && post.authorId !== userId && !post.endorsedBy?.includes(userId)) {
+      acceptedEndorsement = isStaff && !post.instructorEndorsed ? "instructor" : "peer";
+      updatePost(post.id, {
+        endorsed: true,
+        endorsedBy: [...(post.endorsedBy ?? []), userId],
+        instructorEndorsed: post.instructorEndorsed || isStaff,
+      });
+    }
+
+    const now = new Date().toISOString();
+    const updates: Partial<Thread> = {
+      status: "resolved",
+      acceptedAnswerType: input.targetType,
+      acceptedAnswerId: input.targetId,
+      acceptedBy: userId,
+      acceptedAt: now,
+      acceptedEndorsement,
+      updatedAt: now,
+    };
+    updateThread(threadId, updates);
+
+    const recipients = new Map<string, string>();
+    if (thread.authorId !== userId) {
+      recipients.set(thread.authorId, `Course staff marked an accepted answer on "${thread.title}".`);
+    }
+    if (post && post.authorId !== userId) {
+      recipients.set(post.authorId, `Your reply to "${thread.title}" was marked as the accepted answer.`);
+    }
+    for (const [recipientId, content] of recipients) {
+      addNotification({
+        id: generateId("notification"),
+        userId: recipientId,
+        courseId: thread.courseId,
+        threadId: thread.id,
+        type: "resolved",
+        content,
+        read: false,
+        createdAt: now,
+      });
+    }
+
+    return { ...thread, ...updates };
+  },
+
+  /**
+   * Report a thread to course staff
+   *
+   * Adds the thread to the course moderation queue. Reporting a thread the
+   * user already has an open report on returns that report (duplicate).
+   *
+   * @param threadId - ID of the thread to report
+   * @param input - Reason and optional details
+   * @param userId - ID of the user reporting (can't be the author)
+   * @returns The report and the thread's open report count
+   *
+   * @throws Error if thread not found, deleted, or authored by the user
+   *
+   * @example
+   * ```ts
+   * const { reportCount } = await threadsAPI.flagThread("thread-123", { reason: "spam" }, "user-456");
+   * ```
+   */
+  async flagThread(threadId: string, input: FlagContentInput, userId: string): Promise<FlagContentResult> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const result = await httpPost<FlagContentResult>(`/api/v1/threads/${threadId}/flag`, input);
+        return result;
+      } catch (error) {
+        console.error('[Threads] Backend flagThread failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    const thread = getThreadById(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+    if (thread.deletedAt) {
+      throw new Error("Deleted threads can't be reported");
+    }
+    if (thread.authorId === userId) {
+      throw new Error("You can't report your own thread");
+    }
+
+    return recordContentFlag(
+      { courseId: thread.courseId, threadId, targetType: "thread", targetId: threadId },
+      input,
+      userId
+    );
+  },
+
   /**
    * Endorse a thread (instructor/TA only)
    *
@@ -530,7 +983,8 @@ export const threadsAPI = {
    * Uses TF-IDF + cosine similarity to find existing threads similar to the proposed new thread.
    * Returns threads with 80%+ similarity to help prevent duplicate questions.
    *
-   * NOTE: Backend endpoint not yet implemented - using localStorage implementation only.
+   * With the backend enabled, ranking runs against the server's per-course index
+   * (results include matchedTerms); otherwise it runs over localStorage threads.
    *
    * @param input - Thread creation input (title, content, courseId)
    * @returns Array of similar threads with similarity scores
@@ -555,8 +1009,25 @@ export const threadsAPI = {
   async checkThreadDuplicates(
     input: CreateThreadInput
   ): Promise<SimilarThread[]> {
-    // Duplicate detection uses localStorage implementation
-    // Backend endpoint not yet implemented - skip backend call to avoid 404 errors
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint (server-side TF-IDF index)
+        const response = await httpPost<{ items: SimilarThread[] }>(
+          `/api/v1/courses/${input.courseId}/threads/duplicates`,
+          {
+            title: input.title,
+            content: input.content,
+          }
+        );
+        return response.items;
+      } catch (error) {
+        console.error('[Threads] Backend checkThreadDuplicates failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage (existing implementation)
     await delay(200 + Math.random() * 200); // 200-400ms
     seedData();
 
@@ -598,13 +1069,14 @@ export const threadsAPI = {
    * Merges sourceThread into targetThread:
    * - Marks source as merged (duplicatesOf = targetId)
    * - Updates target with mergedFrom array
-   * - Preserves citations and content from both threads
-   * - Creates permanent redirect
+   * - Moves replies and upvotes from source to target (backend)
+   * - Creates redirect from source to target
+   * - Returns a merge record that can be undone for a short window
    *
    * @param sourceId - Thread to merge (will be marked as duplicate)
    * @param targetId - Thread to merge into (will remain active)
    * @param userId - User performing the merge (must be instructor/TA)
-   * @returns Updated target thread with merge metadata
+   * @returns Updated target thread with merge record
    *
    * @throws Error if threads not found, same thread, or user lacks permission
    *
@@ -623,12 +1095,12 @@ export const threadsAPI = {
     sourceId: string,
     targetId: string,
     userId: string
-  ): Promise<Thread> {
+  ): Promise<MergedThread> {
     // Check feature flag for backend
     if (BACKEND_FEATURE_FLAGS.threads) {
       try {
         // Call backend endpoint
-        const mergedThread = await httpPost<Thread>('/api/v1/threads/merge', {
+        const mergedThread = await httpPost<MergedThread>('/api/v1/threads/merge', {
           sourceId,
           targetId,
         });
@@ -656,6 +1128,9 @@ export const threadsAPI = {
     if (sourceId === targetId) {
       throw new Error("Cannot merge a thread with itself");
     }
+    if (sourceThread.duplicatesOf) {
+      throw new Error("Source thread has already been merged");
+    }
 
     // Validate user has instructor or TA role
     const user = getUserById(userId);
@@ -682,6 +1157,80 @@ export const threadsAPI = {
     };
     updateThread(targetId, updatedTarget);
 
-    return updatedTarget;
+    const now = Date.now();
+    const merge: ThreadMerge = {
+      id: generateId("merge"),
+      sourceThreadId: sourceId,
+      targetThreadId: targetId,
+      mergedBy: userId,
+      movedPostCount: 0, // localStorage posts stay on the source thread
+      movedUpvoteCount: 0,
+      undoExpiresAt: new Date(now + MERGE_UNDO_WINDOW_MS).toISOString(),
+      undoneAt: null,
+      createdAt: new Date(now).toISOString(),
+    };
+
+    return { ...updatedTarget, merge };
+  },
+
+  /**
+   * Undo a thread merge (instructor/TA only)
+   *
+   * Reverts a merge returned by mergeThreads while its undo window is open:
+   * the source thread stops redirecting and gets its replies and upvotes back.
+   *
+   * @param merge - Merge record returned by mergeThreads
+   * @returns Merge record with undoneAt set
+   *
+   * @throws Error if the undo window has expired
+   *
+   * @example
+   * ```ts
+   * const merged = await threadsAPI.mergeThreads("thread-dup", "thread-orig", "ta-1");
+   * // TA realizes it was the wrong thread
+   * await threadsAPI.undoMergeThreads(merged.merge);
+   * ```
+   */
+  async undoMergeThreads(merge: ThreadMerge): Promise<ThreadMerge> {
+    // Check feature flag for backend
+    if (BACKEND_FEATURE_FLAGS.threads) {
+      try {
+        // Call backend endpoint
+        const response = await httpPost<{ success: boolean; merge: ThreadMerge; message: string }>(
+          `/api/v1/threads/merge/${merge.id}/undo`,
+          {}
+        );
+        return response.merge;
+      } catch (error) {
+        console.error('[Threads] Backend undoMergeThreads failed:', error);
+        // Fall through to localStorage fallback
+      }
+    }
+
+    // Fallback to localStorage
+    await delay(200 + Math.random() * 200); // 200-400ms
+    seedData();
+
+    if (new Date(merge.undoExpiresAt).getTime() < Date.now()) {
+      throw new Error("Undo window has expired for this merge");
+    }
+
+    const sourceThread = getThreadById(merge.sourceThreadId);
+    const targetThread = getThreadById(merge.targetThreadId);
+
+    if (sourceThread) {
+      updateThread(merge.sourceThreadId, {
+        duplicatesOf: undefined,
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    if (targetThread) {
+      updateThread(merge.targetThreadId, {
+        mergedFrom: (targetThread.mergedFrom || []).filter((id) => id !== merge.sourceThreadId),
+        updatedAt: new Date().toISOString(),
+      });
+    }
+
+    return { ...merge, undoneAt: new Date().toISOString() };
   },
 };
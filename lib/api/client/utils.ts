@@ -4,6 +4,23 @@
 //
 // Helper functions used across API modules
 
+import type {
+  ContentRevision,
+  ContentDeletionReason,
+  ContentRemovalReason,
+  ContentFlag,
+  FlagReason,
+  FlagContentInput,
+  FlagContentResult,
+} from "@/lib/models/types";
+import {
+  getEnrollments,
+  getUserById,
+  getContentFlags,
+  addContentFlag,
+  updateContentFlag,
+} from "@/lib/store/localStore";
+
 /**
  * Simulates network delay for mock API
  *
@@ -29,6 +46,132 @@ export function generateId(prefix: string): string {
   return `${prefix}-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 }
 
+/**
+ * Whether a user is an instructor or TA of a course (localStorage enrollments)
+ *
+ * @param userId - User to check
+ * @param courseId - Course to check
+ */
+export function isCourseStaff(userId: string, courseId: string): boolean {
+  return getEnrollments(userId).some(
+    (e) => e.courseId === courseId && (e.role === "instructor" || e.role === "ta")
+  );
+}
+
+/**
+ * How long deleted content can be restored (matches backend CONTENT_RESTORE_WINDOW_MS)
+ */
+export const CONTENT_RESTORE_WINDOW_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+/**
+ * Decide the recorded deletion reason, or reject the deletion
+ *
+ * Course staff remove content with a moderator reason; authors retract
+ * their own content without one (mirrors the backend rules).
+ *
+ * @throws Error if the user may not delete the content this way
+ */
+export function resolveDeletionReason(options: {
+  isAuthor: boolean;
+  isStaff: boolean;
+  reason?: ContentRemovalReason;
+}): ContentDeletionReason {
+  const { isAuthor, isStaff, reason } = options;
+
+  if (reason) {
+    if (!isStaff) {
+      throw new Error("Only course staff can remove content with a moderator reason");
+    }
+    return reason;
+  }
+  if (isAuthor) return "retracted";
+  if (isStaff) {
+    throw new Error("A removal reason is required");
+  }
+  throw new Error("Only the author and course staff can delete this content");
+}
+
+/**
+ * Serve deleted content as a tombstone (blank title/content plus restore deadline)
+ */
+export function toTombstone<T extends { deletedAt?: string | null; content: string; title?: string }>(item: T): T {
+  if (!item.deletedAt) return item;
+
+  return {
+    ...item,
+    ...(item.title !== undefined ? { title: "" } : {}),
+    content: "",
+    restoreExpiresAt: new Date(new Date(item.deletedAt).getTime() + CONTENT_RESTORE_WINDOW_MS).toISOString(),
+  };
+}
+
+/**
+ * Editor details for a revision (localStorage users)
+ *
+ * @param userId - User who wrote the revision
+ */
+export function toRevisionEditor(userId: string | null): ContentRevision["editor"] {
+  const user = userId ? getUserById(userId) : null;
+  return user ? { id: user.id, name: user.name, role: user.role } : null;
+}
+
+/**
+ * Severity of each report reason, higher = reviewed first (matches backend FLAG_REASON_SEVERITY)
+ */
+export const FLAG_REASON_SEVERITY: Record<FlagReason, number> = {
+  harassment: 4,
+  inappropriate: 3,
+  "academic-integrity": 3,
+  incorrect: 2,
+  spam: 2,
+  "off-topic": 1,
+  other: 1,
+};
+
+/**
+ * Record a report in localStorage (mirrors the backend rules)
+ *
+ * Each user has one report per item: an open report is returned as a
+ * duplicate, and a closed one is reopened with the new reason.
+ *
+ * @param target - Reported item and where it lives
+ * @param input - Reason and optional details
+ * @param reporterId - User reporting
+ */
+export function recordContentFlag(
+  target: Pick<ContentFlag, "courseId" | "threadId" | "targetType" | "targetId">,
+  input: FlagContentInput,
+  reporterId: string
+): FlagContentResult {
+  const isTarget = (f: ContentFlag) => f.targetType === target.targetType && f.targetId === target.targetId;
+  const countOpen = () => getContentFlags().filter((f) => isTarget(f) && f.status === "open").length;
+
+  const existing = getContentFlags().find((f) => isTarget(f) && f.reporterId === reporterId);
+  if (existing?.status === "open") {
+    return { flag: existing, reportCount: countOpen(), duplicate: true };
+  }
+
+  const report = {
+    reason: input.reason,
+    details: input.details ?? null,
+    status: "open" as const,
+    resolvedBy: null,
+    resolvedAt: null,
+    createdAt: new Date().toISOString(),
+  };
+
+  let flag: ContentFlag;
+  if (existing) {
+    updateContentFlag(existing.id, report);
+    flag = { ...existing, ...report };
+  } else {
+    flag = { id: generateId("flag"), ...target, reporterId, ...report };
+    addContentFlag(flag);
+  }
+
+  return { flag, reportCount: countOpen(), duplicate: false };
+}
+
 /**
  * Extract keywords from text (lowercase, >2 chars, common words removed)
  *
@@ -41,6 +41,7 @@ export const HTTP_STATUS = {
 export const ERROR_CODES = {
   VALIDATION_ERROR: 'VALIDATION_ERROR',
   LLM_UNAVAILABLE: 'LLM_UNAVAILABLE',
+  LLM_BUDGET_EXHAUSTED: 'LLM_BUDGET_EXHAUSTED',
   RATE_LIMIT_EXCEEDED: 'RATE_LIMIT_EXCEEDED',
   INTERNAL_ERROR: 'INTERNAL_ERROR',
   GENERATION_FAILED: 'GENERATION_FAILED',
@@ -112,6 +113,20 @@ export const commonErrors = {
       message: 'AI service is not configured. Please set up API keys in .env.local',
     }),
 
+  /** Every LLM provider failed or is skipped by its circuit breaker */
+  llmProvidersFailed: () =>
+    apiError('LLM providers unavailable', HTTP_STATUS.SERVICE_UNAVAILABLE, {
+      code: ERROR_CODES.LLM_UNAVAILABLE,
+      message: 'The AI service is temporarily unavailable. Please try again in a minute.',
+    }),
+
+  /** Course has used up its monthly LLM budget (frontend falls back to templates) */
+  llmBudgetExhausted: () =>
+    apiError('LLM budget exhausted', HTTP_STATUS.SERVICE_UNAVAILABLE, {
+      code: ERROR_CODES.LLM_BUDGET_EXHAUSTED,
+      message: 'This course has used its AI budget for the month.',
+    }),
+
   /** Resource not found */
   notFound: (resource: string) =>
     apiError(`${resource} not found`, HTTP_STATUS.NOT_FOUND, {
@@ -23,6 +23,7 @@
 // Future: Consider splitting into domain modules (auth.hooks.ts, etc.)
 // when this file exceeds 1,500 lines or individual domains exceed 300 lines.
 
+import { useCallback, useRef, useState } from "react";
 import { useMutation, useQuery, useQueryClient, useQueries } from "@tanstack/react-query";
 import type {
   LoginInput,
@@ -30,18 +31,34 @@ import type {
   AuthResult,
   CreateThreadInput,
   CreatePostInput,
+  UpdateThreadInput,
+  AcceptAnswerInput,
+  UpdatePostInput,
+  ContentRemovalReason,
+  FlagContentInput,
+  FlagTargetType,
+  ModerationAction,
   GenerateAIAnswerInput,
+  GenerateAIAnswerOptions,
+  AIAnswerDraft,
   EndorseAIAnswerInput,
   AIAnswer,
   BulkEndorseInput,
   SearchQuestionsInput,
   CreateResponseTemplateInput,
   SearchCourseMaterialsInput,
+  UpdateSearchAliasesInput,
+  LLMUsageSummaryInput,
+  UpdateCourseLLMBudgetInput,
+  UpdateCoursePromptSettingsInput,
+  UpdateAssignmentIntegrityModeInput,
+  IntegrityEventsQuery,
   AIConversation,
   AIMessage,
   CreateConversationInput,
   SendMessageInput,
   Thread,
+  ThreadMerge,
   GenerateSummaryInput,
   GenerateSummaryResult,
   AISummary,
@@ -64,7 +81,15 @@ const queryKeys = {
   courseInsights: (courseId: string) => ["courseInsights", courseId] as const,
   courseMaterials: (courseId: string) => ["courseMaterials", courseId] as const,
   searchCourseMaterials: (input: SearchCourseMaterialsInput) => ["searchCourseMaterials", input] as const,
+  searchAliases: (courseId: string) => ["searchAliases", courseId] as const,
+  llmUsageSummary: (input: LLMUsageSummaryInput) => ["llmUsageSummary", input] as const,
+  coursePromptSettings: (courseId: string) => ["coursePromptSettings", courseId] as const,
+  courseAssignments: (courseId: string) => ["courseAssignments", courseId] as const,
+  integrityEvents: (query: IntegrityEventsQuery) => ["integrityEvents", query] as const,
+  moderationQueue: (courseId: string) => ["moderationQueue", courseId] as const,
   thread: (threadId: string) => ["thread", threadId] as const,
+  threadRevisions: (threadId: string) => ["threadRevisions", threadId] as const,
+  postRevisions: (postId: string) => ["postRevisions", postId] as const,
   notifications: (userId: string, courseId?: string) =>
     courseId ? ["notifications", userId, courseId] as const : ["notifications", userId] as const,
   studentDashboard: (userId: string) => ["studentDashboard", userId] as const,
@@ -330,6 +355,36 @@ export function useSearchCourseMaterials(
   });
 }
 
+/**
+ * Get a course's search alias table
+ */
+export function useSearchAliases(courseId: string | undefined) {
+  return useQuery({
+    queryKey: courseId ? queryKeys.searchAliases(courseId) : ["searchAliases"],
+    queryFn: () => (courseId ? api.getSearchAliases(courseId) : Promise.resolve(null)),
+    enabled: !!courseId,
+    staleTime: 10 * 60 * 1000, // 10 minutes (edited rarely)
+    gcTime: 15 * 60 * 1000,    // 15 minutes
+  });
+}
+
+/**
+ * Replace a course's search alias table mutation (instructors and TAs)
+ *
+ * Invalidates material searches, which are rewritten with the aliases.
+ */
+export function useUpdateSearchAliases() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateSearchAliasesInput) => api.updateSearchAliases(input),
+    onSuccess: (table) => {
+      queryClient.setQueryData(queryKeys.searchAliases(table.courseId), table);
+      queryClient.invalidateQueries({ queryKey: ["searchCourseMaterials"] });
+    },
+  });
+}
+
 // ============================================
 // Notification Hooks
 // ============================================
@@ -400,14 +455,22 @@ export function useThread(threadId: string | undefined) {
  * Create new thread mutation
  *
  * AUTO-GENERATES AI ANSWER on success.
- * AI answer is embedded in createThread response.
+ * AI answer is embedded in createThread response; pass aiAnswerOptions to
+ * follow it while it streams.
  */
 export function useCreateThread() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({ input, authorId }: { input: CreateThreadInput; authorId: string }) =>
-      api.createThread(input, authorId),
+    mutationFn: ({
+      input,
+      authorId,
+      aiAnswerOptions,
+    }: {
+      input: CreateThreadInput;
+      authorId: string;
+      aiAnswerOptions?: GenerateAIAnswerOptions;
+    }) => api.createThread(input, authorId, aiAnswerOptions),
     onSuccess: (result, { authorId }) => {
       const { thread, aiAnswer } = result; // Destructure response
 
@@ -454,6 +517,181 @@ export function useCreatePost() {
   });
 }
 
+/**
+ * Edit thread mutation (author or course staff)
+ *
+ * Invalidates:
+ * - Thread detail and its revision history
+ * - Course threads list
+ */
+export function useUpdateThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, input, userId }: { threadId: string; input: UpdateThreadInput; userId: string }) =>
+      api.updateThread(threadId, input, userId),
+    onSuccess: (thread) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(thread.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.threadRevisions(thread.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courseThreads(thread.courseId) });
+    },
+  });
+}
+
+/**
+ * Edit post mutation (author or course staff)
+ *
+ * Invalidates:
+ * - Thread detail (posts) and the post's revision history
+ */
+export function useUpdatePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, input, userId }: { postId: string; input: UpdatePostInput; userId: string }) =>
+      api.updatePost(postId, input, userId),
+    onSuccess: (post) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(post.threadId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.postRevisions(post.id) });
+    },
+  });
+}
+
+/**
+ * Delete thread mutation (author retracts, or course staff remove with a reason)
+ *
+ * Invalidates:
+ * - Thread detail and course threads list
+ * - Dashboards (activity and Quokka Points drop the thread)
+ */
+export function useDeleteThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, userId, reason }: { threadId: string; userId: string; reason?: ContentRemovalReason }) =>
+      api.deleteThread(threadId, userId, reason),
+    onSuccess: (thread) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(thread.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courseThreads(thread.courseId) });
+      queryClient.invalidateQueries({ queryKey: ["studentDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["instructorDashboard"] });
+    },
+  });
+}
+
+/**
+ * Restore deleted thread mutation (course staff)
+ *
+ * Invalidates:
+ * - Thread detail and course threads list
+ * - Dashboards
+ */
+export function useRestoreThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, userId }: { threadId: string; userId: string }) =>
+      api.restoreThread(threadId, userId),
+    onSuccess: (thread) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(thread.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courseThreads(thread.courseId) });
+      queryClient.invalidateQueries({ queryKey: ["studentDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["instructorDashboard"] });
+    },
+  });
+}
+
+/**
+ * Accept answer mutation (question author or course staff)
+ *
+ * Invalidates:
+ * - Thread detail (status, pinned answer, endorsed post) and course threads list
+ * - Dashboards (Quokka Points for the accepted post)
+ * - Notifications (answer and question authors are notified)
+ */
+export function useAcceptAnswer() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, input, userId }: { threadId: string; input: AcceptAnswerInput; userId: string }) =>
+      api.acceptAnswer(threadId, input, userId),
+    onSuccess: (thread) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(thread.id) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.courseThreads(thread.courseId) });
+      queryClient.invalidateQueries({ queryKey: ["studentDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["instructorDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+}
+
+/**
+ * Delete post mutation (author retracts, or course staff remove with a reason)
+ *
+ * Invalidates:
+ * - Thread detail (posts)
+ * - Dashboards (Quokka Points drop the reply)
+ */
+export function useDeletePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, userId, reason }: { postId: string; userId: string; reason?: ContentRemovalReason }) =>
+      api.deletePost(postId, userId, reason),
+    onSuccess: (post) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(post.threadId) });
+      queryClient.invalidateQueries({ queryKey: ["studentDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["instructorDashboard"] });
+    },
+  });
+}
+
+/**
+ * Restore deleted post mutation (course staff)
+ *
+ * Invalidates:
+ * - Thread detail (posts)
+ * - Dashboards
+ */
+export function useRestorePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, userId }: { postId: string; userId: string }) => api.restorePost(postId, userId),
+    onSuccess: (post) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(post.threadId) });
+      queryClient.invalidateQueries({ queryKey: ["studentDashboard"] });
+      queryClient.invalidateQueries({ queryKey: ["instructorDashboard"] });
+    },
+  });
+}
+
+/**
+ * Get prior versions of a thread (oldest first)
+ */
+export function useThreadRevisions(threadId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: threadId ? queryKeys.threadRevisions(threadId) : ["threadRevisions"],
+    queryFn: () => (threadId ? api.getThreadRevisions(threadId) : Promise.resolve([])),
+    enabled: !!threadId && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes (revisions change via mutations)
+    gcTime: 10 * 60 * 1000,   // 10 minutes
+  });
+}
+
+/**
+ * Get prior versions of a post (oldest first)
+ */
+export function usePostRevisions(postId: string | undefined, enabled = true) {
+  return useQuery({
+    queryKey: postId ? queryKeys.postRevisions(postId) : ["postRevisions"],
+    queryFn: () => (postId ? api.getPostRevisions(postId) : Promise.resolve([])),
+    enabled: !!postId && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes (revisions change via mutations)
+    gcTime: 10 * 60 * 1000,   // 10 minutes
+  });
+}
+
 // ============================================
 // Dashboard Hooks
 // ============================================
@@ -512,18 +750,46 @@ export function useAIAnswer(threadId: string | undefined) {
  * This mutation generates an AI answer WITHOUT saving it.
  * Used to show users what the AI response would look like
  * before they commit to creating the thread.
+ *
+ * The answer streams: draft holds the answer so far (read it while the
+ * mutation is pending). Starting a new preview cancels the previous one; cancel() stops
+ * generation and resets the mutation (e.g. when the question is edited).
  */
 export function useGenerateAIPreview() {
   const queryClient = useQueryClient();
-
-  return useMutation({
-    mutationFn: (input: GenerateAIAnswerInput) => api.generateAIPreview(input),
+  const [draft, setDraft] = useState<AIAnswerDraft | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: (input: GenerateAIAnswerInput) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setDraft(null);
+
+      return api.generateAIPreview(input, {
+        signal: controller.signal,
+        onPartial: (partial) => {
+          if (!controller.signal.aborted) setDraft(partial);
+        },
+      });
+    },
     onSuccess: (preview, input) => {
       // Cache preview with short expiry (30 seconds)
       const questionHash = hashQuestion(input.title + input.content);
       queryClient.setQueryData(queryKeys.aiPreview(questionHash), preview);
     },
   });
+
+  const { reset } = mutation;
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setDraft(null);
+    reset();
+  }, [reset]);
+
+  return { ...mutation, draft, cancel };
 }
 
 /**
@@ -1394,6 +1660,37 @@ export function useMergeThreads() {
   });
 }
 
+/**
+ * Undo a thread merge
+ *
+ * Reverts a merge while its undo window is open (instructor/TA only).
+ *
+ * Invalidates:
+ * - Both thread detail queries
+ * - Course threads list
+ */
+export function useUndoMergeThreads() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (merge: ThreadMerge) => api.undoMergeThreads(merge),
+    onSuccess: (merge) => {
+      // Invalidate both threads
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.thread(merge.sourceThreadId)
+      });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.thread(merge.targetThreadId)
+      });
+
+      // Invalidate course threads lists
+      queryClient.invalidateQueries({
+        queryKey: ["courseThreads"]
+      });
+    },
+  });
+}
+
 // ============================================
 // Phase 3.4: Instructor Metrics Hooks
 // ============================================
@@ -1429,3 +1726,201 @@ export function useInstructorMetrics(
     gcTime: 10 * 60 * 1000,   // 10 minutes
   });
 }
+
+/**
+ * Get LLM spend by day, course and feature (instructors and TAs)
+ *
+ * Usage:
+ * ```tsx
+ * const { data: usage } = useLLMUsageSummary({ courseId: 'course-cs101' });
+ * ```
+ */
+export function useLLMUsageSummary(input: LLMUsageSummaryInput) {
+  return useQuery({
+    queryKey: queryKeys.llmUsageSummary(input),
+    queryFn: () => api.getLLMUsageSummary(input),
+    staleTime: 60 * 1000,   // 1 minute (grows with every LLM call)
+    gcTime: 5 * 60 * 1000,  // 5 minutes
+  });
+}
+
+/**
+ * Set or remove a course's monthly LLM budget mutation (instructors and TAs)
+ *
+ * Invalidates usage summaries, which include budget status.
+ */
+export function useUpdateCourseLLMBudget() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateCourseLLMBudgetInput) => api.updateCourseLLMBudget(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["llmUsageSummary"] });
+    },
+  });
+}
+
+/**
+ * Get a course's AI assistant prompt overrides (persona and policy)
+ */
+export function useCoursePromptSettings(courseId: string | undefined) {
+  return useQuery({
+    queryKey: courseId ? queryKeys.coursePromptSettings(courseId) : ["coursePromptSettings"],
+    queryFn: () => (courseId ? api.getCoursePromptSettings(courseId) : Promise.resolve(null)),
+    enabled: !!courseId,
+    staleTime: 10 * 60 * 1000, // 10 minutes (edited rarely)
+    gcTime: 15 * 60 * 1000,    // 15 minutes
+  });
+}
+
+/**
+ * Update a course's AI assistant prompt overrides mutation (instructors and TAs)
+ */
+export function useUpdateCoursePromptSettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateCoursePromptSettingsInput) => api.updateCoursePromptSettings(input),
+    onSuccess: (settings) => {
+      queryClient.setQueryData(queryKeys.coursePromptSettings(settings.courseId), settings);
+    },
+  });
+}
+
+/**
+ * Get a course's assignments (nearest due date first)
+ */
+export function useCourseAssignments(courseId: string | undefined) {
+  return useQuery({
+    queryKey: courseId ? queryKeys.courseAssignments(courseId) : ["courseAssignments"],
+    queryFn: () => (courseId ? api.getCourseAssignments(courseId) : Promise.resolve([])),
+    enabled: !!courseId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000,   // 10 minutes
+  });
+}
+
+/**
+ * Set an assignment's integrity mode mutation (instructors and TAs)
+ */
+export function useUpdateAssignmentIntegrityMode() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateAssignmentIntegrityModeInput) => api.updateAssignmentIntegrityMode(input),
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.courseAssignments(input.courseId) });
+    },
+  });
+}
+
+/**
+ * Get logged attempts to get full assignment solutions (instructors and TAs)
+ */
+export function useIntegrityEvents(query: IntegrityEventsQuery = {}) {
+  return useQuery({
+    queryKey: queryKeys.integrityEvents(query),
+    queryFn: () => api.getIntegrityEvents(query),
+    staleTime: 60 * 1000,   // 1 minute
+    gcTime: 5 * 60 * 1000,  // 5 minutes
+  });
+}
+
+/**
+ * Mark an integrity event as reviewed mutation
+ */
+export function useReviewIntegrityEvent() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (eventId: string) => api.reviewIntegrityEvent(eventId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["integrityEvents"] });
+    },
+  });
+}
+
+/**
+ * Report a thread to course staff mutation
+ *
+ * Invalidates:
+ * - Course moderation queue
+ */
+export function useFlagThread() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ threadId, input, userId }: { threadId: string; input: FlagContentInput; userId: string }) =>
+      api.flagThread(threadId, input, userId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderationQueue(result.flag.courseId) });
+    },
+  });
+}
+
+/**
+ * Report a post to course staff mutation
+ *
+ * Invalidates:
+ * - Course moderation queue
+ * - Thread detail (post flagged state)
+ */
+export function useFlagPost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ postId, input, userId }: { postId: string; input: FlagContentInput; userId: string }) =>
+      api.flagPost(postId, input, userId),
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderationQueue(result.flag.courseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(result.flag.threadId) });
+    },
+  });
+}
+
+/**
+ * Get a course's moderation queue, most severe reports first (course instructors and TAs)
+ */
+export function useModerationQueue(courseId: string | undefined, userId: string | undefined) {
+  return useQuery({
+    queryKey: courseId ? queryKeys.moderationQueue(courseId) : ["moderationQueue"],
+    queryFn: () =>
+      courseId && userId ? api.getModerationQueue(courseId, userId) : Promise.resolve([]),
+    enabled: !!courseId && !!userId,
+    staleTime: 60 * 1000,   // 1 minute
+    gcTime: 5 * 60 * 1000,  // 5 minutes
+  });
+}
+
+/**
+ * Resolve or dismiss the reports on a thread or post mutation
+ *
+ * Invalidates:
+ * - Course moderation queue
+ * - Thread detail (post flagged state)
+ * - Notifications (reporters are notified)
+ */
+export function useReviewModerationItem() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      targetType,
+      targetId,
+      action,
+      userId,
+    }: {
+      courseId: string;
+      threadId: string;
+      targetType: FlagTargetType;
+      targetId: string;
+      action: ModerationAction;
+      userId: string;
+    }) => api.reviewModerationItem(targetType, targetId, action, userId),
+    onSuccess: (_, { courseId, threadId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.moderationQueue(courseId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.thread(threadId) });
+      queryClient.invalidateQueries({ queryKey: ["notifications"] });
+    },
+  });
+}
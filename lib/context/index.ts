@@ -7,7 +7,8 @@
 //
 // Production architecture uses tool-based retrieval:
 // - /api/chat uses kb_search and kb_fetch tools
-// - Tools call handleKBSearch() which uses HybridRetriever directly
+// - Tools call handleKBSearch() which routes the query (QueryRouter) and
+//   uses passage-level hybrid retrieval directly
 // - No need for pre-built context objects
 //
 // Restore from git if needed:
@@ -15,7 +16,8 @@
 // - MultiCourseContextBuilder.ts (~400 lines) - Multi-course context with auto-detection
 //
 // Related deletions:
-// - lib/retrieval/adaptive/ - Self-RAG confidence routing (never enabled)
+// - lib/retrieval/adaptive/ - Self-RAG confidence routing (never enabled;
+//   since rebuilt as lib/retrieval/QueryRouter.ts)
 // - lib/retrieval/hierarchical/ - RAPTOR tree-based retrieval (never wired up)
 // - lib/retrieval/expansion/ - Query expansion PRF (never integrated)
 //
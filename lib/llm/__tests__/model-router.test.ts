@@ -0,0 +1,83 @@
+/**
+ * Unit tests for the model router's circuit breaker
+ *
+ * A half-open circuit lets a single trial call through; a trial call that
+ * ends without a verdict (e.g. aborted by the caller) must give the trial
+ * back, or the provider stays unavailable for good.
+ */
+
+import { APICallError } from 'ai';
+import { ModelRouter, ModelRouterError, type RoutedProvider } from '../model-router';
+
+type ProviderModel = RoutedProvider['model'];
+type CallOptions = Parameters<ModelRouter['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<ModelRouter['doGenerate']>>;
+
+const okResult: GenerateResult = {
+  content: [{ type: 'text', text: 'ok' }],
+  finishReason: 'stop',
+  usage: { inputTokens: 1, outputTokens: 1, totalTokens: 2 },
+  warnings: [],
+};
+
+function apiError(statusCode: number): APICallError {
+  return new APICallError({
+    message: `HTTP ${statusCode}`,
+    url: 'https://llm.test/v1',
+    requestBodyValues: {},
+    statusCode,
+  });
+}
+
+// Model whose calls run the given handlers in order
+function scriptedModel(handlers: Array<() => Promise<GenerateResult>>): ProviderModel {
+  let calls = 0;
+  return {
+    specificationVersion: 'v2',
+    provider: 'test',
+    modelId: 'test-model',
+    supportedUrls: {},
+    doGenerate: () => handlers[calls++](),
+    doStream: () => Promise.reject(new Error('not scripted')),
+  };
+}
+
+describe('ModelRouter', () => {
+  describe('half-open circuit', () => {
+    it('should release the trial call when aborted during the retry backoff', async () => {
+      const controller = new AbortController();
+      const model = scriptedModel([
+        // Opens the circuit
+        () => Promise.reject(apiError(401)),
+        // Trial call fails transiently and is aborted while backing off
+        () => {
+          setTimeout(() => controller.abort(new Error('caller gave up')), 0);
+          return Promise.reject(apiError(503));
+        },
+        // Next trial call
+        () => Promise.resolve(okResult),
+      ]);
+      const router = new ModelRouter([{ provider: 'openai', model }], {
+        maxRetries: 1,
+        initialDelayMs: 60000,
+        maxDelayMs: 60000,
+        failureThreshold: 1,
+        cooldownMs: 0,
+      });
+      const options = { prompt: [] } as CallOptions;
+
+      await expect(router.doGenerate(options)).rejects.toThrow(ModelRouterError);
+      expect(router.getHealth()[0].state).toBe('open');
+
+      await expect(
+        router.doGenerate({ ...options, abortSignal: controller.signal })
+      ).rejects.toThrow('caller gave up');
+      expect(router.getHealth()[0].state).toBe('half-open');
+
+      // The next call gets the trial instead of finding the circuit stuck
+      const result = await router.doGenerate(options);
+      expect(result.content).toEqual(okResult.content);
+      expect(router.getHealth()[0].state).toBe('closed');
+    });
+  });
+});
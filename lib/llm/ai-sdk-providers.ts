@@ -3,14 +3,17 @@
 // ============================================
 //
 // Replaces custom BaseLLMProvider with AI SDK's production-grade
-// provider implementations. Supports OpenAI, Anthropic, and Google
-// with automatic fallback chain.
+// provider implementations. Supports OpenAI and Anthropic; the configured
+// providers are wrapped in a model router that retries, trips a circuit
+// breaker per provider and fails over between them on every call.
 
 import { createOpenAI } from '@ai-sdk/openai';
 import { createAnthropic } from '@ai-sdk/anthropic';
 import type { LanguageModel } from 'ai';
 import { getEnvConfig, isLLMEnabled } from '@/lib/utils/env';
-import type { LLMProviderType } from '@/lib/models/types';
+import { api } from '@/lib/api/client';
+import { ModelRouter, type RoutedProvider } from '@/lib/llm/model-router';
+import type { LLMProviderHealth, LLMProviderType } from '@/lib/models/types';
 
 /**
  * AI SDK Model Instance
@@ -51,6 +54,7 @@ export function createAISDKProvider(providerType?: LLMProviderType): AISDKModel
 
         const openai = createOpenAI({
           apiKey: envConfig.openaiApiKey,
+          ...(envConfig.openaiBaseUrl && { baseURL: envConfig.openaiBaseUrl }),
         });
 
         console.log(`[AI SDK] OpenAI provider created (model: ${envConfig.openaiModel})`);
@@ -64,6 +68,7 @@ export function createAISDKProvider(providerType?: LLMProviderType): AISDKModel
 
         const anthropic = createAnthropic({
           apiKey: envConfig.anthropicApiKey,
+          ...(envConfig.anthropicBaseUrl && { baseURL: envConfig.anthropicBaseUrl }),
         });
 
         console.log(`[AI SDK] Anthropic provider created (model: ${envConfig.anthropicModel})`);
@@ -82,37 +87,59 @@ export function createAISDKProvider(providerType?: LLMProviderType): AISDKModel
 /**
  * Create AI SDK provider with fallback chain
  *
- * Attempts to create primary provider, falls back to secondary if it fails.
- * Useful for handling API key issues or provider outages.
+ * Creates every provider that is configured and wraps them in a
+ * ModelRouter, so provider outages are handled per call (retries with
+ * backoff, circuit breaker, failover) rather than only at startup.
+ * Circuit state changes are reported to the backend (/api/v1/ready).
  *
  * Fallback order:
  * 1. Primary provider (from config)
  * 2. Secondary provider (opposite of primary)
- * 3. null (triggers template fallback in application code)
+ * 3. null when neither can be created (triggers template fallback in application code)
  */
 export function createAISDKProviderWithFallback(): AISDKModel | null {
   const envConfig = getEnvConfig();
 
-  // Try primary provider
-  const primaryModel = createAISDKProvider(envConfig.llmProvider);
-  if (primaryModel) {
-    return primaryModel;
-  }
-
-  console.warn('[AI SDK] Primary provider failed, attempting fallback...');
-
-  // Try fallback provider
   const fallbackProvider: LLMProviderType =
     envConfig.llmProvider === 'openai' ? 'anthropic' : 'openai';
 
-  const fallbackModel = createAISDKProvider(fallbackProvider);
-  if (fallbackModel) {
-    console.log(`[AI SDK] Successfully fell back to ${fallbackProvider}`);
-    return fallbackModel;
+  const providers = [envConfig.llmProvider, fallbackProvider].flatMap((provider): RoutedProvider[] => {
+    // Only try the secondary provider when its key is set
+    if (provider === fallbackProvider) {
+      const hasKey = provider === 'openai' ? envConfig.openaiApiKey : envConfig.anthropicApiKey;
+      if (!hasKey) return [];
+    }
+
+    const model = createAISDKProvider(provider);
+    return model && typeof model !== 'string' ? [{ provider, model }] : [];
+  });
+
+  if (providers.length === 0) {
+    console.warn('[AI SDK] All providers failed, falling back to template system');
+    return null;
+  }
+
+  if (providers[0].provider !== envConfig.llmProvider) {
+    console.warn(`[AI SDK] Primary provider failed, using ${providers[0].provider}`);
   }
+  console.log(`[AI SDK] Model router: ${providers.map((p) => p.provider).join(' -> ')}`);
+
+  const router = new ModelRouter(providers, {
+    onHealthChange: (health) => void reportProviderHealth(health),
+  });
+  void reportProviderHealth(router.getHealth());
+  return router;
+}
 
-  console.warn('[AI SDK] All providers failed, falling back to template system');
-  return null;
+/**
+ * Report provider health to the backend (failures are logged, not thrown)
+ */
+async function reportProviderHealth(health: LLMProviderHealth[]): Promise<void> {
+  try {
+    await api.reportLLMHealth(health);
+  } catch (error) {
+    console.error('[AI SDK] Failed to report provider health:', error);
+  }
 }
 
 /**
@@ -9,6 +9,7 @@ import { trackRequest, getRateLimitStatus } from "@/lib/store/rateLimit";
 import { toast } from "sonner";
 import type { AIMessage } from "@/lib/models/types";
 import { api } from "@/lib/api/client";
+import { uiMessageToAIMessage } from "@/lib/llm/utils/messages";
 
 /**
  * Options for usePersistedChat hook
@@ -41,39 +42,17 @@ function aiMessageToUIMessage(aiMessage: AIMessage): UIMessage {
   };
 }
 
-/**
- * Convert UIMessage (AI SDK format) to AIMessage (localStorage format)
- */
-function uiMessageToAIMessage(
-  message: UIMessage,
-  conversationId: string
-): AIMessage {
-  // Extract text content from parts
-  const textParts = message.parts.filter((p) => p.type === "text");
-  const content = textParts.map((p) => ("text" in p ? p.text : "")).join("\n");
-
-  // Only handle user and assistant roles for now
-  if (message.role !== "user" && message.role !== "assistant") {
-    throw new Error(`Unexpected message role: ${message.role}`);
-  }
-
-  return {
-    id: message.id,
-    conversationId,
-    role: message.role,
-    content,
-    timestamp: new Date().toISOString(),
-  };
-}
-
 /**
  * usePersistedChat - AI SDK useChat wrapper with localStorage persistence
  *
  * Provides streaming chat functionality with localStorage synchronization
- * for conversation persistence across sessions.
+ * for conversation persistence across sessions. The server (/api/chat)
+ * saves each finished turn to the backend; localStorage is the browser's
+ * copy.
  *
  * Key features:
- * - Loads initial messages from localStorage
+ * - Loads initial messages from localStorage, or from the API when the
+ *   browser has none (e.g. after clearing site data)
  * - Auto-saves new messages after streaming completes
  * - Maintains conversation ID association
  * - Passes courseId in request body for context
@@ -157,15 +136,9 @@ export function usePersistedChat(options: UsePersistedChatOptions) {
           return;
         }
 
+        // Backend copy is saved by /api/chat when the stream finishes
         addMessage(aiMessage);
 
-        // Persist to backend database
-        try {
-          await api.createMessage(aiMessage, userId);
-        } catch (error) {
-          console.error('[usePersistedChat] Failed to persist assistant message to backend:', error);
-        }
-
         onMessageAdded?.(aiMessage);
 
         // Track metrics
@@ -192,6 +165,29 @@ export function usePersistedChat(options: UsePersistedChatOptions) {
     },
   });
 
+  // Nothing in localStorage: load the conversation from the API
+  const { setMessages } = chat;
+  useEffect(() => {
+    if (!conversationId || initialMessages.length > 0) return;
+
+    let cancelled = false;
+    api
+      .getConversationMessages(conversationId)
+      .then((messages) => {
+        if (cancelled || messages.length === 0) return;
+
+        messages.forEach(addMessage);
+        setMessages((current) => (current.length === 0 ? messages.map(aiMessageToUIMessage) : current));
+      })
+      .catch((error) => {
+        console.error('[usePersistedChat] Failed to load conversation messages:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [conversationId, initialMessages, setMessages]);
+
   // Save user messages to localStorage immediately when added
   useEffect(() => {
     if (!conversationId) return;
@@ -205,21 +201,17 @@ export function usePersistedChat(options: UsePersistedChatOptions) {
       const alreadySaved = existingMessages.some((m) => m.id === lastMessage.id);
 
       if (!alreadySaved) {
+        // Backend copy is saved with the turn by /api/chat
         const aiMessage = uiMessageToAIMessage(lastMessage, conversationId);
         addMessage(aiMessage);
 
-        // Persist to backend database
-        api.createMessage(aiMessage, userId).catch((error) => {
-          console.error('[usePersistedChat] Failed to persist user message to backend:', error);
-        });
-
         onMessageAdded?.(aiMessage);
 
         // Track metrics
         trackMessageSent();
       }
     }
-  }, [chat.messages, conversationId, userId, onMessageAdded]);
+  }, [chat.messages, conversationId, onMessageAdded]);
 
   // Wrap sendMessage with rate limit check
   const sendMessageWithRateLimit: typeof chat.sendMessage = async (input) => {
@@ -0,0 +1,420 @@
+// ============================================
+// Academic Integrity Guardrails
+// ============================================
+//
+// Detects questions about graded assignments and applies the assignment's
+// integrity mode: the system prompt gets the mode's instructions, long code
+// blocks are removed from replies, and requests for full solutions are
+// logged for instructor review.
+
+import type { StreamTextTransform, TextStreamPart, ToolSet } from 'ai';
+import { api } from '@/lib/api/client';
+import { loadCourseAssignments } from '@/lib/llm/tools/handlers';
+import { renderPrompt, type RenderedPrompt } from '@/lib/llm/prompts/registry';
+import type { Assignment, AssignmentIntegrityMode } from '@/lib/models/types';
+
+/**
+ * Longest code block kept in replies about a guarded assignment
+ */
+export const MAX_GUARDED_CODE_LINES = 5;
+
+/**
+ * Longest question text recorded in the integrity log
+ */
+const MAX_LOGGED_QUESTION_LENGTH = 4000;
+
+/**
+ * Replaces code blocks that are too long for the assignment's mode
+ */
+const REDACTED_CODE_NOTE =
+  '*(Code removed: full solutions aren\'t available for this graded assignment. Try writing it yourself, and ask about the step you are stuck on.)*';
+
+/**
+ * Label words of assignment titles ("Assignment 3: ...") and how students refer to them
+ */
+const LABEL_ALIASES: Record<string, string[]> = {
+  assignment: ['assignment', 'homework', 'hw', 'asst'],
+  homework: ['homework', 'hw'],
+  lab: ['lab'],
+  project: ['project'],
+  essay: ['essay'],
+  quiz: ['quiz'],
+  'problem set': ['problem set', 'pset', 'ps'],
+};
+
+/**
+ * Words that tie a question to coursework
+ */
+const COURSEWORK_CUES = /\b(assignments?|homework|hw\d*|due|deadline|graded|submit(ting)?|submission|problem set|pset|lab)\b/i;
+
+/**
+ * Phrasings that ask for a full solution rather than help
+ */
+const SOLUTION_PATTERNS: RegExp[] = [
+  /\b(give|show|send|tell|write)\s+me\s+(the\s+)?(full|complete|entire|whole|final|working)?\s*(solution|answer|code|implementation|program|proof|essay)s?\b/i,
+  /\b(write|code|implement|finish|complete|do|solve)\s+(it|this|that|the\s+\w+(\s+\w+)?|my\s+\w+)\s+for\s+me\b/i,
+  /\bwrite\s+(the|a|my)\s+(full|complete|entire|whole)?\s*(code|program|function|method|implementation|essay|solution|proof)\b/i,
+  /\b(full|complete|entire|whole|working|final)\s+(solution|code|implementation|program|answer|essay|proof)s?\b/i,
+  /\bjust\s+(give|tell|show|send)\s+me\b/i,
+  /\b(do|solve|answer)\s+(my|the|this)\s+(homework|assignment|hw|problem set|lab)\b/i,
+  /\bcopy[\s-]+(and[\s-]+)?paste\b/i,
+  /\bwhat('s|\s+is)\s+the\s+(final\s+)?answer\s+(to|for)\s+(question|problem|part|exercise)\b/i,
+];
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'from', 'into', 'about', 'your', 'using', 'intro', 'introduction',
+]);
+
+/**
+ * Outcome of the integrity check of one question
+ */
+export interface IntegrityDecision {
+  mode: AssignmentIntegrityMode;     // "unrestricted" when no guarded assignment matched
+  assignment: Assignment | null;     // Matched assignment (even if unrestricted)
+  matchedBy: string[];               // e.g. ["tag"], ["title", "due date"]
+  solutionSignals: string[];         // Phrases that asked for a full solution
+}
+
+/**
+ * Find the graded assignment a question is about
+ *
+ * An assignment matches when:
+ * - the question is tagged "assignment-{id}"
+ * - the question names it ("assignment 3", "hw3", "Lab 5")
+ * - the question mentions every topic word of its title ("Binary Search
+ *   Trees") while the assignment is open, or says it is coursework ("due",
+ *   "homework", ...)
+ *
+ * The strongest match wins (tag, then name, then topic; the nearest due
+ * date breaks ties).
+ */
+export function detectAssignment(
+  question: string,
+  assignments: Assignment[],
+  options: { tags?: string[]; now?: Date } = {}
+): { assignment: Assignment; matchedBy: string[] } | null {
+  const { tags = [], now = new Date() } = options;
+  const text = question.toLowerCase();
+  const questionTerms = new Set(toTerms(text));
+  const hasCourseworkCue = COURSEWORK_CUES.test(question);
+
+  let best: { assignment: Assignment; matchedBy: string[]; score: number } | null = null;
+
+  for (const assignment of assignments) {
+    const matchedBy: string[] = [];
+    let score = 0;
+
+    // Assignment IDs already read "assignment-1"; other IDs are tagged "assignment-{id}"
+    if (tags.includes(assignment.id) || tags.includes(`assignment-${assignment.id}`)) {
+      matchedBy.push('tag');
+      score = 3;
+    }
+
+    const [label, topic] = splitTitle(assignment.title);
+
+    if (label && matchesLabel(text, label)) {
+      matchedBy.push('title');
+      score = Math.max(score, 2);
+    }
+
+    const topicTerms = toTerms(topic);
+    if (topicTerms.length > 0 && topicTerms.every((term) => questionTerms.has(term))) {
+      const isOpen = new Date(assignment.dueDate).getTime() >= now.getTime();
+      if (isOpen || hasCourseworkCue || score > 0) {
+        matchedBy.push('topic');
+        if (isOpen) matchedBy.push('due date');
+        score = Math.max(score, 1);
+      }
+    }
+
+    if (score === 0) continue;
+
+    const isBetter =
+      !best ||
+      score > best.score ||
+      (score === best.score &&
+        Math.abs(new Date(assignment.dueDate).getTime() - now.getTime()) <
+          Math.abs(new Date(best.assignment.dueDate).getTime() - now.getTime()));
+
+    if (isBetter) {
+      best = { assignment, matchedBy, score };
+    }
+  }
+
+  return best && { assignment: best.assignment, matchedBy: best.matchedBy };
+}
+
+/**
+ * Phrases in a question that ask for a full solution
+ */
+export function detectSolutionRequest(question: string): string[] {
+  const signals = new Set<string>();
+  for (const pattern of SOLUTION_PATTERNS) {
+    const match = question.match(pattern);
+    if (match) {
+      signals.add(match[0].toLowerCase().replace(/\s+/g, ' '));
+    }
+  }
+  // Drop phrases contained in a longer one ("full code" in "write the full code")
+  return Array.from(signals).filter(
+    (signal) => !Array.from(signals).some((other) => other !== signal && other.includes(signal))
+  );
+}
+
+/**
+ * Check a question against the course's assignments
+ */
+export function evaluateIntegrity(
+  question: string,
+  assignments: Assignment[],
+  options: { tags?: string[]; now?: Date } = {}
+): IntegrityDecision {
+  const match = detectAssignment(question, assignments, options);
+
+  return {
+    mode: match?.assignment.integrityMode ?? 'unrestricted',
+    assignment: match?.assignment ?? null,
+    matchedBy: match?.matchedBy ?? [],
+    solutionSignals: detectSolutionRequest(question),
+  };
+}
+
+/**
+ * Check a question and log requests for full solutions of guarded assignments
+ *
+ * If the assignments can't be loaded, the question is treated as
+ * unrestricted (logged, not thrown).
+ */
+export async function applyIntegrityPolicy(params: {
+  question: string;
+  courseId: string | null | undefined;
+  userId?: string | null;
+  feature: 'chat' | 'answer';
+  tags?: string[];
+}): Promise<IntegrityDecision> {
+  const { question, courseId, userId = null, feature, tags } = params;
+  const unrestricted: IntegrityDecision = {
+    mode: 'unrestricted',
+    assignment: null,
+    matchedBy: [],
+    solutionSignals: [],
+  };
+  if (!courseId || !question.trim()) return unrestricted;
+
+  let decision: IntegrityDecision;
+  try {
+    decision = evaluateIntegrity(question, await loadCourseAssignments(courseId), { tags });
+  } catch (error) {
+    console.error('[Integrity] Failed to load course assignments:', error);
+    return unrestricted;
+  }
+
+  if (decision.assignment && decision.mode !== 'unrestricted') {
+    console.log(
+      `[Integrity] ${feature}: ${decision.assignment.id} (${decision.mode}) matched by ${decision.matchedBy.join(', ')}`
+    );
+
+    if (decision.solutionSignals.length > 0) {
+      try {
+        await api.recordIntegrityEvent({
+          courseId,
+          assignmentId: decision.assignment.id,
+          userId,
+          feature,
+          mode: decision.mode,
+          question: question.substring(0, MAX_LOGGED_QUESTION_LENGTH),
+          signals: decision.solutionSignals,
+        });
+      } catch (error) {
+        console.error('[Integrity] Failed to record integrity event:', error);
+      }
+    }
+  }
+
+  return decision;
+}
+
+/**
+ * System prompt section enforcing the decision's mode (null when unrestricted)
+ */
+export function buildIntegrityPrompt(decision: IntegrityDecision): RenderedPrompt | null {
+  if (!decision.assignment || decision.mode === 'unrestricted') return null;
+
+  return renderPrompt(`integrity.${decision.mode}`, {
+    assignmentTitle: decision.assignment.title,
+    dueDate: new Date(decision.assignment.dueDate).toUTCString(),
+    maxCodeLines: MAX_GUARDED_CODE_LINES,
+  });
+}
+
+/**
+ * Remove code blocks longer than MAX_GUARDED_CODE_LINES from a reply
+ */
+export function enforceIntegrityMode(
+  content: string,
+  mode: AssignmentIntegrityMode
+): { content: string; redactedBlocks: number } {
+  if (mode === 'unrestricted') return { content, redactedBlocks: 0 };
+
+  const redactor = new CodeBlockRedactor();
+  const lines = content.match(/[^\n]*\n|[^\n]+$/g) ?? [];
+  const redacted = lines.map((line) => redactor.push(line)).join('') + redactor.flush();
+
+  return { content: redacted, redactedBlocks: redactor.redactedBlocks };
+}
+
+/**
+ * Part of a reply still being generated that may be shown under an integrity mode
+ *
+ * Like enforceIntegrityMode, but only complete lines are passed on and a
+ * code block is held back until it ends.
+ */
+export function previewIntegrityMode(content: string, mode: AssignmentIntegrityMode): string {
+  if (mode === 'unrestricted') return content;
+
+  const redactor = new CodeBlockRedactor();
+  const lines = content.match(/[^\n]*\n/g) ?? [];
+  return lines.map((line) => redactor.push(line)).join('');
+}
+
+/**
+ * streamText transform applying enforceIntegrityMode while the reply streams
+ *
+ * Text is passed on line by line; code blocks are held back until they end,
+ * then passed on or replaced by a note.
+ */
+export function createIntegrityTransform<TOOLS extends ToolSet>(
+  mode: AssignmentIntegrityMode
+): StreamTextTransform<TOOLS> {
+  if (mode === 'unrestricted') {
+    return () => new TransformStream();
+  }
+
+  return () => {
+    const redactor = new CodeBlockRedactor();
+    let buffer = '';
+    let id = '';
+
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(chunk, controller) {
+        if (chunk.type !== 'text-delta') {
+          // A text part ended (or a tool call started): flush what's held back
+          if (chunk.type === 'text-end' && chunk.id === id) {
+            const text = redactor.push(buffer) + redactor.flush();
+            buffer = '';
+            if (text) controller.enqueue({ type: 'text-delta', id, text });
+          }
+          controller.enqueue(chunk);
+          return;
+        }
+
+        id = chunk.id;
+        buffer += chunk.text;
+
+        let newline: number;
+        let text = '';
+        while ((newline = buffer.indexOf('\n')) !== -1) {
+          text += redactor.push(buffer.slice(0, newline + 1));
+          buffer = buffer.slice(newline + 1);
+        }
+
+        // Plain text without a line break yet can go out right away
+        if (!redactor.isHolding && buffer && !buffer.trimStart().startsWith('`')) {
+          text += buffer;
+          buffer = '';
+        }
+
+        if (text) controller.enqueue({ ...chunk, text });
+      },
+
+      flush(controller) {
+        const text = redactor.push(buffer) + redactor.flush();
+        if (text) controller.enqueue({ type: 'text-delta', id, text });
+      },
+    });
+  };
+}
+
+/**
+ * Holds back fenced code blocks and drops those over MAX_GUARDED_CODE_LINES
+ */
+class CodeBlockRedactor {
+  redactedBlocks = 0;
+  private block: string[] | null = null;
+
+  get isHolding(): boolean {
+    return this.block !== null;
+  }
+
+  /**
+   * Pass in one line (with its line break); returns the text to emit
+   */
+  push(line: string): string {
+    const isFence = line.trimStart().startsWith('```');
+
+    if (this.block === null) {
+      if (!isFence) return line;
+      this.block = [line];
+      return '';
+    }
+
+    this.block.push(line);
+    return isFence ? this.release() : '';
+  }
+
+  /**
+   * End of the reply: release an unclosed block
+   */
+  flush(): string {
+    return this.block === null ? '' : this.release();
+  }
+
+  private release(): string {
+    const block = this.block ?? [];
+    this.block = null;
+
+    // Fence lines don't count
+    const codeLines = block.slice(1).filter((line) => !line.trimStart().startsWith('```')).length;
+    if (codeLines <= MAX_GUARDED_CODE_LINES) {
+      return block.join('');
+    }
+
+    this.redactedBlocks++;
+    return `${REDACTED_CODE_NOTE}\n`;
+  }
+}
+
+/**
+ * Split "Assignment 3: Binary Search Trees" into label and topic
+ */
+function splitTitle(title: string): [string, string] {
+  const colon = title.indexOf(':');
+  return colon === -1 ? ['', title] : [title.slice(0, colon).trim(), title.slice(colon + 1).trim()];
+}
+
+/**
+ * Whether a question names an assignment label ("Assignment 3" → "hw3", "homework #3")
+ */
+function matchesLabel(text: string, label: string): boolean {
+  const match = label.toLowerCase().match(/^([a-z ]+?)\s*#?\s*(\d+)$/);
+  if (!match) {
+    return text.includes(label.toLowerCase());
+  }
+
+  const [, word, number] = match;
+  const aliases = LABEL_ALIASES[word] ?? [word];
+  return aliases.some((alias) =>
+    new RegExp(`\\b${alias.replace(/ /g, '\\s+')}\\s*#?\\s*${number}\\b`).test(text)
+  );
+}
+
+/**
+ * Topic terms of a text (lowercased, plural "s" stripped)
+ */
+function toTerms(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith('s') && !token.endsWith('ss') ? token.slice(0, -1) : token));
+}
@@ -0,0 +1,455 @@
+// ============================================
+// Model Router (retries, circuit breaker, failover)
+// ============================================
+//
+// Wraps the configured AI SDK models in one model that routes each call to
+// the first healthy provider: transient errors (429, 5xx, timeouts,
+// network) are retried with exponential backoff, providers that keep
+// failing are skipped by a circuit breaker until a cooldown ends, and
+// calls fail over to the next provider in the chain.
+
+import { APICallError, type LanguageModel, type ProviderMetadata } from 'ai';
+import type { LLMCircuitState, LLMProviderHealth, LLMProviderType } from '@/lib/models/types';
+
+/**
+ * AI SDK model object (LanguageModel also accepts gateway model ID strings)
+ */
+type ProviderModel = Exclude<LanguageModel, string>;
+
+type CallOptions = Parameters<ProviderModel['doGenerate']>[0];
+type GenerateResult = Awaited<ReturnType<ProviderModel['doGenerate']>>;
+type StreamResult = Awaited<ReturnType<ProviderModel['doStream']>>;
+
+/**
+ * providerMetadata key under which each call's result names the provider
+ * and model that served it
+ */
+const SERVED_BY_KEY = 'modelRouter';
+
+/**
+ * A provider in the failover chain
+ */
+export interface RoutedProvider {
+  provider: LLMProviderType;
+  model: ProviderModel;
+}
+
+export interface ModelRouterOptions {
+  maxRetries?: number;        // Retries per provider for transient errors (default: 2)
+  initialDelayMs?: number;    // First backoff delay, doubled per retry (default: 500)
+  maxDelayMs?: number;        // Longest backoff delay (default: 4000)
+  failureThreshold?: number;  // Failed calls in a row that open a circuit (default: 3)
+  cooldownMs?: number;        // How long an open circuit skips its provider (default: 30000)
+  onHealthChange?: (health: LLMProviderHealth[]) => void; // Called when a circuit changes state
+}
+
+/**
+ * How a failed call is handled
+ *
+ * - transient: retry, then count against the provider (network, timeout, 429, 5xx)
+ * - provider: count against the provider without retrying (e.g. bad API key)
+ * - request: the request itself is invalid; no retry or failover
+ * - unexpected: not a provider failure (e.g. a bug or schema error); rethrown as is
+ */
+type FailureKind = 'transient' | 'provider' | 'request' | 'unexpected';
+
+/**
+ * Thrown when every provider failed (or every circuit is open)
+ */
+export class ModelRouterError extends Error {
+  constructor(
+    message: string,
+    public readonly errors: unknown[]
+  ) {
+    super(message);
+    this.name = 'ModelRouterError';
+  }
+}
+
+/**
+ * Circuit Breaker
+ *
+ * Opens after failureThreshold failed calls in a row; while open, calls are
+ * refused until the cooldown ends. Then a single trial call is let through
+ * (half-open): success closes the circuit, failure opens it again.
+ */
+export class CircuitBreaker {
+  private state: LLMCircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openUntil = 0;
+  private trialInFlight = false;
+  private lastError: string | null = null;
+  private lastFailureAt: string | null = null;
+  private lastSuccessAt: string | null = null;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /**
+   * Whether a call may go through (claims the trial call when half-open)
+   */
+  tryAcquire(now: number = Date.now()): boolean {
+    if (this.state === 'open') {
+      if (now < this.openUntil) return false;
+      this.state = 'half-open';
+    }
+    if (this.state === 'half-open') {
+      if (this.trialInFlight) return false;
+      this.trialInFlight = true;
+    }
+    return true;
+  }
+
+  /**
+   * Record a successful call
+   *
+   * @returns Whether the circuit changed state
+   */
+  recordSuccess(): boolean {
+    const changed = this.state !== 'closed';
+    this.state = 'closed';
+    this.consecutiveFailures = 0;
+    this.trialInFlight = false;
+    this.lastSuccessAt = new Date().toISOString();
+    return changed;
+  }
+
+  /**
+   * Give up a claimed call without a verdict (e.g. aborted by the caller)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Record a failed call
+   *
+   * @returns Whether the circuit changed state
+   */
+  recordFailure(error: unknown, now: number = Date.now()): boolean {
+    const previous = this.state;
+    this.consecutiveFailures++;
+    this.trialInFlight = false;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.lastFailureAt = new Date(now).toISOString();
+
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openUntil = now + this.cooldownMs;
+    }
+    return this.state !== previous;
+  }
+
+  getState(): LLMCircuitState {
+    return this.state;
+  }
+
+  snapshot(): Pick<
+    LLMProviderHealth,
+    'state' | 'consecutiveFailures' | 'lastError' | 'lastFailureAt' | 'lastSuccessAt' | 'openUntil'
+  > {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      lastError: this.lastError,
+      lastFailureAt: this.lastFailureAt,
+      lastSuccessAt: this.lastSuccessAt,
+      openUntil: this.state === 'open' ? new Date(this.openUntil).toISOString() : null,
+    };
+  }
+}
+
+/**
+ * Model Router
+ *
+ * An AI SDK model (usable with generateText, streamText, generateObject,
+ * ...) that tries its providers in order. Each provider gets its own
+ * circuit breaker; a provider is skipped while its circuit is open.
+ *
+ * Streams fail over only until the provider accepts the request: errors
+ * after the first chunk reach the caller as stream errors. Calls aborted
+ * by the caller are never retried.
+ *
+ * provider and modelId name the provider the next call tries first. The
+ * provider that actually served a call is in that call's providerMetadata
+ * (see getServedModel), since concurrent calls may be served by different
+ * providers.
+ */
+export class ModelRouter implements ProviderModel {
+  readonly specificationVersion = 'v2' as const;
+
+  private readonly entries: Array<RoutedProvider & { breaker: CircuitBreaker }>;
+  private readonly options: Required<Omit<ModelRouterOptions, 'onHealthChange'>>;
+  private readonly onHealthChange?: ModelRouterOptions['onHealthChange'];
+
+  constructor(providers: RoutedProvider[], options: ModelRouterOptions = {}) {
+    if (providers.length === 0) {
+      throw new Error('ModelRouter needs at least one provider');
+    }
+
+    this.options = {
+      maxRetries: options.maxRetries ?? 2,
+      initialDelayMs: options.initialDelayMs ?? 500,
+      maxDelayMs: options.maxDelayMs ?? 4000,
+      failureThreshold: options.failureThreshold ?? 3,
+      cooldownMs: options.cooldownMs ?? 30000,
+    };
+    this.onHealthChange = options.onHealthChange;
+    this.entries = providers.map((provider) => ({
+      ...provider,
+      breaker: new CircuitBreaker(this.options.failureThreshold, this.options.cooldownMs),
+    }));
+  }
+
+  get provider(): string {
+    return this.current().model.provider;
+  }
+
+  get modelId(): string {
+    return this.current().model.modelId;
+  }
+
+  get supportedUrls() {
+    return this.current().model.supportedUrls;
+  }
+
+  doGenerate(options: CallOptions): Promise<GenerateResult> {
+    return this.route(options, async (model) => {
+      const result = await model.doGenerate(options);
+      return { ...result, providerMetadata: withServedBy(result.providerMetadata, model) };
+    });
+  }
+
+  doStream(options: CallOptions): Promise<StreamResult> {
+    return this.route(options, async (model) => {
+      const result = await model.doStream(options);
+      return {
+        ...result,
+        stream: result.stream.pipeThrough(
+          new TransformStream({
+            transform(part, controller) {
+              controller.enqueue(
+                part.type === 'finish'
+                  ? { ...part, providerMetadata: withServedBy(part.providerMetadata, model) }
+                  : part
+              );
+            },
+          })
+        ),
+      };
+    });
+  }
+
+  /**
+   * Health of every provider, in failover order
+   */
+  getHealth(): LLMProviderHealth[] {
+    return this.entries.map((entry, priority) => ({
+      provider: entry.provider,
+      model: entry.model.modelId,
+      priority,
+      ...entry.breaker.snapshot(),
+    }));
+  }
+
+  /**
+   * First provider whose circuit isn't open (the primary when all are)
+   */
+  private current(): RoutedProvider {
+    return this.entries.find((entry) => entry.breaker.getState() !== 'open') ?? this.entries[0];
+  }
+
+  private async route<T>(options: CallOptions, call: (model: ProviderModel) => PromiseLike<T>): Promise<T> {
+    const errors: unknown[] = [];
+
+    for (const entry of this.entries) {
+      if (!entry.breaker.tryAcquire()) continue;
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          const result = await call(entry.model);
+          this.record(entry.breaker.recordSuccess());
+          return result;
+        } catch (error) {
+          // Aborted by the caller (e.g. a timeout): not the provider's fault
+          if (options.abortSignal?.aborted) {
+            entry.breaker.release();
+            throw error;
+          }
+
+          const kind = classifyFailure(error);
+
+          // A bug on our side, not the provider's: don't count it or fail over
+          if (kind === 'unexpected') {
+            entry.breaker.release();
+            throw error;
+          }
+
+          // The provider answered; another one would reject the request too
+          if (kind === 'request') {
+            this.record(entry.breaker.recordSuccess());
+            throw error;
+          }
+
+          if (kind === 'transient' && attempt < this.options.maxRetries) {
+            const delay = this.backoffDelay(attempt, error);
+            console.warn(
+              `[Model Router] ${entry.provider} call failed, retrying in ${delay}ms (${describeError(error)})`
+            );
+            try {
+              await sleep(delay, options.abortSignal);
+            } catch (abortReason) {
+              // Aborted during the backoff: give up the claim, or a half-open
+              // circuit would wait for a trial call that never ends
+              entry.breaker.release();
+              throw abortReason;
+            }
+            continue;
+          }
+
+          console.warn(`[Model Router] ${entry.provider} call failed (${describeError(error)})`);
+          this.record(entry.breaker.recordFailure(error));
+          errors.push(error);
+          break;
+        }
+      }
+    }
+
+    throw new ModelRouterError(
+      errors.length > 0
+        ? `All LLM providers failed (${errors.map(describeError).join('; ')})`
+        : 'All LLM providers are unavailable (circuits open)',
+      errors
+    );
+  }
+
+  /**
+   * Backoff before a retry: exponential, with jitter, or the provider's retry-after
+   */
+  private backoffDelay(attempt: number, error: unknown): number {
+    const { initialDelayMs, maxDelayMs } = this.options;
+
+    const retryAfter = APICallError.isInstance(error) ? error.responseHeaders?.['retry-after'] : undefined;
+    const retryAfterMs = retryAfter ? parseFloat(retryAfter) * 1000 : NaN;
+    if (retryAfterMs >= 0 && retryAfterMs <= maxDelayMs) {
+      return Math.round(retryAfterMs);
+    }
+
+    const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** attempt);
+    return Math.round(delay * (0.75 + Math.random() * 0.5));
+  }
+
+  private record(changed: boolean): void {
+    if (!changed) return;
+
+    const health = this.getHealth();
+    console.log(
+      `[Model Router] Circuits: ${health.map((entry) => `${entry.provider} ${entry.state}`).join(', ')}`
+    );
+    this.onHealthChange?.(health);
+  }
+}
+
+/**
+ * Provider and model that served a call routed through a ModelRouter
+ * (null for calls made with a plain model)
+ */
+export function getServedModel(
+  providerMetadata: ProviderMetadata | undefined
+): { provider: string; modelId: string } | null {
+  const servedBy = providerMetadata?.[SERVED_BY_KEY];
+  if (typeof servedBy?.provider !== 'string' || typeof servedBy?.modelId !== 'string') {
+    return null;
+  }
+  return { provider: servedBy.provider, modelId: servedBy.modelId };
+}
+
+function withServedBy(providerMetadata: ProviderMetadata | undefined, model: ProviderModel): ProviderMetadata {
+  return {
+    ...providerMetadata,
+    [SERVED_BY_KEY]: { provider: model.provider, modelId: model.modelId },
+  };
+}
+
+/**
+ * Error codes of network failures below the HTTP layer
+ */
+const NETWORK_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ETIMEDOUT',
+  'EPIPE',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/**
+ * Whether an error (or its cause) is a network failure or timeout
+ */
+function isNetworkError(error: unknown): boolean {
+  for (let current = error, depth = 0; current instanceof Error && depth < 5; depth++) {
+    const code = (current as Error & { code?: unknown }).code;
+    if (typeof code === 'string' && NETWORK_ERROR_CODES.has(code)) return true;
+    if (current.name === 'TimeoutError') return true;
+    if (current instanceof TypeError && current.message === 'fetch failed') return true;
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * How a failed call is handled (see FailureKind)
+ */
+function classifyFailure(error: unknown): FailureKind {
+  if (!APICallError.isInstance(error)) {
+    // Network errors and timeouts inside the provider; anything else is ours
+    return isNetworkError(error) ? 'transient' : 'unexpected';
+  }
+
+  const status = error.statusCode;
+  if (status === undefined) {
+    // No response: the provider couldn't be reached
+    return error.isRetryable || isNetworkError(error.cause) ? 'transient' : 'unexpected';
+  }
+  if (status === 408 || status === 429 || status >= 500) return 'transient';
+
+  // Bad key, no access, unknown model: this provider can't serve anything
+  if (status === 401 || status === 403 || status === 404) return 'provider';
+
+  return 'request';
+}
+
+function describeError(error: unknown): string {
+  if (APICallError.isInstance(error) && error.statusCode) {
+    return `${error.statusCode} ${error.message}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Wait, ending early (with the abort reason) if the call is aborted
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
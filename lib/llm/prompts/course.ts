@@ -0,0 +1,28 @@
+// ============================================
+// Course Prompt Settings
+// ============================================
+//
+// Loads the instructor overrides (persona, policy) applied to a course's
+// system prompt.
+
+import { api } from "@/lib/api/client";
+import type { CoursePromptSettings } from "@/lib/models/types";
+
+/**
+ * A course's prompt settings
+ *
+ * Returns null without a course; if the settings can't be loaded, the
+ * default prompt is used (logged, not thrown).
+ */
+export async function loadCoursePromptSettings(
+  courseId: string | null | undefined
+): Promise<CoursePromptSettings | null> {
+  if (!courseId) return null;
+
+  try {
+    return await api.getCoursePromptSettings(courseId);
+  } catch (error) {
+    console.error("[Prompts] Failed to load course prompt settings:", error);
+    return null;
+  }
+}
@@ -2,15 +2,24 @@
 // LLM Prompts Module Public API
 // ============================================
 //
-// Note: Prompt templates and CoursePromptBuilder removed in Phase 3 cleanup.
-// These systems were never integrated into production.
-// Production uses generic buildSystemPrompt() from lib/llm/utils.
-//
-// Restore from git if needed:
-// - templates.ts (280 lines) - Course-specific prompts (CS, Math, General)
-// - CoursePromptBuilder.ts (165 lines) - Prompt builder with template detection
+// Note: The course-specific templates and CoursePromptBuilder were removed
+// in Phase 3 cleanup. System prompts now live in the versioned prompt
+// registry (registry.ts, templates.ts); buildSystemPrompt() in
+// lib/llm/utils renders the tutor prompt with a course's overrides.
 //
 
+// Prompt registry
+export type { PromptId, PromptTemplate, PromptVariables, RenderedPrompt } from "./registry";
+export {
+  getPromptTemplate,
+  listPromptVersions,
+  renderPrompt,
+  withCourseOverrides,
+  appendPrompt,
+} from "./registry";
+export { DEFAULT_PERSONA, PROMPT_TEMPLATES } from "./templates";
+export { loadCoursePromptSettings } from "./course";
+
 // Schemas
 export type { StructuredAIAnswer, Citation, Confidence } from "./schemas";
 export {
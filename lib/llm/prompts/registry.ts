@@ -0,0 +1,156 @@
+// ============================================
+// Prompt Registry
+// ============================================
+//
+// Looks up named, versioned prompt templates and renders them with their
+// variables. Rendered prompts carry a version reference ("tutor.system@1",
+// plus "+course@3" when course overrides were applied, and
+// "+integrity.hint-only@1" when a section was appended) that is recorded on
+// AI answers and messages.
+
+import { PROMPT_TEMPLATES } from "./templates";
+
+/**
+ * Names of the registered prompts
+ */
+export type PromptId =
+  | "tutor.system"
+  | "integrity.hint-only"
+  | "integrity.conceptual-only"
+  | "thread.summary"
+  | "conversation.restructure";
+
+/**
+ * One version of a prompt
+ */
+export interface PromptTemplate {
+  id: PromptId;
+  version: number;
+  description: string;
+  variables: readonly string[]; // Every {{name}} the template uses
+  template: string;
+}
+
+/**
+ * Variable values (null, undefined and "" leave {{#name}} blocks out)
+ */
+export type PromptVariables = Record<string, string | number | null | undefined>;
+
+/**
+ * A prompt ready to send, with the version that produced it
+ */
+export interface RenderedPrompt {
+  id: PromptId;
+  version: number;
+  text: string;
+  promptVersion: string; // e.g. "tutor.system@1" or "tutor.system@1+course@3"
+}
+
+/**
+ * Latest version of a prompt, or a specific one
+ *
+ * @throws Error if the prompt or version doesn't exist
+ */
+export function getPromptTemplate(id: PromptId, version?: number): PromptTemplate {
+  const versions = PROMPT_TEMPLATES.filter((template) => template.id === id);
+  const template =
+    version === undefined
+      ? versions.reduce<PromptTemplate | undefined>(
+          (latest, candidate) => (!latest || candidate.version > latest.version ? candidate : latest),
+          undefined
+        )
+      : versions.find((candidate) => candidate.version === version);
+
+  if (!template) {
+    throw new Error(`Unknown prompt: ${id}${version !== undefined ? `@${version}` : ""}`);
+  }
+  return template;
+}
+
+/**
+ * Published versions of a prompt (oldest first)
+ */
+export function listPromptVersions(id: PromptId): number[] {
+  return PROMPT_TEMPLATES.filter((template) => template.id === id)
+    .map((template) => template.version)
+    .sort((a, b) => a - b);
+}
+
+/**
+ * Render a prompt with its variables
+ *
+ * {{name}} outside a {{#name}} block is required; blocks whose variable is
+ * empty are left out.
+ *
+ * @throws Error if a required variable is missing, or one isn't declared
+ *
+ * @example
+ * ```ts
+ * const { text, promptVersion } = renderPrompt("thread.summary", {});
+ * ```
+ */
+export function renderPrompt(
+  id: PromptId,
+  variables: PromptVariables,
+  options: { version?: number } = {}
+): RenderedPrompt {
+  const template = getPromptTemplate(id, options.version);
+
+  for (const name of Object.keys(variables)) {
+    if (!template.variables.includes(name)) {
+      throw new Error(`Prompt ${id}@${template.version} has no variable "${name}"`);
+    }
+  }
+
+  const isSet = (name: string) => {
+    const value = variables[name];
+    return value !== null && value !== undefined && value !== "";
+  };
+
+  // One pass, so values (e.g. instructor-written policy) are never interpolated themselves
+  const render = (text: string): string =>
+    text.replace(
+      /\{\{#(\w+)\}\}([\s\S]*?)\{\{\/\1\}\}|\{\{(\w+)\}\}/g,
+      (_, blockName: string | undefined, block: string | undefined, name: string | undefined) => {
+        if (blockName !== undefined) {
+          return isSet(blockName) ? render(block!) : "";
+        }
+        if (!isSet(name!)) {
+          throw new Error(`Prompt ${id}@${template.version} is missing variable "${name}"`);
+        }
+        return String(variables[name!]);
+      }
+    );
+
+  const text = render(template.template);
+
+  return {
+    id,
+    version: template.version,
+    text,
+    promptVersion: `${id}@${template.version}`,
+  };
+}
+
+/**
+ * Mark a rendered prompt as customized by a course's overrides
+ *
+ * @param overridesVersion - Version of the course's prompt settings
+ */
+export function withCourseOverrides(prompt: RenderedPrompt, overridesVersion: number): RenderedPrompt {
+  return {
+    ...prompt,
+    promptVersion: `${prompt.id}@${prompt.version}+course@${overridesVersion}`,
+  };
+}
+
+/**
+ * Append a rendered section (e.g. an integrity guardrail) to a prompt
+ */
+export function appendPrompt(prompt: RenderedPrompt, section: RenderedPrompt): RenderedPrompt {
+  return {
+    ...prompt,
+    text: `${prompt.text}\n\n${section.text}`,
+    promptVersion: `${prompt.promptVersion}+${section.promptVersion}`,
+  };
+}
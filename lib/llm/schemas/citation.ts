@@ -17,9 +17,11 @@ export const CitationSchema = z.object({
   source: z.string().describe('The title or identifier of the source material'),
   sourceType: z.enum(['lecture', 'textbook', 'slides', 'lab', 'assignment', 'reading'])
     .describe('The type of course material being cited'),
-  excerpt: z.string().describe('A brief excerpt or summary from the source (50-150 words)'),
+  excerpt: z.string().describe('A short verbatim quote from the source (1-3 sentences), used to verify the citation'),
   relevance: z.number().min(0).max(100)
     .describe('Relevance score from 0-100 indicating how well this citation supports the answer'),
+  sourceNumber: z.number().int().min(1).optional()
+    .describe('Number of the cited passage in the provided course materials list (optional)'),
 });
 
 /**
@@ -2,69 +2,178 @@
 // AI SDK Tool Handlers (Phase 2: RAG Implementation)
 // ============================================
 //
-// Implements tool execution logic for kb.search and kb.fetch.
-// Uses hybrid retrieval system (BM25 + embeddings + RRF)
-// with hard caps on tool usage per turn.
+// Implements tool execution logic for kb.search and kb.fetch, plus the
+// course tools (threads.search, assignments.lookup, thread.answer).
+// Uses passage-level hybrid retrieval (BM25 + embeddings + RRF)
+// with hard caps on tool usage per request.
 
-import { createHybridRetriever } from "@/lib/retrieval";
-import type { CourseMaterial, Course } from "@/lib/models/types";
-import { TOOL_LIMITS } from "./index";
 import {
-  getToolUsage,
-  incrementSearches,
-  incrementFetches,
-  cleanupOldUsage,
-} from "./usage-tracker";
+  createPassageRetriever,
+  formatHeadingPath,
+  loadEndorsedAnswers,
+  loadSearchAliases,
+  MaterialChunker,
+  QueryRewriter,
+  QueryRouter,
+  toAnswerRouting,
+  type RetrievalResult,
+} from "@/lib/retrieval";
+import type {
+  AIAnswer,
+  AIAnswerRouting,
+  Assignment,
+  AssignmentIntegrityMode,
+  Citation,
+  ConfidenceLevel,
+  CourseMaterial,
+  Course,
+  QueryRewrite,
+  Thread,
+  ThreadStatus,
+} from "@/lib/models/types";
+import { api } from "@/lib/api/client";
+import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
+import { findSimilarDocuments } from "@/lib/utils/similarity";
+import type { ToolUsageTracker } from "./usage-tracker";
 
 // Import mock data directly for server-side access
 import coursesData from "@/mocks/courses.json";
 import courseMaterialsData from "@/mocks/course-materials.json";
+import threadsData from "@/mocks/threads.json";
+import aiAnswersData from "@/mocks/ai-answers.json";
+import assignmentsData from "@/mocks/assignments.json";
+
+/**
+ * Location of a passage within a material
+ */
+export interface KBPassageLocation {
+  id: string;            // Passage ID, pass to kb.fetch as passageId
+  section: string;       // Heading path, e.g. "Key topics covered"
+  headingPath: string[];
+  startOffset: number;   // Character offsets in the material content
+  endOffset: number;
+}
+
+/**
+ * kb.search result entry (one matching passage)
+ */
+export interface KBSearchMaterial {
+  id: string;
+  title: string;
+  type: string;
+  excerpt: string;       // Text of the matching passage
+  passage: KBPassageLocation | null;
+  relevanceScore: number;
+  matchedKeywords: string[];
+}
+
+/**
+ * kb.search cache hit: endorsed answer to a near-identical question
+ */
+export interface KBCachedAnswer {
+  aiAnswerId: string;
+  threadId: string;
+  similarity: number;    // Question similarity (0-1)
+  content: string;
+  citations: Citation[];
+}
+
+/**
+ * kb.search parameters as searched (after query rewriting)
+ */
+export interface KBSearchParams {
+  query: string;
+  rewrittenQuery: string; // What was actually searched
+  rewrites: Pick<QueryRewrite, "corrections" | "aliasExpansions" | "feedbackTerms">;
+  courseId: string | null;
+  maxResults: number;
+}
+
+/**
+ * Search parameters for a rewritten query
+ */
+function toSearchParams(
+  rewrite: QueryRewrite,
+  courseId: string | null,
+  maxResults: number
+): KBSearchParams {
+  return {
+    query: rewrite.original,
+    rewrittenQuery: rewrite.rewritten,
+    rewrites: {
+      corrections: rewrite.corrections,
+      aliasExpansions: rewrite.aliasExpansions,
+      feedbackTerms: rewrite.feedbackTerms,
+    },
+    courseId,
+    maxResults,
+  };
+}
+
+/**
+ * Format a passage retrieval result for the model
+ */
+function formatSearchResult(
+  result: RetrievalResult,
+  excerptLength: number,
+  titlePrefix = ""
+): KBSearchMaterial {
+  const { material, chunk } = result;
+  const text = chunk?.text ?? material.content;
+
+  return {
+    id: material.id,
+    title: titlePrefix + material.title,
+    type: material.type,
+    excerpt: text.substring(0, excerptLength) + (text.length > excerptLength ? "..." : ""),
+    passage: chunk
+      ? {
+          id: chunk.id,
+          section: formatHeadingPath(chunk.headingPath),
+          headingPath: chunk.headingPath,
+          startOffset: chunk.startOffset,
+          endOffset: chunk.endOffset,
+        }
+      : null,
+    relevanceScore: Math.round(result.score * 100), // Convert 0-1 to 0-100
+    matchedKeywords: (result.metadata?.matchedTerms || []) as string[],
+  };
+}
 
 /**
  * kb.search handler - Search course materials
  *
- * Uses hybrid retrieval (BM25 + embeddings) from CourseContextBuilder
- * to find relevant materials with semantic understanding.
+ * Uses passage-level hybrid retrieval (BM25 + embeddings) so each result
+ * is the exact matching passage, with its section and location in the
+ * material.
+ *
+ * The query is rewritten first (spelling correction against the course
+ * vocabulary, course aliases, pseudo-relevance feedback); searchParams
+ * reports the rewritten query and each change.
+ *
+ * Course searches are then routed (see QueryRouter): a near-identical
+ * question with an endorsed answer returns that answer as cachedAnswer
+ * without retrieving, and low-confidence queries retrieve more widely.
  *
- * @param params - Search parameters (query, courseId, maxResults, turnId)
- * @returns Array of materials with relevance scores
+ * @param params - Search parameters (query, courseId, maxResults, tracker)
+ * @returns Array of matching passages with relevance scores
  */
 export async function handleKBSearch(params: {
   query: string;
   courseId?: string;
   maxResults: number;
-  turnId: string;
+  tracker: ToolUsageTracker;
 }): Promise<{
-  materials: Array<{
-    id: string;
-    title: string;
-    type: string;
-    excerpt: string;
-    relevanceScore: number;
-    matchedKeywords: string[];
-  }>;
+  materials: KBSearchMaterial[];
   totalFound: number;
-  searchParams: {
-    query: string;
-    courseId: string | null;
-    maxResults: number;
-  };
+  searchParams: KBSearchParams;
+  routing?: AIAnswerRouting;
+  cachedAnswer?: KBCachedAnswer;
 }> {
-  const { query, courseId, maxResults, turnId } = params;
-
-  // Cleanup old usage data periodically
-  cleanupOldUsage();
-
-  // Check tool usage limits (using turnId from caller)
-  const usage = getToolUsage(turnId);
-  if (usage.searches >= TOOL_LIMITS.maxSearchesPerTurn) {
-    throw new Error(
-      `Tool usage limit exceeded: Maximum ${TOOL_LIMITS.maxSearchesPerTurn} kb.search call(s) per turn`
-    );
-  }
+  const { query, courseId, maxResults, tracker } = params;
 
-  // Increment search count (persisted to localStorage)
-  incrementSearches(turnId);
+  // Check the request's tool budget
+  tracker.record("kb_search");
 
   console.log(`[kb.search] Query: "${query}", courseId: ${courseId || "all"}, maxResults: ${maxResults}`);
 
@@ -80,74 +189,78 @@ export async function handleKBSearch(params: {
       const allMaterials = courseMaterialsData as CourseMaterial[];
       const materials = allMaterials.filter((m) => m.courseId === courseId);
 
-      // Use hybrid retrieval (BM25 + embeddings + RRF)
-      const { retriever } = await createHybridRetriever(materials, {
-        useRRF: true,
-        rrfK: 60,
-        useMMR: true,
-        mmrLambda: 0.7,
-      });
+      // Rewrite the query against the course vocabulary and alias table
+      const rewrite = new QueryRewriter(materials, loadSearchAliases(courseId)).rewrite(query);
+      const searchParams = toSearchParams(rewrite, courseId, maxResults);
+      if (rewrite.rewritten !== query) {
+        console.log(`[kb.search] Rewrote query to "${rewrite.rewritten}"`);
+      }
+
+      // Route the query: reuse an endorsed answer, or size retrieval to query confidence
+      const router = new QueryRouter(materials, await loadEndorsedAnswers(courseId));
+      const decision = await router.route(rewrite.rewritten, maxResults);
+      const routing = toAnswerRouting(decision);
+
+      console.log(`[kb.search] Routing: ${decision.action} (query confidence ${decision.queryConfidence})`);
+
+      if (decision.cachedAnswer) {
+        return {
+          materials: [],
+          totalFound: 0,
+          searchParams,
+          routing,
+          cachedAnswer: {
+            ...decision.cacheHit,
+            content: decision.cachedAnswer.content,
+            citations: decision.cachedAnswer.citations,
+          },
+        };
+      }
+
+      // Use passage-level hybrid retrieval (BM25 + embeddings + RRF), sized by the router
+      const { limit, config, maxPassagesPerMaterial } = decision.retrieval;
+      const { retriever } = await createPassageRetriever(materials, config, { maxPassagesPerMaterial });
 
-      const results = await retriever.retrieve(query, maxResults);
+      const results = await retriever.retrieve(rewrite.rewritten, limit);
 
       // Format results for AI
-      const formattedMaterials = results.map((r) => ({
-        id: r.material.id,
-        title: r.material.title,
-        type: r.material.type,
-        excerpt: r.material.content.substring(0, 300) + (r.material.content.length > 300 ? "..." : ""),
-        relevanceScore: Math.round(r.score * 100), // Convert 0-1 to 0-100
-        matchedKeywords: (r.metadata?.matchedTerms || []) as string[],
-      }));
+      const formattedMaterials = results.map((r) => formatSearchResult(r, 800));
 
       console.log(`[kb.search] Found ${formattedMaterials.length} results for course ${course.code}`);
 
       return {
         materials: formattedMaterials,
         totalFound: formattedMaterials.length,
-        searchParams: {
-          query,
-          courseId,
-          maxResults,
-        },
+        searchParams,
+        routing,
       };
     } else {
       // Multi-course search - aggregate from all courses
       const courses = coursesData as Course[];
       const allMaterials = courseMaterialsData as CourseMaterial[];
-      const allResults: Array<{
-        id: string;
-        title: string;
-        type: string;
-        excerpt: string;
-        relevanceScore: number;
-        matchedKeywords: string[];
-      }> = [];
+      const allResults: KBSearchMaterial[] = [];
+
+      // One rewrite over every course's vocabulary and aliases
+      const rewrite = new QueryRewriter(allMaterials, loadSearchAliases()).rewrite(query);
 
       // Search each course and collect results
       for (const course of courses) {
         const materials = allMaterials.filter((m) => m.courseId === course.id);
 
-        // Use hybrid retrieval for this course
-        const { retriever } = await createHybridRetriever(materials, {
+        // Use passage-level hybrid retrieval for this course
+        const { retriever } = await createPassageRetriever(materials, {
           useRRF: true,
           rrfK: 60,
+          useReranker: true,
         });
 
         const results = await retriever.retrieve(
-          query,
+          rewrite.rewritten,
           Math.ceil(maxResults / courses.length) // Distribute across courses
         );
 
         // Add course prefix to titles for multi-course results
-        const formatted = results.map((r) => ({
-          id: r.material.id,
-          title: `[${course.code}] ${r.material.title}`,
-          type: r.material.type,
-          excerpt: r.material.content.substring(0, 200) + (r.material.content.length > 200 ? "..." : ""),
-          relevanceScore: Math.round(r.score * 100), // Convert 0-1 to 0-100
-          matchedKeywords: (r.metadata?.matchedTerms || []) as string[],
-        }));
+        const formatted = results.map((r) => formatSearchResult(r, 400, `[${course.code}] `));
 
         allResults.push(...formatted);
       }
@@ -162,11 +275,7 @@ export async function handleKBSearch(params: {
       return {
         materials: sortedResults,
         totalFound: sortedResults.length,
-        searchParams: {
-          query,
-          courseId: null,
-          maxResults,
-        },
+        searchParams: toSearchParams(rewrite, null, maxResults),
       };
     }
   } catch (error) {
@@ -179,14 +288,16 @@ export async function handleKBSearch(params: {
  * kb.fetch handler - Fetch specific material by ID
  *
  * Retrieves full content of a course material for detailed citation.
- * Used after kb.search to get complete material details.
+ * Used after kb.search to get complete material details. With a passageId
+ * (from kb.search), the passage text and location are returned as well.
  *
- * @param params - Fetch parameters (materialId, turnId)
- * @returns Full material with content and metadata
+ * @param params - Fetch parameters (materialId, optional passageId, tracker)
+ * @returns Full material with content and metadata, plus the passage
  */
 export async function handleKBFetch(params: {
   materialId: string;
-  turnId: string;
+  passageId?: string;
+  tracker: ToolUsageTracker;
 }): Promise<{
   material: {
     id: string;
@@ -198,22 +309,12 @@ export async function handleKBFetch(params: {
     createdAt: string;
     updatedAt: string;
   };
+  passage: (KBPassageLocation & { text: string }) | null;
 }> {
-  const { materialId, turnId } = params;
-
-  // Cleanup old usage data periodically
-  cleanupOldUsage();
-
-  // Check tool usage limits (using turnId from caller)
-  const usage = getToolUsage(turnId);
-  if (usage.fetches >= TOOL_LIMITS.maxFetchesPerTurn) {
-    throw new Error(
-      `Tool usage limit exceeded: Maximum ${TOOL_LIMITS.maxFetchesPerTurn} kb.fetch call(s) per turn`
-    );
-  }
+  const { materialId, passageId, tracker } = params;
 
-  // Increment fetch count (persisted to localStorage)
-  incrementFetches(turnId);
+  // Check the request's tool budget
+  tracker.record("kb_fetch");
 
   console.log(`[kb.fetch] Fetching material: ${materialId}`);
 
@@ -243,7 +344,24 @@ export async function handleKBFetch(params: {
       throw new Error(`Material not found: ${materialId}`);
     }
 
-    console.log(`[kb.fetch] Found material: ${material.title} (${material.type})`);
+    // Passages are recomputed deterministically, so IDs from kb.search resolve
+    let passage: (KBPassageLocation & { text: string }) | null = null;
+    if (passageId) {
+      const chunk = new MaterialChunker().chunk(material).find((c) => c.id === passageId);
+      if (!chunk) {
+        throw new Error(`Passage not found in ${materialId}: ${passageId}`);
+      }
+      passage = {
+        id: chunk.id,
+        section: formatHeadingPath(chunk.headingPath),
+        headingPath: chunk.headingPath,
+        startOffset: chunk.startOffset,
+        endOffset: chunk.endOffset,
+        text: chunk.text,
+      };
+    }
+
+    console.log(`[kb.fetch] Found material: ${material.title} (${material.type})${passage ? ` @ ${passage.section || passage.id}` : ""}`);
 
     return {
       material: {
@@ -256,9 +374,314 @@ export async function handleKBFetch(params: {
         createdAt: material.createdAt,
         updatedAt: material.updatedAt,
       },
+      passage,
     };
   } catch (error) {
     console.error("[kb.fetch] Error:", error);
     throw error;
   }
 }
+
+// ============================================
+// Course Tools (threads, assignments, endorsed answers)
+// ============================================
+
+/**
+ * Minimum question similarity (0-1) for threads.search matches
+ */
+const MIN_THREAD_SIMILARITY = 0.1;
+
+/**
+ * Endorsements an AI answer needs to count as endorsed without an
+ * instructor endorsement (same bar as loadEndorsedAnswers)
+ */
+const MIN_ANSWER_ENDORSEMENTS = 2;
+
+/**
+ * Length of thread excerpts returned by threads.search
+ */
+const THREAD_EXCERPT_LENGTH = 300;
+
+/**
+ * Course threads, from the backend when enabled (mock data otherwise)
+ */
+async function loadCourseThreads(courseId: string): Promise<Thread[]> {
+  if (BACKEND_FEATURE_FLAGS.threads) {
+    return api.getCourseThreads(courseId);
+  }
+  return (threadsData as Thread[]).filter((t) => t.courseId === courseId);
+}
+
+/**
+ * A thread by ID, from the backend when enabled (mock data otherwise)
+ */
+async function loadThread(threadId: string): Promise<Thread | null> {
+  if (BACKEND_FEATURE_FLAGS.threads) {
+    const details = await api.getThread(threadId);
+    return details?.thread ?? null;
+  }
+  return (threadsData as Thread[]).find((t) => t.id === threadId) ?? null;
+}
+
+/**
+ * A thread's AI answer, from the backend when enabled (mock data otherwise)
+ */
+async function loadThreadAIAnswer(threadId: string): Promise<AIAnswer | null> {
+  if (BACKEND_FEATURE_FLAGS.aiAnswers) {
+    return api.getAIAnswer(threadId);
+  }
+  return (aiAnswersData as unknown as AIAnswer[]).find((a) => a.threadId === threadId) ?? null;
+}
+
+/**
+ * Course assignments, from the backend when enabled (mock data otherwise)
+ */
+export async function loadCourseAssignments(courseId: string): Promise<Assignment[]> {
+  if (BACKEND_FEATURE_FLAGS.courses) {
+    return api.getCourseAssignments(courseId);
+  }
+  return (assignmentsData.assignments as Assignment[]).filter((a) => a.courseId === courseId);
+}
+
+/**
+ * Whether an AI answer is endorsed (by an instructor, or enough students)
+ */
+function isEndorsedAnswer(answer: AIAnswer): boolean {
+  return answer.instructorEndorsed || answer.totalEndorsements >= MIN_ANSWER_ENDORSEMENTS;
+}
+
+/**
+ * threads.search result entry (one existing thread)
+ */
+export interface KBThreadMatch {
+  threadId: string;
+  title: string;
+  excerpt: string;
+  status: ThreadStatus;
+  similarity: number;    // Question similarity (0-1)
+  hasEndorsedAnswer: boolean;
+  createdAt: string;
+}
+
+/**
+ * threads.search handler - Find existing threads asking the same thing
+ *
+ * Ranks the course's threads by TF-IDF similarity to the query (merged
+ * duplicates are skipped in favour of the thread they were merged into).
+ * Matches with hasEndorsedAnswer can be opened with thread.answer.
+ *
+ * @param params - Search parameters (query, courseId, maxResults, tracker)
+ * @returns Matching threads, most similar first
+ */
+export async function handleThreadsSearch(params: {
+  query: string;
+  courseId: string;
+  maxResults: number;
+  tracker: ToolUsageTracker;
+}): Promise<{
+  threads: KBThreadMatch[];
+  totalFound: number;
+}> {
+  const { query, courseId, maxResults, tracker } = params;
+
+  // Check the request's tool budget
+  tracker.record("threads_search");
+
+  console.log(`[threads.search] Query: "${query}", courseId: ${courseId}, maxResults: ${maxResults}`);
+
+  try {
+    const threads = (await loadCourseThreads(courseId)).filter((t) => !t.duplicatesOf);
+    const byId = new Map(threads.map((t) => [t.id, t]));
+
+    const matches = findSimilarDocuments(
+      query,
+      threads.map((t) => ({ id: t.id, text: `${t.title} ${t.content}` })),
+      MIN_THREAD_SIMILARITY
+    ).slice(0, maxResults);
+
+    const results = await Promise.all(
+      matches.map(async ({ id, similarity }): Promise<KBThreadMatch> => {
+        const thread = byId.get(id)!;
+        const answer = thread.hasAIAnswer ? await loadThreadAIAnswer(thread.id) : null;
+
+        return {
+          threadId: thread.id,
+          title: thread.title,
+          excerpt:
+            thread.content.substring(0, THREAD_EXCERPT_LENGTH) +
+            (thread.content.length > THREAD_EXCERPT_LENGTH ? "..." : ""),
+          status: thread.status,
+          similarity: Math.round(similarity * 100) / 100,
+          hasEndorsedAnswer: answer !== null && isEndorsedAnswer(answer),
+          createdAt: thread.createdAt,
+        };
+      })
+    );
+
+    console.log(`[threads.search] Found ${results.length} threads in ${courseId}`);
+
+    return {
+      threads: results,
+      totalFound: results.length,
+    };
+  } catch (error) {
+    console.error("[threads.search] Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * assignments.lookup result entry
+ */
+export interface KBAssignment {
+  id: string;
+  title: string;
+  description: string | null;
+  dueDate: string;
+  isPastDue: boolean;
+  daysUntilDue: number;  // Negative once past due
+  integrityMode: AssignmentIntegrityMode;  // Help allowed on the assignment
+}
+
+/**
+ * assignments.lookup handler - Look up a course's assignments and due dates
+ *
+ * Returns the course's assignments (nearest due date first), optionally
+ * only those whose title or description mentions every word of the query.
+ * Past assignments are left out unless includePast is set. The current
+ * time is returned as well, so the model can say how long is left.
+ *
+ * @param params - Lookup parameters (courseId, optional query, includePast, tracker)
+ * @returns Matching assignments with due dates
+ */
+export async function handleAssignmentsLookup(params: {
+  courseId: string;
+  query?: string;
+  includePast: boolean;
+  tracker: ToolUsageTracker;
+}): Promise<{
+  assignments: KBAssignment[];
+  totalFound: number;
+  now: string;
+}> {
+  const { courseId, query, includePast, tracker } = params;
+
+  // Check the request's tool budget
+  tracker.record("assignments_lookup");
+
+  console.log(`[assignments.lookup] courseId: ${courseId}, query: ${query ? `"${query}"` : "none"}`);
+
+  try {
+    const now = new Date();
+    const terms = (query ?? "").toLowerCase().split(/\s+/).filter(Boolean);
+
+    const results = (await loadCourseAssignments(courseId))
+      .filter((a) => {
+        const text = `${a.title} ${a.description ?? ""}`.toLowerCase();
+        return terms.every((term) => text.includes(term));
+      })
+      .map((a): KBAssignment => {
+        const msUntilDue = new Date(a.dueDate).getTime() - now.getTime();
+        return {
+          id: a.id,
+          title: a.title,
+          description: a.description ?? null,
+          dueDate: a.dueDate,
+          isPastDue: msUntilDue < 0,
+          daysUntilDue: Math.floor(msUntilDue / (24 * 60 * 60 * 1000)),
+          integrityMode: a.integrityMode ?? "unrestricted",
+        };
+      })
+      .filter((a) => includePast || !a.isPastDue)
+      .sort((a, b) => new Date(a.dueDate).getTime() - new Date(b.dueDate).getTime());
+
+    console.log(`[assignments.lookup] Found ${results.length} assignments in ${courseId}`);
+
+    return {
+      assignments: results,
+      totalFound: results.length,
+      now: now.toISOString(),
+    };
+  } catch (error) {
+    console.error("[assignments.lookup] Error:", error);
+    throw error;
+  }
+}
+
+/**
+ * thread.answer endorsed answer
+ */
+export interface KBThreadAnswer {
+  aiAnswerId: string;
+  content: string;
+  citations: Citation[];
+  confidenceLevel: ConfidenceLevel;
+  instructorEndorsed: boolean;
+  totalEndorsements: number;
+}
+
+/**
+ * thread.answer handler - Fetch the endorsed AI answer of a thread
+ *
+ * Used after threads.search, so the assistant can point the student to
+ * the earlier thread instead of answering from scratch. Answers that are
+ * not endorsed yet are not returned (endorsedAnswer is null).
+ *
+ * @param params - Fetch parameters (threadId, tracker)
+ * @returns The thread and its endorsed AI answer, if any
+ */
+export async function handleThreadAnswer(params: {
+  threadId: string;
+  tracker: ToolUsageTracker;
+}): Promise<{
+  thread: {
+    id: string;
+    courseId: string;
+    title: string;
+    status: ThreadStatus;
+    createdAt: string;
+  };
+  endorsedAnswer: KBThreadAnswer | null;
+}> {
+  const { threadId, tracker } = params;
+
+  // Check the request's tool budget
+  tracker.record("thread_answer");
+
+  console.log(`[thread.answer] Fetching answer for thread: ${threadId}`);
+
+  try {
+    const thread = await loadThread(threadId);
+    if (!thread) {
+      throw new Error(`Thread not found: ${threadId}`);
+    }
+
+    const answer = thread.hasAIAnswer ? await loadThreadAIAnswer(thread.id) : null;
+    const endorsedAnswer = answer && isEndorsedAnswer(answer) ? answer : null;
+
+    console.log(`[thread.answer] ${thread.title}: ${endorsedAnswer ? "endorsed answer found" : "no endorsed answer"}`);
+
+    return {
+      thread: {
+        id: thread.id,
+        courseId: thread.courseId,
+        title: thread.title,
+        status: thread.status,
+        createdAt: thread.createdAt,
+      },
+      endorsedAnswer: endorsedAnswer
+        ? {
+            aiAnswerId: endorsedAnswer.id,
+            content: endorsedAnswer.content,
+            citations: endorsedAnswer.citations,
+            confidenceLevel: endorsedAnswer.confidenceLevel,
+            instructorEndorsed: endorsedAnswer.instructorEndorsed,
+            totalEndorsements: endorsedAnswer.totalEndorsements,
+          }
+        : null,
+    };
+  } catch (error) {
+    console.error("[thread.answer] Error:", error);
+    throw error;
+  }
+}
@@ -8,113 +8,216 @@
 // Tools:
 // - kb.search: Search course materials by query
 // - kb.fetch: Fetch specific material by ID
+// - threads.search: Find existing threads asking the same question
+// - assignments.lookup: Look up assignment due dates
+// - thread.answer: Fetch the endorsed AI answer of a thread
 //
 // Constraints:
-// - Max 1 kb.search + 1 kb.fetch per turn (enforced in handlers)
+// - Tools are created per request (createRagTools) and share that
+//   request's call limits (TOOL_LIMITS, enforced in handlers)
 // - Course-specific searches when courseId provided
 // - Returns structured results with citations
 
 import { tool } from "ai";
 import { z } from "zod";
+import {
+  handleKBSearch,
+  handleKBFetch,
+  handleThreadsSearch,
+  handleAssignmentsLookup,
+  handleThreadAnswer,
+} from "./handlers";
+import { TOOL_LIMITS, ToolUsageTracker } from "./usage-tracker";
+
+export { TOOL_LIMITS, ToolUsageTracker } from "./usage-tracker";
+export type { RagToolName } from "./usage-tracker";
+
+const { maxCallsPerRequest } = TOOL_LIMITS;
 
 /**
  * kb_search - Search course materials by query
  *
- * Uses hybrid retrieval (BM25 + embeddings) to find relevant materials.
- * Returns top-k results with relevance scores and excerpts.
+ * Uses passage-level hybrid retrieval (BM25 + embeddings) to find relevant
+ * materials. Returns the top-k matching passages with their section,
+ * location, and relevance scores. The query is rewritten first (spelling,
+ * course aliases, feedback terms). When the question already has an
+ * endorsed answer, that answer is returned as cachedAnswer instead.
  */
-export const kbSearchTool = tool({
-  description:
-    "Search course materials by query. Returns relevant lecture notes, slides, assignments, and readings with relevance scores. Use this when you need to find information about course topics. Limit: 1 search per turn.",
-  inputSchema: z.object({
-    query: z
-      .string()
-      .min(3, "Query must be at least 3 characters")
-      .max(200, "Query must be less than 200 characters")
-      .describe("The search query (e.g., 'binary search algorithm', 'integration by parts')"),
-    courseId: z
-      .string()
-      .optional()
-      .describe(
-        "Optional course ID to limit search scope (e.g., 'course-cs101'). If omitted, searches all courses."
-      ),
-    maxResults: z
-      .number()
-      .int()
-      .min(1, "Must retrieve at least 1 result")
-      .max(10, "Cannot retrieve more than 10 results")
-      .default(4)
-      .describe("Maximum number of results to return (default: 4)"),
-  }),
-  execute: async ({ query, courseId, maxResults }) => {
-    // Import handler dynamically to avoid circular dependencies
-    const { handleKBSearch } = await import("./handlers");
-
-    // Generate turnId: timestamp rounded to nearest second
-    // This groups all tool calls within the same second as part of the same turn
-    const turnId = Math.floor(Date.now() / 1000).toString();
-
-    return handleKBSearch({
-      query,
-      courseId,
-      maxResults,
-      turnId,
-    });
-  },
-});
+function createKBSearchTool(tracker: ToolUsageTracker) {
+  return tool({
+    description: `Search course materials by query. Returns the matching passages of lecture notes, slides, assignments, and readings, each with its section, passage ID, and relevance score. Use this when you need to find information about course topics; cite the section the passage comes from. The query is spell-checked and expanded with course terms before searching; searchParams.rewrittenQuery is what was actually searched. If the question was already answered and endorsed, returns that answer as cachedAnswer (with no passages) instead. Limit: ${maxCallsPerRequest.kb_search} searches per request.`,
+    inputSchema: z.object({
+      query: z
+        .string()
+        .min(3, "Query must be at least 3 characters")
+        .max(200, "Query must be less than 200 characters")
+        .describe("The search query (e.g., 'binary search algorithm', 'integration by parts')"),
+      courseId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional course ID to limit search scope (e.g., 'course-cs101'). If omitted, searches all courses."
+        ),
+      maxResults: z
+        .number()
+        .int()
+        .min(1, "Must retrieve at least 1 result")
+        .max(10, "Cannot retrieve more than 10 results")
+        .default(4)
+        .describe("Maximum number of results to return (default: 4)"),
+    }),
+    execute: async ({ query, courseId, maxResults }) => {
+      return handleKBSearch({
+        query,
+        courseId,
+        maxResults,
+        tracker,
+      });
+    },
+  });
+}
 
 /**
  * kb_fetch - Fetch specific material by ID
  *
- * Retrieves full content of a specific course material by its ID.
+ * Retrieves full content of a specific course material by its ID, and
+ * optionally one of its passages (by passage ID from kb_search).
  * Use after kb_search to get complete material content for citation.
  */
-export const kbFetchTool = tool({
-  description:
-    "Fetch full content of a specific course material by ID. Use this after kb_search to get complete material details for citation. Returns title, type, content, and metadata. Limit: 1 fetch per turn.",
-  inputSchema: z.object({
-    materialId: z
-      .string()
-      .min(1, "Material ID is required")
-      .describe(
-        "Unique material identifier from kb_search results (e.g., 'mat-cs101-lecture-1')"
-      ),
-  }),
-  execute: async ({ materialId }) => {
-    // Import handler dynamically to avoid circular dependencies
-    const { handleKBFetch } = await import("./handlers");
+function createKBFetchTool(tracker: ToolUsageTracker) {
+  return tool({
+    description: `Fetch full content of a specific course material by ID. Use this after kb_search to get complete material details for citation. Returns title, type, content, and metadata; pass a passageId from kb_search to also get that passage's text, section, and character offsets. Limit: ${maxCallsPerRequest.kb_fetch} fetches per request.`,
+    inputSchema: z.object({
+      materialId: z
+        .string()
+        .min(1, "Material ID is required")
+        .describe(
+          "Unique material identifier from kb_search results (e.g., 'mat-cs101-lecture-1')"
+        ),
+      passageId: z
+        .string()
+        .optional()
+        .describe(
+          "Optional passage ID from kb_search results (e.g., 'mat-cs101-lecture-1#2')"
+        ),
+    }),
+    execute: async ({ materialId, passageId }) => {
+      return handleKBFetch({ materialId, passageId, tracker });
+    },
+  });
+}
 
-    // Generate turnId: timestamp rounded to nearest second
-    // This groups all tool calls within the same second as part of the same turn
-    const turnId = Math.floor(Date.now() / 1000).toString();
+/**
+ * threads_search - Find existing threads in a course
+ *
+ * Ranks the course's discussion threads by similarity to the question, so
+ * the assistant can point to a thread where it was already asked.
+ */
+function createThreadsSearchTool(tracker: ToolUsageTracker) {
+  return tool({
+    description: `Search the course's existing discussion threads for the same or a similar question. Returns thread IDs, titles, excerpts, status, similarity (0-1), and whether the thread has an endorsed AI answer. Use this when the student's question may already have been asked; open a match with hasEndorsedAnswer using thread_answer. Limit: ${maxCallsPerRequest.threads_search} searches per request.`,
+    inputSchema: z.object({
+      query: z
+        .string()
+        .min(3, "Query must be at least 3 characters")
+        .max(300, "Query must be less than 300 characters")
+        .describe("The student's question, or its key terms (e.g., 'binary search infinite loop')"),
+      courseId: z
+        .string()
+        .min(1, "Course ID is required")
+        .describe("Course ID to search threads in (e.g., 'course-cs101')"),
+      maxResults: z
+        .number()
+        .int()
+        .min(1, "Must retrieve at least 1 result")
+        .max(10, "Cannot retrieve more than 10 results")
+        .default(3)
+        .describe("Maximum number of threads to return (default: 3)"),
+    }),
+    execute: async ({ query, courseId, maxResults }) => {
+      return handleThreadsSearch({ query, courseId, maxResults, tracker });
+    },
+  });
+}
+
+/**
+ * assignments_lookup - Look up assignment due dates
+ *
+ * Lists the course's assignments (from the assignments table when the
+ * backend is enabled) with due dates relative to now.
+ */
+function createAssignmentsLookupTool(tracker: ToolUsageTracker) {
+  return tool({
+    description: `Look up a course's assignments and their due dates. Returns each assignment's title, description, due date (ISO 8601), whether it is past due, and days until due, plus the current time. Use this for questions about deadlines or what is due next. Limit: ${maxCallsPerRequest.assignments_lookup} lookups per request.`,
+    inputSchema: z.object({
+      courseId: z
+        .string()
+        .min(1, "Course ID is required")
+        .describe("Course ID to look up assignments for (e.g., 'course-cs101')"),
+      query: z
+        .string()
+        .max(100, "Query must be less than 100 characters")
+        .optional()
+        .describe(
+          "Optional words the assignment's title or description must contain (e.g., 'binary search trees'). If omitted, returns all assignments."
+        ),
+      includePast: z
+        .boolean()
+        .default(false)
+        .describe("Include assignments that are already past due (default: false)"),
+    }),
+    execute: async ({ courseId, query, includePast }) => {
+      return handleAssignmentsLookup({ courseId, query, includePast, tracker });
+    },
+  });
+}
 
-    return handleKBFetch({ materialId, turnId });
-  },
-});
+/**
+ * thread_answer - Fetch the endorsed AI answer of a thread
+ *
+ * Use after threads_search to reuse an answer that instructors or
+ * students already endorsed.
+ */
+function createThreadAnswerTool(tracker: ToolUsageTracker) {
+  return tool({
+    description: `Fetch the endorsed AI answer of an existing thread (by thread ID from threads_search). Returns the thread's title and status, and its endorsed answer with citations, or endorsedAnswer: null if it has none. Use this to tell the student the question was already answered in that thread. Limit: ${maxCallsPerRequest.thread_answer} fetches per request.`,
+    inputSchema: z.object({
+      threadId: z
+        .string()
+        .min(1, "Thread ID is required")
+        .describe("Thread identifier from threads_search results (e.g., 'thread-1')"),
+    }),
+    execute: async ({ threadId }) => {
+      return handleThreadAnswer({ threadId, tracker });
+    },
+  });
+}
 
 /**
- * Export all tools as a registry for AI SDK
+ * Create the tool registry for one request
+ *
+ * Every tool in the registry shares one ToolUsageTracker, so the per-tool
+ * limits in TOOL_LIMITS apply to the whole multi-step agent loop of that
+ * request. Create a new registry for every request.
  *
  * Usage in streamText():
  * ```typescript
- * import { ragTools } from '@/lib/llm/tools';
+ * import { createRagTools, TOOL_LIMITS } from '@/lib/llm/tools';
  *
  * const result = streamText({
  *   model,
  *   messages,
- *   tools: ragTools,
+ *   tools: createRagTools(),
+ *   stopWhen: stepCountIs(TOOL_LIMITS.maxSteps),
  * });
  * ```
  */
-export const ragTools = {
-  "kb_search": kbSearchTool,
-  "kb_fetch": kbFetchTool,
-};
-
-/**
- * Tool call usage limits (enforced in handlers)
- */
-export const TOOL_LIMITS = {
-  maxSearchesPerTurn: 1,
-  maxFetchesPerTurn: 1,
-} as const;
+export function createRagTools(tracker: ToolUsageTracker = new ToolUsageTracker()) {
+  return {
+    "kb_search": createKBSearchTool(tracker),
+    "kb_fetch": createKBFetchTool(tracker),
+    "threads_search": createThreadsSearchTool(tracker),
+    "assignments_lookup": createAssignmentsLookupTool(tracker),
+    "thread_answer": createThreadAnswerTool(tracker),
+  };
+}
@@ -0,0 +1,142 @@
+// ============================================
+// LLM Usage & Cost Accounting
+// ============================================
+//
+// Prices LLM calls and records each one in the usage ledger. Courses whose
+// monthly budget is used up skip the LLM and answer from templates.
+
+import type { LanguageModel, LanguageModelUsage, ProviderMetadata } from 'ai';
+import { api } from '@/lib/api/client';
+import { getServedModel } from './model-router';
+import type { LLMFeature } from '@/lib/models/types';
+
+/**
+ * Model price in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * List prices of the models the providers are configured with
+ *
+ * Keys match model IDs by prefix, so dated versions
+ * ("claude-3-5-haiku-20241022") use their family's price.
+ */
+export const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'o4-mini': { input: 1.1, output: 4.4 },
+  'claude-3-haiku': { input: 0.25, output: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4 },
+  'claude-3-5-sonnet': { input: 3, output: 15 },
+  'claude-3-7-sonnet': { input: 3, output: 15 },
+  'claude-sonnet-4': { input: 3, output: 15 },
+  'claude-opus-4': { input: 15, output: 75 },
+};
+
+/**
+ * Price of models missing from MODEL_PRICING (errs on the expensive side,
+ * so budgets run out early rather than late)
+ */
+const FALLBACK_PRICING: ModelPricing = { input: 3, output: 15 };
+
+/**
+ * Price of a model (longest matching MODEL_PRICING prefix)
+ */
+export function getModelPricing(model: string): ModelPricing {
+  const key = Object.keys(MODEL_PRICING)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+
+  return key ? MODEL_PRICING[key] : FALLBACK_PRICING;
+}
+
+/**
+ * Estimated cost of a call in USD
+ */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const pricing = getModelPricing(model);
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Provider and model ID that served a call ("openai.chat" → "openai")
+ *
+ * Calls routed through a ModelRouter name their provider in the call's
+ * providerMetadata; other models always serve themselves.
+ */
+export function describeModel(
+  model: LanguageModel,
+  providerMetadata?: ProviderMetadata
+): { provider: string; model: string } {
+  const served = getServedModel(providerMetadata);
+  if (served) {
+    return { provider: served.provider.split('.')[0], model: served.modelId };
+  }
+  if (typeof model === 'string') {
+    return { provider: 'gateway', model };
+  }
+  return { provider: model.provider.split('.')[0], model: model.modelId };
+}
+
+/**
+ * Record one LLM call in the usage ledger
+ *
+ * Calls without a user or course are still recorded (with nulls), so the
+ * ledger covers every call. Failures are logged, not thrown; accounting
+ * must never fail a request.
+ */
+export async function recordLLMUsage(params: {
+  feature: LLMFeature;
+  model: LanguageModel;
+  usage: LanguageModelUsage | null | undefined;
+  providerMetadata?: ProviderMetadata; // The call's own metadata (names the serving provider)
+  userId?: string | null;
+  courseId?: string | null;
+}): Promise<void> {
+  const { feature, usage, userId = null, courseId = null } = params;
+  if (!usage) return;
+
+  const { provider, model } = describeModel(params.model, params.providerMetadata);
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+
+  try {
+    await api.recordLLMUsage({
+      userId,
+      courseId,
+      feature,
+      provider,
+      model,
+      inputTokens,
+      outputTokens,
+      totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+      estimatedCost: estimateCost(model, inputTokens, outputTokens),
+    });
+  } catch (error) {
+    console.error(`[LLM Usage] Failed to record ${feature} usage:`, error);
+  }
+}
+
+/**
+ * Whether a course has used up its monthly LLM budget
+ *
+ * Courses without a budget never run out; if the budget can't be checked,
+ * the call goes ahead.
+ */
+export async function isCourseBudgetExhausted(courseId: string | null | undefined): Promise<boolean> {
+  if (!courseId) return false;
+
+  try {
+    const budget = await api.getCourseLLMBudget(courseId);
+    return budget.exhausted;
+  } catch (error) {
+    console.error('[LLM Usage] Failed to check course budget:', error);
+    return false;
+  }
+}
@@ -9,8 +9,10 @@ export interface Citation {
   id: number;
   title: string;
   type: string;
+  section?: string; // Section of the material the cited passage is from
   materialId?: string;
-  url?: string; // Link to view the material (for frontend-only demo, this can be a placeholder)
+  url?: string; // Link to view the material (set once the citation is verified)
+  verified?: boolean; // Resolved to a real course material (see resolveCitations)
 }
 
 export interface ParsedCitations {
@@ -32,7 +34,7 @@ export interface ParsedCitations {
  * Binary search is an O(log n) algorithm [1]. It works by dividing the search space [2].
  *
  * **Sources:**
- * 1. Lecture 3: Binary Search (Type: lecture)
+ * 1. Lecture 3: Binary Search > Key topics covered (Type: lecture)
  * 2. Week 2 Slides: Search Algorithms (Type: slide)
  * ```
  *
@@ -68,27 +70,26 @@ export function parseCitations(responseText: string): ParsedCitations {
   const contentWithoutSources = responseText.replace(sourcesMatch[0], '').trim();
 
   // Parse individual source entries
-  // Format: "1. Title (Type: lecture)"
+  // Format: "1. Title (Type: lecture)" or "1. Title > Section (Type: lecture)"
   const sourcePattern = /^(\d+)\.\s*(.+?)\s*\(Type:\s*(.+?)\)\s*$/gm;
   const citations: Citation[] = [];
 
   while ((match = sourcePattern.exec(sourcesContent)) !== null) {
     const id = parseInt(match[1], 10);
-    const title = match[2].trim();
+    const [title, ...sectionPath] = match[2].split(' > ').map((part) => part.trim());
+    const section = sectionPath.length > 0 ? sectionPath.join(' > ') : undefined;
     const type = match[3].trim();
 
-    // Try to extract material ID from title
+    // Guess the material ID from the title (checked by resolveCitations)
     const materialId = extractMaterialId(title);
 
-    // Generate URL for material (placeholder for frontend-only demo)
-    const url = materialId ? `/materials/${materialId}` : undefined;
-
     citations.push({
       id,
       title,
       type,
+      section,
       materialId,
-      url,
+      verified: false,
     });
   }
 
@@ -202,25 +203,314 @@ export function highlightCitations(text: string, citations: Citation[]): string
  * Validate citations
  *
  * Checks that all inline citation markers have corresponding entries
- * in the Sources section.
+ * in the Sources section. When course materials are given, also checks
+ * that every source resolves to one of them (see resolveSource).
  *
  * @param parsed - Parsed citations
- * @returns Validation result with missing/extra citations
+ * @param materials - Optional course materials the sources must resolve to
+ * @returns Validation result with missing/extra/unresolved citations
  */
-export function validateCitations(parsed: ParsedCitations): {
+export function validateCitations(
+  parsed: ParsedCitations,
+  materials?: CitationMaterial[]
+): {
   valid: boolean;
   missingInSources: number[];
   extraInSources: number[];
+  unresolved: number[];
 } {
   const markerIds = Array.from(parsed.citationMarkers);
   const sourceIds = parsed.citations.map(c => c.id);
 
   const missingInSources = markerIds.filter(id => !sourceIds.includes(id));
   const extraInSources = sourceIds.filter(id => !markerIds.includes(id));
+  const unresolved = materials
+    ? parsed.citations.filter(c => !resolveSource(c, materials).material).map(c => c.id)
+    : [];
 
   return {
-    valid: missingInSources.length === 0 && extraInSources.length === 0,
+    valid: missingInSources.length === 0 && extraInSources.length === 0 && unresolved.length === 0,
     missingInSources,
     extraInSources,
+    unresolved,
+  };
+}
+
+// ============================================
+// Citation Resolution
+// ============================================
+
+/**
+ * A course material citations can resolve to
+ *
+ * text is what quoted excerpts are checked against: the material content,
+ * or the passage a tool returned when the full content isn't at hand.
+ */
+export interface CitationMaterial {
+  id: string;
+  title: string;
+  text: string;
+}
+
+/**
+ * How a cited source was resolved
+ * - resolved: its material ID (or title) names a real course material
+ * - repaired: its material ID or title was wrong; the material was found by title or excerpt
+ * - rejected: no course material matches it
+ */
+export type CitationResolution = 'resolved' | 'repaired' | 'rejected';
+
+/**
+ * Where a quoted excerpt appears in a material
+ */
+export interface ExcerptMatch {
+  startOffset: number; // Character offsets in the material text [start, end)
+  endOffset: number;
+  similarity: number; // Share of the excerpt's words found there (0-1)
+}
+
+export interface ResolvedSource {
+  resolution: CitationResolution;
+  material: CitationMaterial | null;
+  excerptMatch: ExcerptMatch | null;
+  verified: boolean; // Resolved, and the quoted excerpt (if any) appears in the material
+}
+
+/**
+ * Title similarity (Dice coefficient of title words) to match by title
+ */
+const MIN_TITLE_SIMILARITY = 0.6;
+
+/**
+ * Share of the excerpt's words a stretch of the material must contain
+ */
+const MIN_EXCERPT_SIMILARITY = 0.8;
+
+/**
+ * Excerpts shorter than this (in words) aren't checked
+ */
+const MIN_EXCERPT_WORDS = 4;
+
+/**
+ * Resolve a cited source to a real course material
+ *
+ * Tries, in order: the cited material ID (kept if its title or the quoted
+ * excerpt agrees with the citation), the material with the most similar
+ * title, and the material the excerpt was quoted from. The excerpt is then
+ * checked fuzzily (word overlap, any order) against the resolved material.
+ *
+ * @param citation - Cited title, with the material ID and excerpt if known
+ * @param materials - Course materials the citation may refer to
+ * @returns Resolution, resolved material and excerpt match
+ *
+ * @example
+ * ```ts
+ * const source = resolveSource({ title: "Lecture 3: Binary Search", excerpt }, materials);
+ * if (source.verified) link(source.material.id);
+ * ```
+ */
+export function resolveSource(
+  citation: { title: string; materialId?: string; excerpt?: string },
+  materials: CitationMaterial[]
+): ResolvedSource {
+  const { title, materialId } = citation;
+  const excerpt =
+    citation.excerpt && toWords(citation.excerpt).length >= MIN_EXCERPT_WORDS ? citation.excerpt : undefined;
+
+  const resolved = (resolution: CitationResolution, material: CitationMaterial): ResolvedSource => {
+    const excerptMatch = excerpt ? findExcerpt(excerpt, material.text) : null;
+    return { resolution, material, excerptMatch, verified: !excerpt || excerptMatch !== null };
+  };
+
+  // 1. The cited ID, if the material agrees with the citation
+  const cited = materialId ? materials.find(m => m.id === materialId) : undefined;
+  if (cited) {
+    const agrees =
+      titleSimilarity(title, cited.title) >= MIN_TITLE_SIMILARITY ||
+      (excerpt !== undefined && findExcerpt(excerpt, cited.text) !== null);
+    if (agrees) return resolved('resolved', cited);
+  }
+
+  // 2. The material with the most similar title
+  let byTitle: CitationMaterial | undefined;
+  let bestSimilarity = 0;
+  for (const material of materials) {
+    const similarity = titleSimilarity(title, material.title);
+    if (similarity > bestSimilarity) {
+      bestSimilarity = similarity;
+      byTitle = material;
+    }
+  }
+  if (byTitle && bestSimilarity >= MIN_TITLE_SIMILARITY) {
+    return resolved(materialId ? 'repaired' : 'resolved', byTitle);
+  }
+
+  // 3. The material the excerpt was quoted from
+  if (excerpt) {
+    let byExcerpt: CitationMaterial | undefined;
+    let bestMatch: ExcerptMatch | null = null;
+    for (const material of materials) {
+      const match = findExcerpt(excerpt, material.text);
+      if (match && (!bestMatch || match.similarity > bestMatch.similarity)) {
+        bestMatch = match;
+        byExcerpt = material;
+      }
+    }
+    if (byExcerpt) {
+      return { resolution: 'repaired', material: byExcerpt, excerptMatch: bestMatch, verified: true };
+    }
+  }
+
+  return { resolution: 'rejected', material: null, excerptMatch: null, verified: false };
+}
+
+/**
+ * Resolve parsed citations against course materials
+ *
+ * Citations are pointed at the material they resolve to and get a URL only
+ * once verified. Rejected citations are dropped, along with their inline
+ * markers.
+ *
+ * @param parsed - Parsed citations
+ * @param materials - Course materials the citations may refer to
+ * @returns Parsed citations with resolved sources, plus the rejected citation IDs
+ */
+export function resolveCitations(
+  parsed: ParsedCitations,
+  materials: CitationMaterial[]
+): ParsedCitations & { rejected: number[] } {
+  const rejected: number[] = [];
+
+  const citations = parsed.citations.flatMap((citation): Citation[] => {
+    const source = resolveSource(citation, materials);
+    if (!source.material) {
+      rejected.push(citation.id);
+      return [];
+    }
+
+    return [{
+      ...citation,
+      materialId: source.material.id,
+      url: source.verified ? getMaterialUrl(source.material.id) : undefined,
+      verified: source.verified,
+    }];
+  });
+
+  return {
+    ...parsed,
+    citations,
+    contentWithoutSources: removeCitationMarkers(parsed.contentWithoutSources, rejected),
+    rejected,
   };
 }
+
+/**
+ * Find a quoted excerpt in a material (fuzzy)
+ *
+ * Slides a window the length of the excerpt over the material's words and
+ * keeps the window containing most of the excerpt's words, so reworded
+ * punctuation, casing and small edits still match.
+ *
+ * @param excerpt - Quoted excerpt ("..." ellipses are ignored)
+ * @param text - Material text
+ * @returns Match with offsets, or null if the excerpt doesn't appear
+ */
+export function findExcerpt(excerpt: string, text: string): ExcerptMatch | null {
+  const quoted = toWords(excerpt.replace(/\.{3}|\u2026/g, ' '));
+  const words = toWords(text);
+  if (quoted.length < MIN_EXCERPT_WORDS || words.length === 0) {
+    return null;
+  }
+
+  const needed = new Map<string, number>();
+  for (const { word } of quoted) {
+    needed.set(word, (needed.get(word) ?? 0) + 1);
+  }
+
+  // found = excerpt words in the window (each counted at most as often as it is quoted)
+  const size = Math.min(quoted.length, words.length);
+  const window = new Map<string, number>();
+  let found = 0;
+  let bestFound = 0;
+  let bestStart = 0;
+
+  for (let i = 0; i < words.length; i++) {
+    const added = words[i].word;
+    const addedCount = window.get(added) ?? 0;
+    window.set(added, addedCount + 1);
+    if (addedCount < (needed.get(added) ?? 0)) found++;
+
+    if (i >= size) {
+      const removed = words[i - size].word;
+      const removedCount = window.get(removed)!;
+      window.set(removed, removedCount - 1);
+      if (removedCount <= (needed.get(removed) ?? 0)) found--;
+    }
+
+    if (i >= size - 1 && found > bestFound) {
+      bestFound = found;
+      bestStart = i - size + 1;
+    }
+  }
+
+  const similarity = bestFound / quoted.length;
+  if (similarity < MIN_EXCERPT_SIMILARITY) {
+    return null;
+  }
+
+  return {
+    startOffset: words[bestStart].start,
+    endOffset: words[bestStart + size - 1].end,
+    similarity: Math.round(similarity * 100) / 100,
+  };
+}
+
+/**
+ * Remove inline citation markers (e.g., rejected citations) from text
+ *
+ * @param text - Text containing inline citations
+ * @param ids - Citation IDs to remove
+ * @returns Text without those markers
+ */
+export function removeCitationMarkers(text: string, ids: number[]): string {
+  if (ids.length === 0) return text;
+
+  return text.replace(/ ?\[(\d+)\]/g, (match, idStr) =>
+    ids.includes(parseInt(idStr, 10)) ? '' : match
+  );
+}
+
+/**
+ * Link to view a course material
+ *
+ * @param materialId - Resolved material ID
+ * @returns Material URL (placeholder route for the frontend-only demo)
+ */
+export function getMaterialUrl(materialId: string): string {
+  return `/materials/${materialId}`;
+}
+
+/**
+ * Lowercased words of a text with their character offsets
+ */
+function toWords(text: string): Array<{ word: string; start: number; end: number }> {
+  return Array.from(text.toLowerCase().matchAll(/[a-z0-9]+/g), (m) => ({
+    word: m[0],
+    start: m.index!,
+    end: m.index! + m[0].length,
+  }));
+}
+
+/**
+ * Dice coefficient of two titles' words (course code prefixes ignored)
+ */
+function titleSimilarity(a: string, b: string): number {
+  const words = (title: string) =>
+    new Set(toWords(title.replace(/^\s*\[[^\]]*\]/, '')).map(w => w.word));
+  const wordsA = words(a);
+  const wordsB = words(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  const shared = Array.from(wordsA).filter(w => wordsB.has(w)).length;
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
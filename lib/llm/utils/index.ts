@@ -10,10 +10,28 @@ export {
   formatCitations,
   highlightCitations,
   validateCitations,
+  resolveSource,
+  resolveCitations,
+  findExcerpt,
+  removeCitationMarkers,
+  getMaterialUrl,
   type Citation,
   type ParsedCitations,
+  type CitationMaterial,
+  type CitationResolution,
+  type ExcerptMatch,
+  type ResolvedSource,
 } from './citations';
 
+// Re-export chat message conversion
+export {
+  getMessageText,
+  extractToolCalls,
+  deriveMaterialReferences,
+  toMessageUsage,
+  uiMessageToAIMessage,
+} from './messages';
+
 // Re-export core utilities from parent
 // Note: extractKeywords, calculateRelevanceScore, rankMaterials removed
 // These were superseded by hybrid retrieval system
@@ -0,0 +1,159 @@
+// ============================================
+// Chat Message Conversion
+// ============================================
+//
+// Converts AI SDK UI messages into stored AIMessages, including tool calls
+// and the material references derived from kb_search / kb_fetch outputs.
+// Shared by /api/chat (server-side persistence) and usePersistedChat.
+
+import {
+  isToolOrDynamicToolUIPart,
+  getToolOrDynamicToolName,
+  type LanguageModelUsage,
+  type UIMessage,
+} from "ai";
+import type {
+  AIMessage,
+  AIMessageUsage,
+  AIToolCall,
+  CourseMaterialType,
+  MaterialReference,
+} from "@/lib/models/types";
+import type { KBSearchMaterial } from "@/lib/llm/tools/handlers";
+
+/**
+ * Length of excerpts taken from kb_fetch outputs
+ */
+const FETCH_EXCERPT_LENGTH = 200;
+
+/**
+ * Text content of a UI message (text parts joined)
+ */
+export function getMessageText(message: UIMessage): string {
+  return message.parts
+    .filter((part) => part.type === "text")
+    .map((part) => ("text" in part ? part.text : ""))
+    .join("\n");
+}
+
+/**
+ * Finished tool calls of a UI message (calls still streaming are skipped)
+ */
+export function extractToolCalls(message: UIMessage): AIToolCall[] {
+  return message.parts.filter(isToolOrDynamicToolUIPart).flatMap((part): AIToolCall[] => {
+    const call = {
+      toolCallId: part.toolCallId,
+      toolName: getToolOrDynamicToolName(part),
+      input: part.input,
+    };
+
+    if (part.state === "output-available") return [{ ...call, output: part.output }];
+    if (part.state === "output-error") return [{ ...call, errorText: part.errorText }];
+    return [];
+  });
+}
+
+/**
+ * Materials the tool calls returned, best relevance per material
+ *
+ * kb_search passages carry their excerpt and relevance; a kb_fetch of a
+ * material the search didn't return counts as fully relevant.
+ */
+export function deriveMaterialReferences(toolCalls: AIToolCall[]): MaterialReference[] {
+  const references = new Map<string, MaterialReference>();
+
+  const add = (reference: MaterialReference) => {
+    const existing = references.get(reference.materialId);
+    if (!existing || reference.relevanceScore > existing.relevanceScore) {
+      references.set(reference.materialId, reference);
+    }
+  };
+
+  for (const call of toolCalls) {
+    if (call.output === undefined) continue;
+
+    if (call.toolName === "kb_search") {
+      const { materials = [] } = call.output as { materials?: KBSearchMaterial[] };
+      for (const material of materials) {
+        add({
+          materialId: material.id,
+          type: material.type as CourseMaterialType,
+          title: material.title,
+          excerpt: material.excerpt,
+          relevanceScore: material.relevanceScore,
+        });
+      }
+    }
+
+    if (call.toolName === "kb_fetch") {
+      const { material, passage } = call.output as {
+        material: { id: string; title: string; type: string; content: string };
+        passage: { text: string } | null;
+      };
+      if (references.has(material.id)) continue;
+
+      const text = passage?.text ?? material.content;
+      add({
+        materialId: material.id,
+        type: material.type as CourseMaterialType,
+        title: material.title,
+        excerpt: text.substring(0, FETCH_EXCERPT_LENGTH) + (text.length > FETCH_EXCERPT_LENGTH ? "..." : ""),
+        relevanceScore: 100,
+      });
+    }
+  }
+
+  return Array.from(references.values()).sort((a, b) => b.relevanceScore - a.relevanceScore);
+}
+
+/**
+ * Token usage in stored form (missing counts as 0)
+ */
+export function toMessageUsage(usage: LanguageModelUsage): AIMessageUsage {
+  const inputTokens = usage.inputTokens ?? 0;
+  const outputTokens = usage.outputTokens ?? 0;
+
+  return {
+    inputTokens,
+    outputTokens,
+    totalTokens: usage.totalTokens ?? inputTokens + outputTokens,
+  };
+}
+
+/**
+ * Convert a UI message (AI SDK format) to an AIMessage
+ *
+ * Assistant messages keep their tool calls and the material references
+ * derived from them.
+ */
+export function uiMessageToAIMessage(
+  message: UIMessage,
+  conversationId: string,
+  usage?: AIMessageUsage
+): AIMessage {
+  // Only handle user and assistant roles for now
+  if (message.role !== "user" && message.role !== "assistant") {
+    throw new Error(`Unexpected message role: ${message.role}`);
+  }
+
+  const aiMessage: AIMessage = {
+    id: message.id,
+    conversationId,
+    role: message.role,
+    content: getMessageText(message),
+    timestamp: new Date().toISOString(),
+  };
+
+  if (message.role === "assistant") {
+    const toolCalls = extractToolCalls(message);
+    if (toolCalls.length > 0) {
+      aiMessage.toolCalls = toolCalls;
+      aiMessage.materialReferences = deriveMaterialReferences(toolCalls);
+    }
+    if (usage) {
+      aiMessage.usage = usage;
+    }
+  }
+
+  return aiMessage;
+}
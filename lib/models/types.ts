@@ -139,7 +139,9 @@ export type NotificationType =
   | 'resolved'
   | 'flagged'
   | 'ai_answer_ready'
-  | 'ai_answer_endorsed';
+  | 'ai_answer_endorsed'
+  | 'report_resolved'    // Staff acted on the user's report
+  | 'report_dismissed';  // Staff reviewed the user's report and left the content up
 
 /**
  * Represents an activity notification for a user
@@ -372,6 +374,33 @@ export interface EnhancedAIResponse {
 
 export type ThreadStatus = 'open' | 'answered' | 'resolved';
 
+/**
+ * Kind of answer accepted on a resolved thread
+ */
+export type AcceptedAnswerType = 'post' | 'ai_answer';
+
+/**
+ * Endorsement accepting a post added to it, taken back when another answer
+ * is accepted ("instructor" also set the post's instructorEndorsed)
+ */
+export type AcceptedEndorsement = 'peer' | 'instructor';
+
+/**
+ * Why a moderator removed a thread or post
+ */
+export type ContentRemovalReason =
+  | 'off-topic'
+  | 'duplicate'
+  | 'spam'
+  | 'inappropriate'
+  | 'academic-integrity'
+  | 'other';
+
+/**
+ * Recorded reason for a deleted thread or post ('retracted' = deleted by its author)
+ */
+export type ContentDeletionReason = 'retracted' | ContentRemovalReason;
+
 // Phase 3: Thread quality status for endorsement system
 export type ThreadQualityStatus = 'proposed' | 'endorsed' | 'revised';
 
@@ -410,27 +439,166 @@ export interface Thread {
 
   // Phase 3: Duplicate tracking
   duplicatesOf?: string; // Thread ID if merged
+  mergedInto?: string | null; // Thread this one was merged into (backend)
   mergedFrom?: string[]; // Array of merged thread IDs
 
   // AI-generated summary of key takeaways
   aiSummary?: AISummary;
+
+  // Editing (previous versions are kept as ContentRevisions)
+  editedAt?: string | null;   // Last edit of title/content (unset = never edited)
+  editedBy?: string | null;
+
+  // Soft deletion (served as a tombstone: title/content blank)
+  deletedAt?: string | null;
+  deletedBy?: string | null;
+  deletionReason?: ContentDeletionReason | null;
+  restoreExpiresAt?: string | null; // Staff can restore until then
+
+  // Accepted answer (pinned; set when the thread is resolved)
+  acceptedAnswerType?: AcceptedAnswerType | null;
+  acceptedAnswerId?: string | null;
+  acceptedBy?: string | null;   // Question author or course staff
+  acceptedAt?: string | null;
+  acceptedEndorsement?: AcceptedEndorsement | null; // What accepting the post added to it (localStorage only)
 }
 
 export interface Post {
   id: string;
   threadId: string;
+  parentPostId?: string | null; // Post this replies to (unset = top level)
+  aiAnswerId?: string | null;   // Set on comments on the AI answer and replies to them
+  depth?: number;               // Nesting level (0 = top level, max MAX_REPLY_DEPTH)
+  replyCount?: number;          // Direct replies (backend only)
   authorId: string;
   content: string;
   endorsed: boolean;
   flagged: boolean;
   createdAt: string;
   updatedAt: string;
+  editedAt?: string | null;   // Last edit of content (unset = never edited)
+  editedBy?: string | null;
+  deletedAt?: string | null;  // Soft deletion (served as a tombstone: content blank)
+  deletedBy?: string | null;
+  deletionReason?: ContentDeletionReason | null;
+  restoreExpiresAt?: string | null; // Staff can restore until then
 
   // Enhanced endorsement tracking (for Quokka Points system)
   endorsedBy?: string[];          // Array of user IDs who endorsed
   instructorEndorsed?: boolean;   // Flag if any instructor endorsed
 }
 
+export type RevisionTargetType = 'thread' | 'post';
+
+/**
+ * A prior version of an edited thread or post
+ */
+export interface ContentRevision {
+  id: string;
+  targetType: RevisionTargetType;
+  targetId: string;
+  version: number;            // 1 = original
+  title: string | null;       // Threads only
+  content: string;
+  editedBy: string | null;    // Who wrote this version (the author for version 1)
+  editedAt: string;           // When this version was written
+  replacedBy: string;         // Whose edit replaced it
+  createdAt: string;          // When it was replaced
+  editor?: {
+    id: string;
+    name: string;
+    role: string;
+  } | null;
+}
+
+// ============================================
+// Moderation Types
+// ============================================
+
+/**
+ * Why a student reported a thread or post
+ */
+export type FlagReason =
+  | 'harassment'
+  | 'inappropriate'
+  | 'academic-integrity'
+  | 'incorrect'
+  | 'spam'
+  | 'off-topic'
+  | 'other';
+
+export type FlagTargetType = 'thread' | 'post';
+
+export type FlagStatus = 'open' | 'resolved' | 'dismissed';
+
+/**
+ * A student's report of a thread or post (one per reporter per item)
+ */
+export interface ContentFlag {
+  id: string;
+  courseId: string;
+  threadId: string;           // Reported thread, or the thread of a reported post
+  targetType: FlagTargetType;
+  targetId: string;
+  reporterId: string;
+  reason: FlagReason;
+  details: string | null;
+  status: FlagStatus;
+  resolvedBy: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Input for reporting a thread or post
+ */
+export interface FlagContentInput {
+  reason: FlagReason;
+  details?: string;
+}
+
+/**
+ * Result of reporting (duplicate = the user already had an open report on the item)
+ */
+export interface FlagContentResult {
+  flag: ContentFlag;
+  reportCount: number;        // Open reports on the item
+  duplicate: boolean;
+}
+
+/**
+ * Reported thread or post with its open reports aggregated
+ */
+export interface ModerationQueueItem {
+  targetType: FlagTargetType;
+  targetId: string;
+  courseId: string;
+  threadId: string;
+  threadTitle: string;
+  content: string;            // Blank when the content has been deleted
+  authorId: string | null;
+  deletedAt: string | null;
+  reportCount: number;
+  severity: number;           // Highest severity among the open reports' reasons
+  reasons: Partial<Record<FlagReason, number>>;
+  firstReportedAt: string;
+  lastReportedAt: string;
+}
+
+/**
+ * Staff decision on reported content
+ * - resolve: acted upon (reports closed as resolved)
+ * - dismiss: content stays up (reports closed as dismissed)
+ */
+export type ModerationAction = 'resolve' | 'dismiss';
+
+export interface ModerationActionResult {
+  targetType: FlagTargetType;
+  targetId: string;
+  status: Exclude<FlagStatus, 'open'>;
+  closedCount: number;        // Reports closed (one notification per reporter)
+}
+
 // ============================================
 // AI Answer Types
 // ============================================
@@ -500,8 +668,24 @@ export interface Citation {
   /** Relevance score 0-100 (how well it supports the answer) */
   relevance: number;
 
-  /** Optional link to course material (mock for demo) */
+  /** Optional link to course material (mock for demo; only set for verified citations) */
   link?: string;
+
+  /** Source resolved to a real course material and its excerpt was found there */
+  verified?: boolean;
+
+  /** Cited material ID (when the source resolved to a course material) */
+  materialId?: string;
+
+  /** Cited passage ID ("<materialId>#<index>") for section-level citations */
+  passageId?: string;
+
+  /** Section of the material the passage is from (e.g., "Key topics covered") */
+  section?: string;
+
+  /** Character offsets of the passage in the material content */
+  startOffset?: number;
+  endOffset?: number;
 }
 
 /**
@@ -562,24 +746,110 @@ export interface AIAnswer {
    * Adaptive routing decision (if Self-RAG enabled)
    * Contains confidence scoring and routing strategy metadata
    */
-  routing?: {
-    /** Routing action taken */
-    action: "use-cache" | "retrieve-standard" | "retrieve-expanded" | "retrieve-aggressive";
+  routing?: AIAnswerRouting;
+
+  /**
+   * Claim-level check of the answer against its cited materials
+   * (generated answers only; confidenceScore is derived from it)
+   */
+  verification?: AIAnswerVerification;
 
-    /** Query confidence score (0-100) */
-    queryConfidence: number;
+  /**
+   * Prompt that produced the answer (e.g., "tutor.system@1+course@2")
+   */
+  promptVersion?: string;
+}
+
+/**
+ * Endorsed AI answer with the thread whose question it answers
+ */
+export interface EndorsedAIAnswer {
+  thread: Pick<Thread, "id" | "title" | "content">;
+  aiAnswer: AIAnswer;
+}
+
+/**
+ * Verdict on one claim of an AI answer
+ */
+export type ClaimVerdict = "grounded" | "ungrounded";
+
+/**
+ * One claim (sentence) of an AI answer, checked against its sources
+ */
+export interface AIAnswerClaim {
+  /** Claim text as it appears in the answer */
+  text: string;
+
+  /** Character offsets of the claim in the answer content [start, end) */
+  start: number;
+  end: number;
+
+  /** Citations the claim was checked against (IDs from the answer's citations) */
+  citationIds: string[];
+
+  /** Whether the cited materials support the claim */
+  verdict: ClaimVerdict;
+
+  /** Source text that supports the claim (grounded claims) */
+  evidence?: string;
+}
+
+/**
+ * Verification pass over an AI answer
+ */
+export interface AIAnswerVerification {
+  /** How the claims were checked (LLM judge, or term overlap fallback) */
+  method: "llm" | "lexical";
 
-    /** Confidence level classification */
-    confidenceLevel: "high" | "medium" | "low";
+  /** Claims in order of appearance */
+  claims: AIAnswerClaim[];
 
-    /** Whether result was from cache */
-    fromCache: boolean;
+  /** Number of grounded claims */
+  groundedCount: number;
 
-    /** Human-readable retrieval strategy */
-    strategy: string;
+  /** Confidence score the model reported before verification (0-100) */
+  reportedConfidenceScore: number;
 
-    /** Reasoning for routing decision */
-    reasoning?: string;
+  /** ISO 8601 timestamp of the verification */
+  verifiedAt: string;
+}
+
+/**
+ * Routing action taken by the Self-RAG query router
+ */
+export type RoutingAction = "use-cache" | "retrieve-standard" | "retrieve-expanded" | "retrieve-aggressive";
+
+/**
+ * Self-RAG routing decision recorded on an AI answer (audit trail)
+ */
+export interface AIAnswerRouting {
+  /** Routing action taken */
+  action: RoutingAction;
+
+  /** Query confidence score (0-100) */
+  queryConfidence: number;
+
+  /** Confidence level classification */
+  confidenceLevel: "high" | "medium" | "low";
+
+  /** Whether result was from cache */
+  fromCache: boolean;
+
+  /** Human-readable retrieval strategy */
+  strategy: string;
+
+  /** Reasoning for routing decision */
+  reasoning?: string;
+
+  /** Answer that was reused (use-cache only) */
+  cacheHit?: {
+    aiAnswerId: string;
+    /** Thread of the reused answer (empty for answer-cache hits, cached before their thread existed) */
+    threadId: string;
+    /** Question similarity (0-1) */
+    similarity: number;
+    /** Endorsed thread answer, or an answer generated for an earlier question (default: endorsed) */
+    source?: "endorsed" | "answer-cache";
   };
 }
 
@@ -606,6 +876,61 @@ export interface GenerateAIAnswerInput {
   tags?: string[];
 }
 
+/**
+ * AI answer as it streams from /api/answer
+ *
+ * Citations are as the model wrote them (not yet resolved to materials or
+ * verified); confidence is the model's own until the answer is verified.
+ */
+export interface AIAnswerDraft {
+  content: string;
+  citations: Citation[];
+
+  /** Unset until the model has written them */
+  confidenceLevel?: ConfidenceLevel;
+  confidenceScore?: number;
+}
+
+/**
+ * Metadata of a generated answer (from /api/answer)
+ */
+export interface AIAnswerResponseMetadata {
+  materialsUsed: number;
+  courseId: string;
+  courseCode: string;
+  routing: AIAnswerRouting;
+  integrity: {
+    mode: AssignmentIntegrityMode;
+    assignmentId: string | null;
+  };
+
+  /** Template answer: the course has used its monthly LLM budget */
+  budgetExhausted?: boolean;
+}
+
+/**
+ * Event of a streamed /api/answer response (one JSON object per line)
+ *
+ * - partial: the answer so far
+ * - final: the finished answer (citations resolved, claims verified)
+ * - error: generation failed after the stream started
+ */
+export type AIAnswerStreamEvent =
+  | { type: "partial"; answer: AIAnswerDraft }
+  | { type: "final"; answer: AIAnswer; metadata: AIAnswerResponseMetadata }
+  | { type: "error"; error: { code: string; message: string } };
+
+/**
+ * Options for streaming an AI answer
+ */
+export interface GenerateAIAnswerOptions {
+  /** Called with the answer so far while it streams */
+  onPartial?: (draft: AIAnswerDraft) => void;
+
+  /** Cancels generation (e.g. when the question is edited) */
+  signal?: AbortSignal;
+}
+
 /**
  * Input for endorsing an AI answer
  */
@@ -652,6 +977,12 @@ export interface GenerateSummaryInput {
 
   /** Optional conversation messages (for conversation-to-thread conversions) */
   conversationMessages?: AIMessage[];
+
+  /** Optional course of the thread (usage is billed to it, and its LLM budget applies) */
+  courseId?: string;
+
+  /** Optional user the summary is generated for (usage accounting) */
+  userId?: string;
 }
 
 /**
@@ -740,6 +1071,53 @@ export interface SimilarThread {
   similarity: number;
   /** Similarity percentage for display (0-100) */
   similarityPercent: number;
+  /** Shared terms that drove the match (backend index only) */
+  matchedTerms?: string[];
+}
+
+/**
+ * Phase 3.2: Record of a duplicate-thread merge
+ *
+ * Merges can be undone until `undoExpiresAt`.
+ */
+export interface ThreadMerge {
+  /** Merge record ID (used to undo) */
+  id: string;
+  /** Thread that was merged away (now redirects) */
+  sourceThreadId: string;
+  /** Thread that received the posts and upvotes */
+  targetThreadId: string;
+  /** Instructor/TA who performed the merge */
+  mergedBy: string;
+  /** Number of posts moved to the target */
+  movedPostCount: number;
+  /** Number of upvotes moved to the target */
+  movedUpvoteCount: number;
+  /** ISO 8601 timestamp after which the merge can no longer be undone */
+  undoExpiresAt: string;
+  /** ISO 8601 timestamp when the merge was undone (null if still active) */
+  undoneAt: string | null;
+  /** ISO 8601 timestamp when the merge happened */
+  createdAt: string;
+}
+
+/**
+ * Phase 3.2: Target thread returned from a merge, with its merge record
+ */
+export interface MergedThread extends Thread {
+  merge: ThreadMerge;
+}
+
+/**
+ * Phase 3.2: Payload returned when fetching a thread that was merged away
+ */
+export interface ThreadRedirect {
+  redirect: true;
+  /** Requested (merged) thread ID */
+  id: string;
+  /** Thread ID to show instead */
+  redirectTo: string;
+  reason: 'merged';
 }
 
 /**
@@ -807,6 +1185,31 @@ export interface CreateThreadInput {
 export interface CreatePostInput {
   threadId: string;
   content: string;
+  parentPostId?: string;      // Reply to another post
+  aiAnswerId?: string;        // Comment on the thread's AI answer
+}
+
+/**
+ * Input for accepting an answer (a post in the thread or its AI answer)
+ */
+export interface AcceptAnswerInput {
+  targetType: AcceptedAnswerType;
+  targetId: string;
+}
+
+/**
+ * Input for editing a thread (at least one field)
+ */
+export interface UpdateThreadInput {
+  title?: string;
+  content?: string;
+}
+
+/**
+ * Input for editing a post/reply
+ */
+export interface UpdatePostInput {
+  content: string;
 }
 
 // ============================================
@@ -1195,14 +1598,82 @@ export interface CourseMaterialSearchResult {
   /** The matching material */
   material: CourseMaterial;
 
-  /** Relevance score 0-100 */
+  /** Relevance score 0-100 (BM25F score as a share of the query's maximum) */
   relevanceScore: number;
 
   /** Keywords that matched the query */
   matchedKeywords: string[];
 
-  /** Snippet preview with highlights */
+  /** Snippet preview (content fragment with the most matched terms) */
   snippet: string;
+
+  /** Highlighted fragments covering every matched term */
+  highlights: SearchHighlight[];
+}
+
+/**
+ * Fragment of a material field with the query matches marked
+ */
+export interface SearchHighlight {
+  /** Field the fragment comes from */
+  field: "title" | "content";
+
+  /** Fragment text ("..." where the field was cut) */
+  text: string;
+
+  /** Matched term offsets within text, as [start, end) pairs */
+  ranges: Array<[number, number]>;
+}
+
+/**
+ * Search alias: alternative spellings or notation for a canonical course term
+ *
+ * A query containing any alias is also searched with the canonical term
+ * (e.g. "lhopital" -> "L'Hôpital's rule").
+ */
+export interface SearchAlias {
+  /** Canonical term, as used in material keywords */
+  term: string;
+
+  /** Alternative forms students use */
+  aliases: string[];
+}
+
+/**
+ * A course's alias table (instructor-editable)
+ */
+export interface CourseSearchAliases {
+  courseId: string;
+  aliases: SearchAlias[];
+  updatedAt: string | null;
+}
+
+/**
+ * Input for replacing a course's alias table
+ */
+export interface UpdateSearchAliasesInput {
+  courseId: string;
+  aliases: SearchAlias[];
+}
+
+/**
+ * How a search query was rewritten before searching
+ */
+export interface QueryRewrite {
+  /** Query as entered */
+  original: string;
+
+  /** Query actually searched */
+  rewritten: string;
+
+  /** Spelling corrections against the course vocabulary */
+  corrections: Array<{ from: string; to: string }>;
+
+  /** Canonical terms added because the query used an alias */
+  aliasExpansions: Array<{ alias: string; term: string }>;
+
+  /** Terms added by pseudo-relevance feedback */
+  feedbackTerms: string[];
 }
 
 // ============================================
@@ -1840,9 +2311,18 @@ export interface Assignment {
   /** Assignment title */
   title: string;
 
+  /** Assignment description (backend only) */
+  description?: string;
+
   /** Due date (ISO 8601) */
   dueDate: string;
 
+  /** Lifecycle status (backend only) */
+  status?: "upcoming" | "active" | "past";
+
+  /** How much help the AI assistant gives on this assignment (default: "unrestricted") */
+  integrityMode?: AssignmentIntegrityMode;
+
   /** Creation date (ISO 8601) */
   createdAt: string;
 }
@@ -1891,6 +2371,76 @@ export interface AssignmentQAMetrics {
   link?: string;
 }
 
+// ============================================
+// Academic Integrity Types
+// ============================================
+
+/**
+ * How much help the AI assistant gives on a graded assignment
+ *
+ * - hint-only: hints, guiding questions and feedback on the student's own
+ *   work; no solutions or complete code
+ * - conceptual-only: explains the underlying concepts with different
+ *   examples; nothing about the assignment's problems
+ * - unrestricted: answers normally
+ */
+export type AssignmentIntegrityMode = "hint-only" | "conceptual-only" | "unrestricted";
+
+/**
+ * Input for changing an assignment's integrity mode
+ */
+export interface UpdateAssignmentIntegrityModeInput {
+  assignmentId: string;
+  courseId: string;
+  integrityMode: AssignmentIntegrityMode;
+}
+
+/**
+ * An attempt to get a full solution to a guarded assignment
+ *
+ * Logged by /api/chat and /api/answer for instructor review.
+ */
+export interface IntegrityEvent {
+  id: string;
+  courseId: string;
+  assignmentId: string;
+
+  /** Student who asked (null when unknown) */
+  userId: string | null;
+
+  /** Feature the question was asked in */
+  feature: "chat" | "answer";
+
+  /** Assignment mode when asked */
+  mode: AssignmentIntegrityMode;
+
+  /** The question as asked */
+  question: string;
+
+  /** Phrases that asked for a solution (e.g., "write the code") */
+  signals: string[];
+
+  reviewedBy: string | null;
+  reviewedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Input for logging an integrity event
+ */
+export type RecordIntegrityEventInput = Omit<IntegrityEvent, "id" | "reviewedBy" | "reviewedAt" | "createdAt">;
+
+/**
+ * Filters for the integrity event log
+ */
+export interface IntegrityEventsQuery {
+  /** Course to list (default: every course the instructor teaches) */
+  courseId?: string;
+
+  /** Only unreviewed events (default), or all */
+  status?: "unreviewed" | "all";
+}
+
 // ============================================
 // Student Dashboard Widget Types
 // ============================================
@@ -2042,6 +2592,58 @@ export interface AIMessage {
 
   /** Optional confidence score (for assistant messages) */
   confidenceScore?: number;
+
+  /** Tool calls made while generating the message (assistant messages) */
+  toolCalls?: AIToolCall[];
+
+  /** Token usage of the turn, all steps (assistant messages) */
+  usage?: AIMessageUsage;
+
+  /** Prompt that produced the message (assistant messages, e.g. "tutor.system@1") */
+  promptVersion?: string;
+}
+
+/**
+ * Tool call made while generating an assistant message
+ */
+export interface AIToolCall {
+  /** Tool call ID (from the model) */
+  toolCallId: string;
+
+  /** Tool name (e.g., "kb_search") */
+  toolName: string;
+
+  /** Tool input as sent by the model */
+  input: unknown;
+
+  /** Tool output (absent if the tool failed) */
+  output?: unknown;
+
+  /** Error message if the tool failed */
+  errorText?: string;
+}
+
+/**
+ * Token usage of an assistant message
+ */
+export interface AIMessageUsage {
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+}
+
+/**
+ * Input for saving a finished chat turn
+ */
+export interface SaveChatTurnInput {
+  conversationId: string;
+  userId: string;
+
+  /** The user message the turn answers */
+  userMessage: AIMessage;
+
+  /** The assistant reply (omitted if the model produced no text) */
+  assistantMessage?: AIMessage;
 }
 
 /**
@@ -2247,6 +2849,195 @@ export interface TokenUsage {
   cacheReadTokens?: number;
 }
 
+/**
+ * Circuit breaker state of an LLM provider
+ *
+ * - closed: calls go through
+ * - open: the provider failed repeatedly and is skipped until its cooldown ends
+ * - half-open: cooldown over; one trial call decides whether it closes again
+ */
+export type LLMCircuitState = "closed" | "open" | "half-open";
+
+/**
+ * Health of one LLM provider in the model router
+ */
+export interface LLMProviderHealth {
+  /** Provider (e.g. "openai") */
+  provider: LLMProviderType;
+
+  /** Model the provider is configured with */
+  model: string;
+
+  /** Order in the failover chain (0 = primary) */
+  priority: number;
+
+  state: LLMCircuitState;
+
+  /** Failed calls since the last success */
+  consecutiveFailures: number;
+
+  /** Message of the last failure */
+  lastError: string | null;
+
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+
+  /** When an open circuit lets a trial call through */
+  openUntil: string | null;
+}
+
+// ============================================
+// LLM Usage Ledger Types
+// ============================================
+
+/**
+ * Feature an LLM call was made for
+ */
+export type LLMFeature = "chat" | "answer" | "summary" | "restructure" | "rerank";
+
+/**
+ * One LLM call in the usage ledger
+ */
+export interface LLMUsageRecord {
+  id: string;
+
+  /** User the call was made for (null outside a user's request) */
+  userId: string | null;
+
+  /** Course the call was made in (null outside a course) */
+  courseId: string | null;
+
+  feature: LLMFeature;
+
+  /** Provider that served the call (e.g. "openai") */
+  provider: string;
+
+  /** Model that served the call (e.g. "gpt-4o-mini") */
+  model: string;
+
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+
+  /** Estimated cost in USD */
+  estimatedCost: number;
+
+  createdAt: string;
+}
+
+/**
+ * Input for recording an LLM call
+ */
+export type RecordLLMUsageInput = Omit<LLMUsageRecord, "id" | "createdAt">;
+
+/**
+ * Aggregated usage of a group of LLM calls
+ */
+export interface LLMUsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  totalTokens: number;
+
+  /** Estimated cost in USD */
+  estimatedCost: number;
+}
+
+/**
+ * A course's LLM budget for the current calendar month (UTC)
+ */
+export interface CourseLLMBudget {
+  courseId: string;
+
+  /** Monthly budget in USD (null when the course has no budget) */
+  monthlyBudget: number | null;
+
+  /** Estimated cost since periodStart */
+  spent: number;
+
+  /** Budget left this month (null when the course has no budget) */
+  remaining: number | null;
+
+  /** Budget used up: LLM features answer from templates until next month */
+  exhausted: boolean;
+
+  /** Start of the current month */
+  periodStart: string;
+
+  updatedAt: string | null;
+}
+
+/**
+ * Input for setting (or removing, with null) a course's monthly budget
+ */
+export interface UpdateCourseLLMBudgetInput {
+  courseId: string;
+  monthlyBudget: number | null;
+}
+
+/**
+ * Input for an LLM usage summary
+ */
+export interface LLMUsageSummaryInput {
+  /** Limit to one course (default: every course the user teaches) */
+  courseId?: string;
+
+  /** ISO timestamp, inclusive (default: 30 days before to) */
+  from?: string;
+
+  /** ISO timestamp, exclusive (default: now) */
+  to?: string;
+}
+
+/**
+ * LLM spend by day, course and feature
+ */
+export interface LLMUsageSummary {
+  from: string;
+  to: string;
+  totals: LLMUsageTotals;
+
+  /** Per day (date: YYYY-MM-DD, UTC), oldest first */
+  byDay: Array<LLMUsageTotals & { date: string }>;
+
+  /** Per course, highest cost first */
+  byCourse: Array<LLMUsageTotals & { courseId: string | null }>;
+
+  /** Per feature, highest cost first */
+  byFeature: Array<LLMUsageTotals & { feature: LLMFeature }>;
+
+  /** Budget status of the courses covered that have a budget */
+  budgets: CourseLLMBudget[];
+}
+
+/**
+ * Instructor overrides of the AI assistant's prompt for a course
+ */
+export interface CoursePromptSettings {
+  courseId: string;
+
+  /** Replaces the default persona (who the assistant is, how it talks); null for the default */
+  persona: string | null;
+
+  /** Course policy the assistant must follow (e.g., "Don't give full solutions for assignment questions") */
+  policy: string | null;
+
+  /** Incremented on every change (0 when never set); recorded in promptVersion */
+  version: number;
+
+  updatedBy: string | null;
+  updatedAt: string | null;
+}
+
+/**
+ * Input for updating a course's prompt overrides (null restores the default)
+ */
+export interface UpdateCoursePromptSettingsInput {
+  courseId: string;
+  persona: string | null;
+  policy: string | null;
+}
+
 /**
  * Successful LLM response
  */
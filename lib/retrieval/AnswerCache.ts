@@ -0,0 +1,269 @@
+// ============================================
+// Semantic Answer Cache
+// ============================================
+
+import type { AIAnswer, CourseMaterial } from "@/lib/models/types";
+import { getEmbeddingProvider, type EmbeddingProvider } from "./EmbeddingProviders";
+import type { Embedding } from "./types";
+
+export interface AnswerCacheOptions {
+  similarityThreshold?: number;  // Question similarity needed to reuse an answer (default: 0.95)
+  maxEntriesPerCourse?: number;  // Oldest entries are dropped beyond this (default: 200)
+  ttlMs?: number;                // How long an answer may be reused (default: 7 days)
+  embeddingProvider?: Promise<EmbeddingProvider>; // Question embeddings (default: configured provider)
+}
+
+/**
+ * A cached answer and the state it was generated from
+ */
+interface AnswerCacheEntry {
+  question: string;          // Normalized question
+  embedding: Embedding;
+  embeddingModel: string;    // Provider ID (vectors of different models aren't comparable)
+  materialIds: string[];     // Materials retrieved for the answer
+  materialsHash: string;     // Versions of those materials when the answer was generated
+  promptVersion?: string;
+  answer: AIAnswer;
+  cachedAt: number;
+}
+
+/**
+ * A reusable cached answer
+ */
+export interface AnswerCacheHit {
+  answer: AIAnswer;
+  similarity: number;        // Question similarity (0-1)
+  materialIds: string[];     // Materials the answer was generated from
+  cachedAt: string;
+}
+
+/**
+ * Semantic Answer Cache
+ *
+ * Reuses generated answers for questions that were already asked, so
+ * repeated questions skip retrieval and the LLM. Entries are keyed by the
+ * normalized question's embedding plus a hash of the versions of the
+ * materials retrieved for the answer:
+ *
+ * - A question matches when its embedding is at least similarityThreshold
+ *   similar to a cached one (same course, same embedding model)
+ * - An entry is only served while its materials are unchanged; entries
+ *   whose materials were updated or deleted are evicted on lookup
+ * - An entry generated with a different prompt version is not served
+ *
+ * Entries live in the server process (lost on restart), per course.
+ */
+export class AnswerCache {
+  private entries = new Map<string, AnswerCacheEntry[]>();
+  private options: Required<Omit<AnswerCacheOptions, "embeddingProvider">>;
+  private embeddingProvider?: Promise<EmbeddingProvider>;
+
+  constructor(options: AnswerCacheOptions = {}) {
+    this.options = {
+      similarityThreshold: options.similarityThreshold ?? 0.95,
+      maxEntriesPerCourse: options.maxEntriesPerCourse ?? 200,
+      ttlMs: options.ttlMs ?? 7 * 24 * 60 * 60 * 1000,
+    };
+    this.embeddingProvider = options.embeddingProvider;
+  }
+
+  /**
+   * Find a cached answer to a question
+   *
+   * @param input.courseId - Course the question was asked in
+   * @param input.question - Student question
+   * @param input.materials - The course's current materials (stale entries are evicted)
+   * @param input.promptVersion - Prompt the answer would be generated with
+   */
+  async lookup(input: {
+    courseId: string;
+    question: string;
+    materials: CourseMaterial[];
+    promptVersion?: string;
+  }): Promise<AnswerCacheHit | null> {
+    this.prune(input.courseId, input.materials);
+
+    const entries = this.entries.get(input.courseId);
+    if (!entries || entries.length === 0) return null;
+
+    const provider = await this.getProvider();
+    const question = normalizeQuestion(input.question);
+    const embedding = await provider.embed(question);
+
+    let best: { entry: AnswerCacheEntry; similarity: number } | null = null;
+    for (const entry of entries) {
+      if (entry.embeddingModel !== provider.id) continue;
+      if (entry.promptVersion !== input.promptVersion) continue;
+
+      const similarity =
+        entry.question === question ? 1 : this.cosineSimilarity(embedding.vector, entry.embedding.vector);
+      if (similarity >= this.options.similarityThreshold && (!best || similarity > best.similarity)) {
+        best = { entry, similarity };
+      }
+    }
+
+    if (!best) return null;
+
+    return {
+      answer: best.entry.answer,
+      similarity: Math.round(best.similarity * 1000) / 1000,
+      materialIds: best.entry.materialIds,
+      cachedAt: new Date(best.entry.cachedAt).toISOString(),
+    };
+  }
+
+  /**
+   * Cache a generated answer
+   *
+   * @param input.courseId - Course the question was asked in
+   * @param input.question - Student question
+   * @param input.materials - Materials retrieved for the answer (their versions key the entry)
+   * @param input.answer - Generated answer
+   */
+  async store(input: {
+    courseId: string;
+    question: string;
+    materials: CourseMaterial[];
+    answer: AIAnswer;
+  }): Promise<void> {
+    const provider = await this.getProvider();
+    const question = normalizeQuestion(input.question);
+    const materials = uniqueMaterials(input.materials);
+
+    const entry: AnswerCacheEntry = {
+      question,
+      embedding: await provider.embed(question),
+      embeddingModel: provider.id,
+      materialIds: materials.map((m) => m.id),
+      materialsHash: hashMaterialVersions(materials),
+      promptVersion: input.answer.promptVersion,
+      answer: input.answer,
+      cachedAt: Date.now(),
+    };
+
+    // Replace an earlier answer to the same question
+    const entries = (this.entries.get(input.courseId) ?? []).filter(
+      (existing) => existing.question !== question || existing.embeddingModel !== provider.id
+    );
+    entries.push(entry);
+    this.entries.set(input.courseId, entries.slice(-this.options.maxEntriesPerCourse));
+  }
+
+  /**
+   * Evict a course's expired entries and entries whose materials changed
+   *
+   * @param courseId - Course to check
+   * @param materials - The course's current materials
+   * @returns Number of entries evicted
+   */
+  prune(courseId: string, materials: CourseMaterial[]): number {
+    const entries = this.entries.get(courseId);
+    if (!entries) return 0;
+
+    const current = new Map(materials.map((m) => [m.id, m]));
+    const expiresBefore = Date.now() - this.options.ttlMs;
+
+    const kept = entries.filter((entry) => {
+      if (entry.cachedAt < expiresBefore) return false;
+
+      const used = entry.materialIds.map((id) => current.get(id));
+      if (used.some((material) => !material)) return false;
+      return hashMaterialVersions(used as CourseMaterial[]) === entry.materialsHash;
+    });
+
+    this.entries.set(courseId, kept);
+
+    const evicted = entries.length - kept.length;
+    if (evicted > 0) {
+      console.log(`[Answer Cache] Evicted ${evicted} stale answer(s) for course ${courseId}`);
+    }
+    return evicted;
+  }
+
+  /**
+   * Drop cached answers (of one course, or all)
+   */
+  clear(courseId?: string): void {
+    if (courseId) {
+      this.entries.delete(courseId);
+    } else {
+      this.entries.clear();
+    }
+  }
+
+  private getProvider(): Promise<EmbeddingProvider> {
+    return this.embeddingProvider ?? getEmbeddingProvider();
+  }
+
+  /**
+   * Calculate cosine similarity between vectors
+   */
+  private cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length !== b.length) return 0;
+
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < a.length; i++) {
+      dotProduct += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+
+    if (normA === 0 || normB === 0) return 0;
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+  }
+}
+
+/**
+ * Normalize a question for caching (case, punctuation and whitespace)
+ */
+export function normalizeQuestion(question: string): string {
+  return question
+    .toLowerCase()
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Hash of the versions of a set of materials (order-independent)
+ *
+ * A material's version is its update time plus a hash of its title and
+ * content, so edits that don't bump updatedAt still count.
+ */
+export function hashMaterialVersions(materials: CourseMaterial[]): string {
+  const versions = uniqueMaterials(materials)
+    .map((m) => `${m.id}@${m.updatedAt}:${fnv1a(`${m.title}\n${m.content}`)}`)
+    .sort();
+  return fnv1a(versions.join("|"));
+}
+
+function uniqueMaterials(materials: CourseMaterial[]): CourseMaterial[] {
+  return Array.from(new Map(materials.map((m) => [m.id, m])).values());
+}
+
+/**
+ * 32-bit FNV-1a hash (hex)
+ */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Answer cache shared by requests in this server process
+ */
+let sharedCache: AnswerCache | undefined;
+
+export function getAnswerCache(): AnswerCache {
+  if (!sharedCache) {
+    sharedCache = new AnswerCache();
+  }
+  return sharedCache;
+}
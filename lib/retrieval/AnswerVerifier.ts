@@ -0,0 +1,340 @@
+// ============================================
+// Answer Verifier (claim-level grounding check)
+// ============================================
+
+import { generateObject, type LanguageModelUsage, type ProviderMetadata } from "ai";
+import { z } from "zod";
+import { getAISDKModel, type AISDKModel } from "@/lib/llm/ai-sdk-providers";
+import type {
+  AIAnswerClaim,
+  AIAnswerVerification,
+  ClaimVerdict,
+  ConfidenceLevel,
+} from "@/lib/models/types";
+
+/**
+ * Structured output: one verdict per claim
+ */
+const VerificationSchema = z.object({
+  verdicts: z.array(
+    z.object({
+      claim: z.number().int().describe("Claim number from the list"),
+      verdict: z.enum(["grounded", "ungrounded"])
+        .describe("grounded if the sources state or directly imply the claim, ungrounded otherwise"),
+      evidence: z.string().optional()
+        .describe("Short verbatim quote from the source that supports the claim (grounded claims only)"),
+    })
+  ),
+});
+
+const VERIFY_SYSTEM_PROMPT = `You check an AI tutor's answer against the course materials it cites.
+For every numbered claim, decide whether its sources support it.
+- grounded: the sources state the claim or directly imply it
+- ungrounded: the sources don't mention it, contradict it, or it relies on outside knowledge
+Judge every claim exactly once. Quote evidence verbatim from the sources.`;
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
+  "been", "being", "have", "has", "had", "do", "does", "did", "will",
+  "would", "should", "could", "may", "might", "can", "this", "that",
+  "these", "those", "what", "which", "who", "when", "where", "why", "how",
+  "it", "its", "you", "your", "we", "our", "they", "their", "then", "than",
+  "so", "if", "not", "also", "into", "each", "such", "there", "here",
+]);
+
+/**
+ * Abbreviations whose period doesn't end a sentence
+ */
+const ABBREVIATIONS = new Set(["e.g", "i.e", "etc", "vs", "cf", "approx", "dr", "prof"]);
+
+/**
+ * Length of evidence quotes taken by the lexical check
+ */
+const EVIDENCE_LENGTH = 200;
+
+/**
+ * A cited source the answer is checked against
+ */
+export interface VerificationSource {
+  citationId: string;    // Citation ID in the answer
+  number: number;        // Inline marker that cites it ([n])
+  title: string;
+  text: string;          // Cited passage (or material content)
+}
+
+/**
+ * A claim extracted from an answer (before verification)
+ */
+export interface ExtractedClaim {
+  text: string;
+  start: number;         // Offsets into the answer content [start, end)
+  end: number;
+  markers: number[];     // Inline citation markers in the claim
+}
+
+export interface AnswerVerifierOptions {
+  model?: AISDKModel | null;   // Defaults to the configured AI SDK model
+  timeoutMs?: number;          // Fall back to the lexical check after this (default: 10000)
+  sourceLength?: number;       // Characters of each source sent to the model (default: 1500)
+  minLexicalSupport?: number;  // Claim terms found in the sources to count as grounded (default: 0.6)
+}
+
+/**
+ * Verified answer: claim verdicts plus the confidence they support
+ */
+export interface AnswerVerificationResult {
+  verification: AIAnswerVerification;
+  confidenceScore: number;     // Share of grounded claims (0-100)
+  confidenceLevel: ConfidenceLevel;
+  usage: LanguageModelUsage | null; // LLM judge usage (null for the lexical check)
+  providerMetadata?: ProviderMetadata; // LLM judge call metadata (names the serving provider)
+}
+
+/**
+ * Answer Verifier
+ *
+ * Splits an answer into claims (sentences, skipping headings, code,
+ * questions and the Sources section) and checks each claim against the
+ * sources its inline markers cite; uncited claims are checked against all
+ * sources. The configured AI SDK model judges all claims in one
+ * generateObject call; if it is unavailable, errors, or times out, claims
+ * are judged by term overlap with the sources instead.
+ *
+ * The confidence score is the share of grounded claims, replacing the
+ * model's self-reported confidence.
+ */
+export class AnswerVerifier {
+  private options: Required<Omit<AnswerVerifierOptions, "model">>;
+  private model: AISDKModel | null | undefined;
+
+  constructor(options: AnswerVerifierOptions = {}) {
+    this.model = options.model;
+    this.options = {
+      timeoutMs: options.timeoutMs ?? 10000,
+      sourceLength: options.sourceLength ?? 1500,
+      minLexicalSupport: options.minLexicalSupport ?? 0.6,
+    };
+  }
+
+  /**
+   * Verify an answer against its cited sources
+   */
+  async verify(params: {
+    content: string;
+    sources: VerificationSource[];
+    reportedConfidenceScore: number;
+  }): Promise<AnswerVerificationResult> {
+    const { content, sources, reportedConfidenceScore } = params;
+    const claims = extractClaims(content);
+    const claimSources = claims.map((claim) => this.sourcesFor(claim, sources));
+
+    let method: AIAnswerVerification["method"] = "lexical";
+    let usage: LanguageModelUsage | null = null;
+    let providerMetadata: ProviderMetadata | undefined;
+    let judged = new Map<number, { verdict: ClaimVerdict; evidence?: string }>();
+
+    const model = this.model === undefined ? getAISDKModel() : this.model;
+    if (model && claims.length > 0 && sources.length > 0) {
+      try {
+        const result = await generateObject({
+          model,
+          schema: VerificationSchema,
+          system: VERIFY_SYSTEM_PROMPT,
+          prompt: this.buildPrompt(claims, claimSources, sources),
+          temperature: 0,
+          abortSignal: AbortSignal.timeout(this.options.timeoutMs),
+        });
+
+        for (const { claim, verdict, evidence } of result.object.verdicts) {
+          if (claim >= 1 && claim <= claims.length && !judged.has(claim - 1)) {
+            judged.set(claim - 1, { verdict, evidence });
+          }
+        }
+        method = "llm";
+        usage = result.usage;
+        providerMetadata = result.providerMetadata;
+      } catch (error) {
+        console.warn("[AnswerVerifier] LLM verification failed, using lexical check:", error);
+        judged = new Map();
+      }
+    }
+
+    const verifiedClaims = claims.map((claim, i): AIAnswerClaim => {
+      // Claims the model skipped are judged lexically
+      const { verdict, evidence } = judged.get(i) ?? this.lexicalVerdict(claim, claimSources[i]);
+      return {
+        text: claim.text,
+        start: claim.start,
+        end: claim.end,
+        citationIds: claimSources[i].map((source) => source.citationId),
+        verdict,
+        ...(verdict === "grounded" && evidence && { evidence }),
+      };
+    });
+
+    const groundedCount = verifiedClaims.filter((claim) => claim.verdict === "grounded").length;
+
+    // Nothing to check (e.g. the answer only asks questions): keep the reported score
+    const confidenceScore =
+      claims.length > 0 ? Math.round((groundedCount / claims.length) * 100) : reportedConfidenceScore;
+
+    return {
+      verification: {
+        method,
+        claims: verifiedClaims,
+        groundedCount,
+        reportedConfidenceScore,
+        verifiedAt: new Date().toISOString(),
+      },
+      confidenceScore,
+      confidenceLevel: confidenceScore >= 70 ? "high" : confidenceScore >= 40 ? "medium" : "low",
+      usage,
+      providerMetadata,
+    };
+  }
+
+  /**
+   * Sources a claim cites (all sources for uncited claims)
+   */
+  private sourcesFor(claim: ExtractedClaim, sources: VerificationSource[]): VerificationSource[] {
+    const cited = sources.filter((source) => claim.markers.includes(source.number));
+    return cited.length > 0 ? cited : sources;
+  }
+
+  /**
+   * Grounded when enough of the claim's terms appear in its sources
+   */
+  private lexicalVerdict(
+    claim: ExtractedClaim,
+    sources: VerificationSource[]
+  ): { verdict: ClaimVerdict; evidence?: string } {
+    const claimTerms = new Set(tokenize(claim.text));
+    if (claimTerms.size === 0 || sources.length === 0) {
+      return { verdict: "ungrounded" };
+    }
+
+    const sourceTerms = new Set(sources.flatMap((source) => tokenize(source.text)));
+    const found = Array.from(claimTerms).filter((term) => sourceTerms.has(term)).length;
+    if (found / claimTerms.size < this.options.minLexicalSupport) {
+      return { verdict: "ungrounded" };
+    }
+
+    // Evidence: the source sentence sharing the most terms with the claim
+    let evidence = "";
+    let bestOverlap = 0;
+    for (const source of sources) {
+      for (const sentence of source.text.split(/(?<=[.!?])\s+|\n+/)) {
+        const overlap = new Set(tokenize(sentence).filter((term) => claimTerms.has(term))).size;
+        if (overlap > bestOverlap) {
+          bestOverlap = overlap;
+          evidence = sentence.trim();
+        }
+      }
+    }
+
+    return {
+      verdict: "grounded",
+      evidence:
+        evidence.length > EVIDENCE_LENGTH ? evidence.substring(0, EVIDENCE_LENGTH) + "..." : evidence,
+    };
+  }
+
+  private buildPrompt(
+    claims: ExtractedClaim[],
+    claimSources: VerificationSource[][],
+    sources: VerificationSource[]
+  ): string {
+    const { sourceLength } = this.options;
+    const sourceList = sources
+      .map((source) => {
+        const text = source.text.length > sourceLength
+          ? source.text.substring(0, sourceLength) + "..."
+          : source.text;
+        return `[${source.number}] ${source.title}\n${text}`;
+      })
+      .join("\n\n");
+
+    const claimList = claims
+      .map((claim, i) => {
+        const cites = claimSources[i].map((source) => `[${source.number}]`).join(", ");
+        return `${i + 1}. (check against ${cites}) ${claim.text}`;
+      })
+      .join("\n");
+
+    return `Sources:\n\n${sourceList}\n\nClaims:\n\n${claimList}`;
+  }
+}
+
+/**
+ * Split an answer into checkable claims (sentences)
+ *
+ * Skips headings, code blocks, questions, fragments with fewer than three
+ * content words, and everything from the Sources section on. Citation
+ * markers right after a sentence's final punctuation belong to it.
+ */
+export function extractClaims(content: string): ExtractedClaim[] {
+  const claims: ExtractedClaim[] = [];
+  let lineStart = 0;
+  let inCode = false;
+
+  for (const line of content.split("\n")) {
+    const offset = lineStart;
+    lineStart += line.length + 1;
+
+    const trimmed = line.trim();
+    if (trimmed.startsWith("```")) {
+      inCode = !inCode;
+      continue;
+    }
+    if (inCode || trimmed === "" || trimmed.startsWith("#")) continue;
+    if (/^\W*sources\W*$/i.test(trimmed)) break;
+
+    // Sentence ends: punctuation (plus trailing citation markers) before whitespace or line end
+    const boundary = /[.!?]+["')\]]*(?:\s*\[\d+\])*(?=\s|$)/g;
+    let match: RegExpExecArray | null;
+    const ends: number[] = [];
+
+    while ((match = boundary.exec(line)) !== null) {
+      const word = line.substring(0, match.index).split(/\s+/).pop()?.toLowerCase() ?? "";
+      if (ABBREVIATIONS.has(word.replace(/^\W+/, ""))) continue;
+      ends.push(match.index + match[0].length);
+    }
+    if (ends[ends.length - 1] !== line.length) ends.push(line.length);
+
+    let sentenceStart = 0;
+
+    for (const end of ends) {
+      const from = sentenceStart;
+      const raw = line.substring(from, end);
+      sentenceStart = end;
+
+      // Drop leading whitespace and list/quote markers
+      const lead = raw.match(/^\s*(?:(?:[-*+>]|\d+[.)])\s+)*/)?.[0].length ?? 0;
+      const text = raw.substring(lead).trimEnd();
+      if (!text) continue;
+
+      const markers = Array.from(text.matchAll(/\[(\d+)\]/g), (m) => parseInt(m[1], 10));
+      const isQuestion = /\?["')\]]*(?:\s*\[\d+\])*$/.test(text);
+      if (isQuestion || tokenize(text).length < 3) continue;
+
+      const start = offset + from + lead;
+      claims.push({ text, start, end: start + text.length, markers });
+    }
+  }
+
+  return claims;
+}
+
+/**
+ * Content terms of a text (lowercased, stop words and markers removed,
+ * plural "s" stripped)
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/\[\d+\]/g, " ")
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length >= 3 && !STOP_WORDS.has(token))
+    .map((token) => (token.length > 4 && token.endsWith("s") && !token.endsWith("ss") ? token.slice(0, -1) : token));
+}
@@ -0,0 +1,291 @@
+// ============================================
+// Embedding Provider Registry
+// ============================================
+//
+// Pluggable EmbeddingFunction implementations for EmbeddingRetriever.
+// - local: Transformers.js all-MiniLM-L6-v2 (ONNX on CPU, no API calls)
+// - openai: OpenAI or any OpenAI-compatible /embeddings endpoint
+// - voyage: Voyage AI (Anthropic's recommended embeddings provider)
+// - hash: Keyword-hash pseudo-embedding (demo fallback, not semantic)
+//
+// Material vectors can be precomputed with `npm run embeddings:precompute`
+// so only the query is embedded at search time.
+
+import { embed, embedMany } from "ai";
+import { createOpenAI } from "@ai-sdk/openai";
+import { getEnvConfig, type EmbeddingProviderType } from "@/lib/utils/env";
+import type { Embedding } from "./types";
+import { simpleEmbedFn, type EmbeddingFunction } from "./EmbeddingRetriever";
+
+/**
+ * Configured embedding provider
+ *
+ * Vectors are only comparable between providers with the same `id`.
+ */
+export interface EmbeddingProvider {
+  id: string; // "<type>:<model>"
+  type: EmbeddingProviderType;
+  model: string;
+
+  /** Embed a single text (queries, or materials missing from the precomputed file) */
+  embed: EmbeddingFunction;
+
+  /** Embed many texts at once (used by the precompute script) */
+  embedBatch(texts: string[]): Promise<Embedding[]>;
+}
+
+/**
+ * Options passed to provider factories
+ */
+export interface EmbeddingProviderOptions {
+  model?: string;
+  apiKey?: string | null;
+  baseUrl?: string | null;
+}
+
+/**
+ * Factory that creates (and loads) a provider
+ *
+ * Should throw if the provider cannot be used (missing key, model load failure).
+ */
+export type EmbeddingProviderFactory = (
+  options: EmbeddingProviderOptions
+) => Promise<EmbeddingProvider>;
+
+/**
+ * Default model per provider
+ */
+export const DEFAULT_EMBEDDING_MODELS: Record<EmbeddingProviderType, string> = {
+  local: "Xenova/all-MiniLM-L6-v2",
+  openai: "text-embedding-3-small",
+  voyage: "voyage-3-lite",
+  hash: "keyword-hash-384",
+};
+
+/**
+ * Directory for precomputed material embeddings (one file per provider)
+ */
+export const PRECOMPUTED_EMBEDDINGS_DIR = "mocks/embeddings";
+
+const VOYAGE_API_URL = "https://api.voyageai.com/v1/embeddings";
+const LOCAL_BATCH_SIZE = 16;
+
+function toEmbedding(vector: ArrayLike<number>): Embedding {
+  return { vector: Array.from(vector), dimensions: vector.length };
+}
+
+/**
+ * Local provider - Transformers.js feature-extraction pipeline
+ *
+ * The model is downloaded from the Hugging Face Hub on first use and
+ * cached on disk; after that no network access is needed.
+ */
+const createLocalProvider: EmbeddingProviderFactory = async (options) => {
+  const model = options.model || DEFAULT_EMBEDDING_MODELS.local;
+  const { pipeline } = await import("@huggingface/transformers");
+  const extractor = await pipeline("feature-extraction", model);
+
+  const embedBatch = async (texts: string[]): Promise<Embedding[]> => {
+    const embeddings: Embedding[] = [];
+    for (let i = 0; i < texts.length; i += LOCAL_BATCH_SIZE) {
+      const output = await extractor(texts.slice(i, i + LOCAL_BATCH_SIZE), {
+        pooling: "mean",
+        normalize: true,
+      });
+      for (const vector of output.tolist() as number[][]) {
+        embeddings.push(toEmbedding(vector));
+      }
+    }
+    return embeddings;
+  };
+
+  return {
+    id: `local:${model}`,
+    type: "local",
+    model,
+    embed: async (text) => (await embedBatch([text]))[0],
+    embedBatch,
+  };
+};
+
+/**
+ * OpenAI provider - also works with OpenAI-compatible servers
+ * (Ollama, LM Studio, vLLM) via EMBEDDING_API_BASE_URL
+ */
+const createOpenAIProvider: EmbeddingProviderFactory = async (options) => {
+  if (!options.apiKey && !options.baseUrl) {
+    throw new Error("OpenAI API key not configured");
+  }
+
+  const model = options.model || DEFAULT_EMBEDDING_MODELS.openai;
+  const openai = createOpenAI({
+    // Self-hosted compatible servers usually ignore the key, but the SDK requires one
+    apiKey: options.apiKey || "unused",
+    baseURL: options.baseUrl || undefined,
+  });
+  const embeddingModel = openai.textEmbeddingModel(model);
+
+  return {
+    id: `openai:${model}`,
+    type: "openai",
+    model,
+    embed: async (text) => {
+      const { embedding } = await embed({ model: embeddingModel, value: text });
+      return toEmbedding(embedding);
+    },
+    embedBatch: async (texts) => {
+      const { embeddings } = await embedMany({ model: embeddingModel, values: texts });
+      return embeddings.map(toEmbedding);
+    },
+  };
+};
+
+/**
+ * Voyage AI provider (Anthropic has no embeddings API of its own)
+ */
+const createVoyageProvider: EmbeddingProviderFactory = async (options) => {
+  const apiKey = options.apiKey;
+  if (!apiKey) {
+    throw new Error("Voyage API key not configured");
+  }
+
+  const model = options.model || DEFAULT_EMBEDDING_MODELS.voyage;
+
+  const embedBatch = async (texts: string[]): Promise<Embedding[]> => {
+    const response = await fetch(options.baseUrl || VOYAGE_API_URL, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({ input: texts, model }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Voyage API error: HTTP ${response.status} ${await response.text()}`);
+    }
+
+    const result = await response.json() as { data: Array<{ embedding: number[]; index: number }> };
+    return result.data
+      .sort((a, b) => a.index - b.index)
+      .map((item) => toEmbedding(item.embedding));
+  };
+
+  return {
+    id: `voyage:${model}`,
+    type: "voyage",
+    model,
+    embed: async (text) => (await embedBatch([text]))[0],
+    embedBatch,
+  };
+};
+
+/**
+ * Hash provider - wraps createSimpleEmbedding (demo only)
+ */
+const createHashProvider: EmbeddingProviderFactory = async () => ({
+  id: `hash:${DEFAULT_EMBEDDING_MODELS.hash}`,
+  type: "hash",
+  model: DEFAULT_EMBEDDING_MODELS.hash,
+  embed: simpleEmbedFn,
+  embedBatch: (texts) => Promise.all(texts.map(simpleEmbedFn)),
+});
+
+/**
+ * Provider registry
+ */
+const providerFactories = new Map<EmbeddingProviderType, EmbeddingProviderFactory>([
+  ["local", createLocalProvider],
+  ["openai", createOpenAIProvider],
+  ["voyage", createVoyageProvider],
+  ["hash", createHashProvider],
+]);
+
+/**
+ * Register (or replace) a provider factory
+ */
+export function registerEmbeddingProvider(
+  type: EmbeddingProviderType,
+  factory: EmbeddingProviderFactory
+): void {
+  providerFactories.set(type, factory);
+  resetEmbeddingProvider();
+}
+
+/**
+ * Create an embedding provider
+ *
+ * Unset options are filled from environment configuration.
+ * Throws if the provider cannot be created.
+ *
+ * @param providerType - Optional override for provider type
+ * @param options - Optional model/key/base URL overrides
+ */
+export async function createEmbeddingProvider(
+  providerType?: EmbeddingProviderType,
+  options: EmbeddingProviderOptions = {}
+): Promise<EmbeddingProvider> {
+  const envConfig = getEnvConfig();
+  const type = providerType || envConfig.embeddingProvider;
+
+  const factory = providerFactories.get(type);
+  if (!factory) {
+    throw new Error(`Unknown embedding provider: ${type}`);
+  }
+
+  // The configured model only applies to the configured provider
+  const envModel = type === envConfig.embeddingProvider ? envConfig.embeddingModel : null;
+  const envApiKey =
+    type === "openai" ? envConfig.openaiApiKey : type === "voyage" ? envConfig.voyageApiKey : null;
+  const envBaseUrl = type === "openai" ? envConfig.embeddingBaseUrl : null;
+
+  const provider = await factory({
+    model: options.model || envModel || undefined,
+    apiKey: options.apiKey ?? envApiKey,
+    baseUrl: options.baseUrl ?? envBaseUrl,
+  });
+
+  console.log(`[Embeddings] ${provider.id} provider ready`);
+  return provider;
+}
+
+/**
+ * Cached provider (singleton pattern)
+ */
+let cachedProvider: Promise<EmbeddingProvider> | undefined = undefined;
+
+/**
+ * Get or create the configured embedding provider
+ *
+ * Falls back to the hash provider if the configured one cannot be
+ * loaded, so retrieval keeps working (BM25 carries the ranking).
+ */
+export function getEmbeddingProvider(): Promise<EmbeddingProvider> {
+  if (!cachedProvider) {
+    cachedProvider = createEmbeddingProvider().catch((error) => {
+      console.warn("[Embeddings] Configured provider failed, falling back to hash embeddings:", error);
+      return createEmbeddingProvider("hash");
+    });
+  }
+  return cachedProvider;
+}
+
+/**
+ * Reset cached provider
+ *
+ * Forces creation of a new provider instance.
+ * Useful for testing or configuration changes.
+ */
+export function resetEmbeddingProvider(): void {
+  cachedProvider = undefined;
+}
+
+/**
+ * Path of the precomputed embeddings file for a provider
+ *
+ * @example getPrecomputedEmbeddingsPath(provider) // "mocks/embeddings/local-xenova-all-minilm-l6-v2.json"
+ */
+export function getPrecomputedEmbeddingsPath(provider: Pick<EmbeddingProvider, "id">): string {
+  const slug = provider.id.toLowerCase().replace(/[^a-z0-9.]+/g, "-");
+  return `${PRECOMPUTED_EMBEDDINGS_DIR}/${slug}.json`;
+}
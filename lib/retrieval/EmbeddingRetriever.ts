@@ -13,13 +13,21 @@ import type {
 /**
  * Embedding generation function type
  *
- * In production, use:
- * - Transformers.js with all-MiniLM-L6-v2
- * - OpenAI text-embedding-3-small
- * - Cohere embed-english-v3.0
+ * Real implementations live in ./EmbeddingProviders (Transformers.js
+ * all-MiniLM-L6-v2, OpenAI-compatible, Voyage AI).
  */
 export type EmbeddingFunction = (text: string) => Promise<Embedding>;
 
+/**
+ * Text used to embed a material
+ *
+ * Shared by EmbeddingRetriever and the precompute script so precomputed
+ * vectors match what would be computed at runtime.
+ */
+export function getMaterialEmbeddingText(material: CourseMaterial): string {
+  return `${material.title}\n${material.content}\nKeywords: ${material.keywords.join(", ")}`;
+}
+
 /**
  * Embedding Retriever
  *
@@ -72,7 +80,7 @@ export class EmbeddingRetriever implements IRetriever {
 
       if (!exists) {
         // Combine title, content, and keywords for embedding
-        const text = `${material.title}\n${material.content}\nKeywords: ${material.keywords.join(", ")}`;
+        const text = getMaterialEmbeddingText(material);
 
         // Generate embedding
         const embedding = await this.embedFn(text);
@@ -145,10 +153,9 @@ export class EmbeddingRetriever implements IRetriever {
 /**
  * Create simple keyword-based pseudo-embedding for demo
  *
- * NOTE: This is NOT a real embedding! For production, use:
- * - Transformers.js: @xenova/transformers with all-MiniLM-L6-v2
- * - OpenAI: text-embedding-3-small via API
- * - Cohere: embed-english-v3.0 via API
+ * NOTE: This is NOT a real embedding! Only used as the "hash" provider
+ * and as a fallback when no real embedding provider can be loaded
+ * (see ./EmbeddingProviders).
  *
  * This creates a 384-dimensional vector (matching all-MiniLM-L6-v2)
  * based on simple keyword hashing. Purely for demo purposes.
@@ -199,33 +206,82 @@ export async function simpleEmbedFn(text: string): Promise<Embedding> {
   return createSimpleEmbedding(text);
 }
 
+/**
+ * Parsed pre-computed embedding files (keyed by path)
+ *
+ * Files are only read once per process (including missing files);
+ * restart after regenerating.
+ */
+const precomputedCache = new Map<string, Promise<Record<string, Embedding>>>();
+
+/**
+ * Read a pre-computed embeddings JSON file
+ *
+ * URLs (and any path in the browser) are fetched; on the server, plain
+ * paths are read from disk relative to the project root.
+ */
+export function readPrecomputedEmbeddings(
+  embeddingsPath: string
+): Promise<Record<string, Embedding>> {
+  let pending = precomputedCache.get(embeddingsPath);
+
+  if (!pending) {
+    pending = (async () => {
+      if (typeof window === "undefined" && !/^https?:\/\//.test(embeddingsPath)) {
+        const { readFile } = await import("node:fs/promises");
+        const { resolve } = await import("node:path");
+        const raw = await readFile(resolve(process.cwd(), embeddingsPath), "utf-8");
+        return JSON.parse(raw) as Record<string, Embedding>;
+      }
+
+      const response = await fetch(embeddingsPath);
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status} loading ${embeddingsPath}`);
+      }
+      return await response.json() as Record<string, Embedding>;
+    })();
+
+    precomputedCache.set(embeddingsPath, pending);
+  }
+
+  return pending;
+}
+
 /**
  * Load pre-computed embeddings from JSON file
  *
- * For production deployment:
- * 1. Pre-compute embeddings offline using real model
- * 2. Store in JSON or database
- * 3. Load at startup
+ * Generate the file with `npm run embeddings:precompute` (uses the
+ * configured embedding provider, see ./EmbeddingProviders).
  *
  * Expected format:
  * {
  *   "material-id-1": { "vector": [0.1, 0.2, ...], "dimensions": 384 },
  *   "material-id-2": { "vector": [...], "dimensions": 384 }
  * }
+ *
+ * @param vectorStore - Store to load embeddings into
+ * @param embeddingsPath - File path (server) or URL
+ * @param ids - Optional material IDs to load (defaults to all)
+ * @returns Number of embeddings loaded
  */
 export async function loadPrecomputedEmbeddings(
   vectorStore: IVectorStore,
-  embeddingsPath: string
-): Promise<void> {
+  embeddingsPath: string,
+  ids?: string[]
+): Promise<number> {
   try {
-    const response = await fetch(embeddingsPath);
-    const embeddings = await response.json() as Record<string, Embedding>;
+    const embeddings = await readPrecomputedEmbeddings(embeddingsPath);
+    const wanted = ids ? new Set(ids) : null;
+    let loaded = 0;
 
     for (const [id, embedding] of Object.entries(embeddings)) {
+      if (wanted && !wanted.has(id)) continue;
       await vectorStore.add(id, embedding);
+      loaded++;
     }
 
-    console.log(`[EmbeddingRetriever] Loaded ${Object.keys(embeddings).length} pre-computed embeddings`);
+    console.log(`[EmbeddingRetriever] Loaded ${loaded} pre-computed embeddings`);
+    return loaded;
   } catch (error) {
     console.warn(`[EmbeddingRetriever] Failed to load pre-computed embeddings:`, error);
     throw error;
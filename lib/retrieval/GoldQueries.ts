@@ -0,0 +1,43 @@
+// ============================================
+// Gold Query Sets for Retrieval Evaluation
+// ============================================
+
+import type { CourseMaterial } from "@/lib/models/types";
+import type { EvalQuery } from "./types";
+import goldData from "@/mocks/retrieval-gold.json";
+
+/**
+ * Prefixes stripped from titles to turn them into questions
+ * ("Lecture 3: Binary Search..." -> "Binary Search...")
+ */
+const TITLE_PREFIX = /^(Lecture|Week|Assignment|Lab|Reading|Chapter|Section)[^:]*:\s*/i;
+
+/**
+ * Hand-labeled queries from mocks/retrieval-gold.json
+ *
+ * Thread titles plus manual questions, each with graded relevance
+ * judgments (2 = answers it, 1 = related).
+ */
+export function getGoldQueries(courseId?: string): EvalQuery[] {
+  return (goldData.queries as unknown as EvalQuery[]).filter((q) => !courseId || q.courseId === courseId);
+}
+
+/**
+ * Known-item queries generated from material titles
+ *
+ * Each material's title (without its "Lecture N:" prefix) should retrieve
+ * that material. Cheap coverage for every material, but easier than real
+ * questions - report them separately or alongside the gold set.
+ */
+export function buildTitleQueries(materials: CourseMaterial[]): EvalQuery[] {
+  return materials
+    .map((material) => ({ material, query: material.title.replace(TITLE_PREFIX, "").trim() }))
+    .filter(({ query }) => query.length >= 3)
+    .map(({ material, query }) => ({
+      id: `title:${material.id}`,
+      courseId: material.courseId,
+      query,
+      source: "title" as const,
+      relevant: { [material.id]: 2 },
+    }));
+}
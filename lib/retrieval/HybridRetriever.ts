@@ -5,10 +5,13 @@
 import type { CourseMaterial } from "@/lib/models/types";
 import type {
   IRetriever,
+  IReranker,
   RetrievalResult,
   HybridRetrievalConfig,
   RetrievalMetrics,
 } from "./types";
+import type { MMRDiversifier } from "./MMRDiversifier";
+import { DEFAULT_FIELD_WEIGHTS } from "./BM25Retriever";
 
 /**
  * Hybrid Retriever
@@ -30,6 +33,9 @@ import type {
  * - Simple and effective
  * - Well-established in information retrieval
  *
+ * Pipeline: BM25 + embeddings (parallel) → fusion → rerank (optional) → MMR (optional)
+ * Per-stage timings of the last query are available via getLastMetrics().
+ *
  * Reference: "Reciprocal Rank Fusion outperforms Condorcet and individual Rank Learning Methods"
  * Cormack, Clarke, and Buettcher (2009)
  */
@@ -38,16 +44,26 @@ export class HybridRetriever implements IRetriever {
   private embeddingRetriever: IRetriever;
   private config: Required<HybridRetrievalConfig>;
   private materials: CourseMaterial[];
+  private reranker: IReranker | null;
+  private mmr: MMRDiversifier | null;
+  private lastMetrics: RetrievalMetrics | null = null;
 
+  /**
+   * @param stages - Optional reranker and MMR diversifier (applied when
+   *   config.useReranker / config.useMMR are set)
+   */
   constructor(
     bm25Retriever: IRetriever,
     embeddingRetriever: IRetriever,
     materials: CourseMaterial[],
-    config?: HybridRetrievalConfig
+    config?: HybridRetrievalConfig,
+    stages?: { reranker?: IReranker; mmr?: MMRDiversifier }
   ) {
     this.bm25Retriever = bm25Retriever;
     this.embeddingRetriever = embeddingRetriever;
     this.materials = materials;
+    this.reranker = stages?.reranker ?? null;
+    this.mmr = stages?.mmr ?? null;
 
     // Normalize config with defaults
     this.config = {
@@ -55,11 +71,14 @@ export class HybridRetriever implements IRetriever {
       embeddingWeight: config?.embeddingWeight ?? 0.5,
       useRRF: config?.useRRF ?? true,
       rrfK: config?.rrfK ?? 60,
-      useMMR: config?.useMMR ?? false, // MMR added later
+      useMMR: config?.useMMR ?? false, // Requires an MMRDiversifier stage
       mmrLambda: config?.mmrLambda ?? 0.7,
-      useReranker: config?.useReranker ?? false,
+      useReranker: config?.useReranker ?? false, // Requires a reranker stage
+      rerankerType: config?.rerankerType ?? "lexical",
+      rerankTopK: config?.rerankTopK ?? 0, // 0 = 3x limit
       bm25K1: config?.bm25K1 ?? 1.5,
       bm25B: config?.bm25B ?? 0.75,
+      bm25FieldWeights: config?.bm25FieldWeights ?? DEFAULT_FIELD_WEIGHTS,
     };
   }
 
@@ -73,34 +92,58 @@ export class HybridRetriever implements IRetriever {
     };
 
     try {
-      // 1. Retrieve from both sources in parallel
-      const bm25Start = performance.now();
-      const embeddingStart = performance.now();
-
-      const [bm25Results, embeddingResults] = await Promise.all([
-        this.bm25Retriever.retrieve(query, limit * 2), // Get more candidates for fusion
-        this.embeddingRetriever.retrieve(query, limit * 2),
+      // 1. Retrieve from both sources in parallel (timed separately)
+      const timed = async (retriever: IRetriever) => {
+        const start = performance.now();
+        const results = await retriever.retrieve(query, limit * 2); // Get more candidates for fusion
+        return { results, time: performance.now() - start };
+      };
+
+      const [bm25, embedding] = await Promise.all([
+        timed(this.bm25Retriever),
+        timed(this.embeddingRetriever),
       ]);
 
-      metrics.bm25Time = performance.now() - bm25Start;
-      metrics.embeddingTime = performance.now() - embeddingStart;
+      metrics.bm25Time = bm25.time;
+      metrics.embeddingTime = embedding.time;
 
       // 2. Fuse results
       const fusionStart = performance.now();
       const fusedResults = this.config.useRRF
-        ? this.fuseWithRRF(bm25Results, embeddingResults, this.config.rrfK)
-        : this.fuseWithWeightedScores(bm25Results, embeddingResults);
+        ? this.fuseWithRRF(bm25.results, embedding.results, this.config.rrfK)
+        : this.fuseWithWeightedScores(bm25.results, embedding.results);
 
       metrics.fusionTime = performance.now() - fusionStart;
 
-      // 3. Limit and return
-      const finalResults = fusedResults.slice(0, limit);
+      // 3. Rerank top fused candidates
+      let candidates = fusedResults;
+      if (this.config.useReranker && this.reranker) {
+        const rerankStart = performance.now();
+        const topK = this.config.rerankTopK || limit * 3;
+        try {
+          candidates = await this.reranker.rerank(query, fusedResults.slice(0, topK));
+        } catch (error) {
+          console.error(`[HybridRetriever] Reranking failed, keeping fusion order:`, error);
+        }
+        metrics.rerankTime = performance.now() - rerankStart;
+      }
+
+      // 4. Diversify and limit
+      let finalResults: RetrievalResult[];
+      if (this.config.useMMR && this.mmr) {
+        const mmrStart = performance.now();
+        finalResults = this.diversify(candidates, limit);
+        metrics.mmrTime = performance.now() - mmrStart;
+      } else {
+        finalResults = candidates.slice(0, limit);
+      }
 
       metrics.resultsCount = finalResults.length;
       metrics.queryTime = performance.now() - startTime;
+      this.lastMetrics = metrics as RetrievalMetrics;
 
       // Log metrics for monitoring
-      console.log(`[HybridRetriever] Query: "${query.substring(0, 50)}..." | Results: ${finalResults.length} | Time: ${metrics.queryTime.toFixed(2)}ms`);
+      console.log(`[HybridRetriever] Query: "${query.substring(0, 50)}..." | Results: ${finalResults.length} | Time: ${metrics.queryTime.toFixed(2)}ms | ${this.formatStageTimes(metrics)}`);
 
       return finalResults;
     } catch (error) {
@@ -109,6 +152,44 @@ export class HybridRetriever implements IRetriever {
     }
   }
 
+  /**
+   * Apply MMR on normalized scores
+   *
+   * MMR trades relevance against content similarity (0-1), so relevance
+   * must be on the same scale - raw RRF scores (~0.01-0.03) would let
+   * diversity dominate. Returned results keep their original scores.
+   */
+  private diversify(results: RetrievalResult[], limit: number): RetrievalResult[] {
+    const originals = new Map(results.map(r => [r.material.id, r]));
+    const selected = this.mmr!.diversify(this.normalizeScores(results), limit);
+    return selected.map(r => originals.get(r.material.id)!);
+  }
+
+  /**
+   * Format per-stage timings for logging
+   */
+  private formatStageTimes(metrics: Partial<RetrievalMetrics>): string {
+    const stages: Array<[string, number | undefined]> = [
+      ["bm25", metrics.bm25Time],
+      ["embedding", metrics.embeddingTime],
+      ["fusion", metrics.fusionTime],
+      ["rerank", metrics.rerankTime],
+      ["mmr", metrics.mmrTime],
+    ];
+
+    return stages
+      .filter(([, time]) => time !== undefined)
+      .map(([stage, time]) => `${stage}: ${time!.toFixed(2)}ms`)
+      .join(", ");
+  }
+
+  /**
+   * Get metrics (per-stage timings) of the last retrieve() call
+   */
+  getLastMetrics(): RetrievalMetrics | null {
+    return this.lastMetrics;
+  }
+
   /**
    * Fuse results using Reciprocal Rank Fusion (RRF)
    *
@@ -0,0 +1,147 @@
+// ============================================
+// LLM-as-Reranker
+// ============================================
+
+import { generateObject } from "ai";
+import { z } from "zod";
+import { getAISDKModel, type AISDKModel } from "@/lib/llm/ai-sdk-providers";
+import { recordLLMUsage } from "@/lib/llm/usage";
+import type { IReranker, RetrievalResult } from "./types";
+
+/**
+ * Structured output: one relevance grade per candidate
+ */
+const RerankSchema = z.object({
+  rankings: z.array(
+    z.object({
+      index: z.number().int().describe("Candidate number from the list"),
+      relevance: z.number().min(0).max(10)
+        .describe("How well the material answers the question (0 = unrelated, 10 = directly answers it)"),
+    })
+  ),
+});
+
+const RERANK_SYSTEM_PROMPT = `You grade course materials for a student question.
+For every numbered candidate, output its relevance from 0 to 10.
+Judge whether the material would help answer the question, not just word overlap.
+Grade every candidate exactly once.`;
+
+export interface LLMRerankerOptions {
+  model?: AISDKModel | null;  // Defaults to the configured AI SDK model
+  maxCandidates?: number;      // Candidates sent to the model (default: 10)
+  excerptLength?: number;      // Characters of content per candidate (default: 600)
+  timeoutMs?: number;          // Give up and keep input order after this (default: 8000)
+  fallback?: IReranker;        // Used when the model is unavailable or fails
+}
+
+/**
+ * LLM Reranker
+ *
+ * Uses the configured AI SDK model as a listwise cross-encoder: the question
+ * and all candidates go into one generateObject call and the model grades
+ * each one. Scores are relevance / 10, in [0, 1].
+ *
+ * Candidates beyond maxCandidates keep their order after the graded ones.
+ * If the model is unavailable, errors, or times out, results are passed to
+ * the fallback reranker (or returned unchanged). Each call is recorded in the
+ * LLM usage ledger under the candidates' course.
+ */
+export class LLMReranker implements IReranker {
+  private options: Required<Omit<LLMRerankerOptions, "model" | "fallback">>;
+  private model: AISDKModel | null | undefined;
+  private fallback?: IReranker;
+
+  constructor(options: LLMRerankerOptions = {}) {
+    this.model = options.model;
+    this.fallback = options.fallback;
+    this.options = {
+      maxCandidates: options.maxCandidates ?? 10,
+      excerptLength: options.excerptLength ?? 600,
+      timeoutMs: options.timeoutMs ?? 8000,
+    };
+  }
+
+  /**
+   * Rerank results with the LLM
+   */
+  async rerank(query: string, results: RetrievalResult[], limit?: number): Promise<RetrievalResult[]> {
+    const model = this.model === undefined ? getAISDKModel() : this.model;
+    if (!model || results.length === 0) {
+      return this.fallbackRerank(query, results, limit);
+    }
+
+    const candidates = results.slice(0, this.options.maxCandidates);
+    const rest = results.slice(this.options.maxCandidates);
+
+    try {
+      const { object, usage, providerMetadata } = await generateObject({
+        model,
+        schema: RerankSchema,
+        system: RERANK_SYSTEM_PROMPT,
+        prompt: this.buildPrompt(query, candidates),
+        temperature: 0,
+        abortSignal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+
+      // Candidates come from one course's materials
+      const courseIds = new Set(candidates.map((result) => result.material.courseId));
+      await recordLLMUsage({
+        feature: "rerank",
+        model,
+        usage,
+        providerMetadata,
+        courseId: courseIds.size === 1 ? [...courseIds][0] : null,
+      });
+
+      const grades = new Map<number, number>();
+      for (const { index, relevance } of object.rankings) {
+        if (index >= 1 && index <= candidates.length && !grades.has(index)) {
+          grades.set(index, relevance);
+        }
+      }
+
+      const reranked = candidates
+        .map((result, i) => {
+          const relevance = grades.get(i + 1) ?? 0; // Ungraded = not relevant
+          return {
+            ...result,
+            score: relevance / 10,
+            metadata: {
+              ...result.metadata,
+              reranker: "llm",
+              firstStageScore: result.score,
+              llmRelevance: relevance,
+            },
+          };
+        })
+        .sort((a, b) => b.score - a.score);
+
+      return [...reranked, ...rest].slice(0, limit ?? results.length);
+    } catch (error) {
+      console.warn("[LLMReranker] Reranking failed, using fallback:", error);
+      return this.fallbackRerank(query, results, limit);
+    }
+  }
+
+  private fallbackRerank(query: string, results: RetrievalResult[], limit?: number): Promise<RetrievalResult[]> {
+    if (this.fallback) {
+      return this.fallback.rerank(query, results, limit);
+    }
+    return Promise.resolve(results.slice(0, limit ?? results.length));
+  }
+
+  private buildPrompt(query: string, candidates: RetrievalResult[]): string {
+    const { excerptLength } = this.options;
+    const list = candidates
+      .map((result, i) => {
+        const { title, type, content } = result.material;
+        const excerpt = content.length > excerptLength
+          ? content.substring(0, excerptLength) + "..."
+          : content;
+        return `[${i + 1}] ${title} (${type})\n${excerpt}`;
+      })
+      .join("\n\n");
+
+    return `Question: ${query}\n\nCandidates:\n\n${list}`;
+  }
+}
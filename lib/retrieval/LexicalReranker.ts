@@ -0,0 +1,174 @@
+// ============================================
+// Lexical (Feature-Based) Reranker
+// ============================================
+
+import type { IReranker, RetrievalResult } from "./types";
+
+/**
+ * Feature weights for the lexical reranker (should sum to 1)
+ */
+export interface LexicalRerankerWeights {
+  titleCoverage: number;    // Fraction of query terms found in the title
+  contentCoverage: number;  // Fraction of query terms found in the content
+  keywordOverlap: number;   // Fraction of query terms matching material keywords
+  phraseMatch: number;      // Fraction of query bigrams appearing verbatim
+  proximity: number;        // How tightly query terms cluster in the content
+  priorScore: number;       // First-stage (fusion) score, normalized
+}
+
+const DEFAULT_WEIGHTS: LexicalRerankerWeights = {
+  titleCoverage: 0.2,
+  contentCoverage: 0.2,
+  keywordOverlap: 0.15,
+  phraseMatch: 0.15,
+  proximity: 0.1,
+  priorScore: 0.2,
+};
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
+  "been", "being", "have", "has", "had", "do", "does", "did", "will",
+  "would", "should", "could", "may", "might", "can", "this", "that",
+  "these", "those", "what", "which", "who", "when", "where", "why", "how",
+]);
+
+/**
+ * Lexical Reranker
+ *
+ * Offline reranker that scores each (query, material) pair with a linear
+ * combination of hand-picked features. Unlike BM25 it looks at where terms
+ * match (title, keywords), whether they appear as phrases, and how close
+ * together they are - signals a bag-of-words first stage throws away.
+ *
+ * Scores are in [0, 1]. No network or model required, so it is a safe
+ * default reranking stage.
+ */
+export class LexicalReranker implements IReranker {
+  private weights: LexicalRerankerWeights;
+
+  constructor(weights?: Partial<LexicalRerankerWeights>) {
+    this.weights = { ...DEFAULT_WEIGHTS, ...weights };
+  }
+
+  /**
+   * Rerank results by lexical features
+   */
+  async rerank(query: string, results: RetrievalResult[], limit?: number): Promise<RetrievalResult[]> {
+    const queryTerms = Array.from(new Set(this.tokenize(query)));
+    if (queryTerms.length === 0 || results.length === 0) {
+      return results.slice(0, limit ?? results.length);
+    }
+
+    const queryBigrams = this.bigrams(this.tokenize(query));
+    const maxPrior = Math.max(...results.map((r) => r.score)) || 1;
+
+    const reranked = results.map((result) => {
+      const { material } = result;
+      const titleTerms = new Set(this.tokenize(material.title));
+      const contentTokens = this.tokenize(material.content);
+      const contentTerms = new Set(contentTokens);
+      const keywordTerms = new Set(material.keywords.flatMap((k) => this.tokenize(k)));
+      const contentText = ` ${contentTokens.join(" ")} `;
+
+      const features = {
+        titleCoverage: this.coverage(queryTerms, titleTerms),
+        contentCoverage: this.coverage(queryTerms, contentTerms),
+        keywordOverlap: this.coverage(queryTerms, keywordTerms),
+        phraseMatch:
+          queryBigrams.length > 0
+            ? queryBigrams.filter((bigram) => contentText.includes(` ${bigram} `)).length /
+              queryBigrams.length
+            : 0,
+        proximity: this.proximity(queryTerms, contentTokens),
+        priorScore: Math.max(result.score, 0) / maxPrior,
+      };
+
+      const score = (Object.keys(features) as Array<keyof LexicalRerankerWeights>).reduce(
+        (sum, feature) => sum + features[feature] * this.weights[feature],
+        0
+      );
+
+      return {
+        ...result,
+        score,
+        matchedTerms: queryTerms.filter((t) => contentTerms.has(t) || titleTerms.has(t)),
+        metadata: {
+          ...result.metadata,
+          reranker: "lexical",
+          firstStageScore: result.score,
+          rerankFeatures: features,
+        },
+      };
+    });
+
+    return reranked
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit ?? reranked.length);
+  }
+
+  /**
+   * Fraction of query terms present in a term set
+   */
+  private coverage(queryTerms: string[], terms: Set<string>): number {
+    return queryTerms.filter((t) => terms.has(t)).length / queryTerms.length;
+  }
+
+  /**
+   * Proximity feature
+   *
+   * Size of the smallest token window containing every matched query term,
+   * compared to the number of matched terms (1 = adjacent, -> 0 = spread out).
+   */
+  private proximity(queryTerms: string[], tokens: string[]): number {
+    const wanted = new Set(queryTerms.filter((t) => tokens.includes(t)));
+    if (wanted.size < 2) {
+      return wanted.size === 1 ? 1 / queryTerms.length : 0;
+    }
+
+    const counts = new Map<string, number>();
+    let covered = 0;
+    let best = Infinity;
+    let left = 0;
+
+    for (let right = 0; right < tokens.length; right++) {
+      const token = tokens[right];
+      if (!wanted.has(token)) continue;
+
+      counts.set(token, (counts.get(token) || 0) + 1);
+      if (counts.get(token) === 1) covered++;
+
+      while (covered === wanted.size) {
+        best = Math.min(best, right - left + 1);
+        const leftToken = tokens[left];
+        if (wanted.has(leftToken)) {
+          counts.set(leftToken, counts.get(leftToken)! - 1);
+          if (counts.get(leftToken) === 0) covered--;
+        }
+        left++;
+      }
+    }
+
+    // Scale by how many query terms were matched at all
+    return (wanted.size / best) * (wanted.size / queryTerms.length);
+  }
+
+  private bigrams(tokens: string[]): string[] {
+    const bigrams: string[] = [];
+    for (let i = 0; i < tokens.length - 1; i++) {
+      bigrams.push(`${tokens[i]} ${tokens[i + 1]}`);
+    }
+    return bigrams;
+  }
+
+  /**
+   * Tokenize text (same rules as BM25Retriever)
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+  }
+}
@@ -0,0 +1,295 @@
+// ============================================
+// Material Chunker (Passage Splitting)
+// ============================================
+
+import type { CourseMaterial } from "@/lib/models/types";
+import type { ChunkingOptions, MaterialChunk } from "./types";
+
+/**
+ * Bump when the splitting rules change, so stored chunk vectors are
+ * namespaced away from passages that no longer exist
+ */
+const CHUNKER_VERSION = 1;
+
+/**
+ * Longest line treated as a "Label:" heading
+ */
+const MAX_LABEL_HEADING_LENGTH = 80;
+
+/**
+ * Level for "Label:" headings (nested below any markdown heading)
+ */
+const LABEL_HEADING_LEVEL = 7;
+
+interface Section {
+  start: number;
+  end: number;
+  headingPath: string[];
+}
+
+/**
+ * Material Chunker
+ *
+ * Splits course materials into passages for chunk-level retrieval:
+ *
+ * 1. Sections: content is split at headings - markdown ("## Heading") or
+ *    short "Label:" lines like "Key topics covered:" - and each section
+ *    remembers its heading path
+ * 2. Small sections are merged into the following one
+ * 3. Sections longer than maxChars are split into overlapping windows,
+ *    breaking at paragraph, line, sentence, or word boundaries
+ *
+ * Offsets point into material.content, so a passage can be located (and
+ * highlighted) in the original material.
+ */
+export class MaterialChunker {
+  private options: Required<ChunkingOptions>;
+
+  constructor(options: ChunkingOptions = {}) {
+    const maxChars = options.maxChars ?? 800;
+    this.options = {
+      maxChars,
+      // Overlap must leave room to make progress
+      overlapChars: Math.min(options.overlapChars ?? 150, Math.floor(maxChars / 2) - 1),
+      minChars: options.minChars ?? 200,
+    };
+  }
+
+  /**
+   * Identifies the chunking parameters (used to namespace chunk vectors)
+   */
+  get signature(): string {
+    const { maxChars, overlapChars, minChars } = this.options;
+    return `chunks-v${CHUNKER_VERSION}-${maxChars}-${overlapChars}-${minChars}`;
+  }
+
+  /**
+   * Split one material into passages
+   */
+  chunk(material: CourseMaterial): MaterialChunk[] {
+    const { content } = material;
+    const sections = this.mergeSmallSections(this.splitSections(content));
+
+    const chunks: MaterialChunk[] = [];
+    for (const section of sections) {
+      for (const [startOffset, endOffset] of this.splitWindows(content, section.start, section.end)) {
+        const index = chunks.length;
+        chunks.push({
+          id: `${material.id}#${index}`,
+          materialId: material.id,
+          index,
+          text: content.slice(startOffset, endOffset),
+          headingPath: section.headingPath,
+          startOffset,
+          endOffset,
+        });
+      }
+    }
+
+    return chunks;
+  }
+
+  /**
+   * Split many materials into passages
+   */
+  chunkAll(materials: CourseMaterial[]): MaterialChunk[] {
+    return materials.flatMap((material) => this.chunk(material));
+  }
+
+  /**
+   * Split content at headings, tracking the heading path of each section
+   */
+  private splitSections(content: string): Section[] {
+    const sections: Section[] = [];
+    const stack: Array<{ level: number; title: string }> = [];
+    let current: Section = { start: 0, end: content.length, headingPath: [] };
+    let offset = 0;
+
+    for (const line of content.split("\n")) {
+      const heading = this.parseHeading(line);
+
+      if (heading) {
+        if (offset > current.start) {
+          sections.push({ ...current, end: offset });
+        }
+
+        while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) {
+          stack.pop();
+        }
+        stack.push(heading);
+
+        current = {
+          start: offset,
+          end: content.length,
+          headingPath: stack.map((h) => h.title),
+        };
+      }
+
+      offset += line.length + 1;
+    }
+    sections.push(current);
+
+    return sections
+      .map((section) => this.trim(content, section))
+      .filter((section) => section.end > section.start);
+  }
+
+  /**
+   * Recognize a heading line
+   */
+  private parseHeading(line: string): { level: number; title: string } | null {
+    const trimmed = line.trim();
+
+    const markdown = /^(#{1,6})\s+(.+?)\s*#*$/.exec(trimmed);
+    if (markdown) {
+      return { level: markdown[1].length, title: markdown[2] };
+    }
+
+    const isLabel =
+      trimmed.length > 1 &&
+      trimmed.length <= MAX_LABEL_HEADING_LENGTH &&
+      trimmed.endsWith(":") &&
+      !/^([-*•]|\d+[.)])\s/.test(trimmed); // List items are not headings
+    if (isLabel) {
+      return { level: LABEL_HEADING_LEVEL, title: trimmed.slice(0, -1).trim() };
+    }
+
+    return null;
+  }
+
+  /**
+   * Merge sections shorter than minChars into the following section
+   * (or, for the last one, the preceding section) while they fit in maxChars
+   */
+  private mergeSmallSections(sections: Section[]): Section[] {
+    const { minChars, maxChars } = this.options;
+    const merged: Section[] = [];
+
+    for (const section of sections) {
+      const previous = merged[merged.length - 1];
+      if (
+        previous &&
+        previous.end - previous.start < minChars &&
+        section.end - previous.start <= maxChars
+      ) {
+        previous.end = section.end;
+      } else {
+        merged.push({ ...section });
+      }
+    }
+
+    const last = merged[merged.length - 1];
+    const beforeLast = merged[merged.length - 2];
+    if (
+      last &&
+      beforeLast &&
+      last.end - last.start < minChars &&
+      last.end - beforeLast.start <= maxChars
+    ) {
+      beforeLast.end = last.end;
+      merged.pop();
+    }
+
+    return merged;
+  }
+
+  /**
+   * Split a section into overlapping windows of at most maxChars
+   */
+  private splitWindows(content: string, start: number, end: number): Array<[number, number]> {
+    const { maxChars, overlapChars } = this.options;
+    if (end - start <= maxChars) {
+      return [[start, end]];
+    }
+
+    const windows: Array<[number, number]> = [];
+    let from = start;
+
+    while (from < end) {
+      const to = from + maxChars >= end ? end : this.findBreak(content, from, from + maxChars);
+      const window = this.trim(content, { start: from, end: to, headingPath: [] });
+      if (window.end > window.start) {
+        windows.push([window.start, window.end]);
+      }
+      if (to >= end) break;
+
+      from = this.findWordStart(content, Math.max(to - overlapChars, from + 1), to);
+    }
+
+    return windows;
+  }
+
+  /**
+   * Best place to end a window: the last paragraph, line, sentence, or word
+   * boundary in its second half
+   */
+  private findBreak(content: string, from: number, to: number): number {
+    const earliest = from + Math.floor(this.options.maxChars / 2);
+
+    for (const boundary of ["\n\n", "\n", ". ", " "]) {
+      const index = content.lastIndexOf(boundary, to - boundary.length);
+      if (index >= earliest) {
+        return index + boundary.length;
+      }
+    }
+
+    return to;
+  }
+
+  /**
+   * Move an overlap start forward so windows don't begin mid-word
+   */
+  private findWordStart(content: string, position: number, limit: number): number {
+    let index = position;
+    while (index < limit && index > 0 && !/\s/.test(content[index - 1])) {
+      index++;
+    }
+    return index < limit ? index : position;
+  }
+
+  private trim(content: string, section: Section): Section {
+    let { start, end } = section;
+    while (start < end && /\s/.test(content[start])) start++;
+    while (end > start && /\s/.test(content[end - 1])) end--;
+    return { ...section, start, end };
+  }
+}
+
+/**
+ * Format a heading path for display ("Week 3 > Trees")
+ */
+export function formatHeadingPath(headingPath: string[]): string {
+  return headingPath.join(" > ");
+}
+
+/**
+ * Parse a chunk ID ("<materialId>#<index>")
+ *
+ * @returns null if the ID is a plain material ID
+ */
+export function parseChunkId(id: string): { materialId: string; index: number } | null {
+  const separator = id.lastIndexOf("#");
+  if (separator <= 0) return null;
+
+  const index = Number(id.slice(separator + 1));
+  if (!Number.isInteger(index) || index < 0) return null;
+
+  return { materialId: id.slice(0, separator), index };
+}
+
+/**
+ * Represent a passage as a material, so the material retrievers (BM25,
+ * embeddings, rerankers) can index passages unchanged
+ *
+ * The section path is appended to the title, which makes headings count
+ * toward title matches and embeddings.
+ */
+export function toChunkDocument(material: CourseMaterial, chunk: MaterialChunk): CourseMaterial {
+  const section = formatHeadingPath(chunk.headingPath);
+  return {
+    ...material,
+    id: chunk.id,
+    title: section ? `${material.title} > ${section}` : material.title,
+    content: chunk.text,
+  };
+}
@@ -0,0 +1,55 @@
+// ============================================
+// Material Search (BM25F + Highlighting)
+// ============================================
+
+import { rankMaterials } from "@quokka/search";
+import type {
+  CourseMaterial,
+  CourseMaterialSearchResult,
+  CourseMaterialType,
+} from "@/lib/models/types";
+import type { BM25Field } from "./types";
+
+export { bestFragment, highlightMaterial, highlightText } from "@quokka/search";
+export type { HighlightOptions } from "@quokka/search";
+
+export interface MaterialSearchOptions {
+  types?: CourseMaterialType[];              // Material type filter
+  limit?: number;                            // Maximum results (default: 20)
+  minRelevance?: number;                     // Minimum relevance 0-100 (default: 20)
+  fieldWeights?: Record<BM25Field, number>;  // BM25F field weights (default: title 3, keywords 2, content 1)
+}
+
+/**
+ * Search course materials
+ *
+ * Ranks materials with BM25F (title, keywords and content weighted
+ * separately) and highlights every matched term. This is the backend's
+ * material search (@quokka/search), so the localStorage fallback ranks like
+ * the backend; kb_search uses the same BM25F index inside hybrid retrieval.
+ *
+ * Relevance is the BM25F score as a share of the highest score the query
+ * can reach (every term's frequency saturated).
+ *
+ * @param materials - Materials to search (typically one course)
+ * @param query - Search query (already rewritten, if rewriting is wanted)
+ * @returns Results sorted by relevance
+ *
+ * @example
+ * ```typescript
+ * const [top] = await searchMaterials(materials, "binary search", { limit: 5 });
+ * top.highlights; // [{ field: "title", text: "Binary Search", ranges: [[0, 6], [7, 13]] }, ...]
+ * ```
+ */
+export async function searchMaterials(
+  materials: CourseMaterial[],
+  query: string,
+  options: MaterialSearchOptions = {}
+): Promise<CourseMaterialSearchResult[]> {
+  const { types, ...rankOptions } = options;
+
+  const candidates =
+    types && types.length > 0 ? materials.filter((m) => types.includes(m.type)) : materials;
+
+  return rankMaterials(candidates, query, rankOptions);
+}
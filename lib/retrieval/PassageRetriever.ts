@@ -0,0 +1,91 @@
+// ============================================
+// Passage (Chunk-Level) Retriever
+// ============================================
+
+import type { CourseMaterial } from "@/lib/models/types";
+import type { IRetriever, MaterialChunk, RetrievalMetrics, RetrievalResult } from "./types";
+
+export interface PassageRetrieverOptions {
+  maxPassagesPerMaterial?: number; // Passages returned per material (default: 2)
+  overfetch?: number;              // Inner results fetched per requested result (default: 3)
+}
+
+/**
+ * Passage Retriever
+ *
+ * Wraps a retriever built over passage documents (see toChunkDocument) and
+ * maps each hit back to its source material, with the matching passage
+ * attached as result.chunk.
+ *
+ * Over-fetches from the inner retriever and caps passages per material, so
+ * one long material can't fill every slot.
+ */
+export class PassageRetriever implements IRetriever {
+  private inner: IRetriever;
+  private materials: Map<string, CourseMaterial>;
+  private chunks: Map<string, MaterialChunk>;
+  private options: Required<PassageRetrieverOptions>;
+
+  /**
+   * @param inner - Retriever indexing passage documents (IDs are chunk IDs)
+   * @param materials - Source materials
+   * @param chunks - Passages of the source materials
+   */
+  constructor(
+    inner: IRetriever,
+    materials: CourseMaterial[],
+    chunks: MaterialChunk[],
+    options: PassageRetrieverOptions = {}
+  ) {
+    this.inner = inner;
+    this.materials = new Map(materials.map((m) => [m.id, m]));
+    this.chunks = new Map(chunks.map((c) => [c.id, c]));
+    this.options = {
+      maxPassagesPerMaterial: options.maxPassagesPerMaterial ?? 2,
+      overfetch: options.overfetch ?? 3,
+    };
+  }
+
+  /**
+   * Retrieve the best-matching passages
+   *
+   * Results carry the source material (not the passage document) and the
+   * passage in result.chunk, in passage score order.
+   */
+  async retrieve(query: string, limit: number = 10): Promise<RetrievalResult[]> {
+    const hits = await this.inner.retrieve(query, limit * this.options.overfetch);
+
+    const perMaterial = new Map<string, number>();
+    const results: RetrievalResult[] = [];
+
+    for (const hit of hits) {
+      const chunk = this.chunks.get(hit.material.id);
+      const material = chunk && this.materials.get(chunk.materialId);
+      if (!chunk || !material) continue;
+
+      const count = perMaterial.get(material.id) ?? 0;
+      if (count >= this.options.maxPassagesPerMaterial) continue;
+      perMaterial.set(material.id, count + 1);
+
+      results.push({ ...hit, material, chunk });
+      if (results.length >= limit) break;
+    }
+
+    return results;
+  }
+
+  /**
+   * Get a passage by ID
+   */
+  getChunk(chunkId: string): MaterialChunk | undefined {
+    return this.chunks.get(chunkId);
+  }
+
+  /**
+   * Metrics of the last query (if the inner retriever records them)
+   */
+  getLastMetrics(): RetrievalMetrics | null {
+    const inner = this.inner as IRetriever & { getLastMetrics?: () => RetrievalMetrics | null };
+    return inner.getLastMetrics?.() ?? null;
+  }
+}
@@ -0,0 +1,143 @@
+// ============================================
+// Postgres Vector Store (via backend API)
+// ============================================
+
+import { httpDelete, httpGet, httpPost, httpRequest } from "@/lib/api/client/http.client";
+import { parseChunkId } from "./MaterialChunker";
+import type { IVectorStore, Embedding, VectorSearchResult } from "./types";
+
+/**
+ * Fail fast so retrieval can fall back to the in-memory store
+ */
+const HTTP_CONFIG = { maxRetries: 0, timeout: 10000 };
+
+/**
+ * Postgres Vector Store
+ *
+ * Persistent, server-side vector store for one course and one embedding
+ * model, backed by the material_embeddings table. IDs are material IDs or
+ * passage IDs ("<materialId>#<index>").
+ *
+ * - Vectors survive across serverless invocations, so materials are only
+ *   embedded once (and again when their content changes)
+ * - Search runs on the backend; vectors are not transferred per query
+ * - has() answers from a status snapshot loaded by sync()
+ */
+export class PostgresVectorStore implements IVectorStore {
+  private courseId: string;
+  private model: string;
+  private embedded: Set<string> | null = null;
+
+  /**
+   * @param options.courseId - Course whose materials are stored
+   * @param options.model - Embedding provider ID (vectors are namespaced by model)
+   */
+  constructor(options: { courseId: string; model: string }) {
+    this.courseId = options.courseId;
+    this.model = options.model;
+  }
+
+  private get basePath(): string {
+    return `/api/v1/courses/${encodeURIComponent(this.courseId)}/materials/embeddings`;
+  }
+
+  private get modelQuery(): string {
+    return `model=${encodeURIComponent(this.model)}`;
+  }
+
+  /**
+   * Load which materials have up-to-date vectors
+   *
+   * Throws if the backend is unreachable.
+   *
+   * @returns IDs of materials with no up-to-date vector
+   */
+  async sync(): Promise<string[]> {
+    const status = await httpGet<{ embedded: string[]; missing: string[] }>(
+      `${this.basePath}?${this.modelQuery}`,
+      HTTP_CONFIG
+    );
+
+    this.embedded = new Set(status.embedded);
+    return status.missing;
+  }
+
+  /**
+   * Add embedding to store
+   *
+   * Metadata is not stored; the backend joins vectors to course_materials.
+   */
+  async add(id: string, embedding: Embedding): Promise<void> {
+    const chunk = parseChunkId(id);
+    const item = chunk
+      ? { materialId: chunk.materialId, chunkIndex: chunk.index, vector: embedding.vector }
+      : { materialId: id, vector: embedding.vector };
+
+    await httpRequest<{ updated: number }>(
+      this.basePath,
+      {
+        method: "PUT",
+        body: JSON.stringify({ model: this.model, items: [item] }),
+      },
+      HTTP_CONFIG
+    );
+
+    this.embedded?.add(id);
+  }
+
+  /**
+   * Search for similar embeddings (cosine similarity, computed by backend)
+   */
+  async search(queryEmbedding: Embedding, limit: number): Promise<VectorSearchResult[]> {
+    const response = await httpPost<{ results: Array<{ id: string; score: number }> }>(
+      `${this.basePath}/search`,
+      { model: this.model, vector: queryEmbedding.vector, limit },
+      HTTP_CONFIG
+    );
+
+    return response.results.map((result) => ({
+      id: result.id,
+      score: result.score,
+    }));
+  }
+
+  /**
+   * Get embedding by ID
+   */
+  async get(id: string): Promise<{ embedding: Embedding; metadata?: Record<string, unknown> } | null> {
+    try {
+      const result = await httpGet<{ vector: number[]; dimensions: number }>(
+        `${this.basePath}/${encodeURIComponent(id)}?${this.modelQuery}`,
+        HTTP_CONFIG
+      );
+      return { embedding: { vector: result.vector, dimensions: result.dimensions } };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Check if an up-to-date embedding exists
+   */
+  async has(id: string): Promise<boolean> {
+    if (!this.embedded) {
+      await this.sync();
+    }
+    return this.embedded!.has(id);
+  }
+
+  /**
+   * Clear all embeddings for this course and model
+   */
+  async clear(): Promise<void> {
+    await httpDelete<void>(`${this.basePath}?${this.modelQuery}`, HTTP_CONFIG);
+    this.embedded = new Set();
+  }
+
+  /**
+   * Get number of up-to-date vectors (as of last sync)
+   */
+  size(): number {
+    return this.embedded?.size ?? 0;
+  }
+}
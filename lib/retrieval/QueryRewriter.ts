@@ -0,0 +1,24 @@
+// ============================================
+// Query Rewriting (Spelling, Aliases, PRF)
+// ============================================
+//
+// The rewriter is the backend's (@quokka/search), so kb_search, the
+// localStorage fallback and the materials search endpoint rewrite a query
+// the same way.
+
+import type { SearchAlias } from "@/lib/models/types";
+
+// Mock data for server-side access (same source as kb_search)
+import searchAliasesData from "@/mocks/search-aliases.json";
+
+export { QueryRewriter } from "@quokka/search";
+export type { QueryRewriterOptions } from "@quokka/search";
+
+/**
+ * Alias table of a course (all courses if courseId is omitted)
+ */
+export function loadSearchAliases(courseId?: string): SearchAlias[] {
+  return searchAliasesData
+    .filter((entry) => !courseId || entry.courseId === courseId)
+    .map(({ term, aliases }) => ({ term, aliases }));
+}
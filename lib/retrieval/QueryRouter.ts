@@ -0,0 +1,293 @@
+// ============================================
+// Self-RAG Query Router (Adaptive Retrieval)
+// ============================================
+
+import type { AIAnswer, AIAnswerRouting, CourseMaterial, EndorsedAIAnswer, Thread } from "@/lib/models/types";
+import { api } from "@/lib/api/client";
+import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
+import { calculateSimilarity } from "@/lib/utils/similarity";
+import { BM25Retriever } from "./BM25Retriever";
+import type { EndorsedAnswer, HybridRetrievalConfig, RoutingDecision } from "./types";
+
+// Mock data for server-side access when the backend is off (same source as kb_search)
+import aiAnswersData from "@/mocks/ai-answers.json";
+import threadsData from "@/mocks/threads.json";
+
+export interface QueryRouterOptions {
+  cacheThreshold?: number;   // Question similarity needed to reuse an endorsed answer (default: 0.8)
+  highConfidence?: number;   // Query confidence for standard retrieval (default: 70)
+  lowConfidence?: number;    // Below this, retrieve aggressively (default: 40)
+}
+
+/**
+ * Weights of the query confidence signals (sum to 1)
+ */
+const SIGNAL_WEIGHTS = {
+  topMatchCoverage: 0.35,    // Query terms matched by the best BM25 hit
+  vocabularyCoverage: 0.25,  // Query terms that occur anywhere in the course
+  specificity: 0.2,          // Enough content terms to be unambiguous
+  margin: 0.2,               // Best hit clearly ahead of the runner-up
+};
+
+const STOP_WORDS = new Set([
+  "the", "a", "an", "and", "or", "but", "in", "on", "at", "to", "for",
+  "of", "with", "by", "from", "as", "is", "was", "are", "were", "be",
+  "been", "being", "have", "has", "had", "do", "does", "did", "will",
+  "would", "should", "could", "may", "might", "can", "this", "that",
+  "these", "those", "what", "which", "who", "when", "where", "why", "how",
+]);
+
+/**
+ * Query Router (Self-RAG)
+ *
+ * Decides how much retrieval a question needs before any is done:
+ *
+ * - use-cache: a near-identical question already has an endorsed answer
+ * - retrieve-standard: confident query (high term coverage, clear best match)
+ * - retrieve-expanded: medium confidence - more passages, more diverse
+ * - retrieve-aggressive: low confidence - widest net, LLM reranking
+ *
+ * Query confidence (0-100) comes from a cheap BM25 probe over the course
+ * materials. The decision and its reasoning are returned in the same shape
+ * as AIAnswer.routing, so instructors can audit why an answer was built
+ * the way it was.
+ */
+export class QueryRouter {
+  private bm25: BM25Retriever;
+  private vocabulary: Set<string>;
+  private corpus: string[];
+  private endorsedAnswers: EndorsedAnswer[];
+  private options: Required<QueryRouterOptions>;
+
+  /**
+   * @param materials - Course materials the question will be answered from
+   * @param endorsedAnswers - Answers that may be reused (see loadEndorsedAnswers)
+   */
+  constructor(
+    materials: CourseMaterial[],
+    endorsedAnswers: EndorsedAnswer[] = [],
+    options: QueryRouterOptions = {}
+  ) {
+    this.bm25 = new BM25Retriever(materials);
+    this.vocabulary = new Set(
+      materials.flatMap((m) => this.tokenize(`${m.title} ${m.content} ${m.keywords.join(" ")}`))
+    );
+    this.endorsedAnswers = endorsedAnswers;
+    // IDF background: a corpus of only the endorsed questions would zero out
+    // every term they share with an identical question
+    this.corpus = [
+      ...endorsedAnswers.map((entry) => entry.question),
+      ...materials.map((m) => `${m.title} ${m.content}`),
+    ];
+    this.options = {
+      cacheThreshold: options.cacheThreshold ?? 0.8,
+      highConfidence: options.highConfidence ?? 70,
+      lowConfidence: options.lowConfidence ?? 40,
+    };
+  }
+
+  /**
+   * Route a question
+   *
+   * @param question - Student question
+   * @param baseLimit - Passages to retrieve for a confident query (default: 5)
+   */
+  async route(question: string, baseLimit: number = 5): Promise<RoutingDecision> {
+    const { score, signals } = await this.scoreQuery(question);
+    const confidenceLevel =
+      score >= this.options.highConfidence ? "high" : score >= this.options.lowConfidence ? "medium" : "low";
+    const signalSummary = `term coverage ${percent(signals.topMatchCoverage)}, course vocabulary ${percent(signals.vocabularyCoverage)}, specificity ${percent(signals.specificity)}, top-match margin ${percent(signals.margin)}`;
+
+    // 1. Reuse an endorsed answer to the same question
+    const cached = this.findCachedAnswer(question);
+    if (cached) {
+      const { answer, similarity } = cached;
+      const endorsement = answer.instructorEndorsed
+        ? "instructor-endorsed"
+        : `${answer.totalEndorsements} endorsements`;
+
+      return {
+        action: "use-cache",
+        queryConfidence: score,
+        confidenceLevel,
+        fromCache: true,
+        strategy: "Reuse endorsed answer",
+        reasoning: `Question is ${percent(similarity)} similar to ${answer.threadId}, whose answer is ${endorsement}; reusing it instead of retrieving.`,
+        cacheHit: { aiAnswerId: answer.id, threadId: answer.threadId, similarity },
+        retrieval: null,
+        cachedAnswer: answer,
+      };
+    }
+
+    // 2. Scale retrieval effort with query confidence
+    if (confidenceLevel === "high") {
+      const config: HybridRetrievalConfig = { useRRF: true, rrfK: 60, useReranker: true, useMMR: true, mmrLambda: 0.7 };
+      return {
+        action: "retrieve-standard",
+        queryConfidence: score,
+        confidenceLevel,
+        fromCache: false,
+        strategy: `Hybrid passage retrieval, top ${baseLimit}, lexical rerank, MMR λ=0.7`,
+        reasoning: `Query confidence ${score}/100 (${signalSummary}); the course materials match the question directly.`,
+        retrieval: { limit: baseLimit, config, maxPassagesPerMaterial: 2 },
+      };
+    }
+
+    if (confidenceLevel === "medium") {
+      const limit = Math.ceil(baseLimit * 1.6);
+      const config: HybridRetrievalConfig = {
+        useRRF: true,
+        rrfK: 60,
+        useReranker: true,
+        rerankTopK: limit * 4,
+        useMMR: true,
+        mmrLambda: 0.6,
+      };
+      return {
+        action: "retrieve-expanded",
+        queryConfidence: score,
+        confidenceLevel,
+        fromCache: false,
+        strategy: `Hybrid passage retrieval, top ${limit}, lexical rerank over ${limit * 4} candidates, MMR λ=0.6`,
+        reasoning: `Query confidence ${score}/100 (${signalSummary}); widening retrieval to cover partial matches.`,
+        retrieval: { limit, config, maxPassagesPerMaterial: 3 },
+      };
+    }
+
+    const limit = baseLimit * 2;
+    const config: HybridRetrievalConfig = {
+      useRRF: true,
+      rrfK: 60,
+      useReranker: true,
+      rerankerType: "llm",
+      rerankTopK: limit * 4,
+      useMMR: true,
+      mmrLambda: 0.5,
+    };
+    return {
+      action: "retrieve-aggressive",
+      queryConfidence: score,
+      confidenceLevel,
+      fromCache: false,
+      strategy: `Hybrid passage retrieval, top ${limit}, LLM rerank over ${limit * 4} candidates, MMR λ=0.5`,
+      reasoning: `Query confidence ${score}/100 (${signalSummary}); few course terms match, so casting the widest net and letting the model judge relevance.`,
+      retrieval: { limit, config, maxPassagesPerMaterial: 3 },
+    };
+  }
+
+  /**
+   * Best endorsed answer to a near-identical question
+   */
+  private findCachedAnswer(question: string): { answer: AIAnswer; similarity: number } | null {
+    if (this.endorsedAnswers.length === 0) return null;
+
+    const corpus = [question, ...this.corpus];
+    const best = this.endorsedAnswers
+      .map((entry) => ({ entry, similarity: calculateSimilarity(question, entry.question, corpus) }))
+      .reduce((a, b) => (b.similarity > a.similarity ? b : a));
+    if (best.similarity < this.options.cacheThreshold) return null;
+
+    return {
+      answer: best.entry.answer,
+      similarity: Math.round(best.similarity * 100) / 100,
+    };
+  }
+
+  /**
+   * Query confidence from a BM25 probe (0-100, plus the individual signals)
+   */
+  private async scoreQuery(question: string): Promise<{
+    score: number;
+    signals: Record<keyof typeof SIGNAL_WEIGHTS, number>;
+  }> {
+    const terms = Array.from(new Set(this.tokenize(question)));
+    if (terms.length === 0) {
+      return {
+        score: 0,
+        signals: { topMatchCoverage: 0, vocabularyCoverage: 0, specificity: 0, margin: 0 },
+      };
+    }
+
+    const [top, second] = await this.bm25.retrieve(question, 2);
+
+    const signals = {
+      topMatchCoverage: top ? Math.min(1, (top.matchedTerms?.length ?? 0) / terms.length) : 0,
+      vocabularyCoverage: terms.filter((t) => this.vocabulary.has(t)).length / terms.length,
+      specificity: Math.min(1, terms.length / 4),
+      margin: top ? (second ? (top.score - second.score) / top.score : 1) : 0,
+    };
+
+    const score = (Object.keys(SIGNAL_WEIGHTS) as Array<keyof typeof SIGNAL_WEIGHTS>).reduce(
+      (sum, signal) => sum + signals[signal] * SIGNAL_WEIGHTS[signal],
+      0
+    );
+
+    return { score: Math.round(score * 100), signals };
+  }
+
+  /**
+   * Tokenize text (same rules as BM25Retriever)
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/[^\w\s]/g, " ")
+      .split(/\s+/)
+      .filter((token) => token.length > 1 && !STOP_WORDS.has(token));
+  }
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * The audit part of a routing decision (what AIAnswer.routing stores)
+ */
+export function toAnswerRouting(decision: RoutingDecision): AIAnswerRouting {
+  return {
+    action: decision.action,
+    queryConfidence: decision.queryConfidence,
+    confidenceLevel: decision.confidenceLevel,
+    fromCache: decision.fromCache,
+    strategy: decision.strategy,
+    reasoning: decision.reasoning,
+    ...(decision.cacheHit && { cacheHit: decision.cacheHit }),
+  };
+}
+
+/**
+ * Endorsed AI answers of a course, keyed by the question they answer
+ *
+ * An answer qualifies if an instructor endorsed it or it has at least
+ * minEndorsements endorsements. Answers on deleted or merged threads are
+ * left out. Loaded from the backend in one call when enabled (mock data
+ * otherwise).
+ */
+export async function loadEndorsedAnswers(
+  courseId: string,
+  minEndorsements: number = 2
+): Promise<EndorsedAnswer[]> {
+  const endorsed = BACKEND_FEATURE_FLAGS.aiAnswers
+    ? await api.getEndorsedAIAnswers(courseId, minEndorsements)
+    : loadMockEndorsedAnswers(courseId, minEndorsements);
+
+  return endorsed.map(({ thread, aiAnswer }) => ({
+    question: `${thread.title}\n\n${thread.content}`,
+    answer: aiAnswer,
+  }));
+}
+
+function loadMockEndorsedAnswers(courseId: string, minEndorsements: number): EndorsedAIAnswer[] {
+  const answers = aiAnswersData as unknown as AIAnswer[];
+
+  return (threadsData as Thread[]).flatMap((thread) => {
+    if (thread.courseId !== courseId || thread.deletedAt || thread.mergedInto || thread.duplicatesOf) {
+      return [];
+    }
+    const aiAnswer = thread.hasAIAnswer ? answers.find((a) => a.threadId === thread.id) : undefined;
+    return aiAnswer && (aiAnswer.instructorEndorsed || aiAnswer.totalEndorsements >= minEndorsements)
+      ? [{ thread, aiAnswer }]
+      : [];
+  });
+}
@@ -0,0 +1,270 @@
+// ============================================
+// Offline Retrieval Evaluation (IR Metrics)
+// ============================================
+
+import type { CourseMaterial } from "@/lib/models/types";
+import type { EvalMetrics, EvalQuery, EvalQueryResult, EvalReport, IRetriever } from "./types";
+
+/**
+ * Retrieval configuration under evaluation
+ */
+export interface EvalConfiguration {
+  name: string;
+  description?: string;
+  create: (materials: CourseMaterial[]) => Promise<IRetriever> | IRetriever; // Built once per course
+}
+
+const DEFAULT_CUTOFFS = [1, 3, 5, 10];
+
+/**
+ * Fraction of relevant materials found in the top k
+ */
+export function recallAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const relevantIds = Object.keys(relevant).filter((id) => relevant[id] > 0);
+  if (relevantIds.length === 0) return 0;
+
+  const topK = new Set(ranked.slice(0, k));
+  return relevantIds.filter((id) => topK.has(id)).length / relevantIds.length;
+}
+
+/**
+ * 1 / rank of the first relevant material (0 if none retrieved)
+ */
+export function reciprocalRank(ranked: string[], relevant: Record<string, number>): number {
+  const index = ranked.findIndex((id) => (relevant[id] ?? 0) > 0);
+  return index === -1 ? 0 : 1 / (index + 1);
+}
+
+/**
+ * Normalized discounted cumulative gain at k (graded relevance)
+ *
+ * gain = 2^grade - 1, discounted by log2(rank + 1)
+ */
+export function ndcgAtK(ranked: string[], relevant: Record<string, number>, k: number): number {
+  const dcg = (grades: number[]) =>
+    grades
+      .slice(0, k)
+      .reduce((sum, grade, i) => sum + (Math.pow(2, grade) - 1) / Math.log2(i + 2), 0);
+
+  const ideal = dcg(Object.values(relevant).sort((a, b) => b - a));
+  if (ideal === 0) return 0;
+
+  return dcg(ranked.map((id) => relevant[id] ?? 0)) / ideal;
+}
+
+/**
+ * Score one ranking against relevance judgments
+ */
+export function scoreRanking(
+  ranked: string[],
+  relevant: Record<string, number>,
+  cutoffs: number[] = DEFAULT_CUTOFFS
+): EvalMetrics {
+  const metrics: EvalMetrics = { recall: {}, ndcg: {}, mrr: reciprocalRank(ranked, relevant) };
+  for (const k of cutoffs) {
+    metrics.recall[k] = recallAtK(ranked, relevant, k);
+    metrics.ndcg[k] = ndcgAtK(ranked, relevant, k);
+  }
+  return metrics;
+}
+
+/**
+ * Mean of per-query metrics
+ */
+export function averageMetrics(all: EvalMetrics[], cutoffs: number[] = DEFAULT_CUTOFFS): EvalMetrics {
+  const mean = (values: number[]) =>
+    values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length;
+
+  const metrics: EvalMetrics = { recall: {}, ndcg: {}, mrr: mean(all.map((m) => m.mrr)) };
+  for (const k of cutoffs) {
+    metrics.recall[k] = mean(all.map((m) => m.recall[k] ?? 0));
+    metrics.ndcg[k] = mean(all.map((m) => m.ndcg[k] ?? 0));
+  }
+  return metrics;
+}
+
+/**
+ * Retrieval Evaluator
+ *
+ * Runs labeled queries through several retrieval configurations and
+ * reports recall@k, MRR and nDCG@k per course and overall, so changes to
+ * retrieval parameters (rrfK, mmrLambda, BM25 k1/b, ...) can be compared
+ * on numbers instead of by feel.
+ *
+ * Each configuration builds one retriever per course, over that course's
+ * materials only (as kb_search does). Retrievers may return several
+ * results per material (e.g. passages); rankings are deduplicated to
+ * material IDs before scoring.
+ */
+export class RetrievalEvaluator {
+  private cutoffs: number[];
+
+  /**
+   * @param options.cutoffs - k values for recall@k and nDCG@k (default: 1, 3, 5, 10)
+   */
+  constructor(options: { cutoffs?: number[] } = {}) {
+    this.cutoffs = [...(options.cutoffs ?? DEFAULT_CUTOFFS)].sort((a, b) => a - b);
+  }
+
+  /**
+   * Evaluate configurations on labeled queries
+   *
+   * Throws if a query references a material that doesn't exist, so stale
+   * gold sets fail loudly instead of silently lowering scores.
+   */
+  async evaluate(
+    materials: CourseMaterial[],
+    queries: EvalQuery[],
+    configurations: EvalConfiguration[]
+  ): Promise<EvalReport> {
+    this.validate(materials, queries);
+
+    const maxK = this.cutoffs[this.cutoffs.length - 1];
+    const courseIds = Array.from(new Set(queries.map((q) => q.courseId))).sort();
+    const allResults = new Map<string, EvalQueryResult[]>(configurations.map((c) => [c.name, []]));
+    const courses: EvalReport["courses"] = [];
+
+    for (const courseId of courseIds) {
+      const courseMaterials = materials.filter((m) => m.courseId === courseId);
+      const courseQueries = queries.filter((q) => q.courseId === courseId);
+
+      const course: EvalReport["courses"][number] = {
+        courseId,
+        queryCount: courseQueries.length,
+        metrics: {},
+        queries: {},
+      };
+
+      for (const configuration of configurations) {
+        const retriever = await configuration.create(courseMaterials);
+        const results: EvalQueryResult[] = [];
+
+        for (const query of courseQueries) {
+          const retrieved = await retriever.retrieve(query.query, maxK);
+          const ranked = Array.from(new Set(retrieved.map((r) => r.material.id)));
+          results.push({
+            queryId: query.id,
+            ranked,
+            metrics: scoreRanking(ranked, query.relevant, this.cutoffs),
+          });
+        }
+
+        course.queries[configuration.name] = results;
+        course.metrics[configuration.name] = averageMetrics(
+          results.map((r) => r.metrics),
+          this.cutoffs
+        );
+        allResults.get(configuration.name)!.push(...results);
+      }
+
+      courses.push(course);
+    }
+
+    const overall: EvalReport["overall"] = { queryCount: queries.length, metrics: {} };
+    for (const [name, results] of allResults) {
+      overall.metrics[name] = averageMetrics(results.map((r) => r.metrics), this.cutoffs);
+    }
+
+    return {
+      generatedAt: new Date().toISOString(),
+      cutoffs: this.cutoffs,
+      configurations: configurations.map((c) => c.name),
+      courses,
+      overall,
+    };
+  }
+
+  private validate(materials: CourseMaterial[], queries: EvalQuery[]): void {
+    const materialCourses = new Map(materials.map((m) => [m.id, m.courseId]));
+    const problems: string[] = [];
+
+    for (const query of queries) {
+      for (const materialId of Object.keys(query.relevant)) {
+        const courseId = materialCourses.get(materialId);
+        if (!courseId) {
+          problems.push(`${query.id}: unknown material ${materialId}`);
+        } else if (courseId !== query.courseId) {
+          problems.push(`${query.id}: ${materialId} is not in ${query.courseId}`);
+        }
+      }
+    }
+
+    if (problems.length > 0) {
+      throw new Error(`Invalid relevance judgments:\n${problems.join("\n")}`);
+    }
+  }
+}
+
+/**
+ * Render an evaluation report as markdown (for PR descriptions and review)
+ *
+ * Best value per column is bolded. Per-query reciprocal ranks show which
+ * questions a change helped or hurt.
+ */
+export function formatEvalReportMarkdown(report: EvalReport, queries: EvalQuery[] = []): string {
+  const queryText = new Map(queries.map((q) => [q.id, q.query]));
+  const format = (value: number) => value.toFixed(3);
+
+  const metricsTable = (metrics: Record<string, EvalMetrics>): string[] => {
+    const columns: Array<{ label: string; value: (m: EvalMetrics) => number }> = [
+      ...report.cutoffs.map((k) => ({ label: `R@${k}`, value: (m: EvalMetrics) => m.recall[k] })),
+      { label: "MRR", value: (m: EvalMetrics) => m.mrr },
+      ...report.cutoffs
+        .filter((k) => k > 1)
+        .map((k) => ({ label: `nDCG@${k}`, value: (m: EvalMetrics) => m.ndcg[k] })),
+    ];
+    const best = columns.map((column) =>
+      Math.max(...report.configurations.map((name) => column.value(metrics[name])))
+    );
+
+    return [
+      `| Configuration | ${columns.map((c) => c.label).join(" | ")} |`,
+      `|---|${columns.map(() => "---:").join("|")}|`,
+      ...report.configurations.map((name) => {
+        const cells = columns.map((column, i) => {
+          const value = column.value(metrics[name]);
+          return value === best[i] && value > 0 ? `**${format(value)}**` : format(value);
+        });
+        return `| ${name} | ${cells.join(" | ")} |`;
+      }),
+    ];
+  };
+
+  const lines = [
+    "# Retrieval Evaluation",
+    "",
+    `Generated ${report.generatedAt} · ${report.overall.queryCount} queries across ${report.courses.length} courses`,
+    "",
+    ...Object.entries(report.metadata ?? {}).map(
+      ([key, value]) => `- **${key}:** \`${typeof value === "string" ? value : JSON.stringify(value)}\``
+    ),
+    ...(report.metadata ? [""] : []),
+    `## Overall (${report.overall.queryCount} queries)`,
+    "",
+    ...metricsTable(report.overall.metrics),
+  ];
+
+  for (const course of report.courses) {
+    lines.push("", `## ${course.courseId} (${course.queryCount} queries)`, "", ...metricsTable(course.metrics));
+
+    lines.push(
+      "",
+      "<details><summary>Reciprocal rank per query</summary>",
+      "",
+      `| Query | ${report.configurations.join(" | ")} |`,
+      `|---|${report.configurations.map(() => "---:").join("|")}|`
+    );
+    const queryIds = course.queries[report.configurations[0]]?.map((r) => r.queryId) ?? [];
+    for (const queryId of queryIds) {
+      const cells = report.configurations.map((name) => {
+        const result = course.queries[name].find((r) => r.queryId === queryId);
+        return result ? format(result.metrics.mrr) : "-";
+      });
+      const label = (queryText.get(queryId) ?? queryId).replace(/\|/g, "\\|");
+      lines.push(`| ${label} | ${cells.join(" | ")} |`);
+    }
+    lines.push("", "</details>");
+  }
+
+  return lines.join("\n") + "\n";
+}
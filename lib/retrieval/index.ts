@@ -9,7 +9,9 @@ export type {
   IVectorStore,
   Embedding,
   VectorSearchResult,
+  BM25Field,
   BM25Params,
+  FieldStats,
   DocumentStats,
   CorpusStats,
   RRFParams,
@@ -18,43 +20,143 @@ export type {
   IReranker,
   HybridRetrievalConfig,
   RetrievalMetrics,
+  MaterialChunk,
+  ChunkingOptions,
+  EvalQuery,
+  EvalMetrics,
+  EvalQueryResult,
+  EvalReport,
+  EndorsedAnswer,
+  RetrievalPlan,
+  RoutingDecision,
 } from "./types";
 
 // Retrievers
-export { BM25Retriever } from "./BM25Retriever";
+export { BM25Retriever, DEFAULT_FIELD_WEIGHTS } from "./BM25Retriever";
 export {
   EmbeddingRetriever,
   createSimpleEmbedding,
   simpleEmbedFn,
+  getMaterialEmbeddingText,
+  readPrecomputedEmbeddings,
   loadPrecomputedEmbeddings,
 } from "./EmbeddingRetriever";
 export type { EmbeddingFunction } from "./EmbeddingRetriever";
+export {
+  DEFAULT_EMBEDDING_MODELS,
+  PRECOMPUTED_EMBEDDINGS_DIR,
+  registerEmbeddingProvider,
+  createEmbeddingProvider,
+  getEmbeddingProvider,
+  resetEmbeddingProvider,
+  getPrecomputedEmbeddingsPath,
+} from "./EmbeddingProviders";
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderOptions,
+  EmbeddingProviderFactory,
+} from "./EmbeddingProviders";
 export { HybridRetriever } from "./HybridRetriever";
+export { PassageRetriever } from "./PassageRetriever";
+export type { PassageRetrieverOptions } from "./PassageRetriever";
+
+// Chunking
+export {
+  MaterialChunker,
+  formatHeadingPath,
+  parseChunkId,
+  toChunkDocument,
+} from "./MaterialChunker";
+
+// Rerankers
+export { LexicalReranker } from "./LexicalReranker";
+export type { LexicalRerankerWeights } from "./LexicalReranker";
+export { LLMReranker } from "./LLMReranker";
+export type { LLMRerankerOptions } from "./LLMReranker";
 
 // Utilities
 export { InMemoryVectorStore } from "./VectorStore";
+export { PostgresVectorStore } from "./PostgresVectorStore";
 export { MMRDiversifier } from "./MMRDiversifier";
 
+// Material search
+export { searchMaterials, highlightMaterial, highlightText, bestFragment } from "./MaterialSearch";
+export type { MaterialSearchOptions, HighlightOptions } from "./MaterialSearch";
+
+// Routing
+export { QueryRouter, toAnswerRouting, loadEndorsedAnswers } from "./QueryRouter";
+export type { QueryRouterOptions } from "./QueryRouter";
+
+// Answer caching
+export { AnswerCache, getAnswerCache, normalizeQuestion, hashMaterialVersions } from "./AnswerCache";
+export type { AnswerCacheOptions, AnswerCacheHit } from "./AnswerCache";
+
+// Answer verification
+export { AnswerVerifier, extractClaims } from "./AnswerVerifier";
+export type {
+  AnswerVerifierOptions,
+  AnswerVerificationResult,
+  VerificationSource,
+  ExtractedClaim,
+} from "./AnswerVerifier";
+
+// Query rewriting
+export { QueryRewriter, loadSearchAliases } from "./QueryRewriter";
+export type { QueryRewriterOptions } from "./QueryRewriter";
+
+// Evaluation
+export {
+  RetrievalEvaluator,
+  recallAtK,
+  reciprocalRank,
+  ndcgAtK,
+  scoreRanking,
+  averageMetrics,
+  formatEvalReportMarkdown,
+} from "./RetrievalEvaluator";
+export type { EvalConfiguration } from "./RetrievalEvaluator";
+export { getGoldQueries, buildTitleQueries } from "./GoldQueries";
+
 // Factory function for easy setup
 import type { CourseMaterial } from "@/lib/models/types";
-import type { HybridRetrievalConfig } from "./types";
+import type { BM25Params, HybridRetrievalConfig, IVectorStore, IReranker, ChunkingOptions, MaterialChunk } from "./types";
 import { BM25Retriever } from "./BM25Retriever";
-import { EmbeddingRetriever, simpleEmbedFn } from "./EmbeddingRetriever";
+import {
+  EmbeddingRetriever,
+  readPrecomputedEmbeddings,
+  loadPrecomputedEmbeddings,
+} from "./EmbeddingRetriever";
+import type { EmbeddingFunction } from "./EmbeddingRetriever";
+import {
+  getEmbeddingProvider,
+  getPrecomputedEmbeddingsPath,
+  type EmbeddingProvider,
+} from "./EmbeddingProviders";
 import { HybridRetriever } from "./HybridRetriever";
+import { PassageRetriever, type PassageRetrieverOptions } from "./PassageRetriever";
+import { MaterialChunker, toChunkDocument } from "./MaterialChunker";
+import { LexicalReranker } from "./LexicalReranker";
+import { LLMReranker } from "./LLMReranker";
 import { InMemoryVectorStore } from "./VectorStore";
+import { PostgresVectorStore } from "./PostgresVectorStore";
 import { MMRDiversifier } from "./MMRDiversifier";
+import { BACKEND_FEATURE_FLAGS } from "@/lib/config/backend";
 
 /**
  * Create a hybrid retriever with default configuration
  *
  * Convenience factory function that sets up:
  * - BM25 retriever for sparse search
- * - Embedding retriever for dense search
+ * - Embedding retriever for dense search (configured embedding provider,
+ *   materials loaded from the precomputed file when available)
  * - Hybrid retriever with RRF fusion
- * - MMR diversification
+ * - Reranking (lexical, or LLM with lexical fallback) if useReranker is set
+ * - MMR diversification if useMMR is set
  *
  * @param materials - Course materials to index
  * @param config - Optional configuration
+ * @param vectorNamespace - Suffix separating vectors of derived documents
+ *   (e.g. passages) from material vectors of the same provider
  * @returns Configured hybrid retriever
  *
  * @example
@@ -62,6 +164,8 @@ import { MMRDiversifier } from "./MMRDiversifier";
  * const retriever = createHybridRetriever(materials, {
  *   useRRF: true,
  *   rrfK: 60,
+ *   useReranker: true,
+ *   rerankerType: "lexical",
  *   useMMR: true,
  *   mmrLambda: 0.7,
  * });
@@ -71,45 +175,97 @@ import { MMRDiversifier } from "./MMRDiversifier";
  */
 export async function createHybridRetriever(
   materials: CourseMaterial[],
-  config?: HybridRetrievalConfig
+  config?: HybridRetrievalConfig,
+  vectorNamespace?: string
 ): Promise<{ retriever: HybridRetriever; mmr: MMRDiversifier }> {
   // Create BM25 retriever
   const bm25Retriever = new BM25Retriever(materials, {
     k1: config?.bm25K1 ?? 1.5,
     b: config?.bm25B ?? 0.75,
+    fieldWeights: config?.bm25FieldWeights,
   });
 
   // Create embedding retriever
-  const vectorStore = new InMemoryVectorStore({
-    persistToLocalStorage: true,
-    storageKey: "quokka-vectors",
-  });
+  const provider = await getEmbeddingProvider();
+  const vectorStore = await createProviderVectorStore(provider, materials, vectorNamespace);
 
   const embeddingRetriever = new EmbeddingRetriever(
     materials,
     vectorStore,
-    simpleEmbedFn // Use simple embedding for demo (replace with real model in production)
+    provider.embed
   );
 
   // Initialize embedding retriever (embed all materials)
   await embeddingRetriever.initialize();
 
-  // Create hybrid retriever
+  // Create MMR diversifier
+  const mmr = new MMRDiversifier({
+    lambda: config?.mmrLambda ?? 0.7,
+  });
+
+  // Create reranker (LLM falls back to lexical when no model is available)
+  const reranker: IReranker =
+    config?.rerankerType === "llm"
+      ? new LLMReranker({ fallback: new LexicalReranker() })
+      : new LexicalReranker();
+
+  // Create hybrid retriever (fusion → rerank → MMR)
   const hybridRetriever = new HybridRetriever(
     bm25Retriever,
     embeddingRetriever,
     materials,
-    config
+    config,
+    { reranker, mmr }
   );
 
-  // Create MMR diversifier
-  const mmr = new MMRDiversifier({
-    lambda: config?.mmrLambda ?? 0.7,
-  });
-
   return { retriever: hybridRetriever, mmr };
 }
 
+/**
+ * Create a passage-level (chunked) hybrid retriever
+ *
+ * Materials are split into passages by MaterialChunker and the full hybrid
+ * pipeline runs over the passages. Results carry the source material plus
+ * the matching passage (result.chunk), so answers can cite a section
+ * instead of a whole material.
+ *
+ * Passage vectors are stored separately from material vectors, namespaced
+ * by the chunking parameters.
+ *
+ * @param materials - Course materials to index
+ * @param config - Optional hybrid retrieval configuration
+ * @param options - Chunking and per-material passage options
+ * @returns Passage retriever and the passages it indexes
+ *
+ * @example
+ * ```typescript
+ * const { retriever } = await createPassageRetriever(materials, { useReranker: true });
+ * const [top] = await retriever.retrieve("What is a balanced BST?", 5);
+ * console.log(top.material.title, top.chunk?.headingPath, top.chunk?.startOffset);
+ * ```
+ */
+export async function createPassageRetriever(
+  materials: CourseMaterial[],
+  config?: HybridRetrievalConfig,
+  options?: ChunkingOptions & PassageRetrieverOptions
+): Promise<{ retriever: PassageRetriever; chunks: MaterialChunk[] }> {
+  const chunker = new MaterialChunker(options);
+  const materialsById = new Map(materials.map((m) => [m.id, m]));
+  const chunks = chunker.chunkAll(materials);
+  const documents = chunks.map((chunk) => toChunkDocument(materialsById.get(chunk.materialId)!, chunk));
+
+  const { retriever: hybridRetriever } = await createHybridRetriever(
+    documents,
+    config,
+    chunker.signature
+  );
+
+  return {
+    retriever: new PassageRetriever(hybridRetriever, materials, chunks, options),
+    chunks,
+  };
+}
+
 /**
  * Create a simple BM25-only retriever
  *
@@ -121,7 +277,7 @@ export async function createHybridRetriever(
  */
 export function createBM25Retriever(
   materials: CourseMaterial[],
-  config?: { k1?: number; b?: number }
+  config?: Partial<BM25Params>
 ): BM25Retriever {
   return new BM25Retriever(materials, config);
 }
@@ -132,17 +288,25 @@ export function createBM25Retriever(
  * Use when you want semantic search without keyword matching.
  *
  * @param materials - Course materials to index
- * @param embedFn - Optional custom embedding function
+ * @param embedFn - Optional custom embedding function (defaults to configured provider)
  * @returns Configured embedding retriever (needs initialization)
  */
 export async function createEmbeddingRetriever(
   materials: CourseMaterial[],
-  embedFn = simpleEmbedFn
+  embedFn?: EmbeddingFunction
 ): Promise<EmbeddingRetriever> {
-  const vectorStore = new InMemoryVectorStore({
-    persistToLocalStorage: true,
-    storageKey: "quokka-vectors",
-  });
+  let vectorStore: IVectorStore;
+
+  if (!embedFn) {
+    const provider = await getEmbeddingProvider();
+    vectorStore = await createProviderVectorStore(provider, materials);
+    embedFn = provider.embed;
+  } else {
+    vectorStore = new InMemoryVectorStore({
+      persistToLocalStorage: true,
+      storageKey: "quokka-vectors",
+    });
+  }
 
   const retriever = new EmbeddingRetriever(materials, vectorStore, embedFn);
 
@@ -151,3 +315,60 @@ export async function createEmbeddingRetriever(
 
   return retriever;
 }
+
+/**
+ * Vector namespace for a provider, optionally suffixed for derived
+ * documents (e.g. "local:Xenova/all-MiniLM-L6-v2@chunks-v1-800-150-200")
+ */
+export function getVectorNamespace(provider: Pick<EmbeddingProvider, "id">, suffix?: string): string {
+  return suffix ? `${provider.id}@${suffix}` : provider.id;
+}
+
+/**
+ * Create a vector store for an embedding provider
+ *
+ * Vectors are namespaced by provider ID (different models are not
+ * comparable) plus an optional suffix for derived documents such as
+ * passages. EmbeddingRetriever only embeds documents the store is missing.
+ *
+ * - Backend materials enabled: Postgres store (vectors persist across
+ *   invocations, re-embedded only when a material changes)
+ * - Otherwise (or backend unreachable): in-memory store seeded from the
+ *   precomputed embeddings file if present
+ */
+async function createProviderVectorStore(
+  provider: EmbeddingProvider,
+  materials: CourseMaterial[],
+  suffix?: string
+): Promise<IVectorStore> {
+  const namespace = getVectorNamespace(provider, suffix);
+  const courseIds = Array.from(new Set(materials.map((m) => m.courseId)));
+
+  if (BACKEND_FEATURE_FLAGS.materials && courseIds.length === 1) {
+    const vectorStore = new PostgresVectorStore({ courseId: courseIds[0], model: namespace });
+    try {
+      await vectorStore.sync();
+      return vectorStore;
+    } catch (error) {
+      console.error("[Retrieval] Postgres vector store unavailable:", error);
+      // Fall through to in-memory store
+    }
+  }
+
+  const vectorStore = new InMemoryVectorStore({
+    persistToLocalStorage: true,
+    storageKey: `quokka-vectors:${namespace}`,
+  });
+
+  const embeddingsPath = getPrecomputedEmbeddingsPath({ id: namespace });
+  const hasPrecomputed = await readPrecomputedEmbeddings(embeddingsPath).then(
+    () => true,
+    () => false
+  );
+
+  if (hasPrecomputed) {
+    await loadPrecomputedEmbeddings(vectorStore, embeddingsPath, materials.map((m) => m.id));
+  }
+
+  return vectorStore;
+}
@@ -2,7 +2,8 @@
 // Retrieval Module Types
 // ============================================
 
-import type { CourseMaterial } from "@/lib/models/types";
+import type { AIAnswer, AIAnswerRouting, CourseMaterial } from "@/lib/models/types";
+import type { BM25Field } from "@quokka/search";
 
 /**
  * Retrieval result with score
@@ -12,6 +13,31 @@ export interface RetrievalResult {
   score: number;
   matchedTerms?: string[];
   metadata?: Record<string, unknown>;
+  chunk?: MaterialChunk;      // Matching passage (set by chunk-level retrieval)
+}
+
+/**
+ * Passage of a course material
+ *
+ * material.content.slice(startOffset, endOffset) === text
+ */
+export interface MaterialChunk {
+  id: string;                 // "<materialId>#<index>"
+  materialId: string;
+  index: number;              // Position within the material (0-based)
+  text: string;
+  headingPath: string[];      // Enclosing headings, outermost first
+  startOffset: number;        // Character offset in material.content (inclusive)
+  endOffset: number;          // Character offset in material.content (exclusive)
+}
+
+/**
+ * Chunking parameters
+ */
+export interface ChunkingOptions {
+  maxChars?: number;          // Maximum passage length (default: 800)
+  overlapChars?: number;      // Overlap between consecutive windows of a long section (default: 150)
+  minChars?: number;          // Sections shorter than this merge into the next one (default: 200)
 }
 
 /**
@@ -33,25 +59,11 @@ export interface IRetriever {
 export interface BM25Params {
   k1: number;  // Term frequency saturation parameter (typical: 1.2-2.0)
   b: number;   // Length normalization parameter (typical: 0.75)
+  fieldWeights?: Record<BM25Field, number>; // Term frequency weight per field (default: title 3, keywords 2, content 1)
 }
 
-/**
- * Document statistics for BM25
- */
-export interface DocumentStats {
-  docId: string;
-  docLength: number;
-  termFrequencies: Map<string, number>;
-}
-
-/**
- * Corpus statistics for BM25
- */
-export interface CorpusStats {
-  numDocuments: number;
-  avgDocLength: number;
-  documentFrequencies: Map<string, number>; // How many docs contain each term
-}
+// BM25F field and statistics types (shared with the backend's material search)
+export type { BM25Field, FieldStats, DocumentStats, CorpusStats } from "@quokka/search";
 
 /**
  * Embedding vector
@@ -149,8 +161,11 @@ export interface HybridRetrievalConfig {
   useMMR?: boolean;           // Apply MMR diversification (default: true)
   mmrLambda?: number;         // MMR lambda parameter (default: 0.7)
   useReranker?: boolean;      // Apply reranking (default: false, adds latency)
+  rerankerType?: "lexical" | "llm"; // Reranker built by createHybridRetriever (default: lexical)
+  rerankTopK?: number;        // Fused candidates passed to the reranker (default: 3x limit)
   bm25K1?: number;            // BM25 k1 parameter (default: 1.5)
   bm25B?: number;             // BM25 b parameter (default: 0.75)
+  bm25FieldWeights?: Record<BM25Field, number>; // BM25F field weights (default: title 3, keywords 2, content 1)
 }
 
 /**
@@ -166,3 +181,85 @@ export interface RetrievalMetrics {
   resultsCount: number;       // Number of results returned
   cacheHit?: boolean;         // Whether cache was hit (if caching enabled)
 }
+
+/**
+ * Labeled evaluation query
+ */
+export interface EvalQuery {
+  id: string;
+  courseId: string;
+  query: string;
+  source: "thread" | "manual" | "title"; // Where the query came from
+  threadId?: string;
+  relevant: Record<string, number>;      // Material ID -> graded relevance (2 = answers it, 1 = related)
+}
+
+/**
+ * IR metrics for one query or averaged over many
+ */
+export interface EvalMetrics {
+  recall: Record<number, number>;        // recall@k for each cutoff
+  ndcg: Record<number, number>;          // nDCG@k for each cutoff
+  mrr: number;                           // Reciprocal rank of the first relevant material
+}
+
+/**
+ * Evaluation results of one query under one configuration
+ */
+export interface EvalQueryResult {
+  queryId: string;
+  ranked: string[];                      // Retrieved material IDs, best first (deduplicated)
+  metrics: EvalMetrics;
+}
+
+/**
+ * Evaluation report for a set of retrieval configurations
+ */
+export interface EvalReport {
+  generatedAt: string;
+  cutoffs: number[];
+  configurations: string[];
+  courses: Array<{
+    courseId: string;
+    queryCount: number;
+    metrics: Record<string, EvalMetrics>;          // Configuration -> mean metrics
+    queries: Record<string, EvalQueryResult[]>;    // Configuration -> per-query results
+  }>;
+  overall: {
+    queryCount: number;
+    metrics: Record<string, EvalMetrics>;          // Configuration -> mean over all queries
+  };
+  metadata?: Record<string, unknown>;              // Run context (parameters, embedding provider, ...)
+}
+
+/**
+ * Answer that may be reused for near-identical questions
+ */
+export interface EndorsedAnswer {
+  question: string;                      // Thread title + content the answer was written for
+  answer: AIAnswer;
+}
+
+/**
+ * How much retrieval a routed question gets
+ */
+export interface RetrievalPlan {
+  limit: number;                         // Passages to retrieve
+  config: HybridRetrievalConfig;
+  maxPassagesPerMaterial: number;
+}
+
+/**
+ * Query router decision: the audit record plus how to retrieve
+ *
+ * Only use-cache decisions come without a retrieval plan.
+ */
+export type RoutingDecision = AIAnswerRouting &
+  (
+    | { retrieval: RetrievalPlan; cachedAnswer?: undefined }
+    | {
+        retrieval: null;
+        cachedAnswer: AIAnswer;          // Endorsed answer to reuse
+        cacheHit: NonNullable<AIAnswerRouting["cacheHit"]>;
+      }
+  );
@@ -1,4 +1,4 @@
-import type { User, AuthSession, Course, Enrollment, Thread, Notification, Post, AIAnswer, ResponseTemplate, Assignment, CourseMaterial, AIConversation, AIMessage } from "@/lib/models/types";
+import type { User, AuthSession, Course, Enrollment, Thread, Notification, Post, AIAnswer, ResponseTemplate, Assignment, CourseMaterial, AIConversation, AIMessage, CourseSearchAliases, SearchAlias, LLMUsageRecord, CoursePromptSettings, AssignmentIntegrityMode, IntegrityEvent, ContentRevision, RevisionTargetType, ContentFlag } from "@/lib/models/types";
 
 import usersData from "@/mocks/users.json";
 import coursesData from "@/mocks/courses.json";
@@ -9,12 +9,13 @@ import notificationsData from "@/mocks/notifications.json";
 import aiAnswersData from "@/mocks/ai-answers.json";
 import assignmentsData from "@/mocks/assignments.json";
 import courseMaterialsData from "@/mocks/course-materials.json";
+import searchAliasesData from "@/mocks/search-aliases.json";
 
 /**
  * Mock data version - increment when mock data changes to force re-seed
  * This allows localStorage to update when we add/modify mock data
  */
-const SEED_VERSION = 'v2.1.0';
+const SEED_VERSION = 'v2.3.0';
 
 const KEYS = {
   users: "quokkaq.users",
@@ -30,6 +31,13 @@ const KEYS = {
   responseTemplates: "quokkaq.responseTemplates",
   assignments: "quokkaq.assignments",
   courseMaterials: "quokkaq.courseMaterials",
+  searchAliases: "quokkaq.searchAliases",
+  llmUsage: "quokkaq.llmUsage",
+  courseLLMBudgets: "quokkaq.courseLLMBudgets",
+  coursePromptSettings: "quokkaq.coursePromptSettings",
+  integrityEvents: "quokkaq.integrityEvents",
+  contentRevisions: "quokkaq.contentRevisions",
+  contentFlags: "quokkaq.contentFlags",
   seedVersion: "quokkaq.seedVersion",
   initialized: "quokkaq.initialized",
 } as const;
@@ -58,6 +66,17 @@ export function seedData(): void {
     const assignments = assignmentsData.assignments as Assignment[];
     const courseMaterials = courseMaterialsData as CourseMaterial[];
 
+    // Group alias rows into one table per course
+    const searchAliases: CourseSearchAliases[] = Array.from(
+      new Set(searchAliasesData.map((entry) => entry.courseId))
+    ).map((courseId) => ({
+      courseId,
+      aliases: searchAliasesData
+        .filter((entry) => entry.courseId === courseId)
+        .map(({ term, aliases }) => ({ term, aliases })),
+      updatedAt: null,
+    }));
+
     // Backfill endorsement data for existing posts
     posts = posts.map(post => {
       if (post.endorsed && !post.endorsedBy) {
@@ -98,6 +117,7 @@ export function seedData(): void {
     localStorage.setItem(KEYS.aiAnswers, JSON.stringify(aiAnswers));
     localStorage.setItem(KEYS.assignments, JSON.stringify(assignments));
     localStorage.setItem(KEYS.courseMaterials, JSON.stringify(courseMaterials));
+    localStorage.setItem(KEYS.searchAliases, JSON.stringify(searchAliases));
     localStorage.setItem(KEYS.seedVersion, SEED_VERSION);
     localStorage.setItem(KEYS.initialized, "true");
   } catch (error) {
@@ -283,11 +303,11 @@ export function getThreads(): Thread[] {
 }
 
 /**
- * Get threads by course ID
+ * Get threads by course ID (deleted threads excluded)
  */
 export function getThreadsByCourse(courseId: string): Thread[] {
   const threads = getThreads();
-  return threads.filter((t) => t.courseId === courseId);
+  return threads.filter((t) => t.courseId === courseId && !t.deletedAt);
 }
 
 /**
@@ -363,10 +383,127 @@ export function addPost(post: Post): void {
   localStorage.setItem(KEYS.posts, JSON.stringify(posts));
 }
 
+/**
+ * Update post
+ */
+export function updatePost(postId: string, updates: Partial<Post>): void {
+  if (typeof window === "undefined") return;
+
+  const posts = getPosts();
+  const post = posts.find((p) => p.id === postId);
+
+  if (post) {
+    Object.assign(post, updates);
+    localStorage.setItem(KEYS.posts, JSON.stringify(posts));
+  }
+}
+
+// ============================================
+// Revision Data Access
+// ============================================
+
+/**
+ * Get prior versions of a thread or post (oldest first)
+ */
+export function getContentRevisions(targetType: RevisionTargetType, targetId: string): ContentRevision[] {
+  if (typeof window === "undefined") return [];
+
+  const data = localStorage.getItem(KEYS.contentRevisions);
+  if (!data) return [];
+
+  try {
+    return (JSON.parse(data) as ContentRevision[])
+      .filter((r) => r.targetType === targetType && r.targetId === targetId)
+      .sort((a, b) => a.version - b.version);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a prior version of a thread or post
+ */
+export function addContentRevision(revision: ContentRevision): void {
+  if (typeof window === "undefined") return;
+
+  let revisions: ContentRevision[] = [];
+  try {
+    revisions = JSON.parse(localStorage.getItem(KEYS.contentRevisions) || "[]") as ContentRevision[];
+  } catch {
+    // Start over if the stored revisions are unreadable
+  }
+
+  revisions.push(revision);
+  localStorage.setItem(KEYS.contentRevisions, JSON.stringify(revisions));
+}
+
+// ============================================
+// Moderation Data Access
+// ============================================
+
+/**
+ * Get all content reports from localStorage
+ */
+export function getContentFlags(): ContentFlag[] {
+  if (typeof window === "undefined") return [];
+
+  const data = localStorage.getItem(KEYS.contentFlags);
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as ContentFlag[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Add a content report
+ */
+export function addContentFlag(flag: ContentFlag): void {
+  if (typeof window === "undefined") return;
+
+  const flags = getContentFlags();
+  flags.push(flag);
+  localStorage.setItem(KEYS.contentFlags, JSON.stringify(flags));
+}
+
+/**
+ * Update a content report
+ */
+export function updateContentFlag(flagId: string, updates: Partial<ContentFlag>): void {
+  if (typeof window === "undefined") return;
+
+  const flags = getContentFlags();
+  const flag = flags.find((f) => f.id === flagId);
+
+  if (flag) {
+    Object.assign(flag, updates);
+    localStorage.setItem(KEYS.contentFlags, JSON.stringify(flags));
+  }
+}
+
 // ============================================
 // Notification Data Access
 // ============================================
 
+/**
+ * Add a notification
+ */
+export function addNotification(notification: Notification): void {
+  if (typeof window === "undefined") return;
+
+  let notifications: Notification[] = [];
+  try {
+    notifications = JSON.parse(localStorage.getItem(KEYS.notifications) || "[]") as Notification[];
+  } catch {
+    // Start over if the stored notifications are unreadable
+  }
+
+  notifications.push(notification);
+  localStorage.setItem(KEYS.notifications, JSON.stringify(notifications));
+}
+
 /**
  * Get notifications for a user
  */
@@ -892,6 +1029,24 @@ export function getAssignmentsByCourse(courseId: string): Assignment[] {
   return assignments.filter((a) => a.courseId === courseId);
 }
 
+/**
+ * Set an assignment's integrity mode
+ */
+export function setAssignmentIntegrityMode(
+  assignmentId: string,
+  integrityMode: AssignmentIntegrityMode
+): Assignment | null {
+  if (typeof window === "undefined") return null;
+
+  const assignments = getAssignments();
+  const assignment = assignments.find((a) => a.id === assignmentId);
+  if (!assignment) return null;
+
+  assignment.integrityMode = integrityMode;
+  localStorage.setItem(KEYS.assignments, JSON.stringify(assignments));
+  return assignment;
+}
+
 // ============================================
 // Course Materials Data Access
 // ============================================
@@ -927,3 +1082,223 @@ export function getCourseMaterialById(materialId: string): CourseMaterial | null
   const materials = getCourseMaterials();
   return materials.find((m) => m.id === materialId) ?? null;
 }
+
+// ============================================
+// Search Aliases Data Access
+// ============================================
+
+/**
+ * Get a course's search alias table from localStorage
+ */
+export function getSearchAliases(courseId: string): CourseSearchAliases {
+  const empty: CourseSearchAliases = { courseId, aliases: [], updatedAt: null };
+  if (typeof window === "undefined") return empty;
+
+  const data = localStorage.getItem(KEYS.searchAliases);
+  if (!data) return empty;
+
+  try {
+    const tables = JSON.parse(data) as CourseSearchAliases[];
+    return tables.find((t) => t.courseId === courseId) ?? empty;
+  } catch {
+    return empty;
+  }
+}
+
+/**
+ * Replace a course's search alias table
+ */
+export function setSearchAliases(courseId: string, aliases: SearchAlias[]): CourseSearchAliases {
+  const table: CourseSearchAliases = { courseId, aliases, updatedAt: new Date().toISOString() };
+  if (typeof window === "undefined") return table;
+
+  const data = localStorage.getItem(KEYS.searchAliases);
+  const tables = data ? (JSON.parse(data) as CourseSearchAliases[]) : [];
+  localStorage.setItem(
+    KEYS.searchAliases,
+    JSON.stringify([...tables.filter((t) => t.courseId !== courseId), table])
+  );
+
+  return table;
+}
+
+// ============================================
+// LLM Usage Ledger Data Access
+// ============================================
+
+/**
+ * Stored course budget (spend is computed from the ledger)
+ */
+export interface StoredCourseLLMBudget {
+  courseId: string;
+  monthlyBudget: number;
+  updatedAt: string;
+}
+
+/**
+ * Get all recorded LLM calls from localStorage
+ */
+export function getLLMUsageRecords(): LLMUsageRecord[] {
+  if (typeof window === "undefined") return [];
+
+  const data = localStorage.getItem(KEYS.llmUsage);
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as LLMUsageRecord[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record an LLM call
+ */
+export function addLLMUsageRecord(record: LLMUsageRecord): void {
+  if (typeof window === "undefined") return;
+
+  const records = getLLMUsageRecords();
+  records.push(record);
+  localStorage.setItem(KEYS.llmUsage, JSON.stringify(records));
+}
+
+/**
+ * Get a course's monthly LLM budget from localStorage
+ */
+export function getCourseLLMBudget(courseId: string): StoredCourseLLMBudget | null {
+  if (typeof window === "undefined") return null;
+
+  const data = localStorage.getItem(KEYS.courseLLMBudgets);
+  if (!data) return null;
+
+  try {
+    const budgets = JSON.parse(data) as StoredCourseLLMBudget[];
+    return budgets.find((b) => b.courseId === courseId) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Set (or remove, with null) a course's monthly LLM budget
+ */
+export function setCourseLLMBudget(courseId: string, monthlyBudget: number | null): StoredCourseLLMBudget | null {
+  const budget = monthlyBudget === null
+    ? null
+    : { courseId, monthlyBudget, updatedAt: new Date().toISOString() };
+  if (typeof window === "undefined") return budget;
+
+  const data = localStorage.getItem(KEYS.courseLLMBudgets);
+  const budgets = data ? (JSON.parse(data) as StoredCourseLLMBudget[]) : [];
+  localStorage.setItem(
+    KEYS.courseLLMBudgets,
+    JSON.stringify([...budgets.filter((b) => b.courseId !== courseId), ...(budget ? [budget] : [])])
+  );
+
+  return budget;
+}
+
+// ============================================
+// Course Prompt Settings Data Access
+// ============================================
+
+/**
+ * Get a course's prompt overrides from localStorage (defaults if never set)
+ */
+export function getCoursePromptSettings(courseId: string): CoursePromptSettings {
+  const defaults: CoursePromptSettings = {
+    courseId,
+    persona: null,
+    policy: null,
+    version: 0,
+    updatedBy: null,
+    updatedAt: null,
+  };
+  if (typeof window === "undefined") return defaults;
+
+  const data = localStorage.getItem(KEYS.coursePromptSettings);
+  if (!data) return defaults;
+
+  try {
+    const settings = JSON.parse(data) as CoursePromptSettings[];
+    return settings.find((s) => s.courseId === courseId) ?? defaults;
+  } catch {
+    return defaults;
+  }
+}
+
+/**
+ * Set a course's prompt overrides (bumps their version)
+ */
+export function setCoursePromptSettings(
+  courseId: string,
+  persona: string | null,
+  policy: string | null,
+  updatedBy: string | null
+): CoursePromptSettings {
+  const settings: CoursePromptSettings = {
+    courseId,
+    persona,
+    policy,
+    version: getCoursePromptSettings(courseId).version + 1,
+    updatedBy,
+    updatedAt: new Date().toISOString(),
+  };
+  if (typeof window === "undefined") return settings;
+
+  const data = localStorage.getItem(KEYS.coursePromptSettings);
+  const all = data ? (JSON.parse(data) as CoursePromptSettings[]) : [];
+  localStorage.setItem(
+    KEYS.coursePromptSettings,
+    JSON.stringify([...all.filter((s) => s.courseId !== courseId), settings])
+  );
+
+  return settings;
+}
+
+// ============================================
+// Academic Integrity Data Access
+// ============================================
+
+/**
+ * Get all integrity events from localStorage
+ */
+export function getIntegrityEvents(): IntegrityEvent[] {
+  if (typeof window === "undefined") return [];
+
+  const data = localStorage.getItem(KEYS.integrityEvents);
+  if (!data) return [];
+
+  try {
+    return JSON.parse(data) as IntegrityEvent[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Log an integrity event
+ */
+export function addIntegrityEvent(event: IntegrityEvent): void {
+  if (typeof window === "undefined") return;
+
+  const events = getIntegrityEvents();
+  events.push(event);
+  localStorage.setItem(KEYS.integrityEvents, JSON.stringify(events));
+}
+
+/**
+ * Mark an integrity event as reviewed
+ */
+export function markIntegrityEventReviewed(eventId: string, reviewedBy: string | null): IntegrityEvent | null {
+  if (typeof window === "undefined") return null;
+
+  const events = getIntegrityEvents();
+  const event = events.find((e) => e.id === eventId);
+  if (!event) return null;
+
+  event.reviewedBy = reviewedBy;
+  event.reviewedAt = new Date().toISOString();
+  localStorage.setItem(KEYS.integrityEvents, JSON.stringify(events));
+  return event;
+}
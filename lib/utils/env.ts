@@ -16,6 +16,16 @@
  */
 export type LLMProviderType = "openai" | "anthropic";
 
+/**
+ * Embedding provider type
+ *
+ * - local: Transformers.js model on CPU (no network at query time)
+ * - openai: OpenAI or any OpenAI-compatible embeddings endpoint
+ * - voyage: Voyage AI (Anthropic's recommended embeddings provider)
+ * - hash: Keyword-hash pseudo-embedding (demo only, not semantic)
+ */
+export type EmbeddingProviderType = "local" | "openai" | "voyage" | "hash";
+
 /**
  * Environment configuration interface
  */
@@ -28,6 +38,10 @@ export interface EnvConfig {
   openaiApiKey: string | null;
   anthropicApiKey: string | null;
 
+  // Provider endpoint overrides (null = the provider's API)
+  openaiBaseUrl: string | null;
+  anthropicBaseUrl: string | null;
+
   // Models
   openaiModel: string;
   anthropicModel: string;
@@ -46,6 +60,12 @@ export interface EnvConfig {
   minRelevanceScore: number;
   autoDetectThreshold: number;
 
+  // Embeddings
+  embeddingProvider: EmbeddingProviderType;
+  embeddingModel: string | null; // null = provider default
+  embeddingBaseUrl: string | null; // OpenAI-compatible endpoint override
+  voyageApiKey: string | null;
+
   // Development options
   debugLLM: boolean;
   showCostTracking: boolean;
@@ -69,6 +89,10 @@ function getEnv(key: string, fallback: string = ""): string {
     // API keys (server-only) - NO NEXT_PUBLIC_ PREFIX
     'OPENAI_API_KEY': process.env.OPENAI_API_KEY,
     'ANTHROPIC_API_KEY': process.env.ANTHROPIC_API_KEY,
+    'VOYAGE_API_KEY': process.env.VOYAGE_API_KEY,
+    'EMBEDDING_API_BASE_URL': process.env.EMBEDDING_API_BASE_URL,
+    'OPENAI_BASE_URL': process.env.OPENAI_BASE_URL,
+    'ANTHROPIC_BASE_URL': process.env.ANTHROPIC_BASE_URL,
 
     // Model configuration (client-safe)
     'NEXT_PUBLIC_OPENAI_MODEL': process.env.NEXT_PUBLIC_OPENAI_MODEL,
@@ -86,6 +110,10 @@ function getEnv(key: string, fallback: string = ""): string {
     'NEXT_PUBLIC_MIN_RELEVANCE_SCORE': process.env.NEXT_PUBLIC_MIN_RELEVANCE_SCORE,
     'NEXT_PUBLIC_AUTO_DETECT_THRESHOLD': process.env.NEXT_PUBLIC_AUTO_DETECT_THRESHOLD,
 
+    // Embeddings (client-safe)
+    'NEXT_PUBLIC_EMBEDDING_PROVIDER': process.env.NEXT_PUBLIC_EMBEDDING_PROVIDER,
+    'NEXT_PUBLIC_EMBEDDING_MODEL': process.env.NEXT_PUBLIC_EMBEDDING_MODEL,
+
     // Development options (client-safe)
     'NEXT_PUBLIC_DEBUG_LLM': process.env.NEXT_PUBLIC_DEBUG_LLM,
     'NEXT_PUBLIC_SHOW_COST_TRACKING': process.env.NEXT_PUBLIC_SHOW_COST_TRACKING,
@@ -125,6 +153,25 @@ function getLLMProvider(): LLMProviderType {
   return provider;
 }
 
+/**
+ * Get embedding provider from environment
+ */
+function getEmbeddingProviderType(): EmbeddingProviderType {
+  const provider = getEnv("NEXT_PUBLIC_EMBEDDING_PROVIDER", "local");
+  if (
+    provider !== "local" &&
+    provider !== "openai" &&
+    provider !== "voyage" &&
+    provider !== "hash"
+  ) {
+    console.warn(
+      `Invalid embedding provider "${provider}", falling back to "local"`
+    );
+    return "local";
+  }
+  return provider;
+}
+
 /**
  * Load and validate environment configuration
  */
@@ -138,6 +185,10 @@ function loadEnvConfig(): EnvConfig {
     openaiApiKey: getEnv("OPENAI_API_KEY") || null,
     anthropicApiKey: getEnv("ANTHROPIC_API_KEY") || null,
 
+    // Provider endpoints (server-only; e.g. a local mock LLM server)
+    openaiBaseUrl: getEnv("OPENAI_BASE_URL") || null,
+    anthropicBaseUrl: getEnv("ANTHROPIC_BASE_URL") || null,
+
     // Models
     openaiModel: getEnv("NEXT_PUBLIC_OPENAI_MODEL", "gpt-4o-mini"),
     anthropicModel: getEnv(
@@ -159,6 +210,12 @@ function loadEnvConfig(): EnvConfig {
     minRelevanceScore: getNumberEnv("NEXT_PUBLIC_MIN_RELEVANCE_SCORE", 30),
     autoDetectThreshold: getNumberEnv("NEXT_PUBLIC_AUTO_DETECT_THRESHOLD", 70),
 
+    // Embeddings
+    embeddingProvider: getEmbeddingProviderType(),
+    embeddingModel: getEnv("NEXT_PUBLIC_EMBEDDING_MODEL") || null,
+    embeddingBaseUrl: getEnv("EMBEDDING_API_BASE_URL") || null,
+    voyageApiKey: getEnv("VOYAGE_API_KEY") || null,
+
     // Development options
     debugLLM: getBoolEnv("NEXT_PUBLIC_DEBUG_LLM", false),
     showCostTracking: getBoolEnv("NEXT_PUBLIC_SHOW_COST_TRACKING", false),
@@ -42,8 +42,8 @@ export const MILESTONES = [
  * Calculate total Quokka Points for a user
  *
  * @param userId - User ID to calculate points for
- * @param userThreads - All threads created by user
- * @param userPosts - All posts created by user
+ * @param userThreads - All threads created by user (deleted ones are ignored)
+ * @param userPosts - All posts created by user (deleted ones are ignored)
  * @returns QuokkaPointsData with complete breakdown
  */
 export function calculateQuokkaPoints(
@@ -51,11 +51,15 @@ export function calculateQuokkaPoints(
   userThreads: Thread[],
   userPosts: Post[]
 ): QuokkaPointsData {
+  // Deleted (retracted or removed) content earns no points
+  const threads = userThreads.filter(t => !t.deletedAt);
+  const posts = userPosts.filter(p => !p.deletedAt);
+
   // 1. Calculate point sources
   const pointSources: PointSource[] = [];
 
   // Source 1: Peer Endorsements (endorsed posts, not by instructor)
-  const peerEndorsedPosts = userPosts.filter(p =>
+  const peerEndorsedPosts = posts.filter(p =>
     p.endorsed &&
     p.endorsedBy &&
     p.endorsedBy.length > 0 &&
@@ -95,7 +99,7 @@ export function calculateQuokkaPoints(
   }
 
   // Source 3: Instructor Endorsements (highest value)
-  const instructorEndorsedPosts = userPosts.filter(p =>
+  const instructorEndorsedPosts = posts.filter(p =>
     p.endorsed && p.instructorEndorsed
   );
   const instructorEndorsementCount = instructorEndorsedPosts.length;
@@ -115,7 +119,7 @@ export function calculateQuokkaPoints(
   // Source 4: Shared Conversations (threads converted from AI chat)
   // Identify by checking thread metadata (future: add `sharedFromChat` flag to Thread)
   // For now, approximate: threads with AI answers and high engagement
-  const sharedConversations = userThreads.filter(t =>
+  const sharedConversations = threads.filter(t =>
     t.hasAIAnswer && t.views > 5
   ).length;
   const sharePoints = sharedConversations * POINT_VALUES.SHARE_CONVERSATION;
@@ -132,7 +136,7 @@ export function calculateQuokkaPoints(
   }
 
   // Source 5: Questions Asked (small incentive)
-  const questionsAsked = userThreads.length;
+  const questionsAsked = threads.length;
   const questionPoints = questionsAsked * POINT_VALUES.QUESTION_ASKED;
 
   if (questionsAsked > 0) {
@@ -151,10 +155,10 @@ export function calculateQuokkaPoints(
 
   // 3. Calculate weekly points (last 7 days)
   const sevenDaysAgo = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
-  const recentPosts = userPosts.filter(p =>
+  const recentPosts = posts.filter(p =>
     new Date(p.createdAt) >= sevenDaysAgo
   );
-  const recentThreads = userThreads.filter(t =>
+  const recentThreads = threads.filter(t =>
     new Date(t.createdAt) >= sevenDaysAgo
   );
 
@@ -188,7 +192,7 @@ export function calculateQuokkaPoints(
   }));
 
   // 5. Generate sparkline (7-day history)
-  const avgPointsPerDay = totalPoints / Math.max(1, userThreads.length + userPosts.length / 2);
+  const avgPointsPerDay = totalPoints / Math.max(1, threads.length + posts.length / 2);
   const sparklineData = generateSparkline(
     `quokka-points-${userId}`,
     7,
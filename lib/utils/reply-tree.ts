@@ -0,0 +1,80 @@
+/**
+ * Reply trees for thread detail
+ *
+ * Posts nest under the thread itself (top-level replies), under the
+ * thread's AI answer (comments), or under another post, at most
+ * MAX_REPLY_DEPTH levels below the top. A resolved thread's accepted post
+ * is pinned ahead of the rest, with its replies.
+ */
+
+import type { Post } from '@/lib/models/types';
+
+/**
+ * Deepest nesting level a reply can have (0 = top level)
+ */
+export const MAX_REPLY_DEPTH = 3;
+
+export interface ReplyNode {
+  post: Post;
+  replies: ReplyNode[];
+}
+
+export interface ReplyForest {
+  /** Replies to the thread */
+  replies: ReplyNode[];
+  /** Comments on the AI answer */
+  aiAnswerComments: ReplyNode[];
+  /** Accepted answer, taken out of its branch to be pinned */
+  accepted?: ReplyNode;
+}
+
+/**
+ * Whether a post can take another level of replies
+ */
+export function canReplyTo(post: Post): boolean {
+  return !post.deletedAt && (post.depth ?? 0) < MAX_REPLY_DEPTH;
+}
+
+/**
+ * Number of posts in a branch, the node itself excluded
+ */
+export function countDescendants(node: ReplyNode): number {
+  return node.replies.reduce((total, reply) => total + 1 + countDescendants(reply), 0);
+}
+
+/**
+ * Group a thread's posts into reply trees, keeping their order
+ *
+ * Posts whose parent isn't in the list (not loaded yet) start their own
+ * tree, and comments on an AI answer other than the thread's current one
+ * are treated as replies to the thread.
+ *
+ * @param posts - Thread posts, oldest first
+ * @param aiAnswerId - The thread's AI answer, if any
+ * @param acceptedPostId - The thread's accepted post, if any
+ */
+export function buildReplyTree(
+  posts: Post[],
+  aiAnswerId?: string | null,
+  acceptedPostId?: string | null
+): ReplyForest {
+  const nodes = new Map<string, ReplyNode>(posts.map((post) => [post.id, { post, replies: [] }]));
+  const forest: ReplyForest = { replies: [], aiAnswerComments: [] };
+
+  for (const post of posts) {
+    const node = nodes.get(post.id)!;
+    const parent = post.parentPostId ? nodes.get(post.parentPostId) : undefined;
+
+    if (post.id === acceptedPostId) {
+      forest.accepted = node;
+    } else if (parent) {
+      parent.replies.push(node);
+    } else if (aiAnswerId && post.aiAnswerId === aiAnswerId) {
+      forest.aiAnswerComments.push(node);
+    } else {
+      forest.replies.push(node);
+    }
+  }
+
+  return forest;
+}
@@ -0,0 +1,113 @@
+/**
+ * Word-level text diff for revision history
+ *
+ * Compares two versions of a thread or post word by word (whitespace kept
+ * with the words) using a longest common subsequence, so edits render as
+ * inline insertions and deletions.
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed';
+
+export interface DiffSegment {
+  type: DiffSegmentType;
+  text: string;
+}
+
+/**
+ * Largest LCS table computed (cells); bigger edits fall back to a
+ * whole-block replacement instead of a word diff
+ */
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split text into words, keeping the whitespace that follows each word
+ */
+function tokenize(text: string): string[] {
+  return text.match(/\s+|\S+\s*/g) ?? [];
+}
+
+/**
+ * Append a segment, merging it into the previous one of the same type
+ */
+function push(segments: DiffSegment[], type: DiffSegmentType, text: string): void {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) {
+    last.text += text;
+  } else {
+    segments.push({ type, text });
+  }
+}
+
+/**
+ * Diff two texts word by word
+ *
+ * @param before - Previous version
+ * @param after - New version
+ * @returns Segments in reading order (removed text precedes the text that replaced it)
+ *
+ * @example
+ * ```ts
+ * diffWords("binary search is fast", "binary search is very fast");
+ * // [{ type: 'equal', text: 'binary search is ' },
+ * //  { type: 'added', text: 'very ' },
+ * //  { type: 'equal', text: 'fast' }]
+ * ```
+ */
+export function diffWords(before: string, after: string): DiffSegment[] {
+  const a = tokenize(before);
+  const b = tokenize(after);
+  const segments: DiffSegment[] = [];
+
+  // Common prefix and suffix don't need the LCS table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  push(segments, 'equal', a.slice(0, start).join(''));
+
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const rows = midA.length + 1;
+  const cols = midB.length + 1;
+
+  if (rows * cols > MAX_DIFF_CELLS) {
+    push(segments, 'removed', midA.join(''));
+    push(segments, 'added', midB.join(''));
+  } else {
+    // lcs[i * cols + j] = LCS length of midA[i..] and midB[j..]
+    const lcs = new Uint32Array(rows * cols);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * cols + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * cols + j + 1] + 1
+            : Math.max(lcs[(i + 1) * cols + j], lcs[i * cols + j + 1]);
+      }
+    }
+
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        push(segments, 'equal', midA[i]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * cols + j] >= lcs[i * cols + j + 1]) {
+        push(segments, 'removed', midA[i++]);
+      } else {
+        push(segments, 'added', midB[j++]);
+      }
+    }
+    push(segments, 'removed', midA.slice(i).join(''));
+    push(segments, 'added', midB.slice(j).join(''));
+  }
+
+  push(segments, 'equal', a.slice(endA).join(''));
+  return segments;
+}
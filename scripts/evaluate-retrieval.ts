@@ -0,0 +1,193 @@
+#!/usr/bin/env tsx
+/**
+ * Offline Retrieval Evaluation
+ *
+ * Runs the labeled queries in mocks/retrieval-gold.json (optionally plus
+ * title-derived known-item queries) through BM25-only, embedding-only,
+ * hybrid, hybrid+MMR and passage-level (kb_search) retrieval, with and
+ * without query rewriting, and writes
+ * recall@k, MRR and nDCG per course as JSON and markdown.
+ *
+ * Paste the markdown into a PR to show how a retrieval change moves the
+ * numbers (run once on main, once on the branch).
+ *
+ * Usage:
+ *   npm run retrieval:eval
+ *   npm run retrieval:eval -- --course course-cs101 --title-queries
+ *   npm run retrieval:eval -- --rrf-k 30 --mmr-lambda 0.5 --k1 1.2 --b 0.6
+ *
+ * Options:
+ *   --course <courseId>        Only evaluate one course
+ *   --title-queries            Add one known-item query per material title
+ *   --configs <a,b,...>        Subset of: bm25, embedding, hybrid, hybrid+mmr, passages,
+ *                              passages+rewrite
+ *   --rrf-k <n>                RRF k (default: 60)
+ *   --mmr-lambda <n>           MMR lambda (default: 0.7)
+ *   --k1 <n> / --b <n>         BM25 parameters (default: 1.5 / 0.75)
+ *   --out <dir>                Report directory (default: reports/retrieval)
+ *   --verbose                  Keep per-query retriever logs
+ */
+
+import { existsSync, mkdirSync, writeFileSync } from "fs";
+import { join } from "path";
+import {
+  RetrievalEvaluator,
+  buildTitleQueries,
+  createBM25Retriever,
+  createEmbeddingRetriever,
+  createHybridRetriever,
+  createPassageRetriever,
+  formatEvalReportMarkdown,
+  getEmbeddingProvider,
+  getGoldQueries,
+  loadSearchAliases,
+  QueryRewriter,
+  type EvalConfiguration,
+  type HybridRetrievalConfig,
+} from "@/lib/retrieval";
+import type { CourseMaterial } from "@/lib/models/types";
+import courseMaterialsData from "@/mocks/course-materials.json";
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    args[arg.slice(2)] = next !== undefined && !next.startsWith("--") ? argv[++i] : "true";
+  }
+  return args;
+}
+
+function numberArg(args: Record<string, string>, name: string, fallback: number): number {
+  if (args[name] === undefined) return fallback;
+  const value = Number(args[name]);
+  if (!Number.isFinite(value)) {
+    throw new Error(`--${name} must be a number, got "${args[name]}"`);
+  }
+  return value;
+}
+
+async function main() {
+  // Same keys the Next.js server sees
+  if (existsSync(".env.local")) {
+    process.loadEnvFile(".env.local");
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const log = console.log;
+  if (!args.verbose) {
+    // Retrievers log every query; keep the output to the summary
+    console.log = () => {};
+  }
+
+  const bm25 = { k1: numberArg(args, "k1", 1.5), b: numberArg(args, "b", 0.75) };
+  const hybridConfig: HybridRetrievalConfig = {
+    useRRF: true,
+    rrfK: numberArg(args, "rrf-k", 60),
+    mmrLambda: numberArg(args, "mmr-lambda", 0.7),
+    bm25K1: bm25.k1,
+    bm25B: bm25.b,
+  };
+
+  const allConfigurations: EvalConfiguration[] = [
+    {
+      name: "bm25",
+      description: "BM25 only",
+      create: (materials) => createBM25Retriever(materials, bm25),
+    },
+    {
+      name: "embedding",
+      description: "Dense retrieval only (configured embedding provider)",
+      create: (materials) => createEmbeddingRetriever(materials),
+    },
+    {
+      name: "hybrid",
+      description: "BM25 + embeddings, RRF fusion",
+      create: async (materials) =>
+        (await createHybridRetriever(materials, { ...hybridConfig, useMMR: false })).retriever,
+    },
+    {
+      name: "hybrid+mmr",
+      description: "BM25 + embeddings, RRF fusion, MMR diversification",
+      create: async (materials) =>
+        (await createHybridRetriever(materials, { ...hybridConfig, useMMR: true })).retriever,
+    },
+    {
+      name: "passages",
+      description: "kb_search pipeline: passage-level hybrid + lexical rerank + MMR",
+      create: async (materials) =>
+        (await createPassageRetriever(materials, { ...hybridConfig, useReranker: true, useMMR: true }))
+          .retriever,
+    },
+    {
+      name: "passages+rewrite",
+      description: "kb_search pipeline with query rewriting (spelling, aliases, feedback)",
+      create: async (materials) => {
+        const { retriever } = await createPassageRetriever(materials, {
+          ...hybridConfig,
+          useReranker: true,
+          useMMR: true,
+        });
+        const rewriter = new QueryRewriter(materials, loadSearchAliases(materials[0]?.courseId));
+        return {
+          retrieve: (query, limit) => retriever.retrieve(rewriter.rewrite(query).rewritten, limit),
+        };
+      },
+    },
+  ];
+
+  const selected = args.configs?.split(",").map((name) => name.trim());
+  const configurations = selected
+    ? allConfigurations.filter((c) => selected.includes(c.name))
+    : allConfigurations;
+  if (configurations.length === 0) {
+    throw new Error(`No configurations match --configs ${args.configs}`);
+  }
+
+  const materials = (courseMaterialsData as CourseMaterial[]).filter(
+    (m) => !args.course || m.courseId === args.course
+  );
+  const queries = [
+    ...getGoldQueries(args.course),
+    ...(args["title-queries"] ? buildTitleQueries(materials) : []),
+  ];
+  if (queries.length === 0) {
+    throw new Error(`No evaluation queries${args.course ? ` for ${args.course}` : ""}`);
+  }
+
+  const provider = await getEmbeddingProvider();
+  log(
+    `[Eval] ${queries.length} queries, ${configurations.length} configurations, embeddings: ${provider.id}`
+  );
+  const startTime = Date.now();
+
+  const report = await new RetrievalEvaluator().evaluate(materials, queries, configurations);
+
+  const outDir = args.out || "reports/retrieval";
+  mkdirSync(outDir, { recursive: true });
+  const jsonPath = join(outDir, "retrieval-eval.json");
+  const markdownPath = join(outDir, "retrieval-eval.md");
+
+  report.metadata = {
+    embeddingProvider: provider.id,
+    parameters: hybridConfig,
+    configurations: Object.fromEntries(configurations.map((c) => [c.name, c.description])),
+  };
+
+  writeFileSync(jsonPath, JSON.stringify(report, null, 2) + "\n");
+  writeFileSync(markdownPath, formatEvalReportMarkdown(report, queries));
+
+  for (const name of report.configurations) {
+    const metrics = report.overall.metrics[name];
+    log(
+      `[Eval] ${name.padEnd(16)} R@5 ${metrics.recall[5]?.toFixed(3) ?? "-"}  MRR ${metrics.mrr.toFixed(3)}  nDCG@10 ${metrics.ndcg[10]?.toFixed(3) ?? "-"}`
+    );
+  }
+  log(`[Eval] ✓ Wrote ${jsonPath} and ${markdownPath} in ${Date.now() - startTime}ms`);
+}
+
+main().catch((error) => {
+  console.error("[Eval] Evaluation failed:", error);
+  process.exit(1);
+});
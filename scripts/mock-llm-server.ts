@@ -0,0 +1,313 @@
+#!/usr/bin/env tsx
+/**
+ * Mock LLM Server
+ *
+ * Local stand-in for the OpenAI Responses API (POST /v1/responses) and
+ * the Anthropic Messages API (POST /v1/messages), streaming and not, for
+ * testing the model router's retries, circuit breakers and failover
+ * without real providers. Replies are canned text; structured-output
+ * requests get a minimal object matching the requested JSON schema.
+ *
+ * Point the app at it in .env.local (any API key works):
+ *   OPENAI_BASE_URL=http://localhost:4010/v1
+ *   ANTHROPIC_BASE_URL=http://localhost:4010/v1
+ *
+ * Usage:
+ *   npm run llm:mock
+ *   npm run llm:mock -- --port 4010 --fail 500
+ *
+ * Options:
+ *   --port <n>        Port (default: 4010)
+ *   --fail <mode>     Start failing every request: 500, 503, 429, 401 or reset
+ *                     (connection dropped); default: none
+ *   --reply <text>    Reply text (default: a short canned answer)
+ *
+ * Control endpoints (change failures while the app runs):
+ *   POST /__mock/failure  {"provider": "openai", "mode": "503", "count": 3}
+ *                         provider: openai | anthropic (default: both);
+ *                         count: fail only the next n requests (default: until changed)
+ *   GET  /__mock/stats    Requests served and failed per provider
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "http";
+
+type MockProvider = "openai" | "anthropic";
+type FailureMode = "none" | "500" | "503" | "429" | "401" | "reset";
+
+const FAILURE_MODES: readonly FailureMode[] = ["none", "500", "503", "429", "401", "reset"];
+
+const DEFAULT_REPLY =
+  "This is a reply from the mock LLM server. Binary search halves the search space on every step [1].";
+
+/**
+ * Active failure per provider (remaining: requests left to fail, null = until changed)
+ */
+const failures: Record<MockProvider, { mode: FailureMode; remaining: number | null }> = {
+  openai: { mode: "none", remaining: null },
+  anthropic: { mode: "none", remaining: null },
+};
+
+const stats: Record<MockProvider, { served: number; failed: number }> = {
+  openai: { served: 0, failed: 0 },
+  anthropic: { served: 0, failed: 0 },
+};
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith("--")) continue;
+    const next = argv[i + 1];
+    args[arg.slice(2)] = next !== undefined && !next.startsWith("--") ? argv[++i] : "true";
+  }
+  return args;
+}
+
+function parseFailureMode(value: unknown): FailureMode {
+  const mode = String(value ?? "none") as FailureMode;
+  if (!FAILURE_MODES.includes(mode)) {
+    throw new Error(`Unknown failure mode "${mode}" (expected ${FAILURE_MODES.join(", ")})`);
+  }
+  return mode;
+}
+
+async function readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+  let body = "";
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function sendEvents(res: ServerResponse, events: Array<{ type: string; [key: string]: unknown }>) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache" });
+  for (const event of events) {
+    res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  }
+  res.end();
+}
+
+/**
+ * Fail the request if the provider is set to fail (returns whether it did)
+ */
+function applyFailure(provider: MockProvider, res: ServerResponse): boolean {
+  const failure = failures[provider];
+  if (failure.mode === "none") return false;
+
+  if (failure.remaining !== null && --failure.remaining <= 0) {
+    failures[provider] = { mode: "none", remaining: null };
+  }
+  stats[provider].failed++;
+  console.log(`[Mock LLM] ${provider}: failing with ${failure.mode}`);
+
+  if (failure.mode === "reset") {
+    res.socket?.destroy();
+    return true;
+  }
+
+  const status = parseInt(failure.mode, 10);
+  const message = `Mock ${provider} failure (${status})`;
+  const headers: Record<string, string> = status === 429 ? { "retry-after": "1" } : {};
+  sendJson(
+    res,
+    status,
+    provider === "openai"
+      ? { error: { message, type: "server_error", code: null } }
+      : { type: "error", error: { type: status === 429 ? "rate_limit_error" : "api_error", message } },
+    headers
+  );
+  return true;
+}
+
+/**
+ * Minimal value matching a JSON schema (for structured-output requests)
+ */
+function sampleFromSchema(schema: Record<string, unknown> | undefined, reply: string): unknown {
+  if (!schema) return {};
+  if (Array.isArray(schema.enum)) return schema.enum[0];
+  if (Array.isArray(schema.anyOf)) return sampleFromSchema(schema.anyOf[0] as Record<string, unknown>, reply);
+
+  const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+  switch (type) {
+    case "object": {
+      const properties = (schema.properties ?? {}) as Record<string, Record<string, unknown>>;
+      return Object.fromEntries(
+        Object.entries(properties).map(([name, property]) => [name, sampleFromSchema(property, reply)])
+      );
+    }
+    case "array": {
+      const count = typeof schema.minItems === "number" ? schema.minItems : 0;
+      return Array.from({ length: count }, () =>
+        sampleFromSchema(schema.items as Record<string, unknown>, reply)
+      );
+    }
+    case "number":
+    case "integer":
+      return typeof schema.minimum === "number" ? schema.minimum : 0;
+    case "boolean":
+      return false;
+    case "null":
+      return null;
+    default:
+      return reply;
+  }
+}
+
+/**
+ * Split a reply into stream deltas (word by word)
+ */
+function toDeltas(text: string): string[] {
+  return text.match(/\S+\s*|\s+/g) ?? [text];
+}
+
+function handleOpenAI(body: Record<string, unknown>, reply: string, res: ServerResponse) {
+  const format = (body.text as { format?: { type?: string; schema?: Record<string, unknown> } } | undefined)
+    ?.format;
+  const text = format?.type === "json_schema" ? JSON.stringify(sampleFromSchema(format.schema, reply)) : reply;
+  const id = `resp_mock_${Date.now()}`;
+  const itemId = `msg_mock_${Date.now()}`;
+  const model = String(body.model ?? "mock");
+  const created_at = Math.floor(Date.now() / 1000);
+  const usage = { input_tokens: 100, output_tokens: toDeltas(text).length };
+
+  if (!body.stream) {
+    sendJson(res, 200, {
+      id,
+      created_at,
+      model,
+      output: [
+        {
+          type: "message",
+          role: "assistant",
+          id: itemId,
+          content: [{ type: "output_text", text, annotations: [] }],
+        },
+      ],
+      incomplete_details: null,
+      usage,
+    });
+    return;
+  }
+
+  sendEvents(res, [
+    { type: "response.created", response: { id, created_at, model } },
+    { type: "response.output_item.added", output_index: 0, item: { type: "message", id: itemId } },
+    ...toDeltas(text).map((delta) => ({ type: "response.output_text.delta", item_id: itemId, delta })),
+    { type: "response.output_item.done", output_index: 0, item: { type: "message", id: itemId } },
+    { type: "response.completed", response: { incomplete_details: null, usage } },
+  ]);
+}
+
+function handleAnthropic(body: Record<string, unknown>, reply: string, res: ServerResponse) {
+  const id = `msg_mock_${Date.now()}`;
+  const model = String(body.model ?? "mock");
+
+  // Structured output is requested as a forced tool call
+  const toolChoice = body.tool_choice as { type?: string; name?: string } | undefined;
+  const tool =
+    toolChoice?.type === "tool"
+      ? (body.tools as Array<{ name: string; input_schema?: Record<string, unknown> }> | undefined)?.find(
+          (candidate) => candidate.name === toolChoice.name
+        )
+      : undefined;
+
+  if (!body.stream) {
+    sendJson(res, 200, {
+      type: "message",
+      id,
+      model,
+      role: "assistant",
+      content: tool
+        ? [{ type: "tool_use", id: `toolu_mock_${Date.now()}`, name: tool.name, input: sampleFromSchema(tool.input_schema, reply) }]
+        : [{ type: "text", text: reply }],
+      stop_reason: tool ? "tool_use" : "end_turn",
+      stop_sequence: null,
+      usage: { input_tokens: 100, output_tokens: toDeltas(reply).length },
+    });
+    return;
+  }
+
+  sendEvents(res, [
+    { type: "message_start", message: { id, model, usage: { input_tokens: 100 } } },
+    { type: "content_block_start", index: 0, content_block: { type: "text", text: "" } },
+    ...toDeltas(reply).map((text) => ({ type: "content_block_delta", index: 0, delta: { type: "text_delta", text } })),
+    { type: "content_block_stop", index: 0 },
+    {
+      type: "message_delta",
+      delta: { stop_reason: "end_turn", stop_sequence: null },
+      usage: { output_tokens: toDeltas(reply).length },
+    },
+    { type: "message_stop" },
+  ]);
+}
+
+function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const port = parseInt(args.port ?? "4010", 10);
+  const reply = args.reply ?? DEFAULT_REPLY;
+
+  const initialMode = parseFailureMode(args.fail);
+  failures.openai.mode = initialMode;
+  failures.anthropic.mode = initialMode;
+
+  const server = createServer(async (req, res) => {
+    try {
+      const path = (req.url ?? "").split("?")[0];
+
+      if (req.method === "GET" && path === "/__mock/stats") {
+        sendJson(res, 200, { stats, failures });
+        return;
+      }
+
+      if (req.method === "POST" && path === "/__mock/failure") {
+        const body = await readJson(req);
+        const mode = parseFailureMode(body.mode);
+        const remaining = typeof body.count === "number" && mode !== "none" ? body.count : null;
+        const providers: MockProvider[] =
+          body.provider === "openai" || body.provider === "anthropic" ? [body.provider] : ["openai", "anthropic"];
+        for (const provider of providers) {
+          failures[provider] = { mode, remaining };
+        }
+        console.log(`[Mock LLM] ${providers.join(", ")}: failure mode ${mode}${remaining ? ` (next ${remaining})` : ""}`);
+        sendJson(res, 200, { failures });
+        return;
+      }
+
+      const provider: MockProvider | null =
+        req.method === "POST" && path.endsWith("/responses")
+          ? "openai"
+          : req.method === "POST" && path.endsWith("/messages")
+            ? "anthropic"
+            : null;
+
+      if (!provider) {
+        sendJson(res, 404, { error: { message: `No mock for ${req.method} ${path}` } });
+        return;
+      }
+
+      const body = await readJson(req);
+      if (applyFailure(provider, res)) return;
+
+      stats[provider].served++;
+      console.log(`[Mock LLM] ${provider}: ${body.stream ? "streaming" : "generating"} reply (${body.model})`);
+
+      if (provider === "openai") {
+        handleOpenAI(body, reply, res);
+      } else {
+        handleAnthropic(body, reply, res);
+      }
+    } catch (error) {
+      console.error("[Mock LLM] Request failed:", error);
+      sendJson(res, 400, { error: { message: error instanceof Error ? error.message : String(error) } });
+    }
+  });
+
+  server.listen(port, () => {
+    console.log(`[Mock LLM] Listening on http://localhost:${port}/v1 (failure mode: ${initialMode})`);
+  });
+}
+
+main();
@@ -0,0 +1,129 @@
+#!/usr/bin/env tsx
+/**
+ * Precompute Course Material Embeddings
+ *
+ * Embeds every course material - and every passage MaterialChunker splits
+ * it into - with the configured embedding provider and writes the vectors
+ * in the format loadPrecomputedEmbeddings reads, so kb_search only has to
+ * embed the query at request time. Material and passage vectors go to
+ * separate files (passages are namespaced by the chunking parameters).
+ *
+ * Usage:
+ *   npm run embeddings:precompute
+ *   npm run embeddings:precompute -- --provider openai --model text-embedding-3-small
+ *   npm run embeddings:precompute -- --course course-cs101 --out /tmp/cs101.json
+ *
+ * Options:
+ *   --provider <local|openai|voyage|hash>  Defaults to NEXT_PUBLIC_EMBEDDING_PROVIDER (local)
+ *   --model <name>                          Defaults to the provider's default model
+ *   --course <courseId>                     Only embed one course (merged into existing file)
+ *   --out <path>                            Defaults to mocks/embeddings/<provider>-<model>.json
+ *                                           (passages: <out without .json>.<chunking>.json)
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { dirname } from "path";
+import {
+  createEmbeddingProvider,
+  getMaterialEmbeddingText,
+  getPrecomputedEmbeddingsPath,
+  getVectorNamespace,
+  MaterialChunker,
+  toChunkDocument,
+  type Embedding,
+  type EmbeddingProvider,
+} from "@/lib/retrieval";
+import type { EmbeddingProviderType } from "@/lib/utils/env";
+import type { CourseMaterial } from "@/lib/models/types";
+import courseMaterialsData from "@/mocks/course-materials.json";
+
+const BATCH_SIZE = 32;
+
+function parseArgs(argv: string[]): Record<string, string> {
+  const args: Record<string, string> = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg.startsWith("--") && i + 1 < argv.length) {
+      args[arg.slice(2)] = argv[++i];
+    }
+  }
+  return args;
+}
+
+/**
+ * Embed documents into a precomputed embeddings file
+ *
+ * Single-course runs update an existing file instead of replacing it.
+ */
+async function writeEmbeddings(
+  provider: EmbeddingProvider,
+  documents: CourseMaterial[],
+  outPath: string,
+  merge: boolean,
+  label: string
+): Promise<void> {
+  const embeddings: Record<string, Embedding> =
+    merge && existsSync(outPath) ? JSON.parse(readFileSync(outPath, "utf-8")) : {};
+
+  console.log(`[Embeddings] Embedding ${documents.length} ${label} with ${provider.id}...`);
+  const startTime = Date.now();
+
+  for (let i = 0; i < documents.length; i += BATCH_SIZE) {
+    const batch = documents.slice(i, i + BATCH_SIZE);
+    const vectors = await provider.embedBatch(batch.map(getMaterialEmbeddingText));
+
+    batch.forEach((document, index) => {
+      embeddings[document.id] = vectors[index];
+    });
+
+    console.log(`[Embeddings] ${Math.min(i + BATCH_SIZE, documents.length)}/${documents.length}`);
+  }
+
+  mkdirSync(dirname(outPath), { recursive: true });
+  writeFileSync(outPath, JSON.stringify(embeddings) + "\n");
+
+  const dimensions = embeddings[documents[0].id].dimensions;
+  console.log(
+    `[Embeddings] ✓ Wrote ${Object.keys(embeddings).length} ${label} embeddings (${dimensions} dims) to ${outPath} in ${Date.now() - startTime}ms`
+  );
+}
+
+async function main() {
+  // Same keys the Next.js server sees
+  if (existsSync(".env.local")) {
+    process.loadEnvFile(".env.local");
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const provider = await createEmbeddingProvider(
+    args.provider as EmbeddingProviderType | undefined,
+    { model: args.model }
+  );
+
+  const materials = (courseMaterialsData as CourseMaterial[]).filter(
+    (m) => !args.course || m.courseId === args.course
+  );
+  if (materials.length === 0) {
+    throw new Error(`No course materials found${args.course ? ` for ${args.course}` : ""}`);
+  }
+
+  const outPath = args.out || getPrecomputedEmbeddingsPath(provider);
+  await writeEmbeddings(provider, materials, outPath, Boolean(args.course), "materials");
+
+  // Passages, embedded exactly as createPassageRetriever indexes them
+  const chunker = new MaterialChunker();
+  const materialsById = new Map(materials.map((m) => [m.id, m]));
+  const passages = chunker
+    .chunkAll(materials)
+    .map((chunk) => toChunkDocument(materialsById.get(chunk.materialId)!, chunk));
+
+  const passagesOutPath = args.out
+    ? args.out.replace(/(\.json)?$/, `.${chunker.signature}.json`)
+    : getPrecomputedEmbeddingsPath({ id: getVectorNamespace(provider, chunker.signature) });
+  await writeEmbeddings(provider, passages, passagesOutPath, Boolean(args.course), "passages");
+}
+
+main().catch((error) => {
+  console.error("[Embeddings] Precompute failed:", error);
+  process.exit(1);
+});